@@ -0,0 +1,262 @@
+/**
+ * Tests for /api/v1/admin/payments/:id/refunds
+ */
+
+import { NextRequest } from 'next/server';
+import { createMockUser, createMockAdmin, resetFactories, UserRole } from '../../helpers/factories';
+import { createMockSession } from '../../helpers/auth-mock';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+// Mock auth module
+const mockGetSession = jest.fn();
+jest.mock('@/lib/auth', () => ({
+    auth: {
+        api: {
+            getSession: (...args: unknown[]) => mockGetSession(...args),
+        },
+    },
+}));
+
+// Mock the Square refund call
+const mockRefundSquarePayment = jest.fn();
+jest.mock('@/lib/square', () => ({
+    refundSquarePayment: (...args: unknown[]) => mockRefundSquarePayment(...args),
+}));
+
+import { GET, POST } from '@/app/api/v1/admin/payments/[id]/refunds/route';
+
+describe('/api/v1/admin/payments/:id/refunds', () => {
+    const admin = createMockAdmin({ id: 'admin_1' });
+    const payment = {
+        id: 'pay_1',
+        consultationId: 'consult_1',
+        status: 'PAID',
+        amount: 15000,
+        currency: 'USD',
+        refundedAmount: 0,
+        providerPaymentId: 'square_payment_1',
+    };
+
+    beforeEach(() => {
+        resetFactories();
+        resetPrismaMock();
+        setupPrismaMock();
+        mockGetSession.mockReset();
+        mockRefundSquarePayment.mockReset();
+
+        mockGetSession.mockResolvedValue(createMockSession(admin));
+        prismaMock.payment.findUnique.mockResolvedValue(payment as any);
+        prismaMock.payment.updateMany.mockResolvedValue({ count: 1 });
+        prismaMock.payment.update.mockResolvedValue({ amount: 15000, consultationId: 'consult_1' } as any);
+        prismaMock.refund.create.mockImplementation(async ({ data }: any) => ({
+            id: 'refund_1',
+            status: 'PENDING',
+            providerRefundId: null,
+            completedAt: null,
+            createdAt: new Date(),
+            ...data,
+        }));
+        prismaMock.refund.updateMany.mockResolvedValue({ count: 1 });
+        mockRefundSquarePayment.mockResolvedValue({ refundId: 'square_refund_1', status: 'PENDING' });
+    });
+
+    function createRequest(body: unknown): NextRequest {
+        return new NextRequest('http://localhost:3000/api/v1/admin/payments/pay_1/refunds', {
+            method: 'POST',
+            body: JSON.stringify(body),
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    const routeParams = { params: Promise.resolve({ id: 'pay_1' }) };
+
+    describe('POST', () => {
+        it('should return 401 when not authenticated', async () => {
+            mockGetSession.mockResolvedValue(null);
+            const response = await POST(createRequest({ reason: 'CUSTOMER_REQUEST' }), routeParams);
+            expect(response.status).toBe(401);
+        });
+
+        it('should return 403 when user is not an ADMIN', async () => {
+            const doctor = createMockUser({ role: UserRole.DOCTOR });
+            mockGetSession.mockResolvedValue(createMockSession(doctor));
+
+            const response = await POST(createRequest({ reason: 'CUSTOMER_REQUEST' }), routeParams);
+
+            expect(response.status).toBe(403);
+            expect(mockRefundSquarePayment).not.toHaveBeenCalled();
+        });
+
+        it('should reject an unknown reason code', async () => {
+            const response = await POST(createRequest({ amount: 1000, reason: 'BECAUSE' }), routeParams);
+
+            expect(response.status).toBe(400);
+            const body = await response.json();
+            expect(body.error.details.field).toBe('reason');
+        });
+
+        it.each([0, -5, 10.5, '1000'])('should reject amount %p', async (amount) => {
+            const response = await POST(createRequest({ amount, reason: 'CUSTOMER_REQUEST' }), routeParams);
+
+            expect(response.status).toBe(400);
+            const body = await response.json();
+            expect(body.error.details.field).toBe('amount');
+        });
+
+        it('should return 404 for an unknown payment', async () => {
+            prismaMock.payment.findUnique.mockResolvedValue(null);
+
+            const response = await POST(createRequest({ reason: 'CUSTOMER_REQUEST' }), routeParams);
+
+            expect(response.status).toBe(404);
+        });
+
+        it('should return 409 for a payment that was never captured', async () => {
+            prismaMock.payment.findUnique.mockResolvedValue({ ...payment, status: 'PENDING' } as any);
+
+            const response = await POST(createRequest({ reason: 'CUSTOMER_REQUEST' }), routeParams);
+
+            expect(response.status).toBe(409);
+        });
+
+        it('should issue a partial refund with a reason and note', async () => {
+            const response = await POST(
+                createRequest({ amount: 5000, reason: 'SERVICE_ISSUE', note: ' Poor video quality ' }),
+                routeParams
+            );
+
+            expect(response.status).toBe(201);
+            expect(mockRefundSquarePayment).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    paymentId: 'square_payment_1',
+                    amount: 5000,
+                    idempotencyKey: 'refund-refund_1',
+                })
+            );
+            expect(prismaMock.refund.create).toHaveBeenCalledWith({
+                data: {
+                    paymentId: 'pay_1',
+                    amount: 5000,
+                    currency: 'USD',
+                    reason: 'SERVICE_ISSUE',
+                    note: 'Poor video quality',
+                    initiatedByUserId: 'admin_1',
+                },
+            });
+            expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    actorUserId: 'admin_1',
+                    consultationId: 'consult_1',
+                    eventType: 'REFUND_REQUESTED',
+                }),
+            });
+
+            const body = await response.json();
+            expect(body.refund).toEqual(
+                expect.objectContaining({ id: 'refund_1', amount: 5000, status: 'PENDING', providerRefundId: 'square_refund_1' })
+            );
+        });
+
+        it('should default to refunding what is left of the payment', async () => {
+            prismaMock.payment.findUnique.mockResolvedValue({
+                ...payment,
+                status: 'PARTIALLY_REFUNDED',
+                refundedAmount: 5000,
+            } as any);
+
+            const response = await POST(createRequest({ reason: 'CUSTOMER_REQUEST' }), routeParams);
+
+            expect(response.status).toBe(201);
+            expect(mockRefundSquarePayment).toHaveBeenCalledWith(expect.objectContaining({ amount: 10000 }));
+            expect(prismaMock.payment.updateMany).toHaveBeenCalledWith({
+                where: { id: 'pay_1', status: { in: ['PAID', 'PARTIALLY_REFUNDED'] }, refundedAmount: 5000 },
+                data: { refundedAmount: { increment: 10000 } },
+            });
+        });
+
+        it('should not refund more than is left of the payment', async () => {
+            prismaMock.payment.findUnique.mockResolvedValue({ ...payment, refundedAmount: 12000 } as any);
+
+            const response = await POST(createRequest({ amount: 5000, reason: 'CUSTOMER_REQUEST' }), routeParams);
+
+            expect(response.status).toBe(400);
+            const body = await response.json();
+            expect(body.error.details.refundableAmount).toBe(3000);
+            expect(mockRefundSquarePayment).not.toHaveBeenCalled();
+        });
+
+        it('should return 409 when another refund changed the payment concurrently', async () => {
+            prismaMock.payment.updateMany.mockResolvedValue({ count: 0 });
+
+            const response = await POST(createRequest({ amount: 5000, reason: 'CUSTOMER_REQUEST' }), routeParams);
+
+            expect(response.status).toBe(409);
+            expect(prismaMock.refund.create).not.toHaveBeenCalled();
+            expect(mockRefundSquarePayment).not.toHaveBeenCalled();
+        });
+
+        it('should return 502 and record the failure when Square rejects the refund', async () => {
+            mockRefundSquarePayment.mockRejectedValue(new Error('Square refund failed: insufficient funds'));
+
+            const response = await POST(createRequest({ amount: 5000, reason: 'CUSTOMER_REQUEST' }), routeParams);
+
+            expect(response.status).toBe(502);
+            const body = await response.json();
+            expect(body.error.details.refund.status).toBe('FAILED');
+            expect(prismaMock.payment.update).toHaveBeenCalledWith(
+                expect.objectContaining({ data: { refundedAmount: { decrement: 5000 } } })
+            );
+        });
+
+        it('should leave the refund PENDING when recording an accepted refund fails', async () => {
+            mockRefundSquarePayment.mockResolvedValue({ refundId: 'square_refund_1', status: 'COMPLETED' });
+            // The reservation goes through; recording Square's answer does not
+            prismaMock.$transaction
+                .mockImplementationOnce(async (fn: any) => fn(prismaMock))
+                .mockRejectedValueOnce(new Error('Database unavailable'));
+
+            const response = await POST(createRequest({ amount: 5000, reason: 'CUSTOMER_REQUEST' }), routeParams);
+
+            expect(response.status).toBe(201);
+            const body = await response.json();
+            expect(body.refund.status).toBe('PENDING');
+            // The reserved amount is not released
+            expect(prismaMock.payment.update).not.toHaveBeenCalled();
+            expect(prismaMock.refund.updateMany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('GET', () => {
+        it('should return 403 when user is not an ADMIN', async () => {
+            mockGetSession.mockResolvedValue(createMockSession(createMockUser()));
+
+            const response = await GET(
+                new NextRequest('http://localhost:3000/api/v1/admin/payments/pay_1/refunds'),
+                routeParams
+            );
+
+            expect(response.status).toBe(403);
+        });
+
+        it('should list the refunds of a payment', async () => {
+            prismaMock.payment.findUnique.mockResolvedValue({
+                ...payment,
+                status: 'PARTIALLY_REFUNDED',
+                refundedAmount: 5000,
+                refunds: [{ id: 'refund_1', amount: 5000, status: 'COMPLETED', reason: 'SERVICE_ISSUE' }],
+            } as any);
+
+            const response = await GET(
+                new NextRequest('http://localhost:3000/api/v1/admin/payments/pay_1/refunds'),
+                routeParams
+            );
+
+            expect(response.status).toBe(200);
+            const body = await response.json();
+            expect(body.payment).toEqual(
+                expect.objectContaining({ refundedAmount: 5000, refundableAmount: 10000 })
+            );
+            expect(body.refunds).toHaveLength(1);
+        });
+    });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for /api/v1/admin/promo-codes
+ */
+
+import { NextRequest } from 'next/server';
+import { createMockUser, createMockAdmin, createMockPromoCode, resetFactories } from '../../helpers/factories';
+import { createMockSession } from '../../helpers/auth-mock';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+// Mock auth module
+const mockGetSession = jest.fn();
+jest.mock('@/lib/auth', () => ({
+    auth: {
+        api: {
+            getSession: (...args: unknown[]) => mockGetSession(...args),
+        },
+    },
+}));
+
+import { GET as listPromoCodes, POST as createPromoCode } from '@/app/api/v1/admin/promo-codes/route';
+import { PATCH as updatePromoCode } from '@/app/api/v1/admin/promo-codes/[id]/route';
+
+describe('/api/v1/admin/promo-codes', () => {
+    const admin = createMockAdmin({ id: 'admin_1' });
+
+    beforeEach(() => {
+        resetFactories();
+        resetPrismaMock();
+        setupPrismaMock();
+        mockGetSession.mockReset();
+        mockGetSession.mockResolvedValue(createMockSession(admin));
+    });
+
+    function jsonRequest(path: string, method: string, body: unknown) {
+        return new NextRequest(`http://localhost:3000${path}`, {
+            method,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+    }
+
+    function routeParams(id: string) {
+        return { params: Promise.resolve({ id }) };
+    }
+
+    describe('GET /api/v1/admin/promo-codes', () => {
+        it('should return 403 when user is not an ADMIN', async () => {
+            mockGetSession.mockResolvedValue(createMockSession(createMockUser()));
+
+            const response = await listPromoCodes();
+
+            expect(response.status).toBe(403);
+        });
+
+        it('should list codes with their redemption counts', async () => {
+            prismaMock.promoCode.findMany.mockResolvedValue([
+                { ...createMockPromoCode({ id: 'promo_1' }), _count: { payments: 3 } },
+            ]);
+
+            const response = await listPromoCodes();
+
+            expect(response.status).toBe(200);
+            const body = await response.json();
+            expect(body.data).toEqual([expect.objectContaining({ id: 'promo_1', redemptions: 3 })]);
+            expect(body.data[0]._count).toBeUndefined();
+        });
+    });
+
+    describe('POST /api/v1/admin/promo-codes', () => {
+        it('should create a fixed-amount code limited to a specialty', async () => {
+            prismaMock.promoCode.create.mockImplementation(async ({ data }: any) =>
+                createMockPromoCode({ id: 'promo_1', ...data })
+            );
+
+            const response = await createPromoCode(
+                jsonRequest('/api/v1/admin/promo-codes', 'POST', {
+                    code: 'derm20',
+                    discountType: 'FIXED_AMOUNT',
+                    amountOff: 2000,
+                    expiresAt: '2026-12-31T23:59:59Z',
+                    maxRedemptions: 100,
+                    maxRedemptionsPerPatient: 1,
+                    specialties: ['DERMATOLOGY'],
+                })
+            );
+
+            expect(response.status).toBe(201);
+            expect(prismaMock.promoCode.create).toHaveBeenCalledWith({
+                data: {
+                    code: 'DERM20',
+                    discountType: 'FIXED_AMOUNT',
+                    amountOff: 2000,
+                    currency: 'USD',
+                    expiresAt: new Date('2026-12-31T23:59:59Z'),
+                    maxRedemptions: 100,
+                    maxRedemptionsPerPatient: 1,
+                    specialties: ['DERMATOLOGY'],
+                },
+            });
+        });
+
+        it('should reject invalid fields', async () => {
+            const cases = [
+                [{ code: 'x', discountType: 'PERCENTAGE', percentOff: 10 }, 'code'],
+                [{ code: 'SAVE', discountType: 'FREE' }, 'discountType'],
+                [{ code: 'SAVE', discountType: 'PERCENTAGE', percentOff: 150 }, 'percentOff'],
+                [{ code: 'SAVE', discountType: 'PERCENTAGE', percentOff: 100 }, 'percentOff'],
+                [{ code: 'SAVE', discountType: 'FIXED_AMOUNT', amountOff: 0 }, 'amountOff'],
+                [{ code: 'SAVE', discountType: 'FIXED_AMOUNT', amountOff: 500, currency: 'usd' }, 'currency'],
+                [{ code: 'SAVE', discountType: 'PERCENTAGE', percentOff: 10, expiresAt: 'soon' }, 'expiresAt'],
+                [{ code: 'SAVE', discountType: 'PERCENTAGE', percentOff: 10, maxRedemptions: 0 }, 'maxRedemptions'],
+                [{ code: 'SAVE', discountType: 'PERCENTAGE', percentOff: 10, specialties: ['TELEPATHY'] }, 'specialties'],
+            ] as const;
+
+            for (const [input, field] of cases) {
+                const response = await createPromoCode(jsonRequest('/api/v1/admin/promo-codes', 'POST', input));
+
+                expect(response.status).toBe(400);
+                const body = await response.json();
+                expect(body.error.details).toEqual({ field });
+            }
+            expect(prismaMock.promoCode.create).not.toHaveBeenCalled();
+        });
+
+        it('should return 409 when the code already exists', async () => {
+            prismaMock.promoCode.create.mockRejectedValue({ code: 'P2002' });
+
+            const response = await createPromoCode(
+                jsonRequest('/api/v1/admin/promo-codes', 'POST', {
+                    code: 'WELCOME10',
+                    discountType: 'PERCENTAGE',
+                    percentOff: 10,
+                })
+            );
+
+            expect(response.status).toBe(409);
+        });
+    });
+
+    describe('PATCH /api/v1/admin/promo-codes/:id', () => {
+        it('should deactivate a code and change its limits', async () => {
+            prismaMock.promoCode.findUnique.mockResolvedValue(createMockPromoCode({ id: 'promo_1' }));
+            prismaMock.promoCode.update.mockImplementation(async ({ data }: any) =>
+                createMockPromoCode({ id: 'promo_1', ...data })
+            );
+
+            const response = await updatePromoCode(
+                jsonRequest('/api/v1/admin/promo-codes/promo_1', 'PATCH', { active: false, maxRedemptions: null }),
+                routeParams('promo_1')
+            );
+
+            expect(response.status).toBe(200);
+            expect(prismaMock.promoCode.update).toHaveBeenCalledWith({
+                where: { id: 'promo_1' },
+                data: { active: false, maxRedemptions: null },
+            });
+        });
+
+        it('should not allow the discount to change', async () => {
+            prismaMock.promoCode.findUnique.mockResolvedValue(createMockPromoCode({ id: 'promo_1' }));
+
+            const response = await updatePromoCode(
+                jsonRequest('/api/v1/admin/promo-codes/promo_1', 'PATCH', { percentOff: 50 }),
+                routeParams('promo_1')
+            );
+
+            expect(response.status).toBe(400);
+            const body = await response.json();
+            expect(body.error.details).toEqual({ field: 'percentOff' });
+            expect(prismaMock.promoCode.update).not.toHaveBeenCalled();
+        });
+
+        it('should return 404 for an unknown code', async () => {
+            prismaMock.promoCode.findUnique.mockResolvedValue(null);
+
+            const response = await updatePromoCode(
+                jsonRequest('/api/v1/admin/promo-codes/missing', 'PATCH', { active: false }),
+                routeParams('missing')
+            );
+
+            expect(response.status).toBe(404);
+        });
+    });
+});
@@ -0,0 +1,302 @@
+/**
+ * Tests for /api/v1/admin/specialties
+ */
+
+import { NextRequest } from 'next/server';
+import { createMockUser, createMockAdmin, createMockSpecialty, resetFactories } from '../../helpers/factories';
+import { createMockSession } from '../../helpers/auth-mock';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+// Mock auth module
+const mockGetSession = jest.fn();
+jest.mock('@/lib/auth', () => ({
+    auth: {
+        api: {
+            getSession: (...args: unknown[]) => mockGetSession(...args),
+        },
+    },
+}));
+
+import { GET as listSpecialties, POST as createSpecialty } from '@/app/api/v1/admin/specialties/route';
+import { PATCH as updateSpecialty, DELETE as deleteSpecialty } from '@/app/api/v1/admin/specialties/[id]/route';
+import { GET as listBookableSpecialties } from '@/app/api/v1/specialties/route';
+
+describe('/api/v1/admin/specialties', () => {
+    const admin = createMockAdmin({ id: 'admin_1' });
+
+    beforeEach(() => {
+        resetFactories();
+        resetPrismaMock();
+        setupPrismaMock();
+        mockGetSession.mockReset();
+        mockGetSession.mockResolvedValue(createMockSession(admin));
+    });
+
+    function jsonRequest(path: string, method: string, body: unknown) {
+        return new NextRequest(`http://localhost:3000${path}`, {
+            method,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+    }
+
+    function routeParams(id: string) {
+        return { params: Promise.resolve({ id }) };
+    }
+
+    describe('GET /api/v1/admin/specialties', () => {
+        it('should return 403 when user is not an ADMIN', async () => {
+            mockGetSession.mockResolvedValue(createMockSession(createMockUser()));
+
+            const response = await listSpecialties();
+
+            expect(response.status).toBe(403);
+        });
+
+        it('should list the whole catalog, including deactivated specialties', async () => {
+            const response = await listSpecialties();
+
+            expect(response.status).toBe(200);
+            const body = await response.json();
+            expect(body.data).toHaveLength(6);
+            expect(prismaMock.specialty.findMany).toHaveBeenCalledWith({
+                where: undefined,
+                orderBy: { label: 'asc' },
+                include: { prices: true },
+            });
+        });
+    });
+
+    describe('POST /api/v1/admin/specialties', () => {
+        it('should create a specialty with catalog defaults', async () => {
+            prismaMock.specialty.create.mockImplementation(async ({ data }: any) => createMockSpecialty(data));
+
+            const response = await createSpecialty(
+                jsonRequest('/api/v1/admin/specialties', 'POST', {
+                    id: 'SLEEP_MEDICINE',
+                    label: '  Sleep Medicine ',
+                    price: 9000,
+                })
+            );
+
+            expect(response.status).toBe(201);
+            expect(prismaMock.specialty.create).toHaveBeenCalledWith({
+                data: { id: 'SLEEP_MEDICINE', label: 'Sleep Medicine', price: 9000 },
+                include: { prices: true },
+            });
+            const body = await response.json();
+            expect(body).toMatchObject({ id: 'SLEEP_MEDICINE', currency: 'USD', durationMinutes: 30, active: true });
+        });
+
+        it('should create prices in other currencies', async () => {
+            prismaMock.specialty.create.mockImplementation(async ({ data }: any) => createMockSpecialty(data));
+
+            const response = await createSpecialty(
+                jsonRequest('/api/v1/admin/specialties', 'POST', {
+                    id: 'SLEEP_MEDICINE',
+                    label: 'Sleep Medicine',
+                    price: 9000,
+                    prices: [
+                        { currency: 'GBP', price: 7500 },
+                        { currency: 'EUR', price: 8500 },
+                    ],
+                })
+            );
+
+            expect(response.status).toBe(201);
+            expect(prismaMock.specialty.create).toHaveBeenCalledWith({
+                data: {
+                    id: 'SLEEP_MEDICINE',
+                    label: 'Sleep Medicine',
+                    price: 9000,
+                    prices: {
+                        create: [
+                            { currency: 'GBP', price: 7500 },
+                            { currency: 'EUR', price: 8500 },
+                        ],
+                    },
+                },
+                include: { prices: true },
+            });
+        });
+
+        it('should reject invalid fields', async () => {
+            const cases = [
+                [{ id: 'sleep', label: 'Sleep', price: 9000 }, 'id'],
+                [{ id: 'SLEEP', price: 9000 }, 'label'],
+                [{ id: 'SLEEP', label: 'Sleep', price: 90.5 }, 'price'],
+                [{ id: 'SLEEP', label: 'Sleep', price: 9000, currency: 'usd' }, 'currency'],
+                [{ id: 'SLEEP', label: 'Sleep', price: 9000, currency: 'JPY' }, 'currency'],
+                [{ id: 'SLEEP', label: 'Sleep', price: 9000, prices: [{ currency: 'USD', price: 9000 }] }, 'prices'],
+                [{ id: 'SLEEP', label: 'Sleep', price: 9000, prices: [{ currency: 'GBP', price: 0 }] }, 'prices'],
+                [{ id: 'SLEEP', label: 'Sleep', price: 9000, durationMinutes: 3 }, 'durationMinutes'],
+            ] as const;
+
+            for (const [input, field] of cases) {
+                const response = await createSpecialty(jsonRequest('/api/v1/admin/specialties', 'POST', input));
+
+                expect(response.status).toBe(400);
+                const body = await response.json();
+                expect(body.error.details).toEqual({ field });
+            }
+            expect(prismaMock.specialty.create).not.toHaveBeenCalled();
+        });
+
+        it('should return 409 when the specialty already exists', async () => {
+            prismaMock.specialty.create.mockRejectedValue({ code: 'P2002' });
+
+            const response = await createSpecialty(
+                jsonRequest('/api/v1/admin/specialties', 'POST', { id: 'CARDIOLOGY', label: 'Cardiology', price: 15000 })
+            );
+
+            expect(response.status).toBe(409);
+        });
+    });
+
+    describe('PATCH /api/v1/admin/specialties/:id', () => {
+        it('should update price and deactivate a specialty', async () => {
+            prismaMock.specialty.update.mockImplementation(async ({ data }: any) =>
+                createMockSpecialty({ id: 'ORTHOPEDICS', label: 'Orthopedics', ...data })
+            );
+
+            const response = await updateSpecialty(
+                jsonRequest('/api/v1/admin/specialties/ORTHOPEDICS', 'PATCH', { price: 12500, active: false }),
+                routeParams('ORTHOPEDICS')
+            );
+
+            expect(response.status).toBe(200);
+            expect(prismaMock.specialty.update).toHaveBeenCalledWith({
+                where: { id: 'ORTHOPEDICS' },
+                data: { price: 12500, active: false },
+                include: { prices: true },
+            });
+        });
+
+        it('should replace the prices in other currencies', async () => {
+            prismaMock.specialty.update.mockImplementation(async ({ data }: any) =>
+                createMockSpecialty({ id: 'ORTHOPEDICS', label: 'Orthopedics', ...data })
+            );
+
+            const response = await updateSpecialty(
+                jsonRequest('/api/v1/admin/specialties/ORTHOPEDICS', 'PATCH', {
+                    prices: [{ currency: 'EUR', price: 11000 }],
+                }),
+                routeParams('ORTHOPEDICS')
+            );
+
+            expect(response.status).toBe(200);
+            expect(prismaMock.specialty.update).toHaveBeenCalledWith({
+                where: { id: 'ORTHOPEDICS' },
+                data: { prices: { deleteMany: {}, create: [{ currency: 'EUR', price: 11000 }] } },
+                include: { prices: true },
+            });
+        });
+
+        it('should not allow the id to change', async () => {
+            const response = await updateSpecialty(
+                jsonRequest('/api/v1/admin/specialties/ORTHOPEDICS', 'PATCH', { id: 'BONES' }),
+                routeParams('ORTHOPEDICS')
+            );
+
+            expect(response.status).toBe(400);
+            expect(prismaMock.specialty.update).not.toHaveBeenCalled();
+        });
+
+        it('should return 404 for an unknown specialty', async () => {
+            const response = await updateSpecialty(
+                jsonRequest('/api/v1/admin/specialties/NEUROLOGY', 'PATCH', { price: 10000 }),
+                routeParams('NEUROLOGY')
+            );
+
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe('DELETE /api/v1/admin/specialties/:id', () => {
+        it('should refuse to delete a specialty that is in use', async () => {
+            prismaMock.consultation.count.mockResolvedValue(3);
+            prismaMock.doctorProfile.count.mockResolvedValue(1);
+
+            const response = await deleteSpecialty(
+                new NextRequest('http://localhost:3000/api/v1/admin/specialties/CARDIOLOGY', { method: 'DELETE' }),
+                routeParams('CARDIOLOGY')
+            );
+
+            expect(response.status).toBe(409);
+            const body = await response.json();
+            expect(body.error.details).toEqual({ consultations: 3, doctors: 1 });
+            expect(prismaMock.specialty.delete).not.toHaveBeenCalled();
+        });
+
+        it('should delete an unused specialty', async () => {
+            prismaMock.consultation.count.mockResolvedValue(0);
+            prismaMock.doctorProfile.count.mockResolvedValue(0);
+
+            const response = await deleteSpecialty(
+                new NextRequest('http://localhost:3000/api/v1/admin/specialties/ORTHOPEDICS', { method: 'DELETE' }),
+                routeParams('ORTHOPEDICS')
+            );
+
+            expect(response.status).toBe(200);
+            expect(prismaMock.specialty.delete).toHaveBeenCalledWith({ where: { id: 'ORTHOPEDICS' } });
+        });
+    });
+
+    describe('GET /api/v1/specialties', () => {
+        it('should list only active specialties', async () => {
+            mockGetSession.mockResolvedValue(createMockSession(createMockUser()));
+            prismaMock.specialty.findMany.mockResolvedValue([
+                createMockSpecialty({ id: 'CARDIOLOGY', label: 'Cardiology', price: 15000 }),
+            ]);
+
+            const response = await listBookableSpecialties(new NextRequest('http://localhost:3000/api/v1/specialties'));
+
+            expect(response.status).toBe(200);
+            expect(prismaMock.specialty.findMany).toHaveBeenCalledWith({
+                where: { active: true },
+                orderBy: { label: 'asc' },
+                include: { prices: true },
+            });
+            const body = await response.json();
+            expect(body.specialties).toEqual([
+                { id: 'CARDIOLOGY', label: 'Cardiology', price: 15000, currency: 'USD', durationMinutes: 30 },
+            ]);
+        });
+
+        it('should quote prices in the requested currency when the specialty has one', async () => {
+            mockGetSession.mockResolvedValue(createMockSession(createMockUser()));
+            prismaMock.specialty.findMany.mockResolvedValue([
+                createMockSpecialty({
+                    id: 'CARDIOLOGY',
+                    label: 'Cardiology',
+                    price: 15000,
+                    prices: [{ id: 'sp_1', specialtyId: 'CARDIOLOGY', currency: 'GBP', price: 12000 }],
+                }),
+                createMockSpecialty({ id: 'DERMATOLOGY', label: 'Dermatology', price: 9000 }),
+            ]);
+
+            const response = await listBookableSpecialties(
+                new NextRequest('http://localhost:3000/api/v1/specialties?currency=GBP')
+            );
+
+            expect(response.status).toBe(200);
+            const body = await response.json();
+            expect(body.specialties).toEqual([
+                expect.objectContaining({ id: 'CARDIOLOGY', price: 12000, currency: 'GBP' }),
+                expect.objectContaining({ id: 'DERMATOLOGY', price: 9000, currency: 'USD' }),
+            ]);
+        });
+
+        it('should reject an unsupported currency', async () => {
+            mockGetSession.mockResolvedValue(createMockSession(createMockUser()));
+
+            const response = await listBookableSpecialties(
+                new NextRequest('http://localhost:3000/api/v1/specialties?currency=JPY')
+            );
+
+            expect(response.status).toBe(400);
+            const body = await response.json();
+            expect(body.error.details).toMatchObject({ field: 'currency' });
+        });
+    });
+});
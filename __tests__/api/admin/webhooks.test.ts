@@ -0,0 +1,167 @@
+/**
+ * Tests for /api/v1/admin/webhooks
+ */
+
+import { NextRequest } from 'next/server';
+import { createMockUser, createMockAdmin, resetFactories } from '../../helpers/factories';
+import { createMockSession } from '../../helpers/auth-mock';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+// Mock auth module
+const mockGetSession = jest.fn();
+jest.mock('@/lib/auth', () => ({
+    auth: {
+        api: {
+            getSession: (...args: unknown[]) => mockGetSession(...args),
+        },
+    },
+}));
+
+jest.mock('@/lib/redis', () => ({
+    getRedis: async () => null,
+    slotLockKey: (doctorId: string, scheduledStartAtMs: number) => `slotlock:${doctorId}:${scheduledStartAtMs}`,
+}));
+
+import { GET as listWebhooks } from '@/app/api/v1/admin/webhooks/route';
+import { GET as getWebhook } from '@/app/api/v1/admin/webhooks/[id]/route';
+import { POST as replayWebhook } from '@/app/api/v1/admin/webhooks/[id]/replay/route';
+
+describe('/api/v1/admin/webhooks', () => {
+    const admin = createMockAdmin({ id: 'admin_1' });
+    const failedEvent = {
+        id: 'whevt_1',
+        provider: 'SQUARE',
+        eventId: 'evt_1',
+        eventType: 'payment.updated',
+        payload: {
+            type: 'payment.updated',
+            event_id: 'evt_1',
+            data: { object: { payment: { id: 'square_payment_1', order_id: 'order_1', status: 'FAILED' } } },
+        },
+        status: 'FAILED',
+        attempts: 1,
+        lastError: 'Database unavailable',
+    };
+    const routeParams = { params: Promise.resolve({ id: 'whevt_1' }) };
+
+    beforeEach(() => {
+        resetFactories();
+        resetPrismaMock();
+        setupPrismaMock();
+        mockGetSession.mockReset();
+        mockGetSession.mockResolvedValue(createMockSession(admin));
+    });
+
+    describe('GET /api/v1/admin/webhooks', () => {
+        it('should return 403 when user is not an ADMIN', async () => {
+            mockGetSession.mockResolvedValue(createMockSession(createMockUser()));
+
+            const response = await listWebhooks(new NextRequest('http://localhost:3000/api/v1/admin/webhooks'));
+
+            expect(response.status).toBe(403);
+        });
+
+        it('should list events filtered by status', async () => {
+            prismaMock.webhookEvent.findMany.mockResolvedValue([failedEvent]);
+            prismaMock.webhookEvent.count.mockResolvedValue(1);
+
+            const response = await listWebhooks(
+                new NextRequest('http://localhost:3000/api/v1/admin/webhooks?status=FAILED&limit=10')
+            );
+
+            expect(response.status).toBe(200);
+            const body = await response.json();
+            expect(body.data).toHaveLength(1);
+            expect(body.meta).toEqual({ page: 1, limit: 10, total: 1, totalPages: 1 });
+            expect(prismaMock.webhookEvent.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { status: 'FAILED' }, take: 10 })
+            );
+        });
+
+        it('should reject an invalid status', async () => {
+            const response = await listWebhooks(
+                new NextRequest('http://localhost:3000/api/v1/admin/webhooks?status=DONE')
+            );
+
+            expect(response.status).toBe(400);
+        });
+    });
+
+    describe('GET /api/v1/admin/webhooks/:id', () => {
+        it('should return the event with its payload', async () => {
+            prismaMock.webhookEvent.findUnique.mockResolvedValue(failedEvent);
+
+            const response = await getWebhook(new NextRequest('http://localhost:3000/api/v1/admin/webhooks/whevt_1'), routeParams);
+
+            expect(response.status).toBe(200);
+            const body = await response.json();
+            expect(body.payload).toEqual(failedEvent.payload);
+        });
+
+        it('should return 404 for an unknown event', async () => {
+            prismaMock.webhookEvent.findUnique.mockResolvedValue(null);
+
+            const response = await getWebhook(new NextRequest('http://localhost:3000/api/v1/admin/webhooks/whevt_1'), routeParams);
+
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe('POST /api/v1/admin/webhooks/:id/replay', () => {
+        function replay() {
+            return replayWebhook(
+                new NextRequest('http://localhost:3000/api/v1/admin/webhooks/whevt_1/replay', { method: 'POST' }),
+                routeParams
+            );
+        }
+
+        it('should return 403 when user is not an ADMIN', async () => {
+            mockGetSession.mockResolvedValue(createMockSession(createMockUser()));
+
+            const response = await replay();
+
+            expect(response.status).toBe(403);
+        });
+
+        it('should only replay failed events', async () => {
+            prismaMock.webhookEvent.findUnique.mockResolvedValue({ ...failedEvent, status: 'PROCESSED' });
+
+            const response = await replay();
+
+            expect(response.status).toBe(409);
+            expect(prismaMock.webhookEvent.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('should process a failed event again and audit the replay', async () => {
+            prismaMock.webhookEvent.findUnique.mockResolvedValue(failedEvent);
+            prismaMock.payment.findFirst.mockResolvedValue({ id: 'pay_1', consultationId: 'consult_1', status: 'PENDING' } as any);
+
+            const response = await replay();
+
+            expect(response.status).toBe(200);
+            const body = await response.json();
+            expect(body.status).toBe('PROCESSED');
+            expect(prismaMock.payment.update).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { id: 'pay_1', status: { in: ['PENDING', 'FAILED'] } }, data: expect.objectContaining({ status: 'FAILED' }) })
+            );
+            expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    actorUserId: 'admin_1',
+                    eventType: 'WEBHOOK_REPLAYED',
+                    eventMetadata: expect.objectContaining({ webhookEventId: 'whevt_1', status: 'PROCESSED' }),
+                }),
+            });
+        });
+
+        it('should report a replay that fails again', async () => {
+            prismaMock.webhookEvent.findUnique.mockResolvedValue(failedEvent);
+            prismaMock.payment.findFirst.mockRejectedValue(new Error('Database unavailable'));
+
+            const response = await replay();
+
+            expect(response.status).toBe(200);
+            const body = await response.json();
+            expect(body).toEqual(expect.objectContaining({ status: 'FAILED', error: 'Database unavailable' }));
+        });
+    });
+});
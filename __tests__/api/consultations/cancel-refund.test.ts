@@ -0,0 +1,265 @@
+/**
+ * Tests for refunds when cancelling a paid consultation
+ *
+ * Patients are refunded according to the cancellation policy (full / partial / none
+ * depending on notice); doctor and admin cancellations are always refunded in full.
+ */
+
+import { NextRequest } from 'next/server';
+import { DateTime } from 'luxon';
+import { createMockUser, createMockDoctor, createMockConsultation, resetFactories, ConsultationStatus } from '../../helpers/factories';
+import { createMockSession } from '../../helpers/auth-mock';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+// Mock auth module
+const mockGetSession = jest.fn();
+jest.mock('@/lib/auth', () => ({
+  auth: {
+    api: {
+      getSession: (...args: unknown[]) => mockGetSession(...args),
+    },
+  },
+}));
+
+// Mock the Square refund call
+const mockRefundSquarePayment = jest.fn();
+jest.mock('@/lib/square', () => ({
+  refundSquarePayment: (...args: unknown[]) => mockRefundSquarePayment(...args),
+}));
+
+// Import route handlers after mocks are set up
+import { POST as cancelConsultation } from '@/app/api/v1/consultations/[id]/cancel/route';
+import { PATCH } from '@/app/api/v1/consultations/[id]/route';
+
+describe('Cancellation refunds', () => {
+  const patient = createMockUser({ id: 'patient_1' });
+  const payment = {
+    id: 'pay_1',
+    consultationId: 'consult_1',
+    status: 'PAID',
+    amount: 15000,
+    currency: 'USD',
+    refundedAmount: 0,
+    providerPaymentId: 'square_payment_1',
+  };
+
+  beforeEach(() => {
+    resetFactories();
+    resetPrismaMock();
+    setupPrismaMock();
+    mockGetSession.mockReset();
+    mockRefundSquarePayment.mockReset();
+
+    prismaMock.payment.findFirst.mockResolvedValue(payment as any);
+    prismaMock.payment.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.payment.update.mockResolvedValue({ amount: 15000, consultationId: 'consult_1' } as any);
+    prismaMock.payment.findUniqueOrThrow.mockResolvedValue({ amount: 15000 } as any);
+    prismaMock.refund.create.mockImplementation(async ({ data }: any) => ({
+      id: 'refund_1',
+      status: 'PENDING',
+      providerRefundId: null,
+      completedAt: null,
+      createdAt: new Date(),
+      ...data,
+    }));
+    prismaMock.refund.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.refund.aggregate.mockResolvedValue({ _sum: { amount: 15000 } });
+    mockRefundSquarePayment.mockResolvedValue({ refundId: 'square_refund_1', status: 'PENDING' });
+  });
+
+  function mockPaidConsultation(hoursUntilStart: number, specialty = 'CARDIOLOGY') {
+    const consultation = createMockConsultation({
+      id: 'consult_1',
+      patientId: patient.id,
+      doctorId: 'doctor_1',
+      specialty,
+      status: ConsultationStatus.PAID,
+      scheduledStartAt: DateTime.utc().plus({ hours: hoursUntilStart }).toJSDate(),
+    });
+    prismaMock.consultation.findUnique.mockResolvedValue(consultation as any);
+    return consultation;
+  }
+
+  async function cancelAsPatient() {
+    mockGetSession.mockResolvedValue(createMockSession(patient));
+    const response = await cancelConsultation(
+      new NextRequest('http://localhost:3000/api/v1/consultations/consult_1/cancel', { method: 'POST' }),
+      { params: Promise.resolve({ id: 'consult_1' }) }
+    );
+    return { response, body: await response.json() };
+  }
+
+  it('should refund in full with more than 24 hours notice', async () => {
+    mockPaidConsultation(30);
+
+    const { response, body } = await cancelAsPatient();
+
+    expect(response.status).toBe(200);
+    expect(mockRefundSquarePayment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        paymentId: 'square_payment_1',
+        amount: 15000,
+        currency: 'USD',
+        idempotencyKey: 'refund-refund_1',
+      })
+    );
+    expect(body.refunds).toEqual([
+      { paymentId: 'pay_1', refundId: 'refund_1', tier: 'FULL', amount: 15000, status: 'PENDING' },
+    ]);
+    // The amount is reserved on the payment before Square is called
+    expect(prismaMock.payment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'pay_1', status: { in: ['PAID', 'PARTIALLY_REFUNDED'] }, refundedAmount: 0 },
+      data: { refundedAmount: { increment: 15000 } },
+    });
+    expect(prismaMock.refund.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ paymentId: 'pay_1', amount: 15000, reason: 'CANCELLATION' }),
+    });
+    expect(prismaMock.refund.updateMany).toHaveBeenCalledWith({
+      where: { id: 'refund_1', status: 'PENDING' },
+      data: { status: 'PENDING', providerRefundId: 'square_refund_1' },
+    });
+    expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventType: 'REFUND_REQUESTED' }),
+    });
+  });
+
+  it('should refund half between 2 and 24 hours before the start', async () => {
+    mockPaidConsultation(5);
+
+    const { body } = await cancelAsPatient();
+
+    expect(mockRefundSquarePayment).toHaveBeenCalledWith(expect.objectContaining({ amount: 7500 }));
+    expect(body.refunds[0]).toEqual(expect.objectContaining({ tier: 'PARTIAL', amount: 7500 }));
+  });
+
+  it('should not refund less than 2 hours before the start', async () => {
+    mockPaidConsultation(1);
+
+    const { response, body } = await cancelAsPatient();
+
+    expect(response.status).toBe(200);
+    expect(mockRefundSquarePayment).not.toHaveBeenCalled();
+    expect(body.refunds[0]).toEqual(expect.objectContaining({ tier: 'NONE', amount: 0, status: null }));
+    expect(prismaMock.refund.create).not.toHaveBeenCalled();
+    expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventType: 'REFUND_NOT_ELIGIBLE' }),
+    });
+  });
+
+  it('should apply the specialty policy', async () => {
+    // Psychiatry only refunds in full with 48 hours notice
+    mockPaidConsultation(30, 'PSYCHIATRY');
+
+    const { body } = await cancelAsPatient();
+
+    expect(body.refunds[0]).toEqual(expect.objectContaining({ tier: 'PARTIAL', amount: 7500 }));
+  });
+
+  it('should mark the payment REFUNDED when Square completes the refund immediately', async () => {
+    mockPaidConsultation(30);
+    mockRefundSquarePayment.mockResolvedValue({ refundId: 'square_refund_1', status: 'COMPLETED' });
+
+    await cancelAsPatient();
+
+    expect(prismaMock.payment.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'pay_1' }, data: { status: 'REFUNDED' } })
+    );
+    expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventType: 'REFUND_COMPLETED' }),
+    });
+  });
+
+  it('should only refund what is left after earlier partial refunds', async () => {
+    mockPaidConsultation(30);
+    prismaMock.payment.findFirst.mockResolvedValue({
+      ...payment,
+      status: 'PARTIALLY_REFUNDED',
+      refundedAmount: 10000,
+    } as any);
+
+    const { body } = await cancelAsPatient();
+
+    expect(mockRefundSquarePayment).toHaveBeenCalledWith(expect.objectContaining({ amount: 5000 }));
+    expect(body.refunds[0]).toEqual(expect.objectContaining({ tier: 'FULL', amount: 5000 }));
+  });
+
+  it('should count earlier partial refunds towards the policy amount', async () => {
+    // Half of 150.00 is due; support already refunded 45.00
+    mockPaidConsultation(5);
+    prismaMock.payment.findFirst.mockResolvedValue({
+      ...payment,
+      status: 'PARTIALLY_REFUNDED',
+      refundedAmount: 4500,
+    } as any);
+
+    const { body } = await cancelAsPatient();
+
+    expect(mockRefundSquarePayment).toHaveBeenCalledWith(expect.objectContaining({ amount: 3000 }));
+    expect(body.refunds[0]).toEqual(expect.objectContaining({ tier: 'PARTIAL', amount: 3000 }));
+  });
+
+  it('should not refund more once earlier refunds cover the policy amount', async () => {
+    mockPaidConsultation(5);
+    prismaMock.payment.findFirst.mockResolvedValue({
+      ...payment,
+      status: 'PARTIALLY_REFUNDED',
+      refundedAmount: 9000,
+    } as any);
+
+    const { body } = await cancelAsPatient();
+
+    expect(mockRefundSquarePayment).not.toHaveBeenCalled();
+    expect(body.refunds[0]).toEqual(expect.objectContaining({ tier: 'PARTIAL', amount: 0, refundId: null }));
+    expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventType: 'REFUND_NOT_ELIGIBLE' }),
+    });
+  });
+
+  it('should keep the cancellation and record a failed refund when Square errors', async () => {
+    mockPaidConsultation(30);
+    mockRefundSquarePayment.mockRejectedValue(new Error('Square unavailable'));
+
+    const { response, body } = await cancelAsPatient();
+
+    expect(response.status).toBe(200);
+    expect(body.cancelled).toEqual(['consult_1']);
+    expect(body.refunds[0].status).toBe('FAILED');
+    // The reserved amount is released again
+    expect(prismaMock.payment.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'pay_1' }, data: { refundedAmount: { decrement: 15000 } } })
+    );
+    expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventType: 'REFUND_FAILED' }),
+    });
+  });
+
+  it('should not refund consultations without a captured payment', async () => {
+    mockPaidConsultation(30);
+    prismaMock.payment.findFirst.mockResolvedValue(null);
+
+    const { body } = await cancelAsPatient();
+
+    expect(body.refunds).toEqual([]);
+    expect(mockRefundSquarePayment).not.toHaveBeenCalled();
+  });
+
+  it('should refund in full when a doctor cancels through PATCH', async () => {
+    mockPaidConsultation(1);
+    mockGetSession.mockResolvedValue(createMockSession(createMockDoctor({ id: 'doctor_1' })));
+    prismaMock.consultation.update.mockResolvedValue({ id: 'consult_1', status: 'CANCELLED' } as any);
+
+    const response = await PATCH(
+      new NextRequest('http://localhost:3000/api/v1/consultations/consult_1', {
+        method: 'PATCH',
+        body: JSON.stringify({ status: 'CANCELLED' }),
+        headers: { 'Content-Type': 'application/json' },
+      }),
+      { params: Promise.resolve({ id: 'consult_1' }) }
+    );
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.refund).toEqual(expect.objectContaining({ tier: 'FULL', amount: 15000 }));
+    expect(mockRefundSquarePayment).toHaveBeenCalledWith(expect.objectContaining({ amount: 15000 }));
+  });
+});
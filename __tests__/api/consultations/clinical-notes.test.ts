@@ -0,0 +1,289 @@
+/**
+ * Tests for clinical notes:
+ * GET/POST /api/v1/consultations/:id/notes
+ * PATCH /api/v1/consultations/:id/notes/:noteId
+ * POST /api/v1/consultations/:id/notes/:noteId/sign
+ * POST /api/v1/consultations/:id/notes/:noteId/amendments
+ */
+
+import { NextRequest } from 'next/server';
+import { createMockUser, createMockDoctor, createMockConsultation, resetFactories, ConsultationStatus } from '../../helpers/factories';
+import { createMockSession } from '../../helpers/auth-mock';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+const mockGetSession = jest.fn();
+jest.mock('@/lib/auth', () => ({
+  auth: {
+    api: {
+      getSession: (...args: unknown[]) => mockGetSession(...args),
+    },
+  },
+}));
+
+import { GET, POST } from '@/app/api/v1/consultations/[id]/notes/route';
+import { PATCH } from '@/app/api/v1/consultations/[id]/notes/[noteId]/route';
+import { POST as SIGN } from '@/app/api/v1/consultations/[id]/notes/[noteId]/sign/route';
+import { POST as AMEND } from '@/app/api/v1/consultations/[id]/notes/[noteId]/amendments/route';
+
+describe('Clinical notes', () => {
+  const doctor = createMockDoctor({ id: 'doctor_1' });
+  const patient = createMockUser({ id: 'patient_1' });
+  const consultation = createMockConsultation({
+    id: 'consult_1',
+    patientId: patient.id,
+    doctorId: doctor.id,
+    status: ConsultationStatus.IN_CALL,
+  });
+
+  function createNote(overrides: Record<string, unknown> = {}) {
+    return {
+      id: 'note_1',
+      consultationId: consultation.id,
+      authorId: doctor.id,
+      status: 'DRAFT',
+      subjective: 'Sore throat for three days',
+      objective: null,
+      assessment: null,
+      plan: null,
+      diagnosisCodes: [],
+      signedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      author: { id: doctor.id, name: doctor.name },
+      amendments: [],
+      ...overrides,
+    };
+  }
+
+  function createRequest(path: string, method: string, body?: object): NextRequest {
+    return new NextRequest(`http://localhost:3000/api/v1/consultations/consult_1/notes${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  }
+
+  const consultParams = { params: Promise.resolve({ id: 'consult_1' }) };
+  const noteParams = { params: Promise.resolve({ id: 'consult_1', noteId: 'note_1' }) };
+
+  beforeEach(() => {
+    resetFactories();
+    resetPrismaMock();
+    setupPrismaMock();
+    mockGetSession.mockReset();
+    mockGetSession.mockResolvedValue(createMockSession(doctor));
+    prismaMock.consultation.findUnique.mockResolvedValue(consultation);
+    prismaMock.auditEvent.create.mockResolvedValue({});
+  });
+
+  describe('POST /notes', () => {
+    it('should create a draft with normalized ICD-10 codes', async () => {
+      prismaMock.clinicalNote.create.mockImplementation(({ data }) => Promise.resolve(createNote(data)));
+
+      const response = await POST(
+        createRequest('', 'POST', { subjective: '  Sore throat  ', plan: '', diagnosisCodes: ['j069', 'R05'] }),
+        consultParams
+      );
+
+      expect(response.status).toBe(201);
+      expect(prismaMock.clinicalNote.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            subjective: 'Sore throat',
+            plan: null,
+            diagnosisCodes: ['J06.9', 'R05'],
+            consultationId: 'consult_1',
+            authorId: doctor.id,
+          },
+        })
+      );
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: 'CLINICAL_NOTE_CREATED', consultationId: 'consult_1' }),
+      });
+    });
+
+    it('should reject an invalid ICD-10 code', async () => {
+      const response = await POST(createRequest('', 'POST', { diagnosisCodes: ['U07.1', 'flu'] }), consultParams);
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details).toEqual({ field: 'diagnosisCodes' });
+      expect(prismaMock.clinicalNote.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for patients', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+
+      const response = await POST(createRequest('', 'POST', { subjective: 'x' }), consultParams);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 403 for a doctor who is not assigned', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(createMockDoctor({ id: 'doctor_2' })));
+
+      const response = await POST(createRequest('', 'POST', { subjective: 'x' }), consultParams);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 400 before the consultation has started', async () => {
+      prismaMock.consultation.findUnique.mockResolvedValue({ ...consultation, status: ConsultationStatus.PAID });
+
+      const response = await POST(createRequest('', 'POST', { subjective: 'x' }), consultParams);
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details.currentStatus).toBe('PAID');
+    });
+  });
+
+  describe('GET /notes', () => {
+    it('should show the patient signed notes only', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+      prismaMock.clinicalNote.findMany.mockResolvedValue([]);
+
+      const response = await GET(createRequest('', 'GET'), consultParams);
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.clinicalNote.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { consultationId: 'consult_1', status: 'SIGNED' } })
+      );
+    });
+
+    it('should show the doctor drafts too', async () => {
+      prismaMock.clinicalNote.findMany.mockResolvedValue([createNote()]);
+
+      const response = await GET(createRequest('', 'GET'), consultParams);
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.clinicalNote.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { consultationId: 'consult_1' } })
+      );
+      const body = await response.json();
+      expect(body.notes).toHaveLength(1);
+    });
+
+    it('should return 403 for other users', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(createMockUser({ id: 'patient_2' })));
+
+      const response = await GET(createRequest('', 'GET'), consultParams);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('PATCH /notes/:noteId', () => {
+    it('should update a draft', async () => {
+      prismaMock.clinicalNote.findFirst.mockResolvedValue(createNote());
+      prismaMock.clinicalNote.updateMany.mockResolvedValue({ count: 1 });
+      prismaMock.clinicalNote.findUnique.mockResolvedValue(createNote({ assessment: 'Viral pharyngitis' }));
+
+      const response = await PATCH(createRequest('/note_1', 'PATCH', { assessment: 'Viral pharyngitis' }), noteParams);
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.clinicalNote.updateMany).toHaveBeenCalledWith({
+        where: { id: 'note_1', status: 'DRAFT' },
+        data: { assessment: 'Viral pharyngitis' },
+      });
+    });
+
+    it('should return 409 for a signed note', async () => {
+      prismaMock.clinicalNote.findFirst.mockResolvedValue(createNote({ status: 'SIGNED' }));
+      prismaMock.clinicalNote.updateMany.mockResolvedValue({ count: 0 });
+
+      const response = await PATCH(createRequest('/note_1', 'PATCH', { plan: 'Changed' }), noteParams);
+
+      expect(response.status).toBe(409);
+      expect(prismaMock.auditEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for someone other than the author', async () => {
+      prismaMock.clinicalNote.findFirst.mockResolvedValue(createNote({ authorId: 'doctor_2' }));
+
+      const response = await PATCH(createRequest('/note_1', 'PATCH', { plan: 'Changed' }), noteParams);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('POST /notes/:noteId/sign', () => {
+    it('should require an assessment and a plan', async () => {
+      prismaMock.clinicalNote.findFirst.mockResolvedValue(createNote({ assessment: 'Viral pharyngitis' }));
+
+      const response = await SIGN(createRequest('/note_1/sign', 'POST'), noteParams);
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details).toEqual({ field: 'plan' });
+      expect(prismaMock.clinicalNote.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should sign a complete draft', async () => {
+      prismaMock.clinicalNote.findFirst.mockResolvedValue(
+        createNote({ assessment: 'Viral pharyngitis', plan: 'Rest and fluids', diagnosisCodes: ['J02.9'] })
+      );
+      prismaMock.clinicalNote.updateMany.mockResolvedValue({ count: 1 });
+      prismaMock.clinicalNote.findUnique.mockResolvedValue(createNote({ status: 'SIGNED' }));
+
+      const response = await SIGN(createRequest('/note_1/sign', 'POST'), noteParams);
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.clinicalNote.updateMany).toHaveBeenCalledWith({
+        where: { id: 'note_1', status: 'DRAFT' },
+        data: { status: 'SIGNED', signedAt: expect.any(Date) },
+      });
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          eventType: 'CLINICAL_NOTE_SIGNED',
+          eventMetadata: { noteId: 'note_1', diagnosisCodes: ['J02.9'] },
+        }),
+      });
+    });
+
+    it('should return 409 for a note that is already signed', async () => {
+      prismaMock.clinicalNote.findFirst.mockResolvedValue(createNote({ status: 'SIGNED' }));
+
+      const response = await SIGN(createRequest('/note_1/sign', 'POST'), noteParams);
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('POST /notes/:noteId/amendments', () => {
+    const amendment = { reason: 'Allergy omitted', content: 'Patient is allergic to penicillin' };
+
+    it('should add an amendment to a signed note', async () => {
+      prismaMock.clinicalNote.findFirst.mockResolvedValue(
+        createNote({ status: 'SIGNED', consultation: { doctorId: doctor.id } })
+      );
+      prismaMock.clinicalNoteAmendment.create.mockResolvedValue({ id: 'amend_1' });
+      prismaMock.clinicalNote.findUnique.mockResolvedValue(createNote({ status: 'SIGNED' }));
+
+      const response = await AMEND(createRequest('/note_1/amendments', 'POST', amendment), noteParams);
+
+      expect(response.status).toBe(201);
+      expect(prismaMock.clinicalNoteAmendment.create).toHaveBeenCalledWith({
+        data: { ...amendment, diagnosisCodes: [], noteId: 'note_1', authorId: doctor.id },
+      });
+    });
+
+    it('should return 409 for a draft', async () => {
+      prismaMock.clinicalNote.findFirst.mockResolvedValue(createNote({ consultation: { doctorId: doctor.id } }));
+
+      const response = await AMEND(createRequest('/note_1/amendments', 'POST', amendment), noteParams);
+
+      expect(response.status).toBe(409);
+      expect(prismaMock.clinicalNoteAmendment.create).not.toHaveBeenCalled();
+    });
+
+    it('should require a reason', async () => {
+      const response = await AMEND(
+        createRequest('/note_1/amendments', 'POST', { content: 'Patient is allergic to penicillin' }),
+        noteParams
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
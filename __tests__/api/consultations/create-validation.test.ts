@@ -3,7 +3,7 @@
  */
 
 import { NextRequest } from 'next/server';
-import { createMockUser, createMockDoctor, resetFactories, UserRole, ConsultationStatus } from '../../helpers/factories';
+import { createMockUser, createMockDoctor, createMockQuestionnaireAnswers, resetFactories, UserRole, ConsultationStatus } from '../../helpers/factories';
 import { createMockSession } from '../../helpers/auth-mock';
 import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
 import { ErrorCodes } from '@/lib/api-utils';
@@ -124,7 +124,12 @@ describe('POST /api/v1/consultations Validation', () => {
       // Important to return doctor with include: { doctorProfile: true } behavior
       prismaMock.user.findUnique.mockResolvedValue(doctor as any);
 
-      const body = { ...validBody, doctorId: 'doctor_cardio', specialty: 'DERMATOLOGY' };
+      const body = {
+        ...validBody,
+        doctorId: 'doctor_cardio',
+        specialty: 'DERMATOLOGY',
+        intake: { ...validIntake, questionnaire: createMockQuestionnaireAnswers('DERMATOLOGY') },
+      };
       const request = createPostRequest(body);
       const response = await POST(request);
       const data = await response.json();
@@ -5,7 +5,7 @@
  */
 
 import { NextRequest } from 'next/server';
-import { createMockUser, createMockConsultation, resetFactories, VALID_SPECIALTIES, UserRole, ConsultationStatus } from '../../helpers/factories';
+import { createMockUser, createMockDoctor, createMockConsultation, createMockSpecialty, createMockQuestionnaireAnswers, resetFactories, VALID_SPECIALTIES, UserRole, ConsultationStatus } from '../../helpers/factories';
 import { createMockSession } from '../../helpers/auth-mock';
 import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
 
@@ -40,6 +40,8 @@ describe('POST /api/v1/consultations', () => {
     consentAccepted: true,
   };
 
+  const dermatologyIntake = { ...validIntake, questionnaire: createMockQuestionnaireAnswers('DERMATOLOGY') };
+
   /**
    * Helper to create a mock request
    */
@@ -120,6 +122,22 @@ describe('POST /api/v1/consultations', () => {
       expect(body.error.code).toBe('VALIDATION_ERROR');
     });
 
+    it('should return 400 when specialty has been deactivated', async () => {
+      const patient = createMockUser();
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+      prismaMock.specialty.findUnique.mockResolvedValue(
+        createMockSpecialty({ id: 'ORTHOPEDICS', label: 'Orthopedics', active: false })
+      );
+
+      const request = createRequest({ specialty: 'ORTHOPEDICS', intake: validIntake });
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+      expect(prismaMock.consultation.create).not.toHaveBeenCalled();
+    });
+
     it('should accept valid specialties', async () => {
       const patient = createMockUser();
       const session = createMockSession(patient);
@@ -133,7 +151,10 @@ describe('POST /api/v1/consultations', () => {
         prismaMock.consultation.create.mockResolvedValue(expectedConsultation as any);
         prismaMock.auditEvent.create.mockResolvedValue({} as any);
 
-        const request = createRequest({ specialty, intake: validIntake });
+        const request = createRequest({
+          specialty,
+          intake: { ...validIntake, questionnaire: createMockQuestionnaireAnswers(specialty) },
+        });
         const response = await POST(request);
 
         expect(response.status).toBe(201);
@@ -210,6 +231,189 @@ describe('POST /api/v1/consultations', () => {
       expect(body.patientId).toBe(patient.id);
     });
 
+    it('should snapshot the catalog price of the specialty', async () => {
+      const patient = createMockUser();
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+      prismaMock.consultation.create.mockResolvedValue(createMockConsultation({ patientId: patient.id }) as any);
+      prismaMock.auditEvent.create.mockResolvedValue({} as any);
+
+      const response = await POST(createRequest({ specialty: 'DERMATOLOGY', intake: dermatologyIntake }));
+
+      expect(response.status).toBe(201);
+      expect(prismaMock.consultation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ specialty: 'DERMATOLOGY', price: 8500, currency: 'USD' }),
+      });
+    });
+
+    it("should snapshot the doctor's own fee for the specialty", async () => {
+      const patient = createMockUser();
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+      prismaMock.user.findUnique.mockResolvedValue(createMockDoctor({
+        id: 'doctor_1',
+        doctorProfile: {
+          specialties: ['CARDIOLOGY'],
+          specialtyPrices: [{ specialty: 'CARDIOLOGY', price: 20000, currency: 'EUR' }],
+        },
+      }) as any);
+      prismaMock.consultation.create.mockResolvedValue(createMockConsultation({ patientId: patient.id }) as any);
+      prismaMock.auditEvent.create.mockResolvedValue({} as any);
+
+      const response = await POST(
+        createRequest({ specialty: 'CARDIOLOGY', doctorId: 'doctor_1', intake: validIntake })
+      );
+
+      expect(response.status).toBe(201);
+      expect(prismaMock.consultation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ doctorId: 'doctor_1', price: 20000, currency: 'EUR' }),
+      });
+    });
+
+    it('should snapshot the catalog price in the requested currency', async () => {
+      const patient = createMockUser();
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+      prismaMock.specialty.findUnique.mockResolvedValue(
+        createMockSpecialty({
+          id: 'DERMATOLOGY',
+          label: 'Dermatology',
+          price: 8500,
+          prices: [{ id: 'sp_1', specialtyId: 'DERMATOLOGY', currency: 'GBP', price: 7000 }],
+        })
+      );
+      prismaMock.consultation.create.mockResolvedValue(createMockConsultation({ patientId: patient.id }) as any);
+      prismaMock.auditEvent.create.mockResolvedValue({} as any);
+
+      const response = await POST(
+        createRequest({ specialty: 'DERMATOLOGY', currency: 'GBP', intake: dermatologyIntake })
+      );
+
+      expect(response.status).toBe(201);
+      expect(prismaMock.consultation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ specialty: 'DERMATOLOGY', price: 7000, currency: 'GBP' }),
+      });
+    });
+
+    it("should prefer the doctor's fee over a catalog price in the requested currency", async () => {
+      const patient = createMockUser();
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+      prismaMock.specialty.findUnique.mockResolvedValue(
+        createMockSpecialty({
+          id: 'CARDIOLOGY',
+          label: 'Cardiology',
+          price: 15000,
+          prices: [{ id: 'sp_1', specialtyId: 'CARDIOLOGY', currency: 'GBP', price: 12000 }],
+        })
+      );
+      prismaMock.user.findUnique.mockResolvedValue(createMockDoctor({
+        id: 'doctor_1',
+        doctorProfile: {
+          specialties: ['CARDIOLOGY'],
+          specialtyPrices: [
+            { specialty: 'CARDIOLOGY', price: 21000, currency: 'USD' },
+            { specialty: 'CARDIOLOGY', price: 20000, currency: 'EUR' },
+          ],
+        },
+      }) as any);
+      prismaMock.consultation.create.mockResolvedValue(createMockConsultation({ patientId: patient.id }) as any);
+      prismaMock.auditEvent.create.mockResolvedValue({} as any);
+
+      const response = await POST(
+        createRequest({ specialty: 'CARDIOLOGY', doctorId: 'doctor_1', currency: 'GBP', intake: validIntake })
+      );
+
+      expect(response.status).toBe(201);
+      expect(prismaMock.consultation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ doctorId: 'doctor_1', price: 21000, currency: 'USD' }),
+      });
+    });
+
+    it('should return 400 for an unsupported currency', async () => {
+      const patient = createMockUser();
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+
+      const response = await POST(
+        createRequest({ specialty: 'DERMATOLOGY', currency: 'JPY', intake: dermatologyIntake })
+      );
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details).toMatchObject({ field: 'currency' });
+      expect(prismaMock.consultation.create).not.toHaveBeenCalled();
+    });
+
+    it("should snapshot the patient's health profile with the intake's corrections", async () => {
+      const patient = createMockUser();
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+      prismaMock.patientHealthProfile.findUnique.mockResolvedValue({
+        patientId: patient.id,
+        allergies: ['Penicillin'],
+        currentMedications: ['Metformin 500 mg'],
+        chronicConditions: ['Type 2 diabetes'],
+        surgeries: [],
+        emergencyContactName: 'Alex',
+        emergencyContactPhone: '5550102030',
+        emergencyContactRelationship: 'Partner',
+      });
+      prismaMock.consultation.create.mockResolvedValue(createMockConsultation({ patientId: patient.id }) as any);
+      prismaMock.auditEvent.create.mockResolvedValue({} as any);
+
+      const response = await POST(createRequest({
+        specialty: 'GENERAL',
+        intake: { ...validIntake, healthProfile: { allergies: ['Penicillin', 'Latex'] } },
+      }));
+
+      expect(response.status).toBe(201);
+      const intake = prismaMock.consultation.create.mock.calls[0][0].data.patientIntake.create;
+      expect(intake).toMatchObject({
+        allergies: ['Penicillin', 'Latex'],
+        currentMedications: ['Metformin 500 mg'],
+        chronicConditions: ['Type 2 diabetes'],
+        surgeries: [],
+        emergencyContactName: 'Alex',
+        emergencyContactPhone: '5550102030',
+        emergencyContactRelationship: 'Partner',
+      });
+      // The profile only changes when the patient asks
+      expect(prismaMock.patientHealthProfile.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should save the intake back to the health profile when asked', async () => {
+      const patient = createMockUser();
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+      prismaMock.consultation.create.mockResolvedValue(createMockConsultation({ patientId: patient.id }) as any);
+      prismaMock.auditEvent.create.mockResolvedValue({} as any);
+
+      const response = await POST(createRequest({
+        specialty: 'GENERAL',
+        intake: { ...validIntake, healthProfile: { surgeries: ['Appendectomy'] }, saveToProfile: true },
+      }));
+
+      expect(response.status).toBe(201);
+      expect(prismaMock.patientHealthProfile.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { patientId: patient.id },
+        update: expect.objectContaining({
+          nameOrAlias: 'Test Patient',
+          ageRange: '18-39',
+          surgeries: ['Appendectomy'],
+          allergies: [],
+        }),
+      }));
+    });
+
+    it('should return 400 for an invalid health profile on the intake', async () => {
+      const patient = createMockUser();
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+
+      const response = await POST(createRequest({
+        specialty: 'GENERAL',
+        intake: { ...validIntake, healthProfile: { allergies: 'Penicillin' } },
+      }));
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details.field).toBe('intake.healthProfile.allergies');
+      expect(prismaMock.consultation.create).not.toHaveBeenCalled();
+    });
+
     it('should set doctorId to null initially (unassigned)', async () => {
       const patient = createMockUser();
       const session = createMockSession(patient);
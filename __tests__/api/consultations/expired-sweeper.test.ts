@@ -0,0 +1,246 @@
+/**
+ * Tests for the expired consultation sweeper and its cron route
+ *
+ * PAID / IN_CALL consultations whose appointment has ended are persisted as
+ * EXPIRED; the transition hooks end open video sessions and delete their
+ * Daily rooms.
+ */
+
+import { NextRequest } from 'next/server';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+// api-utils pulls in the auth module; the cron route authenticates with CRON_SECRET instead
+jest.mock('@/lib/auth', () => ({
+  auth: { api: { getSession: jest.fn() } },
+}));
+
+const mockDeleteRoom = jest.fn();
+jest.mock('@/lib/daily', () => ({
+  deleteRoom: (...args: unknown[]) => mockDeleteRoom(...args),
+}));
+
+import { sweepExpiredConsultations } from '@/lib/consultation-sweeper';
+import { isValidStatusTransition } from '@/lib/types';
+import { GET as sweepCron } from '@/app/api/v1/cron/expired-consultations/route';
+
+describe('Expired consultation sweeper', () => {
+  const now = new Date('2030-01-01T12:00:00.000Z');
+
+  function candidate(overrides: Record<string, unknown> = {}) {
+    return {
+      id: 'consult_1',
+      status: 'PAID',
+      scheduledStartAt: new Date('2030-01-01T11:00:00.000Z'), // ended 11:30
+      durationMinutes: 30,
+      doctorId: null,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    resetPrismaMock();
+    setupPrismaMock();
+    mockDeleteRoom.mockReset();
+
+    prismaMock.videoSession.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should allow the system to expire PAID and IN_CALL consultations', () => {
+    expect(isValidStatusTransition('PAID', 'EXPIRED', true)).toBe(true);
+    expect(isValidStatusTransition('IN_CALL', 'EXPIRED', true)).toBe(true);
+    expect(isValidStatusTransition('COMPLETED', 'EXPIRED', true)).toBe(false);
+    // Users cannot expire a consultation themselves
+    expect(isValidStatusTransition('PAID', 'EXPIRED')).toBe(false);
+  });
+
+  it('should look at PAID and IN_CALL consultations whose appointment has ended', async () => {
+    prismaMock.$queryRaw.mockResolvedValue([]);
+
+    await sweepExpiredConsultations({ now });
+
+    const [strings, statuses, ...values] = prismaMock.$queryRaw.mock.calls[0];
+    const sql = strings.join('?');
+    expect(statuses.values).toEqual(['PAID', 'IN_CALL']);
+    // The appointment end is filtered before the batch limit
+    expect(sql).toMatch(/"scheduledStartAt" \+ c\."durationMinutes" \* INTERVAL '1 minute'\s+< CASE/);
+    expect(sql.indexOf('INTERVAL')).toBeLessThan(sql.indexOf('LIMIT'));
+    expect(values).toEqual([
+      'IN_CALL',
+      new Date('2030-01-01T11:50:00.000Z'), // Calls in progress get 10 minutes' grace
+      now,
+      'CONSULT_EXPIRY_FAILED',
+      new Date('2030-01-01T11:00:00.000Z'),
+      100,
+    ]);
+  });
+
+  it('should expire a PAID consultation whose appointment has ended', async () => {
+    prismaMock.$queryRaw.mockResolvedValue([candidate()]);
+
+    const summary = await sweepExpiredConsultations({ now });
+
+    expect(summary).toEqual({
+      checked: 1,
+      results: [{ consultationId: 'consult_1', from: 'PAID', outcome: 'EXPIRED' }],
+    });
+    expect(prismaMock.consultation.update).toHaveBeenCalledWith({
+      where: { id: 'consult_1', status: 'PAID' },
+      data: { status: 'EXPIRED' },
+    });
+    expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+      data: {
+        consultationId: 'consult_1',
+        eventType: 'CONSULT_STATUS_CHANGED',
+        eventMetadata: { from: 'PAID', to: 'EXPIRED', reason: 'SLOT_ENDED' },
+      },
+    });
+    expect(mockDeleteRoom).not.toHaveBeenCalled();
+  });
+
+  it('should leave consultations that are still within their appointment', async () => {
+    prismaMock.$queryRaw.mockResolvedValue([
+      candidate({ scheduledStartAt: new Date('2030-01-01T11:00:00.000Z'), durationMinutes: 90 }),
+    ]);
+
+    const summary = await sweepExpiredConsultations({ now });
+
+    expect(summary).toEqual({ checked: 1, results: [] });
+    expect(prismaMock.consultation.update).not.toHaveBeenCalled();
+  });
+
+  it('should give a call that overruns its appointment a grace period', async () => {
+    // Ended at 11:55; the room stays open until 12:05
+    prismaMock.$queryRaw.mockResolvedValue([
+      candidate({ status: 'IN_CALL', scheduledStartAt: new Date('2030-01-01T11:25:00.000Z') }),
+    ]);
+
+    const summary = await sweepExpiredConsultations({ now });
+
+    expect(summary).toEqual({ checked: 1, results: [] });
+    expect(prismaMock.consultation.update).not.toHaveBeenCalled();
+    expect(mockDeleteRoom).not.toHaveBeenCalled();
+  });
+
+  it('should still expire a PAID consultation as soon as its appointment ends', async () => {
+    prismaMock.$queryRaw.mockResolvedValue([
+      candidate({ scheduledStartAt: new Date('2030-01-01T11:25:00.000Z') }),
+    ]);
+
+    const summary = await sweepExpiredConsultations({ now });
+
+    expect(summary.results).toEqual([{ consultationId: 'consult_1', from: 'PAID', outcome: 'EXPIRED' }]);
+  });
+
+  it('should close the lingering video session of an IN_CALL consultation', async () => {
+    prismaMock.$queryRaw.mockResolvedValue([candidate({ status: 'IN_CALL' })]);
+    prismaMock.videoSession.findUnique.mockResolvedValue({ id: 'vs_1', roomName: 'consult-1', endedAt: null } as any);
+
+    const summary = await sweepExpiredConsultations({ now });
+
+    expect(summary.results[0].outcome).toBe('EXPIRED');
+    expect(prismaMock.consultation.update).toHaveBeenCalledWith({
+      where: { id: 'consult_1', status: 'IN_CALL' },
+      data: { status: 'EXPIRED', endedAt: now },
+    });
+    expect(prismaMock.videoSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'vs_1', endedAt: null },
+      data: { endedAt: now },
+    });
+    expect(mockDeleteRoom).toHaveBeenCalledWith('consult-1');
+  });
+
+  it('should not touch video sessions that already ended', async () => {
+    prismaMock.$queryRaw.mockResolvedValue([candidate()]);
+    prismaMock.videoSession.findUnique.mockResolvedValue({
+      id: 'vs_1',
+      roomName: 'consult-1',
+      endedAt: new Date('2030-01-01T11:20:00.000Z'),
+    } as any);
+
+    await sweepExpiredConsultations({ now });
+
+    expect(prismaMock.videoSession.updateMany).not.toHaveBeenCalled();
+    expect(mockDeleteRoom).not.toHaveBeenCalled();
+  });
+
+  it('should still expire the consultation when the Daily room cannot be deleted', async () => {
+    prismaMock.$queryRaw.mockResolvedValue([candidate({ status: 'IN_CALL' })]);
+    prismaMock.videoSession.findUnique.mockResolvedValue({ id: 'vs_1', roomName: 'consult-1', endedAt: null } as any);
+    mockDeleteRoom.mockRejectedValue(new Error('Daily unavailable'));
+
+    const summary = await sweepExpiredConsultations({ now });
+
+    expect(summary.results[0].outcome).toBe('EXPIRED');
+  });
+
+  it('should skip a consultation closed while being swept', async () => {
+    prismaMock.$queryRaw.mockResolvedValue([candidate({ status: 'IN_CALL' })]);
+    prismaMock.videoSession.findUnique.mockResolvedValue({ id: 'vs_1', roomName: 'consult-1', endedAt: null } as any);
+    prismaMock.consultation.update.mockRejectedValue({ code: 'P2025' });
+
+    const summary = await sweepExpiredConsultations({ now });
+
+    expect(summary.results[0].outcome).toBe('SKIPPED');
+    expect(prismaMock.videoSession.updateMany).not.toHaveBeenCalled();
+    expect(prismaMock.auditEvent.create).not.toHaveBeenCalled();
+    expect(mockDeleteRoom).not.toHaveBeenCalled();
+  });
+
+  it('should report an error and continue with the next consultation', async () => {
+    prismaMock.$queryRaw.mockResolvedValue([candidate(), candidate({ id: 'consult_2' })]);
+    prismaMock.$transaction.mockRejectedValueOnce(new Error('Database unavailable'));
+
+    const summary = await sweepExpiredConsultations({ now });
+
+    expect(summary.results).toEqual([
+      { consultationId: 'consult_1', from: 'PAID', outcome: 'ERROR', error: 'Database unavailable' },
+      { consultationId: 'consult_2', from: 'PAID', outcome: 'EXPIRED' },
+    ]);
+  });
+
+  it('should record a failure so the next runs skip the consultation for a while', async () => {
+    prismaMock.$queryRaw.mockResolvedValue([candidate()]);
+    prismaMock.$transaction.mockRejectedValueOnce(new Error('Database unavailable'));
+
+    await sweepExpiredConsultations({ now });
+
+    expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+      data: {
+        consultationId: 'consult_1',
+        eventType: 'CONSULT_EXPIRY_FAILED',
+        eventMetadata: { from: 'PAID' },
+      },
+    });
+    const sql = prismaMock.$queryRaw.mock.calls[0][0].join('?');
+    expect(sql).toMatch(/NOT EXISTS \([\s\S]*"eventType" = \?[\s\S]*"createdAt" > \?/);
+  });
+
+  describe('GET /api/v1/cron/expired-consultations', () => {
+    beforeEach(() => {
+      process.env.CRON_SECRET = 'test-cron-secret';
+    });
+
+    function cronRequest(authorization?: string) {
+      return new NextRequest('http://localhost:3000/api/v1/cron/expired-consultations', {
+        headers: authorization ? { authorization } : {},
+      });
+    }
+
+    it('should reject requests without the cron secret', async () => {
+      const response = await sweepCron(cronRequest());
+
+      expect(response.status).toBe(401);
+      expect(prismaMock.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should run the sweeper and return its summary', async () => {
+      prismaMock.$queryRaw.mockResolvedValue([]);
+
+      const response = await sweepCron(cronRequest('Bearer test-cron-secret'));
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body).toEqual({ checked: 0, results: [] });
+    });
+  });
+});
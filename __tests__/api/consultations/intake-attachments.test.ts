@@ -0,0 +1,495 @@
+/**
+ * Tests for intake attachments:
+ * GET/POST /api/v1/consultations/[id]/intake/attachments,
+ * DELETE /api/v1/consultations/[id]/intake/attachments/[attachmentId] and
+ * GET /api/v1/attachments/[attachmentId] (signed downloads)
+ */
+
+import { NextRequest } from 'next/server';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { crc32, deflateSync, inflateSync } from 'zlib';
+import { createMockUser, createMockDoctor, createMockConsultation, resetFactories, ConsultationStatus } from '../../helpers/factories';
+import { createMockSession } from '../../helpers/auth-mock';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+// Mock auth
+const mockGetSession = jest.fn();
+jest.mock('@/lib/auth', () => ({
+  auth: {
+    api: {
+      getSession: (...args: unknown[]) => mockGetSession(...args),
+    },
+  },
+}));
+
+// Mock generated Prisma client
+jest.mock('@/app/generated/prisma/client', () => ({
+  ConsultationStatus: {
+    CREATED: 'CREATED',
+    PAYMENT_PENDING: 'PAYMENT_PENDING',
+    PAID: 'PAID',
+    IN_CALL: 'IN_CALL',
+    COMPLETED: 'COMPLETED',
+    CANCELLED: 'CANCELLED',
+    EXPIRED: 'EXPIRED',
+    PAYMENT_FAILED: 'PAYMENT_FAILED',
+  },
+  UserRole: {
+    PATIENT: 'PATIENT',
+    DOCTOR: 'DOCTOR',
+    ADMIN: 'ADMIN',
+  },
+}));
+
+import { GET as LIST, POST } from '@/app/api/v1/consultations/[id]/intake/attachments/route';
+import { DELETE } from '@/app/api/v1/consultations/[id]/intake/attachments/[attachmentId]/route';
+import { GET as DOWNLOAD } from '@/app/api/v1/attachments/[attachmentId]/route';
+import { signAttachmentUrl } from '@/lib/intake-attachments';
+
+const env = process.env as Record<string, string | undefined>;
+
+function segment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+// A JPEG's structure with EXIF (including a GPS position) and a comment; the
+// tables and scan data are placeholders since nothing decodes them
+function jpegWithExif(): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    segment(0xe0, Buffer.from([...Buffer.from('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 1, 1, 0xaa, 0xbb, 0xcc])),
+    segment(0xe1, Buffer.from('Exif\0\0GPSLatitude 51.5007 GPSLongitude -0.1246')),
+    segment(0xfe, Buffer.from('Taken at 10 Downing Street')),
+    segment(0xdb, Buffer.alloc(65, 1)),
+    segment(0xc0, Buffer.from([8, 0, 1, 0, 1, 1, 1, 0x11, 0])),
+    segment(0xc4, Buffer.alloc(20, 2)),
+    segment(0xda, Buffer.from([1, 1, 0, 0, 0x3f, 0])),
+    Buffer.from([0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56]),
+    Buffer.from([0xff, 0xd9]),
+  ]));
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, 'latin1');
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+const PNG_PIXELS = Buffer.from([0, 255, 0, 0]); // One red pixel after its filter byte
+
+function pngWithText(): Uint8Array<ArrayBuffer> {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(1, 0);
+  header.writeUInt32BE(1, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 2; // RGB
+  return new Uint8Array(Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('tEXt', Buffer.from('Comment\0GPSLatitude 51.5007')),
+    pngChunk('eXIf', Buffer.from('MM\0*GPS')),
+    pngChunk('IDAT', deflateSync(PNG_PIXELS)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]));
+}
+
+const PDF = Buffer.from('%PDF-1.4\n1 0 obj << >> endobj\n%%EOF\n');
+
+describe('Intake attachments', () => {
+  const patient = createMockUser({ id: 'patient_1' });
+  const doctor = createMockDoctor({ id: 'doctor_1' });
+  let storageDir: string;
+
+  beforeAll(async () => {
+    storageDir = await mkdtemp(path.join(tmpdir(), 'intake-attachments-'));
+    env.LOCAL_STORAGE_DIR = storageDir;
+  });
+
+  afterAll(async () => {
+    delete env.LOCAL_STORAGE_DIR;
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    resetFactories();
+    resetPrismaMock();
+    setupPrismaMock();
+    mockGetSession.mockReset();
+    mockGetSession.mockResolvedValue(createMockSession(patient));
+    prismaMock.intakeAttachment.create.mockImplementation(async ({ data }: any) => ({
+      id: 'att_1',
+      createdAt: new Date('2026-10-20T09:00:00Z'),
+      ...data,
+    }));
+  });
+
+  function mockConsultation(overrides: Record<string, unknown> = {}) {
+    const consultation = {
+      ...createMockConsultation({
+        patientId: patient.id,
+        doctorId: doctor.id,
+        status: ConsultationStatus.PAID,
+      }),
+      patientIntake: { id: 'intake_1', _count: { attachments: 0 }, attachments: [] },
+      ...overrides,
+    };
+    prismaMock.consultation.findUnique.mockResolvedValue(consultation as any);
+    return consultation;
+  }
+
+  function upload(file?: File): Promise<Response> {
+    const form = new FormData();
+    if (file) form.append('file', file);
+    const req = new NextRequest('http://localhost:3000/api/v1/consultations/c1/intake/attachments', {
+      method: 'POST',
+      body: form,
+    });
+    return POST(req, { params: Promise.resolve({ id: 'c1' }) });
+  }
+
+  async function storedFile(): Promise<Buffer> {
+    const { storageKey } = prismaMock.intakeAttachment.create.mock.calls[0][0].data;
+    return readFile(path.join(storageDir, storageKey));
+  }
+
+  describe('POST (upload)', () => {
+    it('should return 401 if not authenticated', async () => {
+      mockGetSession.mockResolvedValue(null);
+
+      const res = await upload(new File([PDF], 'labs.pdf', { type: 'application/pdf' }));
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should only let the patient upload', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(doctor));
+      mockConsultation();
+
+      const res = await upload(new File([PDF], 'labs.pdf', { type: 'application/pdf' }));
+
+      expect(res.status).toBe(403);
+      expect(prismaMock.intakeAttachment.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject uploads once the consultation is over', async () => {
+      mockConsultation({ status: ConsultationStatus.COMPLETED });
+
+      const res = await upload(new File([PDF], 'labs.pdf', { type: 'application/pdf' }));
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should need an intake to attach to', async () => {
+      mockConsultation({ patientIntake: null });
+
+      const res = await upload(new File([PDF], 'labs.pdf', { type: 'application/pdf' }));
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should limit the number of attachments', async () => {
+      mockConsultation({ patientIntake: { id: 'intake_1', _count: { attachments: 10 } } });
+
+      const res = await upload(new File([PDF], 'labs.pdf', { type: 'application/pdf' }));
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should check the limit again with the intake locked, and remove the stored file', async () => {
+      mockConsultation({ patientIntake: { id: 'intake_1', _count: { attachments: 9 } } });
+      // Another upload was recorded after the first count
+      prismaMock.intakeAttachment.count.mockResolvedValue(10);
+
+      const res = await upload(new File([PDF], 'labs.pdf', { type: 'application/pdf' }));
+
+      expect(res.status).toBe(409);
+      expect(prismaMock.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(prismaMock.intakeAttachment.count).toHaveBeenCalledWith({ where: { intakeId: 'intake_1' } });
+      expect(prismaMock.intakeAttachment.create).not.toHaveBeenCalled();
+      expect(await readdir(storageDir)).toEqual([]);
+    });
+
+    it('should stop reading a body over the size limit that has no Content-Length', async () => {
+      mockConsultation();
+      const form = new FormData();
+      form.append('file', new File([Buffer.alloc(11 * 1024 * 1024)], 'big.pdf', { type: 'application/pdf' }));
+      const encoded = new Response(form);
+      const req = new NextRequest('http://localhost:3000/api/v1/consultations/c1/intake/attachments', {
+        method: 'POST',
+        headers: { 'Content-Type': encoded.headers.get('content-type')! },
+        body: encoded.body,
+        duplex: 'half',
+      } as any);
+      expect(req.headers.get('content-length')).toBeNull();
+
+      const res = await POST(req, { params: Promise.resolve({ id: 'c1' }) });
+
+      expect(res.status).toBe(413);
+      expect(prismaMock.consultation.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should require a file', async () => {
+      const res = await upload();
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).error.details.field).toBe('file');
+    });
+
+    it.each([
+      ['an unsupported type', new File(['hello'], 'notes.txt', { type: 'text/plain' })],
+      ['contents that do not match the declared type', new File([pngWithText()], 'photo.jpg', { type: 'image/jpeg' })],
+      ['a disguised file', new File(['<html><script>'], 'photo.png', { type: 'image/png' })],
+      ['a malformed image', new File([Buffer.from([0xff, 0xd8, 0xff, 0xe1, 0x00])], 'photo.jpg', { type: 'image/jpeg' })],
+      ['an empty file', new File([], 'empty.pdf', { type: 'application/pdf' })],
+      ['a file over the size limit', new File([Buffer.concat([PDF, Buffer.alloc(10 * 1024 * 1024)])], 'big.pdf', { type: 'application/pdf' })],
+    ])('should reject %s', async (_case, file) => {
+      mockConsultation();
+
+      const res = await upload(file);
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+      expect(body.error.details.field).toBe('file');
+      expect(prismaMock.intakeAttachment.create).not.toHaveBeenCalled();
+    });
+
+    it('should store a JPEG without its EXIF data', async () => {
+      mockConsultation();
+
+      const res = await upload(new File([jpegWithExif()], 'IMG_0001.JPG', { type: 'image/jpeg' }));
+
+      expect(res.status).toBe(201);
+      const stored = await storedFile();
+      expect(stored.includes('Exif')).toBe(false);
+      expect(stored.includes('GPS')).toBe(false);
+      expect(stored.includes('Downing')).toBe(false);
+      expect(stored.includes(Buffer.from([0xaa, 0xbb, 0xcc]))).toBe(false); // JFIF thumbnail
+      expect(stored.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+      expect(stored.includes(Buffer.from([0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56, 0xff, 0xd9]))).toBe(true);
+
+      expect(prismaMock.intakeAttachment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          intakeId: 'intake_1',
+          fileName: 'IMG_0001.jpg',
+          contentType: 'image/jpeg',
+          sizeBytes: stored.length,
+          storageBackend: 'LOCAL',
+        }),
+      });
+      const body = await res.json();
+      expect(body.url).toMatch(/^\/api\/v1\/attachments\/att_1\?expires=\d+&signature=/);
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          eventType: 'INTAKE_ATTACHMENT_UPLOADED',
+          eventMetadata: { attachmentId: 'att_1', contentType: 'image/jpeg', sizeBytes: stored.length },
+        }),
+      });
+    });
+
+    it('should store a PNG without its text and EXIF chunks', async () => {
+      mockConsultation();
+
+      const res = await upload(new File([pngWithText()], 'scan.png', { type: 'image/png' }));
+
+      expect(res.status).toBe(201);
+      const stored = await storedFile();
+      expect(stored.includes('GPS')).toBe(false);
+      expect(stored.includes('tEXt')).toBe(false);
+      expect(stored.includes('eXIf')).toBe(false);
+      const idat = stored.indexOf('IDAT');
+      const length = stored.readUInt32BE(idat - 4);
+      expect(inflateSync(stored.subarray(idat + 4, idat + 4 + length))).toEqual(PNG_PIXELS);
+    });
+
+    it('should store a PDF as uploaded, with a clean file name', async () => {
+      mockConsultation();
+
+      const res = await upload(new File([PDF], '../../etc/"labs".pdf', { type: 'application/pdf' }));
+
+      expect(res.status).toBe(201);
+      expect(await storedFile()).toEqual(PDF);
+      expect((await res.json()).fileName).toBe('labs.pdf');
+    });
+  });
+
+  describe('GET (list)', () => {
+    const attachment = {
+      id: 'att_1',
+      intakeId: 'intake_1',
+      fileName: 'labs.pdf',
+      contentType: 'application/pdf',
+      sizeBytes: PDF.length,
+      storageBackend: 'LOCAL',
+      storageKey: '00000000-0000-4000-8000-000000000000',
+      createdAt: new Date('2026-10-20T09:00:00Z'),
+    };
+
+    function list() {
+      const req = new NextRequest('http://localhost:3000/api/v1/consultations/c1/intake/attachments');
+      return LIST(req, { params: Promise.resolve({ id: 'c1' }) });
+    }
+
+    it('should give the assigned doctor signed links', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(doctor));
+      mockConsultation({ patientIntake: { attachments: [attachment] } });
+
+      const res = await list();
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.attachments).toHaveLength(1);
+      expect(body.attachments[0]).toMatchObject({ id: 'att_1', fileName: 'labs.pdf', sizeBytes: PDF.length });
+      expect(body.attachments[0].url).toContain('signature=');
+      expect(body.attachments[0]).not.toHaveProperty('storageKey');
+    });
+
+    it('should return no attachments before the intake is submitted', async () => {
+      mockConsultation({ patientIntake: null });
+
+      const res = await list();
+
+      expect((await res.json()).attachments).toEqual([]);
+    });
+
+    it('should deny other users', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(createMockDoctor({ id: 'doctor_2' })));
+      mockConsultation();
+
+      const res = await list();
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('GET /attachments/[attachmentId] (download)', () => {
+    let storageKey: string;
+
+    beforeEach(async () => {
+      mockConsultation();
+      await upload(new File([PDF], 'labs.pdf', { type: 'application/pdf' }));
+      const { data } = prismaMock.intakeAttachment.create.mock.calls[0][0];
+      storageKey = data.storageKey;
+      prismaMock.intakeAttachment.findUnique.mockResolvedValue({ id: 'att_1', ...data });
+      mockGetSession.mockResolvedValue(null);
+    });
+
+    function download(url: string, attachmentId = 'att_1') {
+      const req = new NextRequest(`http://localhost:3000${url}`);
+      return DOWNLOAD(req, { params: Promise.resolve({ attachmentId }) });
+    }
+
+    it('should serve the file for a signed link', async () => {
+      const res = await download(signAttachmentUrl('att_1').url);
+
+      expect(res.status).toBe(200);
+      expect(Buffer.from(await res.arrayBuffer())).toEqual(PDF);
+      expect(res.headers.get('content-type')).toBe('application/pdf');
+      expect(res.headers.get('content-disposition')).toBe("attachment; filename*=UTF-8''labs.pdf");
+      expect(res.headers.get('x-content-type-options')).toBe('nosniff');
+      expect(res.headers.get('cache-control')).toBe('private, no-store');
+    });
+
+    it('should reject an expired link', async () => {
+      const { url } = signAttachmentUrl('att_1', Date.now() - 10 * 60 * 1000);
+
+      const res = await download(url);
+
+      expect(res.status).toBe(403);
+      expect(prismaMock.intakeAttachment.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should reject a tampered link', async () => {
+      const url = signAttachmentUrl('att_1').url.replace(/expires=(\d+)/, (_, e) => `expires=${Number(e) + 3600}`);
+
+      const res = await download(url);
+
+      expect(res.status).toBe(403);
+    });
+
+    it("should reject another attachment's link", async () => {
+      const { url } = signAttachmentUrl('att_2');
+
+      const res = await download(url.replace('att_2', 'att_1'));
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should return 404 when the file is gone', async () => {
+      await rm(path.join(storageDir, storageKey));
+
+      const res = await download(signAttachmentUrl('att_1').url);
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('DELETE', () => {
+    function remove() {
+      const req = new NextRequest('http://localhost:3000/api/v1/consultations/c1/intake/attachments/att_1', {
+        method: 'DELETE',
+      });
+      return DELETE(req, { params: Promise.resolve({ id: 'c1', attachmentId: 'att_1' }) });
+    }
+
+    async function mockStoredAttachment(status: string = ConsultationStatus.PAID) {
+      mockConsultation();
+      await upload(new File([PDF], 'labs.pdf', { type: 'application/pdf' }));
+      const { data } = prismaMock.intakeAttachment.create.mock.calls[0][0];
+      prismaMock.intakeAttachment.findFirst.mockResolvedValue({
+        id: 'att_1',
+        ...data,
+        intake: { consultation: { patientId: patient.id, status } },
+      });
+      return data.storageKey as string;
+    }
+
+    it('should remove the attachment and its file', async () => {
+      const storageKey = await mockStoredAttachment();
+
+      const res = await remove();
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ id: 'att_1', deleted: true });
+      expect(prismaMock.intakeAttachment.delete).toHaveBeenCalledWith({ where: { id: 'att_1' } });
+      expect(await readdir(storageDir)).not.toContain(storageKey);
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: 'INTAKE_ATTACHMENT_DELETED' }),
+      });
+    });
+
+    it('should only let the patient remove attachments', async () => {
+      await mockStoredAttachment();
+      mockGetSession.mockResolvedValue(createMockSession(doctor));
+
+      const res = await remove();
+
+      expect(res.status).toBe(403);
+      expect(prismaMock.intakeAttachment.delete).not.toHaveBeenCalled();
+    });
+
+    it('should keep attachments once the consultation is over', async () => {
+      await mockStoredAttachment(ConsultationStatus.COMPLETED);
+
+      const res = await remove();
+
+      expect(res.status).toBe(400);
+      expect(prismaMock.intakeAttachment.delete).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown attachment', async () => {
+      prismaMock.intakeAttachment.findFirst.mockResolvedValue(null);
+
+      const res = await remove();
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -137,6 +137,46 @@ describe('/api/v1/consultations/[id]/intake', () => {
       expect(res.status).toBe(201);
       expect(prismaMock.patientIntake.create).toHaveBeenCalled();
     });
+
+    it('should copy the saved health profile into the intake', async () => {
+      const patient = createMockUser();
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+
+      const consultation = createMockConsultation({
+        patientId: patient.id,
+        status: ConsultationStatus.CREATED,
+        patientIntake: null
+      });
+      prismaMock.consultation.findUnique.mockResolvedValue(consultation as any);
+      prismaMock.patientHealthProfile.findUnique.mockResolvedValue({
+        patientId: patient.id,
+        allergies: ['Sulfa'],
+        currentMedications: [],
+        chronicConditions: ['Asthma'],
+        surgeries: [],
+        emergencyContactName: null,
+        emergencyContactPhone: null,
+        emergencyContactRelationship: null,
+      });
+      prismaMock.patientIntake.create.mockResolvedValue({ id: 'intake-1' } as any);
+
+      const req = createRequest('POST', {
+        nameOrAlias: 'Johnny',
+        consentAccepted: true,
+        healthProfile: { currentMedications: ['Salbutamol inhaler'] }
+      });
+      const res = await POST(req, { params: Promise.resolve({ id: consultation.id }) });
+
+      expect(res.status).toBe(201);
+      expect(prismaMock.patientIntake.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          allergies: ['Sulfa'],
+          currentMedications: ['Salbutamol inhaler'],
+          chronicConditions: ['Asthma'],
+        }),
+      });
+      expect(prismaMock.patientHealthProfile.upsert).not.toHaveBeenCalled();
+    });
   });
 
   describe('PUT (Update Intake)', () => {
@@ -410,6 +410,95 @@ describe('POST /api/v1/consultations/:id/join', () => {
       expect(prismaMock.videoSession.create).toHaveBeenCalled();
     });
 
+    it('should keep the room open until the scheduled end plus a grace period', async () => {
+      const patient = createMockUser({ id: 'patient_1' });
+      const session = createMockSession(patient);
+      mockGetSession.mockResolvedValue(session);
+
+      // A 50 minute visit that started 40 minutes ago is still joinable
+      const consultation = createMockConsultation({
+        id: 'consult_1',
+        patientId: patient.id,
+        doctorId: 'doctor_1',
+        specialty: 'PSYCHIATRY',
+        status: ConsultationStatus.PAID,
+        scheduledStartAt: timeOffset(-40),
+        durationMinutes: 50,
+      });
+
+      prismaMock.consultation.findUnique.mockResolvedValue({
+        ...consultation,
+        videoSession: null,
+      } as any);
+
+      const newRoom = {
+        name: `consult_1_room`,
+        url: 'https://test.daily.co/consult_1_room',
+      };
+      mockCreateRoom.mockResolvedValue(newRoom);
+      prismaMock.videoSession.create.mockResolvedValue(
+        createMockVideoSession(consultation.id, {
+          roomName: newRoom.name,
+          roomUrl: newRoom.url,
+        })
+      );
+      mockCreateMeetingToken.mockResolvedValue('mock_token');
+
+      const request = createRequest(consultation.id);
+      const response = await POST(request, createParams(consultation.id));
+
+      expect(response.status).toBe(200);
+      // 10 minutes left in the visit, plus 10 minutes' grace
+      expect(mockCreateRoom).toHaveBeenCalledWith(expect.any(String), 20);
+    });
+
+    it('should count the room and token lifetime from the scheduled start when joining early', async () => {
+      const patient = createMockUser({ id: 'patient_1' });
+      const session = createMockSession(patient);
+      mockGetSession.mockResolvedValue(session);
+
+      // A 15 minute visit opened at the start of the early join window
+      const scheduledStartAt = timeOffset(5);
+      const consultation = createMockConsultation({
+        id: 'consult_1',
+        patientId: patient.id,
+        doctorId: 'doctor_1',
+        status: ConsultationStatus.PAID,
+        scheduledStartAt,
+        durationMinutes: 15,
+      });
+
+      prismaMock.consultation.findUnique.mockResolvedValue({
+        ...consultation,
+        videoSession: null,
+      } as any);
+
+      const newRoom = {
+        name: `consult_1_room`,
+        url: 'https://test.daily.co/consult_1_room',
+      };
+      mockCreateRoom.mockResolvedValue(newRoom);
+      prismaMock.videoSession.create.mockResolvedValue(
+        createMockVideoSession(consultation.id, {
+          roomName: newRoom.name,
+          roomUrl: newRoom.url,
+        })
+      );
+      mockCreateMeetingToken.mockResolvedValue('mock_token');
+
+      const response = await POST(createRequest(consultation.id), createParams(consultation.id));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      // 5 minutes until the start, the 15 minute visit and 10 minutes' grace
+      expect(mockCreateRoom).toHaveBeenCalledWith(expect.any(String), 30);
+      expect(mockCreateMeetingToken).toHaveBeenCalledWith(expect.any(String), patient.id, false, 30);
+      const expiresAt = new Date(body.expiresAt).getTime();
+      const scheduledEnd = scheduledStartAt.getTime() + 15 * 60 * 1000;
+      expect(expiresAt).toBeGreaterThanOrEqual(scheduledEnd + 10 * 60 * 1000);
+      expect(expiresAt).toBeLessThan(scheduledEnd + 11 * 60 * 1000);
+    });
+
     it('should reuse existing room if VideoSession exists', async () => {
       const patient = createMockUser({ id: 'patient_1' });
       const session = createMockSession(patient);
@@ -476,7 +565,7 @@ describe('POST /api/v1/consultations/:id/join', () => {
 
       expect(prismaMock.consultation.update).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: { id: consultation.id },
+          where: { id: consultation.id, status: ConsultationStatus.PAID },
           data: expect.objectContaining({
             status: ConsultationStatus.IN_CALL,
           }),
@@ -580,7 +669,8 @@ describe('POST /api/v1/consultations/:id/join', () => {
       expect(mockCreateMeetingToken).toHaveBeenCalledWith(
         expect.any(String),
         doctor.id,
-        true // isOwner for doctor
+        true, // isOwner for doctor
+        40 // token lifetime: the default 30 minute appointment plus 10 minutes' grace
       );
     });
 
@@ -612,7 +702,8 @@ describe('POST /api/v1/consultations/:id/join', () => {
       expect(mockCreateMeetingToken).toHaveBeenCalledWith(
         expect.any(String),
         patient.id,
-        false // isOwner for patient
+        false, // isOwner for patient
+        40 // token lifetime: the default 30 minute appointment plus 10 minutes' grace
       );
     });
   });
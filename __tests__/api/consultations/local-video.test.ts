@@ -0,0 +1,188 @@
+/**
+ * Join and close flows against the local video provider (VIDEO_PROVIDER=local):
+ * rooms and tokens are issued in process, so nothing reaches the network.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createMockConsultation,
+  createMockDoctor,
+  createMockUser,
+  resetFactories,
+  ConsultationStatus,
+} from '../../helpers/factories';
+import { createMockSession } from '../../helpers/auth-mock';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+const mockGetSession = jest.fn();
+jest.mock('@/lib/auth', () => ({
+  auth: {
+    api: {
+      getSession: (...args: unknown[]) => mockGetSession(...args),
+    },
+  },
+}));
+
+import { POST as join } from '@/app/api/v1/consultations/[id]/join/route';
+import { POST as close } from '@/app/api/v1/consultations/[id]/close/route';
+import { dailyVideoProvider, getVideoProvider, VideoConfigurationError } from '@/lib/video-provider';
+import { getLocalMeetingToken, getLocalRoom } from '@/lib/local-video';
+
+describe('Local video provider', () => {
+  const env = process.env as Record<string, string | undefined>;
+  const originalNodeEnv = env.NODE_ENV;
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    resetFactories();
+    resetPrismaMock();
+    setupPrismaMock();
+    mockGetSession.mockReset();
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    env.VIDEO_PROVIDER = 'local';
+    env.NODE_ENV = originalNodeEnv;
+    env.NEXT_PUBLIC_BASE_URL = 'http://localhost:3000';
+  });
+
+  afterAll(() => {
+    delete env.VIDEO_PROVIDER;
+    env.NODE_ENV = originalNodeEnv;
+  });
+
+  function request(path: string) {
+    return new NextRequest(`http://localhost:3000/api/v1/consultations/consult_1/${path}`, {
+      method: 'POST',
+    });
+  }
+
+  const params = { params: Promise.resolve({ id: 'consult_1' }) };
+
+  it('should be selected by VIDEO_PROVIDER and refused in production', () => {
+    expect(getVideoProvider().name).toBe('LOCAL');
+    expect(getVideoProvider('DAILY').name).toBe('DAILY');
+
+    env.NODE_ENV = 'production';
+    expect(() => getVideoProvider()).toThrow(VideoConfigurationError);
+  });
+
+  it('should run join and close end to end without network calls', async () => {
+    const doctor = createMockDoctor({ id: 'doctor_1' });
+    const consultation = createMockConsultation({
+      id: 'consult_1',
+      patientId: 'patient_1',
+      doctorId: doctor.id,
+      status: ConsultationStatus.PAID,
+      scheduledStartAt: new Date(),
+    });
+
+    // The doctor's first join creates the room and starts the call
+    mockGetSession.mockResolvedValue(createMockSession(doctor));
+    prismaMock.consultation.findUnique.mockResolvedValue({ ...consultation, videoSession: null } as any);
+    prismaMock.videoSession.create.mockImplementation(async ({ data }: any) => ({
+      id: 'video_1',
+      ...data,
+      createdAt: new Date(),
+      endedAt: null,
+    }));
+    prismaMock.consultation.update.mockImplementation(async ({ data }: any) => ({ ...consultation, ...data }));
+
+    const joinResponse = await join(request('join'), params);
+
+    expect(joinResponse.status).toBe(200);
+    const joined = await joinResponse.json();
+    const createdSession = prismaMock.videoSession.create.mock.calls[0][0].data;
+    expect(createdSession).toMatchObject({
+      provider: 'LOCAL',
+      roomUrl: `http://localhost:3000/call/${createdSession.roomName}`,
+    });
+    expect(joined.joinUrl).toBe(`${createdSession.roomUrl}?t=${joined.token}`);
+    expect(getLocalRoom(createdSession.roomName)).not.toBeNull();
+    expect(getLocalMeetingToken(createdSession.roomName, joined.token)).toMatchObject({
+      userId: doctor.id,
+      isOwner: true,
+    });
+
+    // The patient joins the same room with their own token
+    mockGetSession.mockResolvedValue(createMockSession(createMockUser({ id: 'patient_1' })));
+    const videoSession = { id: 'video_1', consultationId: 'consult_1', ...createdSession, endedAt: null };
+    prismaMock.consultation.findUnique.mockResolvedValue({
+      ...consultation,
+      status: ConsultationStatus.IN_CALL,
+      videoSession,
+    } as any);
+
+    const patientResponse = await join(request('join'), params);
+
+    expect(patientResponse.status).toBe(200);
+    const patientJoin = await patientResponse.json();
+    expect(getLocalMeetingToken(createdSession.roomName, patientJoin.token)).toMatchObject({
+      userId: 'patient_1',
+      isOwner: false,
+    });
+
+    // Closing ends the session and deletes the local room
+    mockGetSession.mockResolvedValue(createMockSession(doctor));
+    prismaMock.consultation.findUnique.mockResolvedValue({
+      ...consultation,
+      status: ConsultationStatus.IN_CALL,
+    } as any);
+    prismaMock.videoSession.findUnique.mockResolvedValue(videoSession as any);
+    prismaMock.videoSession.updateMany.mockResolvedValue({ count: 1 });
+
+    const closeResponse = await close(request('close'), params);
+
+    expect(closeResponse.status).toBe(200);
+    expect(prismaMock.videoSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'video_1', endedAt: null },
+      data: { endedAt: expect.any(Date) },
+    });
+    expect(getLocalRoom(createdSession.roomName)).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should link to the call page relative to the app without NEXT_PUBLIC_BASE_URL', async () => {
+    delete env.NEXT_PUBLIC_BASE_URL;
+    const provider = getVideoProvider();
+
+    const room = await provider.createRoom('local_relative_room', 30);
+    const token = await provider.createMeetingToken(room.name, 'patient_1', false, 30);
+
+    expect(room.url).toBe('/call/local_relative_room');
+    expect(provider.buildJoinUrl(room.url, token)).toBe(`/call/local_relative_room?t=${token}`);
+    expect(getLocalRoom(room.name)).not.toBeNull();
+  });
+
+  it('should keep using the provider a room was created with', async () => {
+    const patient = createMockUser({ id: 'patient_1' });
+    mockGetSession.mockResolvedValue(createMockSession(patient));
+    prismaMock.consultation.findUnique.mockResolvedValue({
+      ...createMockConsultation({
+        id: 'consult_1',
+        patientId: patient.id,
+        doctorId: 'doctor_1',
+        status: ConsultationStatus.IN_CALL,
+        scheduledStartAt: new Date(),
+      }),
+      videoSession: {
+        id: 'video_1',
+        consultationId: 'consult_1',
+        provider: 'DAILY',
+        roomName: 'daily_room',
+        roomUrl: 'https://test.daily.co/daily_room',
+        endedAt: null,
+      },
+    } as any);
+    const createToken = jest
+      .spyOn(dailyVideoProvider, 'createMeetingToken')
+      .mockResolvedValue('daily_token');
+
+    const response = await join(request('join'), params);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(createToken).toHaveBeenCalledWith('daily_room', patient.id, false, 40);
+    expect(body.joinUrl).toBe('https://test.daily.co/daily_room?t=daily_token');
+    createToken.mockRestore();
+  });
+});
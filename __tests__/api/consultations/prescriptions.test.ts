@@ -0,0 +1,432 @@
+/**
+ * Tests for prescriptions:
+ * GET /api/v1/formulary
+ * GET/POST /api/v1/consultations/:id/prescriptions
+ * PATCH /api/v1/consultations/:id/prescriptions/:prescriptionId
+ * POST /api/v1/consultations/:id/prescriptions/:prescriptionId/sign
+ * GET /api/v1/consultations/:id/prescriptions/:prescriptionId/pdf
+ */
+
+import { NextRequest } from 'next/server';
+import { createMockUser, createMockDoctor, createMockConsultation, resetFactories, ConsultationStatus } from '../../helpers/factories';
+import { createMockSession } from '../../helpers/auth-mock';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+const mockGetSession = jest.fn();
+jest.mock('@/lib/auth', () => ({
+  auth: {
+    api: {
+      getSession: (...args: unknown[]) => mockGetSession(...args),
+    },
+  },
+}));
+
+import { GET as SEARCH } from '@/app/api/v1/formulary/route';
+import { GET, POST } from '@/app/api/v1/consultations/[id]/prescriptions/route';
+import { PATCH } from '@/app/api/v1/consultations/[id]/prescriptions/[prescriptionId]/route';
+import { POST as SIGN } from '@/app/api/v1/consultations/[id]/prescriptions/[prescriptionId]/sign/route';
+import { GET as PDF } from '@/app/api/v1/consultations/[id]/prescriptions/[prescriptionId]/pdf/route';
+import { prescriptionSignatureHash } from '@/lib/prescriptions';
+
+describe('Prescriptions', () => {
+  const doctor = createMockDoctor({ id: 'doctor_1', name: 'Gregory House' });
+  const patient = createMockUser({ id: 'patient_1', name: 'Jane Doe' });
+  const consultation = createMockConsultation({
+    id: 'consult_1',
+    patientId: patient.id,
+    doctorId: doctor.id,
+    specialty: 'GENERAL',
+    status: ConsultationStatus.IN_CALL,
+  });
+
+  const amoxicillin = {
+    drugId: 'amoxicillin-500-cap',
+    dose: '1 capsule',
+    frequency: 'TID',
+    quantity: 21,
+  };
+
+  function createItem(overrides: Record<string, unknown> = {}) {
+    return {
+      id: 'item_1',
+      prescriptionId: 'rx_1',
+      drugId: 'amoxicillin-500-cap',
+      drugName: 'Amoxicillin',
+      strength: '500 mg',
+      form: 'capsule',
+      dose: '1 capsule',
+      route: 'oral',
+      frequency: 'TID',
+      quantity: 21,
+      refills: 0,
+      instructions: 'Take with food until finished',
+      ...overrides,
+    };
+  }
+
+  function createPrescription(overrides: Record<string, unknown> = {}) {
+    return {
+      id: 'rx_1',
+      consultationId: consultation.id,
+      patientId: patient.id,
+      prescriberId: doctor.id,
+      status: 'DRAFT',
+      allergies: [],
+      warnings: [],
+      signedAt: null,
+      signatureHash: null,
+      createdAt: new Date('2026-10-22T14:00:00Z'),
+      updatedAt: new Date('2026-10-22T14:00:00Z'),
+      items: [createItem()],
+      ...overrides,
+    };
+  }
+
+  function createRequest(path: string, method: string, body?: object): NextRequest {
+    return new NextRequest(`http://localhost:3000/api/v1/consultations/consult_1/prescriptions${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  }
+
+  const consultParams = { params: Promise.resolve({ id: 'consult_1' }) };
+  const rxParams = { params: Promise.resolve({ id: 'consult_1', prescriptionId: 'rx_1' }) };
+
+  beforeEach(() => {
+    resetFactories();
+    resetPrismaMock();
+    setupPrismaMock();
+    mockGetSession.mockReset();
+    mockGetSession.mockResolvedValue(createMockSession(doctor));
+    prismaMock.consultation.findUnique.mockResolvedValue(consultation);
+    prismaMock.auditEvent.create.mockResolvedValue({});
+    prismaMock.prescription.create.mockImplementation(({ data }) =>
+      Promise.resolve({ ...createPrescription(data), items: data.items.create })
+    );
+  });
+
+  describe('GET /formulary', () => {
+    it('should find drugs by brand name', async () => {
+      const response = await SEARCH(new NextRequest('http://localhost:3000/api/v1/formulary?q=advil'));
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.drugs.map((d: { id: string }) => d.id)).toEqual(['ibuprofen-400-tab']);
+      expect(body.frequencies.BID).toBe('twice daily');
+    });
+
+    it('should return 403 for patients', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+
+      const response = await SEARCH(new NextRequest('http://localhost:3000/api/v1/formulary?q=amox'));
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('POST /prescriptions', () => {
+    it('should create a draft with drug details from the formulary', async () => {
+      const response = await POST(createRequest('', 'POST', { items: [amoxicillin] }), consultParams);
+
+      expect(response.status).toBe(201);
+      const body = await response.json();
+      expect(body.warnings).toEqual([]);
+      expect(prismaMock.prescription.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            patientId: patient.id,
+            prescriberId: doctor.id,
+            items: {
+              create: [
+                {
+                  ...amoxicillin,
+                  drugName: 'Amoxicillin',
+                  strength: '500 mg',
+                  form: 'capsule',
+                  route: 'oral',
+                  refills: 0,
+                  instructions: null,
+                },
+              ],
+            },
+          }),
+        })
+      );
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: 'PRESCRIPTION_CREATED', consultationId: 'consult_1' }),
+      });
+    });
+
+    it('should warn about an allergy to the drug class', async () => {
+      const response = await POST(
+        createRequest('', 'POST', { items: [amoxicillin], allergies: ['Penicillins'] }),
+        consultParams
+      );
+
+      expect(response.status).toBe(201);
+      const body = await response.json();
+      expect(body.warnings).toEqual([
+        { type: 'ALLERGY', severity: 'MAJOR', drugs: ['Amoxicillin'], message: 'Patient is allergic to Penicillins' },
+      ]);
+    });
+
+    it('should check against the allergies from the intake when none are given', async () => {
+      prismaMock.consultation.findUnique.mockResolvedValue({ ...consultation, patientIntake: { allergies: ['Penicillin'] } });
+
+      const response = await POST(createRequest('', 'POST', { items: [amoxicillin] }), consultParams);
+
+      expect(response.status).toBe(201);
+      const body = await response.json();
+      expect(body.allergies).toEqual(['Penicillin']);
+      expect(body.warnings).toEqual([
+        expect.objectContaining({ type: 'ALLERGY', drugs: ['Amoxicillin'] }),
+      ]);
+    });
+
+    it('should warn about interactions with current medications', async () => {
+      prismaMock.prescriptionItem.findMany.mockResolvedValue([{ drugId: 'warfarin-5-tab' }]);
+
+      const response = await POST(
+        createRequest('', 'POST', {
+          items: [{ drugId: 'ibuprofen-400-tab', dose: '1 tablet', frequency: 'Q8H', quantity: 15 }],
+        }),
+        consultParams
+      );
+
+      expect(response.status).toBe(201);
+      const body = await response.json();
+      expect(body.warnings).toEqual([
+        expect.objectContaining({ type: 'INTERACTION', severity: 'MAJOR', drugs: ['Ibuprofen', 'Warfarin'] }),
+      ]);
+      expect(prismaMock.prescriptionItem.findMany).toHaveBeenCalledWith({
+        where: {
+          prescription: { patientId: patient.id, status: 'SIGNED', signedAt: { gte: expect.any(Date) } },
+        },
+        select: { drugId: true },
+      });
+    });
+
+    it('should reject drugs that are not in the formulary', async () => {
+      const response = await POST(
+        createRequest('', 'POST', { items: [{ ...amoxicillin, drugId: 'unobtainium-10-tab' }] }),
+        consultParams
+      );
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details).toEqual({ field: 'items[0].drugId' });
+    });
+
+    it('should reject a route the drug cannot be given by', async () => {
+      const response = await POST(createRequest('', 'POST', { items: [{ ...amoxicillin, route: 'topical' }] }), consultParams);
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details).toEqual({ field: 'items[0].route' });
+    });
+
+    it('should return 403 for a doctor who is not assigned', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(createMockDoctor({ id: 'doctor_2' })));
+
+      const response = await POST(createRequest('', 'POST', { items: [amoxicillin] }), consultParams);
+
+      expect(response.status).toBe(403);
+      expect(prismaMock.prescription.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /prescriptions', () => {
+    it('should show the patient signed prescriptions only', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+      prismaMock.prescription.findMany.mockResolvedValue([]);
+
+      const response = await GET(createRequest('', 'GET'), consultParams);
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.prescription.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { consultationId: 'consult_1', status: 'SIGNED' } })
+      );
+    });
+
+    it('should include the allergies from the intake for new drafts', async () => {
+      prismaMock.consultation.findUnique.mockResolvedValue({ ...consultation, patientIntake: { allergies: ['Latex'] } });
+      prismaMock.prescription.findMany.mockResolvedValue([]);
+
+      const response = await GET(createRequest('', 'GET'), consultParams);
+
+      const body = await response.json();
+      expect(body.knownAllergies).toEqual(['Latex']);
+    });
+  });
+
+  describe('PATCH /prescriptions/:prescriptionId', () => {
+    it('should replace the items of a draft and check them again', async () => {
+      prismaMock.prescription.findFirst.mockResolvedValue(createPrescription());
+      prismaMock.prescription.updateMany.mockResolvedValue({ count: 1 });
+      prismaMock.prescription.findUnique.mockResolvedValue(createPrescription());
+
+      const response = await PATCH(
+        createRequest('/rx_1', 'PATCH', { items: [{ ...amoxicillin, quantity: 30 }], allergies: ['sulfa'] }),
+        rxParams
+      );
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.prescription.updateMany).toHaveBeenCalledWith({
+        where: { id: 'rx_1', status: 'DRAFT' },
+        data: { allergies: ['sulfa'], warnings: [] },
+      });
+      expect(prismaMock.prescriptionItem.deleteMany).toHaveBeenCalledWith({ where: { prescriptionId: 'rx_1' } });
+      expect(prismaMock.prescriptionItem.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ drugId: 'amoxicillin-500-cap', quantity: 30, prescriptionId: 'rx_1' })],
+      });
+    });
+
+    it('should return 409 for a signed prescription', async () => {
+      prismaMock.prescription.findFirst.mockResolvedValue(createPrescription({ status: 'SIGNED' }));
+
+      const response = await PATCH(createRequest('/rx_1', 'PATCH', { allergies: [] }), rxParams);
+
+      expect(response.status).toBe(409);
+      expect(prismaMock.prescription.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /prescriptions/:prescriptionId/sign', () => {
+    function mockSigning(stored = createPrescription({ status: 'SIGNED' })) {
+      prismaMock.prescription.updateMany.mockResolvedValue({ count: 1 });
+      prismaMock.prescription.findUnique.mockResolvedValue(stored);
+      prismaMock.prescription.update.mockImplementation(async ({ data }: any) => ({ ...stored, ...data }));
+    }
+
+    it('should sign and record a hash of the content', async () => {
+      prismaMock.prescription.findFirst.mockResolvedValue(createPrescription());
+      mockSigning();
+
+      const response = await SIGN(createRequest('/rx_1/sign', 'POST'), rxParams);
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.prescription.updateMany).toHaveBeenCalledWith({
+        where: { id: 'rx_1', status: 'DRAFT' },
+        data: { status: 'SIGNED', signedAt: expect.any(Date), warnings: [] },
+      });
+      expect(prismaMock.prescription.update).toHaveBeenCalledWith({
+        where: { id: 'rx_1' },
+        data: { signatureHash: expect.stringMatching(/^[0-9a-f]{64}$/) },
+        include: expect.anything(),
+      });
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: 'PRESCRIPTION_SIGNED' }),
+      });
+    });
+
+    it('should hash the items stored when the prescription was locked for signing', async () => {
+      prismaMock.prescription.findFirst.mockResolvedValue(createPrescription());
+      // An edit committed between the first read and the signature
+      const stored = createPrescription({ status: 'SIGNED', items: [createItem({ quantity: 42 })] });
+      mockSigning(stored);
+
+      await SIGN(createRequest('/rx_1/sign', 'POST'), rxParams);
+
+      const { signedAt } = prismaMock.prescription.updateMany.mock.calls[0][0].data;
+      expect(prismaMock.prescription.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { signatureHash: prescriptionSignatureHash({ ...stored, signedAt } as any) },
+        })
+      );
+    });
+
+    it('should require major warnings to be acknowledged', async () => {
+      prismaMock.prescription.findFirst.mockResolvedValue(createPrescription({ allergies: ['penicillin'] }));
+
+      const response = await SIGN(createRequest('/rx_1/sign', 'POST'), rxParams);
+
+      expect(response.status).toBe(409);
+      const body = await response.json();
+      expect(body.error.details.warnings).toHaveLength(1);
+      expect(prismaMock.prescription.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should sign with acknowledged warnings', async () => {
+      prismaMock.prescription.findFirst.mockResolvedValue(createPrescription({ allergies: ['penicillin'] }));
+      mockSigning();
+
+      const response = await SIGN(createRequest('/rx_1/sign', 'POST', { acknowledgeWarnings: true }), rxParams);
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          eventMetadata: expect.objectContaining({ warningsAcknowledged: true }),
+        }),
+      });
+    });
+
+    it('should return 403 for someone other than the prescriber', async () => {
+      prismaMock.prescription.findFirst.mockResolvedValue(createPrescription({ prescriberId: 'doctor_2' }));
+
+      const response = await SIGN(createRequest('/rx_1/sign', 'POST'), rxParams);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('GET /prescriptions/:prescriptionId/pdf', () => {
+    function createPdfPrescription(overrides: Record<string, unknown> = {}) {
+      return createPrescription({
+        status: 'SIGNED',
+        signedAt: new Date('2026-10-22T14:30:00Z'),
+        signatureHash: 'ab'.repeat(32),
+        allergies: ['sulfa'],
+        prescriber: { name: doctor.name, doctorProfile: { licenseId: 'MD-12345' } },
+        patient: { name: patient.name, email: patient.email },
+        consultation: { doctorId: doctor.id, specialty: 'GENERAL', scheduledStartAt: new Date('2026-10-22T14:00:00Z') },
+        ...overrides,
+      });
+    }
+
+    it('should let the patient download a signed prescription', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+      prismaMock.prescription.findFirst.mockResolvedValue(createPdfPrescription());
+
+      const response = await PDF(createRequest('/rx_1/pdf', 'GET'), rxParams);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('application/pdf');
+      const pdf = Buffer.from(await response.arrayBuffer()).toString('latin1');
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('(Dr. Gregory House)');
+      expect(pdf).toContain('(License: MD-12345)');
+      expect(pdf).toContain('(Known allergies: sulfa)');
+      expect(pdf).toContain('(1. Amoxicillin 500 mg capsule)');
+      expect(pdf).toContain('(Sig: 1 capsule oral three times daily)');
+      expect(pdf).toContain('(Take with food until finished)');
+      expect(pdf).toContain(`(Verification: ${'ab'.repeat(32)})`);
+    });
+
+    it('should not give the patient a draft', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+      prismaMock.prescription.findFirst.mockResolvedValue(createPdfPrescription({ status: 'DRAFT', signedAt: null }));
+
+      const response = await PDF(createRequest('/rx_1/pdf', 'GET'), rxParams);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 409 for a draft', async () => {
+      prismaMock.prescription.findFirst.mockResolvedValue(createPdfPrescription({ status: 'DRAFT', signedAt: null }));
+
+      const response = await PDF(createRequest('/rx_1/pdf', 'GET'), rxParams);
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should return 403 for other patients', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(createMockUser({ id: 'patient_2' })));
+      prismaMock.prescription.findFirst.mockResolvedValue(createPdfPrescription());
+
+      const response = await PDF(createRequest('/rx_1/pdf', 'GET'), rxParams);
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
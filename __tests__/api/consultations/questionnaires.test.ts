@@ -0,0 +1,225 @@
+/**
+ * Tests for specialty intake questionnaires:
+ * GET /api/v1/specialties/[id]/questionnaire and the answers sent with
+ * POST/PUT /api/v1/consultations/[id]/intake
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createMockUser,
+  createMockConsultation,
+  createMockQuestionnaireAnswers,
+  resetFactories,
+  ConsultationStatus,
+} from '../../helpers/factories';
+import { createMockSession } from '../../helpers/auth-mock';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+// Mock auth
+const mockGetSession = jest.fn();
+jest.mock('@/lib/auth', () => ({
+  auth: {
+    api: {
+      getSession: (...args: unknown[]) => mockGetSession(...args),
+    },
+  },
+}));
+
+// Mock generated Prisma client
+jest.mock('@/app/generated/prisma/client', () => ({
+  ConsultationStatus: {
+    CREATED: 'CREATED',
+    PAYMENT_PENDING: 'PAYMENT_PENDING',
+    PAID: 'PAID',
+    IN_CALL: 'IN_CALL',
+    COMPLETED: 'COMPLETED',
+    CANCELLED: 'CANCELLED',
+    EXPIRED: 'EXPIRED',
+    PAYMENT_FAILED: 'PAYMENT_FAILED',
+  }
+}));
+
+import { GET } from '@/app/api/v1/specialties/[id]/questionnaire/route';
+import { POST, PUT } from '@/app/api/v1/consultations/[id]/intake/route';
+
+describe('Specialty intake questionnaires', () => {
+  const patient = createMockUser({ id: 'patient_1' });
+
+  beforeEach(() => {
+    resetFactories();
+    resetPrismaMock();
+    setupPrismaMock();
+    mockGetSession.mockReset();
+    mockGetSession.mockResolvedValue(createMockSession(patient));
+    prismaMock.patientIntake.create.mockResolvedValue({ id: 'intake-1' } as any);
+    prismaMock.patientIntake.upsert.mockResolvedValue({ id: 'intake-1' } as any);
+  });
+
+  function getQuestionnaire(specialty: string) {
+    const req = new NextRequest(`http://localhost:3000/api/v1/specialties/${specialty}/questionnaire`);
+    return GET(req, { params: Promise.resolve({ id: specialty }) });
+  }
+
+  function submitIntake(specialty: string, questionnaire: unknown, method: 'POST' | 'PUT' = 'POST') {
+    const consultation = createMockConsultation({
+      patientId: patient.id,
+      specialty,
+      status: ConsultationStatus.CREATED,
+      patientIntake: null,
+    });
+    prismaMock.consultation.findUnique.mockResolvedValue(consultation as any);
+
+    const req = new NextRequest(`http://localhost:3000/api/v1/consultations/${consultation.id}/intake`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ nameOrAlias: 'Johnny', consentAccepted: true, questionnaire }),
+    });
+    const handler = method === 'POST' ? POST : PUT;
+    return handler(req, { params: Promise.resolve({ id: consultation.id }) });
+  }
+
+  describe('GET /specialties/[id]/questionnaire', () => {
+    it('should return 401 if not authenticated', async () => {
+      mockGetSession.mockResolvedValue(null);
+
+      const res = await getQuestionnaire('DERMATOLOGY');
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should return the questionnaire with option sets resolved', async () => {
+      const res = await getQuestionnaire('PSYCHIATRY');
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.version).toEqual(expect.any(String));
+      expect(body.questionnaire.specialty).toBe('PSYCHIATRY');
+      const phq9 = body.questionnaire.sections[0].questions[0];
+      expect(phq9.options).toHaveLength(4);
+      expect(phq9.options[3]).toMatchObject({ value: '3', score: 3 });
+    });
+
+    it('should return null for a specialty with only the standard intake', async () => {
+      const res = await getQuestionnaire('GENERAL');
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).questionnaire).toBeNull();
+    });
+
+    it('should return 404 for an unknown specialty', async () => {
+      const res = await getQuestionnaire('ASTROLOGY');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('intake answers', () => {
+    it('should store the answers with the questionnaire version', async () => {
+      const answers = createMockQuestionnaireAnswers('PEDIATRICS');
+
+      const res = await submitIntake('PEDIATRICS', answers);
+
+      expect(res.status).toBe(201);
+      expect(prismaMock.patientIntake.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          questionnaire: { specialty: 'PEDIATRICS', version: expect.any(String), answers, scores: [] },
+        }),
+      });
+    });
+
+    it('should not store a questionnaire for specialties without one', async () => {
+      const res = await submitIntake('GENERAL', undefined);
+
+      expect(res.status).toBe(201);
+      expect(prismaMock.patientIntake.create.mock.calls[0][0].data.questionnaire).toBeUndefined();
+    });
+
+    it.each([
+      ['a missing required answer', 'DERMATOLOGY', { lesion_location: ['arms'], lesion_changed: false }, 'lesion_duration'],
+      [
+        'a required follow-up that was branched into',
+        'DERMATOLOGY',
+        { ...createMockQuestionnaireAnswers('DERMATOLOGY'), lesion_changed: true },
+        'lesion_change_details',
+      ],
+      ['an unknown question', 'PEDIATRICS', { ...createMockQuestionnaireAnswers('PEDIATRICS'), shoe_size: 3 }, 'shoe_size'],
+      ['an option that is not offered', 'DERMATOLOGY', { ...createMockQuestionnaireAnswers('DERMATOLOGY'), lesion_duration: 'forever' }, 'lesion_duration'],
+      ['a number out of range', 'PEDIATRICS', { ...createMockQuestionnaireAnswers('PEDIATRICS'), child_age_years: 18 }, 'child_age_years'],
+      ['a yes/no answer given as text', 'PEDIATRICS', { ...createMockQuestionnaireAnswers('PEDIATRICS'), guardian_present: 'yes' }, 'guardian_present'],
+    ])('should reject %s', async (_case, specialty, answers, field) => {
+      const res = await submitIntake(specialty, answers);
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+      expect(body.error.details.field).toBe(`questionnaire.${field}`);
+      expect(prismaMock.patientIntake.create).not.toHaveBeenCalled();
+    });
+
+    it('should drop answers to questions that are not shown', async () => {
+      const res = await submitIntake('DERMATOLOGY', {
+        ...createMockQuestionnaireAnswers('DERMATOLOGY'),
+        lesion_change_details: 'Got bigger',
+        lesion_location_other: 'Scalp',
+      });
+
+      expect(res.status).toBe(201);
+      const stored = prismaMock.patientIntake.create.mock.calls[0][0].data.questionnaire;
+      expect(stored.answers).not.toHaveProperty('lesion_change_details');
+      expect(stored.answers).not.toHaveProperty('lesion_location_other');
+    });
+
+    it('should score PHQ-9 and GAD-7 and flag item 9', async () => {
+      const answers = {
+        ...Object.fromEntries(Array.from({ length: 8 }, (_, i) => [`phq9_${i + 1}`, '2'])),
+        phq9_9: '1',
+        phq9_safety_now: false,
+        ...Object.fromEntries(Array.from({ length: 7 }, (_, i) => [`gad7_${i + 1}`, '3'])),
+        current_treatment: false,
+      };
+
+      const res = await submitIntake('PSYCHIATRY', answers);
+
+      expect(res.status).toBe(201);
+      const stored = prismaMock.patientIntake.create.mock.calls[0][0].data.questionnaire;
+      expect(stored.scores).toEqual([
+        {
+          id: 'PHQ9',
+          label: 'PHQ-9 (depression)',
+          score: 17,
+          maxScore: 27,
+          severity: 'Moderately severe',
+          flags: ['Thoughts of self-harm reported (item 9)'],
+        },
+        { id: 'GAD7', label: 'GAD-7 (anxiety)', score: 21, maxScore: 21, severity: 'Severe', flags: [] },
+      ]);
+    });
+
+    it('should require the safety follow-up when item 9 is not "not at all"', async () => {
+      const res = await submitIntake('PSYCHIATRY', {
+        ...createMockQuestionnaireAnswers('PSYCHIATRY'),
+        phq9_9: '2',
+      });
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).error.details.field).toBe('questionnaire.phq9_safety_now');
+    });
+
+    it('should validate and store answers when the intake is updated', async () => {
+      const res = await submitIntake('PSYCHIATRY', createMockQuestionnaireAnswers('PSYCHIATRY'), 'PUT');
+
+      expect(res.status).toBe(200);
+      const { create, update } = prismaMock.patientIntake.upsert.mock.calls[0][0];
+      expect(create.questionnaire.scores.map((s: any) => s.severity)).toEqual(['Minimal', 'Minimal']);
+      expect(update.questionnaire).toEqual(create.questionnaire);
+    });
+
+    it('should reject an update that leaves out required answers', async () => {
+      const res = await submitIntake('PSYCHIATRY', {}, 'PUT');
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).error.details.field).toBe('questionnaire.phq9_1');
+      expect(prismaMock.patientIntake.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Tests for POST /api/v1/consultations/:id/reschedule
+ *
+ * Covers patient self-service rescheduling: ownership, minimum notice,
+ * availability checks and moving the Redis slot lock.
+ */
+
+import { NextRequest } from 'next/server';
+import { DateTime } from 'luxon';
+import { createMockUser, createMockConsultation, resetFactories, ConsultationStatus } from '../../helpers/factories';
+import { createMockSession } from '../../helpers/auth-mock';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+// Mock auth module
+const mockGetSession = jest.fn();
+jest.mock('@/lib/auth', () => ({
+  auth: {
+    api: {
+      getSession: (...args: unknown[]) => mockGetSession(...args),
+    },
+  },
+}));
+
+// Mock the Redis client; lock helpers run for real against it
+const mockRedisEval = jest.fn();
+jest.mock('@/lib/redis', () => ({
+  ...jest.requireActual('@/lib/redis'),
+  getRedis: async () => ({
+    eval: (...args: unknown[]) => mockRedisEval(...args),
+  }),
+}));
+
+// Import route handler after mocks are set up
+import { POST } from '@/app/api/v1/consultations/[id]/reschedule/route';
+
+describe('POST /api/v1/consultations/:id/reschedule', () => {
+  const patient = createMockUser({ id: 'patient_1' });
+  const oldStart = DateTime.utc().startOf('day').plus({ days: 3 }).set({ hour: 10 });
+  const newStart = DateTime.utc().startOf('day').plus({ days: 4 }).set({ hour: 11 });
+  const oldLockKey = `slotlock:doctor_1:${oldStart.toMillis()}`;
+  const newLockKey = `slotlock:doctor_1:${newStart.toMillis()}`;
+
+  beforeEach(() => {
+    resetFactories();
+    resetPrismaMock();
+    setupPrismaMock();
+    mockGetSession.mockReset();
+    mockRedisEval.mockReset();
+    delete process.env.RESCHEDULE_MIN_NOTICE_HOURS;
+
+    mockGetSession.mockResolvedValue(createMockSession(patient));
+    prismaMock.consultation.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  function mockConsultation(overrides: object = {}) {
+    const consultation = {
+      ...createMockConsultation({
+        id: 'consult_1',
+        patientId: patient.id,
+        doctorId: 'doctor_1',
+        status: ConsultationStatus.PAID,
+        scheduledStartAt: oldStart.toJSDate(),
+      }),
+      doctor: {
+        id: 'doctor_1',
+        doctorProfile: { id: 'profile_1', timezone: 'UTC', workingHours: [] },
+      },
+      ...overrides,
+    };
+    prismaMock.consultation.findUnique.mockResolvedValue(consultation as any);
+    return consultation;
+  }
+
+  function reschedule(scheduledStartAt: string | null = newStart.toISO()!) {
+    return POST(
+      new NextRequest('http://localhost:3000/api/v1/consultations/consult_1/reschedule', {
+        method: 'POST',
+        body: JSON.stringify({ scheduledStartAt }),
+        headers: { 'Content-Type': 'application/json' },
+      }),
+      { params: Promise.resolve({ id: 'consult_1' }) }
+    );
+  }
+
+  describe('Validation', () => {
+    it('should reject a missing scheduledStartAt', async () => {
+      const response = await reschedule(null);
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details.field).toBe('scheduledStartAt');
+    });
+
+    it('should return 403 for another patient', async () => {
+      mockConsultation({ patientId: 'patient_other' });
+
+      const response = await reschedule();
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should reject consultations that already started', async () => {
+      mockConsultation({ status: ConsultationStatus.IN_CALL });
+
+      const response = await reschedule();
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details.currentStatus).toBe('IN_CALL');
+    });
+
+    it('should enforce the minimum notice for the current appointment', async () => {
+      mockConsultation({ scheduledStartAt: DateTime.utc().plus({ hours: 2 }).toJSDate() });
+
+      const response = await reschedule();
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details.minNoticeHours).toBe(24);
+      expect(prismaMock.consultation.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should read the minimum notice from RESCHEDULE_MIN_NOTICE_HOURS', async () => {
+      process.env.RESCHEDULE_MIN_NOTICE_HOURS = '120';
+      mockConsultation();
+
+      const response = await reschedule();
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details.minNoticeHours).toBe(120);
+    });
+  });
+
+  describe('Availability', () => {
+    it('should return 409 for a time outside the doctor schedule', async () => {
+      mockConsultation();
+
+      const response = await reschedule(newStart.set({ hour: 20 }).toISO()!);
+
+      expect(response.status).toBe(409);
+      const body = await response.json();
+      expect(body.error.details.reason).toBe('OUTSIDE_SCHEDULE');
+      expect(mockRedisEval).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the new time overlaps another booking', async () => {
+      mockConsultation();
+      prismaMock.consultation.findMany.mockResolvedValue([
+        {
+          id: 'consult_other',
+          scheduledStartAt: newStart.minus({ minutes: 15 }).toJSDate(),
+          durationMinutes: 30,
+          bufferMinutes: 0,
+        },
+      ] as any);
+
+      const response = await reschedule();
+
+      expect(response.status).toBe(409);
+      const body = await response.json();
+      expect(body.error.details.reason).toBe('BOOKED');
+    });
+
+    it('should return 409 when the new slot is locked by a checkout', async () => {
+      mockConsultation();
+      mockRedisEval.mockResolvedValue(0);
+
+      const response = await reschedule();
+
+      expect(response.status).toBe(409);
+      expect(prismaMock.consultation.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Success', () => {
+    it('should move the booking and record an audit event', async () => {
+      mockConsultation();
+      mockRedisEval.mockResolvedValue(2);
+
+      const response = await reschedule();
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.consultation.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'consult_1',
+          status: ConsultationStatus.PAID,
+          scheduledStartAt: oldStart.toJSDate(),
+        },
+        data: { scheduledStartAt: newStart.toJSDate() },
+      });
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          actorUserId: patient.id,
+          consultationId: 'consult_1',
+          eventType: 'CONSULT_RESCHEDULED',
+          eventMetadata: expect.objectContaining({
+            from: oldStart.toJSDate().toISOString(),
+            to: newStart.toJSDate().toISOString(),
+          }),
+        }),
+      });
+    });
+
+    it('should move the slot lock and release a lock taken only for the write', async () => {
+      mockConsultation();
+      mockRedisEval.mockResolvedValueOnce(2).mockResolvedValueOnce(1);
+
+      await reschedule();
+
+      expect(mockRedisEval).toHaveBeenNthCalledWith(1, expect.any(String), {
+        keys: [oldLockKey, newLockKey],
+        arguments: ['consult_1', expect.any(String)],
+      });
+      expect(mockRedisEval).toHaveBeenNthCalledWith(2, expect.any(String), {
+        keys: [newLockKey],
+        arguments: ['consult_1'],
+      });
+    });
+
+    it('should keep a moved checkout lock on the new slot', async () => {
+      mockConsultation({ status: ConsultationStatus.CREATED });
+      mockRedisEval.mockResolvedValue(1);
+
+      const response = await reschedule();
+
+      expect(response.status).toBe(200);
+      expect(mockRedisEval).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move the lock back when the consultation changed concurrently', async () => {
+      mockConsultation({ status: ConsultationStatus.CREATED });
+      mockRedisEval.mockResolvedValue(1);
+      prismaMock.consultation.updateMany.mockResolvedValue({ count: 0 });
+
+      const response = await reschedule();
+
+      expect(response.status).toBe(409);
+      expect(mockRedisEval).toHaveBeenLastCalledWith(expect.any(String), {
+        keys: [newLockKey, oldLockKey],
+        arguments: ['consult_1', expect.any(String)],
+      });
+      expect(prismaMock.auditEvent.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * Tests for recurring consultation series
+ *
+ * POST /api/v1/consultations with `recurrence` and
+ * POST /api/v1/consultations/:id/cancel (single occurrence or all future ones).
+ */
+
+import { NextRequest } from 'next/server';
+import { DateTime } from 'luxon';
+import { createMockUser, createMockDoctor, createMockConsultation, createMockQuestionnaireAnswers, resetFactories, ConsultationStatus } from '../../helpers/factories';
+import { createMockSession } from '../../helpers/auth-mock';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+// Mock auth module
+const mockGetSession = jest.fn();
+jest.mock('@/lib/auth', () => ({
+  auth: {
+    api: {
+      getSession: (...args: unknown[]) => mockGetSession(...args),
+    },
+  },
+}));
+
+// Import route handlers after mocks are set up
+import { POST as createConsultation } from '@/app/api/v1/consultations/route';
+import { POST as cancelConsultation } from '@/app/api/v1/consultations/[id]/cancel/route';
+
+describe('Recurring consultation series', () => {
+  const validIntake = {
+    nameOrAlias: 'Test Patient',
+    ageRange: '18-39',
+    consentAccepted: true,
+  };
+
+  beforeEach(() => {
+    resetFactories();
+    resetPrismaMock();
+    setupPrismaMock();
+    mockGetSession.mockReset();
+  });
+
+  function createRequest(url: string, body?: object): NextRequest {
+    return new NextRequest(url, {
+      method: 'POST',
+      ...(body ? { body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } } : {}),
+    });
+  }
+
+  function mockDoctor(timezone = 'UTC') {
+    const doctor = createMockDoctor({ id: 'doctor_1' });
+    prismaMock.user.findUnique.mockResolvedValue({
+      ...doctor,
+      doctorProfile: {
+        id: 'profile_1',
+        doctorId: doctor.id,
+        specialties: ['PSYCHIATRY'],
+        timezone,
+        bufferMinutes: 0,
+        workingHours: [],
+        appointmentDurations: [],
+      },
+    } as any);
+    return doctor;
+  }
+
+  function mockCreates() {
+    prismaMock.consultationSeries.create.mockResolvedValue({ id: 'series_1' } as any);
+    prismaMock.consultation.create.mockImplementation(async ({ data }: any) =>
+      createMockConsultation({ ...data, id: `consult_${data.seriesIndex}` })
+    );
+  }
+
+  describe('POST /api/v1/consultations with recurrence', () => {
+    // Next week, 09:00 UTC - the first 50 minute psychiatry slot of the default 09:00-17:00 schedule
+    const firstStart = DateTime.utc().startOf('day').plus({ weeks: 1 }).set({ hour: 9 });
+
+    function seriesRequest(overrides: object = {}) {
+      return createRequest('http://localhost:3000/api/v1/consultations', {
+        specialty: 'PSYCHIATRY',
+        doctorId: 'doctor_1',
+        scheduledStartAt: firstStart.toISO(),
+        intake: { ...validIntake, questionnaire: createMockQuestionnaireAnswers('PSYCHIATRY') },
+        recurrence: { frequency: 'WEEKLY', count: 4 },
+        ...overrides,
+      });
+    }
+
+    beforeEach(() => {
+      mockGetSession.mockResolvedValue(createMockSession(createMockUser({ id: 'patient_1' })));
+    });
+
+    it('should require a doctor', async () => {
+      const response = await createConsultation(seriesRequest({ doctorId: undefined }));
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details.field).toBe('doctorId');
+    });
+
+    it('should reject an unknown frequency', async () => {
+      const response = await createConsultation(
+        seriesRequest({ recurrence: { frequency: 'DAILY', count: 4 } })
+      );
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details.field).toBe('recurrence.frequency');
+    });
+
+    it('should reject too many occurrences', async () => {
+      const response = await createConsultation(
+        seriesRequest({ recurrence: { frequency: 'WEEKLY', count: 52 } })
+      );
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details.field).toBe('recurrence.count');
+    });
+
+    it('should create one linked consultation per occurrence', async () => {
+      mockDoctor();
+      mockCreates();
+
+      const response = await createConsultation(seriesRequest());
+
+      expect(response.status).toBe(201);
+      const body = await response.json();
+      expect(body.series.id).toBe('series_1');
+      expect(body.consultations).toHaveLength(4);
+
+      expect(prismaMock.consultationSeries.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          patientId: 'patient_1',
+          doctorId: 'doctor_1',
+          frequency: 'WEEKLY',
+          occurrenceCount: 4,
+          timezone: 'UTC',
+        }),
+      });
+
+      const starts = prismaMock.consultation.create.mock.calls.map(
+        ([args]: any) => (args.data.scheduledStartAt as Date).toISOString()
+      );
+      expect(starts).toEqual(
+        [0, 1, 2, 3].map((w) => firstStart.plus({ weeks: w }).toJSDate().toISOString())
+      );
+      expect(prismaMock.consultation.create).toHaveBeenLastCalledWith({
+        data: expect.objectContaining({
+          seriesId: 'series_1',
+          seriesIndex: 4,
+          status: ConsultationStatus.CREATED,
+          durationMinutes: 50,
+        }),
+      });
+
+      // Each occurrence keeps its own audit trail
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledTimes(4);
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          consultationId: 'consult_2',
+          eventType: 'CONSULT_CREATED',
+          eventMetadata: expect.objectContaining({ seriesId: 'series_1', seriesIndex: 2 }),
+        }),
+      });
+    });
+
+    it('should keep the local time across a DST change', async () => {
+      mockDoctor('America/New_York');
+      mockCreates();
+      // US daylight saving time ends on 2030-11-03
+      const first = DateTime.fromISO('2030-10-22T09:00', { zone: 'America/New_York' });
+
+      const response = await createConsultation(
+        seriesRequest({
+          scheduledStartAt: first.toUTC().toISO(),
+          recurrence: { frequency: 'BIWEEKLY', count: 3 },
+        })
+      );
+
+      expect(response.status).toBe(201);
+      const localStarts = prismaMock.consultation.create.mock.calls.map(([args]: any) =>
+        DateTime.fromJSDate(args.data.scheduledStartAt).setZone('America/New_York').toFormat('yyyy-MM-dd HH:mm')
+      );
+      expect(localStarts).toEqual(['2030-10-22 09:00', '2030-11-05 09:00', '2030-11-19 09:00']);
+    });
+
+    it('should return 409 and create nothing when an occurrence falls in time off', async () => {
+      mockDoctor();
+      mockCreates();
+      const thirdStart = firstStart.plus({ weeks: 2 });
+      prismaMock.doctorAvailabilityOverride.findMany.mockResolvedValue([
+        {
+          id: 'override_1',
+          type: 'TIME_OFF',
+          startAt: thirdStart.startOf('day').toJSDate(),
+          endAt: thirdStart.endOf('day').toJSDate(),
+        },
+      ] as any);
+
+      const response = await createConsultation(seriesRequest());
+
+      expect(response.status).toBe(409);
+      const body = await response.json();
+      expect(body.error.details.unavailable).toEqual([
+        { scheduledStartAt: thirdStart.toJSDate().toISOString(), reason: 'BLOCKED' },
+      ]);
+      expect(prismaMock.consultationSeries.create).not.toHaveBeenCalled();
+      expect(prismaMock.consultation.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when an occurrence overlaps a booked consultation', async () => {
+      mockDoctor();
+      const secondStart = firstStart.plus({ weeks: 1 });
+      prismaMock.consultation.findMany.mockResolvedValue([
+        {
+          id: 'consult_other',
+          scheduledStartAt: secondStart.plus({ minutes: 30 }).toJSDate(),
+          durationMinutes: 30,
+          bufferMinutes: 0,
+        },
+      ] as any);
+
+      const response = await createConsultation(seriesRequest());
+
+      expect(response.status).toBe(409);
+      const body = await response.json();
+      expect(body.error.details.unavailable).toEqual([
+        { scheduledStartAt: secondStart.toJSDate().toISOString(), reason: 'BOOKED' },
+      ]);
+    });
+
+    it('should return 409 when an occurrence is outside working hours', async () => {
+      mockDoctor();
+
+      const response = await createConsultation(
+        seriesRequest({ scheduledStartAt: firstStart.set({ hour: 20 }).toISO() })
+      );
+
+      expect(response.status).toBe(409);
+      const body = await response.json();
+      expect(body.error.details.unavailable).toHaveLength(4);
+      expect(body.error.details.unavailable[0].reason).toBe('OUTSIDE_SCHEDULE');
+    });
+  });
+
+  describe('POST /api/v1/consultations/:id/cancel', () => {
+    const patient = createMockUser({ id: 'patient_1' });
+
+    function cancelRequest(id: string, body?: object) {
+      return cancelConsultation(
+        createRequest(`http://localhost:3000/api/v1/consultations/${id}/cancel`, body),
+        { params: Promise.resolve({ id }) }
+      );
+    }
+
+    function mockOccurrence(overrides: object = {}) {
+      prismaMock.consultation.findUnique.mockResolvedValue(
+        createMockConsultation({
+          id: 'consult_2',
+          patientId: patient.id,
+          doctorId: 'doctor_1',
+          seriesId: 'series_1',
+          seriesIndex: 2,
+          ...overrides,
+        }) as any
+      );
+    }
+
+    beforeEach(() => {
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+    });
+
+    it('should return 403 for another patient', async () => {
+      mockOccurrence({ patientId: 'patient_other' });
+
+      const response = await cancelRequest('consult_2');
+
+      expect(response.status).toBe(403);
+      expect(prismaMock.consultation.update).not.toHaveBeenCalled();
+    });
+
+    it('should cancel only the given occurrence by default', async () => {
+      mockOccurrence();
+
+      const response = await cancelRequest('consult_2');
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.cancelled).toEqual(['consult_2']);
+      expect(prismaMock.consultation.findMany).not.toHaveBeenCalled();
+      expect(prismaMock.consultation.update).toHaveBeenCalledWith({
+        where: { id: 'consult_2', status: ConsultationStatus.CREATED },
+        data: { status: ConsultationStatus.CANCELLED },
+      });
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          consultationId: 'consult_2',
+          eventType: 'CONSULT_CANCELLED',
+          eventMetadata: expect.objectContaining({ scope: 'OCCURRENCE', seriesId: 'series_1' }),
+        }),
+      });
+    });
+
+    it('should cancel this and all later occurrences with scope FUTURE', async () => {
+      mockOccurrence();
+      prismaMock.consultation.findMany.mockResolvedValue([
+        { id: 'consult_2', status: ConsultationStatus.CREATED, seriesIndex: 2 },
+        { id: 'consult_3', status: ConsultationStatus.PAID, seriesIndex: 3 },
+        { id: 'consult_4', status: ConsultationStatus.COMPLETED, seriesIndex: 4 },
+      ]);
+
+      const response = await cancelRequest('consult_2', { scope: 'FUTURE' });
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.cancelled).toEqual(['consult_2', 'consult_3']);
+      expect(body.skipped).toEqual([{ id: 'consult_4', status: ConsultationStatus.COMPLETED }]);
+      expect(prismaMock.consultation.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { seriesId: 'series_1', seriesIndex: { gte: 2 } },
+        })
+      );
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject scope FUTURE for a consultation outside a series', async () => {
+      mockOccurrence({ seriesId: null, seriesIndex: null });
+
+      const response = await cancelRequest('consult_2', { scope: 'FUTURE' });
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details.field).toBe('scope');
+    });
+
+    it('should not cancel a completed consultation', async () => {
+      mockOccurrence({ status: ConsultationStatus.COMPLETED });
+
+      const response = await cancelRequest('consult_2');
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.code).toBe('INVALID_STATUS_TRANSITION');
+    });
+  });
+});
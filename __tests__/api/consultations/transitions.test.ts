@@ -0,0 +1,161 @@
+/**
+ * Tests for the consultation state machine (lib/consultation-transitions.ts)
+ *
+ * Transitions are validated against VALID_STATUS_TRANSITIONS (plus
+ * SYSTEM_STATUS_TRANSITIONS for the system), guarded on the
+ * status they were read in, stamped and audited; hooks run after commit and
+ * never fail the transition.
+ */
+
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+
+const mockReleaseSlotLock = jest.fn();
+jest.mock('@/lib/redis', () => ({
+  getRedis: async () => ({}),
+  releaseSlotLock: (...args: unknown[]) => mockReleaseSlotLock(...args),
+  slotLockKey: (doctorId: string, scheduledStartAtMs: number) =>
+    `slotlock:${doctorId}:${scheduledStartAtMs}`,
+}));
+
+const mockDeleteRoom = jest.fn();
+jest.mock('@/lib/daily', () => ({
+  deleteRoom: (...args: unknown[]) => mockDeleteRoom(...args),
+}));
+
+import {
+  InvalidTransitionError,
+  registerTransitionHook,
+  TransitionConflictError,
+  transitionConsultation,
+} from '@/lib/consultation-transitions';
+
+describe('Consultation transitions', () => {
+  const now = new Date('2030-01-01T12:00:00.000Z');
+  const scheduledStartAt = new Date('2030-01-01T11:30:00.000Z');
+
+  function subject(status: string) {
+    return { id: 'consult_1', status, doctorId: 'doc_1', scheduledStartAt } as any;
+  }
+
+  beforeEach(() => {
+    resetPrismaMock();
+    setupPrismaMock();
+    mockReleaseSlotLock.mockReset();
+    mockDeleteRoom.mockReset();
+
+    prismaMock.consultation.update.mockImplementation(async ({ data }: any) => ({ id: 'consult_1', ...data }));
+    prismaMock.videoSession.findUnique.mockResolvedValue(null);
+    prismaMock.videoSession.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should reject transitions that are not in the table', async () => {
+    await expect(transitionConsultation(subject('COMPLETED'), 'PAID' as any)).rejects.toBeInstanceOf(
+      InvalidTransitionError
+    );
+
+    expect(prismaMock.consultation.update).not.toHaveBeenCalled();
+    expect(prismaMock.auditEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should only allow settlement transitions for the system', async () => {
+    await expect(transitionConsultation(subject('CREATED'), 'PAID' as any)).rejects.toBeInstanceOf(
+      InvalidTransitionError
+    );
+    expect(prismaMock.consultation.update).not.toHaveBeenCalled();
+
+    const transition = await transitionConsultation(subject('CREATED'), 'PAID' as any, { system: true });
+
+    expect(transition.to).toBe('PAID');
+  });
+
+  it('should update guarded on the current status and write the audit event', async () => {
+    const transition = await transitionConsultation(subject('PAID'), 'CANCELLED' as any, {
+      actor: { id: 'doc_1', role: 'DOCTOR' },
+      eventType: 'CONSULT_CANCELLED',
+      metadata: { cancelledBy: 'DOCTOR' },
+      now,
+    });
+
+    expect(transition.updated.status).toBe('CANCELLED');
+    expect(prismaMock.consultation.update).toHaveBeenCalledWith({
+      where: { id: 'consult_1', status: 'PAID' },
+      data: { status: 'CANCELLED' },
+    });
+    expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+      data: {
+        actorUserId: 'doc_1',
+        consultationId: 'consult_1',
+        eventType: 'CONSULT_CANCELLED',
+        eventMetadata: { from: 'PAID', to: 'CANCELLED', cancelledBy: 'DOCTOR' },
+      },
+    });
+  });
+
+  it('should set startedAt when the call starts and endedAt when it ends', async () => {
+    await transitionConsultation(subject('PAID'), 'IN_CALL' as any, { now });
+    await transitionConsultation(subject('IN_CALL'), 'COMPLETED' as any, { now });
+
+    expect(prismaMock.consultation.update).toHaveBeenNthCalledWith(1, {
+      where: { id: 'consult_1', status: 'PAID' },
+      data: { status: 'IN_CALL', startedAt: now },
+    });
+    expect(prismaMock.consultation.update).toHaveBeenNthCalledWith(2, {
+      where: { id: 'consult_1', status: 'IN_CALL' },
+      data: { status: 'COMPLETED', endedAt: now },
+    });
+  });
+
+  it('should report a conflict when the status changed in the meantime', async () => {
+    prismaMock.consultation.update.mockRejectedValue({ code: 'P2025' });
+
+    await expect(transitionConsultation(subject('PAID'), 'CANCELLED' as any)).rejects.toBeInstanceOf(
+      TransitionConflictError
+    );
+
+    expect(prismaMock.auditEvent.create).not.toHaveBeenCalled();
+    expect(mockReleaseSlotLock).not.toHaveBeenCalled();
+  });
+
+  it('should release the slot lock once the consultation is given up', async () => {
+    await transitionConsultation(subject('CREATED'), 'CANCELLED' as any, { now });
+
+    expect(mockReleaseSlotLock).toHaveBeenCalledWith(
+      expect.anything(),
+      `slotlock:doc_1:${scheduledStartAt.getTime()}`,
+      'consult_1'
+    );
+  });
+
+  it('should end the open video session and delete its room when the call ends', async () => {
+    prismaMock.videoSession.findUnique.mockResolvedValue({ id: 'vs_1', roomName: 'consult-1', endedAt: null } as any);
+
+    await transitionConsultation(subject('IN_CALL'), 'COMPLETED' as any, { now });
+
+    expect(prismaMock.videoSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'vs_1', endedAt: null },
+      data: { endedAt: now },
+    });
+    expect(mockDeleteRoom).toHaveBeenCalledWith('consult-1');
+    expect(mockReleaseSlotLock).not.toHaveBeenCalled();
+  });
+
+  it('should not fail the transition when a hook fails', async () => {
+    prismaMock.videoSession.findUnique.mockResolvedValue({ id: 'vs_1', roomName: 'consult-1', endedAt: null } as any);
+    mockDeleteRoom.mockRejectedValue(new Error('Daily unavailable'));
+
+    const transition = await transitionConsultation(subject('IN_CALL'), 'COMPLETED' as any, { now });
+
+    expect(transition.to).toBe('COMPLETED');
+  });
+
+  it('should run registered hooks for their statuses only', async () => {
+    const hook = jest.fn();
+    registerTransitionHook(['IN_CALL' as any], hook);
+
+    await transitionConsultation(subject('PAID'), 'IN_CALL' as any, { now });
+    await transitionConsultation(subject('PAID'), 'CANCELLED' as any, { now });
+
+    expect(hook).toHaveBeenCalledTimes(1);
+    expect(hook).toHaveBeenCalledWith(expect.objectContaining({ from: 'PAID', to: 'IN_CALL' }));
+  });
+});
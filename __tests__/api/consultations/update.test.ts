@@ -198,6 +198,27 @@ describe('PATCH /api/v1/consultations/:id', () => {
         expect(body.error.code).toBe('INVALID_STATUS_TRANSITION');
       }
     );
+
+    it.each([
+      [ConsultationStatus.CREATED, ConsultationStatus.PAID],
+      [ConsultationStatus.CREATED, ConsultationStatus.PAYMENT_FAILED],
+      [ConsultationStatus.PAYMENT_FAILED, ConsultationStatus.PAID],
+      [ConsultationStatus.PAID, ConsultationStatus.EXPIRED],
+    ])('should not let users make the system transition from %s to %s', async (from, to) => {
+      const admin = createMockAdmin();
+      mockGetSession.mockResolvedValue(createMockSession(admin));
+
+      const consultation = createMockConsultation({ status: from });
+      prismaMock.consultation.findUnique.mockResolvedValue(consultation as any);
+
+      const request = createRequest(consultation.id, { status: to });
+      const response = await PATCH(request, createParams(consultation.id));
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.code).toBe('INVALID_STATUS_TRANSITION');
+      expect(prismaMock.consultation.update).not.toHaveBeenCalled();
+    });
   });
 
   describe('Audit Logging', () => {
@@ -324,6 +324,271 @@ describe('GET /api/v1/doctors/availability', () => {
     });
   });
 
+  describe('Working Hours', () => {
+    it('should generate slots from the doctor weekly schedule, including split shifts', async () => {
+      const patient = createMockUser();
+      const session = createMockSession(patient);
+      mockGetSession.mockResolvedValue(session);
+
+      const day = DateTime.utc().plus({ days: 2 }).startOf('day');
+      const dateStr = day.toISODate()!;
+
+      const doctor = createMockDoctor({ id: 'doctor_1' });
+      prismaMock.user.findUnique.mockResolvedValue({
+        ...doctor,
+        doctorProfile: {
+          id: 'profile_1',
+          doctorId: doctor.id,
+          specialties: ['CARDIOLOGY'],
+          timezone: 'UTC',
+          workingHours: [
+            { weekday: day.weekday, startTime: '08:00', endTime: '09:00' },
+            { weekday: day.weekday, startTime: '18:00', endTime: '19:15' },
+          ],
+        },
+      } as any);
+      prismaMock.consultation.findMany.mockResolvedValue([]);
+
+      const request = createRequest({
+        specialty: 'CARDIOLOGY',
+        date: dateStr,
+        doctorId: 'doctor_1',
+      });
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      const startTimes = body.slots.map((slot: any) =>
+        DateTime.fromISO(slot.startTime, { zone: 'UTC' }).toFormat('HH:mm')
+      );
+      // 19:00-19:30 would overrun the 19:15 interval end, so it is not offered
+      expect(startTimes).toEqual(['08:00', '08:30', '18:00', '18:30']);
+    });
+
+    it('should interpret working hours in the doctor timezone', async () => {
+      const patient = createMockUser();
+      const session = createMockSession(patient);
+      mockGetSession.mockResolvedValue(session);
+
+      const doctorTimezone = 'Asia/Tokyo';
+      const day = DateTime.now().setZone(doctorTimezone).plus({ days: 2 }).startOf('day');
+
+      const doctor = createMockDoctor({ id: 'doctor_1' });
+      prismaMock.user.findUnique.mockResolvedValue({
+        ...doctor,
+        doctorProfile: {
+          id: 'profile_1',
+          doctorId: doctor.id,
+          specialties: ['CARDIOLOGY'],
+          timezone: doctorTimezone,
+          workingHours: [{ weekday: day.weekday, startTime: '10:00', endTime: '11:00' }],
+        },
+      } as any);
+      prismaMock.consultation.findMany.mockResolvedValue([]);
+
+      const request = createRequest({
+        specialty: 'CARDIOLOGY',
+        date: day.toISODate()!,
+        doctorId: 'doctor_1',
+        patientTimezone: doctorTimezone,
+      });
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.slots).toHaveLength(2);
+      // 10:00 in Tokyo (UTC+9) is 01:00 UTC
+      expect(new Date(body.slots[0].startTime).getUTCHours()).toBe(1);
+    });
+
+    it('should return no slots on a weekday without working hours', async () => {
+      const patient = createMockUser();
+      const session = createMockSession(patient);
+      mockGetSession.mockResolvedValue(session);
+
+      const day = DateTime.utc().plus({ days: 2 }).startOf('day');
+      const otherWeekday = (day.weekday % 7) + 1;
+
+      const doctor = createMockDoctor({ id: 'doctor_1' });
+      prismaMock.user.findUnique.mockResolvedValue({
+        ...doctor,
+        doctorProfile: {
+          id: 'profile_1',
+          doctorId: doctor.id,
+          specialties: ['CARDIOLOGY'],
+          timezone: 'UTC',
+          workingHours: [{ weekday: otherWeekday, startTime: '09:00', endTime: '17:00' }],
+        },
+      } as any);
+      prismaMock.consultation.findMany.mockResolvedValue([]);
+
+      const request = createRequest({
+        specialty: 'CARDIOLOGY',
+        date: day.toISODate()!,
+        doctorId: 'doctor_1',
+      });
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.slots).toEqual([]);
+    });
+  });
+
+  describe('Appointment Duration', () => {
+    it('should lay out slots with the specialty duration and doctor buffer', async () => {
+      const patient = createMockUser();
+      const session = createMockSession(patient);
+      mockGetSession.mockResolvedValue(session);
+
+      const day = DateTime.utc().plus({ days: 2 }).startOf('day');
+
+      const doctor = createMockDoctor({ id: 'doctor_1' });
+      prismaMock.user.findUnique.mockResolvedValue({
+        ...doctor,
+        doctorProfile: {
+          id: 'profile_1',
+          doctorId: doctor.id,
+          specialties: ['PSYCHIATRY'],
+          timezone: 'UTC',
+          bufferMinutes: 10,
+          appointmentDurations: [],
+          workingHours: [{ weekday: day.weekday, startTime: '09:00', endTime: '12:00' }],
+        },
+      } as any);
+
+      const request = createRequest({
+        specialty: 'PSYCHIATRY',
+        date: day.toISODate()!,
+        doctorId: 'doctor_1',
+      });
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.durationMinutes).toBe(50);
+      const ranges = body.slots.map((slot: any) =>
+        [slot.startTime, slot.endTime]
+          .map((t: string) => DateTime.fromISO(t, { zone: 'UTC' }).toFormat('HH:mm'))
+          .join('-')
+      );
+      // 50 minute visits with 10 minutes free after each one
+      expect(ranges).toEqual(['09:00-09:50', '10:00-10:50', '11:00-11:50']);
+    });
+
+    it('should use the doctor override and mark slots overlapping a longer booking as unavailable', async () => {
+      const patient = createMockUser();
+      const session = createMockSession(patient);
+      mockGetSession.mockResolvedValue(session);
+
+      const day = DateTime.utc().plus({ days: 2 }).startOf('day');
+
+      const doctor = createMockDoctor({ id: 'doctor_1' });
+      prismaMock.user.findUnique.mockResolvedValue({
+        ...doctor,
+        doctorProfile: {
+          id: 'profile_1',
+          doctorId: doctor.id,
+          specialties: ['DERMATOLOGY', 'GENERAL'],
+          timezone: 'UTC',
+          bufferMinutes: 0,
+          appointmentDurations: [{ specialty: 'DERMATOLOGY', durationMinutes: 20 }],
+          workingHours: [{ weekday: day.weekday, startTime: '09:00', endTime: '10:00' }],
+        },
+      } as any);
+      // A 30 minute GENERAL visit booked at 09:00
+      prismaMock.consultation.findMany.mockResolvedValue([
+        {
+          scheduledStartAt: day.set({ hour: 9 }).toJSDate(),
+          durationMinutes: 30,
+          bufferMinutes: 0,
+        },
+      ] as any);
+
+      const request = createRequest({
+        specialty: 'DERMATOLOGY',
+        date: day.toISODate()!,
+        doctorId: 'doctor_1',
+      });
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(
+        body.slots.map((slot: any) => [
+          DateTime.fromISO(slot.startTime, { zone: 'UTC' }).toFormat('HH:mm'),
+          slot.available,
+        ])
+      ).toEqual([
+        ['09:00', false],
+        ['09:20', false],
+        ['09:40', true],
+      ]);
+    });
+  });
+
+  describe('Availability Overrides', () => {
+    it('should drop blocked and time-off slots and add extra hours', async () => {
+      const patient = createMockUser();
+      const session = createMockSession(patient);
+      mockGetSession.mockResolvedValue(session);
+
+      const day = DateTime.utc().plus({ days: 2 }).startOf('day');
+
+      const doctor = createMockDoctor({ id: 'doctor_1' });
+      prismaMock.user.findUnique.mockResolvedValue({
+        ...doctor,
+        doctorProfile: {
+          id: 'profile_1',
+          doctorId: doctor.id,
+          specialties: ['CARDIOLOGY'],
+          timezone: 'UTC',
+          workingHours: [{ weekday: day.weekday, startTime: '09:00', endTime: '11:00' }],
+        },
+      } as any);
+      prismaMock.consultation.findMany.mockResolvedValue([]);
+      prismaMock.doctorAvailabilityOverride.findMany.mockResolvedValue([
+        {
+          id: 'override_blocked',
+          type: 'BLOCKED',
+          startAt: day.set({ hour: 9 }).toJSDate(),
+          endAt: day.set({ hour: 9, minute: 30 }).toJSDate(),
+        },
+        {
+          id: 'override_time_off',
+          type: 'TIME_OFF',
+          startAt: day.set({ hour: 10, minute: 30 }).toJSDate(),
+          endAt: day.set({ hour: 12 }).toJSDate(),
+        },
+        {
+          id: 'override_extra',
+          type: 'EXTRA',
+          startAt: day.set({ hour: 20 }).toJSDate(),
+          endAt: day.set({ hour: 21 }).toJSDate(),
+        },
+      ] as any);
+
+      const request = createRequest({
+        specialty: 'CARDIOLOGY',
+        date: day.toISODate()!,
+        doctorId: 'doctor_1',
+      });
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      const startTimes = body.slots.map((slot: any) =>
+        DateTime.fromISO(slot.startTime, { zone: 'UTC' }).toFormat('HH:mm')
+      );
+      expect(startTimes).toEqual(['09:30', '10:00', '20:00', '20:30']);
+      expect(prismaMock.doctorAvailabilityOverride.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ doctorProfileId: 'profile_1' }),
+        })
+      );
+    });
+  });
+
   describe('Response Format', () => {
     it('should return slots with startTime and endTime', async () => {
       const patient = createMockUser();
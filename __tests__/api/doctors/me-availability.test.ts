@@ -0,0 +1,255 @@
+/**
+ * Tests for /api/v1/doctors/me/availability
+ *
+ * Covers the doctor schedule editor: reading a day's slots and managing
+ * availability overrides (blocked slots, time off, extra hours).
+ */
+
+import { NextRequest } from 'next/server';
+import { createMockUser, createMockDoctor, resetFactories } from '../../helpers/factories';
+import { createMockSession } from '../../helpers/auth-mock';
+import { prismaMock, resetPrismaMock, setupPrismaMock } from '../../helpers/prisma-mock';
+import { DateTime } from 'luxon';
+
+// Mock auth module
+const mockGetSession = jest.fn();
+jest.mock('@/lib/auth', () => ({
+  auth: {
+    api: {
+      getSession: (...args: unknown[]) => mockGetSession(...args),
+    },
+  },
+}));
+
+// Import route handlers after mocks are set up
+import { GET, POST } from '@/app/api/v1/doctors/me/availability/route';
+import { DELETE } from '@/app/api/v1/doctors/me/availability/[overrideId]/route';
+
+describe('/api/v1/doctors/me/availability', () => {
+  const profile = {
+    id: 'profile_1',
+    doctorId: 'doctor_1',
+    specialties: ['CARDIOLOGY'],
+    timezone: 'UTC',
+    workingHours: [],
+  };
+
+  beforeEach(() => {
+    resetFactories();
+    resetPrismaMock();
+    setupPrismaMock();
+    mockGetSession.mockReset();
+  });
+
+  function createRequest(
+    method: string,
+    options: { query?: Record<string, string>; body?: unknown; path?: string } = {}
+  ): NextRequest {
+    const url = new URL(`http://localhost:3000/api/v1/doctors/me/availability${options.path ?? ''}`);
+    Object.entries(options.query ?? {}).forEach(([key, value]) => {
+      url.searchParams.set(key, value);
+    });
+    return new NextRequest(url, {
+      method,
+      ...(options.body !== undefined
+        ? { body: JSON.stringify(options.body), headers: { 'Content-Type': 'application/json' } }
+        : {}),
+    });
+  }
+
+  function signInAsDoctor() {
+    const doctor = createMockDoctor({ id: 'doctor_1' });
+    mockGetSession.mockResolvedValue(createMockSession(doctor));
+    prismaMock.doctorProfile.findUnique.mockResolvedValue(profile as any);
+    return doctor;
+  }
+
+  describe('Authorization', () => {
+    it('should return 401 when not authenticated', async () => {
+      mockGetSession.mockResolvedValue(null);
+
+      const response = await GET(createRequest('GET'));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 403 for patients', async () => {
+      mockGetSession.mockResolvedValue(createMockSession(createMockUser()));
+
+      const response = await POST(
+        createRequest('POST', {
+          body: { type: 'BLOCKED', startAt: new Date().toISOString(), endAt: new Date().toISOString() },
+        })
+      );
+
+      expect(response.status).toBe(403);
+      const body = await response.json();
+      expect(body.error.code).toBe('FORBIDDEN');
+    });
+  });
+
+  describe('GET', () => {
+    it('should return the day slots annotated with overrides and bookings', async () => {
+      signInAsDoctor();
+      const day = DateTime.utc().plus({ days: 3 }).startOf('day');
+
+      prismaMock.doctorAvailabilityOverride.findMany
+        .mockResolvedValueOnce([
+          {
+            id: 'override_1',
+            type: 'BLOCKED',
+            startAt: day.set({ hour: 9 }).toJSDate(),
+            endAt: day.set({ hour: 9, minute: 30 }).toJSDate(),
+          },
+        ] as any)
+        .mockResolvedValueOnce([]);
+      prismaMock.consultation.findMany.mockResolvedValue([
+        { id: 'consult_1', scheduledStartAt: day.set({ hour: 10 }).toJSDate() },
+      ] as any);
+
+      const response = await GET(createRequest('GET', { query: { date: day.toISODate()! } }));
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.date).toBe(day.toISODate());
+      expect(body.usesDefaultWorkingHours).toBe(true);
+      // Default schedule: 09:00-17:00 in 30 minute slots
+      expect(body.slots).toHaveLength(16);
+      expect(body.slots[0].blockedBy).toEqual({ id: 'override_1', type: 'BLOCKED' });
+      expect(body.slots[2].consultationId).toBe('consult_1');
+    });
+
+    it('should reject an invalid date', async () => {
+      signInAsDoctor();
+
+      const response = await GET(createRequest('GET', { query: { date: 'next tuesday' } }));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST', () => {
+    it('should reject an unknown override type', async () => {
+      signInAsDoctor();
+
+      const response = await POST(
+        createRequest('POST', {
+          body: { type: 'HOLIDAY', startAt: '2030-01-01T09:00:00Z', endAt: '2030-01-01T10:00:00Z' },
+        })
+      );
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details.field).toBe('type');
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      signInAsDoctor();
+
+      const response = await POST(
+        createRequest('POST', {
+          body: { type: 'EXTRA', startAt: '2030-01-01T10:00:00Z', endAt: '2030-01-01T09:00:00Z' },
+        })
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 409 when blocking a booked consultation', async () => {
+      signInAsDoctor();
+      prismaMock.consultation.findMany.mockResolvedValue([
+        {
+          id: 'consult_1',
+          scheduledStartAt: new Date('2030-01-03T10:00:00Z'),
+          durationMinutes: 30,
+          bufferMinutes: 0,
+        },
+      ] as any);
+
+      const response = await POST(
+        createRequest('POST', {
+          body: { type: 'TIME_OFF', startAt: '2030-01-01T00:00:00Z', endAt: '2030-01-08T00:00:00Z' },
+        })
+      );
+
+      expect(response.status).toBe(409);
+      const body = await response.json();
+      expect(body.error.details.consultationIds).toEqual(['consult_1']);
+      expect(prismaMock.doctorAvailabilityOverride.create).not.toHaveBeenCalled();
+    });
+
+    it('should create an override and record an audit event', async () => {
+      const doctor = signInAsDoctor();
+      prismaMock.consultation.findMany.mockResolvedValue([]);
+      prismaMock.doctorAvailabilityOverride.create.mockResolvedValue({
+        id: 'override_1',
+        doctorProfileId: profile.id,
+        type: 'BLOCKED',
+        startAt: new Date('2030-01-01T09:00:00Z'),
+        endAt: new Date('2030-01-01T09:30:00Z'),
+        reason: null,
+      } as any);
+
+      const response = await POST(
+        createRequest('POST', {
+          body: { type: 'BLOCKED', startAt: '2030-01-01T09:00:00Z', endAt: '2030-01-01T09:30:00Z' },
+        })
+      );
+
+      expect(response.status).toBe(201);
+      expect(prismaMock.doctorAvailabilityOverride.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          doctorProfileId: profile.id,
+          type: 'BLOCKED',
+          startAt: new Date('2030-01-01T09:00:00Z'),
+        }),
+      });
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          actorUserId: doctor.id,
+          eventType: 'AVAILABILITY_OVERRIDE_CREATED',
+        }),
+      });
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should return 404 for an override owned by another doctor', async () => {
+      signInAsDoctor();
+      prismaMock.doctorAvailabilityOverride.findFirst.mockResolvedValue(null);
+
+      const response = await DELETE(createRequest('DELETE', { path: '/override_x' }), {
+        params: Promise.resolve({ overrideId: 'override_x' }),
+      });
+
+      expect(response.status).toBe(404);
+      expect(prismaMock.doctorAvailabilityOverride.findFirst).toHaveBeenCalledWith({
+        where: { id: 'override_x', doctorProfileId: profile.id },
+      });
+    });
+
+    it('should delete the override', async () => {
+      signInAsDoctor();
+      prismaMock.doctorAvailabilityOverride.findFirst.mockResolvedValue({
+        id: 'override_1',
+        doctorProfileId: profile.id,
+        type: 'EXTRA',
+        startAt: new Date('2030-01-01T18:00:00Z'),
+        endAt: new Date('2030-01-01T20:00:00Z'),
+        reason: null,
+      } as any);
+
+      const response = await DELETE(createRequest('DELETE', { path: '/override_1' }), {
+        params: Promise.resolve({ overrideId: 'override_1' }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.doctorAvailabilityOverride.delete).toHaveBeenCalledWith({
+        where: { id: 'override_1' },
+      });
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: 'AVAILABILITY_OVERRIDE_DELETED' }),
+      });
+    });
+  });
+});
@@ -39,16 +39,10 @@ jest.mock("@/lib/auth", () => ({
   },
 }));
 
-// Mock Square Client
+// Mock Square helpers (used by the default payment provider)
 const mockCreatePaymentLink = jest.fn();
 jest.mock("@/lib/square", () => ({
-  squareClient: {
-    checkout: {
-      paymentLinks: {
-        create: (...args: unknown[]) => mockCreatePaymentLink(...args),
-      },
-    },
-  },
+  createSquarePaymentLink: (...args: unknown[]) => mockCreatePaymentLink(...args),
 }));
 
 // Mock crypto.randomUUID
@@ -189,11 +183,9 @@ describe("POST /api/v1/payments", () => {
       mockRedisSet.mockResolvedValue("OK");
 
       mockCreatePaymentLink.mockResolvedValue({
-        paymentLink: {
-          id: "pl_123",
-          url: "https://square.com/pay/pl_123",
-          orderId: "order_123",
-        },
+        checkoutId: "pl_123",
+        url: "https://square.com/pay/pl_123",
+        orderId: "order_123",
       });
 
       prismaMock.payment.create.mockResolvedValue({
@@ -212,13 +204,9 @@ describe("POST /api/v1/payments", () => {
       // Verify Square call
       expect(mockCreatePaymentLink).toHaveBeenCalledWith(
         expect.objectContaining({
-          order: expect.objectContaining({
-            lineItems: expect.arrayContaining([
-              expect.objectContaining({
-                name: "DERMATOLOGY Consultation",
-              }),
-            ]),
-          }),
+          locationId: "loc_123",
+          name: "DERMATOLOGY Consultation",
+          currency: "USD",
         })
       );
 
@@ -227,7 +215,9 @@ describe("POST /api/v1/payments", () => {
         expect.objectContaining({
           data: expect.objectContaining({
             consultationId: consultation.id,
+            provider: "SQUARE",
             providerCheckoutId: "pl_123",
+            providerOrderId: "order_123",
           }),
         })
       );
@@ -260,6 +250,72 @@ describe("POST /api/v1/payments", () => {
       expect(response.status).toBe(409);
     });
 
+    it("should return 409 when the slot overlaps a longer confirmed booking", async () => {
+      const patient = createMockUser();
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+
+      const startAt = new Date(Date.now() + 60 * 60 * 1000);
+      const consultation = createMockConsultation({
+        patientId: patient.id,
+        doctorId: "doctor_1",
+        specialty: "DERMATOLOGY",
+        scheduledStartAt: startAt,
+        durationMinutes: 15,
+      });
+      prismaMock.consultation.findUnique.mockResolvedValue(consultation as any);
+      // A 50 minute visit that started 30 minutes earlier is still running
+      prismaMock.consultation.findMany.mockResolvedValue([
+        {
+          id: "consult_other",
+          scheduledStartAt: new Date(startAt.getTime() - 30 * 60 * 1000),
+          durationMinutes: 50,
+          bufferMinutes: 0,
+        },
+      ] as any);
+
+      const request = createRequest({ consultationId: consultation.id });
+      const response = await POST(request);
+
+      expect(response.status).toBe(409);
+      expect(mockRedisSet).not.toHaveBeenCalled();
+      expect(mockCreatePaymentLink).not.toHaveBeenCalled();
+    });
+
+    it("should charge in the consultation's currency at that currency's Square location", async () => {
+      process.env.SQUARE_LOCATION_ID_GBP = "loc_gbp";
+      const patient = createMockUser();
+      mockGetSession.mockResolvedValue(createMockSession(patient));
+
+      const consultation = createMockConsultation({
+        patientId: patient.id,
+        specialty: "DERMATOLOGY",
+        doctorId: "doctor_1",
+        scheduledStartAt: new Date(Date.now() + 60 * 60 * 1000),
+        price: 7000,
+        currency: "GBP",
+      });
+      prismaMock.consultation.findUnique.mockResolvedValue(consultation as any);
+      prismaMock.payment.findFirst.mockResolvedValue(null);
+      mockRedisSet.mockResolvedValue("OK");
+      mockCreatePaymentLink.mockResolvedValue({
+        checkoutId: "pl_123",
+        url: "https://square.com/pay/pl_123",
+        orderId: "order_123",
+      });
+      prismaMock.payment.create.mockResolvedValue({ id: "pay_1" } as any);
+
+      const response = await POST(createRequest({ consultationId: consultation.id }));
+      delete process.env.SQUARE_LOCATION_ID_GBP;
+
+      expect(response.status).toBe(201);
+      expect(mockCreatePaymentLink).toHaveBeenCalledWith(
+        expect.objectContaining({ locationId: "loc_gbp", amount: 7000, currency: "GBP" })
+      );
+      expect(prismaMock.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: 7000, currency: "GBP" }),
+      });
+    });
+
     it("should fail gracefully if location ID is missing", async () => {
       delete process.env.SQUARE_LOCATION_ID;
       const patient = createMockUser();
@@ -0,0 +1,189 @@
+/**
+ * Tests for the createCheckoutSession server action, which starts checkouts
+ * through the same service as POST /api/v1/payments (lib/checkout.ts).
+ */
+
+import {
+  createMockUser,
+  createMockConsultation,
+  resetFactories,
+  ConsultationStatus,
+} from "../../helpers/factories";
+import { createMockSession } from "../../helpers/auth-mock";
+import { prismaMock, resetPrismaMock, setupPrismaMock } from "../../helpers/prisma-mock";
+
+const mockRedisSet = jest.fn();
+const mockRedisDel = jest.fn();
+jest.mock("@/lib/redis", () => ({
+  getRedis: async () => ({
+    set: (...args: unknown[]) => mockRedisSet(...args),
+    del: (...args: unknown[]) => mockRedisDel(...args),
+  }),
+  slotLockKey: (doctorId: string, scheduledStartAtMs: number) =>
+    `slotlock:${doctorId}:${scheduledStartAtMs}`,
+}));
+
+const mockGetSession = jest.fn();
+jest.mock("@/lib/auth", () => ({
+  auth: {
+    api: {
+      getSession: (...args: unknown[]) => mockGetSession(...args),
+    },
+  },
+}));
+
+const mockCreatePaymentLink = jest.fn();
+jest.mock("@/lib/square", () => ({
+  createSquarePaymentLink: (...args: unknown[]) => mockCreatePaymentLink(...args),
+}));
+
+import { createCheckoutSession } from "@/app/actions/payment";
+
+describe("createCheckoutSession (server action)", () => {
+  const patient = createMockUser({ id: "patient_1" });
+  const scheduledStartAt = new Date(Date.now() + 60 * 60 * 1000);
+
+  beforeEach(() => {
+    resetFactories();
+    resetPrismaMock();
+    setupPrismaMock();
+    mockGetSession.mockReset();
+    mockCreatePaymentLink.mockReset();
+    mockRedisSet.mockReset();
+    mockRedisDel.mockReset();
+
+    process.env.SQUARE_LOCATION_ID = "loc_123";
+    process.env.NEXT_PUBLIC_BASE_URL = "http://localhost:3000";
+    delete process.env.PAYMENT_PROVIDER;
+
+    mockGetSession.mockResolvedValue(createMockSession(patient));
+    prismaMock.payment.findFirst.mockResolvedValue(null);
+    mockRedisSet.mockResolvedValue("OK");
+  });
+
+  it("should price by specialty when no price was snapshotted, lock the slot and record the payment", async () => {
+    const consultation = createMockConsultation({
+      id: "consult_1",
+      patientId: patient.id,
+      specialty: "CARDIOLOGY",
+      doctorId: "doctor_1",
+      scheduledStartAt,
+    });
+    prismaMock.consultation.findUnique.mockResolvedValue(consultation as any);
+    mockCreatePaymentLink.mockResolvedValue({
+      checkoutId: "pl_123",
+      url: "https://square.com/pay/pl_123",
+      orderId: "order_123",
+    });
+    prismaMock.payment.create.mockResolvedValue({ id: "pay_1" } as any);
+
+    const result = await createCheckoutSession("consult_1");
+
+    expect(result).toEqual({ success: true, url: "https://square.com/pay/pl_123" });
+    expect(mockRedisSet).toHaveBeenCalledWith(
+      `slotlock:doctor_1:${scheduledStartAt.getTime()}`,
+      "consult_1",
+      { NX: true, EX: 600 }
+    );
+    expect(mockCreatePaymentLink).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 15000, idempotencyKey: "payment-consult_1" })
+    );
+    expect(prismaMock.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        consultationId: "consult_1",
+        provider: "SQUARE",
+        amount: 15000,
+        status: "PENDING",
+        providerCheckoutId: "pl_123",
+        providerOrderId: "order_123",
+      }),
+    });
+  });
+
+  it("should charge the price agreed at booking, not the current catalog price", async () => {
+    prismaMock.consultation.findUnique.mockResolvedValue(
+      createMockConsultation({
+        id: "consult_1",
+        patientId: patient.id,
+        specialty: "CARDIOLOGY",
+        doctorId: "doctor_1",
+        scheduledStartAt,
+        price: 12000,
+        currency: "EUR",
+      }) as any
+    );
+    mockCreatePaymentLink.mockResolvedValue({
+      checkoutId: "pl_123",
+      url: "https://square.com/pay/pl_123",
+      orderId: "order_123",
+    });
+    prismaMock.payment.create.mockResolvedValue({ id: "pay_1" } as any);
+
+    const result = await createCheckoutSession("consult_1");
+
+    expect(result.success).toBe(true);
+    expect(mockCreatePaymentLink).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 12000, currency: "EUR" })
+    );
+    expect(prismaMock.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ amount: 12000, currency: "EUR" }),
+    });
+    expect(prismaMock.specialty.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("should report why the checkout cannot start", async () => {
+    prismaMock.consultation.findUnique.mockResolvedValue(
+      createMockConsultation({
+        id: "consult_1",
+        patientId: patient.id,
+        status: ConsultationStatus.PAID,
+        doctorId: "doctor_1",
+        scheduledStartAt,
+      }) as any
+    );
+
+    const result = await createCheckoutSession("consult_1");
+
+    expect(result).toEqual({
+      success: false,
+      error: "Payment cannot be initiated for a consultation in PAID status",
+    });
+    expect(mockCreatePaymentLink).not.toHaveBeenCalled();
+  });
+
+  it("should not start a checkout while the slot is locked", async () => {
+    prismaMock.consultation.findUnique.mockResolvedValue(
+      createMockConsultation({
+        id: "consult_1",
+        patientId: patient.id,
+        doctorId: "doctor_1",
+        scheduledStartAt,
+      }) as any
+    );
+    mockRedisSet.mockResolvedValue(null);
+
+    const result = await createCheckoutSession("consult_1");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Slot is currently being paid for");
+    expect(mockCreatePaymentLink).not.toHaveBeenCalled();
+    expect(prismaMock.payment.create).not.toHaveBeenCalled();
+  });
+
+  it("should release the slot lock when the provider fails", async () => {
+    prismaMock.consultation.findUnique.mockResolvedValue(
+      createMockConsultation({
+        id: "consult_1",
+        patientId: patient.id,
+        doctorId: "doctor_1",
+        scheduledStartAt,
+      }) as any
+    );
+    mockCreatePaymentLink.mockRejectedValue(new Error("Square unavailable"));
+
+    const result = await createCheckoutSession("consult_1");
+
+    expect(result).toEqual({ success: false, error: "Failed to initialize payment gateway." });
+    expect(mockRedisDel).toHaveBeenCalledWith(`slotlock:doctor_1:${scheduledStartAt.getTime()}`);
+  });
+});
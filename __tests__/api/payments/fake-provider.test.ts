@@ -0,0 +1,162 @@
+/**
+ * Tests for payment provider selection and the fake provider used for
+ * offline development.
+ */
+
+import { NextRequest } from "next/server";
+import { getPaymentProvider, PaymentConfigurationError } from "@/lib/payment-provider";
+import { completeFakeCheckout, fakePaymentProvider, getFakeCheckout } from "@/lib/fake-payments";
+
+describe("payment providers", () => {
+  const env = process.env as Record<string, string | undefined>;
+  const originalNodeEnv = env.NODE_ENV;
+  const notificationUrl = "http://localhost:3000/api/v1/payments/webhook";
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    delete env.PAYMENT_PROVIDER;
+    delete env.FAKE_PAYMENTS_WEBHOOK_SECRET;
+    env.NODE_ENV = originalNodeEnv;
+    env.NEXT_PUBLIC_BASE_URL = "http://localhost:3000";
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue({ ok: true, status: 200 });
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterAll(() => {
+    env.NODE_ENV = originalNodeEnv;
+  });
+
+  function createCheckout(idempotencyKey: string) {
+    return fakePaymentProvider.createCheckout({
+      consultationId: "consult_1",
+      name: "DERMATOLOGY Consultation",
+      amount: 15000,
+      currency: "USD",
+      redirectUrl: "http://localhost:3000/checkout/success?id=consult_1",
+      idempotencyKey,
+    });
+  }
+
+  function sentWebhook() {
+    const [url, init] = fetchMock.mock.calls[0];
+    return {
+      url: url as string,
+      body: init.body as string,
+      signature: init.headers["x-square-hmacsha256-signature"] as string,
+    };
+  }
+
+  describe("getPaymentProvider", () => {
+    it("should default to Square", () => {
+      expect(getPaymentProvider().name).toBe("SQUARE");
+    });
+
+    it("should select the provider from PAYMENT_PROVIDER", () => {
+      env.PAYMENT_PROVIDER = "fake";
+      expect(getPaymentProvider().name).toBe("FAKE");
+    });
+
+    it("should prefer the provider recorded on the payment", () => {
+      env.PAYMENT_PROVIDER = "fake";
+      expect(getPaymentProvider("SQUARE").name).toBe("SQUARE");
+    });
+
+    it("should reject unknown providers", () => {
+      expect(() => getPaymentProvider("stripe")).toThrow(PaymentConfigurationError);
+    });
+
+    it("should refuse the fake provider in production", () => {
+      env.NODE_ENV = "production";
+      expect(() => getPaymentProvider("FAKE")).toThrow(PaymentConfigurationError);
+      expect(getPaymentProvider("SQUARE").name).toBe("SQUARE");
+    });
+  });
+
+  describe("fake provider", () => {
+    it("should return the same checkout for the same idempotency key", async () => {
+      const first = await createCheckout("payment-consult_1");
+      const retry = await createCheckout("payment-consult_1");
+      const other = await createCheckout("payment-consult_2");
+
+      expect(retry).toEqual(first);
+      expect(other.checkoutId).not.toBe(first.checkoutId);
+      expect(first.url).toBe(`http://localhost:3000/checkout/fake?checkoutId=${first.checkoutId}`);
+      await expect(fakePaymentProvider.getCheckoutStatus(first.orderId!)).resolves.toEqual({
+        orderState: "OPEN",
+        payment: null,
+      });
+    });
+
+    it("should send a signed payment.updated webhook when paid", async () => {
+      const checkout = await createCheckout("pay-key");
+
+      await completeFakeCheckout(checkout.checkoutId, "PAY");
+
+      const webhook = sentWebhook();
+      expect(webhook.url).toBe(notificationUrl);
+      const event = JSON.parse(webhook.body);
+      expect(event).toMatchObject({
+        type: "payment.updated",
+        event_id: expect.any(String),
+        data: { object: { payment: { order_id: checkout.orderId, status: "COMPLETED" } } },
+      });
+      expect(
+        fakePaymentProvider.verifyWebhook({ body: webhook.body, signature: webhook.signature, notificationUrl })
+      ).toBe(true);
+      await expect(fakePaymentProvider.getCheckoutStatus(checkout.orderId!)).resolves.toEqual({
+        orderState: "COMPLETED",
+        payment: { id: event.data.object.payment.id, status: "COMPLETED" },
+      });
+    });
+
+    it("should send FAILED for a declined card and CANCELED for an abandoned checkout", async () => {
+      const declined = await createCheckout("decline-key");
+      const abandoned = await createCheckout("cancel-key");
+
+      await completeFakeCheckout(declined.checkoutId, "DECLINE");
+      await completeFakeCheckout(abandoned.checkoutId, "CANCEL");
+
+      const [declineEvent, cancelEvent] = fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body));
+      expect(declineEvent.data.object.payment.status).toBe("FAILED");
+      expect(cancelEvent).toMatchObject({
+        type: "order.updated",
+        data: { object: { order_updated: { order_id: abandoned.orderId, state: "CANCELED" } } },
+      });
+      expect(getFakeCheckout(abandoned.checkoutId)?.orderState).toBe("CANCELED");
+    });
+
+    it("should not complete a checkout twice", async () => {
+      const checkout = await createCheckout("twice-key");
+
+      await completeFakeCheckout(checkout.checkoutId, "PAY");
+      const again = await completeFakeCheckout(checkout.checkoutId, "DECLINE");
+
+      expect(again).toBeNull();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should have its webhooks accepted only when signed with the configured secret", async () => {
+      env.PAYMENT_PROVIDER = "fake";
+      env.FAKE_PAYMENTS_WEBHOOK_SECRET = "local-secret";
+      const { POST } = await import("@/app/api/v1/payments/webhook/route");
+      const checkout = await createCheckout("secret-key");
+      await completeFakeCheckout(checkout.checkoutId, "PAY");
+      const webhook = sentWebhook();
+
+      expect(
+        fakePaymentProvider.verifyWebhook({ body: webhook.body, signature: webhook.signature, notificationUrl })
+      ).toBe(true);
+
+      env.FAKE_PAYMENTS_WEBHOOK_SECRET = "another-secret";
+      const response = await POST(
+        new NextRequest(notificationUrl, {
+          method: "POST",
+          headers: { "x-square-hmacsha256-signature": webhook.signature },
+          body: webhook.body,
+        })
+      );
+      expect(response.status).toBe(403);
+    });
+  });
+});
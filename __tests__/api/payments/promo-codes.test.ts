@@ -0,0 +1,232 @@
+/**
+ * Tests for promo codes at checkout (POST /api/v1/payments with a promoCode)
+ */
+
+import { NextRequest } from "next/server";
+import {
+  createMockUser,
+  createMockConsultation,
+  createMockPromoCode,
+  resetFactories,
+} from "../../helpers/factories";
+import { createMockSession } from "../../helpers/auth-mock";
+import { prismaMock, resetPrismaMock, setupPrismaMock } from "../../helpers/prisma-mock";
+
+const mockRedisSet = jest.fn();
+const mockRedisDel = jest.fn();
+jest.mock("@/lib/redis", () => ({
+  getRedis: async () => ({
+    set: (...args: unknown[]) => mockRedisSet(...args),
+    del: (...args: unknown[]) => mockRedisDel(...args),
+  }),
+  slotLockKey: (doctorId: string, scheduledStartAtMs: number) =>
+    `slotlock:${doctorId}:${scheduledStartAtMs}`,
+}));
+
+const mockGetSession = jest.fn();
+jest.mock("@/lib/auth", () => ({
+  auth: {
+    api: {
+      getSession: (...args: unknown[]) => mockGetSession(...args),
+    },
+  },
+}));
+
+const mockCreatePaymentLink = jest.fn();
+jest.mock("@/lib/square", () => ({
+  createSquarePaymentLink: (...args: unknown[]) => mockCreatePaymentLink(...args),
+}));
+
+import { POST } from "@/app/api/v1/payments/route";
+
+describe("POST /api/v1/payments with a promo code", () => {
+  const patient = createMockUser({ id: "patient_1" });
+  const scheduledStartAt = new Date(Date.now() + 60 * 60 * 1000);
+
+  beforeEach(() => {
+    resetFactories();
+    resetPrismaMock();
+    setupPrismaMock();
+    mockGetSession.mockReset();
+    mockCreatePaymentLink.mockReset();
+    mockRedisSet.mockReset();
+    mockRedisDel.mockReset();
+
+    process.env.SQUARE_LOCATION_ID = "loc_123";
+    process.env.NEXT_PUBLIC_BASE_URL = "http://localhost:3000";
+    delete process.env.PAYMENT_PROVIDER;
+
+    mockGetSession.mockResolvedValue(createMockSession(patient));
+    prismaMock.consultation.findUnique.mockResolvedValue(
+      createMockConsultation({
+        id: "consult_1",
+        patientId: patient.id,
+        specialty: "CARDIOLOGY",
+        doctorId: "doctor_1",
+        scheduledStartAt,
+        price: 15000,
+        currency: "USD",
+      }) as any
+    );
+    prismaMock.payment.findFirst.mockResolvedValue(null);
+    prismaMock.payment.count.mockResolvedValue(0);
+    prismaMock.payment.create.mockImplementation(async ({ data }: any) => ({ id: "pay_1", ...data }));
+    mockRedisSet.mockResolvedValue("OK");
+    mockCreatePaymentLink.mockResolvedValue({
+      checkoutId: "pl_123",
+      url: "https://square.com/pay/pl_123",
+      orderId: "order_123",
+    });
+  });
+
+  function createRequest(body: object): NextRequest {
+    return new NextRequest("http://localhost:3000/api/v1/payments", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("should apply a percentage code as a Square order discount and audit the redemption", async () => {
+    prismaMock.promoCode.findUnique.mockResolvedValue(
+      createMockPromoCode({ id: "promo_1", code: "WELCOME10", percentOff: 10 }) as any
+    );
+
+    const response = await POST(createRequest({ consultationId: "consult_1", promoCode: " welcome10 " }));
+
+    expect(response.status).toBe(201);
+    const body = await response.json();
+    expect(body).toEqual({
+      url: "https://square.com/pay/pl_123",
+      paymentId: "pay_1",
+      amount: 13500,
+      currency: "USD",
+      discountAmount: 1500,
+    });
+    expect(prismaMock.promoCode.findUnique).toHaveBeenCalledWith({ where: { code: "WELCOME10" } });
+    expect(mockCreatePaymentLink).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: 15000,
+        discount: { name: "Promo WELCOME10", amount: 1500 },
+        idempotencyKey: "payment-consult_1-promo_1",
+      })
+    );
+    expect(prismaMock.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        amount: 13500,
+        promoCodeId: "promo_1",
+        discountAmount: 1500,
+      }),
+    });
+    expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        actorUserId: patient.id,
+        consultationId: "consult_1",
+        eventType: "PROMO_CODE_REDEEMED",
+        eventMetadata: expect.objectContaining({
+          paymentId: "pay_1",
+          code: "WELCOME10",
+          discountAmount: 1500,
+        }),
+      }),
+    });
+  });
+
+  it("should only apply fixed-amount codes to prices in their currency", async () => {
+    prismaMock.promoCode.findUnique.mockResolvedValue(
+      createMockPromoCode({
+        code: "SAVE20",
+        discountType: "FIXED_AMOUNT",
+        percentOff: null,
+        amountOff: 2000,
+        currency: "EUR",
+      }) as any
+    );
+
+    const response = await POST(createRequest({ consultationId: "consult_1", promoCode: "SAVE20" }));
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error.message).toBe("This promo code cannot be used for payments in USD");
+  });
+
+  it.each([
+    ["unknown", null, "Promo code not found"],
+    ["inactive", { active: false }, "Promo code not found"],
+    ["expired", { expiresAt: new Date(Date.now() - 1000) }, "This promo code has expired"],
+    ["not started", { startsAt: new Date(Date.now() + 60_000) }, "This promo code is not valid yet"],
+    ["for another specialty", { specialties: ["DERMATOLOGY"] }, "This promo code does not apply to this specialty"],
+    ["covering the whole price", { percentOff: 100 }, "This promo code cannot cover the full price"],
+  ])("should reject a code that is %s before locking the slot", async (_case, overrides, message) => {
+    prismaMock.promoCode.findUnique.mockResolvedValue(
+      overrides ? (createMockPromoCode(overrides) as any) : null
+    );
+
+    const response = await POST(createRequest({ consultationId: "consult_1", promoCode: "WELCOME10" }));
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error).toMatchObject({
+      code: "VALIDATION_ERROR",
+      message,
+      details: { field: "promoCode" },
+    });
+    expect(mockRedisSet).not.toHaveBeenCalled();
+    expect(mockCreatePaymentLink).not.toHaveBeenCalled();
+  });
+
+  it("should enforce the overall and per-patient redemption limits", async () => {
+    prismaMock.promoCode.findUnique.mockResolvedValue(
+      createMockPromoCode({ id: "promo_1", maxRedemptions: 50, maxRedemptionsPerPatient: 1 }) as any
+    );
+    prismaMock.payment.count.mockImplementation(async ({ where }: any) => (where.consultation ? 1 : 10));
+
+    const response = await POST(createRequest({ consultationId: "consult_1", promoCode: "WELCOME10" }));
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error.message).toBe("You have already used this promo code");
+    expect(prismaMock.payment.count).toHaveBeenCalledWith({
+      where: {
+        promoCodeId: "promo_1",
+        status: { not: "FAILED" },
+        consultation: { patientId: patient.id },
+      },
+    });
+
+    prismaMock.payment.count.mockResolvedValue(50);
+    const exhausted = await POST(createRequest({ consultationId: "consult_1", promoCode: "WELCOME10" }));
+    expect((await exhausted.json()).error.message).toBe("This promo code has been fully redeemed");
+  });
+
+  it("should re-check the limit with the code locked before recording the redemption", async () => {
+    prismaMock.promoCode.findUnique.mockResolvedValue(
+      createMockPromoCode({ id: "promo_1", maxRedemptions: 50 }) as any
+    );
+    // A concurrent checkout takes the last redemption after the first check
+    prismaMock.payment.count.mockResolvedValueOnce(49).mockResolvedValueOnce(50);
+
+    const response = await POST(createRequest({ consultationId: "consult_1", promoCode: "WELCOME10" }));
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error.message).toBe("This promo code has been fully redeemed");
+    expect(prismaMock.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(prismaMock.payment.create).not.toHaveBeenCalled();
+    expect(mockRedisDel).toHaveBeenCalledWith(`slotlock:doctor_1:${scheduledStartAt.getTime()}`);
+  });
+
+  it("should charge the full price without auditing when no code is given", async () => {
+    const response = await POST(createRequest({ consultationId: "consult_1" }));
+
+    expect(response.status).toBe(201);
+    expect(mockCreatePaymentLink).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 15000, discount: undefined, idempotencyKey: "payment-consult_1" })
+    );
+    expect(prismaMock.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ amount: 15000, promoCodeId: null, discountAmount: 0 }),
+    });
+    expect(prismaMock.promoCode.findUnique).not.toHaveBeenCalled();
+    expect(prismaMock.auditEvent.create).not.toHaveBeenCalled();
+  });
+});
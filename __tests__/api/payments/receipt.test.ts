@@ -0,0 +1,175 @@
+/**
+ * Tests for GET /api/v1/payments/:id/receipt
+ */
+
+import { NextRequest } from "next/server";
+import { createMockUser, createMockAdmin, createMockConsultation, resetFactories } from "../../helpers/factories";
+import { createMockSession } from "../../helpers/auth-mock";
+import { prismaMock, resetPrismaMock, setupPrismaMock } from "../../helpers/prisma-mock";
+
+const mockGetSession = jest.fn();
+jest.mock("@/lib/auth", () => ({
+  auth: {
+    api: {
+      getSession: (...args: unknown[]) => mockGetSession(...args),
+    },
+  },
+}));
+
+import { GET } from "@/app/api/v1/payments/[id]/receipt/route";
+
+describe("GET /api/v1/payments/:id/receipt", () => {
+  const patient = createMockUser({ id: "patient_1", name: "Jane Doe", email: "jane@example.com" });
+
+  function createPayment(overrides: Record<string, unknown> = {}) {
+    return {
+      id: "cmpay0000receipt1",
+      consultationId: "consult_1",
+      provider: "SQUARE",
+      status: "PAID",
+      amount: 13500,
+      currency: "USD",
+      promoCodeId: "promo_1",
+      discountAmount: 1500,
+      paidAt: new Date("2026-10-22T09:30:00Z"),
+      refundedAmount: 0,
+      createdAt: new Date("2026-10-22T09:00:00Z"),
+      updatedAt: new Date("2026-10-22T09:30:00Z"),
+      promoCode: { code: "WELCOME10" },
+      refunds: [],
+      consultation: {
+        ...createMockConsultation({
+          id: "consult_1",
+          patientId: patient.id,
+          doctorId: "doctor_1",
+          specialty: "CARDIOLOGY",
+          scheduledStartAt: new Date("2026-10-25T14:00:00Z"),
+          durationMinutes: 30,
+        }),
+        patient: { name: patient.name, email: patient.email },
+        doctor: { name: "Gregory House", doctorProfile: { licenseId: "MD-12345" } },
+      },
+      ...overrides,
+    };
+  }
+
+  function createRequest(id: string, headers: Record<string, string> = {}) {
+    return [
+      new NextRequest(`http://localhost:3000/api/v1/payments/${id}/receipt`, { headers }),
+      { params: Promise.resolve({ id }) },
+    ] as const;
+  }
+
+  beforeEach(() => {
+    resetFactories();
+    resetPrismaMock();
+    setupPrismaMock();
+    mockGetSession.mockReset();
+    mockGetSession.mockResolvedValue(createMockSession(patient));
+    delete process.env.RECEIPT_TAX_RATE_PERCENT;
+  });
+
+  it("should return a PDF with the invoice number, provider, discount and total", async () => {
+    prismaMock.payment.findUnique.mockResolvedValue(createPayment());
+
+    const response = await GET(...createRequest("cmpay0000receipt1"));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("application/pdf");
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="receipt-INV-20261022-RECEIPT1.pdf"'
+    );
+    const pdf = Buffer.from(await response.arrayBuffer()).toString("latin1");
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+    // Every cross-reference entry points at its object
+    const xref = pdf.slice(pdf.lastIndexOf("\nxref\n")).match(/^\d{10} 00000 n $/gm) ?? [];
+    expect(xref.length).toBeGreaterThan(5);
+    xref.forEach((entry, i) => {
+      expect(pdf.startsWith(`${i + 1} 0 obj`, Number(entry.slice(0, 10)))).toBe(true);
+    });
+    expect(pdf).toContain("(INV-20261022-RECEIPT1)");
+    expect(pdf).toContain("(Jane Doe)");
+    expect(pdf).toContain("(Dr. Gregory House)");
+    expect(pdf).toContain("(License: MD-12345)");
+    expect(pdf).toContain("(Cardiology consultation \\(30 min\\))");
+    expect(pdf).toContain("($150.00)");
+    expect(pdf).toContain("(Discount \\(WELCOME10\\))");
+    expect(pdf).toContain("(-$15.00)");
+    expect(pdf).toContain("(Tax included \\(0%\\))");
+    expect(pdf).toContain("($135.00)");
+  });
+
+  it("should list refunds and the net amount paid", async () => {
+    prismaMock.payment.findUnique.mockResolvedValue(
+      createPayment({
+        status: "PARTIALLY_REFUNDED",
+        refundedAmount: 5000,
+        refunds: [
+          { id: "refund_1", amount: 5000, status: "COMPLETED", createdAt: new Date("2026-10-23T10:00:00Z"), completedAt: new Date("2026-10-23T10:05:00Z") },
+          { id: "refund_2", amount: 2000, status: "FAILED", createdAt: new Date("2026-10-23T11:00:00Z"), completedAt: null },
+        ],
+      })
+    );
+
+    const response = await GET(...createRequest("cmpay0000receipt1"));
+
+    expect(response.status).toBe(200);
+    const pdf = Buffer.from(await response.arrayBuffer()).toString("latin1");
+    expect(pdf).toContain("(October 23, 2026)");
+    expect(pdf).toContain("(-$50.00)");
+    expect(pdf).not.toContain("(-$20.00)");
+    expect(pdf).toContain("($85.00)");
+  });
+
+  it("should format amounts for the patient's locale and encode the euro sign", async () => {
+    process.env.RECEIPT_TAX_RATE_PERCENT = "20";
+    prismaMock.payment.findUnique.mockResolvedValue(
+      createPayment({ currency: "EUR", amount: 12000, discountAmount: 0, promoCodeId: null, promoCode: null })
+    );
+
+    const response = await GET(...createRequest("cmpay0000receipt1", { "Accept-Language": "de-DE,de;q=0.9" }));
+
+    expect(response.status).toBe(200);
+    const pdf = Buffer.from(await response.arrayBuffer()).toString("latin1");
+    expect(pdf).toContain("(120,00\xa0\x80)");
+    expect(pdf).toContain("(Tax included \\(20%\\))");
+    expect(pdf).toContain("(20,00\xa0\x80)");
+  });
+
+  it("should let admins download any receipt", async () => {
+    mockGetSession.mockResolvedValue(createMockSession(createMockAdmin()));
+    prismaMock.payment.findUnique.mockResolvedValue(createPayment());
+
+    const response = await GET(...createRequest("cmpay0000receipt1"));
+
+    expect(response.status).toBe(200);
+  });
+
+  it("should return 403 for another patient's payment", async () => {
+    mockGetSession.mockResolvedValue(createMockSession(createMockUser({ id: "patient_2" })));
+    prismaMock.payment.findUnique.mockResolvedValue(createPayment());
+
+    const response = await GET(...createRequest("cmpay0000receipt1"));
+
+    expect(response.status).toBe(403);
+  });
+
+  it("should return 404 for an unknown payment", async () => {
+    prismaMock.payment.findUnique.mockResolvedValue(null);
+
+    const response = await GET(...createRequest("missing"));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 409 while the payment is not completed", async () => {
+    prismaMock.payment.findUnique.mockResolvedValue(createPayment({ status: "PENDING", paidAt: null }));
+
+    const response = await GET(...createRequest("cmpay0000receipt1"));
+
+    expect(response.status).toBe(409);
+    const body = await response.json();
+    expect(body.error.details).toEqual({ status: "PENDING" });
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Tests for the stale payment reaper and its cron route
+ *
+ * Abandoned checkouts (PENDING payments older than 30 minutes) have their
+ * Square payment link cancelled; unless Square reports the payment after all,
+ * the payment fails and the consultation returns to CREATED, or EXPIRED once
+ * its slot has passed. The clock is passed in, so no timers are faked.
+ */
+
+import { NextRequest } from "next/server";
+import { prismaMock, resetPrismaMock, setupPrismaMock } from "../../helpers/prisma-mock";
+
+// api-utils pulls in the auth module; the cron route authenticates with CRON_SECRET instead
+jest.mock("@/lib/auth", () => ({
+  auth: { api: { getSession: jest.fn() } },
+}));
+
+const mockReleaseSlotLock = jest.fn();
+jest.mock("@/lib/redis", () => ({
+  getRedis: async () => ({}),
+  releaseSlotLock: (...args: unknown[]) => mockReleaseSlotLock(...args),
+  slotLockKey: (doctorId: string, scheduledStartAtMs: number) =>
+    `slotlock:${doctorId}:${scheduledStartAtMs}`,
+}));
+
+const mockCancelSquarePaymentLink = jest.fn();
+const mockGetSquareCheckoutStatus = jest.fn();
+jest.mock("@/lib/square", () => ({
+  cancelSquarePaymentLink: (...args: unknown[]) => mockCancelSquarePaymentLink(...args),
+  getSquareCheckoutStatus: (...args: unknown[]) => mockGetSquareCheckoutStatus(...args),
+}));
+
+import { reapStalePayments } from "@/lib/payment-reaper";
+import { GET as reapCron } from "@/app/api/v1/cron/stale-payments/route";
+
+describe("Stale payment reaper", () => {
+  const now = new Date("2030-01-01T12:00:00.000Z");
+  const futureSlot = new Date("2030-01-02T10:00:00.000Z");
+  const pastSlot = new Date("2030-01-01T11:30:00.000Z");
+
+  function stalePayment(consultation: { status: string; scheduledStartAt: Date | null }) {
+    return {
+      id: "pay_1",
+      consultationId: "consult_1",
+      providerCheckoutId: "link_1",
+      providerOrderId: "order_1",
+      consultation: { id: "consult_1", doctorId: "doc_1", ...consultation },
+    };
+  }
+
+  beforeEach(() => {
+    resetPrismaMock();
+    setupPrismaMock();
+    mockReleaseSlotLock.mockReset();
+    mockCancelSquarePaymentLink.mockReset();
+    mockGetSquareCheckoutStatus.mockReset();
+
+    mockGetSquareCheckoutStatus.mockResolvedValue({ orderState: "OPEN", payment: null });
+    prismaMock.payment.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("should only pick up PENDING payments older than the cutoff", async () => {
+    prismaMock.payment.findMany.mockResolvedValue([]);
+
+    const summary = await reapStalePayments({ now });
+
+    expect(summary).toEqual({ checked: 0, results: [] });
+    expect(prismaMock.payment.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: "PENDING", createdAt: { lt: new Date("2030-01-01T11:30:00.000Z") } },
+        take: 50,
+      })
+    );
+  });
+
+  it("should cancel the link, fail the payment and return the consultation to CREATED", async () => {
+    prismaMock.payment.findMany.mockResolvedValue([
+      stalePayment({ status: "PAYMENT_PENDING", scheduledStartAt: futureSlot }),
+    ]);
+
+    const summary = await reapStalePayments({ now });
+
+    expect(summary.results).toEqual([
+      { paymentId: "pay_1", consultationId: "consult_1", outcome: "RESET" },
+    ]);
+    expect(mockCancelSquarePaymentLink).toHaveBeenCalledWith("link_1");
+    expect(mockGetSquareCheckoutStatus).toHaveBeenCalledWith("order_1");
+    expect(prismaMock.payment.updateMany).toHaveBeenCalledWith({
+      where: { id: "pay_1", status: "PENDING" },
+      data: { status: "FAILED" },
+    });
+    expect(prismaMock.consultation.update).toHaveBeenCalledWith({
+      where: { id: "consult_1", status: "PAYMENT_PENDING" },
+      data: { status: "CREATED" },
+    });
+    expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        consultationId: "consult_1",
+        eventType: "PAYMENT_EXPIRED",
+        eventMetadata: expect.objectContaining({ paymentId: "pay_1", orderState: "OPEN" }),
+      }),
+    });
+    expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        eventType: "CONSULT_STATUS_CHANGED",
+        eventMetadata: { from: "PAYMENT_PENDING", to: "CREATED", reason: "PAYMENT_EXPIRED" },
+      }),
+    });
+    expect(mockReleaseSlotLock).toHaveBeenCalledWith(
+      expect.anything(),
+      `slotlock:doc_1:${futureSlot.getTime()}`,
+      "consult_1"
+    );
+  });
+
+  it("should expire the consultation once its slot has passed", async () => {
+    prismaMock.payment.findMany.mockResolvedValue([
+      stalePayment({ status: "CREATED", scheduledStartAt: pastSlot }),
+    ]);
+
+    const summary = await reapStalePayments({ now });
+
+    expect(summary.results[0].outcome).toBe("EXPIRED");
+    expect(prismaMock.consultation.update).toHaveBeenCalledWith({
+      where: { id: "consult_1", status: "CREATED" },
+      data: { status: "EXPIRED" },
+    });
+  });
+
+  it("should leave a CREATED consultation with an upcoming slot as is", async () => {
+    prismaMock.payment.findMany.mockResolvedValue([
+      stalePayment({ status: "CREATED", scheduledStartAt: futureSlot }),
+    ]);
+
+    const summary = await reapStalePayments({ now });
+
+    expect(summary.results[0].outcome).toBe("RESET");
+    expect(prismaMock.payment.updateMany).toHaveBeenCalled();
+    expect(prismaMock.consultation.update).not.toHaveBeenCalled();
+  });
+
+  it("should not touch a cancelled consultation", async () => {
+    prismaMock.payment.findMany.mockResolvedValue([
+      stalePayment({ status: "CANCELLED", scheduledStartAt: futureSlot }),
+    ]);
+
+    const summary = await reapStalePayments({ now });
+
+    expect(summary.results[0].outcome).toBe("PAYMENT_FAILED");
+    expect(prismaMock.consultation.update).not.toHaveBeenCalled();
+  });
+
+  it("should record a payment Square completed but whose webhook was missed", async () => {
+    prismaMock.payment.findMany.mockResolvedValue([
+      stalePayment({ status: "PAYMENT_PENDING", scheduledStartAt: futureSlot }),
+    ]);
+    mockGetSquareCheckoutStatus.mockResolvedValue({
+      orderState: "COMPLETED",
+      payment: { id: "square_payment_1", status: "COMPLETED" },
+    });
+    prismaMock.payment.findFirst.mockResolvedValue({ id: "pay_1", consultationId: "consult_1", status: "PENDING" } as any);
+    prismaMock.consultation.findUnique.mockResolvedValue({
+      id: "consult_1",
+      status: "PAYMENT_PENDING",
+      doctorId: "doc_1",
+      scheduledStartAt: futureSlot,
+      durationMinutes: 30,
+      bufferMinutes: 0,
+    } as any);
+
+    const summary = await reapStalePayments({ now });
+
+    expect(summary.results[0].outcome).toBe("RECONCILED");
+    expect(prismaMock.payment.update).toHaveBeenCalledWith({
+      where: { id: "pay_1", status: { in: ["PENDING", "FAILED"] } },
+      data: expect.objectContaining({ status: "PAID", providerPaymentId: "square_payment_1" }),
+    });
+    expect(prismaMock.payment.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("should leave payments Square is still processing for the next run", async () => {
+    prismaMock.payment.findMany.mockResolvedValue([
+      stalePayment({ status: "PAYMENT_PENDING", scheduledStartAt: futureSlot }),
+    ]);
+    mockGetSquareCheckoutStatus.mockResolvedValue({
+      orderState: "OPEN",
+      payment: { id: "square_payment_1", status: "APPROVED" },
+    });
+
+    const summary = await reapStalePayments({ now });
+
+    expect(summary.results[0].outcome).toBe("IN_PROGRESS");
+    expect(prismaMock.payment.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("should skip a payment that was settled while being reaped", async () => {
+    prismaMock.payment.findMany.mockResolvedValue([
+      stalePayment({ status: "PAYMENT_PENDING", scheduledStartAt: futureSlot }),
+    ]);
+    prismaMock.payment.updateMany.mockResolvedValue({ count: 0 });
+
+    const summary = await reapStalePayments({ now });
+
+    expect(summary.results[0].outcome).toBe("SKIPPED");
+    expect(prismaMock.consultation.update).not.toHaveBeenCalled();
+    expect(prismaMock.auditEvent.create).not.toHaveBeenCalled();
+    expect(mockReleaseSlotLock).not.toHaveBeenCalled();
+  });
+
+  it("should report an error and continue with the next payment", async () => {
+    prismaMock.payment.findMany.mockResolvedValue([
+      stalePayment({ status: "PAYMENT_PENDING", scheduledStartAt: futureSlot }),
+      { ...stalePayment({ status: "PAYMENT_PENDING", scheduledStartAt: futureSlot }), id: "pay_2", providerCheckoutId: "link_2" },
+    ]);
+    mockCancelSquarePaymentLink.mockRejectedValueOnce(new Error("Square unavailable"));
+
+    const summary = await reapStalePayments({ now });
+
+    expect(summary.checked).toBe(2);
+    expect(summary.results).toEqual([
+      { paymentId: "pay_1", consultationId: "consult_1", outcome: "ERROR", error: "Square unavailable" },
+      { paymentId: "pay_2", consultationId: "consult_1", outcome: "RESET" },
+    ]);
+  });
+
+  describe("GET /api/v1/cron/stale-payments", () => {
+    beforeEach(() => {
+      process.env.CRON_SECRET = "test-cron-secret";
+    });
+
+    function cronRequest(authorization?: string) {
+      return new NextRequest("http://localhost:3000/api/v1/cron/stale-payments", {
+        headers: authorization ? { authorization } : {},
+      });
+    }
+
+    it("should reject requests without the cron secret", async () => {
+      const response = await reapCron(cronRequest("Bearer wrong"));
+
+      expect(response.status).toBe(401);
+      expect(prismaMock.payment.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should run the reaper and return its summary", async () => {
+      prismaMock.payment.findMany.mockResolvedValue([]);
+
+      const response = await reapCron(cronRequest("Bearer test-cron-secret"));
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body).toEqual({ checked: 0, results: [] });
+    });
+  });
+});
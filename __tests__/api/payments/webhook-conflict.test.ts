@@ -9,11 +9,10 @@ import { createHmac } from "crypto";
 import { prismaMock, resetPrismaMock, setupPrismaMock } from "../../helpers/prisma-mock";
 
 // Mock Redis helper (webhook releases locks best-effort)
-const mockRedisDel = jest.fn();
+const mockReleaseSlotLock = jest.fn();
 jest.mock("@/lib/redis", () => ({
-  getRedis: async () => ({
-    del: (...args: unknown[]) => mockRedisDel(...args),
-  }),
+  getRedis: async () => ({}),
+  releaseSlotLock: (...args: unknown[]) => mockReleaseSlotLock(...args),
   slotLockKey: (doctorId: string, scheduledStartAtMs: number) =>
     `slotlock:${doctorId}:${scheduledStartAtMs}`,
 }));
@@ -24,7 +23,7 @@ describe("POST /api/v1/payments/webhook (conflict handling)", () => {
     setupPrismaMock();
     process.env.SQUARE_WEBHOOK_SIGNATURE_KEY = "test-webhook-secret";
     process.env.NEXT_PUBLIC_BASE_URL = "http://localhost:3000";
-    mockRedisDel.mockReset();
+    mockReleaseSlotLock.mockReset();
   });
 
   it("should mark consultation PAYMENT_FAILED when payment is COMPLETED but consultation update to PAID fails with P2002", async () => {
@@ -34,13 +33,15 @@ describe("POST /api/v1/payments/webhook (conflict handling)", () => {
       id: "pay_1",
       consultationId: "consult_1",
       providerOrderId: "order_1",
+      status: "PENDING",
     } as any);
 
-    // Force the first $transaction (payment.update + consultation.update) to fail with a unique-violation.
+    // Force the first $transaction (payment + consultation to PAID) to fail with a unique-violation.
     prismaMock.$transaction.mockRejectedValueOnce({ code: "P2002" });
 
     prismaMock.consultation.findUnique.mockResolvedValue({
       id: "consult_1",
+      status: "CREATED",
       doctorId: "doc_1",
       scheduledStartAt: new Date("2030-01-01T10:00:00.000Z"),
     } as any);
@@ -63,10 +64,7 @@ describe("POST /api/v1/payments/webhook (conflict handling)", () => {
     });
 
     const notificationUrl = process.env.NEXT_PUBLIC_BASE_URL + "/api/v1/payments/webhook";
-    const signature = createHmac(
-      "sha256",
-      Buffer.from(process.env.SQUARE_WEBHOOK_SIGNATURE_KEY!, "base64")
-    )
+    const signature = createHmac("sha256", process.env.SQUARE_WEBHOOK_SIGNATURE_KEY!)
       .update(notificationUrl + body)
       .digest("base64");
 
@@ -89,7 +87,7 @@ describe("POST /api/v1/payments/webhook (conflict handling)", () => {
     expect(prismaMock.payment.update).toHaveBeenCalled();
     expect(prismaMock.consultation.update).toHaveBeenCalledWith(
       expect.objectContaining({
-        where: { id: "consult_1" },
+        where: { id: "consult_1", status: "CREATED" },
         data: { status: "PAYMENT_FAILED" },
       })
     );
@@ -103,7 +101,11 @@ describe("POST /api/v1/payments/webhook (conflict handling)", () => {
     );
 
     // Best-effort lock release should be attempted
-    expect(mockRedisDel).toHaveBeenCalled();
+    expect(mockReleaseSlotLock).toHaveBeenCalledWith(
+      expect.anything(),
+      `slotlock:doc_1:${new Date("2030-01-01T10:00:00.000Z").getTime()}`,
+      "consult_1"
+    );
   });
 });
 
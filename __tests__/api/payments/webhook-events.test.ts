@@ -0,0 +1,253 @@
+/**
+ * Tests for the Square webhook dispute and order handlers, and for events
+ * that have no handler.
+ */
+
+import { NextRequest } from "next/server";
+import { createHmac } from "crypto";
+import { prismaMock, resetPrismaMock, setupPrismaMock } from "../../helpers/prisma-mock";
+
+const mockReleaseSlotLock = jest.fn();
+jest.mock("@/lib/redis", () => ({
+  getRedis: async () => ({}),
+  releaseSlotLock: (...args: unknown[]) => mockReleaseSlotLock(...args),
+  slotLockKey: (doctorId: string, scheduledStartAtMs: number) =>
+    `slotlock:${doctorId}:${scheduledStartAtMs}`,
+}));
+
+describe("POST /api/v1/payments/webhook (disputes, orders, unknown events)", () => {
+  const notificationUrl = "http://localhost:3000/api/v1/payments/webhook";
+  const payment = {
+    id: "pay_1",
+    consultationId: "consult_1",
+    status: "PAID",
+    amount: 15000,
+    currency: "USD",
+    providerPaymentId: "square_payment_1",
+    providerOrderId: "order_1",
+  };
+
+  beforeEach(() => {
+    resetPrismaMock();
+    setupPrismaMock();
+    mockReleaseSlotLock.mockReset();
+    process.env.SQUARE_WEBHOOK_SIGNATURE_KEY = "test-webhook-secret";
+    process.env.NEXT_PUBLIC_BASE_URL = "http://localhost:3000";
+  });
+
+  function createEventRequest(event: object) {
+    const body = JSON.stringify(event);
+    const signature = createHmac("sha256", process.env.SQUARE_WEBHOOK_SIGNATURE_KEY!)
+      .update(notificationUrl + body)
+      .digest("base64");
+
+    return new NextRequest(notificationUrl, {
+      method: "POST",
+      headers: {
+        "x-square-hmacsha256-signature": signature,
+        "content-type": "application/json",
+      },
+      body,
+    });
+  }
+
+  function disputeEvent(type: string, state: string) {
+    return {
+      type,
+      event_id: `evt_${state}`,
+      data: {
+        object: {
+          dispute: {
+            id: "square_dispute_1",
+            dispute_id: "square_dispute_1",
+            state,
+            reason: "NOT_AS_DESCRIBED",
+            amount_money: { amount: 15000, currency: "USD" },
+            due_at: "2030-01-10T00:00:00.000Z",
+            disputed_payment: { payment_id: "square_payment_1" },
+          },
+        },
+      },
+    };
+  }
+
+  describe("disputes", () => {
+    it("should record a new dispute and write DISPUTE_OPENED", async () => {
+      const { POST } = await import("@/app/api/v1/payments/webhook/route");
+      prismaMock.payment.findFirst.mockResolvedValue(payment as any);
+      prismaMock.dispute.findUnique.mockResolvedValue(null);
+
+      const response = await POST(createEventRequest(disputeEvent("dispute.created", "EVIDENCE_REQUIRED")));
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.payment.findFirst).toHaveBeenCalledWith({
+        where: { providerPaymentId: "square_payment_1" },
+      });
+      expect(prismaMock.dispute.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { providerDisputeId: "square_dispute_1" },
+          create: expect.objectContaining({
+            paymentId: "pay_1",
+            state: "EVIDENCE_REQUIRED",
+            reason: "NOT_AS_DESCRIBED",
+            amount: 15000,
+            evidenceDueAt: new Date("2030-01-10T00:00:00.000Z"),
+            resolvedAt: null,
+          }),
+        })
+      );
+      expect(prismaMock.payment.update).not.toHaveBeenCalled();
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ consultationId: "consult_1", eventType: "DISPUTE_OPENED" }),
+      });
+    });
+
+    it("should mark the payment CHARGED_BACK when the dispute is lost", async () => {
+      const { POST } = await import("@/app/api/v1/payments/webhook/route");
+      prismaMock.payment.findFirst.mockResolvedValue(payment as any);
+      prismaMock.dispute.findUnique.mockResolvedValue({ state: "PROCESSING" } as any);
+
+      await POST(createEventRequest(disputeEvent("dispute.state.updated", "LOST")));
+
+      expect(prismaMock.payment.update).toHaveBeenCalledWith({
+        where: { id: "pay_1" },
+        data: { status: "CHARGED_BACK" },
+      });
+      expect(prismaMock.dispute.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({ state: "LOST", resolvedAt: expect.any(Date) }),
+        })
+      );
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: "DISPUTE_LOST" }),
+      });
+    });
+
+    it("should keep the payment when the dispute is won", async () => {
+      const { POST } = await import("@/app/api/v1/payments/webhook/route");
+      prismaMock.payment.findFirst.mockResolvedValue(payment as any);
+      prismaMock.dispute.findUnique.mockResolvedValue({ state: "PROCESSING" } as any);
+
+      await POST(createEventRequest(disputeEvent("dispute.state.changed", "WON")));
+
+      expect(prismaMock.payment.update).not.toHaveBeenCalled();
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: "DISPUTE_WON" }),
+      });
+    });
+
+    it("should ignore a resent dispute event", async () => {
+      const { POST } = await import("@/app/api/v1/payments/webhook/route");
+      prismaMock.payment.findFirst.mockResolvedValue(payment as any);
+      prismaMock.dispute.findUnique.mockResolvedValue({ state: "LOST" } as any);
+
+      await POST(createEventRequest(disputeEvent("dispute.state.updated", "LOST")));
+
+      expect(prismaMock.dispute.upsert).not.toHaveBeenCalled();
+      expect(prismaMock.auditEvent.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("orders", () => {
+    function orderEvent(state: string) {
+      return {
+        type: "order.updated",
+        event_id: `evt_order_${state}`,
+        data: { object: { order_updated: { order_id: "order_1", state, version: 3 } } },
+      };
+    }
+
+    it("should fail the pending payment and free the slot when the order is cancelled", async () => {
+      const { POST } = await import("@/app/api/v1/payments/webhook/route");
+      const scheduledStartAt = new Date("2030-01-01T10:00:00.000Z");
+      prismaMock.payment.findFirst.mockResolvedValue({ ...payment, status: "PENDING" } as any);
+      prismaMock.consultation.findUnique.mockResolvedValue({
+        id: "consult_1",
+        status: "PAYMENT_PENDING",
+        doctorId: "doc_1",
+        scheduledStartAt,
+      } as any);
+
+      const response = await POST(createEventRequest(orderEvent("CANCELED")));
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.payment.update).toHaveBeenCalledWith({
+        where: { id: "pay_1" },
+        data: { status: "FAILED" },
+      });
+      expect(prismaMock.consultation.update).toHaveBeenCalledWith({
+        where: { id: "consult_1", status: "PAYMENT_PENDING" },
+        data: { status: "PAYMENT_FAILED" },
+      });
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: "PAYMENT_CHECKOUT_CANCELLED" }),
+      });
+      expect(mockReleaseSlotLock).toHaveBeenCalledWith(
+        expect.anything(),
+        `slotlock:doc_1:${scheduledStartAt.getTime()}`,
+        "consult_1"
+      );
+    });
+
+    it("should leave a CREATED consultation as is", async () => {
+      const { POST } = await import("@/app/api/v1/payments/webhook/route");
+      prismaMock.payment.findFirst.mockResolvedValue({ ...payment, status: "PENDING" } as any);
+      prismaMock.consultation.findUnique.mockResolvedValue({
+        id: "consult_1",
+        status: "CREATED",
+        doctorId: "doc_1",
+        scheduledStartAt: new Date("2030-01-01T10:00:00.000Z"),
+      } as any);
+
+      await POST(createEventRequest(orderEvent("CANCELED")));
+
+      expect(prismaMock.payment.update).toHaveBeenCalled();
+      expect(prismaMock.consultation.update).not.toHaveBeenCalled();
+    });
+
+    it("should not touch payments that are already settled", async () => {
+      const { POST } = await import("@/app/api/v1/payments/webhook/route");
+      prismaMock.payment.findFirst.mockResolvedValue(payment as any);
+
+      await POST(createEventRequest(orderEvent("CANCELED")));
+
+      expect(prismaMock.payment.update).not.toHaveBeenCalled();
+    });
+
+    it("should ignore other order states", async () => {
+      const { POST } = await import("@/app/api/v1/payments/webhook/route");
+
+      const response = await POST(createEventRequest(orderEvent("COMPLETED")));
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.payment.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("unknown events", () => {
+    it("should store events without a handler and mark them IGNORED", async () => {
+      const { POST } = await import("@/app/api/v1/payments/webhook/route");
+      const event = {
+        type: "payout.sent",
+        event_id: "evt_payout_1",
+        data: { object: { payout: { id: "po_1" } } },
+      };
+
+      const response = await POST(createEventRequest(event));
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.webhookEvent.create).toHaveBeenCalledWith({
+        data: {
+          provider: "SQUARE",
+          eventId: "evt_payout_1",
+          eventType: "payout.sent",
+          payload: event,
+        },
+      });
+      expect(prismaMock.webhookEvent.update).toHaveBeenCalledWith({
+        where: { id: "whevt_1" },
+        data: expect.objectContaining({ status: "IGNORED" }),
+      });
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for the webhook inbox: every verified delivery is stored by Square's
+ * event_id and processed once; failures are recorded for replay.
+ */
+
+import { NextRequest } from "next/server";
+import { createHmac } from "crypto";
+import { prismaMock, resetPrismaMock, setupPrismaMock } from "../../helpers/prisma-mock";
+
+jest.mock("@/lib/redis", () => ({
+  getRedis: async () => null,
+  slotLockKey: (doctorId: string, scheduledStartAtMs: number) =>
+    `slotlock:${doctorId}:${scheduledStartAtMs}`,
+}));
+
+describe("POST /api/v1/payments/webhook (inbox)", () => {
+  const notificationUrl = "http://localhost:3000/api/v1/payments/webhook";
+  const event = {
+    type: "payment.updated",
+    event_id: "evt_1",
+    data: { object: { payment: { id: "square_payment_1", order_id: "order_1", status: "FAILED" } } },
+  };
+
+  beforeEach(() => {
+    resetPrismaMock();
+    setupPrismaMock();
+    process.env.SQUARE_WEBHOOK_SIGNATURE_KEY = "test-webhook-secret";
+    process.env.NEXT_PUBLIC_BASE_URL = "http://localhost:3000";
+
+    prismaMock.payment.findFirst.mockResolvedValue({ id: "pay_1", consultationId: "consult_1", status: "PENDING" } as any);
+  });
+
+  function createEventRequest(payload: object) {
+    const body = JSON.stringify(payload);
+    const signature = createHmac("sha256", process.env.SQUARE_WEBHOOK_SIGNATURE_KEY!)
+      .update(notificationUrl + body)
+      .digest("base64");
+
+    return new NextRequest(notificationUrl, {
+      method: "POST",
+      headers: {
+        "x-square-hmacsha256-signature": signature,
+        "content-type": "application/json",
+      },
+      body,
+    });
+  }
+
+  it("should store the event and mark it PROCESSED", async () => {
+    const { POST } = await import("@/app/api/v1/payments/webhook/route");
+
+    const response = await POST(createEventRequest(event));
+
+    expect(response.status).toBe(200);
+    expect(prismaMock.webhookEvent.create).toHaveBeenCalledWith({
+      data: { provider: "SQUARE", eventId: "evt_1", eventType: "payment.updated", payload: event },
+    });
+    // Claimed before the handler runs
+    expect(prismaMock.webhookEvent.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: "whevt_1",
+        OR: [
+          { status: { in: ["RECEIVED", "FAILED"] } },
+          { status: "PROCESSING", updatedAt: { lt: expect.any(Date) } },
+        ],
+      },
+      data: { status: "PROCESSING", attempts: { increment: 1 } },
+    });
+    expect(prismaMock.payment.update).toHaveBeenCalled();
+    expect(prismaMock.webhookEvent.update).toHaveBeenCalledWith({
+      where: { id: "whevt_1" },
+      data: { status: "PROCESSED", processedAt: expect.any(Date), lastError: null },
+    });
+  });
+
+  it("should not process a redelivered event twice", async () => {
+    const { POST } = await import("@/app/api/v1/payments/webhook/route");
+    prismaMock.webhookEvent.create.mockRejectedValue({ code: "P2002" });
+    prismaMock.webhookEvent.findUniqueOrThrow.mockResolvedValue({
+      id: "whevt_1",
+      eventId: "evt_1",
+      eventType: "payment.updated",
+      payload: event,
+      status: "PROCESSED",
+    } as any);
+    prismaMock.webhookEvent.updateMany.mockResolvedValue({ count: 0 });
+    prismaMock.webhookEvent.findUnique.mockResolvedValue({ status: "PROCESSED" } as any);
+
+    const response = await POST(createEventRequest(event));
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.message).toBe("Event already processed");
+    expect(prismaMock.webhookEvent.findUniqueOrThrow).toHaveBeenCalledWith({
+      where: { provider_eventId: { provider: "SQUARE", eventId: "evt_1" } },
+    });
+    expect(prismaMock.payment.findFirst).not.toHaveBeenCalled();
+    expect(prismaMock.payment.update).not.toHaveBeenCalled();
+  });
+
+  it("should record the error and return 500 so Square retries", async () => {
+    const { POST } = await import("@/app/api/v1/payments/webhook/route");
+    prismaMock.$transaction.mockRejectedValueOnce(new Error("Database unavailable"));
+
+    const response = await POST(createEventRequest(event));
+
+    expect(response.status).toBe(500);
+    expect(prismaMock.webhookEvent.update).toHaveBeenCalledWith({
+      where: { id: "whevt_1" },
+      data: { status: "FAILED", lastError: "Database unavailable" },
+    });
+  });
+
+  it("should process a redelivered event whose earlier attempt failed", async () => {
+    const { POST } = await import("@/app/api/v1/payments/webhook/route");
+    prismaMock.webhookEvent.create.mockRejectedValue({ code: "P2002" });
+    prismaMock.webhookEvent.findUniqueOrThrow.mockResolvedValue({
+      id: "whevt_1",
+      eventId: "evt_1",
+      eventType: "payment.updated",
+      payload: event,
+      status: "FAILED",
+    } as any);
+
+    const response = await POST(createEventRequest(event));
+
+    expect(response.status).toBe(200);
+    expect(prismaMock.payment.update).toHaveBeenCalled();
+    expect(prismaMock.webhookEvent.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: "PROCESSED" }) })
+    );
+  });
+
+  it("should key events without an event_id by a hash of the body", async () => {
+    const { POST } = await import("@/app/api/v1/payments/webhook/route");
+    const withoutId: Partial<typeof event> = { ...event };
+    delete withoutId.event_id;
+
+    await POST(createEventRequest(withoutId));
+
+    expect(prismaMock.webhookEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventId: expect.stringMatching(/^sha256:[0-9a-f]{64}$/) }),
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Tests for the Square webhook refund handling:
+ * 'refund.created' / 'refund.updated' events settle the matching Refund record,
+ * and a later 'payment.updated' does not undo the refund.
+ */
+
+import { NextRequest } from "next/server";
+import { createHmac } from "crypto";
+import { prismaMock, resetPrismaMock, setupPrismaMock } from "../../helpers/prisma-mock";
+
+jest.mock("@/lib/redis", () => ({
+  getRedis: async () => null,
+  slotLockKey: (doctorId: string, scheduledStartAtMs: number) =>
+    `slotlock:${doctorId}:${scheduledStartAtMs}`,
+}));
+
+describe("POST /api/v1/payments/webhook (refunds)", () => {
+  const notificationUrl = "http://localhost:3000/api/v1/payments/webhook";
+
+  beforeEach(() => {
+    resetPrismaMock();
+    setupPrismaMock();
+    process.env.SQUARE_WEBHOOK_SIGNATURE_KEY = "test-webhook-secret";
+    process.env.NEXT_PUBLIC_BASE_URL = "http://localhost:3000";
+  });
+
+  function createRefundRequest(refund: object, type = "refund.updated") {
+    return createEventRequest({ type, data: { object: { refund } } });
+  }
+
+  function createEventRequest(event: object) {
+    const body = JSON.stringify(event);
+    const signature = createHmac("sha256", process.env.SQUARE_WEBHOOK_SIGNATURE_KEY!)
+      .update(notificationUrl + body)
+      .digest("base64");
+
+    return new NextRequest(notificationUrl, {
+      method: "POST",
+      headers: {
+        "x-square-hmacsha256-signature": signature,
+        "content-type": "application/json",
+      },
+      body,
+    });
+  }
+
+  function mockRefund(overrides: object = {}) {
+    prismaMock.refund.findUnique.mockResolvedValue({
+      id: "refund_1",
+      paymentId: "pay_1",
+      amount: 15000,
+      status: "PENDING",
+      providerRefundId: "square_refund_1",
+      ...overrides,
+    } as any);
+    prismaMock.refund.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.refund.aggregate.mockResolvedValue({ _sum: { amount: 15000 } });
+    prismaMock.payment.findUniqueOrThrow.mockResolvedValue({ amount: 15000 } as any);
+    prismaMock.payment.update.mockResolvedValue({ amount: 15000, consultationId: "consult_1" } as any);
+  }
+
+  it("should mark the payment REFUNDED when a full refund completes", async () => {
+    const { POST } = await import("@/app/api/v1/payments/webhook/route");
+    mockRefund();
+
+    const response = await POST(
+      createRefundRequest({
+        id: "square_refund_1",
+        status: "COMPLETED",
+        payment_id: "square_payment_1",
+        amount_money: { amount: 15000, currency: "USD" },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(prismaMock.refund.findUnique).toHaveBeenCalledWith({
+      where: { providerRefundId: "square_refund_1" },
+    });
+    expect(prismaMock.refund.updateMany).toHaveBeenCalledWith({
+      where: { id: "refund_1", status: "PENDING" },
+      data: {
+        status: "COMPLETED",
+        providerRefundId: "square_refund_1",
+        completedAt: expect.any(Date),
+      },
+    });
+    expect(prismaMock.payment.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: "pay_1" }, data: { status: "REFUNDED" } })
+    );
+    expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        consultationId: "consult_1",
+        eventType: "REFUND_COMPLETED",
+      }),
+    });
+  });
+
+  it("should mark the payment PARTIALLY_REFUNDED while completed refunds are below the amount", async () => {
+    const { POST } = await import("@/app/api/v1/payments/webhook/route");
+    mockRefund({ amount: 7500 });
+    prismaMock.refund.aggregate.mockResolvedValue({ _sum: { amount: 7500 } });
+
+    await POST(
+      createRefundRequest({
+        id: "square_refund_1",
+        status: "COMPLETED",
+        payment_id: "square_payment_1",
+        amount_money: { amount: 7500, currency: "USD" },
+      })
+    );
+
+    expect(prismaMock.refund.aggregate).toHaveBeenCalledWith({
+      where: { paymentId: "pay_1", status: "COMPLETED" },
+      _sum: { amount: true },
+    });
+    expect(prismaMock.payment.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { status: "PARTIALLY_REFUNDED" } })
+    );
+  });
+
+  it("should release the refunded amount when a refund fails", async () => {
+    const { POST } = await import("@/app/api/v1/payments/webhook/route");
+    mockRefund();
+
+    await POST(
+      createRefundRequest({
+        id: "square_refund_1",
+        status: "REJECTED",
+        payment_id: "square_payment_1",
+        amount_money: { amount: 15000, currency: "USD" },
+      })
+    );
+
+    expect(prismaMock.refund.updateMany).toHaveBeenCalledWith({
+      where: { id: "refund_1", status: "PENDING" },
+      data: { status: "FAILED", providerRefundId: "square_refund_1" },
+    });
+    expect(prismaMock.payment.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { refundedAmount: { decrement: 15000 } } })
+    );
+    expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventType: "REFUND_FAILED" }),
+    });
+  });
+
+  it("should ignore a resent event for a settled refund", async () => {
+    const { POST } = await import("@/app/api/v1/payments/webhook/route");
+    mockRefund({ status: "COMPLETED" });
+    prismaMock.refund.updateMany.mockResolvedValue({ count: 0 });
+
+    const response = await POST(
+      createRefundRequest({ id: "square_refund_1", status: "COMPLETED", payment_id: "square_payment_1" })
+    );
+
+    expect(response.status).toBe(200);
+    expect(prismaMock.payment.update).not.toHaveBeenCalled();
+    expect(prismaMock.auditEvent.create).not.toHaveBeenCalled();
+  });
+
+  it("should match a refund whose Square id has not been stored yet", async () => {
+    const { POST } = await import("@/app/api/v1/payments/webhook/route");
+    mockRefund();
+    prismaMock.refund.findUnique.mockResolvedValue(null);
+    prismaMock.payment.findFirst.mockResolvedValue({ id: "pay_1", currency: "USD" } as any);
+    prismaMock.refund.findFirst.mockResolvedValue({ id: "refund_1", paymentId: "pay_1", amount: 15000 } as any);
+
+    await POST(
+      createRefundRequest(
+        {
+          id: "square_refund_1",
+          status: "PENDING",
+          payment_id: "square_payment_1",
+          amount_money: { amount: 15000, currency: "USD" },
+        },
+        "refund.created"
+      )
+    );
+
+    expect(prismaMock.refund.create).not.toHaveBeenCalled();
+    expect(prismaMock.refund.updateMany).toHaveBeenCalledWith({
+      where: { id: "refund_1", status: "PENDING" },
+      data: { status: "PENDING", providerRefundId: "square_refund_1" },
+    });
+  });
+
+  it("should record refunds issued outside the app", async () => {
+    const { POST } = await import("@/app/api/v1/payments/webhook/route");
+    mockRefund();
+    prismaMock.refund.findUnique.mockResolvedValue(null);
+    prismaMock.refund.findFirst.mockResolvedValue(null);
+    prismaMock.payment.findFirst.mockResolvedValue({ id: "pay_1", currency: "USD" } as any);
+    prismaMock.refund.create.mockResolvedValue({ id: "refund_ext", paymentId: "pay_1", amount: 2000 } as any);
+
+    await POST(
+      createRefundRequest(
+        {
+          id: "square_refund_ext",
+          status: "PENDING",
+          payment_id: "square_payment_1",
+          amount_money: { amount: 2000, currency: "USD" },
+        },
+        "refund.created"
+      )
+    );
+
+    expect(prismaMock.refund.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        paymentId: "pay_1",
+        amount: 2000,
+        reason: "OTHER",
+        providerRefundId: "square_refund_ext",
+      }),
+    });
+    expect(prismaMock.payment.update).toHaveBeenCalledWith({
+      where: { id: "pay_1" },
+      data: { refundedAmount: { increment: 2000 } },
+    });
+  });
+
+  it.each(["REFUNDED", "PARTIALLY_REFUNDED", "CHARGED_BACK"])(
+    "should not mark a %s payment PAID again when Square resends payment.updated",
+    async (status) => {
+      const { POST } = await import("@/app/api/v1/payments/webhook/route");
+      prismaMock.payment.findFirst.mockResolvedValue({
+        id: "pay_1",
+        consultationId: "consult_1",
+        providerOrderId: "order_1",
+        status,
+        paidAt: new Date("2030-01-01T09:00:00.000Z"),
+      } as any);
+
+      const response = await POST(
+        createEventRequest({
+          type: "payment.updated",
+          data: { object: { payment: { id: "square_payment_1", order_id: "order_1", status: "COMPLETED" } } },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.payment.update).not.toHaveBeenCalled();
+      expect(prismaMock.consultation.update).not.toHaveBeenCalled();
+    }
+  );
+
+  it("should acknowledge refunds for unknown payments", async () => {
+    const { POST } = await import("@/app/api/v1/payments/webhook/route");
+    prismaMock.refund.findUnique.mockResolvedValue(null);
+    prismaMock.payment.findFirst.mockResolvedValue(null);
+
+    const response = await POST(
+      createRefundRequest({ id: "square_refund_x", status: "COMPLETED", payment_id: "other" }, "refund.created")
+    );
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.message).toBe("Record not found");
+  });
+});
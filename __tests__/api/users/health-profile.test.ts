@@ -0,0 +1,167 @@
+/**
+ * Tests for GET/PUT /api/v1/users/me/health-profile
+ */
+
+import { NextRequest } from "next/server";
+import {
+  createMockUser,
+  createMockDoctor,
+  resetFactories,
+} from "../../helpers/factories";
+import { createMockSession } from "../../helpers/auth-mock";
+import {
+  prismaMock,
+  resetPrismaMock,
+  setupPrismaMock,
+} from "../../helpers/prisma-mock";
+
+// Mock auth module
+const mockGetSession = jest.fn();
+jest.mock("@/lib/auth", () => ({
+  auth: {
+    api: {
+      getSession: (...args: unknown[]) => mockGetSession(...args),
+    },
+  },
+}));
+
+// Import route handlers after mocks are set up
+import { GET, PUT } from "@/app/api/v1/users/me/health-profile/route";
+
+const URL = "http://localhost:3000/api/v1/users/me/health-profile";
+
+function createPutRequest(body: unknown): NextRequest {
+  return new NextRequest(URL, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("/api/v1/users/me/health-profile", () => {
+  const patient = createMockUser({ id: "patient_1" });
+
+  beforeEach(() => {
+    resetFactories();
+    resetPrismaMock();
+    setupPrismaMock();
+    mockGetSession.mockReset();
+    mockGetSession.mockResolvedValue(createMockSession(patient));
+    prismaMock.patientHealthProfile.upsert.mockImplementation(async ({ create }: any) => ({
+      id: "hp_1",
+      ...create,
+    }));
+  });
+
+  describe("GET", () => {
+    it("should return 401 when not authenticated", async () => {
+      mockGetSession.mockResolvedValue(null);
+
+      const response = await GET();
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should return 403 for doctors", async () => {
+      mockGetSession.mockResolvedValue(createMockSession(createMockDoctor()));
+
+      const response = await GET();
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should return an empty profile when none was saved", async () => {
+      const response = await GET();
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body).toMatchObject({
+        patientId: "patient_1",
+        nameOrAlias: null,
+        allergies: [],
+        currentMedications: [],
+        emergencyContactName: null,
+        updatedAt: null,
+      });
+    });
+
+    it("should return the saved profile", async () => {
+      prismaMock.patientHealthProfile.findUnique.mockResolvedValue({
+        id: "hp_1",
+        patientId: "patient_1",
+        allergies: ["Penicillin"],
+      });
+
+      const response = await GET();
+
+      const body = await response.json();
+      expect(body.allergies).toEqual(["Penicillin"]);
+      expect(prismaMock.patientHealthProfile.findUnique).toHaveBeenCalledWith({
+        where: { patientId: "patient_1" },
+      });
+    });
+  });
+
+  describe("PUT", () => {
+    it("should return 403 for doctors", async () => {
+      mockGetSession.mockResolvedValue(createMockSession(createMockDoctor()));
+
+      const response = await PUT(createPutRequest({ allergies: [] }));
+
+      expect(response.status).toBe(403);
+      expect(prismaMock.patientHealthProfile.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should save the profile, tidy the lists and clear omitted fields", async () => {
+      const response = await PUT(
+        createPutRequest({
+          nameOrAlias: " Sam ",
+          ageRange: "40-64",
+          allergies: [" Penicillin ", "Penicillin", ""],
+          chronicConditions: ["Asthma"],
+          emergencyContactName: "Alex",
+          emergencyContactPhone: "+1 (555) 010-2030",
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const data = {
+        nameOrAlias: "Sam",
+        ageRange: "40-64",
+        allergies: ["Penicillin"],
+        currentMedications: [],
+        chronicConditions: ["Asthma"],
+        surgeries: [],
+        emergencyContactName: "Alex",
+        emergencyContactPhone: "+1 (555) 010-2030",
+        emergencyContactRelationship: null,
+      };
+      expect(prismaMock.patientHealthProfile.upsert).toHaveBeenCalledWith({
+        where: { patientId: "patient_1" },
+        create: { patientId: "patient_1", ...data },
+        update: data,
+      });
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: { actorUserId: "patient_1", eventType: "HEALTH_PROFILE_UPDATED" },
+      });
+    });
+
+    it.each([
+      ["a list that is not an array", { allergies: "Penicillin" }, "allergies"],
+      ["too many entries", { surgeries: Array.from({ length: 21 }, (_, i) => `Surgery ${i}`) }, "surgeries"],
+      ["an entry that is too long", { currentMedications: ["x".repeat(201)] }, "currentMedications"],
+      ["an unknown age range", { ageRange: "21-30" }, "ageRange"],
+      ["a malformed phone number", { emergencyContactName: "Alex", emergencyContactPhone: "call me" }, "emergencyContactPhone"],
+      ["a contact without a phone number", { emergencyContactName: "Alex" }, "emergencyContactPhone"],
+      ["a contact without a name", { emergencyContactPhone: "5550102030" }, "emergencyContactName"],
+    ])("should reject %s", async (_case, input, field) => {
+      const response = await PUT(createPutRequest(input));
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.code).toBe("VALIDATION_ERROR");
+      expect(body.error.details.field).toBe(field);
+      expect(prismaMock.patientHealthProfile.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
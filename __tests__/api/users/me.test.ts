@@ -418,6 +418,257 @@ describe("PATCH /api/v1/users/me", () => {
       );
     });
 
+    it("should replace the doctor weekly working hours", async () => {
+      const doctor = createMockDoctor({ id: "doctor_1" });
+      const session = createMockSession(doctor);
+      mockGetSession.mockResolvedValue(session);
+
+      const doctorWithProfile = {
+        ...doctor,
+        doctorProfile: {
+          id: "profile_1",
+          doctorId: doctor.id,
+          specialties: ["CARDIOLOGY"],
+          licenseId: "MD-12345",
+          timezone: "UTC",
+        },
+      };
+
+      const workingHours = [
+        { weekday: 1, startTime: "13:00", endTime: "17:00" },
+        { weekday: 1, startTime: "08:00", endTime: "12:00" },
+        { weekday: 6, startTime: "18:00", endTime: "22:00" },
+      ];
+
+      prismaMock.user.findUnique.mockResolvedValue(doctorWithProfile as any);
+      prismaMock.doctorProfile.update.mockResolvedValue({
+        ...doctorWithProfile.doctorProfile,
+        workingHours,
+      } as any);
+
+      const request = createPatchRequest({ doctorProfile: { workingHours } });
+      const response = await PATCH(request);
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.doctorProfile.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { doctorId: doctor.id },
+          data: expect.objectContaining({
+            workingHours: {
+              deleteMany: {},
+              create: [
+                { weekday: 1, startTime: "08:00", endTime: "12:00" },
+                { weekday: 1, startTime: "13:00", endTime: "17:00" },
+                { weekday: 6, startTime: "18:00", endTime: "22:00" },
+              ],
+            },
+          }),
+        })
+      );
+    });
+
+    it("should reject overlapping working hours on the same weekday", async () => {
+      const doctor = createMockDoctor({ id: "doctor_1" });
+      const session = createMockSession(doctor);
+      mockGetSession.mockResolvedValue(session);
+
+      prismaMock.user.findUnique.mockResolvedValue({
+        ...doctor,
+        doctorProfile: { id: "profile_1", doctorId: doctor.id, specialties: ["CARDIOLOGY"] },
+      } as any);
+
+      const request = createPatchRequest({
+        doctorProfile: {
+          workingHours: [
+            { weekday: 2, startTime: "09:00", endTime: "12:00" },
+            { weekday: 2, startTime: "11:30", endTime: "14:00" },
+          ],
+        },
+      });
+      const response = await PATCH(request);
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.code).toBe("VALIDATION_ERROR");
+      expect(body.error.details.field).toBe("doctorProfile.workingHours");
+      expect(prismaMock.doctorProfile.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject an empty working hours schedule", async () => {
+      const doctor = createMockDoctor({ id: "doctor_1" });
+      const session = createMockSession(doctor);
+      mockGetSession.mockResolvedValue(session);
+
+      prismaMock.user.findUnique.mockResolvedValue({
+        ...doctor,
+        doctorProfile: { id: "profile_1", doctorId: doctor.id, specialties: ["CARDIOLOGY"] },
+      } as any);
+
+      // An empty schedule would fall back to the default hours, every day
+      const request = createPatchRequest({ doctorProfile: { workingHours: [] } });
+      const response = await PATCH(request);
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.code).toBe("VALIDATION_ERROR");
+      expect(body.error.details.field).toBe("doctorProfile.workingHours");
+      expect(prismaMock.doctorProfile.update).not.toHaveBeenCalled();
+    });
+
+    it("should update the doctor buffer and per-specialty appointment durations", async () => {
+      const doctor = createMockDoctor({ id: "doctor_1" });
+      const session = createMockSession(doctor);
+      mockGetSession.mockResolvedValue(session);
+
+      const doctorWithProfile = {
+        ...doctor,
+        doctorProfile: {
+          id: "profile_1",
+          doctorId: doctor.id,
+          specialties: ["PSYCHIATRY", "GENERAL"],
+          timezone: "UTC",
+        },
+      };
+      prismaMock.user.findUnique.mockResolvedValue(doctorWithProfile as any);
+      prismaMock.doctorProfile.update.mockResolvedValue(doctorWithProfile.doctorProfile as any);
+
+      const request = createPatchRequest({
+        doctorProfile: {
+          bufferMinutes: 10,
+          appointmentDurations: [{ specialty: "PSYCHIATRY", durationMinutes: 45 }],
+        },
+      });
+      const response = await PATCH(request);
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.doctorProfile.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            bufferMinutes: 10,
+            appointmentDurations: {
+              deleteMany: {},
+              create: [{ specialty: "PSYCHIATRY", durationMinutes: 45 }],
+            },
+          }),
+        })
+      );
+    });
+
+    it("should reject durations for specialties the doctor does not practice", async () => {
+      const doctor = createMockDoctor({ id: "doctor_1" });
+      const session = createMockSession(doctor);
+      mockGetSession.mockResolvedValue(session);
+
+      prismaMock.user.findUnique.mockResolvedValue({
+        ...doctor,
+        doctorProfile: { id: "profile_1", doctorId: doctor.id, specialties: ["CARDIOLOGY"] },
+      } as any);
+
+      const request = createPatchRequest({
+        doctorProfile: {
+          appointmentDurations: [{ specialty: "DERMATOLOGY", durationMinutes: 15 }],
+        },
+      });
+      const response = await PATCH(request);
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error.details.field).toBe("doctorProfile.appointmentDurations");
+      expect(prismaMock.doctorProfile.update).not.toHaveBeenCalled();
+    });
+
+    it("should set the doctor's per-specialty fees, defaulting to the catalog currency", async () => {
+      const doctor = createMockDoctor({ id: "doctor_1" });
+      mockGetSession.mockResolvedValue(createMockSession(doctor));
+
+      const doctorProfile = {
+        id: "profile_1",
+        doctorId: doctor.id,
+        specialties: ["PSYCHIATRY", "GENERAL"],
+        timezone: "UTC",
+      };
+      prismaMock.user.findUnique.mockResolvedValue({ ...doctor, doctorProfile } as any);
+      prismaMock.doctorProfile.update.mockResolvedValue(doctorProfile as any);
+
+      const request = createPatchRequest({
+        doctorProfile: {
+          specialtyPrices: [
+            { specialty: "PSYCHIATRY", price: 18000 },
+            { specialty: "GENERAL", price: 4500, currency: "EUR" },
+          ],
+        },
+      });
+      const response = await PATCH(request);
+
+      expect(response.status).toBe(200);
+      expect(prismaMock.doctorProfile.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            specialtyPrices: {
+              deleteMany: {},
+              create: [
+                { specialty: "PSYCHIATRY", price: 18000, currency: "USD" },
+                { specialty: "GENERAL", price: 4500, currency: "EUR" },
+              ],
+            },
+          },
+          include: { specialtyPrices: true },
+        })
+      );
+    });
+
+    it("should reject invalid fees", async () => {
+      const doctor = createMockDoctor({ id: "doctor_1" });
+      mockGetSession.mockResolvedValue(createMockSession(doctor));
+
+      prismaMock.user.findUnique.mockResolvedValue({
+        ...doctor,
+        doctorProfile: { id: "profile_1", doctorId: doctor.id, specialties: ["CARDIOLOGY"] },
+      } as any);
+
+      for (const specialtyPrices of [
+        [{ specialty: "DERMATOLOGY", price: 9000 }],
+        [{ specialty: "CARDIOLOGY", price: 0 }],
+        [{ specialty: "CARDIOLOGY", price: 150.5 }],
+        [{ specialty: "CARDIOLOGY", price: 15000, currency: "dollars" }],
+      ]) {
+        const response = await PATCH(createPatchRequest({ doctorProfile: { specialtyPrices } }));
+
+        expect(response.status).toBe(400);
+        const body = await response.json();
+        expect(body.error.details).toEqual({ field: "doctorProfile.specialtyPrices", index: 0 });
+      }
+      expect(prismaMock.doctorProfile.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject a fee listed twice once currencies are normalized", async () => {
+      const doctor = createMockDoctor({ id: "doctor_1" });
+      mockGetSession.mockResolvedValue(createMockSession(doctor));
+
+      prismaMock.user.findUnique.mockResolvedValue({
+        ...doctor,
+        doctorProfile: { id: "profile_1", doctorId: doctor.id, specialties: ["PSYCHIATRY"] },
+      } as any);
+
+      for (const duplicate of [{ currency: "usd" }, { currency: "USD" }]) {
+        const response = await PATCH(
+          createPatchRequest({
+            doctorProfile: {
+              specialtyPrices: [
+                { specialty: "PSYCHIATRY", price: 18000 },
+                { specialty: "PSYCHIATRY", price: 19000, ...duplicate },
+              ],
+            },
+          })
+        );
+
+        expect(response.status).toBe(400);
+        const body = await response.json();
+        expect(body.error.details).toEqual({ field: "doctorProfile.specialtyPrices", index: 1 });
+      }
+      expect(prismaMock.doctorProfile.update).not.toHaveBeenCalled();
+    });
+
     it("should not allow patient to update doctor profile fields", async () => {
       const patient = createMockUser({
         id: "patient_1",
@@ -16,6 +16,15 @@ jest.mock('lucide-react', () => ({
     Bone: () => <div data-testid="icon-bone" />,
 }));
 
+const specialties = [
+    { id: 'GENERAL', label: 'General Practice', price: 5000, currency: 'USD', durationMinutes: 30 },
+    { id: 'CARDIOLOGY', label: 'Cardiology', price: 15000, currency: 'USD', durationMinutes: 30 },
+    { id: 'DERMATOLOGY', label: 'Dermatology', price: 8500, currency: 'USD', durationMinutes: 15 },
+    { id: 'PEDIATRICS', label: 'Pediatrics', price: 6500, currency: 'USD', durationMinutes: 30 },
+    { id: 'PSYCHIATRY', label: 'Psychiatry', price: 12000, currency: 'USD', durationMinutes: 50 },
+    { id: 'ORTHOPEDICS', label: 'Orthopedics', price: 11000, currency: 'USD', durationMinutes: 30 },
+];
+
 describe('SpecialtySelection', () => {
     const mockOnSelect = jest.fn();
 
@@ -24,9 +33,9 @@ describe('SpecialtySelection', () => {
     });
 
     it('renders all specialties', () => {
-        render(<SpecialtySelection onSelect={mockOnSelect} />);
+        render(<SpecialtySelection specialties={specialties} onSelect={mockOnSelect} />);
 
-        expect(screen.getByText('General')).toBeInTheDocument();
+        expect(screen.getByText('General Practice')).toBeInTheDocument();
         expect(screen.getByText('Cardiology')).toBeInTheDocument();
         expect(screen.getByText('Dermatology')).toBeInTheDocument();
         expect(screen.getByText('Pediatrics')).toBeInTheDocument();
@@ -35,7 +44,7 @@ describe('SpecialtySelection', () => {
     });
 
     it('calls onSelect with correct specialty when clicked', () => {
-        render(<SpecialtySelection onSelect={mockOnSelect} />);
+        render(<SpecialtySelection specialties={specialties} onSelect={mockOnSelect} />);
 
         const cardiologyButton = screen.getByText('Cardiology').closest('button');
         expect(cardiologyButton).toBeInTheDocument();
@@ -48,7 +57,20 @@ describe('SpecialtySelection', () => {
     });
 
     it('renders descriptions for specialties', () => {
-        render(<SpecialtySelection onSelect={mockOnSelect} />);
+        render(<SpecialtySelection specialties={specialties} onSelect={mockOnSelect} />);
         expect(screen.getByText('Heart health and cardiovascular care.')).toBeInTheDocument();
     });
+
+    it('renders catalog prices and falls back for specialties without a blurb', () => {
+        render(
+            <SpecialtySelection
+                specialties={[{ id: 'SLEEP_MEDICINE', label: 'Sleep Medicine', price: 9000, currency: 'USD', durationMinutes: 45 }]}
+                onSelect={mockOnSelect}
+            />
+        );
+
+        expect(screen.getByText('Sleep Medicine')).toBeInTheDocument();
+        expect(screen.getByText('45-minute consultation.')).toBeInTheDocument();
+        expect(screen.getByText('$90.00')).toBeInTheDocument();
+    });
 });
@@ -75,6 +75,12 @@ export function createMockConsultation(overrides: Partial<{
   specialty: string;
   status: ConsultationStatus;
   scheduledStartAt: Date | null;
+  durationMinutes: number;
+  bufferMinutes: number;
+  price: number | null;
+  currency: string | null;
+  seriesId: string | null;
+  seriesIndex: number | null;
   startedAt: Date | null;
   endedAt: Date | null;
   createdAt: Date;
@@ -89,6 +95,12 @@ export function createMockConsultation(overrides: Partial<{
     specialty: 'GENERAL',
     status: ConsultationStatus.CREATED,
     scheduledStartAt: null,
+    durationMinutes: 30,
+    bufferMinutes: 0,
+    price: null,
+    currency: null,
+    seriesId: null,
+    seriesIndex: null,
     startedAt: null,
     endedAt: null,
     createdAt: new Date(),
@@ -120,6 +132,33 @@ export function createMockPatientIntake(consultationId: string, overrides: Parti
   };
 }
 
+/**
+ * Valid answers to a specialty's intake questionnaire (lib/data/questionnaires.json);
+ * empty for specialties without one
+ */
+export function createMockQuestionnaireAnswers(specialty: string): Record<string, unknown> {
+  switch (specialty) {
+    case 'DERMATOLOGY':
+      return { lesion_location: ['arms'], lesion_duration: '1_4_weeks', lesion_changed: false };
+    case 'PSYCHIATRY':
+      return {
+        ...Object.fromEntries(Array.from({ length: 9 }, (_, i) => [`phq9_${i + 1}`, '0'])),
+        ...Object.fromEntries(Array.from({ length: 7 }, (_, i) => [`gad7_${i + 1}`, '0'])),
+        current_treatment: false,
+      };
+    case 'PEDIATRICS':
+      return {
+        child_age_years: 7,
+        guardian_name: 'Pat Doe',
+        guardian_relationship: 'mother',
+        guardian_phone: '555 010 2030',
+        guardian_present: true,
+      };
+    default:
+      return {};
+  }
+}
+
 /**
  * Create a mock video session
  */
@@ -155,3 +194,58 @@ export const VALID_SPECIALTIES = [
   'PSYCHIATRY',
   'ORTHOPEDICS',
 ] as const;
+
+/**
+ * Specialty catalog seeded by the specialty_catalog migration
+ * (prices in cents)
+ */
+export const SPECIALTY_CATALOG = [
+  { id: 'GENERAL', label: 'General Practice', price: 5000, durationMinutes: 30 },
+  { id: 'CARDIOLOGY', label: 'Cardiology', price: 15000, durationMinutes: 30 },
+  { id: 'DERMATOLOGY', label: 'Dermatology', price: 8500, durationMinutes: 15 },
+  { id: 'PEDIATRICS', label: 'Pediatrics', price: 6500, durationMinutes: 30 },
+  { id: 'PSYCHIATRY', label: 'Psychiatry', price: 12000, durationMinutes: 50 },
+  { id: 'ORTHOPEDICS', label: 'Orthopedics', price: 11000, durationMinutes: 30 },
+].map((specialty) => createMockSpecialty(specialty));
+
+/**
+ * Create a mock specialty catalog entry
+ */
+export function createMockSpecialty(overrides: Record<string, any> = {}) {
+  return {
+    id: 'GENERAL',
+    label: 'General Practice',
+    price: 5000,
+    currency: 'USD',
+    prices: [],
+    durationMinutes: 30,
+    active: true,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+/**
+ * Create a mock promo code (10% off, no limits)
+ */
+export function createMockPromoCode(overrides: Record<string, any> = {}) {
+  return {
+    id: generateId('promo'),
+    code: 'WELCOME10',
+    description: null,
+    discountType: 'PERCENTAGE',
+    percentOff: 10,
+    amountOff: null,
+    currency: null,
+    startsAt: null,
+    expiresAt: null,
+    maxRedemptions: null,
+    maxRedemptionsPerPatient: null,
+    specialties: [],
+    active: true,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
@@ -3,6 +3,8 @@
  * Creates a mock Prisma client without needing the actual generated client
  */
 
+import { SPECIALTY_CATALOG } from './factories';
+
 // Define a mock Prisma client type
 export interface MockPrismaClient {
   consultation: {
@@ -10,13 +12,29 @@ export interface MockPrismaClient {
     findMany: jest.Mock;
     findUnique: jest.Mock;
     update: jest.Mock;
+    updateMany: jest.Mock;
     count: jest.Mock;
   };
+  consultationSeries: {
+    create: jest.Mock;
+    findUnique: jest.Mock;
+  };
   patientIntake: {
     create: jest.Mock;
     findUnique: jest.Mock;
     upsert: jest.Mock;
   };
+  patientHealthProfile: {
+    findUnique: jest.Mock;
+    upsert: jest.Mock;
+  };
+  intakeAttachment: {
+    create: jest.Mock;
+    count: jest.Mock;
+    findUnique: jest.Mock;
+    findFirst: jest.Mock;
+    delete: jest.Mock;
+  };
   auditEvent: {
     create: jest.Mock;
     findMany: jest.Mock;
@@ -28,6 +46,13 @@ export interface MockPrismaClient {
     update: jest.Mock;
     count: jest.Mock;
   };
+  specialty: {
+    findUnique: jest.Mock;
+    findMany: jest.Mock;
+    create: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
   doctorProfile: {
     findUnique: jest.Mock;
     findFirst: jest.Mock;
@@ -35,19 +60,81 @@ export interface MockPrismaClient {
     update: jest.Mock;
     count: jest.Mock;
   };
+  doctorAvailabilityOverride: {
+    create: jest.Mock;
+    findMany: jest.Mock;
+    findFirst: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
   payment: {
     create: jest.Mock;
+    findMany: jest.Mock;
+    findUnique: jest.Mock;
+    findUniqueOrThrow: jest.Mock;
+    findFirst: jest.Mock;
+    update: jest.Mock;
+    updateMany: jest.Mock;
+    count: jest.Mock;
+  };
+  promoCode: {
+    findUnique: jest.Mock;
+    findMany: jest.Mock;
+    create: jest.Mock;
+    update: jest.Mock;
+  };
+  refund: {
+    create: jest.Mock;
+    findUnique: jest.Mock;
+    findFirst: jest.Mock;
+    updateMany: jest.Mock;
+    aggregate: jest.Mock;
+  };
+  dispute: {
+    findUnique: jest.Mock;
+    upsert: jest.Mock;
+  };
+  webhookEvent: {
+    create: jest.Mock;
+    findMany: jest.Mock;
+    findUnique: jest.Mock;
+    findUniqueOrThrow: jest.Mock;
+    update: jest.Mock;
+    updateMany: jest.Mock;
+    count: jest.Mock;
+  };
+  clinicalNote: {
+    create: jest.Mock;
+    findMany: jest.Mock;
+    findUnique: jest.Mock;
+    findFirst: jest.Mock;
+    updateMany: jest.Mock;
+  };
+  clinicalNoteAmendment: {
+    create: jest.Mock;
+  };
+  prescription: {
+    create: jest.Mock;
+    findMany: jest.Mock;
     findUnique: jest.Mock;
     findFirst: jest.Mock;
     update: jest.Mock;
+    updateMany: jest.Mock;
+  };
+  prescriptionItem: {
+    findMany: jest.Mock;
+    createMany: jest.Mock;
+    deleteMany: jest.Mock;
   };
   videoSession: {
     create: jest.Mock;
     findUnique: jest.Mock;
     findFirst: jest.Mock;
     update: jest.Mock;
+    updateMany: jest.Mock;
   };
   $transaction: jest.Mock;
+  $queryRaw: jest.Mock;
 }
 
 // Create a deep mock of PrismaClient
@@ -57,13 +144,29 @@ export const prismaMock: MockPrismaClient = {
     findMany: jest.fn(),
     findUnique: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
     count: jest.fn(),
   },
+  consultationSeries: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+  },
   patientIntake: {
     create: jest.fn(),
     findUnique: jest.fn(),
     upsert: jest.fn(),
   },
+  patientHealthProfile: {
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+  },
+  intakeAttachment: {
+    create: jest.fn(),
+    count: jest.fn(),
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    delete: jest.fn(),
+  },
   auditEvent: {
     create: jest.fn(),
     findMany: jest.fn(),
@@ -76,6 +179,13 @@ export const prismaMock: MockPrismaClient = {
     count: jest.fn(),
   },
 
+  specialty: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
   doctorProfile: {
     findUnique: jest.fn(),
     findFirst: jest.fn(),
@@ -83,19 +193,81 @@ export const prismaMock: MockPrismaClient = {
     update: jest.fn(),
     count: jest.fn(),
   },
+  doctorAvailabilityOverride: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
   payment: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    count: jest.fn(),
+  },
+  promoCode: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  refund: {
     create: jest.fn(),
     findUnique: jest.fn(),
     findFirst: jest.fn(),
+    updateMany: jest.fn(),
+    aggregate: jest.fn(),
+  },
+  dispute: {
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+  },
+  webhookEvent: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    count: jest.fn(),
+  },
+  clinicalNote: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  clinicalNoteAmendment: {
+    create: jest.fn(),
+  },
+  prescription: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  prescriptionItem: {
+    findMany: jest.fn(),
+    createMany: jest.fn(),
+    deleteMany: jest.fn(),
   },
   videoSession: {
     create: jest.fn(),
     findUnique: jest.fn(),
     findFirst: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
   },
   $transaction: jest.fn(),
+  $queryRaw: jest.fn(),
 };
 
 // Module mock - this will be used when the actual route is implemented
@@ -108,13 +280,27 @@ jest.mock('@/lib/prisma', () => ({
  */
 export function resetPrismaMock() {
   Object.values(prismaMock.consultation).forEach(mock => mock.mockReset());
+  Object.values(prismaMock.consultationSeries).forEach(mock => mock.mockReset());
   Object.values(prismaMock.patientIntake).forEach(mock => mock.mockReset());
+  Object.values(prismaMock.patientHealthProfile).forEach(mock => mock.mockReset());
+  Object.values(prismaMock.intakeAttachment).forEach(mock => mock.mockReset());
   Object.values(prismaMock.auditEvent).forEach(mock => mock.mockReset());
   Object.values(prismaMock.user).forEach(mock => mock.mockReset());
+  Object.values(prismaMock.specialty).forEach(mock => mock.mockReset());
   Object.values(prismaMock.doctorProfile).forEach(mock => mock.mockReset());
+  Object.values(prismaMock.doctorAvailabilityOverride).forEach(mock => mock.mockReset());
   Object.values(prismaMock.payment).forEach(mock => mock.mockReset());
+  Object.values(prismaMock.promoCode).forEach(mock => mock.mockReset());
+  Object.values(prismaMock.refund).forEach(mock => mock.mockReset());
+  Object.values(prismaMock.dispute).forEach(mock => mock.mockReset());
+  Object.values(prismaMock.webhookEvent).forEach(mock => mock.mockReset());
+  Object.values(prismaMock.clinicalNote).forEach(mock => mock.mockReset());
+  Object.values(prismaMock.clinicalNoteAmendment).forEach(mock => mock.mockReset());
+  Object.values(prismaMock.prescription).forEach(mock => mock.mockReset());
+  Object.values(prismaMock.prescriptionItem).forEach(mock => mock.mockReset());
   Object.values(prismaMock.videoSession).forEach(mock => mock.mockReset());
   prismaMock.$transaction.mockReset();
+  prismaMock.$queryRaw.mockReset();
 }
 
 /**
@@ -128,4 +314,33 @@ export function setupPrismaMock() {
     }
     return Promise.all(callback);
   });
+
+  // Row locks (SELECT ... FOR UPDATE) return the locked row ids
+  prismaMock.$queryRaw.mockResolvedValue([]);
+
+  // The specialty catalog as seeded by its migration unless a test changes it
+  prismaMock.specialty.findUnique.mockImplementation(async ({ where }: any) =>
+    SPECIALTY_CATALOG.find((s) => s.id === where.id) ?? null
+  );
+  prismaMock.specialty.findMany.mockImplementation(async ({ where }: any = {}) =>
+    SPECIALTY_CATALOG
+      .filter((s) => where?.active === undefined || s.active === where.active)
+      .sort((a, b) => a.label.localeCompare(b.label))
+  );
+
+  // Doctors have no date-specific availability overrides unless a test sets them up
+  prismaMock.doctorAvailabilityOverride.findMany.mockResolvedValue([]);
+
+  // No existing bookings unless a test sets them up (used by overlap checks)
+  prismaMock.consultation.findMany.mockResolvedValue([]);
+
+  // Patients have no current medications unless a test sets them up
+  prismaMock.prescriptionItem.findMany.mockResolvedValue([]);
+
+  // Patients have no saved health profile unless a test sets one up
+  prismaMock.patientHealthProfile.findUnique.mockResolvedValue(null);
+
+  // Webhook deliveries are new events unless a test sets up a redelivery
+  prismaMock.webhookEvent.create.mockImplementation(async ({ data }: any) => ({ id: 'whevt_1', ...data }));
+  prismaMock.webhookEvent.updateMany.mockResolvedValue({ count: 1 });
 }
@@ -76,6 +76,10 @@ export async function GET(request: NextRequest) {
                 include: {
                     patient: { select: { id: true, name: true, email: true } },
                     doctor: { select: { id: true, name: true, email: true } },
+                    payments: {
+                        select: { id: true, status: true, amount: true, currency: true, refundedAmount: true, paidAt: true },
+                        orderBy: { createdAt: "desc" },
+                    },
                 }
             }),
             prisma.consultation.count({ where }),
@@ -0,0 +1,186 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, successResponse, errorResponse, ErrorCodes } from "@/lib/api-utils";
+import { RefundReason, RefundStatus } from "@/app/generated/prisma/client";
+import {
+    issueRefund,
+    remainingRefundable,
+    RefundConflictError,
+    REFUNDABLE_PAYMENT_STATUSES,
+    REFUND_REASONS,
+} from "@/lib/refunds";
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+const MAX_NOTE_LENGTH = 500;
+
+function paymentSummary(payment: { id: string; status: string; amount: number; currency: string; refundedAmount: number }) {
+    return {
+        id: payment.id,
+        status: payment.status,
+        amount: payment.amount,
+        currency: payment.currency,
+        refundedAmount: payment.refundedAmount,
+        refundableAmount: remainingRefundable(payment),
+    };
+}
+
+/**
+ * GET /api/v1/admin/payments/:id/refunds
+ * Admin-only: List the refunds of a payment
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+    const { session } = authResult;
+
+    if (session.user.role !== "ADMIN") {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Admin access required", 403);
+    }
+
+    const { id } = await params;
+
+    try {
+        const payment = await prisma.payment.findUnique({
+            where: { id },
+            include: {
+                refunds: {
+                    orderBy: { createdAt: "desc" },
+                    include: { initiatedBy: { select: { id: true, name: true, email: true } } },
+                },
+            },
+        });
+
+        if (!payment) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Payment not found", 404);
+        }
+
+        return successResponse({
+            payment: paymentSummary(payment),
+            refunds: payment.refunds,
+        });
+    } catch (error) {
+        console.error("Admin Refund List Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to fetch refunds", 500);
+    }
+}
+
+/**
+ * POST /api/v1/admin/payments/:id/refunds
+ * Admin-only: Refund all or part of a payment through Square
+ *
+ * Body:
+ * - amount: number (cents, optional; defaults to the full refundable amount)
+ * - reason: RefundReason
+ * - note: string (optional)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+    const { session } = authResult;
+
+    // Strict Admin Authorization
+    if (session.user.role !== "ADMIN") {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Admin access required", 403);
+    }
+
+    const { id } = await params;
+
+    let body: { amount?: unknown; reason?: unknown; note?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+    }
+
+    const reason = body.reason as RefundReason;
+    if (!REFUND_REASONS.includes(reason)) {
+        return errorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            `Invalid reason. Valid options: ${REFUND_REASONS.join(", ")}`,
+            400,
+            { field: "reason", validOptions: REFUND_REASONS }
+        );
+    }
+
+    if (body.note !== undefined && body.note !== null && (typeof body.note !== "string" || body.note.length > MAX_NOTE_LENGTH)) {
+        return errorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            `Note must be a string of at most ${MAX_NOTE_LENGTH} characters`,
+            400,
+            { field: "note" }
+        );
+    }
+    const note = typeof body.note === "string" && body.note.trim() ? body.note.trim() : null;
+
+    if (body.amount !== undefined && (typeof body.amount !== "number" || !Number.isInteger(body.amount) || body.amount <= 0)) {
+        return errorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            "Amount must be a positive integer (cents)",
+            400,
+            { field: "amount" }
+        );
+    }
+
+    try {
+        const payment = await prisma.payment.findUnique({ where: { id } });
+
+        if (!payment) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Payment not found", 404);
+        }
+
+        if (!REFUNDABLE_PAYMENT_STATUSES.includes(payment.status) || !payment.providerPaymentId) {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                `Payment with status ${payment.status} cannot be refunded`,
+                409,
+                { status: payment.status }
+            );
+        }
+
+        const refundable = remainingRefundable(payment);
+        const amount = (body.amount as number | undefined) ?? refundable;
+        if (refundable === 0 || amount > refundable) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                `Amount exceeds the refundable amount of ${refundable}`,
+                400,
+                { field: "amount", refundableAmount: refundable }
+            );
+        }
+
+        const refund = await issueRefund({
+            payment,
+            amount,
+            reason,
+            note,
+            actor: session.user,
+        });
+
+        const updated = (await prisma.payment.findUnique({ where: { id } })) ?? payment;
+
+        if (refund.status === RefundStatus.FAILED) {
+            return errorResponse(
+                ErrorCodes.INTERNAL_ERROR,
+                "Refund was rejected by the payment provider",
+                502,
+                { refund, payment: paymentSummary(updated) }
+            );
+        }
+
+        return successResponse({ refund, payment: paymentSummary(updated) }, 201);
+    } catch (error) {
+        if (error instanceof RefundConflictError) {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                "Payment changed while refunding. Please refresh and try again.",
+                409
+            );
+        }
+
+        console.error("Admin Refund Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to refund payment", 500);
+    }
+}
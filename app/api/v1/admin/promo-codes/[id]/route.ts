@@ -0,0 +1,70 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, successResponse, errorResponse, ErrorCodes } from "@/lib/api-utils";
+import { validatePromoCodeInput } from "@/lib/promo-codes";
+import { findUnknownSpecialties } from "@/lib/specialties";
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/v1/admin/promo-codes/:id
+ * Admin-only: Update a promo code's description, validity dates, redemption
+ * limits, specialties or active flag. The code and its discount are fixed;
+ * create a new code to change them.
+ *
+ * Changes apply to checkouts started afterwards.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+    const { session } = authResult;
+
+    if (session.user.role !== "ADMIN") {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Admin access required", 403);
+    }
+
+    const { id } = await params;
+
+    let body: Record<string, unknown>;
+    try {
+        body = await request.json();
+    } catch {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+    }
+
+    try {
+        const existing = await prisma.promoCode.findUnique({ where: { id } });
+        if (!existing) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Promo code not found", 404);
+        }
+
+        const validated = validatePromoCodeInput(body ?? {}, { partial: true, existing });
+        if (!validated.data) {
+            return errorResponse(ErrorCodes.VALIDATION_ERROR, validated.error, 400, { field: validated.field });
+        }
+        if (Object.keys(validated.data).length === 0) {
+            return errorResponse(ErrorCodes.VALIDATION_ERROR, "No fields to update", 400);
+        }
+
+        const unknownSpecialties = await findUnknownSpecialties(validated.data.specialties);
+        if (unknownSpecialties.length > 0) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                `Unknown specialties: ${unknownSpecialties.join(", ")}`,
+                400,
+                { field: "specialties" }
+            );
+        }
+
+        const promoCode = await prisma.promoCode.update({
+            where: { id },
+            data: validated.data,
+        });
+        return successResponse(promoCode);
+    } catch (error) {
+        console.error("Admin Promo Code Update Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to update promo code", 500);
+    }
+}
@@ -0,0 +1,97 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, successResponse, errorResponse, ErrorCodes } from "@/lib/api-utils";
+import { PaymentStatus } from "@/app/generated/prisma/client";
+import { validatePromoCodeInput } from "@/lib/promo-codes";
+import { findUnknownSpecialties } from "@/lib/specialties";
+
+/**
+ * GET /api/v1/admin/promo-codes
+ * Admin-only: All promo codes, newest first, with how often each was redeemed
+ */
+export async function GET() {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+    const { session } = authResult;
+
+    if (session.user.role !== "ADMIN") {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Admin access required", 403);
+    }
+
+    try {
+        const promoCodes = await prisma.promoCode.findMany({
+            orderBy: { createdAt: "desc" },
+            include: {
+                _count: {
+                    select: { payments: { where: { status: { not: PaymentStatus.FAILED } } } },
+                },
+            },
+        });
+
+        return successResponse({
+            data: promoCodes.map(({ _count, ...promoCode }) => ({
+                ...promoCode,
+                redemptions: _count.payments,
+            })),
+        });
+    } catch (error) {
+        console.error("Admin Promo Codes List Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to fetch promo codes", 500);
+    }
+}
+
+/**
+ * POST /api/v1/admin/promo-codes
+ * Admin-only: Create a promo code
+ *
+ * Body: { code: string, discountType: "PERCENTAGE" | "FIXED_AMOUNT",
+ *         percentOff?: number, amountOff?: number (cents), currency?: string,
+ *         description?: string, startsAt?: string, expiresAt?: string,
+ *         maxRedemptions?: number, maxRedemptionsPerPatient?: number,
+ *         specialties?: string[], active?: boolean }
+ */
+export async function POST(request: NextRequest) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+    const { session } = authResult;
+
+    if (session.user.role !== "ADMIN") {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Admin access required", 403);
+    }
+
+    let body: Record<string, unknown>;
+    try {
+        body = await request.json();
+    } catch {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+    }
+
+    const validated = validatePromoCodeInput(body ?? {}, { partial: false });
+    if (!validated.data) {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, validated.error, 400, { field: validated.field });
+    }
+    const { code, discountType, ...optional } = validated.data;
+
+    try {
+        const unknownSpecialties = await findUnknownSpecialties(optional.specialties);
+        if (unknownSpecialties.length > 0) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                `Unknown specialties: ${unknownSpecialties.join(", ")}`,
+                400,
+                { field: "specialties" }
+            );
+        }
+
+        const promoCode = await prisma.promoCode.create({
+            data: { code: code!, discountType: discountType!, ...optional },
+        });
+        return successResponse(promoCode, 201);
+    } catch (error) {
+        if ((error as { code?: string })?.code === "P2002") {
+            return errorResponse(ErrorCodes.CONFLICT, `Promo code ${code} already exists`, 409);
+        }
+        console.error("Admin Promo Code Create Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to create promo code", 500);
+    }
+}
@@ -0,0 +1,119 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, successResponse, errorResponse, ErrorCodes } from "@/lib/api-utils";
+import { getSpecialty, validateSpecialtyInput } from "@/lib/specialties";
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/v1/admin/specialties/:id
+ * Admin-only: Update a specialty's label, price, currency, prices in other
+ * currencies (replacing the list), default duration or active flag.
+ * Deactivating stops new bookings; existing consultations keep it.
+ *
+ * Price changes apply to consultations booked afterwards.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+    const { session } = authResult;
+
+    if (session.user.role !== "ADMIN") {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Admin access required", 403);
+    }
+
+    const { id } = await params;
+
+    let body: Record<string, unknown>;
+    try {
+        body = await request.json();
+    } catch {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+    }
+
+    try {
+        const existing = await getSpecialty(id);
+        if (!existing) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Specialty not found", 404);
+        }
+
+        const validated = validateSpecialtyInput(body ?? {}, {
+            partial: true,
+            currentCurrency: existing.currency,
+        });
+        if (!validated.data) {
+            return errorResponse(ErrorCodes.VALIDATION_ERROR, validated.error, 400, { field: validated.field });
+        }
+        if (Object.keys(validated.data).length === 0) {
+            return errorResponse(ErrorCodes.VALIDATION_ERROR, "No fields to update", 400);
+        }
+
+        const { prices, ...data } = validated.data;
+        // The new default currency cannot also have a separate price
+        if (data.currency && !prices && existing.prices.some((p) => p.currency === data.currency)) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                `Remove the ${data.currency} price from prices before making it the default currency`,
+                400,
+                { field: "currency" }
+            );
+        }
+
+        const specialty = await prisma.specialty.update({
+            where: { id },
+            data: {
+                ...data,
+                prices: prices ? { deleteMany: {}, create: prices } : undefined,
+            },
+            include: { prices: true },
+        });
+        return successResponse(specialty);
+    } catch (error) {
+        console.error("Admin Specialty Update Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to update specialty", 500);
+    }
+}
+
+/**
+ * DELETE /api/v1/admin/specialties/:id
+ * Admin-only: Remove a specialty that was never used. Specialties referenced by
+ * consultations or doctor profiles must be deactivated instead.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+    const { session } = authResult;
+
+    if (session.user.role !== "ADMIN") {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Admin access required", 403);
+    }
+
+    const { id } = await params;
+
+    try {
+        if (!(await getSpecialty(id))) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Specialty not found", 404);
+        }
+
+        const [consultations, doctors] = await Promise.all([
+            prisma.consultation.count({ where: { specialty: id } }),
+            prisma.doctorProfile.count({ where: { specialties: { has: id } } }),
+        ]);
+        if (consultations > 0 || doctors > 0) {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                "Specialty is in use. Deactivate it instead.",
+                409,
+                { consultations, doctors }
+            );
+        }
+
+        await prisma.specialty.delete({ where: { id } });
+        return successResponse({ id, deleted: true });
+    } catch (error) {
+        console.error("Admin Specialty Delete Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to delete specialty", 500);
+    }
+}
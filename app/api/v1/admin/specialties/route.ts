@@ -0,0 +1,77 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, successResponse, errorResponse, ErrorCodes } from "@/lib/api-utils";
+import { listSpecialties, validateSpecialtyInput } from "@/lib/specialties";
+
+/**
+ * GET /api/v1/admin/specialties
+ * Admin-only: The whole specialty catalog, including deactivated specialties
+ */
+export async function GET() {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+    const { session } = authResult;
+
+    if (session.user.role !== "ADMIN") {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Admin access required", 403);
+    }
+
+    try {
+        const specialties = await listSpecialties({ includeInactive: true });
+        return successResponse({ data: specialties });
+    } catch (error) {
+        console.error("Admin Specialties List Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to fetch specialties", 500);
+    }
+}
+
+/**
+ * POST /api/v1/admin/specialties
+ * Admin-only: Add a specialty to the catalog
+ *
+ * Body: { id: string, label: string, price: number (cents), currency?: string,
+ *         prices?: { currency: string, price: number }[],
+ *         durationMinutes?: number, active?: boolean }
+ */
+export async function POST(request: NextRequest) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+    const { session } = authResult;
+
+    if (session.user.role !== "ADMIN") {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Admin access required", 403);
+    }
+
+    let body: Record<string, unknown>;
+    try {
+        body = await request.json();
+    } catch {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+    }
+
+    const validated = validateSpecialtyInput(body ?? {}, { partial: false });
+    if (!validated.data) {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, validated.error, 400, { field: validated.field });
+    }
+    const { id, label, price, prices, ...optional } = validated.data;
+
+    try {
+        const specialty = await prisma.specialty.create({
+            data: {
+                id: id!,
+                label: label!,
+                price: price!,
+                ...optional,
+                prices: prices ? { create: prices } : undefined,
+            },
+            include: { prices: true },
+        });
+        return successResponse(specialty, 201);
+    } catch (error) {
+        if ((error as { code?: string })?.code === "P2002") {
+            return errorResponse(ErrorCodes.CONFLICT, `Specialty ${id} already exists`, 409);
+        }
+        console.error("Admin Specialty Create Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to create specialty", 500);
+    }
+}
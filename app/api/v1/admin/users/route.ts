@@ -2,6 +2,8 @@ import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireAuth, successResponse, errorResponse, ErrorCodes } from "@/lib/api-utils";
 import { UserRole, Prisma } from "@/app/generated/prisma/client";
+import { findUnassignableSpecialties } from "@/lib/specialties";
+import { validateSpecialtyPrices } from "@/lib/pricing";
 
 /**
  * GET /api/v1/admin/users
@@ -51,7 +53,10 @@ export async function GET(request: NextRequest) {
                     doctorProfile: {
                         select: {
                             specialties: true,
-                            timezone: true
+                            timezone: true,
+                            specialtyPrices: {
+                                select: { specialty: true, price: true, currency: true }
+                            }
                         }
                     }
                 }
@@ -77,9 +82,10 @@ export async function GET(request: NextRequest) {
 /**
  * PATCH /api/v1/admin/users
  * Admin-only: Update user role and optionally manage DoctorProfile
- * Body: { userId: string, role?: UserRole, specialty?: string, specialties?: string[] }
+ * Body: { userId: string, role?: UserRole, specialty?: string, specialties?: string[], specialtyPrices?: [...] }
  * - specialty: Add a single specialty (for backwards compatibility)
  * - specialties: Set the complete list of specialties
+ * - specialtyPrices: Set the doctor's fees ({ specialty, price, currency? }), replacing the list
  */
 export async function PATCH(request: NextRequest) {
     const authResult = await requireAuth();
@@ -97,7 +103,7 @@ export async function PATCH(request: NextRequest) {
         return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
     }
 
-    const { userId, role, specialty, specialties } = body;
+    const { userId, role, specialty, specialties, specialtyPrices } = body;
 
     if (!userId) {
         return errorResponse(ErrorCodes.VALIDATION_ERROR, "userId is required", 400);
@@ -154,19 +160,45 @@ export async function PATCH(request: NextRequest) {
                     }
                 }
 
-                // Only update/create profile if we have specialties to set OR if profile doesn't exist
-                if (newSpecialties !== null || !existingUser.doctorProfile) {
+                // Newly assigned specialties must be active in the catalog
+                if (newSpecialties) {
+                    const invalid = await findUnassignableSpecialties(
+                        newSpecialties,
+                        existingUser.doctorProfile?.specialties
+                    );
+                    if (invalid.length > 0) {
+                        throw { validationError: `Invalid specialties: ${invalid.join(", ")}` };
+                    }
+                }
+
+                // Per-doctor fees for the doctor's (new) specialties
+                let newPrices: { specialty: string; price: number; currency: string }[] | null = null;
+                if ('specialtyPrices' in body) {
+                    const validation = await validateSpecialtyPrices(
+                        specialtyPrices,
+                        newSpecialties ?? existingUser.doctorProfile?.specialties ?? ['GENERAL']
+                    );
+                    if (validation.error !== undefined) {
+                        throw { validationError: `Invalid specialty prices: ${validation.error}` };
+                    }
+                    newPrices = validation.prices;
+                }
+
+                // Only update/create profile if we have specialties or prices to set OR if profile doesn't exist
+                if (newSpecialties !== null || newPrices !== null || !existingUser.doctorProfile) {
                     await tx.doctorProfile.upsert({
                         where: { doctorId: userId },
                         create: {
                             doctorId: userId,
                             // Only use default if no specialties were explicitly provided
                             specialties: newSpecialties ?? ['GENERAL'],
-                            timezone: "UTC"
+                            timezone: "UTC",
+                            ...(newPrices ? { specialtyPrices: { create: newPrices } } : {})
                         },
-                        update: newSpecialties ? {
-                            specialties: newSpecialties
-                        } : {}
+                        update: {
+                            ...(newSpecialties ? { specialties: newSpecialties } : {}),
+                            ...(newPrices ? { specialtyPrices: { deleteMany: {}, create: newPrices } } : {})
+                        }
                     });
                 }
             }
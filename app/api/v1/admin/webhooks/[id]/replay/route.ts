@@ -0,0 +1,68 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, successResponse, errorResponse, ErrorCodes } from "@/lib/api-utils";
+import { WebhookEventStatus } from "@/app/generated/prisma/client";
+import { processWebhookEvent } from "@/lib/webhook-inbox";
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/v1/admin/webhooks/:id/replay
+ * Admin-only: Process a failed webhook event again
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+    const { session } = authResult;
+
+    if (session.user.role !== "ADMIN") {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Admin access required", 403);
+    }
+
+    const { id } = await params;
+
+    try {
+        const event = await prisma.webhookEvent.findUnique({ where: { id } });
+
+        if (!event) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Webhook event not found", 404);
+        }
+
+        // Only failed events are replayed; processed ones must not run twice
+        if (event.status !== WebhookEventStatus.FAILED) {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                `Only FAILED events can be replayed (event is ${event.status})`,
+                409,
+                { status: event.status }
+            );
+        }
+
+        const outcome = await processWebhookEvent(event);
+
+        await prisma.auditEvent.create({
+            data: {
+                actorUserId: session.user.id,
+                eventType: "WEBHOOK_REPLAYED",
+                eventMetadata: {
+                    webhookEventId: event.id,
+                    eventId: event.eventId,
+                    eventType: event.eventType,
+                    status: outcome.status,
+                },
+            },
+        });
+
+        return successResponse({
+            id: event.id,
+            status: outcome.status,
+            result: outcome.result,
+            error: outcome.error ?? null,
+        });
+    } catch (error) {
+        console.error("Admin Webhook Replay Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to replay webhook event", 500);
+    }
+}
@@ -0,0 +1,36 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, successResponse, errorResponse, ErrorCodes } from "@/lib/api-utils";
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/v1/admin/webhooks/:id
+ * Admin-only: A webhook event with its payload
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+    const { session } = authResult;
+
+    if (session.user.role !== "ADMIN") {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Admin access required", 403);
+    }
+
+    const { id } = await params;
+
+    try {
+        const event = await prisma.webhookEvent.findUnique({ where: { id } });
+
+        if (!event) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Webhook event not found", 404);
+        }
+
+        return successResponse(event);
+    } catch (error) {
+        console.error("Admin Webhook Fetch Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to fetch webhook event", 500);
+    }
+}
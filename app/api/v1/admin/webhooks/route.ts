@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth, successResponse, errorResponse, ErrorCodes } from "@/lib/api-utils";
+import { Prisma, WebhookEventStatus } from "@/app/generated/prisma/client";
+
+/**
+ * GET /api/v1/admin/webhooks
+ * Admin-only: List received webhook events (without payloads)
+ *
+ * Query Params:
+ * - page: number (default 1)
+ * - limit: number (default 20)
+ * - status: WebhookEventStatus
+ * - eventType: string
+ */
+export async function GET(request: NextRequest) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+    const { session } = authResult;
+
+    if (session.user.role !== "ADMIN") {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Admin access required", 403);
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1"));
+    const limit = Math.max(1, Math.min(100, parseInt(searchParams.get("limit") || "20") || 20));
+    const statusParam = searchParams.get("status");
+    const eventType = searchParams.get("eventType");
+
+    let status: WebhookEventStatus | null = null;
+    if (statusParam) {
+        if (Object.values(WebhookEventStatus).includes(statusParam as WebhookEventStatus)) {
+            status = statusParam as WebhookEventStatus;
+        } else {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                `Invalid status: ${statusParam}`,
+                400,
+                { validStatuses: Object.values(WebhookEventStatus) }
+            );
+        }
+    }
+
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.WebhookEventWhereInput = {};
+    if (status) where.status = status;
+    if (eventType) where.eventType = eventType;
+
+    try {
+        const [events, total] = await Promise.all([
+            prisma.webhookEvent.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { createdAt: "desc" },
+                select: {
+                    id: true,
+                    provider: true,
+                    eventId: true,
+                    eventType: true,
+                    status: true,
+                    attempts: true,
+                    lastError: true,
+                    processedAt: true,
+                    createdAt: true,
+                },
+            }),
+            prisma.webhookEvent.count({ where }),
+        ]);
+
+        return successResponse({
+            data: events,
+            meta: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit),
+            }
+        });
+    } catch (error) {
+        console.error("Admin Webhook List Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to fetch webhook events", 500);
+    }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { errorResponse, ErrorCodes } from "@/lib/api-utils";
+import { getStorageBackend } from "@/lib/storage";
+import { verifyAttachmentUrl } from "@/lib/intake-attachments";
+
+/**
+ * GET /api/v1/attachments/[attachmentId]?expires=...&signature=...
+ * Serves an intake attachment for a signed link from the attachments list
+ * (lib/intake-attachments.ts). The link is the authorization: it was only
+ * handed to the patient, the assigned doctor or an admin, and expires within
+ * minutes.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ attachmentId: string }> }
+) {
+    const { attachmentId } = await params;
+    const { searchParams } = request.nextUrl;
+
+    if (!verifyAttachmentUrl(attachmentId, searchParams.get("expires"), searchParams.get("signature"))) {
+        return errorResponse(ErrorCodes.FORBIDDEN, "This link is invalid or has expired", 403);
+    }
+
+    try {
+        const attachment = await prisma.intakeAttachment.findUnique({ where: { id: attachmentId } });
+        const data = attachment
+            ? await getStorageBackend(attachment.storageBackend).get(attachment.storageKey)
+            : null;
+
+        if (!attachment || !data) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Attachment not found", 404);
+        }
+
+        // PDFs are downloaded rather than rendered in the app's origin
+        const disposition = attachment.contentType === "application/pdf" ? "attachment" : "inline";
+
+        return new NextResponse(new Uint8Array(data), {
+            status: 200,
+            headers: {
+                "Content-Type": attachment.contentType,
+                "Content-Length": String(data.length),
+                "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+                "Content-Security-Policy": "default-src 'none'; sandbox",
+                "X-Content-Type-Options": "nosniff",
+                "Cache-Control": "private, no-store",
+            },
+        });
+    } catch (error) {
+        console.error("Attachment download error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to load attachment", 500);
+    }
+}
@@ -0,0 +1,212 @@
+/**
+ * Consultation Cancel API Route
+ *
+ * POST /api/v1/consultations/:id/cancel
+ *
+ * Cancels a consultation. For an occurrence of a recurring series,
+ * `scope: "FUTURE"` also cancels every later occurrence of the series.
+ * Paid consultations are refunded according to the cancellation policy.
+ */
+
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+    errorResponse,
+    successResponse,
+    requireAuth,
+    ErrorCodes,
+    isValidStatusTransition,
+} from "@/lib/api-utils";
+import { ConsultationStatus, UserRole } from "@/app/generated/prisma/client";
+import {
+    SERIES_CANCEL_SCOPES,
+    type SeriesCancelScope,
+} from "@/lib/consultation-series";
+import {
+    refundCancelledConsultation,
+    type CancellationRefundResult,
+} from "@/lib/refunds";
+import {
+    applyConsultationTransition,
+    runConsultationTransitionHooks,
+    TransitionConflictError,
+    type ConsultationTransition,
+} from "@/lib/consultation-transitions";
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const { id: consultationId } = await params;
+
+    // Check authentication
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const user = session.user;
+
+    // Body is optional; default to cancelling just this consultation
+    let body: { scope?: unknown } = {};
+    const rawBody = await request.text();
+    if (rawBody.trim()) {
+        try {
+            body = JSON.parse(rawBody);
+        } catch {
+            return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+        }
+    }
+
+    const scope = (body.scope ?? "OCCURRENCE") as SeriesCancelScope;
+    if (!SERIES_CANCEL_SCOPES.includes(scope)) {
+        return errorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            `Invalid scope. Valid options: ${SERIES_CANCEL_SCOPES.join(", ")}`,
+            400,
+            { field: "scope", validOptions: SERIES_CANCEL_SCOPES }
+        );
+    }
+
+    try {
+        const consultation = await prisma.consultation.findUnique({
+            where: { id: consultationId },
+            select: {
+                id: true,
+                patientId: true,
+                doctorId: true,
+                specialty: true,
+                status: true,
+                scheduledStartAt: true,
+                seriesId: true,
+                seriesIndex: true,
+            },
+        });
+
+        if (!consultation) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Consultation not found", 404);
+        }
+
+        // Patient owner, assigned doctor or admin
+        const canCancel =
+            user.role === UserRole.ADMIN ||
+            consultation.patientId === user.id ||
+            consultation.doctorId === user.id;
+        if (!canCancel) {
+            return errorResponse(
+                ErrorCodes.FORBIDDEN,
+                "You do not have access to this consultation",
+                403
+            );
+        }
+
+        if (scope === "FUTURE" && !consultation.seriesId) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                "Consultation is not part of a recurring series",
+                400,
+                { field: "scope" }
+            );
+        }
+
+        if (!isValidStatusTransition(consultation.status, ConsultationStatus.CANCELLED)) {
+            return errorResponse(
+                ErrorCodes.INVALID_STATUS_TRANSITION,
+                `Cannot transition from ${consultation.status} to ${ConsultationStatus.CANCELLED}`,
+                400,
+                { from: consultation.status, to: ConsultationStatus.CANCELLED }
+            );
+        }
+
+        // Later occurrences that already happened or can no longer be cancelled are skipped
+        const targets =
+            scope === "FUTURE"
+                ? await prisma.consultation.findMany({
+                      where: {
+                          seriesId: consultation.seriesId,
+                          seriesIndex: { gte: consultation.seriesIndex ?? 0 },
+                      },
+                      select: {
+                          id: true,
+                          doctorId: true,
+                          specialty: true,
+                          status: true,
+                          scheduledStartAt: true,
+                          seriesIndex: true,
+                      },
+                      orderBy: { seriesIndex: "asc" },
+                  })
+                : [consultation];
+
+        const result = await prisma.$transaction(async (tx) => {
+            const cancelled: typeof targets = [];
+            const skipped: { id: string; status: ConsultationStatus }[] = [];
+            const transitions: ConsultationTransition[] = [];
+
+            for (const target of targets) {
+                if (!isValidStatusTransition(target.status, ConsultationStatus.CANCELLED)) {
+                    skipped.push({ id: target.id, status: target.status });
+                    continue;
+                }
+
+                // Guarded on the status we read to avoid racing a payment or join
+                try {
+                    transitions.push(
+                        await applyConsultationTransition(tx, target, ConsultationStatus.CANCELLED, {
+                            actor: user,
+                            eventType: "CONSULT_CANCELLED",
+                            metadata: {
+                                cancelledBy: user.role,
+                                scope,
+                                seriesId: consultation.seriesId,
+                                seriesIndex: target.seriesIndex,
+                            },
+                        })
+                    );
+                } catch (err) {
+                    if (!(err instanceof TransitionConflictError) || target.id === consultation.id) {
+                        throw err;
+                    }
+                    skipped.push({ id: target.id, status: target.status });
+                    continue;
+                }
+
+                cancelled.push(target);
+            }
+
+            return { cancelled, skipped, transitions };
+        });
+
+        // Side effects run after the cancellation is committed: the transition
+        // hooks free the slot and close any room, then paid consultations are refunded
+        await runConsultationTransitionHooks(result.transitions);
+        const refunds: CancellationRefundResult[] = [];
+        for (const target of result.cancelled) {
+            const refund = await refundCancelledConsultation(target, user);
+            if (refund) refunds.push(refund);
+        }
+
+        return successResponse({
+            scope,
+            seriesId: consultation.seriesId,
+            cancelled: result.cancelled.map((c) => c.id),
+            skipped: result.skipped,
+            refunds,
+        });
+    } catch (error) {
+        if (error instanceof TransitionConflictError) {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                "Consultation status changed while cancelling. Please refresh and try again.",
+                409
+            );
+        }
+
+        console.error("Error cancelling consultation:", error);
+        return errorResponse(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to cancel consultation",
+            500
+        );
+    }
+}
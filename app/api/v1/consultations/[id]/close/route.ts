@@ -4,7 +4,7 @@
  * POST /api/v1/consultations/:id/close
  *
  * Allows doctors to end a consultation, marking it as COMPLETED
- * and deleting the Daily room to kick all participants.
+ * and deleting the video room to kick all participants.
  */
 
 import { NextRequest } from "next/server";
@@ -15,7 +15,11 @@ import {
     requireAuth,
     ErrorCodes,
 } from "@/lib/api-utils";
-import { deleteRoom } from "@/lib/daily";
+import {
+    InvalidTransitionError,
+    TransitionConflictError,
+    transitionConsultation,
+} from "@/lib/consultation-transitions";
 import { ConsultationStatus, UserRole } from "@/app/generated/prisma/client";
 
 interface RouteParams {
@@ -51,12 +55,9 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
     }
 
     try {
-        // Fetch consultation with video session
+        // Fetch consultation
         const consultation = await prisma.consultation.findUnique({
             where: { id: consultationId },
-            include: {
-                videoSession: true,
-            },
         });
 
         if (!consultation) {
@@ -75,64 +76,22 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
             );
         }
 
-        // Update consultation status to COMPLETED atomically
-        // Using updateMany with status condition to prevent race conditions
-        const result = await prisma.$transaction(async (tx) => {
-            const updateResult = await tx.consultation.updateMany({
-                where: {
-                    id: consultationId,
-                    status: ConsultationStatus.IN_CALL,
-                },
-                data: {
-                    status: ConsultationStatus.COMPLETED,
-                    endedAt: new Date(),
-                },
-            });
-
-            // Check if any rows were updated
-            if (updateResult.count === 0) {
-                throw new Error('STATUS_MISMATCH');
-            }
-
-            // Fetch the updated consultation for response
-            const updated = await tx.consultation.findUnique({
-                where: { id: consultationId },
-            });
-
-            // Create audit event after confirming update succeeded
-            await tx.auditEvent.create({
-                data: {
-                    actorUserId: user.id,
-                    consultationId: consultationId,
-                    eventType: "CONSULTATION_CLOSED",
-                    eventMetadata: {
-                        from: ConsultationStatus.IN_CALL,
-                        to: ConsultationStatus.COMPLETED,
-                        closedBy: user.role,
-                    },
-                },
-            });
-
-            return updated;
+        // Guarded on IN_CALL, so a concurrent close or expiry is reported as a mismatch;
+        // the transition hooks end the video session and delete the video room
+        const transition = await transitionConsultation(consultation, ConsultationStatus.COMPLETED, {
+            actor: user,
+            eventType: "CONSULTATION_CLOSED",
+            metadata: { closedBy: user.role },
         });
-
-        // Delete the Daily room to kick all participants
-        if (consultation.videoSession?.roomName) {
-            try {
-                await deleteRoom(consultation.videoSession.roomName);
-            } catch (roomError) {
-                // Log but don't fail - room deletion is best effort
-                console.error("Failed to delete Daily room:", roomError);
-            }
-        }
+        const result = transition.updated;
 
         return successResponse({
             ...result,
             message: "Consultation ended successfully",
         });
     } catch (error) {
-        // Handle STATUS_MISMATCH from transaction
-        if (error instanceof Error && error.message === 'STATUS_MISMATCH') {
+        // Not IN_CALL, or no longer IN_CALL by the time the update landed
+        if (error instanceof InvalidTransitionError || error instanceof TransitionConflictError) {
             return errorResponse(
                 ErrorCodes.INVALID_STATUS_TRANSITION,
                 "Cannot close consultation: status is not IN_CALL. The consultation may have already been closed or its status changed.",
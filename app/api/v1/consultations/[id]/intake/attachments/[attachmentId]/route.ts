@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+    errorResponse,
+    successResponse,
+    requireAuth,
+    ErrorCodes,
+} from "@/lib/api-utils";
+import { getStorageBackend } from "@/lib/storage";
+import { ATTACHMENT_UPLOAD_STATUSES } from "@/lib/intake-attachments";
+
+interface RouteParams {
+    params: Promise<{ id: string; attachmentId: string }>;
+}
+
+/**
+ * DELETE /api/v1/consultations/:id/intake/attachments/:attachmentId
+ * Removes an attachment and its stored file (patient only, until the call ends).
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const user = session.user;
+    const { id: consultationId, attachmentId } = await params;
+
+    try {
+        const attachment = await prisma.intakeAttachment.findFirst({
+            where: { id: attachmentId, intake: { consultationId } },
+            include: { intake: { select: { consultation: { select: { patientId: true, status: true } } } } },
+        });
+
+        if (!attachment) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Attachment not found", 404);
+        }
+
+        const { consultation } = attachment.intake;
+        if (consultation.patientId !== user.id) {
+            return errorResponse(ErrorCodes.FORBIDDEN, "Only the consultation owner can remove attachments", 403);
+        }
+        if (!ATTACHMENT_UPLOAD_STATUSES.includes(consultation.status)) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                `Cannot remove attachments from a consultation in ${consultation.status} status`,
+                400,
+                { currentStatus: consultation.status, allowedStatuses: ATTACHMENT_UPLOAD_STATUSES }
+            );
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.intakeAttachment.delete({ where: { id: attachment.id } });
+
+            await tx.auditEvent.create({
+                data: {
+                    actorUserId: user.id,
+                    consultationId,
+                    eventType: "INTAKE_ATTACHMENT_DELETED",
+                    eventMetadata: { attachmentId: attachment.id },
+                },
+            });
+        });
+
+        // The record is gone, so a file left behind can no longer be downloaded
+        await getStorageBackend(attachment.storageBackend)
+            .delete(attachment.storageKey)
+            .catch((error) => console.error("Failed to remove stored attachment:", error));
+
+        return successResponse({ id: attachment.id, deleted: true });
+    } catch (error) {
+        console.error("Error deleting intake attachment:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to delete attachment", 500);
+    }
+}
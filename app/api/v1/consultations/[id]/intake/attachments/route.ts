@@ -0,0 +1,211 @@
+/**
+ * Intake Attachments API Routes
+ *
+ * GET /api/v1/consultations/:id/intake/attachments - List attachments with short-lived download links
+ * POST /api/v1/consultations/:id/intake/attachments - Upload a photo or PDF (multipart `file`, patient only)
+ *
+ * See lib/intake-attachments.ts for the accepted files and how links are signed.
+ */
+
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+    errorResponse,
+    successResponse,
+    requireAuth,
+    ErrorCodes,
+} from "@/lib/api-utils";
+import { MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS_PER_INTAKE } from "@/lib/constants";
+import {
+    ATTACHMENT_UPLOAD_STATUSES,
+    AttachmentLimitError,
+    attachmentResponse,
+    canViewAttachments,
+    prepareAttachment,
+    saveIntakeAttachment,
+} from "@/lib/intake-attachments";
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// Room for the multipart boundaries and headers around the file
+const MAX_REQUEST_BYTES = MAX_ATTACHMENT_BYTES + 64 * 1024;
+
+/**
+ * Read the request body, or return null as soon as it grows past `limit`
+ * bytes. Content-Length can be missing or wrong, so the body is counted as it
+ * arrives instead of letting formData() buffer all of it.
+ */
+async function readBody(request: NextRequest, limit: number): Promise<Uint8Array<ArrayBuffer> | null> {
+    if (!request.body) return new Uint8Array();
+
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.byteLength;
+        if (size > limit) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+    return new Uint8Array(Buffer.concat(chunks));
+}
+
+/**
+ * GET /api/v1/consultations/:id/intake/attachments
+ * For the patient, the assigned doctor and admins. Each attachment comes with a
+ * download link that works for a few minutes; list again for fresh links.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const { id: consultationId } = await params;
+
+    try {
+        const consultation = await prisma.consultation.findUnique({
+            where: { id: consultationId },
+            select: {
+                patientId: true,
+                doctorId: true,
+                patientIntake: {
+                    select: { attachments: { orderBy: { createdAt: "asc" } } },
+                },
+            },
+        });
+
+        if (!consultation) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Consultation not found", 404);
+        }
+        if (!canViewAttachments(consultation, session.user)) {
+            return errorResponse(ErrorCodes.FORBIDDEN, "Access denied", 403);
+        }
+
+        const now = Date.now();
+        return successResponse({
+            attachments: (consultation.patientIntake?.attachments ?? []).map((attachment) =>
+                attachmentResponse(attachment, now)
+            ),
+        });
+    } catch (error) {
+        console.error("Error listing intake attachments:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to list attachments", 500);
+    }
+}
+
+/**
+ * POST /api/v1/consultations/:id/intake/attachments
+ * Adds a file to the patient's intake. Images are stored without their metadata.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const user = session.user;
+    const { id: consultationId } = await params;
+
+    const tooLarge = () =>
+        errorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            `Files can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`,
+            413,
+            { field: "file" }
+        );
+    if (Number(request.headers.get("content-length") ?? 0) > MAX_REQUEST_BYTES) {
+        return tooLarge();
+    }
+
+    const body = await readBody(request, MAX_REQUEST_BYTES);
+    if (!body) {
+        return tooLarge();
+    }
+
+    let file: FormDataEntryValue | null;
+    try {
+        const form = await new Response(body, {
+            headers: { "Content-Type": request.headers.get("content-type") ?? "" },
+        }).formData();
+        file = form.get("file");
+    } catch {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "Expected a multipart/form-data upload", 400);
+    }
+    if (!(file instanceof File)) {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "A file is required", 400, { field: "file" });
+    }
+
+    try {
+        const consultation = await prisma.consultation.findUnique({
+            where: { id: consultationId },
+            select: {
+                patientId: true,
+                status: true,
+                patientIntake: {
+                    select: { id: true, _count: { select: { attachments: true } } },
+                },
+            },
+        });
+
+        if (!consultation) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Consultation not found", 404);
+        }
+        if (consultation.patientId !== user.id) {
+            return errorResponse(ErrorCodes.FORBIDDEN, "Only the consultation owner can attach files", 403);
+        }
+        if (!ATTACHMENT_UPLOAD_STATUSES.includes(consultation.status)) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                `Cannot attach files to a consultation in ${consultation.status} status`,
+                400,
+                { currentStatus: consultation.status, allowedStatuses: ATTACHMENT_UPLOAD_STATUSES }
+            );
+        }
+
+        const intake = consultation.patientIntake;
+        if (!intake) {
+            return errorResponse(ErrorCodes.CONFLICT, "Submit the intake before attaching files", 409);
+        }
+        // Checked again when the attachment is recorded (saveIntakeAttachment)
+        if (intake._count.attachments >= MAX_ATTACHMENTS_PER_INTAKE) {
+            return errorResponse(ErrorCodes.CONFLICT, new AttachmentLimitError().message, 409);
+        }
+
+        const prepared = prepareAttachment({
+            fileName: file.name,
+            contentType: file.type,
+            data: Buffer.from(await file.arrayBuffer()),
+        });
+        if (!prepared.data) {
+            return errorResponse(ErrorCodes.VALIDATION_ERROR, prepared.error, 400, { field: prepared.field });
+        }
+
+        const attachment = await saveIntakeAttachment(intake.id, prepared.data);
+
+        await prisma.auditEvent.create({
+            data: {
+                actorUserId: user.id,
+                consultationId,
+                eventType: "INTAKE_ATTACHMENT_UPLOADED",
+                eventMetadata: {
+                    attachmentId: attachment.id,
+                    contentType: attachment.contentType,
+                    sizeBytes: attachment.sizeBytes,
+                },
+            },
+        });
+
+        return successResponse(attachmentResponse(attachment), 201);
+    } catch (error) {
+        if (error instanceof AttachmentLimitError) {
+            return errorResponse(ErrorCodes.CONFLICT, error.message, 409);
+        }
+        console.error("Error uploading intake attachment:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to upload attachment", 500);
+    }
+}
@@ -2,6 +2,12 @@
  * Patient Intake API Route
  * 
  * POST /api/v1/consultations/:id/intake - Submit patient intake form
+ *
+ * Intakes copy the patient's health profile (lib/health-profile.ts); a
+ * `healthProfile` object in the body corrects it for this consultation, and
+ * `saveToProfile: true` saves the corrections back to the profile.
+ * Specialties with a questionnaire (lib/questionnaires.ts) also need its
+ * answers in `questionnaire`; they are validated and scored here.
  */
 
 import { NextRequest } from 'next/server';
@@ -15,6 +21,12 @@ import {
   type AgeRange,
 } from '@/lib/api-utils';
 import { ConsultationStatus } from '@/app/generated/prisma/client';
+import {
+  resolveIntakeHealthHistory,
+  saveIntakeToHealthProfile,
+  validateIntakeHealthHistory,
+} from '@/lib/health-profile';
+import { buildQuestionnaireResponse } from '@/lib/questionnaires';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -49,6 +61,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     ageRange?: string;
     chiefComplaint?: string;
     consentAccepted?: boolean;
+    healthProfile?: unknown;
+    saveToProfile?: boolean;
+    questionnaire?: unknown;
   };
   try {
     body = await request.json();
@@ -89,6 +104,16 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     );
   }
 
+  const intakeHistory = validateIntakeHealthHistory(body.healthProfile);
+  if (!intakeHistory.data) {
+    return errorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      intakeHistory.error,
+      400,
+      { field: intakeHistory.field }
+    );
+  }
+
   try {
     // Fetch consultation
     const consultation = await prisma.consultation.findUnique({
@@ -133,15 +158,38 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    const questionnaire = buildQuestionnaireResponse(consultation.specialty, body.questionnaire);
+    if (questionnaire.error !== undefined) {
+      return errorResponse(
+        ErrorCodes.VALIDATION_ERROR,
+        questionnaire.error,
+        400,
+        { field: `questionnaire.${questionnaire.field}` }
+      );
+    }
+
+    const healthHistory = await resolveIntakeHealthHistory(user.id, intakeHistory.data);
+    const nameOrAlias = body.nameOrAlias.trim();
+
     // Create patient intake
-    const intake = await prisma.patientIntake.create({
-      data: {
-        consultationId: id,
-        nameOrAlias: body.nameOrAlias.trim(),
-        ageRange: body.ageRange ?? null,
-        chiefComplaint: body.chiefComplaint ?? null,
-        consentAcceptedAt: new Date(),
-      },
+    const intake = await prisma.$transaction(async (tx) => {
+      const created = await tx.patientIntake.create({
+        data: {
+          consultationId: id,
+          nameOrAlias,
+          ageRange: body.ageRange ?? null,
+          chiefComplaint: body.chiefComplaint ?? null,
+          consentAcceptedAt: new Date(),
+          ...healthHistory,
+          questionnaire: questionnaire.data ?? undefined,
+        },
+      });
+
+      if (body.saveToProfile === true) {
+        await saveIntakeToHealthProfile(tx, user.id, { nameOrAlias, ageRange: body.ageRange, ...healthHistory });
+      }
+
+      return created;
     });
 
     return successResponse(intake, 201);
@@ -176,6 +224,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     ageRange?: string;
     chiefComplaint?: string;
     consentAccepted?: boolean;
+    healthProfile?: unknown;
+    saveToProfile?: boolean;
+    questionnaire?: unknown;
   };
   try {
     body = await request.json();
@@ -216,6 +267,16 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     );
   }
 
+  const intakeHistory = validateIntakeHealthHistory(body.healthProfile);
+  if (!intakeHistory.data) {
+    return errorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      intakeHistory.error,
+      400,
+      { field: intakeHistory.field }
+    );
+  }
+
   try {
     // Fetch consultation
     const consultation = await prisma.consultation.findUnique({
@@ -249,21 +310,46 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Upsert patient intake
-    const intake = await prisma.patientIntake.upsert({
-      where: { consultationId: id },
-      create: {
-        consultationId: id,
-        nameOrAlias: body.nameOrAlias.trim(),
-        ageRange: body.ageRange ?? null,
-        chiefComplaint: body.chiefComplaint ?? null,
-        consentAcceptedAt: new Date(),
-      },
-      update: {
-        nameOrAlias: body.nameOrAlias.trim(),
-        ageRange: body.ageRange ?? null,
-        chiefComplaint: body.chiefComplaint ?? null,
-      },
+    const questionnaire = buildQuestionnaireResponse(consultation.specialty, body.questionnaire);
+    if (questionnaire.error !== undefined) {
+      return errorResponse(
+        ErrorCodes.VALIDATION_ERROR,
+        questionnaire.error,
+        400,
+        { field: `questionnaire.${questionnaire.field}` }
+      );
+    }
+
+    const healthHistory = await resolveIntakeHealthHistory(user.id, intakeHistory.data);
+    const nameOrAlias = body.nameOrAlias.trim();
+
+    // Upsert patient intake; an existing snapshot only takes the corrections
+    const intake = await prisma.$transaction(async (tx) => {
+      const saved = await tx.patientIntake.upsert({
+        where: { consultationId: id },
+        create: {
+          consultationId: id,
+          nameOrAlias,
+          ageRange: body.ageRange ?? null,
+          chiefComplaint: body.chiefComplaint ?? null,
+          consentAcceptedAt: new Date(),
+          ...healthHistory,
+          questionnaire: questionnaire.data ?? undefined,
+        },
+        update: {
+          nameOrAlias,
+          ageRange: body.ageRange ?? null,
+          chiefComplaint: body.chiefComplaint ?? null,
+          ...intakeHistory.data,
+          questionnaire: questionnaire.data ?? undefined,
+        },
+      });
+
+      if (body.saveToProfile === true) {
+        await saveIntakeToHealthProfile(tx, user.id, { nameOrAlias, ageRange: body.ageRange, ...healthHistory });
+      }
+
+      return saved;
     });
 
     return successResponse(intake);
@@ -4,12 +4,12 @@
  * POST /api/v1/consultations/:id/join
  *
  * Generates a video call join URL for a consultation.
- * Creates Daily room on first join (lazy creation) and validates time windows.
+ * Creates the video room on first join (lazy creation) and validates time windows.
  */
 
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { createMeetingToken, createRoom, deleteRoom } from "@/lib/daily";
+import { getVideoProvider } from "@/lib/video-provider";
 import {
   errorResponse,
   successResponse,
@@ -17,13 +17,17 @@ import {
   ErrorCodes,
 } from "@/lib/api-utils";
 import { ConsultationStatus, UserRole } from "@/app/generated/prisma/client";
+import { EARLY_JOIN_WINDOW, getCallLifetimeMinutes, getLateJoinWindow } from "@/lib/consultation-utils";
+import { getConsultationDurationMinutes } from "@/lib/appointment-duration";
+import {
+  applyConsultationTransition,
+  runConsultationTransitionHooks,
+  TransitionConflictError,
+  type ConsultationTransition,
+} from "@/lib/consultation-transitions";
 
 // Time window constants (in minutes)
-const EARLY_JOIN_WINDOW_MINUTES = 5;
-const LATE_JOIN_WINDOW_MINUTES = 30;
-
-// Token expiry (in minutes)
-const TOKEN_EXPIRY_MINUTES = 30;
+const EARLY_JOIN_WINDOW_MINUTES = EARLY_JOIN_WINDOW / 60000;
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -91,13 +95,14 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Validate time window
+    const durationMinutes = getConsultationDurationMinutes(consultation);
+    const now = Date.now();
+
+    // Validate time window (5 minutes early until the scheduled end)
     if (consultation.scheduledStartAt) {
-      const now = Date.now();
       const scheduledTime = consultation.scheduledStartAt.getTime();
-      const earlyBoundary =
-        scheduledTime - EARLY_JOIN_WINDOW_MINUTES * 60 * 1000;
-      const lateBoundary = scheduledTime + LATE_JOIN_WINDOW_MINUTES * 60 * 1000;
+      const earlyBoundary = scheduledTime - EARLY_JOIN_WINDOW;
+      const lateBoundary = scheduledTime + getLateJoinWindow(consultation);
 
       if (now < earlyBoundary) {
         const minutesUntilOpen = Math.ceil((earlyBoundary - now) / 60000);
@@ -115,7 +120,7 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
       if (now > lateBoundary) {
         return errorResponse(
           ErrorCodes.VALIDATION_ERROR,
-          `Too late to join. The join window closed ${LATE_JOIN_WINDOW_MINUTES} minutes after the scheduled time.`,
+          `Too late to join. The join window closed at the end of the ${durationMinutes} minute appointment.`,
           400,
           {
             scheduledAt: consultation.scheduledStartAt,
@@ -125,13 +130,21 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
       }
     }
 
+    // Room, token and expiresAt all last until the scheduled end (plus a
+    // short grace), however early or late in the window this join is
+    const lifetimeMinutes = getCallLifetimeMinutes(consultation, now);
+
     // Get or create video session
     let videoSession = consultation.videoSession;
+    // Existing rooms stay with the provider that created them
+    const videoProvider = getVideoProvider(videoSession?.provider);
 
     if (!videoSession) {
-      // Create Daily room
+      let transition: ConsultationTransition | null = null;
+
+      // Create the video room
       const roomName = `consult_${consultationId}_${Date.now()}`;
-      const room = await createRoom(roomName, TOKEN_EXPIRY_MINUTES);
+      const room = await videoProvider.createRoom(roomName, lifetimeMinutes);
 
       try {
         // Save video session + update consultation atomically
@@ -139,53 +152,60 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
           const createdSession = await tx.videoSession.create({
             data: {
               consultationId,
-              provider: "DAILY",
+              provider: videoProvider.name,
               roomName: room.name,
               roomUrl: room.url,
             },
           });
 
-          await tx.consultation.update({
-            where: { id: consultationId },
-            data: {
-              status: ConsultationStatus.IN_CALL,
-              startedAt: new Date(),
-            },
-          });
+          // The first join starts the call
+          if (consultation.status === ConsultationStatus.PAID) {
+            transition = await applyConsultationTransition(
+              tx,
+              consultation,
+              ConsultationStatus.IN_CALL,
+              { actor: user }
+            );
+          }
 
           return createdSession;
         });
       } catch (err) {
-        // DB transaction failed; clean up created Daily room to avoid orphans.
+        // DB transaction failed; clean up created video room to avoid orphans.
         try {
-          await deleteRoom(room.name);
+          await videoProvider.deleteRoom(room.name);
         } catch (cleanupErr) {
           console.error(
-            "Failed to delete Daily room after transaction failure:",
+            "Failed to delete video room after transaction failure:",
             cleanupErr
           );
         }
 
         console.error(
-          "Failed to persist video session / consultation update; Daily room cleaned up:",
+          "Failed to persist video session / consultation update; video room cleaned up:",
           err
         );
         throw err;
       }
+
+      if (transition) {
+        await runConsultationTransitionHooks(transition);
+      }
     }
 
     // Determine if user is owner (doctor or admin gets owner privileges)
     const isOwner = isDoctor || isAdmin;
 
     // Generate meeting token
-    const token = await createMeetingToken(
+    const token = await videoProvider.createMeetingToken(
       videoSession.roomName,
       user.id,
-      isOwner
+      isOwner,
+      lifetimeMinutes
     );
 
     // Calculate token expiry
-    const expiresAt = new Date(Date.now() + TOKEN_EXPIRY_MINUTES * 60 * 1000);
+    const expiresAt = new Date(now + lifetimeMinutes * 60 * 1000);
 
     // Create audit event
     await prisma.auditEvent.create({
@@ -201,8 +221,8 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
       },
     });
 
-    // Build join URL (Daily Prebuilt URL with token)
-    const joinUrl = `${videoSession.roomUrl}?t=${token}`;
+    // Build join URL (room URL carrying the token)
+    const joinUrl = videoProvider.buildJoinUrl(videoSession.roomUrl, token);
 
     return successResponse({
       joinUrl,
@@ -213,6 +233,15 @@ export async function POST(_request: NextRequest, { params }: RouteParams) {
       isDoctor,
     });
   } catch (error) {
+    // Cancelled or expired between the status check and starting the call
+    if (error instanceof TransitionConflictError) {
+      return errorResponse(
+        ErrorCodes.CONFLICT,
+        "Consultation status changed while joining. Please refresh and try again.",
+        409
+      );
+    }
+
     console.error("Error joining consultation:", error);
     return errorResponse(
       ErrorCodes.INTERNAL_ERROR,
@@ -0,0 +1,103 @@
+/**
+ * Clinical Note Amendments API Route
+ *
+ * POST /api/v1/consultations/:id/notes/:noteId/amendments
+ *
+ * Appends a correction or addition to a signed note. The signed text is left
+ * as it was; amendments are shown after it in order.
+ */
+
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+    errorResponse,
+    successResponse,
+    requireAuth,
+    ErrorCodes,
+} from "@/lib/api-utils";
+import { ClinicalNoteStatus } from "@/app/generated/prisma/client";
+import { clinicalNoteInclude, validateAmendmentInput } from "@/lib/clinical-notes";
+
+interface RouteParams {
+    params: Promise<{ id: string; noteId: string }>;
+}
+
+/**
+ * POST /api/v1/consultations/:id/notes/:noteId/amendments
+ * Body: { reason: string, content: string, diagnosisCodes?: string[] }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const user = session.user;
+    const { id: consultationId, noteId } = await params;
+
+    let body: Record<string, unknown> | null;
+    try {
+        body = await request.json();
+    } catch {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+    }
+
+    const validated = validateAmendmentInput(body ?? {});
+    if (!validated.data) {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, validated.error, 400, { field: validated.field });
+    }
+    const input = validated.data;
+
+    try {
+        const note = await prisma.clinicalNote.findFirst({
+            where: { id: noteId, consultationId },
+            include: { consultation: { select: { doctorId: true } } },
+        });
+
+        if (!note) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Clinical note not found", 404);
+        }
+
+        // The consultation's doctor, who may not be the original author after a reassignment
+        if (note.consultation.doctorId !== user.id) {
+            return errorResponse(
+                ErrorCodes.FORBIDDEN,
+                "Only the assigned doctor can amend this note",
+                403
+            );
+        }
+
+        if (note.status !== ClinicalNoteStatus.SIGNED) {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                "Only signed notes can be amended; edit the draft instead",
+                409,
+                { status: note.status }
+            );
+        }
+
+        const amended = await prisma.$transaction(async (tx) => {
+            const amendment = await tx.clinicalNoteAmendment.create({
+                data: { ...input, noteId, authorId: user.id },
+            });
+
+            await tx.auditEvent.create({
+                data: {
+                    actorUserId: user.id,
+                    consultationId,
+                    eventType: "CLINICAL_NOTE_AMENDED",
+                    eventMetadata: { noteId, amendmentId: amendment.id, reason: input.reason },
+                },
+            });
+
+            return tx.clinicalNote.findUnique({
+                where: { id: noteId },
+                include: clinicalNoteInclude,
+            });
+        });
+
+        return successResponse(amended, 201);
+    } catch (error) {
+        console.error("Error amending clinical note:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to amend clinical note", 500);
+    }
+}
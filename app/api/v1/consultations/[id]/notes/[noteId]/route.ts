@@ -0,0 +1,100 @@
+/**
+ * Clinical Note API Route
+ *
+ * PATCH /api/v1/consultations/:id/notes/:noteId
+ *
+ * Updates a draft note. Only its author can edit it, and only until it is
+ * signed; signed notes are changed through amendments.
+ */
+
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+    errorResponse,
+    successResponse,
+    requireAuth,
+    ErrorCodes,
+} from "@/lib/api-utils";
+import { ClinicalNoteStatus } from "@/app/generated/prisma/client";
+import { clinicalNoteInclude, validateClinicalNoteInput } from "@/lib/clinical-notes";
+
+interface RouteParams {
+    params: Promise<{ id: string; noteId: string }>;
+}
+
+/**
+ * PATCH /api/v1/consultations/:id/notes/:noteId
+ * Body: { subjective?, objective?, assessment?, plan?, diagnosisCodes?: string[] }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const user = session.user;
+    const { id: consultationId, noteId } = await params;
+
+    let body: Record<string, unknown> | null;
+    try {
+        body = await request.json();
+    } catch {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+    }
+
+    const validated = validateClinicalNoteInput(body ?? {});
+    if (!validated.data) {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, validated.error, 400, { field: validated.field });
+    }
+    const input = validated.data;
+
+    try {
+        const note = await prisma.clinicalNote.findFirst({
+            where: { id: noteId, consultationId },
+        });
+
+        if (!note) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Clinical note not found", 404);
+        }
+
+        if (note.authorId !== user.id) {
+            return errorResponse(ErrorCodes.FORBIDDEN, "Only the author can edit this note", 403);
+        }
+
+        const updated = await prisma.$transaction(async (tx) => {
+            // Guarded on DRAFT so an edit racing a signature cannot change the signed note
+            const { count } = await tx.clinicalNote.updateMany({
+                where: { id: noteId, status: ClinicalNoteStatus.DRAFT },
+                data: input,
+            });
+            if (count === 0) return null;
+
+            await tx.auditEvent.create({
+                data: {
+                    actorUserId: user.id,
+                    consultationId,
+                    eventType: "CLINICAL_NOTE_UPDATED",
+                    eventMetadata: { noteId, fields: Object.keys(input) },
+                },
+            });
+
+            return tx.clinicalNote.findUnique({
+                where: { id: noteId },
+                include: clinicalNoteInclude,
+            });
+        });
+
+        if (!updated) {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                "Signed notes cannot be edited; add an amendment instead",
+                409,
+                { status: ClinicalNoteStatus.SIGNED }
+            );
+        }
+
+        return successResponse(updated);
+    } catch (error) {
+        console.error("Error updating clinical note:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to update clinical note", 500);
+    }
+}
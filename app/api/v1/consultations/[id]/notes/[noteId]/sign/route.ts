@@ -0,0 +1,97 @@
+/**
+ * Clinical Note Signing API Route
+ *
+ * POST /api/v1/consultations/:id/notes/:noteId/sign
+ *
+ * The author signs a draft once it has an assessment and a plan. Signed notes
+ * are immutable.
+ */
+
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+    errorResponse,
+    successResponse,
+    requireAuth,
+    ErrorCodes,
+} from "@/lib/api-utils";
+import { ClinicalNoteStatus } from "@/app/generated/prisma/client";
+import { clinicalNoteInclude, missingSectionToSign } from "@/lib/clinical-notes";
+
+interface RouteParams {
+    params: Promise<{ id: string; noteId: string }>;
+}
+
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const user = session.user;
+    const { id: consultationId, noteId } = await params;
+
+    try {
+        const note = await prisma.clinicalNote.findFirst({
+            where: { id: noteId, consultationId },
+        });
+
+        if (!note) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Clinical note not found", 404);
+        }
+
+        if (note.authorId !== user.id) {
+            return errorResponse(ErrorCodes.FORBIDDEN, "Only the author can sign this note", 403);
+        }
+
+        if (note.status === ClinicalNoteStatus.SIGNED) {
+            return errorResponse(ErrorCodes.CONFLICT, "Note is already signed", 409, {
+                status: note.status,
+            });
+        }
+
+        const missing = missingSectionToSign(note);
+        if (missing) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                `${missing} is required before signing`,
+                400,
+                { field: missing }
+            );
+        }
+
+        const signedAt = new Date();
+        const signed = await prisma.$transaction(async (tx) => {
+            // Guarded on DRAFT, so a concurrent signature is reported once
+            const { count } = await tx.clinicalNote.updateMany({
+                where: { id: noteId, status: ClinicalNoteStatus.DRAFT },
+                data: { status: ClinicalNoteStatus.SIGNED, signedAt },
+            });
+            if (count === 0) return null;
+
+            await tx.auditEvent.create({
+                data: {
+                    actorUserId: user.id,
+                    consultationId,
+                    eventType: "CLINICAL_NOTE_SIGNED",
+                    eventMetadata: { noteId, diagnosisCodes: note.diagnosisCodes },
+                },
+            });
+
+            return tx.clinicalNote.findUnique({
+                where: { id: noteId },
+                include: clinicalNoteInclude,
+            });
+        });
+
+        if (!signed) {
+            return errorResponse(ErrorCodes.CONFLICT, "Note is already signed", 409, {
+                status: ClinicalNoteStatus.SIGNED,
+            });
+        }
+
+        return successResponse(signed);
+    } catch (error) {
+        console.error("Error signing clinical note:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to sign clinical note", 500);
+    }
+}
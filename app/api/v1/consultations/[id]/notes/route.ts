@@ -0,0 +1,155 @@
+/**
+ * Clinical Notes API Routes
+ *
+ * GET /api/v1/consultations/:id/notes - List the consultation's notes with their amendments
+ * POST /api/v1/consultations/:id/notes - Start a draft SOAP note (assigned doctor only)
+ *
+ * See lib/clinical-notes.ts for the draft / signed / amendment lifecycle.
+ */
+
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+    errorResponse,
+    successResponse,
+    requireAuth,
+    ErrorCodes,
+} from "@/lib/api-utils";
+import { ClinicalNoteStatus, UserRole } from "@/app/generated/prisma/client";
+import {
+    NOTE_CONSULTATION_STATUSES,
+    clinicalNoteInclude,
+    noteVisibility,
+    validateClinicalNoteInput,
+} from "@/lib/clinical-notes";
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/v1/consultations/:id/notes
+ * The assigned doctor and admins see drafts too; the patient sees signed notes only.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const { id: consultationId } = await params;
+
+    try {
+        const consultation = await prisma.consultation.findUnique({
+            where: { id: consultationId },
+            select: { id: true, patientId: true, doctorId: true },
+        });
+
+        if (!consultation) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Consultation not found", 404);
+        }
+
+        const visibility = noteVisibility(consultation, session.user);
+        if (!visibility) {
+            return errorResponse(ErrorCodes.FORBIDDEN, "Access denied", 403);
+        }
+
+        const notes = await prisma.clinicalNote.findMany({
+            where: {
+                consultationId,
+                ...(visibility === "SIGNED" ? { status: ClinicalNoteStatus.SIGNED } : {}),
+            },
+            include: clinicalNoteInclude,
+            orderBy: { createdAt: "asc" },
+        });
+
+        return successResponse({ notes });
+    } catch (error) {
+        console.error("Error fetching clinical notes:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to fetch clinical notes", 500);
+    }
+}
+
+/**
+ * POST /api/v1/consultations/:id/notes
+ * Body: { subjective?, objective?, assessment?, plan?, diagnosisCodes?: string[] }
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const user = session.user;
+    const { id: consultationId } = await params;
+
+    if (user.role !== UserRole.DOCTOR) {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Only doctors can write clinical notes", 403);
+    }
+
+    let body: Record<string, unknown> | null;
+    try {
+        body = await request.json();
+    } catch {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+    }
+
+    const validated = validateClinicalNoteInput(body ?? {});
+    if (!validated.data) {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, validated.error, 400, { field: validated.field });
+    }
+    const input = validated.data;
+
+    try {
+        const consultation = await prisma.consultation.findUnique({
+            where: { id: consultationId },
+        });
+
+        if (!consultation) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Consultation not found", 404);
+        }
+
+        if (consultation.doctorId !== user.id) {
+            return errorResponse(
+                ErrorCodes.FORBIDDEN,
+                "Only the assigned doctor can document this consultation",
+                403
+            );
+        }
+
+        if (!NOTE_CONSULTATION_STATUSES.includes(consultation.status)) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                `Cannot document a consultation in ${consultation.status} status`,
+                400,
+                { currentStatus: consultation.status, allowedStatuses: NOTE_CONSULTATION_STATUSES }
+            );
+        }
+
+        const note = await prisma.$transaction(async (tx) => {
+            const created = await tx.clinicalNote.create({
+                data: {
+                    ...input,
+                    diagnosisCodes: input.diagnosisCodes ?? [],
+                    consultationId,
+                    authorId: user.id,
+                },
+                include: clinicalNoteInclude,
+            });
+
+            await tx.auditEvent.create({
+                data: {
+                    actorUserId: user.id,
+                    consultationId,
+                    eventType: "CLINICAL_NOTE_CREATED",
+                    eventMetadata: { noteId: created.id },
+                },
+            });
+
+            return created;
+        });
+
+        return successResponse(note, 201);
+    } catch (error) {
+        console.error("Error creating clinical note:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to create clinical note", 500);
+    }
+}
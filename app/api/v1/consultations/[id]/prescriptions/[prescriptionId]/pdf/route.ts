@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, errorResponse, ErrorCodes } from "@/lib/api-utils";
+import { localeFromAcceptLanguage } from "@/lib/currency";
+import { noteVisibility } from "@/lib/clinical-notes";
+import { buildPrescriptionPdf, getPrescriptionForPdf } from "@/lib/prescriptions";
+import { PrescriptionStatus } from "@/app/generated/prisma/client";
+
+/**
+ * GET /api/v1/consultations/[id]/prescriptions/[prescriptionId]/pdf
+ * Downloads a signed prescription for the patient, the assigned doctor or an admin.
+ * Dates are formatted for the Accept-Language locale.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; prescriptionId: string }> }
+) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) {
+        return authResult.errorResponse;
+    }
+    const { session } = authResult;
+    const { id: consultationId, prescriptionId } = await params;
+
+    try {
+        const prescription = await getPrescriptionForPdf(prescriptionId, consultationId);
+
+        if (!prescription) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Prescription not found", 404);
+        }
+
+        const visibility = noteVisibility(
+            { patientId: prescription.patientId, doctorId: prescription.consultation.doctorId },
+            session.user
+        );
+        if (!visibility || (visibility === "SIGNED" && prescription.status !== PrescriptionStatus.SIGNED)) {
+            return errorResponse(ErrorCodes.FORBIDDEN, "Access denied", 403);
+        }
+
+        if (prescription.status !== PrescriptionStatus.SIGNED) {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                "A PDF is only available once the prescription has been signed",
+                409,
+                { status: prescription.status }
+            );
+        }
+
+        const locale = localeFromAcceptLanguage(request.headers.get("accept-language"));
+        const pdf = await buildPrescriptionPdf(prescription, locale);
+
+        return new NextResponse(new Uint8Array(pdf), {
+            status: 200,
+            headers: {
+                "Content-Type": "application/pdf",
+                "Content-Disposition": `attachment; filename="prescription-${prescription.id}.pdf"`,
+                "Cache-Control": "private, no-store",
+            },
+        });
+    } catch (error) {
+        console.error("Prescription PDF error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to generate prescription", 500);
+    }
+}
@@ -0,0 +1,127 @@
+/**
+ * Prescription API Route
+ *
+ * PATCH /api/v1/consultations/:id/prescriptions/:prescriptionId
+ *
+ * Updates a draft prescription. Only its prescriber can edit it, and only
+ * until it is signed. Sending items replaces all of them; the warnings are
+ * checked again either way.
+ */
+
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+    errorResponse,
+    successResponse,
+    requireAuth,
+    ErrorCodes,
+} from "@/lib/api-utils";
+import { PrescriptionStatus } from "@/app/generated/prisma/client";
+import {
+    checkPrescription,
+    prescriptionInclude,
+    validatePrescriptionInput,
+} from "@/lib/prescriptions";
+
+interface RouteParams {
+    params: Promise<{ id: string; prescriptionId: string }>;
+}
+
+/**
+ * PATCH /api/v1/consultations/:id/prescriptions/:prescriptionId
+ * Body: { items?: [...], allergies?: string[] }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const user = session.user;
+    const { id: consultationId, prescriptionId } = await params;
+
+    let body: Record<string, unknown> | null;
+    try {
+        body = await request.json();
+    } catch {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+    }
+
+    const validated = validatePrescriptionInput(body ?? {}, { partial: true });
+    if (!validated.data) {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, validated.error, 400, { field: validated.field });
+    }
+    const input = validated.data;
+
+    try {
+        const prescription = await prisma.prescription.findFirst({
+            where: { id: prescriptionId, consultationId },
+            include: { items: true },
+        });
+
+        if (!prescription) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Prescription not found", 404);
+        }
+
+        if (prescription.prescriberId !== user.id) {
+            return errorResponse(ErrorCodes.FORBIDDEN, "Only the prescriber can edit this prescription", 403);
+        }
+
+        if (prescription.status === PrescriptionStatus.SIGNED) {
+            return errorResponse(ErrorCodes.CONFLICT, "Signed prescriptions cannot be edited", 409, {
+                status: prescription.status,
+            });
+        }
+
+        const items = input.items ?? prescription.items;
+        const allergies = input.allergies ?? prescription.allergies;
+        const warnings = await checkPrescription(items, allergies, prescription.patientId, prescriptionId);
+
+        const updated = await prisma.$transaction(async (tx) => {
+            // Guarded on DRAFT so an edit racing a signature cannot change the signed prescription
+            const { count } = await tx.prescription.updateMany({
+                where: { id: prescriptionId, status: PrescriptionStatus.DRAFT },
+                data: { allergies, warnings },
+            });
+            if (count === 0) return null;
+
+            if (input.items) {
+                await tx.prescriptionItem.deleteMany({ where: { prescriptionId } });
+                await tx.prescriptionItem.createMany({
+                    data: input.items.map((item) => ({ ...item, prescriptionId })),
+                });
+            }
+
+            await tx.auditEvent.create({
+                data: {
+                    actorUserId: user.id,
+                    consultationId,
+                    eventType: "PRESCRIPTION_UPDATED",
+                    eventMetadata: {
+                        prescriptionId,
+                        drugIds: items.map((item) => item.drugId),
+                        warningCount: warnings.length,
+                    },
+                },
+            });
+
+            return tx.prescription.findUnique({
+                where: { id: prescriptionId },
+                include: prescriptionInclude,
+            });
+        });
+
+        if (!updated) {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                "Signed prescriptions cannot be edited",
+                409,
+                { status: PrescriptionStatus.SIGNED }
+            );
+        }
+
+        return successResponse(updated);
+    } catch (error) {
+        console.error("Error updating prescription:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to update prescription", 500);
+    }
+}
@@ -0,0 +1,139 @@
+/**
+ * Prescription Signing API Route
+ *
+ * POST /api/v1/consultations/:id/prescriptions/:prescriptionId/sign
+ *
+ * The prescriber signs a draft. The checks run again first, since the
+ * patient's current medications may have changed; major warnings have to be
+ * acknowledged with { "acknowledgeWarnings": true }. Signing records a hash
+ * of the content, and the prescription cannot change afterwards.
+ */
+
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+    errorResponse,
+    successResponse,
+    requireAuth,
+    ErrorCodes,
+} from "@/lib/api-utils";
+import { PrescriptionStatus } from "@/app/generated/prisma/client";
+import {
+    checkPrescription,
+    hasMajorWarnings,
+    prescriptionInclude,
+    prescriptionSignatureHash,
+} from "@/lib/prescriptions";
+
+interface RouteParams {
+    params: Promise<{ id: string; prescriptionId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const user = session.user;
+    const { id: consultationId, prescriptionId } = await params;
+
+    // Body is optional; only needed to acknowledge warnings
+    let body: { acknowledgeWarnings?: unknown } = {};
+    const rawBody = await request.text();
+    if (rawBody.trim()) {
+        try {
+            body = JSON.parse(rawBody);
+        } catch {
+            return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+        }
+    }
+    const acknowledged = body.acknowledgeWarnings === true;
+
+    try {
+        const prescription = await prisma.prescription.findFirst({
+            where: { id: prescriptionId, consultationId },
+            include: { items: true },
+        });
+
+        if (!prescription) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Prescription not found", 404);
+        }
+
+        if (prescription.prescriberId !== user.id) {
+            return errorResponse(ErrorCodes.FORBIDDEN, "Only the prescriber can sign this prescription", 403);
+        }
+
+        if (prescription.status === PrescriptionStatus.SIGNED) {
+            return errorResponse(ErrorCodes.CONFLICT, "Prescription is already signed", 409, {
+                status: prescription.status,
+            });
+        }
+
+        const warnings = await checkPrescription(
+            prescription.items,
+            prescription.allergies,
+            prescription.patientId,
+            prescriptionId
+        );
+        if (hasMajorWarnings(warnings) && !acknowledged) {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                "This prescription has major warnings; review them and sign again with acknowledgeWarnings",
+                409,
+                { warnings }
+            );
+        }
+
+        const signedAt = new Date();
+
+        const signed = await prisma.$transaction(async (tx) => {
+            // Guarded on DRAFT, so a concurrent signature is reported once; an
+            // edit racing the signature waits for this row and then finds it signed
+            const { count } = await tx.prescription.updateMany({
+                where: { id: prescriptionId, status: PrescriptionStatus.DRAFT },
+                data: { status: PrescriptionStatus.SIGNED, signedAt, warnings },
+            });
+            if (count === 0) return null;
+
+            // Hash what is stored now, not what was read before the row was locked
+            const content = await tx.prescription.findUnique({
+                where: { id: prescriptionId },
+                include: { items: true },
+            });
+            if (!content) return null;
+            const signatureHash = prescriptionSignatureHash({ ...content, signedAt });
+
+            await tx.auditEvent.create({
+                data: {
+                    actorUserId: user.id,
+                    consultationId,
+                    eventType: "PRESCRIPTION_SIGNED",
+                    eventMetadata: {
+                        prescriptionId,
+                        signatureHash,
+                        drugIds: content.items.map((item) => item.drugId),
+                        warnings: warnings.map((warning) => warning.message),
+                        warningsAcknowledged: warnings.length > 0 && acknowledged,
+                    },
+                },
+            });
+
+            return tx.prescription.update({
+                where: { id: prescriptionId },
+                data: { signatureHash },
+                include: prescriptionInclude,
+            });
+        });
+
+        if (!signed) {
+            return errorResponse(ErrorCodes.CONFLICT, "Prescription is already signed", 409, {
+                status: PrescriptionStatus.SIGNED,
+            });
+        }
+
+        return successResponse(signed);
+    } catch (error) {
+        console.error("Error signing prescription:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to sign prescription", 500);
+    }
+}
@@ -0,0 +1,177 @@
+/**
+ * Prescriptions API Routes
+ *
+ * GET /api/v1/consultations/:id/prescriptions - List the consultation's prescriptions
+ * POST /api/v1/consultations/:id/prescriptions - Start a draft prescription (assigned doctor only)
+ *
+ * See lib/prescriptions.ts for the draft / signed lifecycle and the checks.
+ */
+
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+    errorResponse,
+    successResponse,
+    requireAuth,
+    ErrorCodes,
+} from "@/lib/api-utils";
+import { PrescriptionStatus, UserRole } from "@/app/generated/prisma/client";
+import { noteVisibility } from "@/lib/clinical-notes";
+import {
+    PRESCRIPTION_CONSULTATION_STATUSES,
+    checkPrescription,
+    prescriptionInclude,
+    validatePrescriptionInput,
+} from "@/lib/prescriptions";
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/v1/consultations/:id/prescriptions
+ * Same access as clinical notes: the assigned doctor and admins see drafts
+ * too, the patient sees signed prescriptions only.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const { id: consultationId } = await params;
+
+    try {
+        const consultation = await prisma.consultation.findUnique({
+            where: { id: consultationId },
+            select: {
+                id: true,
+                patientId: true,
+                doctorId: true,
+                patientIntake: { select: { allergies: true } },
+            },
+        });
+
+        if (!consultation) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Consultation not found", 404);
+        }
+
+        const visibility = noteVisibility(consultation, session.user);
+        if (!visibility) {
+            return errorResponse(ErrorCodes.FORBIDDEN, "Access denied", 403);
+        }
+
+        const prescriptions = await prisma.prescription.findMany({
+            where: {
+                consultationId,
+                ...(visibility === "SIGNED" ? { status: PrescriptionStatus.SIGNED } : {}),
+            },
+            include: prescriptionInclude,
+            orderBy: { createdAt: "asc" },
+        });
+
+        // Allergies from the intake's health profile snapshot, to start new drafts with
+        return successResponse({
+            prescriptions,
+            knownAllergies: consultation.patientIntake?.allergies ?? [],
+        });
+    } catch (error) {
+        console.error("Error fetching prescriptions:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to fetch prescriptions", 500);
+    }
+}
+
+/**
+ * POST /api/v1/consultations/:id/prescriptions
+ * Body: { items: [{ drugId, dose, route?, frequency, quantity, refills?, instructions? }], allergies?: string[] }
+ * allergies defaults to the ones on the consultation's intake.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const user = session.user;
+    const { id: consultationId } = await params;
+
+    if (user.role !== UserRole.DOCTOR) {
+        return errorResponse(ErrorCodes.FORBIDDEN, "Only doctors can write prescriptions", 403);
+    }
+
+    let body: Record<string, unknown> | null;
+    try {
+        body = await request.json();
+    } catch {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+    }
+
+    const validated = validatePrescriptionInput(body ?? {}, { partial: false });
+    if (!validated.data) {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, validated.error, 400, { field: validated.field });
+    }
+    const items = validated.data.items ?? [];
+
+    try {
+        const consultation = await prisma.consultation.findUnique({
+            where: { id: consultationId },
+            include: { patientIntake: { select: { allergies: true } } },
+        });
+
+        if (!consultation) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Consultation not found", 404);
+        }
+
+        if (consultation.doctorId !== user.id) {
+            return errorResponse(
+                ErrorCodes.FORBIDDEN,
+                "Only the assigned doctor can prescribe for this consultation",
+                403
+            );
+        }
+
+        if (!PRESCRIPTION_CONSULTATION_STATUSES.includes(consultation.status)) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                `Cannot prescribe for a consultation in ${consultation.status} status`,
+                400,
+                { currentStatus: consultation.status, allowedStatuses: PRESCRIPTION_CONSULTATION_STATUSES }
+            );
+        }
+
+        const allergies = validated.data.allergies ?? consultation.patientIntake?.allergies ?? [];
+        const warnings = await checkPrescription(items, allergies, consultation.patientId);
+
+        const prescription = await prisma.$transaction(async (tx) => {
+            const created = await tx.prescription.create({
+                data: {
+                    consultationId,
+                    patientId: consultation.patientId,
+                    prescriberId: user.id,
+                    allergies,
+                    warnings,
+                    items: { create: items },
+                },
+                include: prescriptionInclude,
+            });
+
+            await tx.auditEvent.create({
+                data: {
+                    actorUserId: user.id,
+                    consultationId,
+                    eventType: "PRESCRIPTION_CREATED",
+                    eventMetadata: {
+                        prescriptionId: created.id,
+                        drugIds: items.map((item) => item.drugId),
+                        warningCount: warnings.length,
+                    },
+                },
+            });
+
+            return created;
+        });
+
+        return successResponse(prescription, 201);
+    } catch (error) {
+        console.error("Error creating prescription:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to create prescription", 500);
+    }
+}
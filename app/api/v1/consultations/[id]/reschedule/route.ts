@@ -0,0 +1,284 @@
+/**
+ * Consultation Reschedule API Route
+ *
+ * POST /api/v1/consultations/:id/reschedule
+ *
+ * Lets a patient move their consultation to another free slot of the same
+ * doctor. The new slot is checked against the doctor's availability, and the
+ * Redis slot lock (held during checkout) moves along with the booking.
+ */
+
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+    errorResponse,
+    successResponse,
+    requireAuth,
+    ErrorCodes,
+} from "@/lib/api-utils";
+import { UserRole } from "@/app/generated/prisma/client";
+import {
+    getRedis,
+    moveSlotLock,
+    releaseSlotLock,
+    slotLockKey,
+    type SlotLockMoveResult,
+} from "@/lib/redis";
+import { findUnavailableSlots } from "@/lib/booking-conflicts";
+import {
+    getRescheduleMinNoticeHours,
+    meetsMinimumNotice,
+    RESCHEDULABLE_STATUSES,
+    RESCHEDULE_LOCK_TTL_SECONDS,
+} from "@/lib/reschedule";
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const { id: consultationId } = await params;
+
+    // Check authentication
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) return authResult.errorResponse;
+
+    const { session } = authResult;
+    const user = session.user;
+
+    let body: { scheduledStartAt?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+    }
+
+    const newStartAt =
+        typeof body.scheduledStartAt === "string" ? new Date(body.scheduledStartAt) : null;
+    if (!newStartAt || isNaN(newStartAt.getTime())) {
+        return errorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            "scheduledStartAt must be a valid ISO 8601 date",
+            400,
+            { field: "scheduledStartAt" }
+        );
+    }
+
+    try {
+        const consultation = await prisma.consultation.findUnique({
+            where: { id: consultationId },
+            include: {
+                doctor: {
+                    select: {
+                        id: true,
+                        doctorProfile: {
+                            select: { id: true, timezone: true, workingHours: true },
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!consultation) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Consultation not found", 404);
+        }
+
+        // Only the patient who booked (or an admin acting for them)
+        if (consultation.patientId !== user.id && user.role !== UserRole.ADMIN) {
+            return errorResponse(
+                ErrorCodes.FORBIDDEN,
+                "You are not authorized to reschedule this consultation",
+                403
+            );
+        }
+
+        if (!RESCHEDULABLE_STATUSES.includes(consultation.status)) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                `Consultation cannot be rescheduled in ${consultation.status} status`,
+                400,
+                { currentStatus: consultation.status, validStatuses: RESCHEDULABLE_STATUSES }
+            );
+        }
+
+        if (!consultation.doctor || !consultation.scheduledStartAt) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                "Consultation must have an assigned doctor and scheduled time to be rescheduled",
+                400,
+                { field: "scheduledStartAt" }
+            );
+        }
+
+        const oldStartAt = consultation.scheduledStartAt;
+        if (oldStartAt.getTime() === newStartAt.getTime()) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                "Consultation is already scheduled at this time",
+                400,
+                { field: "scheduledStartAt" }
+            );
+        }
+
+        // Minimum notice applies to both the appointment being moved and its new time
+        const minNoticeHours = getRescheduleMinNoticeHours();
+        const now = Date.now();
+        if (!meetsMinimumNotice(oldStartAt, now, minNoticeHours)) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                `Appointments can only be rescheduled at least ${minNoticeHours} hours before they start`,
+                400,
+                { minNoticeHours }
+            );
+        }
+        if (!meetsMinimumNotice(newStartAt, now, minNoticeHours)) {
+            return errorResponse(
+                ErrorCodes.VALIDATION_ERROR,
+                `The new time must be at least ${minNoticeHours} hours from now`,
+                400,
+                { field: "scheduledStartAt", minNoticeHours }
+            );
+        }
+
+        // The booking keeps its length and buffer; only the start moves
+        const [unavailable] = await findUnavailableSlots(
+            consultation.doctor,
+            [newStartAt],
+            {
+                durationMinutes: consultation.durationMinutes,
+                bufferMinutes: consultation.bufferMinutes,
+            },
+            [consultation.id]
+        );
+        if (unavailable) {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                "The selected time is not available. Pick a different slot.",
+                409,
+                {
+                    scheduledStartAt: newStartAt.toISOString(),
+                    reason: unavailable.reason,
+                }
+            );
+        }
+
+        // Move the slot lock before touching the database so a concurrent checkout
+        // for the new slot can't slip in between
+        const oldLockKey = slotLockKey(consultation.doctor.id, oldStartAt.getTime());
+        const newLockKey = slotLockKey(consultation.doctor.id, newStartAt.getTime());
+        const redis = await getRedis();
+        let lockMove: SlotLockMoveResult | null = null;
+
+        if (!redis) {
+            if (process.env.NODE_ENV === "production") {
+                console.error(`[consultations/reschedule] Redis unavailable - failing fast. consultationId=${consultation.id}`);
+                return errorResponse(
+                    ErrorCodes.SERVICE_UNAVAILABLE,
+                    "Rescheduling is temporarily unavailable. Please try again.",
+                    503
+                );
+            }
+            console.warn(`[consultations/reschedule] Redis unavailable - proceeding without slot lock (degraded mode). consultationId=${consultation.id}`);
+        } else {
+            lockMove = await moveSlotLock(
+                redis,
+                oldLockKey,
+                newLockKey,
+                consultation.id,
+                RESCHEDULE_LOCK_TTL_SECONDS
+            );
+            if (lockMove === "TAKEN") {
+                return errorResponse(
+                    ErrorCodes.CONFLICT,
+                    "Slot is currently being paid for. Pick a different slot.",
+                    409,
+                    { scheduledStartAt: newStartAt.toISOString() }
+                );
+            }
+        }
+
+        let updated;
+        try {
+            updated = await prisma.$transaction(async (tx) => {
+                // Guard on status and start time to avoid racing a payment or another reschedule
+                const updateResult = await tx.consultation.updateMany({
+                    where: {
+                        id: consultation.id,
+                        status: consultation.status,
+                        scheduledStartAt: oldStartAt,
+                    },
+                    data: { scheduledStartAt: newStartAt },
+                });
+
+                if (updateResult.count === 0) {
+                    throw new Error("STATUS_MISMATCH");
+                }
+
+                await tx.auditEvent.create({
+                    data: {
+                        actorUserId: user.id,
+                        consultationId: consultation.id,
+                        eventType: "CONSULT_RESCHEDULED",
+                        eventMetadata: {
+                            from: oldStartAt.toISOString(),
+                            to: newStartAt.toISOString(),
+                            status: consultation.status,
+                            rescheduledBy: user.role,
+                        },
+                    },
+                });
+
+                return tx.consultation.findUnique({ where: { id: consultation.id } });
+            });
+        } catch (err) {
+            // Put the lock back where it was
+            if (redis && lockMove) {
+                try {
+                    if (lockMove === "MOVED") {
+                        await moveSlotLock(redis, newLockKey, oldLockKey, consultation.id, RESCHEDULE_LOCK_TTL_SECONDS);
+                    } else {
+                        await releaseSlotLock(redis, newLockKey, consultation.id);
+                    }
+                } catch {
+                    // ignore
+                }
+            }
+            throw err;
+        }
+
+        // A lock taken just for this write is no longer needed; a moved checkout lock stays
+        if (redis && lockMove === "ACQUIRED") {
+            try {
+                await releaseSlotLock(redis, newLockKey, consultation.id);
+            } catch {
+                // ignore
+            }
+        }
+
+        return successResponse(updated);
+    } catch (error) {
+        if (error instanceof Error && error.message === "STATUS_MISMATCH") {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                "Consultation was modified by another request. Please refresh and try again.",
+                409
+            );
+        }
+
+        // Unique index on confirmed (doctorId, scheduledStartAt)
+        if ((error as { code?: string })?.code === "P2002") {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                "The selected time is no longer available. Pick a different slot.",
+                409
+            );
+        }
+
+        console.error("Error rescheduling consultation:", error);
+        return errorResponse(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to reschedule consultation",
+            500
+        );
+    }
+}
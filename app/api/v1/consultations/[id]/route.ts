@@ -15,6 +15,18 @@ import {
   isValidStatusTransition,
 } from "@/lib/api-utils";
 import { ConsultationStatus, UserRole } from "@/app/generated/prisma/client";
+import {
+  resolveAppointmentDuration,
+  type AppointmentDuration,
+} from "@/lib/appointment-duration";
+import { getSpecialty } from "@/lib/specialties";
+import { refundCancelledConsultation } from "@/lib/refunds";
+import {
+  applyConsultationTransition,
+  runConsultationTransitionHooks,
+  TransitionConflictError,
+  type ConsultationTransition,
+} from "@/lib/consultation-transitions";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -167,6 +179,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     // RBAC: Doctor assignment - only admins
+    let reassignedDuration: AppointmentDuration | null = null;
     if (body.doctorId) {
       if (user.role !== UserRole.ADMIN) {
         return errorResponse(
@@ -178,7 +191,13 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       // Validate that the assigned user is actually a doctor
       const assignedDoctor = await prisma.user.findUnique({
         where: { id: body.doctorId },
-        select: { id: true, role: true },
+        select: {
+          id: true,
+          role: true,
+          doctorProfile: {
+            select: { bufferMinutes: true, appointmentDurations: true },
+          },
+        },
       });
       if (!assignedDoctor) {
         return errorResponse(
@@ -194,6 +213,12 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
           400
         );
       }
+
+      // The appointment length follows the newly assigned doctor's settings
+      reassignedDuration = resolveAppointmentDuration(
+        await getSpecialty(consultation.specialty),
+        assignedDoctor.doctorProfile
+      );
     }
 
     // RBAC: Schedule updates - only doctors and admins
@@ -247,60 +272,67 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       }
     }
 
-    // Build update data
+    // Build update data (status timestamps are set by the transition service)
     type UpdateData = {
-      status?: ConsultationStatus;
       doctorId?: string;
+      durationMinutes?: number;
+      bufferMinutes?: number;
       scheduledStartAt?: Date;
-      startedAt?: Date;
-      endedAt?: Date;
     };
 
     const updateData: UpdateData = {};
 
-    if (body.status) {
-      updateData.status = body.status as ConsultationStatus;
-
-      // Set timestamps based on status
-      if (body.status === ConsultationStatus.IN_CALL) {
-        updateData.startedAt = new Date();
-      } else if (body.status === ConsultationStatus.COMPLETED) {
-        updateData.endedAt = new Date();
-      }
-    }
-
     if (body.doctorId) {
       updateData.doctorId = body.doctorId;
+      if (reassignedDuration) {
+        updateData.durationMinutes = reassignedDuration.durationMinutes;
+        updateData.bufferMinutes = reassignedDuration.bufferMinutes;
+      }
     }
 
     if (body.scheduledStartAt) {
       updateData.scheduledStartAt = new Date(body.scheduledStartAt);
     }
 
-    // Update in transaction with audit event
-    const result = await prisma.$transaction(async (tx) => {
-      const updated = await tx.consultation.update({
-        where: { id },
-        data: updateData,
-      });
-
-      // Create audit event for status changes
-      if (body.status) {
-        await tx.auditEvent.create({
-          data: {
-            actorUserId: user.id,
-            consultationId: consultation.id,
-            eventType: "CONSULT_STATUS_CHANGED",
-            eventMetadata: {
-              from: consultation.status,
-              to: body.status,
-            },
-          },
+    // Status changes go through the state machine, which writes the audit event
+    const newStatus = body.status as ConsultationStatus | undefined;
+    let transition: ConsultationTransition | null = null;
+    let result;
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        if (!newStatus) {
+          return tx.consultation.update({
+            where: { id },
+            data: updateData,
+          });
+        }
+
+        transition = await applyConsultationTransition(tx, consultation, newStatus, {
+          actor: user,
+          data: updateData,
         });
+        return transition.updated;
+      });
+    } catch (error) {
+      if (error instanceof TransitionConflictError) {
+        return errorResponse(
+          ErrorCodes.CONFLICT,
+          "Consultation was modified by another request. Please refresh and try again.",
+          409
+        );
       }
+      throw error;
+    }
 
-      return updated;
-    });
+    if (transition) {
+      await runConsultationTransitionHooks(transition);
+    }
+
+    // Cancelling refunds a captured payment (doctor/admin: in full)
+    if (newStatus === ConsultationStatus.CANCELLED) {
+      const refund = await refundCancelledConsultation(consultation, user);
+      return successResponse({ ...result, refund });
+    }
 
     return successResponse(result);
   } catch (error) {
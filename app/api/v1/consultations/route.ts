@@ -1,7 +1,7 @@
 /**
  * Consultations API Routes
  * 
- * POST /api/v1/consultations - Create a new consultation
+ * POST /api/v1/consultations - Create a new consultation (or a recurring series)
  * GET /api/v1/consultations - List consultations (filtered by role)
  */
 
@@ -12,16 +12,46 @@ import {
   successResponse,
   requireAuth,
   ErrorCodes,
-  VALID_SPECIALTIES,
   VALID_AGE_RANGES,
-  type Specialty,
   type AgeRange,
 } from '@/lib/api-utils';
 import { ConsultationStatus, UserRole } from '@/app/generated/prisma/client';
+import {
+  resolveAppointmentDuration,
+  type AppointmentDuration,
+  type DoctorDurationSettings,
+} from '@/lib/appointment-duration';
+import { findUnavailableSlots, type BookableDoctor } from '@/lib/booking-conflicts';
+import {
+  expandSeriesOccurrences,
+  validateRecurrence,
+  type SeriesFrequencyKind,
+} from '@/lib/consultation-series';
+import { getActiveSpecialty, getActiveSpecialtyIds, getSpecialty } from '@/lib/specialties';
+import {
+  resolveConsultationPrice,
+  type ConsultationPrice,
+  type DoctorPriceSettings,
+} from '@/lib/pricing';
+import { SUPPORTED_CURRENCIES, isSupportedCurrency } from '@/lib/currency';
+import {
+  resolveIntakeHealthHistory,
+  saveIntakeToHealthProfile,
+  validateIntakeHealthHistory,
+  type HealthHistory,
+} from '@/lib/health-profile';
+import { buildQuestionnaireResponse, type QuestionnaireResponse } from '@/lib/questionnaires';
 
 /**
  * POST /api/v1/consultations
  * Create a new consultation
+ *
+ * With `recurrence: { frequency, count }` a series of consultations is created
+ * instead, one per occurrence. Every occurrence must be free in the doctor's
+ * availability; otherwise nothing is created.
+ *
+ * `currency` is the patient's currency; the consultation is priced in it when
+ * the doctor or the catalog has a price in that currency.
  */
 export async function POST(request: NextRequest) {
   // Check authentication
@@ -38,12 +68,20 @@ export async function POST(request: NextRequest) {
     specialty?: string;
     scheduledStartAt?: string;
     doctorId?: string;
+    currency?: unknown;
     intake?: {
       nameOrAlias?: string;
       ageRange?: string;
       chiefComplaint?: string;
       consentAccepted?: boolean;
       consent?: boolean;
+      healthProfile?: unknown;
+      saveToProfile?: boolean;
+      questionnaire?: unknown;
+    };
+    recurrence?: {
+      frequency?: unknown;
+      count?: unknown;
     };
   };
   try {
@@ -104,12 +142,45 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  if (!VALID_SPECIALTIES.includes(body.specialty as Specialty)) {
+  const intakeHistory = validateIntakeHealthHistory(body.intake.healthProfile);
+  if (!intakeHistory.data) {
+    return errorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      intakeHistory.error,
+      400,
+      { field: `intake.${intakeHistory.field}` }
+    );
+  }
+
+  // Only active catalog specialties can be booked
+  const specialty = await getActiveSpecialty(body.specialty);
+  if (!specialty) {
+    const validOptions = await getActiveSpecialtyIds();
+    return errorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      `Invalid specialty. Valid options: ${validOptions.join(', ')}`,
+      400,
+      { field: 'specialty', validOptions }
+    );
+  }
+
+  // Answers to the specialty's questionnaire, scored
+  const questionnaire = buildQuestionnaireResponse(specialty.id, body.intake.questionnaire);
+  if (questionnaire.error !== undefined) {
+    return errorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      questionnaire.error,
+      400,
+      { field: `intake.questionnaire.${questionnaire.field}` }
+    );
+  }
+
+  if (body.currency !== undefined && !isSupportedCurrency(body.currency)) {
     return errorResponse(
       ErrorCodes.VALIDATION_ERROR,
-      `Invalid specialty. Valid options: ${VALID_SPECIALTIES.join(', ')}`,
+      `Invalid currency. Valid options: ${SUPPORTED_CURRENCIES.join(', ')}`,
       400,
-      { field: 'specialty', validOptions: VALID_SPECIALTIES }
+      { field: 'currency', validOptions: SUPPORTED_CURRENCIES }
     );
   }
 
@@ -136,11 +207,59 @@ export async function POST(request: NextRequest) {
     }
   }
 
+  // Validate recurrence if provided: a series needs a fixed doctor and start time
+  let recurrence: { frequency: SeriesFrequencyKind; count: number } | null = null;
+  if (body.recurrence !== undefined) {
+    if (typeof body.recurrence !== 'object' || body.recurrence === null) {
+      return errorResponse(
+        ErrorCodes.VALIDATION_ERROR,
+        'recurrence must be an object',
+        400,
+        { field: 'recurrence' }
+      );
+    }
+
+    const validation = validateRecurrence(body.recurrence);
+    if (validation.error !== undefined) {
+      return errorResponse(
+        ErrorCodes.VALIDATION_ERROR,
+        validation.error,
+        400,
+        { field: validation.field }
+      );
+    }
+    recurrence = validation.data;
+
+    if (!body.doctorId) {
+      return errorResponse(
+        ErrorCodes.VALIDATION_ERROR,
+        'A doctor is required for a recurring series',
+        400,
+        { field: 'doctorId' }
+      );
+    }
+    if (!scheduledStartAt) {
+      return errorResponse(
+        ErrorCodes.VALIDATION_ERROR,
+        'scheduledStartAt is required for a recurring series',
+        400,
+        { field: 'scheduledStartAt' }
+      );
+    }
+  }
+
   // Validate doctor if provided
+  let doctorDurationSettings: DoctorDurationSettings | null = null;
+  let doctorPriceSettings: DoctorPriceSettings | null = null;
+  let seriesDoctor: BookableDoctor | null = null;
   if (body.doctorId) {
     const doctor = await prisma.user.findUnique({
       where: { id: body.doctorId },
-      include: { doctorProfile: true },
+      include: {
+        doctorProfile: {
+          include: { appointmentDurations: true, workingHours: true, specialtyPrices: true },
+        },
+      },
     });
 
     if (!doctor || doctor.role !== UserRole.DOCTOR) {
@@ -165,6 +284,39 @@ export async function POST(request: NextRequest) {
         }
       );
     }
+
+    doctorDurationSettings = doctor.doctorProfile;
+    doctorPriceSettings = doctor.doctorProfile;
+    seriesDoctor = doctor;
+  }
+
+  // Snapshot the appointment length so later setting changes don't move this booking
+  const appointment = resolveAppointmentDuration(specialty, doctorDurationSettings);
+  // Snapshot the agreed price so catalog or fee changes don't change what the patient pays
+  const price = resolveConsultationPrice(specialty, doctorPriceSettings, body.currency);
+
+  // Snapshot the patient's medical history as it stands today
+  const healthHistory = await resolveIntakeHealthHistory(user.id, intakeHistory.data);
+  const saveToProfile = body.intake.saveToProfile === true;
+
+  if (recurrence && seriesDoctor && scheduledStartAt) {
+    return createSeries({
+      patientId: user.id,
+      doctor: seriesDoctor,
+      specialty: body.specialty,
+      firstStartAt: scheduledStartAt,
+      recurrence,
+      appointment,
+      price,
+      intake: {
+        nameOrAlias: body.intake.nameOrAlias.trim(),
+        ageRange: body.intake.ageRange,
+        chiefComplaint: body.intake.chiefComplaint,
+        ...healthHistory,
+        questionnaire: questionnaire.data ?? undefined,
+      },
+      saveToProfile,
+    });
   }
 
   try {
@@ -177,17 +329,31 @@ export async function POST(request: NextRequest) {
           specialty: body.specialty!,
           status: ConsultationStatus.CREATED,
           scheduledStartAt,
+          durationMinutes: appointment.durationMinutes,
+          bufferMinutes: appointment.bufferMinutes,
+          price: price.price,
+          currency: price.currency,
           patientIntake: {
             create: {
               nameOrAlias: body.intake!.nameOrAlias!.trim(),
               ageRange: body.intake!.ageRange,
               chiefComplaint: body.intake!.chiefComplaint,
               consentAcceptedAt: new Date(),
+              ...healthHistory,
+              questionnaire: questionnaire.data ?? undefined,
             },
           },
         },
       });
 
+      if (saveToProfile) {
+        await saveIntakeToHealthProfile(tx, user.id, {
+          nameOrAlias: body.intake!.nameOrAlias!.trim(),
+          ageRange: body.intake!.ageRange,
+          ...healthHistory,
+        });
+      }
+
       // Create audit event
       await tx.auditEvent.create({
         data: {
@@ -216,6 +382,125 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Create a recurring series: one consultation per occurrence, each with its own
+ * intake copy and CONSULT_CREATED audit event.
+ */
+async function createSeries(params: {
+  patientId: string;
+  doctor: BookableDoctor;
+  specialty: string;
+  firstStartAt: Date;
+  recurrence: { frequency: SeriesFrequencyKind; count: number };
+  appointment: AppointmentDuration;
+  price: ConsultationPrice;
+  intake: {
+    nameOrAlias: string;
+    ageRange?: string;
+    chiefComplaint?: string;
+    questionnaire?: QuestionnaireResponse;
+  } & HealthHistory;
+  saveToProfile: boolean;
+}) {
+  const { patientId, doctor, specialty, recurrence, appointment, price, intake } = params;
+  const timezone = doctor.doctorProfile?.timezone ?? 'UTC';
+
+  // Occurrences keep the first one's local time in the doctor's timezone
+  const occurrences = expandSeriesOccurrences(
+    params.firstStartAt,
+    recurrence.frequency,
+    recurrence.count,
+    timezone
+  );
+
+  try {
+    const unavailable = await findUnavailableSlots(doctor, occurrences, appointment);
+    if (unavailable.length > 0) {
+      return errorResponse(
+        ErrorCodes.CONFLICT,
+        'Some occurrences of the series are not available. Pick a different time or fewer occurrences.',
+        409,
+        {
+          unavailable: unavailable.map((u) => ({
+            scheduledStartAt: u.scheduledStartAt.toISOString(),
+            reason: u.reason,
+          })),
+        }
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const series = await tx.consultationSeries.create({
+        data: {
+          patientId,
+          doctorId: doctor.id,
+          specialty,
+          frequency: recurrence.frequency,
+          occurrenceCount: recurrence.count,
+          timezone,
+        },
+      });
+
+      if (params.saveToProfile) {
+        await saveIntakeToHealthProfile(tx, patientId, intake);
+      }
+
+      const consultations = [];
+      for (const [index, scheduledStartAt] of occurrences.entries()) {
+        const consultation = await tx.consultation.create({
+          data: {
+            patientId,
+            doctorId: doctor.id,
+            specialty,
+            status: ConsultationStatus.CREATED,
+            scheduledStartAt,
+            durationMinutes: appointment.durationMinutes,
+            bufferMinutes: appointment.bufferMinutes,
+            price: price.price,
+            currency: price.currency,
+            seriesId: series.id,
+            seriesIndex: index + 1,
+            patientIntake: {
+              create: {
+                ...intake,
+                consentAcceptedAt: new Date(),
+              },
+            },
+          },
+        });
+
+        await tx.auditEvent.create({
+          data: {
+            actorUserId: patientId,
+            consultationId: consultation.id,
+            eventType: 'CONSULT_CREATED',
+            eventMetadata: {
+              specialty,
+              scheduledStartAt: scheduledStartAt.toISOString(),
+              doctorId: doctor.id,
+              seriesId: series.id,
+              seriesIndex: index + 1,
+            },
+          },
+        });
+
+        consultations.push(consultation);
+      }
+
+      return { series, consultations };
+    });
+
+    return successResponse(result, 201);
+  } catch (error) {
+    console.error('Error creating consultation series:', error);
+    return errorResponse(
+      ErrorCodes.INTERNAL_ERROR,
+      'Failed to create consultation series',
+      500
+    );
+  }
+}
+
 /**
  * GET /api/v1/consultations
  * List consultations with role-based filtering
@@ -262,7 +547,9 @@ export async function GET(request: NextRequest) {
   if (status && Object.values(ConsultationStatus).includes(status as ConsultationStatus)) {
     whereClause.status = status as ConsultationStatus;
   }
-  if (specialty && VALID_SPECIALTIES.includes(specialty as Specialty)) {
+  // Unknown specialties are ignored, like unknown statuses; inactive ones still
+  // match their past consultations
+  if (specialty && (await getSpecialty(specialty))) {
     whereClause.specialty = specialty;
   }
 
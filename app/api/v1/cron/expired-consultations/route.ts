@@ -0,0 +1,23 @@
+import { NextRequest } from "next/server";
+import { successResponse, errorResponse, requireCronSecret, ErrorCodes } from "@/lib/api-utils";
+import { sweepExpiredConsultations } from "@/lib/consultation-sweeper";
+
+/**
+ * GET /api/v1/cron/expired-consultations
+ * Cron-triggered: persists EXPIRED for consultations whose slot has ended
+ * (lib/consultation-sweeper.ts).
+ *
+ * Auth: `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: NextRequest) {
+    const cronError = requireCronSecret(request);
+    if (cronError) return cronError;
+
+    try {
+        const summary = await sweepExpiredConsultations();
+        return successResponse(summary);
+    } catch (error) {
+        console.error("Expired Consultation Sweeper Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to sweep expired consultations", 500);
+    }
+}
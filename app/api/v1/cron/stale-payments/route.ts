@@ -0,0 +1,22 @@
+import { NextRequest } from "next/server";
+import { successResponse, errorResponse, requireCronSecret, ErrorCodes } from "@/lib/api-utils";
+import { reapStalePayments } from "@/lib/payment-reaper";
+
+/**
+ * GET /api/v1/cron/stale-payments
+ * Cron-triggered: expires abandoned checkouts (lib/payment-reaper.ts).
+ *
+ * Auth: `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: NextRequest) {
+    const cronError = requireCronSecret(request);
+    if (cronError) return cronError;
+
+    try {
+        const summary = await reapStalePayments();
+        return successResponse(summary);
+    } catch (error) {
+        console.error("Stale Payment Reaper Error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to reap stale payments", 500);
+    }
+}
@@ -10,7 +10,7 @@
 
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { createRoom, deleteRoom } from "@/lib/daily";
+import { getVideoProvider } from "@/lib/video-provider";
 import {
   errorResponse,
   successResponse,
@@ -18,8 +18,13 @@ import {
   ErrorCodes,
 } from "@/lib/api-utils";
 import { ConsultationStatus } from "@/app/generated/prisma/client";
+import {
+  applyConsultationTransition,
+  transitionConsultation,
+  TransitionConflictError,
+} from "@/lib/consultation-transitions";
 
-// Demo room expiry (in minutes). Daily rooms are configured with `exp` and only exist until then.
+// Demo room expiry (in minutes). Video rooms are created with this expiry and only exist until then.
 const ROOM_EXPIRY_MINUTES = 30;
 
 // Demo accounts from environment variables
@@ -100,7 +105,7 @@ export async function POST(_request: NextRequest) {
 
     const reuseCutoff = new Date(Date.now() - ROOM_EXPIRY_MINUTES * 60 * 1000);
 
-    // Only reuse consultations within room expiry. Daily rooms do not exist beyond ROOM_EXPIRY_MINUTES.
+    // Only reuse consultations within room expiry. Video rooms do not exist beyond ROOM_EXPIRY_MINUTES.
     const reusableConsultation = await prisma.consultation.findFirst({
       where: {
         patientId,
@@ -163,45 +168,27 @@ export async function POST(_request: NextRequest) {
     });
 
     if (staleConsultation) {
-      const staleRoomName = staleConsultation.videoSession?.roomName;
-
-      if (staleRoomName) {
-        try {
-          await deleteRoom(staleRoomName);
-        } catch (cleanupErr) {
-          console.error(
-            "Failed to delete expired Daily room for demo consultation:",
-            cleanupErr
-          );
-        }
-      }
-
-      await prisma.$transaction(async (tx) => {
-        await tx.consultation.update({
-          where: { id: staleConsultation.id },
-          data: {
-            status: ConsultationStatus.EXPIRED,
-            endedAt: new Date(),
-          },
-        });
-
-        await tx.auditEvent.create({
-          data: {
-            actorUserId: user.id,
-            consultationId: staleConsultation.id,
-            eventType: "DEMO_CALL_EXPIRED",
-            eventMetadata: {
-              roomName: staleRoomName,
-              demo: true,
-            },
+      // The transition hooks end the video session and delete its video room
+      try {
+        await transitionConsultation(staleConsultation, ConsultationStatus.EXPIRED, {
+          actor: user,
+          eventType: "DEMO_CALL_EXPIRED",
+          metadata: {
+            roomName: staleConsultation.videoSession?.roomName,
+            demo: true,
           },
+          system: true,
         });
-      });
+      } catch (expireErr) {
+        // Already moved on by a concurrent request or the sweeper
+        if (!(expireErr instanceof TransitionConflictError)) throw expireErr;
+      }
     }
 
-    // Create Daily room first (external API call - can't be in transaction)
+    // Create the video room first (external API call - can't be in transaction)
+    const videoProvider = getVideoProvider();
     const roomName = `demo_${Date.now()}`;
-    const room = await createRoom(roomName, ROOM_EXPIRY_MINUTES);
+    const room = await videoProvider.createRoom(roomName, ROOM_EXPIRY_MINUTES);
 
     try {
       const consultation = await prisma.$transaction(async (tx) => {
@@ -230,30 +217,20 @@ export async function POST(_request: NextRequest) {
         await tx.videoSession.create({
           data: {
             consultationId: newConsultation.id,
-            provider: "DAILY",
+            provider: videoProvider.name,
             roomName: room.name,
             roomUrl: room.url,
           },
         });
 
-        await tx.consultation.update({
-          where: { id: newConsultation.id },
-          data: {
-            status: ConsultationStatus.IN_CALL,
-            startedAt: now,
-          },
-        });
-
-        await tx.auditEvent.create({
-          data: {
-            actorUserId: user.id,
-            consultationId: newConsultation.id,
-            eventType: "DEMO_CALL_CREATED",
-            eventMetadata: {
-              roomName: room.name,
-              demo: true,
-            },
+        await applyConsultationTransition(tx, newConsultation, ConsultationStatus.IN_CALL, {
+          actor: user,
+          eventType: "DEMO_CALL_CREATED",
+          metadata: {
+            roomName: room.name,
+            demo: true,
           },
+          now,
         });
 
         return newConsultation;
@@ -265,12 +242,12 @@ export async function POST(_request: NextRequest) {
           "🎬 Demo call created! The other participant can join from their dashboard.",
       });
     } catch (txError) {
-      // Transaction failed - clean up the Daily room to avoid orphans
+      // Transaction failed - clean up the video room to avoid orphans
       try {
-        await deleteRoom(room.name);
+        await videoProvider.deleteRoom(room.name);
       } catch (cleanupErr) {
         console.error(
-          "Failed to delete Daily room after transaction failure:",
+          "Failed to delete video room after transaction failure:",
           cleanupErr
         );
       }
@@ -7,10 +7,18 @@
  * - Treat the patient-selected day as a patient-local calendar day and convert that day bounds into UTC instants.
  * - Generate working-hour slots in the doctor's timezone (to respect DST), convert to UTC instants, then filter to the
  *   patient-day UTC window.
- * - Query existing consultations using the patient-day UTC window (canonical), then mark slots as available/unavailable.
+ * - Working hours come from the doctor's weekly schedule (DoctorWorkingHours), falling back to
+ *   DEFAULT_WORKING_HOURS for doctors who have not configured one. Date overrides (blocked slots,
+ *   time off, extra hours) are applied on top; see lib/availability.ts.
+ * - Slot length and the gap between slots follow the appointment duration for the requested specialty
+ *   (specialty default, doctor override and buffer; see lib/appointment-duration.ts).
+ * - Query existing consultations using the patient-day UTC window (canonical), then mark slots that overlap a
+ *   booking (including both buffers) as unavailable.
  *
  * Assumptions:
  * - Patient's timezone can be provided via the optional `patientTimezone` query param.
+ * - Prices are quoted in the optional `currency` query param where the doctor or specialty has one, otherwise in
+ *   the specialty's default currency (see lib/pricing.ts).
  * - If the incoming dateStr includes an offset / zone (e.g. 2024-07-10T14:00:00+05:30), that offset is honored.
  * - If dateStr is date-only (YYYY-MM-DD) and patientTimezone is provided, the date is interpreted as midnight in patientTimezone.
  * - If neither an offset nor patientTimezone is present, the date is interpreted in UTC (safer than server-local).
@@ -23,16 +31,20 @@ import {
   successResponse,
   requireAuth,
   ErrorCodes,
-  VALID_SPECIALTIES,
-  type Specialty,
 } from "@/lib/api-utils";
 import { UserRole, ConsultationStatus } from "@/app/generated/prisma/client";
 import { DateTime } from "luxon";
 import { getRedis, slotLockKey } from "@/lib/redis";
+import { generateDoctorSlotsForPatientDayUTCWindow } from "@/lib/availability";
+import {
+  findOverlappingConsultations,
+  resolveAppointmentDuration,
+  MAX_OCCUPIED_MS,
+} from "@/lib/appointment-duration";
+import { resolveConsultationPrice } from "@/lib/pricing";
+import { SUPPORTED_CURRENCIES, isSupportedCurrency } from "@/lib/currency";
+import { getActiveSpecialty, getActiveSpecialtyIds } from "@/lib/specialties";
 
-const WORKING_HOURS_START = 9;
-const WORKING_HOURS_END = 17;
-const SLOT_DURATION_MINUTES = 30;
 const MAX_BOOKING_DAYS_AHEAD = 30;
 
 /** Helpers ------------------------------------------------------------- */
@@ -137,73 +149,6 @@ function computePatientDayBounds(
   };
 }
 
-/**
- * Generate working-hour time slots for a given doctor's day.
- * - Accepts doctorDayStartInDoctorTZ (Luxon DateTime at the doctor's midnight)
- * - Returns slots as UTC Date objects (startTime, endTime)
- */
-function generateTimeSlotsForDoctorDay(
-  doctorDayStartInDoctorTZ: DateTime
-): { startTime: Date; endTime: Date }[] {
-  const slots: { startTime: Date; endTime: Date }[] = [];
-
-  const workStart = doctorDayStartInDoctorTZ.plus({
-    hours: WORKING_HOURS_START,
-  });
-  const workEnd = doctorDayStartInDoctorTZ.plus({ hours: WORKING_HOURS_END });
-
-  let currentSlot = workStart;
-
-  while (currentSlot < workEnd) {
-    const endSlot = currentSlot.plus({ minutes: SLOT_DURATION_MINUTES });
-
-    slots.push({
-      startTime: currentSlot.toUTC().toJSDate(),
-      endTime: endSlot.toUTC().toJSDate(),
-    });
-
-    currentSlot = endSlot;
-  }
-
-  return slots;
-}
-
-/**
- * Generate slots for a doctor that overlap the patient-day UTC window.
- * Slots are generated in doctor-local time (to respect DST) but returned as UTC instants.
- */
-function generateDoctorSlotsForPatientDayUTCWindow(params: {
-  doctorTimezone: string;
-  patientDayStartUTC: Date;
-  patientDayEndUTC: Date;
-}): { startTime: Date; endTime: Date }[] {
-  const { doctorTimezone, patientDayStartUTC, patientDayEndUTC } = params;
-
-  const startInDoctorTZ = DateTime.fromJSDate(patientDayStartUTC, {
-    zone: "UTC",
-  }).setZone(doctorTimezone);
-  const endInDoctorTZ = DateTime.fromJSDate(patientDayEndUTC, {
-    zone: "UTC",
-  }).setZone(doctorTimezone);
-
-  let currentDoctorDayStart = startInDoctorTZ.startOf("day");
-  const lastDoctorDayStart = endInDoctorTZ.startOf("day");
-
-  const allSlots: { startTime: Date; endTime: Date }[] = [];
-
-  while (currentDoctorDayStart <= lastDoctorDayStart) {
-    allSlots.push(...generateTimeSlotsForDoctorDay(currentDoctorDayStart));
-    currentDoctorDayStart = currentDoctorDayStart.plus({ days: 1 });
-  }
-
-  const startMs = patientDayStartUTC.getTime();
-  const endMs = patientDayEndUTC.getTime();
-  return allSlots.filter((s) => {
-    const t = s.startTime.getTime();
-    return t >= startMs && t <= endMs;
-  });
-}
-
 /** ------------------------------------------------------------------- */
 
 export async function GET(request: NextRequest) {
@@ -217,6 +162,7 @@ export async function GET(request: NextRequest) {
   const dateStr = searchParams.get("date") ?? ""; // patient-supplied date string (required if you want day-specific availability)
   const doctorId = searchParams.get("doctorId");
   const patientTimezone = searchParams.get("patientTimezone") ?? undefined; // optional - recommended to pass
+  const currency = searchParams.get("currency"); // optional - currency to quote prices in
 
   if (doctorId !== null && doctorId.trim() === "") {
     return errorResponse(
@@ -227,6 +173,15 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  if (currency !== null && !isSupportedCurrency(currency)) {
+    return errorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      `Invalid currency. Valid options: ${SUPPORTED_CURRENCIES.join(", ")}`,
+      400,
+      { field: "currency", validOptions: SUPPORTED_CURRENCIES }
+    );
+  }
+
   if (!specialty) {
     return errorResponse(
       ErrorCodes.VALIDATION_ERROR,
@@ -236,12 +191,15 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  if (!VALID_SPECIALTIES.includes(specialty as Specialty)) {
+  // Only active catalog specialties can be booked
+  const specialtySettings = await getActiveSpecialty(specialty);
+  if (!specialtySettings) {
+    const validOptions = await getActiveSpecialtyIds();
     return errorResponse(
       ErrorCodes.VALIDATION_ERROR,
-      `Invalid specialty. Valid options: ${VALID_SPECIALTIES.join(", ")}`,
+      `Invalid specialty. Valid options: ${validOptions.join(", ")}`,
       400,
-      { field: "specialty", validOptions: VALID_SPECIALTIES }
+      { field: "specialty", validOptions }
     );
   }
 
@@ -250,7 +208,11 @@ export async function GET(request: NextRequest) {
     if (doctorId) {
       const doctor = await prisma.user.findUnique({
         where: { id: doctorId },
-        include: { doctorProfile: true },
+        include: {
+          doctorProfile: {
+            include: { workingHours: true, appointmentDurations: true, specialtyPrices: true },
+          },
+        },
       });
 
       if (!doctor || doctor.role !== UserRole.DOCTOR) {
@@ -303,13 +265,15 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      // Query existing PAID consultations for the doctor within the patient-day UTC bounds
+      // Query existing PAID consultations for the doctor that can overlap the patient-day UTC bounds
       // Only count slots as booked after payment is confirmed
       const existingConsultations = await prisma.consultation.findMany({
         where: {
           doctorId: doctor.id,
           scheduledStartAt: {
-            gte: patientDayBounds.patientDayStartUTC,
+            gte: new Date(
+              patientDayBounds.patientDayStartUTC.getTime() - MAX_OCCUPIED_MS
+            ),
             lte: patientDayBounds.patientDayEndUTC,
           },
           status: {
@@ -320,18 +284,31 @@ export async function GET(request: NextRequest) {
             ],
           },
         },
-        select: { scheduledStartAt: true },
+        select: { scheduledStartAt: true, durationMinutes: true, bufferMinutes: true },
       });
 
-      const bookedTimes = new Set(
-        existingConsultations
-          .filter((c) => c.scheduledStartAt)
-          .map((c) => c.scheduledStartAt!.getTime())
+      const appointment = resolveAppointmentDuration(
+        specialtySettings,
+        doctor.doctorProfile
       );
 
+      // Date-specific overrides (blocked slots, time off, extra hours) touching the patient day
+      const overrides = doctor.doctorProfile
+        ? await prisma.doctorAvailabilityOverride.findMany({
+            where: {
+              doctorProfileId: doctor.doctorProfile.id,
+              startAt: { lte: patientDayBounds.patientDayEndUTC },
+              endAt: { gt: patientDayBounds.patientDayStartUTC },
+            },
+          })
+        : [];
+
       // Generate slots in doctor timezone (DST-safe), converted to UTC instants, then filtered to patient-day window
       const timeSlots = generateDoctorSlotsForPatientDayUTCWindow({
         doctorTimezone,
+        workingHours: doctor.doctorProfile?.workingHours,
+        overrides,
+        appointment,
         patientDayStartUTC: patientDayBounds.patientDayStartUTC,
         patientDayEndUTC: patientDayBounds.patientDayEndUTC,
       });
@@ -352,7 +329,10 @@ export async function GET(request: NextRequest) {
       const slots = timeSlots.map((slot) => ({
         ...slot,
         available:
-          !bookedTimes.has(slot.startTime.getTime()) &&
+          findOverlappingConsultations(
+            { scheduledStartAt: slot.startTime, ...appointment },
+            existingConsultations
+          ).length === 0 &&
           !lockedKeys.has(slotLockKey(doctor.id, slot.startTime.getTime())) &&
           slot.startTime.getTime() > now,
         doctorId: doctor.id,
@@ -363,6 +343,8 @@ export async function GET(request: NextRequest) {
         doctorName: doctor.name,
         date: patientDayBounds.patientDayLabel,
         timezone: doctorTimezone,
+        durationMinutes: appointment.durationMinutes,
+        ...resolveConsultationPrice(specialtySettings, doctor.doctorProfile, currency),
         slots,
       });
     }
@@ -375,7 +357,11 @@ export async function GET(request: NextRequest) {
           specialties: { has: specialty },
         },
       },
-      include: { doctorProfile: true },
+      include: {
+        doctorProfile: {
+          include: { workingHours: true, appointmentDurations: true, specialtyPrices: true },
+        },
+      },
     });
 
     if (doctors.length === 0) {
@@ -435,7 +421,9 @@ export async function GET(request: NextRequest) {
       where: {
         doctorId: { in: doctors.map((d) => d.id) },
         scheduledStartAt: {
-          gte: patientDayBounds.patientDayStartUTC,
+          gte: new Date(
+            patientDayBounds.patientDayStartUTC.getTime() - MAX_OCCUPIED_MS
+          ),
           lte: patientDayBounds.patientDayEndUTC,
         },
         status: {
@@ -446,21 +434,28 @@ export async function GET(request: NextRequest) {
           ],
         },
       },
-      select: { doctorId: true, scheduledStartAt: true },
+      select: {
+        doctorId: true,
+        scheduledStartAt: true,
+        durationMinutes: true,
+        bufferMinutes: true,
+      },
     });
 
-    // Group booked times by doctor
-    const bookedTimesByDoctor = new Map<string, Set<number>>();
-    for (const consultation of existingConsultations) {
-      if (consultation.scheduledStartAt && consultation.doctorId) {
-        if (!bookedTimesByDoctor.has(consultation.doctorId)) {
-          bookedTimesByDoctor.set(consultation.doctorId, new Set());
-        }
-        bookedTimesByDoctor
-          .get(consultation.doctorId)!
-          .add(consultation.scheduledStartAt.getTime());
-      }
-    }
+    // Date-specific overrides for all doctors touching the patient day, grouped by profile
+    const profileIds = doctors
+      .map((d) => d.doctorProfile?.id)
+      .filter((id): id is string => !!id);
+    const allOverrides =
+      profileIds.length > 0
+        ? await prisma.doctorAvailabilityOverride.findMany({
+            where: {
+              doctorProfileId: { in: profileIds },
+              startAt: { lte: patientDayBounds.patientDayEndUTC },
+              endAt: { gt: patientDayBounds.patientDayStartUTC },
+            },
+          })
+        : [];
 
     // Pre-generate slots per doctor and batch-check Redis locks (single mget)
     const slotsByDoctorId = new Map<string, { startTime: Date; endTime: Date }[]>();
@@ -469,6 +464,11 @@ export async function GET(request: NextRequest) {
       const doctorTimezone = doctor.doctorProfile?.timezone ?? "UTC";
       const timeSlots = generateDoctorSlotsForPatientDayUTCWindow({
         doctorTimezone,
+        workingHours: doctor.doctorProfile?.workingHours,
+        overrides: allOverrides.filter(
+          (o) => o.doctorProfileId === doctor.doctorProfile?.id
+        ),
+        appointment: resolveAppointmentDuration(specialtySettings, doctor.doctorProfile),
         patientDayStartUTC: patientDayBounds.patientDayStartUTC,
         patientDayEndUTC: patientDayBounds.patientDayEndUTC,
       });
@@ -490,7 +490,13 @@ export async function GET(request: NextRequest) {
     // Build availability for each doctor using their own bounds and timezone
     const doctorAvailability = doctors.map((doctor) => {
       const doctorTimezone = doctor.doctorProfile?.timezone ?? "UTC";
-      const bookedTimes = bookedTimesByDoctor.get(doctor.id) ?? new Set();
+      const booked = existingConsultations.filter(
+        (c) => c.doctorId === doctor.id
+      );
+      const appointment = resolveAppointmentDuration(
+        specialtySettings,
+        doctor.doctorProfile
+      );
       const timeSlots = slotsByDoctorId.get(doctor.id) ?? [];
 
       const now = Date.now();
@@ -500,10 +506,15 @@ export async function GET(request: NextRequest) {
         specialties: doctor.doctorProfile?.specialties ?? [],
         timezone: doctorTimezone,
         date: patientDayBounds.patientDayLabel,
+        durationMinutes: appointment.durationMinutes,
+        ...resolveConsultationPrice(specialtySettings, doctor.doctorProfile, currency),
         slots: timeSlots.map((slot) => ({
           ...slot,
           available:
-            !bookedTimes.has(slot.startTime.getTime()) &&
+            findOverlappingConsultations(
+              { scheduledStartAt: slot.startTime, ...appointment },
+              booked
+            ).length === 0 &&
             !lockedKeys.has(slotLockKey(doctor.id, slot.startTime.getTime())) &&
             slot.startTime.getTime() > now,
           doctorId: doctor.id,
@@ -0,0 +1,198 @@
+/**
+ * Single Availability Override API Routes
+ *
+ * PATCH /api/v1/doctors/me/availability/:overrideId - Update an override's range or reason
+ * DELETE /api/v1/doctors/me/availability/:overrideId - Remove an override
+ */
+
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  errorResponse,
+  successResponse,
+  requireAuth,
+  ErrorCodes,
+} from "@/lib/api-utils";
+import { UserRole } from "@/app/generated/prisma/client";
+import { validateAvailabilityOverride } from "@/lib/availability";
+import { findBookingsInRange } from "@/lib/booking-conflicts";
+
+interface RouteParams {
+  params: Promise<{ overrideId: string }>;
+}
+
+/**
+ * Load an override that belongs to the signed-in doctor
+ */
+async function findOwnOverride(userId: string, overrideId: string) {
+  const profile = await prisma.doctorProfile.findUnique({
+    where: { doctorId: userId },
+  });
+  if (!profile) return null;
+
+  return prisma.doctorAvailabilityOverride.findFirst({
+    where: { id: overrideId, doctorProfileId: profile.id },
+  });
+}
+
+/**
+ * PATCH /api/v1/doctors/me/availability/:overrideId
+ * Body: { type?, startAt?, endAt?, reason? } - omitted fields keep their current value
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const authResult = await requireAuth();
+  if (authResult.errorResponse) {
+    return authResult.errorResponse;
+  }
+
+  const { session } = authResult;
+  const user = session.user;
+  const { overrideId } = await params;
+
+  if (user.role !== UserRole.DOCTOR) {
+    return errorResponse(
+      ErrorCodes.FORBIDDEN,
+      "Only doctors can manage availability",
+      403
+    );
+  }
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+  }
+
+  try {
+    const existing = await findOwnOverride(user.id, overrideId);
+    if (!existing) {
+      return errorResponse(
+        ErrorCodes.NOT_FOUND,
+        "Availability override not found",
+        404
+      );
+    }
+
+    const validation = validateAvailabilityOverride({
+      type: body?.type ?? existing.type,
+      startAt: body?.startAt ?? existing.startAt.toISOString(),
+      endAt: body?.endAt ?? existing.endAt.toISOString(),
+      reason: body?.reason !== undefined ? body.reason : existing.reason,
+    });
+    if (validation.error !== undefined) {
+      return errorResponse(ErrorCodes.VALIDATION_ERROR, validation.error, 400, {
+        field: validation.field,
+      });
+    }
+    const { type, startAt, endAt, reason } = validation.data;
+
+    if (type !== "EXTRA") {
+      const booked = await findBookingsInRange(user.id, {
+        start: startAt,
+        end: endAt,
+      });
+
+      if (booked.length > 0) {
+        return errorResponse(
+          ErrorCodes.CONFLICT,
+          "This range overlaps booked consultations",
+          409,
+          { consultationIds: booked.map((c) => c.id) }
+        );
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.doctorAvailabilityOverride.update({
+        where: { id: existing.id },
+        data: { type, startAt, endAt, reason },
+      });
+
+      await tx.auditEvent.create({
+        data: {
+          actorUserId: user.id,
+          eventType: "AVAILABILITY_OVERRIDE_UPDATED",
+          eventMetadata: {
+            overrideId: existing.id,
+            type,
+            startAt: startAt.toISOString(),
+            endAt: endAt.toISOString(),
+          },
+        },
+      });
+
+      return result;
+    });
+
+    return successResponse(updated);
+  } catch (error) {
+    console.error("Error updating availability override:", error);
+    return errorResponse(
+      ErrorCodes.INTERNAL_ERROR,
+      "Failed to update availability override",
+      500
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/doctors/me/availability/:overrideId
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  const authResult = await requireAuth();
+  if (authResult.errorResponse) {
+    return authResult.errorResponse;
+  }
+
+  const { session } = authResult;
+  const user = session.user;
+  const { overrideId } = await params;
+
+  if (user.role !== UserRole.DOCTOR) {
+    return errorResponse(
+      ErrorCodes.FORBIDDEN,
+      "Only doctors can manage availability",
+      403
+    );
+  }
+
+  try {
+    const existing = await findOwnOverride(user.id, overrideId);
+    if (!existing) {
+      return errorResponse(
+        ErrorCodes.NOT_FOUND,
+        "Availability override not found",
+        404
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.doctorAvailabilityOverride.delete({
+        where: { id: existing.id },
+      });
+
+      await tx.auditEvent.create({
+        data: {
+          actorUserId: user.id,
+          eventType: "AVAILABILITY_OVERRIDE_DELETED",
+          eventMetadata: {
+            overrideId: existing.id,
+            type: existing.type,
+            startAt: existing.startAt.toISOString(),
+            endAt: existing.endAt.toISOString(),
+          },
+        },
+      });
+    });
+
+    return successResponse({ id: existing.id, deleted: true });
+  } catch (error) {
+    console.error("Error deleting availability override:", error);
+    return errorResponse(
+      ErrorCodes.INTERNAL_ERROR,
+      "Failed to delete availability override",
+      500
+    );
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Doctor Schedule Editor API Routes
+ *
+ * GET /api/v1/doctors/me/availability - Get the signed-in doctor's slots for a day, with overrides
+ * POST /api/v1/doctors/me/availability - Create an availability override (BLOCKED, TIME_OFF, EXTRA)
+ *
+ * Overrides are stored as absolute UTC ranges and applied on top of the weekly
+ * working hours when generating slots (see lib/availability.ts).
+ */
+
+import { NextRequest } from "next/server";
+import { DateTime } from "luxon";
+import { prisma } from "@/lib/prisma";
+import {
+  errorResponse,
+  successResponse,
+  requireAuth,
+  ErrorCodes,
+} from "@/lib/api-utils";
+import { UserRole } from "@/app/generated/prisma/client";
+import { buildDoctorSlots, validateAvailabilityOverride } from "@/lib/availability";
+import {
+  CONFIRMED_BOOKING_STATUSES,
+  findBookingsInRange,
+} from "@/lib/booking-conflicts";
+import { resolveWorkingHours } from "@/lib/working-hours";
+import {
+  findOverlappingConsultations,
+  resolveAppointmentDuration,
+  MAX_OCCUPIED_MS,
+} from "@/lib/appointment-duration";
+import { getSpecialty } from "@/lib/specialties";
+
+/**
+ * GET /api/v1/doctors/me/availability
+ * Query params:
+ * - date: YYYY-MM-DD, interpreted in the doctor's timezone (defaults to today)
+ * - specialty: which appointment length to lay slots out with (defaults to the doctor's first specialty)
+ */
+export async function GET(request: NextRequest) {
+  const authResult = await requireAuth();
+  if (authResult.errorResponse) {
+    return authResult.errorResponse;
+  }
+
+  const { session } = authResult;
+  const user = session.user;
+
+  if (user.role !== UserRole.DOCTOR) {
+    return errorResponse(
+      ErrorCodes.FORBIDDEN,
+      "Only doctors can manage availability",
+      403
+    );
+  }
+
+  try {
+    const profile = await prisma.doctorProfile.findUnique({
+      where: { doctorId: user.id },
+      include: { workingHours: true, appointmentDurations: true },
+    });
+
+    if (!profile) {
+      return errorResponse(ErrorCodes.NOT_FOUND, "Doctor profile not found", 404);
+    }
+
+    const timezone = profile.timezone ?? "UTC";
+    const { searchParams } = new URL(request.url);
+    const dateStr = searchParams.get("date");
+    const specialty = searchParams.get("specialty") ?? profile.specialties[0];
+
+    if (specialty && !profile.specialties.includes(specialty)) {
+      return errorResponse(
+        ErrorCodes.VALIDATION_ERROR,
+        "specialty must be one of your specialties",
+        400,
+        { field: "specialty", validOptions: profile.specialties }
+      );
+    }
+    const appointment = resolveAppointmentDuration(
+      specialty ? await getSpecialty(specialty) : null,
+      profile
+    );
+
+    const day = dateStr
+      ? DateTime.fromISO(dateStr, { zone: timezone })
+      : DateTime.now().setZone(timezone);
+
+    if (!day.isValid || (dateStr && !/^\d{4}-\d{2}-\d{2}$/.test(dateStr))) {
+      return errorResponse(
+        ErrorCodes.VALIDATION_ERROR,
+        "Invalid date format. Use YYYY-MM-DD",
+        400,
+        { field: "date" }
+      );
+    }
+
+    const dayStartUTC = day.startOf("day").toUTC().toJSDate();
+    const dayEndUTC = day.endOf("day").toUTC().toJSDate();
+
+    const [overrides, consultations, timeOff] = await Promise.all([
+      prisma.doctorAvailabilityOverride.findMany({
+        where: {
+          doctorProfileId: profile.id,
+          startAt: { lte: dayEndUTC },
+          endAt: { gt: dayStartUTC },
+        },
+        orderBy: { startAt: "asc" },
+      }),
+      prisma.consultation.findMany({
+        where: {
+          doctorId: user.id,
+          scheduledStartAt: {
+            gte: new Date(dayStartUTC.getTime() - MAX_OCCUPIED_MS),
+            lte: dayEndUTC,
+          },
+          status: { in: CONFIRMED_BOOKING_STATUSES },
+        },
+        select: {
+          id: true,
+          scheduledStartAt: true,
+          durationMinutes: true,
+          bufferMinutes: true,
+        },
+      }),
+      prisma.doctorAvailabilityOverride.findMany({
+        where: {
+          doctorProfileId: profile.id,
+          type: "TIME_OFF",
+          endAt: { gt: new Date() },
+        },
+        orderBy: { startAt: "asc" },
+      }),
+    ]);
+
+    const slots = buildDoctorSlots({
+      doctorTimezone: timezone,
+      workingHours: profile.workingHours,
+      overrides,
+      appointment,
+      windowStartUTC: dayStartUTC,
+      windowEndUTC: dayEndUTC,
+    }).map((slot) => ({
+      ...slot,
+      consultationId:
+        findOverlappingConsultations(
+          { scheduledStartAt: slot.startTime, ...appointment },
+          consultations
+        )[0]?.id ?? null,
+    }));
+
+    return successResponse({
+      date: day.toISODate(),
+      timezone,
+      workingHours: resolveWorkingHours(profile.workingHours).map(
+        ({ weekday, startTime, endTime }) => ({ weekday, startTime, endTime })
+      ),
+      usesDefaultWorkingHours: profile.workingHours.length === 0,
+      specialty: specialty ?? null,
+      durationMinutes: appointment.durationMinutes,
+      bufferMinutes: appointment.bufferMinutes,
+      slots,
+      overrides,
+      timeOff,
+    });
+  } catch (error) {
+    console.error("Error fetching doctor availability:", error);
+    return errorResponse(
+      ErrorCodes.INTERNAL_ERROR,
+      "Failed to fetch availability",
+      500
+    );
+  }
+}
+
+/**
+ * POST /api/v1/doctors/me/availability
+ * Body: { type: "BLOCKED" | "TIME_OFF" | "EXTRA", startAt: ISO string, endAt: ISO string, reason?: string }
+ *
+ * BLOCKED and TIME_OFF ranges cannot cover consultations that are already booked.
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await requireAuth();
+  if (authResult.errorResponse) {
+    return authResult.errorResponse;
+  }
+
+  const { session } = authResult;
+  const user = session.user;
+
+  if (user.role !== UserRole.DOCTOR) {
+    return errorResponse(
+      ErrorCodes.FORBIDDEN,
+      "Only doctors can manage availability",
+      403
+    );
+  }
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+  }
+
+  const validation = validateAvailabilityOverride(body ?? {});
+  if (validation.error !== undefined) {
+    return errorResponse(ErrorCodes.VALIDATION_ERROR, validation.error, 400, {
+      field: validation.field,
+    });
+  }
+  const { type, startAt, endAt, reason } = validation.data;
+
+  try {
+    const profile = await prisma.doctorProfile.findUnique({
+      where: { doctorId: user.id },
+    });
+
+    if (!profile) {
+      return errorResponse(ErrorCodes.NOT_FOUND, "Doctor profile not found", 404);
+    }
+
+    if (type !== "EXTRA") {
+      const booked = await findBookingsInRange(user.id, {
+        start: startAt,
+        end: endAt,
+      });
+
+      if (booked.length > 0) {
+        return errorResponse(
+          ErrorCodes.CONFLICT,
+          "This range overlaps booked consultations",
+          409,
+          { consultationIds: booked.map((c) => c.id) }
+        );
+      }
+    }
+
+    const override = await prisma.$transaction(async (tx) => {
+      const created = await tx.doctorAvailabilityOverride.create({
+        data: {
+          doctorProfileId: profile.id,
+          type,
+          startAt,
+          endAt,
+          reason,
+        },
+      });
+
+      await tx.auditEvent.create({
+        data: {
+          actorUserId: user.id,
+          eventType: "AVAILABILITY_OVERRIDE_CREATED",
+          eventMetadata: {
+            overrideId: created.id,
+            type,
+            startAt: startAt.toISOString(),
+            endAt: endAt.toISOString(),
+          },
+        },
+      });
+
+      return created;
+    });
+
+    return successResponse(override, 201);
+  } catch (error) {
+    console.error("Error creating availability override:", error);
+    return errorResponse(
+      ErrorCodes.INTERNAL_ERROR,
+      "Failed to create availability override",
+      500
+    );
+  }
+}
@@ -10,10 +10,9 @@ import {
   successResponse,
   requireAuth,
   ErrorCodes,
-  VALID_SPECIALTIES,
-  type Specialty,
 } from "@/lib/api-utils";
 import { UserRole } from "@/app/generated/prisma/client";
+import { getSpecialty } from "@/lib/specialties";
 
 export async function GET(request: NextRequest) {
   const authResult = await requireAuth();
@@ -44,7 +43,8 @@ export async function GET(request: NextRequest) {
     whereClause.name = { contains: search, mode: "insensitive" };
   }
 
-  if (specialty && VALID_SPECIALTIES.includes(specialty as Specialty)) {
+  // Unknown specialties are ignored
+  if (specialty && (await getSpecialty(specialty))) {
     whereClause.doctorProfile = { specialties: { has: specialty } };
   }
 
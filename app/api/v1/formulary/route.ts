@@ -0,0 +1,33 @@
+/**
+ * Formulary API Route
+ * GET /api/v1/formulary - Search the drugs doctors can prescribe
+ *
+ * Query Params:
+ * - q: part of a generic or brand name; empty lists the formulary alphabetically
+ */
+
+import { NextRequest } from "next/server";
+import { errorResponse, successResponse, requireAuth, ErrorCodes } from "@/lib/api-utils";
+import { FORMULARY_VERSION, searchFormulary } from "@/lib/formulary";
+import { FREQUENCIES } from "@/lib/prescriptions";
+import { UserRole } from "@/app/generated/prisma/client";
+
+export async function GET(request: NextRequest) {
+  const authResult = await requireAuth();
+  if (authResult.errorResponse) {
+    return authResult.errorResponse;
+  }
+
+  const { role } = authResult.session.user;
+  if (role !== UserRole.DOCTOR && role !== UserRole.ADMIN) {
+    return errorResponse(ErrorCodes.FORBIDDEN, "Only doctors can search the formulary", 403);
+  }
+
+  const query = request.nextUrl.searchParams.get("q") ?? "";
+
+  return successResponse({
+    version: FORMULARY_VERSION,
+    drugs: searchFormulary(query),
+    frequencies: FREQUENCIES,
+  });
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, errorResponse, ErrorCodes } from "@/lib/api-utils";
+import { localeFromAcceptLanguage } from "@/lib/currency";
+import {
+    RECEIPT_PAYMENT_STATUSES,
+    buildReceiptPdf,
+    getReceiptPayment,
+    receiptInvoiceNumber,
+} from "@/lib/receipts";
+
+/**
+ * GET /api/v1/payments/[id]/receipt
+ * Downloads the PDF receipt of a paid (or refunded) payment.
+ * Amounts and dates are formatted for the Accept-Language locale.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const authResult = await requireAuth();
+    if (authResult.errorResponse) {
+        return authResult.errorResponse;
+    }
+    const { session } = authResult;
+    const { id } = await params;
+
+    try {
+        const payment = await getReceiptPayment(id);
+
+        if (!payment) {
+            return errorResponse(ErrorCodes.NOT_FOUND, "Payment not found", 404);
+        }
+
+        // Check authorization (must be the patient or an admin)
+        if (payment.consultation.patientId !== session.user.id && session.user.role !== "ADMIN") {
+            return errorResponse(ErrorCodes.FORBIDDEN, "Access denied", 403);
+        }
+
+        if (!RECEIPT_PAYMENT_STATUSES.includes(payment.status)) {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                "A receipt is only available once the payment has been completed",
+                409,
+                { status: payment.status }
+            );
+        }
+
+        const locale = localeFromAcceptLanguage(request.headers.get("accept-language"));
+        const pdf = await buildReceiptPdf(payment, locale);
+
+        return new NextResponse(new Uint8Array(pdf), {
+            status: 200,
+            headers: {
+                "Content-Type": "application/pdf",
+                "Content-Disposition": `attachment; filename="receipt-${receiptInvoiceNumber(payment)}.pdf"`,
+                "Cache-Control": "private, no-store",
+            },
+        });
+    } catch (error) {
+        console.error("Receipt generation error:", error);
+        return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to generate receipt", 500);
+    }
+}
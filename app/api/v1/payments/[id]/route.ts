@@ -24,7 +24,13 @@ export async function GET(
     try {
         const payment = await prisma.payment.findUnique({
             where: { id },
-            include: { consultation: true }
+            include: {
+                consultation: true,
+                refunds: {
+                    select: { id: true, amount: true, status: true, reason: true, createdAt: true, completedAt: true },
+                    orderBy: { createdAt: "asc" },
+                },
+            }
         });
 
         if (!payment) {
@@ -43,6 +49,8 @@ export async function GET(
             currency: payment.currency,
             consultationId: payment.consultationId,
             providerCheckoutId: payment.providerCheckoutId,
+            refundedAmount: payment.refundedAmount,
+            refunds: payment.refunds,
             createdAt: payment.createdAt,
             updatedAt: payment.updatedAt
         });
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, ErrorCodes } from "@/lib/api-utils";
+import { getPaymentProvider } from "@/lib/payment-provider";
+import { completeFakeCheckout, type FakeCheckoutOutcome } from "@/lib/fake-payments";
+
+const OUTCOMES: FakeCheckoutOutcome[] = ["PAY", "DECLINE", "CANCEL"];
+
+/**
+ * POST /api/v1/payments/fake-checkout
+ * Form target of the fake checkout page (PAYMENT_PROVIDER=fake only).
+ * Finishes the checkout, sends the webhook and redirects the patient back.
+ *
+ * Form: { checkoutId: string, outcome: "PAY" | "DECLINE" | "CANCEL" }
+ */
+export async function POST(request: NextRequest) {
+    let enabled = false;
+    try {
+        enabled = getPaymentProvider().name === "FAKE";
+    } catch {
+        // Misconfigured provider - treat as disabled
+    }
+    if (!enabled) {
+        return errorResponse(ErrorCodes.NOT_FOUND, "Not found", 404);
+    }
+
+    let form: FormData;
+    try {
+        form = await request.formData();
+    } catch {
+        return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid form body", 400);
+    }
+
+    const checkoutId = form.get("checkoutId");
+    const outcome = form.get("outcome");
+
+    if (typeof checkoutId !== "string" || !checkoutId) {
+        return errorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            "checkoutId is required",
+            400,
+            { field: "checkoutId" }
+        );
+    }
+    if (!OUTCOMES.includes(outcome as FakeCheckoutOutcome)) {
+        return errorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            `outcome must be one of ${OUTCOMES.join(", ")}`,
+            400,
+            { field: "outcome" }
+        );
+    }
+
+    try {
+        const checkout = await completeFakeCheckout(checkoutId, outcome as FakeCheckoutOutcome);
+        if (!checkout) {
+            return errorResponse(
+                ErrorCodes.CONFLICT,
+                "Checkout not found or already completed",
+                409
+            );
+        }
+
+        // Like a hosted checkout, abandoning it returns the patient to the app
+        // instead of the success page
+        const target = outcome === "CANCEL"
+            ? new URL("/dashboard/patient/appointments", request.url)
+            : new URL(checkout.redirectUrl);
+        return NextResponse.redirect(target, 303);
+    } catch (error) {
+        console.error("Fake checkout error:", error);
+        return errorResponse(
+            ErrorCodes.INTERNAL_ERROR,
+            "Failed to complete fake checkout",
+            500
+        );
+    }
+}
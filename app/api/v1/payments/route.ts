@@ -1,20 +1,18 @@
 import { NextRequest } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { ConsultationStatus } from "@/app/generated/prisma/client";
-import { squareClient } from "@/lib/square";
 import {
     errorResponse,
     successResponse,
     requireAuth,
     ErrorCodes,
 } from "@/lib/api-utils";
-import { getRedis, slotLockKey } from "@/lib/redis";
+import { CheckoutError, startCheckout } from "@/lib/checkout";
 
 /**
  * POST /api/v1/payments
- * Creates a Square checkout session for a consultation.
+ * Creates a checkout session with the payment provider for a consultation
+ * (lib/checkout.ts).
  *
- * Body: { consultationId: string }
+ * Body: { consultationId: string, promoCode?: string }
  */
 export async function POST(request: NextRequest) {
     // 1. Authenticate
@@ -26,14 +24,14 @@ export async function POST(request: NextRequest) {
     const { session } = authResult;
 
     // 2. Parse Body
-    let body: { consultationId?: string };
+    let body: { consultationId?: string; promoCode?: unknown };
     try {
         body = await request.json();
     } catch {
         return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
     }
 
-    const { consultationId } = body;
+    const { consultationId, promoCode } = body;
 
     if (!consultationId) {
         return errorResponse(
@@ -44,223 +42,26 @@ export async function POST(request: NextRequest) {
         );
     }
 
-    try {
-        // 3. Fetch Consultation & Validate
-        const consultation = await prisma.consultation.findUnique({
-            where: { id: consultationId },
-        });
-
-        if (!consultation) {
-            return errorResponse(ErrorCodes.NOT_FOUND, "Consultation not found", 404);
-        }
-
-        if (consultation.patientId !== session.user.id) {
-            return errorResponse(
-                ErrorCodes.FORBIDDEN,
-                "You are not authorized to pay for this consultation",
-                403
-            );
-        }
-
-        // Validate Consultation Status
-        const validStatuses: ConsultationStatus[] = [
-            ConsultationStatus.CREATED,
-            ConsultationStatus.PAYMENT_FAILED,
-        ];
-        if (!validStatuses.includes(consultation.status)) {
-            return errorResponse(
-                ErrorCodes.VALIDATION_ERROR,
-                `Payment cannot be initiated for a consultation in ${consultation.status} status`,
-                400,
-                { currentStatus: consultation.status, validStatuses }
-            );
-        }
-
-        // Slot lock needs a concrete slot identity
-        if (!consultation.doctorId || !consultation.scheduledStartAt) {
-            return errorResponse(
-                ErrorCodes.VALIDATION_ERROR,
-                "Consultation must have an assigned doctor and scheduled time before payment",
-                400,
-                { field: "scheduledStartAt" }
-            );
-        }
-
-        // 4. Check for Existing Payments (Idempotency/Duplication)
-        const existingPayment = await prisma.payment.findFirst({
-            where: {
-                consultationId: consultationId,
-                status: { in: ["PENDING", "PAID"] },
-            },
-        });
-
-        if (existingPayment) {
-            return errorResponse(
-                ErrorCodes.CONFLICT,
-                "A payment is already in progress or completed for this consultation",
-                409,
-                { paymentId: existingPayment.id }
-            );
-        }
-
-        // 5. Validate Environment Config
-        const locationId = process.env.SQUARE_LOCATION_ID;
-        if (!locationId) {
-            console.error("Missing SQUARE_LOCATION_ID");
-            return errorResponse(
-                ErrorCodes.INTERNAL_ERROR,
-                "Payment configuration error",
-                500
-            );
-        }
-
-        const baseUrl = process.env.NEXT_PUBLIC_BASE_URL;
-        if (!baseUrl) {
-            console.error("Missing NEXT_PUBLIC_BASE_URL");
-            return errorResponse(
-                ErrorCodes.INTERNAL_ERROR,
-                "Server configuration error",
-                500
-            );
-        }
-
-        // 5. Prepare Payment Link - Use dynamic pricing based on specialty
-        const { getSpecialtyPrice } = await import("@/lib/constants");
-        const priceInDollars = getSpecialtyPrice(consultation.specialty);
-
-        // Validate price to prevent NaN/undefined causing BigInt errors
-        if (typeof priceInDollars !== 'number' || !Number.isFinite(priceInDollars) || priceInDollars <= 0) {
-            console.error(`Invalid specialty price for ${consultation.specialty}: ${priceInDollars}`);
-            return errorResponse(
-                ErrorCodes.INTERNAL_ERROR,
-                `Invalid price configuration for specialty: ${consultation.specialty}`,
-                500
-            );
-        }
-
-        // Use Math.round to avoid floating-point precision issues (e.g., 99.99 * 100 = 9998.9999...)
-        const amountInCents = Math.round(priceInDollars * 100);
-        const redirectUrl = new URL("/checkout/success", baseUrl);
-        redirectUrl.searchParams.set("id", consultationId);
-
-        // Slot lock (Redis TTL) to prevent two users paying for the same slot.
-        // Acquire as late as possible so we don't lock on earlier validation errors.
-        const lockKey = slotLockKey(
-            consultation.doctorId,
-            consultation.scheduledStartAt.getTime()
+    if (promoCode !== undefined && promoCode !== null && typeof promoCode !== "string") {
+        return errorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            "promoCode must be a string",
+            400,
+            { field: "promoCode" }
         );
-        const redis = await getRedis();
-
-        if (!redis) {
-            // Fail fast in production - Redis is required to prevent race conditions
-            if (process.env.NODE_ENV === 'production') {
-                console.error(`[payments/POST] Redis unavailable - failing fast. consultationId=${consultationId}, doctorId=${consultation.doctorId}, slot=${consultation.scheduledStartAt.toISOString()}`);
-                return errorResponse(
-                    ErrorCodes.SERVICE_UNAVAILABLE,
-                    "Payment service temporarily unavailable. Please try again.",
-                    503
-                );
-            }
-            // In development, log warning and proceed with degraded behavior
-            console.warn(`[payments/POST] Redis unavailable - proceeding without slot lock (degraded mode). consultationId=${consultationId}, doctorId=${consultation.doctorId}, slot=${consultation.scheduledStartAt.toISOString()}`);
-        } else {
-            const acquired = await redis.set(lockKey, consultationId, {
-                NX: true,
-                EX: 600, // 10 minutes
-            });
-            if (!acquired) {
-                return errorResponse(
-                    ErrorCodes.CONFLICT,
-                    "Slot is currently being paid for. Pick a different slot.",
-                    409,
-                    {
-                        doctorId: consultation.doctorId,
-                        scheduledStartAt: consultation.scheduledStartAt.toISOString(),
-                    }
-                );
-            }
-        }
-
-        // 6. Call Square SDK
-        // Use deterministic idempotency key for proper retry behavior
-        const idempotencyKey = `payment-${consultationId}`;
-        let result;
-        try {
-            result = await squareClient.checkout.paymentLinks.create({
-                idempotencyKey,
-                order: {
-                    locationId: locationId,
-                    lineItems: [
-                        {
-                            name: `${consultation.specialty} Consultation`,
-                            quantity: "1",
-                            basePriceMoney: {
-                                amount: BigInt(amountInCents),
-                                currency: "USD",
-                            },
-                        },
-                    ],
-                },
-                checkoutOptions: {
-                    redirectUrl: redirectUrl.toString(),
-                },
-            });
-        } catch (squareErr) {
-            // Best-effort early unlock if provider call fails
-            try {
-                if (redis) await redis.del(lockKey);
-            } catch {
-                // ignore
-            }
-            throw squareErr;
-        }
-
-        if (!result.paymentLink?.id || !result.paymentLink?.url) {
-            console.error("Square response missing payment link ID or URL", result);
-            // Best-effort early unlock if provider response is unusable
-            try {
-                if (redis) await redis.del(lockKey);
-            } catch {
-                // ignore
-            }
-            return errorResponse(
-                ErrorCodes.INTERNAL_ERROR,
-                "Failed to retrieve payment link from provider",
-                502
-            );
-        }
+    }
 
-        // 7. Create Pending Payment Record
-        let payment;
-        try {
-            payment = await prisma.payment.create({
-                data: {
-                    consultationId: consultationId,
-                    amount: amountInCents,
-                    status: "PENDING",
-                    providerCheckoutId: result.paymentLink.id,
-                    providerOrderId: result.paymentLink.orderId,
-                    // We'll update providerPaymentId via webhook later
-                },
-            });
-        } catch (dbErr) {
-            // Best-effort early unlock if we failed to persist payment
-            try {
-                if (redis) await redis.del(lockKey);
-            } catch {
-                // ignore
-            }
-            throw dbErr;
+    // 3. Validate, price, lock the slot and create the checkout
+    try {
+        const checkout = await startCheckout(consultationId, session.user.id, {
+            promoCode: typeof promoCode === "string" ? promoCode.trim() || undefined : undefined,
+        });
+        return successResponse(checkout, 201);
+    } catch (error) {
+        if (error instanceof CheckoutError) {
+            return errorResponse(error.code, error.message, error.status, error.details);
         }
 
-        return successResponse(
-            {
-                url: result.paymentLink.url,
-                paymentId: payment.id,
-            },
-            201
-        );
-    } catch (error) {
         console.error("Checkout Creation Error:", error);
         return errorResponse(
             ErrorCodes.INTERNAL_ERROR,
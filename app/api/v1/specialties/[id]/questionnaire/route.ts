@@ -0,0 +1,39 @@
+/**
+ * Specialty Questionnaire API Route
+ * GET /api/v1/specialties/:id/questionnaire - The extra intake questions for a specialty
+ *
+ * `questionnaire` is null for specialties that only use the standard intake.
+ */
+
+import { NextRequest } from "next/server";
+import { errorResponse, successResponse, requireAuth, ErrorCodes } from "@/lib/api-utils";
+import { getSpecialty } from "@/lib/specialties";
+import { QUESTIONNAIRE_VERSION, getQuestionnaire } from "@/lib/questionnaires";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const authResult = await requireAuth();
+  if (authResult.errorResponse) {
+    return authResult.errorResponse;
+  }
+
+  const { id } = await params;
+
+  try {
+    const specialty = await getSpecialty(id);
+    if (!specialty) {
+      return errorResponse(ErrorCodes.NOT_FOUND, "Specialty not found", 404);
+    }
+
+    return successResponse({
+      version: QUESTIONNAIRE_VERSION,
+      questionnaire: getQuestionnaire(specialty.id),
+    });
+  } catch (error) {
+    console.error("Error fetching questionnaire:", error);
+    return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to fetch questionnaire", 500);
+  }
+}
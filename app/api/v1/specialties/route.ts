@@ -0,0 +1,46 @@
+/**
+ * Specialties API Route
+ * GET /api/v1/specialties - List the specialties that can be booked
+ *
+ * Query Params:
+ * - currency: price the specialties in this currency where they have a price in it
+ */
+
+import { NextRequest } from "next/server";
+import { errorResponse, successResponse, requireAuth, ErrorCodes } from "@/lib/api-utils";
+import { listSpecialties } from "@/lib/specialties";
+import { resolveConsultationPrice } from "@/lib/pricing";
+import { SUPPORTED_CURRENCIES, isSupportedCurrency } from "@/lib/currency";
+
+export async function GET(request: NextRequest) {
+  const authResult = await requireAuth();
+  if (authResult.errorResponse) {
+    return authResult.errorResponse;
+  }
+
+  const currency = request.nextUrl.searchParams.get("currency");
+  if (currency && !isSupportedCurrency(currency)) {
+    return errorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      `Invalid currency. Valid options: ${SUPPORTED_CURRENCIES.join(", ")}`,
+      400,
+      { field: "currency", validOptions: SUPPORTED_CURRENCIES }
+    );
+  }
+
+  try {
+    const specialties = await listSpecialties();
+
+    return successResponse({
+      specialties: specialties.map((specialty) => ({
+        id: specialty.id,
+        label: specialty.label,
+        ...resolveConsultationPrice(specialty, null, currency),
+        durationMinutes: specialty.durationMinutes,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching specialties:", error);
+    return errorResponse(ErrorCodes.INTERNAL_ERROR, "Failed to fetch specialties", 500);
+  }
+}
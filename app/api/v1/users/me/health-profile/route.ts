@@ -0,0 +1,110 @@
+/**
+ * Patient health profile API
+ *
+ * GET /api/v1/users/me/health-profile - The signed-in patient's medical history
+ * PUT /api/v1/users/me/health-profile - Replace it
+ *
+ * See lib/health-profile.ts for how intakes use the profile.
+ */
+
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  errorResponse,
+  successResponse,
+  requireAuth,
+  ErrorCodes,
+} from "@/lib/api-utils";
+import { UserRole } from "@/app/generated/prisma/client";
+import { EMPTY_HEALTH_HISTORY, validateHealthProfileInput } from "@/lib/health-profile";
+
+export async function GET() {
+  const authResult = await requireAuth();
+  if (authResult.errorResponse) return authResult.errorResponse;
+
+  const user = authResult.session.user;
+  if (user.role !== UserRole.PATIENT) {
+    return errorResponse(ErrorCodes.FORBIDDEN, "Only patients have a health profile", 403);
+  }
+
+  try {
+    const profile = await prisma.patientHealthProfile.findUnique({
+      where: { patientId: user.id },
+    });
+
+    // Patients who never saved one get an empty profile
+    return successResponse(
+      profile ?? {
+        patientId: user.id,
+        nameOrAlias: null,
+        ageRange: null,
+        ...EMPTY_HEALTH_HISTORY,
+        updatedAt: null,
+      }
+    );
+  } catch (error) {
+    console.error("Error fetching health profile:", error);
+    return errorResponse(
+      ErrorCodes.INTERNAL_ERROR,
+      "Failed to fetch health profile",
+      500
+    );
+  }
+}
+
+/**
+ * Body: { nameOrAlias?, ageRange?, allergies?, currentMedications?,
+ * chronicConditions?, surgeries?, emergencyContactName?,
+ * emergencyContactPhone?, emergencyContactRelationship? }
+ * Omitted fields are cleared.
+ */
+export async function PUT(request: NextRequest) {
+  const authResult = await requireAuth();
+  if (authResult.errorResponse) return authResult.errorResponse;
+
+  const user = authResult.session.user;
+  if (user.role !== UserRole.PATIENT) {
+    return errorResponse(ErrorCodes.FORBIDDEN, "Only patients have a health profile", 403);
+  }
+
+  let body: Record<string, unknown> | null;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(ErrorCodes.VALIDATION_ERROR, "Invalid JSON body", 400);
+  }
+
+  const validated = validateHealthProfileInput(body ?? {});
+  if (!validated.data) {
+    return errorResponse(ErrorCodes.VALIDATION_ERROR, validated.error, 400, { field: validated.field });
+  }
+  const data = validated.data;
+
+  try {
+    const profile = await prisma.$transaction(async (tx) => {
+      const saved = await tx.patientHealthProfile.upsert({
+        where: { patientId: user.id },
+        create: { patientId: user.id, ...data },
+        update: data,
+      });
+
+      await tx.auditEvent.create({
+        data: {
+          actorUserId: user.id,
+          eventType: "HEALTH_PROFILE_UPDATED",
+        },
+      });
+
+      return saved;
+    });
+
+    return successResponse(profile);
+  } catch (error) {
+    console.error("Error updating health profile:", error);
+    return errorResponse(
+      ErrorCodes.INTERNAL_ERROR,
+      "Failed to update health profile",
+      500
+    );
+  }
+}
@@ -13,7 +13,15 @@ import {
   requireAuth,
   ErrorCodes,
 } from "@/lib/api-utils";
-import { UserRole } from "@/app/generated/prisma/client";
+import { UserRole, type Prisma } from "@/app/generated/prisma/client";
+import { validateWorkingHours } from "@/lib/working-hours";
+import {
+  isValidBufferMinutes,
+  validateAppointmentDurations,
+  MAX_BUFFER_MINUTES,
+} from "@/lib/appointment-duration";
+import { findUnassignableSpecialties } from "@/lib/specialties";
+import { validateSpecialtyPrices } from "@/lib/pricing";
 
 function isValidHttpUrl(value: string): boolean {
   try {
@@ -102,7 +110,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     const dp = body.doctorProfile ?? {};
-    const dpData: { specialties?: string[]; timezone?: string | null } = {};
+    const dpData: Prisma.DoctorProfileUpdateInput = {};
 
     if (dp.specialties !== undefined) {
       if (
@@ -117,6 +125,18 @@ export async function PATCH(request: NextRequest) {
           { field: "doctorProfile.specialties" }
         );
       }
+      const invalid = await findUnassignableSpecialties(
+        dp.specialties,
+        existing.doctorProfile.specialties
+      );
+      if (invalid.length > 0) {
+        return errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          `Invalid specialties: ${invalid.join(", ")}`,
+          400,
+          { field: "doctorProfile.specialties" }
+        );
+      }
       dpData.specialties = dp.specialties;
     }
 
@@ -132,10 +152,97 @@ export async function PATCH(request: NextRequest) {
       dpData.timezone = dp.timezone;
     }
 
+    // Weekly working hours replace the whole schedule (interpreted in the profile timezone)
+    if (dp.workingHours !== undefined) {
+      const validation = validateWorkingHours(dp.workingHours);
+      if (validation.error !== undefined) {
+        return errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          `Invalid working hours: ${validation.error}`,
+          400,
+          {
+            field: "doctorProfile.workingHours",
+            ...(validation.index !== undefined ? { index: validation.index } : {}),
+          }
+        );
+      }
+      dpData.workingHours = {
+        deleteMany: {},
+        create: validation.intervals,
+      };
+    }
+
+    if (dp.bufferMinutes !== undefined) {
+      if (!isValidBufferMinutes(dp.bufferMinutes)) {
+        return errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          `bufferMinutes must be an integer between 0 and ${MAX_BUFFER_MINUTES}`,
+          400,
+          { field: "doctorProfile.bufferMinutes" }
+        );
+      }
+      dpData.bufferMinutes = dp.bufferMinutes;
+    }
+
+    // Per-specialty appointment lengths replace the whole list; omitted specialties use their default
+    if (dp.appointmentDurations !== undefined) {
+      const validation = validateAppointmentDurations(
+        dp.appointmentDurations,
+        dp.specialties ?? existing.doctorProfile.specialties
+      );
+      if (validation.error !== undefined) {
+        return errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          `Invalid appointment durations: ${validation.error}`,
+          400,
+          {
+            field: "doctorProfile.appointmentDurations",
+            ...(validation.index !== undefined ? { index: validation.index } : {}),
+          }
+        );
+      }
+      dpData.appointmentDurations = {
+        deleteMany: {},
+        create: validation.durations,
+      };
+    }
+
+    // Per-specialty fees replace the whole list; omitted specialties use the catalog price.
+    // Existing bookings keep the price they were booked at.
+    if (dp.specialtyPrices !== undefined) {
+      const validation = await validateSpecialtyPrices(
+        dp.specialtyPrices,
+        dp.specialties ?? existing.doctorProfile.specialties
+      );
+      if (validation.error !== undefined) {
+        return errorResponse(
+          ErrorCodes.VALIDATION_ERROR,
+          `Invalid specialty prices: ${validation.error}`,
+          400,
+          {
+            field: "doctorProfile.specialtyPrices",
+            ...(validation.index !== undefined ? { index: validation.index } : {}),
+          }
+        );
+      }
+      dpData.specialtyPrices = {
+        deleteMany: {},
+        create: validation.prices,
+      };
+    }
+
     try {
+      const include = {
+        ...(dp.workingHours !== undefined ? { workingHours: true } : {}),
+        ...(dp.appointmentDurations !== undefined
+          ? { appointmentDurations: true }
+          : {}),
+        ...(dp.specialtyPrices !== undefined ? { specialtyPrices: true } : {}),
+      };
       const updatedDoctorProfile = await prisma.doctorProfile.update({
         where: { doctorId: user.id },
         data: dpData,
+        ...(Object.keys(include).length > 0 ? { include } : {}),
       });
 
       return successResponse({
@@ -0,0 +1,76 @@
+import React from "react";
+import { notFound } from "next/navigation";
+import { Video } from "lucide-react";
+import { getVideoProvider } from "@/lib/video-provider";
+import { getLocalMeetingToken, getLocalRoom } from "@/lib/local-video";
+
+/**
+ * Local Call Page
+ *
+ * Placeholder for the Daily Prebuilt call when VIDEO_PROVIDER=local.
+ * The video page embeds it like a Daily room; it only confirms the room
+ * and meeting token so the join and close flows can be exercised offline.
+ */
+export default async function LocalCallPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ roomName: string }>;
+  searchParams: Promise<{ t?: string }>;
+}) {
+  const { roomName } = await params;
+  const { t: token } = await searchParams;
+
+  let enabled = false;
+  try {
+    enabled = getVideoProvider().name === "LOCAL";
+  } catch {
+    // Misconfigured provider - treat as disabled
+  }
+  if (!enabled) {
+    notFound();
+  }
+
+  const room = getLocalRoom(roomName);
+  const participant = room && token ? getLocalMeetingToken(roomName, token) : null;
+
+  if (!room || !participant) {
+    return (
+      <div className="min-h-screen bg-slate-900 flex flex-col items-center justify-center p-8 text-center">
+        <h1 className="text-white text-2xl font-bold mb-4">Call Unavailable</h1>
+        <p className="text-slate-400">
+          {room
+            ? "Your meeting token is missing or has expired. Rejoin from the dashboard."
+            : "This call has ended or does not exist."}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex flex-col items-center justify-center p-8 text-center">
+      <div className="w-20 h-20 bg-emerald-500/10 rounded-full flex items-center justify-center mb-6">
+        <Video className="w-10 h-10 text-emerald-400" />
+      </div>
+      <h1 className="text-white text-2xl font-bold mb-2">Local Test Call</h1>
+      <p className="text-slate-400 mb-6">
+        No audio or video is sent - this room stands in for Daily during
+        development.
+      </p>
+      <dl className="text-sm text-slate-300 space-y-1">
+        <div>
+          <dt className="inline text-slate-500">Room: </dt>
+          <dd className="inline font-mono">{room.name}</dd>
+        </div>
+        <div>
+          <dt className="inline text-slate-500">Participant: </dt>
+          <dd className="inline font-mono">{participant.userId}</dd>
+        </div>
+        <div>
+          <dt className="inline text-slate-500">Role: </dt>
+          <dd className="inline">{participant.isOwner ? "Owner" : "Participant"}</dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
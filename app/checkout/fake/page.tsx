@@ -0,0 +1,121 @@
+import React from "react";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { CreditCard } from "lucide-react";
+import { getPaymentProvider } from "@/lib/payment-provider";
+import { getFakeCheckout } from "@/lib/fake-payments";
+import { formatMoney } from "@/lib/currency";
+
+/**
+ * Fake Checkout Page
+ *
+ * Stands in for the hosted checkout page when PAYMENT_PROVIDER=fake.
+ * Each button posts to /api/v1/payments/fake-checkout, which sends the
+ * matching webhook and redirects back like the real provider would.
+ */
+export default async function FakeCheckoutPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ checkoutId?: string }>;
+}) {
+  const { checkoutId } = await searchParams;
+
+  let enabled = false;
+  try {
+    enabled = getPaymentProvider().name === "FAKE";
+  } catch {
+    // Misconfigured provider - treat as disabled
+  }
+  if (!enabled) {
+    notFound();
+  }
+
+  const checkout = checkoutId ? getFakeCheckout(checkoutId) : null;
+
+  if (!checkout || checkout.orderState !== "OPEN" || checkout.payment) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+        <div className="bg-white p-8 rounded-2xl shadow-xl text-center">
+          <h1 className="text-xl font-bold text-red-600 mb-2">
+            Checkout Unavailable
+          </h1>
+          <p className="text-slate-600">
+            This checkout does not exist or has already been completed.
+          </p>
+          <Link
+            href="/dashboard/patient/appointments"
+            className="text-blue-600 hover:underline mt-4 block"
+          >
+            Return to Appointments
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+      <div className="bg-white p-8 rounded-2xl shadow-xl w-full max-w-md">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+            <CreditCard className="w-5 h-5 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-lg font-bold text-slate-900">Test Checkout</h1>
+            <p className="text-xs text-slate-500">
+              Fake payment provider - no money is moved
+            </p>
+          </div>
+        </div>
+
+        {checkout.discount && (
+          <div className="flex justify-between items-center border-t border-slate-100 py-4 text-sm">
+            <span className="text-slate-500">{checkout.discount.name}</span>
+            <span className="text-emerald-600">
+              -{formatMoney(checkout.discount.amount, checkout.currency)}
+            </span>
+          </div>
+        )}
+
+        <div className="flex justify-between items-center border-y border-slate-100 py-4 mb-6">
+          <span className="text-slate-700">{checkout.name}</span>
+          <span className="font-semibold text-slate-900">
+            {formatMoney(checkout.amount, checkout.currency)}
+          </span>
+        </div>
+
+        <form
+          action="/api/v1/payments/fake-checkout"
+          method="POST"
+          className="space-y-3"
+        >
+          <input type="hidden" name="checkoutId" value={checkout.checkoutId} />
+          <button
+            type="submit"
+            name="outcome"
+            value="PAY"
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 rounded-xl"
+          >
+            Pay
+          </button>
+          <button
+            type="submit"
+            name="outcome"
+            value="DECLINE"
+            className="w-full bg-white border border-red-200 text-red-600 hover:bg-red-50 font-semibold py-3 rounded-xl"
+          >
+            Decline Card
+          </button>
+          <button
+            type="submit"
+            name="outcome"
+            value="CANCEL"
+            className="w-full text-slate-500 hover:text-slate-700 py-2"
+          >
+            Cancel Checkout
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
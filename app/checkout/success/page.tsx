@@ -10,22 +10,32 @@ import {
   User,
   Stethoscope,
   CalendarPlus,
+  Download,
 } from "lucide-react";
 import { prisma } from "@/lib/prisma";
-import { squareClient } from "@/lib/square";
+import { getPaymentProvider } from "@/lib/payment-provider";
 import {
   ConsultationStatus,
   PaymentStatus,
 } from "@/app/generated/prisma/client";
 import { format } from "date-fns";
-import { getSpecialtyPrice, SPECIALTIES } from "@/lib/constants";
+import { getSpecialty } from "@/lib/specialties";
 import { formatDoctorName } from "@/lib/api-utils";
+import { formatPrice, isValidStatusTransition } from "@/lib/types";
+import { localeFromAcceptLanguage } from "@/lib/currency";
+import type { ConsultationPrice } from "@/lib/pricing";
+import {
+  applyConsultationTransition,
+  runConsultationTransitionHooks,
+  transitionConsultation,
+  TransitionConflictError,
+} from "@/lib/consultation-transitions";
 
 /**
  * Payment Success / Appointment Confirmation Page
  *
- * This page is shown after Square redirects back from checkout.
- * It VERIFIES the payment with Square API before updating status.
+ * This page is shown after the payment provider redirects back from checkout.
+ * It VERIFIES the payment with the provider before updating status.
  * Shows full appointment details after successful payment.
  */
 export default async function PaymentSuccessPage({
@@ -63,7 +73,8 @@ export default async function PaymentSuccessPage({
     doctorName: string;
     specialty: string;
     scheduledStartAt: Date | null;
-    amountPaid: number;
+    amountPaid: ConsultationPrice;
+    paymentId: string;
   } | null = null;
 
   try {
@@ -79,6 +90,7 @@ export default async function PaymentSuccessPage({
             id: true,
             status: true,
             specialty: true,
+            doctorId: true,
             scheduledStartAt: true,
             doctor: {
               select: { name: true },
@@ -93,14 +105,24 @@ export default async function PaymentSuccessPage({
     } else if (payment.status === PaymentStatus.PAID) {
       // Payment is already paid - ensure consultation is also marked as PAID
       if (
-        payment.consultation.status !== ConsultationStatus.PAID &&
-        payment.consultation.status !== ConsultationStatus.IN_CALL &&
-        payment.consultation.status !== ConsultationStatus.COMPLETED
+        isValidStatusTransition(
+          payment.consultation.status,
+          ConsultationStatus.PAID,
+          true
+        )
       ) {
-        await prisma.consultation.update({
-          where: { id: consultationId },
-          data: { status: ConsultationStatus.PAID },
-        });
+        try {
+          await transitionConsultation(
+            payment.consultation,
+            ConsultationStatus.PAID,
+            { metadata: { reason: "CHECKOUT_RETURN" }, system: true }
+          );
+        } catch (transitionErr) {
+          // The webhook got there first
+          if (!(transitionErr instanceof TransitionConflictError)) {
+            throw transitionErr;
+          }
+        }
       }
       paymentVerified = true;
       consultationDetails = {
@@ -108,27 +130,29 @@ export default async function PaymentSuccessPage({
         doctorName: payment.consultation.doctor?.name || "Your Doctor",
         specialty: payment.consultation.specialty,
         scheduledStartAt: payment.consultation.scheduledStartAt,
-        amountPaid: Number(payment.amount) / 100, // Convert cents to dollars
+        amountPaid: paidAmount(payment),
+        paymentId: payment.id,
       };
     } else if (payment.providerOrderId) {
-      // Payment is PENDING - verify with Square API before updating
+      // Payment is PENDING - verify with the payment provider before updating
       try {
-        const orderResponse = await squareClient.orders.get({
-          orderId: payment.providerOrderId!,
-        });
-        const order = orderResponse.order;
+        const checkout = await getPaymentProvider(
+          payment.provider
+        ).getCheckoutStatus(payment.providerOrderId);
 
-        const hasTenders = order?.tenders && order.tenders.length > 0;
-        const isCompleted = order?.state === "COMPLETED";
+        const isPaid = checkout.payment?.status === "COMPLETED";
+        const isCompleted = checkout.orderState === "COMPLETED";
 
-        if (hasTenders || isCompleted) {
-          // Payment is confirmed by Square API. Now we need to update both payment AND consultation.
+        if (isPaid || isCompleted) {
+          // Payment is confirmed by the provider. Now we need to update both payment AND consultation.
           // First, check if webhook already handled it (consultation might already be PAID or PAYMENT_FAILED).
           const currentConsultation = await prisma.consultation.findUnique({
             where: { id: consultationId },
             select: {
+              id: true,
               status: true,
               specialty: true,
+              doctorId: true,
               scheduledStartAt: true,
               doctor: { select: { name: true } },
             },
@@ -158,7 +182,8 @@ export default async function PaymentSuccessPage({
               scheduledStartAt:
                 currentConsultation?.scheduledStartAt ??
                 payment.consultation.scheduledStartAt,
-              amountPaid: Number(payment.amount) / 100,
+              amountPaid: paidAmount(payment),
+              paymentId: payment.id,
             };
           } else if (
             currentConsultation?.status === ConsultationStatus.PAYMENT_FAILED
@@ -166,23 +191,37 @@ export default async function PaymentSuccessPage({
             // Webhook already detected a slot conflict
             errorMessage =
               "This slot was taken while your payment was processing. Please pick a different slot.";
+          } else if (
+            !currentConsultation ||
+            !isValidStatusTransition(
+              currentConsultation.status,
+              ConsultationStatus.PAID,
+              true
+            )
+          ) {
+            // Cancelled or expired while the patient was paying
+            errorMessage =
+              "This consultation can no longer be confirmed. Please contact support about your payment.";
           } else {
             // Webhook hasn't processed yet - update both payment AND consultation status
             // The consultation is likely still in CREATED or PAYMENT_PENDING status
             try {
-              await prisma.$transaction([
-                prisma.payment.update({
+              const transition = await prisma.$transaction(async (tx) => {
+                await tx.payment.update({
                   where: { id: payment.id },
                   data: {
                     status: PaymentStatus.PAID,
                     paidAt: new Date(),
                   },
-                }),
-                prisma.consultation.update({
-                  where: { id: consultationId },
-                  data: { status: ConsultationStatus.PAID },
-                }),
-              ]);
+                });
+                return applyConsultationTransition(
+                  tx,
+                  currentConsultation,
+                  ConsultationStatus.PAID,
+                  { metadata: { reason: "CHECKOUT_RETURN" }, system: true }
+                );
+              });
+              await runConsultationTransitionHooks(transition);
 
               paymentVerified = true;
               consultationDetails = {
@@ -194,17 +233,19 @@ export default async function PaymentSuccessPage({
                 scheduledStartAt:
                   currentConsultation?.scheduledStartAt ??
                   payment.consultation.scheduledStartAt,
-                amountPaid: Number(payment.amount) / 100,
+                amountPaid: paidAmount(payment),
+                paymentId: payment.id,
               };
             } catch (updateErr: unknown) {
               // If there's a unique constraint violation (slot taken by another booking),
               // mark consultation as PAYMENT_FAILED
               const err = updateErr as { code?: string };
               if (err?.code === "P2002") {
-                await prisma.consultation.update({
-                  where: { id: consultationId },
-                  data: { status: ConsultationStatus.PAYMENT_FAILED },
-                });
+                await transitionConsultation(
+                  currentConsultation,
+                  ConsultationStatus.PAYMENT_FAILED,
+                  { metadata: { reason: "SLOT_TAKEN" }, system: true }
+                );
                 errorMessage =
                   "This slot was taken while your payment was processing. Please pick a different slot.";
               } else {
@@ -215,8 +256,8 @@ export default async function PaymentSuccessPage({
         } else {
           isPending = true;
         }
-      } catch (squareError) {
-        console.error("Square API verification error:", squareError);
+      } catch (providerError) {
+        console.error("Payment provider verification error:", providerError);
         isPending = true;
       }
     } else {
@@ -227,7 +268,7 @@ export default async function PaymentSuccessPage({
     errorMessage = "Unable to verify payment status. Please try again.";
   }
 
-  // Pending state - payment not yet confirmed by Square
+  // Pending state - payment not yet confirmed by the provider
   if (isPending) {
     return (
       <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
@@ -300,9 +341,9 @@ export default async function PaymentSuccessPage({
   }
 
   // Get specialty label
-  const specialtyInfo = SPECIALTIES.find(
-    (s) => s.id === consultationDetails?.specialty
-  );
+  const specialtyInfo = consultationDetails
+    ? await getSpecialty(consultationDetails.specialty)
+    : null;
   const specialtyLabel =
     specialtyInfo?.label ||
     consultationDetails?.specialty ||
@@ -322,6 +363,7 @@ export default async function PaymentSuccessPage({
   const host = headersList.get("host") || "localhost:3000";
   const protocol = headersList.get("x-forwarded-proto") || "http";
   const appOrigin = process.env.NEXT_PUBLIC_APP_URL || `${protocol}://${host}`;
+  const locale = localeFromAcceptLanguage(headersList.get("accept-language"));
 
   const generateCalendarLink = () => {
     if (!consultationDetails?.scheduledStartAt) return "#";
@@ -415,7 +457,12 @@ export default async function PaymentSuccessPage({
                   Amount Paid
                 </p>
                 <p className="text-2xl font-bold text-emerald-700">
-                  ${consultationDetails?.amountPaid}
+                  {consultationDetails &&
+                    formatPrice(
+                      consultationDetails.amountPaid.price,
+                      consultationDetails.amountPaid.currency,
+                      locale
+                    )}
                 </p>
               </div>
               <div className="px-3 py-1 bg-emerald-100 rounded-full">
@@ -451,6 +498,17 @@ export default async function PaymentSuccessPage({
               <CalendarPlus className="h-5 w-5" />
               Add to Google Calendar
             </a>
+
+            {consultationDetails && (
+              <a
+                href={`/api/v1/payments/${consultationDetails.paymentId}/receipt`}
+                download
+                className="w-full text-slate-500 py-2 text-sm font-medium flex items-center justify-center gap-2 hover:text-slate-700"
+              >
+                <Download className="h-4 w-4" />
+                Download Receipt
+              </a>
+            )}
           </div>
         </div>
 
@@ -470,3 +528,11 @@ export default async function PaymentSuccessPage({
     </div>
   );
 }
+
+/**
+ * What the patient was charged: the price agreed at booking less any promo
+ * code discount
+ */
+function paidAmount(payment: { amount: number; currency: string }): ConsultationPrice {
+  return { price: payment.amount, currency: payment.currency };
+}
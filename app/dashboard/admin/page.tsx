@@ -15,17 +15,20 @@ import {
     Clock,
     ArrowRight,
     Stethoscope,
-    ClipboardList
+    ClipboardList,
+    Webhook
 } from "lucide-react";
 import { AdminSearchBar } from "@/components/admin/AdminSearchBar";
 import { prisma } from "@/lib/prisma";
 import { UserRole, ConsultationStatus, PaymentStatus } from "@/app/generated/prisma/client";
 import { formatDistanceToNow } from "date-fns";
 import { formatDoctorName } from "@/lib/api-utils";
+import { DEFAULT_CURRENCY, formatMoney, localeFromAcceptLanguage } from "@/lib/currency";
 
 export default async function AdminDashboard() {
+    const requestHeaders = await headers();
     const session = await auth.api.getSession({
-        headers: await headers(),
+        headers: requestHeaders,
     });
 
     if (!session || session.user.role !== "ADMIN") {
@@ -39,7 +42,7 @@ export default async function AdminDashboard() {
         patientCount,
         consultationCount,
         todayConsultations,
-        totalRevenue,
+        revenueByCurrency,
         pendingPayments,
         recentConsultations,
         recentUsers
@@ -56,9 +59,12 @@ export default async function AdminDashboard() {
                 }
             }
         }),
-        prisma.payment.aggregate({
+        // Amounts in different currencies cannot be added together
+        prisma.payment.groupBy({
+            by: ["currency"],
             _sum: { amount: true },
-            where: { status: PaymentStatus.PAID }
+            where: { status: PaymentStatus.PAID },
+            orderBy: { currency: "asc" }
         }),
         prisma.payment.count({
             where: { status: PaymentStatus.PENDING }
@@ -78,7 +84,10 @@ export default async function AdminDashboard() {
         })
     ]);
 
-    const revenueInDollars = Number(totalRevenue._sum.amount || 0) / 100;
+    const locale = localeFromAcceptLanguage(requestHeaders.get("accept-language"));
+    const revenue = revenueByCurrency.length > 0
+        ? revenueByCurrency.map((r) => formatMoney(r._sum.amount ?? 0, r.currency, locale)).join(" · ")
+        : formatMoney(0, DEFAULT_CURRENCY, locale);
 
     const stats = [
         {
@@ -118,7 +127,7 @@ export default async function AdminDashboard() {
         },
         {
             title: "Total Revenue",
-            value: `$${revenueInDollars.toLocaleString()}`,
+            value: revenue,
             icon: DollarSign,
             color: "text-emerald-600 bg-emerald-100",
             href: "/dashboard/admin/consultations?status=PAID"
@@ -143,6 +152,7 @@ export default async function AdminDashboard() {
         { label: "Manage Users", href: "/dashboard/admin/users", icon: Users },
         { label: "View Consultations", href: "/dashboard/admin/consultations", icon: ClipboardList },
         { label: "Audit Logs", href: "/dashboard/admin/audit", icon: ShieldCheck },
+        { label: "Webhook Events", href: "/dashboard/admin/webhooks", icon: Webhook },
     ];
 
     const getStatusColor = (status: ConsultationStatus) => {
@@ -208,7 +218,7 @@ export default async function AdminDashboard() {
             </div>
 
             {/* Quick Actions */}
-            <div className="grid gap-4 md:grid-cols-3">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
                 {quickActions.map((action, index) => {
                     const Icon = action.icon;
                     return (
@@ -0,0 +1,16 @@
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import WebhooksPage from "@/components/admin/WebhooksPage";
+
+export default async function AdminWebhooksWrapper() {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session || session.user.role !== "ADMIN") {
+        redirect("/dashboard");
+    }
+
+    return <WebhooksPage />;
+}
@@ -0,0 +1,63 @@
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import { prisma } from "@/lib/prisma";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import ClinicalNoteEditor from "@/components/doctor/ClinicalNoteEditor";
+import PrescriptionEditor from "@/components/doctor/PrescriptionEditor";
+
+export default async function ConsultationNotesPage({ params }: { params: Promise<{ id: string }> }) {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session || session.user.role !== "DOCTOR") {
+        redirect("/dashboard");
+    }
+
+    const { id } = await params;
+    const consultation = await prisma.consultation.findUnique({
+        where: { id },
+        include: {
+            patient: { select: { name: true } },
+            patientIntake: { select: { nameOrAlias: true, chiefComplaint: true } },
+        },
+    });
+
+    if (!consultation || consultation.doctorId !== session.user.id) {
+        notFound();
+    }
+
+    const patientName = consultation.patientIntake?.nameOrAlias || consultation.patient.name;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight">Clinical Notes</h1>
+                    <p className="text-muted-foreground">
+                        {patientName} · {consultation.specialty}
+                        {consultation.scheduledStartAt && ` · ${new Date(consultation.scheduledStartAt).toLocaleString()}`}
+                    </p>
+                    {consultation.patientIntake?.chiefComplaint && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                            Chief complaint: {consultation.patientIntake.chiefComplaint}
+                        </p>
+                    )}
+                </div>
+                <Link href="/dashboard/doctor/consultations">
+                    <Button variant="outline" size="sm" className="gap-2">
+                        <ArrowLeft className="h-4 w-4" /> Consultations
+                    </Button>
+                </Link>
+            </div>
+            <ClinicalNoteEditor consultationId={consultation.id} />
+            <div className="space-y-4">
+                <h2 className="text-xl font-semibold">Prescriptions</h2>
+                <PrescriptionEditor consultationId={consultation.id} />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,120 @@
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import { prisma } from "@/lib/prisma";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, FileText, Paperclip, Video } from "lucide-react";
+import PatientHealthSummary from "@/components/doctor/PatientHealthSummary";
+import QuestionnaireSummary from "@/components/doctor/QuestionnaireSummary";
+import { IntakeAttachments } from "@/components/intake/IntakeAttachments";
+import type { QuestionnaireResponse } from "@/lib/questionnaires";
+import { getEffectiveStatus, isConsultationJoinable } from "@/lib/consultation-utils";
+
+export default async function DoctorConsultationPage({ params }: { params: Promise<{ id: string }> }) {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session || session.user.role !== "DOCTOR") {
+        redirect("/dashboard");
+    }
+
+    const { id } = await params;
+    const consultation = await prisma.consultation.findUnique({
+        where: { id },
+        include: {
+            patient: { select: { name: true } },
+            patientIntake: true,
+        },
+    });
+
+    if (!consultation || consultation.doctorId !== session.user.id) {
+        notFound();
+    }
+
+    const intake = consultation.patientIntake;
+    const questionnaire = intake?.questionnaire as QuestionnaireResponse | null | undefined;
+    const patientName = intake?.nameOrAlias || consultation.patient.name;
+    // eslint-disable-next-line react-hooks/purity
+    const now = Date.now();
+    const canJoin = isConsultationJoinable(consultation, now);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight">{patientName}</h1>
+                    <p className="text-muted-foreground">
+                        {consultation.specialty}
+                        {consultation.scheduledStartAt && ` · ${new Date(consultation.scheduledStartAt).toLocaleString()}`}
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    {canJoin && (
+                        <Link href={`/video/${consultation.id}`}>
+                            <Button size="sm" className="gap-2">
+                                <Video className="h-4 w-4" /> {consultation.status === "IN_CALL" ? "Rejoin" : "Join"}
+                            </Button>
+                        </Link>
+                    )}
+                    {(consultation.status === "IN_CALL" || consultation.status === "COMPLETED") && (
+                        <Link href={`/dashboard/doctor/consultations/${consultation.id}/notes`}>
+                            <Button size="sm" variant="outline" className="gap-2">
+                                <FileText className="h-4 w-4" /> Notes
+                            </Button>
+                        </Link>
+                    )}
+                    <Link href="/dashboard/doctor/consultations">
+                        <Button variant="outline" size="sm" className="gap-2">
+                            <ArrowLeft className="h-4 w-4" /> Consultations
+                        </Button>
+                    </Link>
+                </div>
+            </div>
+
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                    <CardTitle className="text-base">Intake</CardTitle>
+                    <Badge variant="outline">{getEffectiveStatus(consultation, now)}</Badge>
+                </CardHeader>
+                <CardContent className="grid gap-4 md:grid-cols-2 text-sm">
+                    {intake ? (
+                        <>
+                            <div>
+                                <div className="text-xs font-semibold text-slate-500">Age range</div>
+                                <p>{intake.ageRange || "Not specified"}</p>
+                            </div>
+                            <div>
+                                <div className="text-xs font-semibold text-slate-500">Chief complaint</div>
+                                <p className="whitespace-pre-wrap">{intake.chiefComplaint || "Not specified"}</p>
+                            </div>
+                        </>
+                    ) : (
+                        <p className="text-muted-foreground">The patient has not submitted an intake.</p>
+                    )}
+                </CardContent>
+            </Card>
+
+            {questionnaire && <QuestionnaireSummary response={questionnaire} />}
+
+            {intake && <PatientHealthSummary history={intake} submittedAt={intake.createdAt} />}
+
+            {intake && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-base">
+                            <Paperclip className="h-5 w-5" />
+                            Photos & Documents
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <IntakeAttachments consultationId={consultation.id} />
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+}
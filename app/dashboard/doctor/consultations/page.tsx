@@ -4,7 +4,7 @@ import { redirect } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Video } from "lucide-react";
+import { ClipboardList, FileText, Video } from "lucide-react";
 import Link from "next/link";
 import { getEffectiveStatus, isConsultationJoinable, isConsultationExpired } from "@/lib/consultation-utils";
 
@@ -20,7 +20,8 @@ export default async function DoctorConsultationsPage() {
     const consultations = await prisma.consultation.findMany({
         where: { doctorId: session.user.id },
         include: {
-            patient: { select: { name: true, email: true } }
+            patient: { select: { name: true, email: true } },
+            patientIntake: { select: { id: true } }
         },
         orderBy: { createdAt: 'desc' }
     });
@@ -84,13 +85,29 @@ export default async function DoctorConsultationsPage() {
                                             </Badge>
                                         </td>
                                         <td className="p-4 align-middle">
-                                            {canJoin && (
-                                                <Link href={`/video/${c.id}`}>
-                                                    <Button size="sm" className="gap-2">
-                                                        <Video className="h-4 w-4" /> {c.status === 'IN_CALL' ? 'Rejoin' : 'Join'}
-                                                    </Button>
-                                                </Link>
-                                            )}
+                                            <div className="flex gap-2">
+                                                {c.patientIntake && (
+                                                    <Link href={`/dashboard/doctor/consultations/${c.id}`}>
+                                                        <Button size="sm" variant="outline" className="gap-2">
+                                                            <ClipboardList className="h-4 w-4" /> Intake
+                                                        </Button>
+                                                    </Link>
+                                                )}
+                                                {canJoin && (
+                                                    <Link href={`/video/${c.id}`}>
+                                                        <Button size="sm" className="gap-2">
+                                                            <Video className="h-4 w-4" /> {c.status === 'IN_CALL' ? 'Rejoin' : 'Join'}
+                                                        </Button>
+                                                    </Link>
+                                                )}
+                                                {(c.status === 'IN_CALL' || c.status === 'COMPLETED') && (
+                                                    <Link href={`/dashboard/doctor/consultations/${c.id}/notes`}>
+                                                        <Button size="sm" variant="outline" className="gap-2">
+                                                            <FileText className="h-4 w-4" /> Notes
+                                                        </Button>
+                                                    </Link>
+                                                )}
+                                            </div>
                                         </td>
                                     </tr>
                                 );
@@ -5,11 +5,16 @@ import { prisma } from "@/lib/prisma";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Video, Calendar, Clock, CreditCard, AlertCircle } from "lucide-react";
+import { Video, Calendar, Clock, CreditCard, AlertCircle, Download } from "lucide-react";
 import Link from "next/link";
 import { PayButton } from "@/components/patient/PayButton";
+import { RescheduleButton } from "@/components/patient/RescheduleButton";
+import { AttachmentsButton } from "@/components/patient/AttachmentsButton";
 import { getEffectiveStatus, isConsultationJoinable, isConsultationExpired } from "@/lib/consultation-utils";
 import { formatDoctorName } from "@/lib/api-utils";
+import { getRescheduleMinNoticeHours, meetsMinimumNotice, RESCHEDULABLE_STATUSES } from "@/lib/reschedule";
+import { RECEIPT_PAYMENT_STATUSES } from "@/lib/receipts";
+import { ATTACHMENT_UPLOAD_STATUSES } from "@/lib/intake-attachments";
 
 export default async function AppointmentsPage() {
     const session = await auth.api.getSession({
@@ -24,7 +29,15 @@ export default async function AppointmentsPage() {
     const consultations = await prisma.consultation.findMany({
         where: { patientId: session.user.id },
         include: {
-            doctor: { select: { name: true, email: true } }
+            doctor: { select: { name: true, email: true } },
+            patientIntake: { select: { id: true } },
+            // The payment a receipt can be downloaded for, if any
+            payments: {
+                where: { status: { in: RECEIPT_PAYMENT_STATUSES } },
+                select: { id: true },
+                orderBy: { createdAt: 'desc' },
+                take: 1
+            }
         },
         orderBy: { scheduledStartAt: 'desc' }
     });
@@ -32,6 +45,36 @@ export default async function AppointmentsPage() {
     const now = new Date();
     const nowMs = now.getTime();
 
+    // Patients can move a booking until the minimum notice period before it starts
+    const minNoticeHours = getRescheduleMinNoticeHours();
+    const renderReschedule = (c: (typeof consultations)[number]) =>
+        RESCHEDULABLE_STATUSES.includes(c.status) && c.doctorId && c.scheduledStartAt &&
+            meetsMinimumNotice(c.scheduledStartAt, nowMs, minNoticeHours) ? (
+            <RescheduleButton
+                consultationId={c.id}
+                doctorId={c.doctorId}
+                specialty={c.specialty}
+                scheduledStartAt={c.scheduledStartAt.toISOString()}
+                minNoticeHours={minNoticeHours}
+            />
+        ) : null;
+
+    // Files are attached to the intake, until the call ends
+    const renderAttachments = (c: (typeof consultations)[number]) =>
+        c.patientIntake && ATTACHMENT_UPLOAD_STATUSES.includes(c.status) ? (
+            <AttachmentsButton consultationId={c.id} />
+        ) : null;
+
+    const renderReceipt = (c: (typeof consultations)[number]) =>
+        c.payments[0] ? (
+            <Button asChild variant="ghost" size="sm" className="gap-2">
+                <a href={`/api/v1/payments/${c.payments[0].id}/receipt`} download>
+                    <Download className="h-4 w-4" />
+                    Receipt
+                </a>
+            </Button>
+        ) : null;
+
     // Split into categories using effective status
     // Upcoming: PAID/IN_CALL that are joinable or upcoming (not expired)
     const upcomingConsultations = consultations.filter(
@@ -132,6 +175,9 @@ export default async function AppointmentsPage() {
                                             </Button>
                                         )
                                     )}
+                                    {renderReschedule(c)}
+                                    {renderAttachments(c)}
+                                    {renderReceipt(c)}
                                 </CardContent>
                             </Card>
                         ))}
@@ -167,6 +213,8 @@ export default async function AppointmentsPage() {
                                         <span>{formatDateTime(c.scheduledStartAt)}</span>
                                     </div>
                                     <PayButton consultationId={c.id} />
+                                    {renderReschedule(c)}
+                                    {renderAttachments(c)}
                                 </CardContent>
                             </Card>
                         ))}
@@ -196,6 +244,7 @@ export default async function AppointmentsPage() {
                                     <th className="h-12 px-4 align-middle font-medium text-muted-foreground">Specialty</th>
                                     <th className="h-12 px-4 align-middle font-medium text-muted-foreground">Doctor</th>
                                     <th className="h-12 px-4 align-middle font-medium text-muted-foreground">Status</th>
+                                    <th className="h-12 px-4 align-middle font-medium text-muted-foreground"></th>
                                 </tr>
                             </thead>
                             <tbody>
@@ -211,6 +260,7 @@ export default async function AppointmentsPage() {
                                             <td className="p-4 align-middle">
                                                 <Badge variant={getStatusVariant(effectiveStatus)}>{effectiveStatus}</Badge>
                                             </td>
+                                            <td className="p-4 align-middle text-right">{renderReceipt(c)}</td>
                                         </tr>
                                     );
                                 })}
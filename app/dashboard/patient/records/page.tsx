@@ -4,8 +4,11 @@ import { redirect } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { FileText, Calendar, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { FileText, Calendar, User, Download, Pill } from "lucide-react";
 import { formatDoctorName } from "@/lib/api-utils";
+import { RECEIPT_PAYMENT_STATUSES } from "@/lib/receipts";
+import { FREQUENCIES } from "@/lib/prescriptions";
 
 export default async function MedicalRecordsPage() {
     const session = await auth.api.getSession({
@@ -24,7 +27,18 @@ export default async function MedicalRecordsPage() {
         },
         include: {
             doctor: { select: { name: true } },
-            patientIntake: true
+            patientIntake: true,
+            payments: {
+                where: { status: { in: RECEIPT_PAYMENT_STATUSES } },
+                select: { id: true },
+                orderBy: { createdAt: 'desc' },
+                take: 1
+            },
+            prescriptions: {
+                where: { status: 'SIGNED' },
+                include: { items: { orderBy: { id: 'asc' } } },
+                orderBy: { signedAt: 'asc' }
+            }
         },
         orderBy: { endedAt: 'desc' }
     });
@@ -97,6 +111,40 @@ export default async function MedicalRecordsPage() {
                                             No intake information recorded for this consultation.
                                         </p>
                                     )}
+                                    {c.prescriptions.map((prescription) => (
+                                        <div key={prescription.id} className="mt-3 rounded-lg border p-4">
+                                            <p className="text-sm font-medium flex items-center gap-2 mb-2">
+                                                <Pill className="h-4 w-4 text-purple-600" />
+                                                Prescription
+                                                {prescription.signedAt && (
+                                                    <span className="text-xs font-normal text-muted-foreground">
+                                                        signed {new Date(prescription.signedAt).toLocaleDateString()}
+                                                    </span>
+                                                )}
+                                            </p>
+                                            <ul className="text-sm space-y-1 mb-3">
+                                                {prescription.items.map((item) => (
+                                                    <li key={item.id}>
+                                                        {item.drugName} {item.strength} - {item.dose}, {FREQUENCIES[item.frequency] ?? item.frequency}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                            <Button asChild variant="outline" size="sm" className="gap-2">
+                                                <a href={`/api/v1/consultations/${c.id}/prescriptions/${prescription.id}/pdf`} download>
+                                                    <Download className="h-4 w-4" />
+                                                    Download Prescription
+                                                </a>
+                                            </Button>
+                                        </div>
+                                    ))}
+                                    {c.payments[0] && (
+                                        <Button asChild variant="outline" size="sm" className="mt-3 gap-2">
+                                            <a href={`/api/v1/payments/${c.payments[0].id}/receipt`} download>
+                                                <Download className="h-4 w-4" />
+                                                Download Receipt
+                                            </a>
+                                        </Button>
+                                    )}
                                 </CardContent>
                             </Card>
                         ))}
@@ -5,7 +5,10 @@ import { prisma } from "@/lib/prisma";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { User, Mail, Calendar, Shield } from "lucide-react";
+import { User, Mail, Calendar, Shield, HeartPulse } from "lucide-react";
+import { HealthProfileForm } from "@/components/patient/HealthProfileForm";
+import { healthHistorySnapshot, type HealthProfileInput } from "@/lib/health-profile";
+import type { AgeRange } from "@/lib/types";
 
 export default async function SettingsPage() {
     const session = await auth.api.getSession({
@@ -39,6 +42,15 @@ export default async function SettingsPage() {
         where: { patientId: session.user.id }
     });
 
+    const healthProfile = await prisma.patientHealthProfile.findUnique({
+        where: { patientId: session.user.id }
+    });
+    const profileValues: HealthProfileInput = {
+        ...healthHistorySnapshot(healthProfile),
+        nameOrAlias: healthProfile?.nameOrAlias ?? null,
+        ageRange: (healthProfile?.ageRange ?? null) as AgeRange | null,
+    };
+
     return (
         <div className="space-y-8">
             <div>
@@ -99,6 +111,22 @@ export default async function SettingsPage() {
                 </CardContent>
             </Card>
 
+            {/* Health Profile */}
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <HeartPulse className="h-5 w-5" />
+                        Health Profile
+                    </CardTitle>
+                    <CardDescription>
+                        Your medical history. New intakes start from it, and your doctor sees it before the call.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <HealthProfileForm profile={profileValues} />
+                </CardContent>
+            </Card>
+
             {/* Account Settings */}
             <Card>
                 <CardHeader>
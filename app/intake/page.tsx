@@ -1,14 +1,30 @@
+import { headers } from "next/headers";
 import IntakeForm from "@/components/intake/IntakeForm";
+import { listSpecialties } from "@/lib/specialties";
+import { resolveConsultationPrice } from "@/lib/pricing";
+import { currencyForLocale, localeFromAcceptLanguage } from "@/lib/currency";
 
 /**
  * The Server Component route that renders the Patient Intake Form.
+ * Prices are shown in the currency of the patient's locale where set.
  */
-export default function IntakePage() {
+export default async function IntakePage() {
+  const specialties = await listSpecialties();
+  const locale = localeFromAcceptLanguage((await headers()).get("accept-language"));
+  const currency = currencyForLocale(locale);
+
   return (
     <div className="min-h-screen bg-slate-50">
       <div className="max-w-7xl mx-auto py-12">
-        <IntakeForm />
+        <IntakeForm
+          specialties={specialties.map((specialty) => ({
+            id: specialty.id,
+            label: specialty.label,
+            ...resolveConsultationPrice(specialty, null, currency),
+            durationMinutes: specialty.durationMinutes,
+          }))}
+        />
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -4,7 +4,8 @@ import { useState, useEffect, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { DailyFrame } from '@/components/video/DailyFrame';
-import { ArrowLeft } from 'lucide-react';
+import PrescriptionEditor from '@/components/doctor/PrescriptionEditor';
+import { ArrowLeft, Pill } from 'lucide-react';
 
 interface JoinResponse {
     joinUrl: string;
@@ -41,6 +42,7 @@ export default function VideoPage() {
 
     const [state, setState] = useState<PageState>({ status: 'loading' });
     const [isEnding, setIsEnding] = useState(false);
+    const [showPrescriptions, setShowPrescriptions] = useState(false);
 
     // Fetch join URL from API
     useEffect(() => {
@@ -171,6 +173,15 @@ export default function VideoPage() {
                         <div className="text-slate-500 text-sm">
                             Consultation ID: {consultationId.slice(0, 8)}...
                         </div>
+                        {state.data.isDoctor && (
+                            <button
+                                onClick={() => setShowPrescriptions(!showPrescriptions)}
+                                className="inline-flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                            >
+                                <Pill className="h-4 w-4" />
+                                {showPrescriptions ? 'Hide Prescriptions' : 'Prescribe'}
+                            </button>
+                        )}
                         {state.data.isDoctor && (
                             <button
                                 onClick={handleEndConsultation}
@@ -184,12 +195,19 @@ export default function VideoPage() {
                 </div>
             </div>
 
-            {/* Video frame - takes remaining height */}
-            <div className="flex-1 min-h-0 relative">
-                <DailyFrame
-                    joinUrl={state.data.joinUrl}
-                    onCallEnded={handleCallEnded}
-                />
+            {/* Video frame - takes remaining height, next to the prescription panel when open */}
+            <div className="flex-1 min-h-0 flex">
+                <div className="flex-1 min-w-0 relative">
+                    <DailyFrame
+                        joinUrl={state.data.joinUrl}
+                        onCallEnded={handleCallEnded}
+                    />
+                </div>
+                {showPrescriptions && (
+                    <aside className="w-[26rem] flex-shrink-0 overflow-y-auto bg-slate-50 dark:bg-slate-950 p-4">
+                        <PrescriptionEditor consultationId={consultationId} compact />
+                    </aside>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,248 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { formatMoney, fromMinorUnits, toMinorUnits } from "@/lib/currency";
+
+export interface AdminPayment {
+    id: string;
+    status: string;
+    amount: number;
+    currency: string;
+    refundedAmount: number;
+    paidAt: string | null;
+}
+
+export interface AdminConsultation {
+    id: string;
+    patient: { name: string; email: string };
+    doctor: { name: string; email: string } | null;
+    specialty: string;
+    status: string;
+    createdAt: string;
+    scheduledStartAt: string | null;
+    payments: AdminPayment[];
+}
+
+interface Refund {
+    id: string;
+    amount: number;
+    currency: string;
+    status: string;
+    reason: string;
+    note: string | null;
+    createdAt: string;
+    initiatedBy: { name: string; email: string } | null;
+}
+
+interface ConsultationDetailDialogProps {
+    consultation: AdminConsultation | null;
+    onClose: () => void;
+    onRefunded: () => void;
+}
+
+const REFUND_REASONS = [
+    { value: "CUSTOMER_REQUEST", label: "Customer request" },
+    { value: "SERVICE_ISSUE", label: "Service issue" },
+    { value: "DOCTOR_NO_SHOW", label: "Doctor no-show" },
+    { value: "DUPLICATE_CHARGE", label: "Duplicate charge" },
+    { value: "CANCELLATION", label: "Cancellation" },
+    { value: "OTHER", label: "Other" },
+];
+
+const REFUNDABLE_STATUSES = ["PAID", "PARTIALLY_REFUNDED"];
+
+function PaymentRefunds({ payment, onRefunded }: { payment: AdminPayment; onRefunded: () => void }) {
+    const refundable = payment.amount - payment.refundedAmount;
+    const [refunds, setRefunds] = useState<Refund[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [amount, setAmount] = useState(String(fromMinorUnits(refundable, payment.currency)));
+    const [reason, setReason] = useState("CUSTOMER_REQUEST");
+    const [note, setNote] = useState("");
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchRefunds = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await fetch(`/api/v1/admin/payments/${payment.id}/refunds`);
+            if (!res.ok) throw new Error("Failed to fetch refunds");
+            const data = await res.json();
+            setRefunds(data.refunds);
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }, [payment.id]);
+
+    useEffect(() => {
+        fetchRefunds();
+    }, [fetchRefunds]);
+
+    const handleRefund = async () => {
+        const minorUnits = toMinorUnits(parseFloat(amount), payment.currency);
+        if (!Number.isFinite(minorUnits) || minorUnits <= 0 || minorUnits > refundable) {
+            setError(`Enter an amount between ${formatMoney(1, payment.currency)} and ${formatMoney(refundable, payment.currency)}`);
+            return;
+        }
+
+        try {
+            setSaving(true);
+            setError(null);
+
+            const res = await fetch(`/api/v1/admin/payments/${payment.id}/refunds`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ amount: minorUnits, reason, note: note || undefined }),
+            });
+
+            if (!res.ok) {
+                const errData = await res.json().catch(() => ({}));
+                throw new Error(errData.error?.message || "Failed to refund payment");
+            }
+
+            setNote("");
+            onRefunded();
+            fetchRefunds();
+        } catch (err) {
+            console.error("Refund error:", err);
+            setError(err instanceof Error ? err.message : "Failed to refund payment. Please try again.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="rounded-md border p-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <div>
+                    <div className="font-medium">{formatMoney(payment.amount, payment.currency)}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{payment.id}</div>
+                </div>
+                <Badge variant={payment.status === "PAID" ? "default" : "secondary"}>{payment.status}</Badge>
+            </div>
+
+            {payment.refundedAmount > 0 && (
+                <p className="text-sm text-muted-foreground">
+                    Refunded {formatMoney(payment.refundedAmount, payment.currency)} (including pending)
+                </p>
+            )}
+
+            {loading ? (
+                <Loader2 className="h-4 w-4 animate-spin text-primary" />
+            ) : refunds.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                    {refunds.map((refund) => (
+                        <li key={refund.id} className="flex items-center justify-between gap-2">
+                            <span>
+                                {formatMoney(refund.amount, refund.currency)} · {refund.reason.replace(/_/g, " ").toLowerCase()}
+                                {refund.initiatedBy && <span className="text-muted-foreground"> by {refund.initiatedBy.name}</span>}
+                            </span>
+                            <Badge variant={refund.status === "FAILED" ? "destructive" : "outline"}>{refund.status}</Badge>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {REFUNDABLE_STATUSES.includes(payment.status) && refundable > 0 && (
+                <div className="space-y-2 border-t pt-3">
+                    <div className="grid grid-cols-2 gap-2">
+                        <Input
+                            type="number"
+                            min={fromMinorUnits(1, payment.currency)}
+                            step={fromMinorUnits(1, payment.currency)}
+                            max={fromMinorUnits(refundable, payment.currency)}
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                        />
+                        <select
+                            className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+                            value={reason}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setReason(e.target.value)}
+                        >
+                            {REFUND_REASONS.map((r) => (
+                                <option key={r.value} value={r.value}>{r.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <Input
+                        placeholder="Note (optional)"
+                        maxLength={500}
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                    />
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+                    <Button size="sm" variant="destructive" onClick={handleRefund} disabled={saving}>
+                        {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Refund (up to {formatMoney(refundable, payment.currency)})
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export function ConsultationDetailDialog({ consultation, onClose, onRefunded }: ConsultationDetailDialogProps) {
+    return (
+        <Dialog open={!!consultation} onOpenChange={(open) => { if (!open) onClose(); }}>
+            <DialogContent>
+                {consultation && (
+                    <>
+                        <DialogHeader>
+                            <DialogTitle>Consultation {consultation.id.slice(-6)}</DialogTitle>
+                            <DialogDescription>
+                                {consultation.specialty} · {consultation.status}
+                                {consultation.scheduledStartAt && (
+                                    <> · {new Date(consultation.scheduledStartAt).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}</>
+                                )}
+                            </DialogDescription>
+                        </DialogHeader>
+
+                        <div className="space-y-4">
+                            <div className="grid grid-cols-2 gap-4 text-sm">
+                                <div>
+                                    <div className="text-muted-foreground">Patient</div>
+                                    <div className="font-medium">{consultation.patient.name}</div>
+                                    <div className="text-xs text-muted-foreground">{consultation.patient.email}</div>
+                                </div>
+                                <div>
+                                    <div className="text-muted-foreground">Doctor</div>
+                                    {consultation.doctor ? (
+                                        <>
+                                            <div className="font-medium">{consultation.doctor.name}</div>
+                                            <div className="text-xs text-muted-foreground">{consultation.doctor.email}</div>
+                                        </>
+                                    ) : (
+                                        <div className="italic text-muted-foreground">Unassigned</div>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <h3 className="text-sm font-semibold">Payments</h3>
+                                {consultation.payments.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground">No payments.</p>
+                                ) : (
+                                    consultation.payments.map((payment) => (
+                                        <PaymentRefunds key={payment.id} payment={payment} onRefunded={onRefunded} />
+                                    ))
+                                )}
+                            </div>
+                        </div>
+                    </>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -5,16 +5,7 @@ import { DataTable } from "@/components/ui/data-table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { getEffectiveStatus } from "@/lib/consultation-utils";
-
-interface Consultation {
-    id: string;
-    patient: { name: string; email: string };
-    doctor: { name: string; email: string } | null;
-    specialty: string;
-    status: string;
-    createdAt: string;
-    scheduledStartAt: string | null;
-}
+import { ConsultationDetailDialog, type AdminConsultation } from "@/components/admin/ConsultationDetailDialog";
 
 interface ConsultationsPageProps {
     initialStatus?: string;
@@ -22,13 +13,14 @@ interface ConsultationsPageProps {
 }
 
 export default function ConsultationsPage({ initialStatus, initialFilter }: ConsultationsPageProps) {
-    const [consultations, setConsultations] = useState<Consultation[]>([]);
+    const [consultations, setConsultations] = useState<AdminConsultation[]>([]);
     const [loading, setLoading] = useState(true);
     const [page, setPage] = useState(1);
     const [limit] = useState(10);
     const [totalPages, setTotalPages] = useState(1);
     const [statusFilter, setStatusFilter] = useState(initialStatus || "");
     const [todayFilter, setTodayFilter] = useState(initialFilter === "today");
+    const [selectedId, setSelectedId] = useState<string | null>(null);
 
     async function fetchConsultations() {
         try {
@@ -59,6 +51,8 @@ export default function ConsultationsPage({ initialStatus, initialFilter }: Cons
         fetchConsultations();
     }, [page, statusFilter, todayFilter]);
 
+    const selected = consultations.find((c) => c.id === selectedId) ?? null;
+
     // Determine title based on filters
     const getTitle = () => {
         if (todayFilter) return "Today's Appointments";
@@ -172,9 +166,23 @@ export default function ConsultationsPage({ initialStatus, initialFilter }: Cons
                         cell: (c) => c.scheduledStartAt
                             ? new Date(c.scheduledStartAt).toLocaleString('en-US', { dateStyle: 'short', timeStyle: 'short' })
                             : <span className="text-muted-foreground">-</span>
+                    },
+                    {
+                        header: "",
+                        cell: (c) => (
+                            <Button variant="outline" size="sm" onClick={() => setSelectedId(c.id)}>
+                                Details
+                            </Button>
+                        )
                     }
                 ]}
             />
+
+            <ConsultationDetailDialog
+                consultation={selected}
+                onClose={() => setSelectedId(null)}
+                onRefunded={fetchConsultations}
+            />
         </div>
     );
 }
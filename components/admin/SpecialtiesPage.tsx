@@ -0,0 +1,305 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { DataTable } from "@/components/ui/data-table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { formatPrice } from "@/lib/types";
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, fromMinorUnits, toMinorUnits } from "@/lib/currency";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+
+interface Specialty {
+    id: string;
+    label: string;
+    price: number;
+    currency: string;
+    prices: { currency: string; price: number }[]; // Other currencies
+    durationMinutes: number;
+    active: boolean;
+}
+
+interface SpecialtyForm {
+    id: string;
+    label: string;
+    price: string; // Major units as typed, e.g. "150.00"
+    currency: string;
+    otherPrices: Record<string, string>; // By currency, blank for none
+    durationMinutes: string;
+}
+
+const EMPTY_FORM: SpecialtyForm = {
+    id: "",
+    label: "",
+    price: "",
+    currency: DEFAULT_CURRENCY,
+    otherPrices: {},
+    durationMinutes: "30",
+};
+
+export default function SpecialtiesPage() {
+    const [specialties, setSpecialties] = useState<Specialty[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    // Create / edit dialog; editingId is null when creating
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState<SpecialtyForm>(EMPTY_FORM);
+    const [formError, setFormError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    async function fetchSpecialties() {
+        try {
+            setLoading(true);
+            const res = await fetch("/api/v1/admin/specialties");
+            if (!res.ok) throw new Error("Failed to fetch specialties");
+            const raw = await res.json();
+            setSpecialties(raw.data);
+        } catch (error) {
+            console.error(error);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    useEffect(() => {
+        fetchSpecialties();
+    }, []);
+
+    function openCreate() {
+        setEditingId(null);
+        setForm(EMPTY_FORM);
+        setFormError(null);
+        setIsFormOpen(true);
+    }
+
+    function openEdit(specialty: Specialty) {
+        setEditingId(specialty.id);
+        setForm({
+            id: specialty.id,
+            label: specialty.label,
+            price: String(fromMinorUnits(specialty.price, specialty.currency)),
+            currency: specialty.currency,
+            otherPrices: Object.fromEntries(
+                specialty.prices.map((p) => [p.currency, String(fromMinorUnits(p.price, p.currency))])
+            ),
+            durationMinutes: specialty.durationMinutes.toString(),
+        });
+        setFormError(null);
+        setIsFormOpen(true);
+    }
+
+    async function save() {
+        const body = {
+            ...(editingId ? {} : { id: form.id.trim().toUpperCase() }),
+            label: form.label,
+            price: toMinorUnits(parseFloat(form.price), form.currency),
+            currency: form.currency,
+            prices: SUPPORTED_CURRENCIES.filter(
+                (currency) => currency !== form.currency && form.otherPrices[currency]?.trim()
+            ).map((currency) => ({
+                currency,
+                price: toMinorUnits(parseFloat(form.otherPrices[currency]), currency),
+            })),
+            durationMinutes: parseInt(form.durationMinutes, 10),
+        };
+
+        try {
+            setSaving(true);
+            setFormError(null);
+            const res = await fetch(
+                editingId ? `/api/v1/admin/specialties/${editingId}` : "/api/v1/admin/specialties",
+                {
+                    method: editingId ? "PATCH" : "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify(body),
+                }
+            );
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.error?.message || "Failed to save specialty");
+            setIsFormOpen(false);
+            await fetchSpecialties();
+        } catch (error) {
+            console.error(error);
+            setFormError(error instanceof Error ? error.message : "Failed to save specialty");
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    async function setActive(specialty: Specialty, active: boolean) {
+        try {
+            setError(null);
+            const res = await fetch(`/api/v1/admin/specialties/${specialty.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ active }),
+            });
+            if (!res.ok) throw new Error("Failed to update specialty");
+            await fetchSpecialties();
+        } catch (error) {
+            console.error(error);
+            setError(error instanceof Error ? error.message : "Failed to update specialty");
+        }
+    }
+
+    async function remove(specialty: Specialty) {
+        if (!confirm(`Delete ${specialty.label}? This cannot be undone.`)) return;
+
+        try {
+            setError(null);
+            const res = await fetch(`/api/v1/admin/specialties/${specialty.id}`, { method: "DELETE" });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.error?.message || "Failed to delete specialty");
+            await fetchSpecialties();
+        } catch (error) {
+            console.error(error);
+            setError(error instanceof Error ? error.message : "Failed to delete specialty");
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight">Specialties</h1>
+                    <p className="text-muted-foreground">What patients can book, at what price and for how long.</p>
+                </div>
+                <Button onClick={openCreate}>Add Specialty</Button>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            <DataTable
+                loading={loading}
+                data={specialties}
+                page={1}
+                totalPages={1}
+                onPageChange={() => {}}
+                columns={[
+                    { header: "Specialty", cell: (s) => <span className="font-medium">{s.label}</span> },
+                    { header: "Code", cell: (s) => <span className="font-mono text-xs text-muted-foreground">{s.id}</span> },
+                    {
+                        header: "Price",
+                        cell: (s) => [s, ...s.prices].map((p) => formatPrice(p.price, p.currency)).join(" · "),
+                    },
+                    { header: "Duration", cell: (s) => `${s.durationMinutes} min` },
+                    { header: "Status", cell: (s) => <Badge variant={s.active ? "default" : "outline"}>{s.active ? "Active" : "Inactive"}</Badge> },
+                    {
+                        header: "",
+                        cell: (s) => (
+                            <div className="flex gap-2 justify-end">
+                                <Button variant="outline" size="sm" onClick={() => openEdit(s)}>
+                                    Edit
+                                </Button>
+                                <Button variant="outline" size="sm" onClick={() => setActive(s, !s.active)}>
+                                    {s.active ? "Deactivate" : "Activate"}
+                                </Button>
+                                <Button variant="ghost" size="sm" className="text-red-600" onClick={() => remove(s)}>
+                                    Delete
+                                </Button>
+                            </div>
+                        )
+                    }
+                ]}
+            />
+
+            <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>{editingId ? `Edit ${form.label}` : "Add Specialty"}</DialogTitle>
+                        <DialogDescription>
+                            Price changes apply to consultations booked from now on. Patients are quoted
+                            in their own currency where it has a price, otherwise in the default currency.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="grid gap-4 py-4">
+                        {!editingId && (
+                            <label className="text-sm font-medium space-y-1">
+                                <span>Code</span>
+                                <Input
+                                    placeholder="SLEEP_MEDICINE"
+                                    value={form.id}
+                                    onChange={(e) => setForm({ ...form, id: e.target.value })}
+                                />
+                            </label>
+                        )}
+                        <label className="text-sm font-medium space-y-1">
+                            <span>Label</span>
+                            <Input value={form.label} onChange={(e) => setForm({ ...form, label: e.target.value })} />
+                        </label>
+                        <div className="grid grid-cols-3 gap-4">
+                            <label className="text-sm font-medium space-y-1">
+                                <span>Price</span>
+                                <Input
+                                    type="number"
+                                    min="0"
+                                    step={fromMinorUnits(1, form.currency)}
+                                    value={form.price}
+                                    onChange={(e) => setForm({ ...form, price: e.target.value })}
+                                />
+                            </label>
+                            <label className="text-sm font-medium space-y-1">
+                                <span>Currency</span>
+                                <select
+                                    className="h-9 w-full rounded-md border border-input bg-background px-3 text-sm"
+                                    value={form.currency}
+                                    onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                                >
+                                    {SUPPORTED_CURRENCIES.map((currency) => (
+                                        <option key={currency} value={currency}>{currency}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="text-sm font-medium space-y-1">
+                                <span>Minutes</span>
+                                <Input
+                                    type="number"
+                                    min="5"
+                                    value={form.durationMinutes}
+                                    onChange={(e) => setForm({ ...form, durationMinutes: e.target.value })}
+                                />
+                            </label>
+                        </div>
+                        <div className="grid grid-cols-3 gap-4">
+                            {SUPPORTED_CURRENCIES.filter((currency) => currency !== form.currency).map((currency) => (
+                                <label key={currency} className="text-sm font-medium space-y-1">
+                                    <span>Price in {currency}</span>
+                                    <Input
+                                        type="number"
+                                        min="0"
+                                        step={fromMinorUnits(1, currency)}
+                                        placeholder="Not offered"
+                                        value={form.otherPrices[currency] ?? ""}
+                                        onChange={(e) =>
+                                            setForm({ ...form, otherPrices: { ...form.otherPrices, [currency]: e.target.value } })
+                                        }
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                        {formError && <p className="text-sm text-red-500">{formError}</p>}
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsFormOpen(false)}>Cancel</Button>
+                        <Button onClick={save} disabled={saving}>
+                            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -6,7 +6,6 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Search, Pencil } from "lucide-react";
-import { VALID_SPECIALTIES } from "@/lib/types";
 
 import {
     Dialog,
@@ -55,6 +54,9 @@ export default function UsersPage({ initialRoleFilter, initialSearch }: UsersPag
     const [isEditSpecialtiesOpen, setIsEditSpecialtiesOpen] = useState(false);
     const [editingUser, setEditingUser] = useState<User | null>(null);
 
+    // Active specialties from the catalog
+    const [specialtyOptions, setSpecialtyOptions] = useState<{ id: string; label: string }[]>([]);
+
     async function fetchUsers() {
         try {
             setLoading(true);
@@ -78,6 +80,20 @@ export default function UsersPage({ initialRoleFilter, initialSearch }: UsersPag
         }
     }
 
+    useEffect(() => {
+        async function fetchSpecialties() {
+            try {
+                const res = await fetch("/api/v1/specialties");
+                if (!res.ok) throw new Error("Failed to fetch specialties");
+                const raw = await res.json();
+                setSpecialtyOptions(raw.specialties);
+            } catch (error) {
+                console.error(error);
+            }
+        }
+        fetchSpecialties();
+    }, []);
+
     useEffect(() => {
         const timeout = setTimeout(fetchUsers, 300);
         return () => clearTimeout(timeout);
@@ -301,15 +317,15 @@ export default function UsersPage({ initialRoleFilter, initialSearch }: UsersPag
                     <div className="py-4">
                         <label className="text-sm font-medium mb-3 block">Select Specialties</label>
                         <div className="flex flex-wrap gap-2">
-                            {VALID_SPECIALTIES.map((s) => (
+                            {specialtyOptions.map((s) => (
                                 <Button
-                                    key={s}
+                                    key={s.id}
                                     type="button"
                                     size="sm"
-                                    variant={selectedSpecialties.includes(s) ? "default" : "outline"}
-                                    onClick={() => toggleSpecialty(s)}
+                                    variant={selectedSpecialties.includes(s.id) ? "default" : "outline"}
+                                    onClick={() => toggleSpecialty(s.id)}
                                 >
-                                    {s.charAt(0) + s.slice(1).toLowerCase()}
+                                    {s.label}
                                 </Button>
                             ))}
                         </div>
@@ -340,15 +356,15 @@ export default function UsersPage({ initialRoleFilter, initialSearch }: UsersPag
                     <div className="py-4">
                         <label className="text-sm font-medium mb-3 block">Select Specialties</label>
                         <div className="flex flex-wrap gap-2">
-                            {VALID_SPECIALTIES.map((s) => (
+                            {specialtyOptions.map((s) => (
                                 <Button
-                                    key={s}
+                                    key={s.id}
                                     type="button"
                                     size="sm"
-                                    variant={selectedSpecialties.includes(s) ? "default" : "outline"}
-                                    onClick={() => toggleSpecialty(s)}
+                                    variant={selectedSpecialties.includes(s.id) ? "default" : "outline"}
+                                    onClick={() => toggleSpecialty(s.id)}
                                 >
-                                    {s.charAt(0) + s.slice(1).toLowerCase()}
+                                    {s.label}
                                 </Button>
                             ))}
                         </div>
@@ -0,0 +1,197 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { DataTable } from "@/components/ui/data-table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+
+interface WebhookEvent {
+    id: string;
+    eventId: string;
+    eventType: string;
+    status: string;
+    attempts: number;
+    lastError: string | null;
+    processedAt: string | null;
+    createdAt: string;
+}
+
+interface WebhookEventDetail extends WebhookEvent {
+    payload: unknown;
+}
+
+const getBadgeVariant = (status: string) => {
+    switch (status) {
+        case "PROCESSED": return "default";
+        case "FAILED": return "destructive";
+        case "IGNORED": return "outline";
+        default: return "secondary";
+    }
+};
+
+export default function WebhooksPage() {
+    const [events, setEvents] = useState<WebhookEvent[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [page, setPage] = useState(1);
+    const [limit] = useState(10);
+    const [totalPages, setTotalPages] = useState(1);
+    const [statusFilter, setStatusFilter] = useState("");
+    const [selected, setSelected] = useState<WebhookEventDetail | null>(null);
+    const [replayingId, setReplayingId] = useState<string | null>(null);
+    const [replayError, setReplayError] = useState<string | null>(null);
+
+    const fetchEvents = useCallback(async () => {
+        try {
+            setLoading(true);
+            const params = new URLSearchParams({
+                page: page.toString(),
+                limit: limit.toString(),
+            });
+            if (statusFilter) {
+                params.set("status", statusFilter);
+            }
+            const res = await fetch(`/api/v1/admin/webhooks?${params}`);
+            if (!res.ok) throw new Error("Failed to fetch webhook events");
+            const raw = await res.json();
+            setEvents(raw.data);
+            setTotalPages(raw.meta.totalPages);
+        } catch (error) {
+            console.error(error);
+        } finally {
+            setLoading(false);
+        }
+    }, [page, limit, statusFilter]);
+
+    useEffect(() => {
+        fetchEvents();
+    }, [fetchEvents]);
+
+    async function openEvent(id: string) {
+        try {
+            const res = await fetch(`/api/v1/admin/webhooks/${id}`);
+            if (!res.ok) throw new Error("Failed to fetch webhook event");
+            setReplayError(null);
+            setSelected(await res.json());
+        } catch (error) {
+            console.error(error);
+        }
+    }
+
+    async function replay(id: string) {
+        try {
+            setReplayingId(id);
+            setReplayError(null);
+            const res = await fetch(`/api/v1/admin/webhooks/${id}/replay`, { method: "POST" });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.error?.message || "Failed to replay event");
+            if (data.status === "FAILED") {
+                setReplayError(data.error || "Replay failed");
+            }
+            await fetchEvents();
+            if (selected?.id === id) await openEvent(id);
+        } catch (error) {
+            console.error(error);
+            setReplayError(error instanceof Error ? error.message : "Failed to replay event");
+        } finally {
+            setReplayingId(null);
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight">Webhook Events</h1>
+                    <p className="text-muted-foreground">Payment provider events and their processing status.</p>
+                </div>
+                <select
+                    className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    value={statusFilter}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                        setPage(1);
+                        setStatusFilter(e.target.value);
+                    }}
+                >
+                    <option value="">All Statuses</option>
+                    <option value="RECEIVED">Received</option>
+                    <option value="PROCESSING">Processing</option>
+                    <option value="PROCESSED">Processed</option>
+                    <option value="FAILED">Failed</option>
+                    <option value="IGNORED">Ignored</option>
+                </select>
+            </div>
+
+            {replayError && !selected && <p className="text-sm text-red-500">{replayError}</p>}
+
+            <DataTable
+                loading={loading}
+                data={events}
+                page={page}
+                totalPages={totalPages}
+                onPageChange={setPage}
+                columns={[
+                    { header: "Event Type", accessorKey: "eventType", cell: (e) => <span className="font-mono font-medium">{e.eventType}</span> },
+                    { header: "Event ID", cell: (e) => <span className="font-mono text-xs text-muted-foreground">{e.eventId.slice(-12)}</span> },
+                    { header: "Status", cell: (e) => <Badge variant={getBadgeVariant(e.status)}>{e.status}</Badge> },
+                    { header: "Attempts", accessorKey: "attempts" },
+                    { header: "Received", cell: (e) => <span className="text-sm">{new Date(e.createdAt).toLocaleString()}</span> },
+                    {
+                        header: "",
+                        cell: (e) => (
+                            <div className="flex gap-2 justify-end">
+                                <Button variant="outline" size="sm" onClick={() => openEvent(e.id)}>
+                                    View
+                                </Button>
+                                {e.status === "FAILED" && (
+                                    <Button size="sm" onClick={() => replay(e.id)} disabled={replayingId === e.id}>
+                                        {replayingId === e.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                        Replay
+                                    </Button>
+                                )}
+                            </div>
+                        )
+                    }
+                ]}
+            />
+
+            <Dialog open={!!selected} onOpenChange={(open) => { if (!open) setSelected(null); }}>
+                <DialogContent className="max-w-2xl">
+                    {selected && (
+                        <>
+                            <DialogHeader>
+                                <DialogTitle className="font-mono">{selected.eventType}</DialogTitle>
+                                <DialogDescription>
+                                    {selected.eventId} · {selected.status} · {selected.attempts} attempt(s)
+                                </DialogDescription>
+                            </DialogHeader>
+
+                            {selected.lastError && (
+                                <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{selected.lastError}</p>
+                            )}
+                            {replayError && <p className="text-sm text-red-500">{replayError}</p>}
+
+                            <pre className="max-h-96 overflow-auto rounded-md bg-slate-950 p-4 text-xs text-slate-100">
+                                {JSON.stringify(selected.payload, null, 2)}
+                            </pre>
+
+                            {selected.status === "FAILED" && (
+                                <Button onClick={() => replay(selected.id)} disabled={replayingId === selected.id}>
+                                    {replayingId === selected.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                    Replay Event
+                                </Button>
+                            )}
+                        </>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -1,9 +1,11 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Specialty } from "@/lib/types";
+import { Specialty, SpecialtyOption } from "@/lib/types";
+import type { ConsultationPrice } from "@/lib/pricing";
+import { DEFAULT_CURRENCY, currencyForLocale } from "@/lib/currency";
 import { useSession } from "@/lib/auth-client";
 import { useRouter } from "next/navigation";
 
@@ -11,7 +13,7 @@ import { useRouter } from "next/navigation";
 import { SpecialtySelection } from "./SpecialtySelection";
 import { DoctorSelection } from "./DoctorSelection";
 import { TimeSlotSelection } from "./TimeSlotSelection";
-import IntakeForm from "@/components/intake/IntakeForm";
+import IntakeForm, { type IntakeFormData } from "@/components/intake/IntakeForm";
 
 type BookingStep = "SPECIALTY" | "DOCTOR" | "TIME" | "INTAKE" | "CONFIRMATION";
 
@@ -19,18 +21,41 @@ export function BookingWizard() {
     const [step, setStep] = useState<BookingStep>("SPECIALTY");
     const [selectedSpecialty, setSelectedSpecialty] = useState<Specialty | null>(null);
     const [selectedDoctorId, setSelectedDoctorId] = useState<string | null>(null);
+    const [selectedPrice, setSelectedPrice] = useState<ConsultationPrice | null>(null);
     const [selectedTimeSlot, setSelectedTimeSlot] = useState<Date | null>(null);
+    const [specialties, setSpecialties] = useState<SpecialtyOption[]>([]);
+    const [specialtiesError, setSpecialtiesError] = useState<string | null>(null);
+    // Prices are quoted in the patient's currency where one is set
+    const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
 
     const { data: session } = useSession();
     const router = useRouter();
 
+    useEffect(() => {
+        async function fetchSpecialties() {
+            const patientCurrency = currencyForLocale(navigator.language);
+            setCurrency(patientCurrency);
+            try {
+                const res = await fetch(`/api/v1/specialties?currency=${patientCurrency}`);
+                if (!res.ok) throw new Error("Failed to fetch specialties");
+                const data = await res.json();
+                setSpecialties(data.specialties || []);
+            } catch (err) {
+                console.error(err);
+                setSpecialtiesError("Unable to load specialties. Please try again.");
+            }
+        }
+        fetchSpecialties();
+    }, []);
+
     const handleSpecialtySelect = (specialty: Specialty) => {
         setSelectedSpecialty(specialty);
         setStep("DOCTOR");
     };
 
-    const handleDoctorSelect = (doctorId: string) => {
+    const handleDoctorSelect = (doctorId: string, price: ConsultationPrice) => {
         setSelectedDoctorId(doctorId);
+        setSelectedPrice(price);
         setStep("TIME");
     };
 
@@ -41,7 +66,7 @@ export function BookingWizard() {
         setStep("INTAKE");
     };
 
-    const handleIntakeSubmit = async (intakeData: any) => {
+    const handleIntakeSubmit = async ({ attachments = [], ...intakeData }: IntakeFormData) => {
         try {
             setIsBooking(true);
 
@@ -53,6 +78,7 @@ export function BookingWizard() {
                     specialty: selectedSpecialty,
                     doctorId: selectedDoctorId,
                     scheduledStartAt: selectedTimeSlot?.toISOString(),
+                    currency,
                     intake: intakeData
                 })
             });
@@ -60,6 +86,18 @@ export function BookingWizard() {
             if (!bookingRes.ok) throw new Error("Booking failed");
             const booking = await bookingRes.json();
 
+            // Files can only be attached once the intake exists; the patient
+            // can add any that fail from their appointments
+            const uploads = await Promise.all(attachments.map((file) => {
+                const form = new FormData();
+                form.append("file", file);
+                return fetch(`/api/v1/consultations/${booking.id}/intake/attachments`, { method: "POST", body: form })
+                    .then((res) => res.ok, () => false);
+            }));
+            if (uploads.includes(false)) {
+                alert("Some files could not be attached. You can add them from your appointments after payment.");
+            }
+
             // 2. Create Payment Session
             const paymentRes = await fetch("/api/v1/payments", {
                 method: "POST",
@@ -83,15 +121,20 @@ export function BookingWizard() {
     const renderStep = () => {
         switch (step) {
             case "SPECIALTY":
-                return <SpecialtySelection onSelect={handleSpecialtySelect} />;
+                if (specialtiesError) {
+                    return <div className="p-8 text-center text-red-600">{specialtiesError}</div>;
+                }
+                return <SpecialtySelection specialties={specialties} onSelect={handleSpecialtySelect} />;
             case "DOCTOR":
-                return <DoctorSelection specialty={selectedSpecialty!} onSelect={handleDoctorSelect} onBack={() => setStep("SPECIALTY")} />;
+                return <DoctorSelection specialty={selectedSpecialty!} currency={currency} onSelect={handleDoctorSelect} onBack={() => setStep("SPECIALTY")} />;
             case "TIME":
                 return <TimeSlotSelection specialty={selectedSpecialty!} doctorId={selectedDoctorId!} onSelect={handleTimeSelect} onBack={() => setStep("DOCTOR")} />;
             case "INTAKE":
                 return (
                     <IntakeForm
+                        specialties={specialties}
                         defaultSpecialty={selectedSpecialty!}
+                        price={selectedPrice ?? undefined}
                         onSubmit={handleIntakeSubmit}
                         onBack={() => setStep("TIME")}
                         isSubmitting={isBooking}
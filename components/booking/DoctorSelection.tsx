@@ -3,13 +3,15 @@
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Specialty } from "@/lib/types";
+import { Specialty, formatPrice } from "@/lib/types";
+import type { ConsultationPrice } from "@/lib/pricing";
 import { ArrowLeft, User, Calendar as CalendarIcon, Loader2 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 
 interface DoctorSelectionProps {
     specialty: Specialty;
-    onSelect: (doctorId: string) => void;
+    currency: string; // Quote fees in this currency where the doctor has one
+    onSelect: (doctorId: string, price: ConsultationPrice) => void;
     onBack: () => void;
 }
 
@@ -18,10 +20,13 @@ interface Doctor {
     doctorName: string;
     specialties: Specialty[];
     timezone: string;
+    // The doctor's fee for this specialty
+    price: number;
+    currency: string;
     // We'll calculate next availability from slots if needed, but for now just list doctors
 }
 
-export function DoctorSelection({ specialty, onSelect, onBack }: DoctorSelectionProps) {
+export function DoctorSelection({ specialty, currency, onSelect, onBack }: DoctorSelectionProps) {
     const [doctors, setDoctors] = useState<Doctor[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
@@ -33,7 +38,7 @@ export function DoctorSelection({ specialty, onSelect, onBack }: DoctorSelection
                 // We use the availability endpoint to find doctors for this specialty
                 // We pass a dummy date to ensure we get doctor lists, though ideally we'd have a separate /doctors endpoint
                 // For now, this works as our availability endpoint returns "doctors" list in multi-mode
-                const res = await fetch(`/api/v1/doctors/availability?specialty=${specialty}`);
+                const res = await fetch(`/api/v1/doctors/availability?specialty=${specialty}&currency=${currency}`);
                 if (!res.ok) throw new Error("Failed to fetch doctors");
                 const data = await res.json();
                 setDoctors(data.doctors || []);
@@ -45,7 +50,7 @@ export function DoctorSelection({ specialty, onSelect, onBack }: DoctorSelection
             }
         }
         fetchDoctors();
-    }, [specialty]);
+    }, [specialty, currency]);
 
     return (
         <div className="p-6 space-y-6">
@@ -84,11 +89,11 @@ export function DoctorSelection({ specialty, onSelect, onBack }: DoctorSelection
                         role="button"
                         tabIndex={0}
                         className="hover:border-primary transition-colors cursor-pointer focus:ring-2 focus:ring-primary focus:outline-none"
-                        onClick={() => onSelect(doctor.doctorId)}
+                        onClick={() => onSelect(doctor.doctorId, { price: doctor.price, currency: doctor.currency })}
                         onKeyDown={(e) => {
                             if (e.key === 'Enter' || e.key === ' ') {
                                 e.preventDefault();
-                                onSelect(doctor.doctorId);
+                                onSelect(doctor.doctorId, { price: doctor.price, currency: doctor.currency });
                             }
                         }}
                     >
@@ -100,6 +105,7 @@ export function DoctorSelection({ specialty, onSelect, onBack }: DoctorSelection
                             <div className="space-y-1">
                                 <h3 className="font-semibold text-lg">{doctor.doctorName}</h3>
                                 <p className="text-sm text-gray-500">{doctor.specialties.join(", ")}</p>
+                                <p className="text-sm font-semibold text-emerald-600">{formatPrice(doctor.price, doctor.currency)}</p>
                                 <div className="flex items-center text-xs text-muted-foreground mt-2">
                                     <CalendarIcon className="w-3 h-3 mr-1" />
                                     Available Today
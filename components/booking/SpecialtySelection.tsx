@@ -2,13 +2,15 @@
 
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { VALID_SPECIALTIES, Specialty } from "@/lib/types";
+import { Specialty, SpecialtyOption, formatPrice } from "@/lib/types";
 import { Stethoscope, Heart, Brain, Bone, Activity, Baby } from "lucide-react";
 
 interface SpecialtySelectionProps {
+    specialties: SpecialtyOption[];
     onSelect: (specialty: Specialty) => void;
 }
 
+// Icons and blurbs for the launch specialties; ones added later by admins use the defaults
 const SPECIALTY_ICONS: Record<Specialty, React.ReactNode> = {
     GENERAL: <Stethoscope className="w-8 h-8 mb-2" />,
     CARDIOLOGY: <Heart className="w-8 h-8 mb-2" />,
@@ -27,7 +29,7 @@ const SPECIALTY_DESCRIPTIONS: Record<Specialty, string> = {
     ORTHOPEDICS: "Bone, joint, and muscle care.",
 };
 
-export function SpecialtySelection({ onSelect }: SpecialtySelectionProps) {
+export function SpecialtySelection({ specialties, onSelect }: SpecialtySelectionProps) {
     return (
         <div className="p-6">
             <div className="mb-6 text-center">
@@ -36,21 +38,24 @@ export function SpecialtySelection({ onSelect }: SpecialtySelectionProps) {
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {VALID_SPECIALTIES.map((specialty) => (
+                {specialties.map((specialty) => (
                     <Button
-                        key={specialty}
+                        key={specialty.id}
                         variant="outline"
                         className="h-auto py-6 flex flex-col items-center justify-center text-center hover:border-primary hover:bg-primary/5 transition-all"
-                        onClick={() => onSelect(specialty)}
+                        onClick={() => onSelect(specialty.id)}
                     >
                         <div className="text-primary">
-                            {SPECIALTY_ICONS[specialty]}
+                            {SPECIALTY_ICONS[specialty.id] ?? <Stethoscope className="w-8 h-8 mb-2" />}
                         </div>
                         <div className="font-semibold text-lg mb-1">
-                            {specialty.charAt(0) + specialty.slice(1).toLowerCase()}
+                            {specialty.label}
                         </div>
                         <p className="text-xs text-muted-foreground px-2">
-                            {SPECIALTY_DESCRIPTIONS[specialty]}
+                            {SPECIALTY_DESCRIPTIONS[specialty.id] ?? `${specialty.durationMinutes}-minute consultation.`}
+                        </p>
+                        <p className="text-sm font-semibold text-emerald-600 mt-2">
+                            {formatPrice(specialty.price, specialty.currency)}
                         </p>
                     </Button>
                 ))}
@@ -13,6 +13,8 @@ import {
     FileText,
     Video,
     ShieldCheck,
+    Webhook,
+    Tags,
     Menu,
     X,
 } from "lucide-react";
@@ -68,6 +70,8 @@ export function AppSidebar({ user }: AppSidebarProps) {
         { href: "/dashboard/admin/users", label: "Users", icon: Users },
         { href: "/dashboard/admin/consultations", label: "Consultations", icon: FileText },
         { href: "/dashboard/admin/audit", label: "Audit Logs", icon: ShieldCheck },
+        { href: "/dashboard/admin/specialties", label: "Specialties", icon: Tags },
+        { href: "/dashboard/admin/webhooks", label: "Webhooks", icon: Webhook },
     ];
 
     let links = patientLinks;
@@ -4,6 +4,7 @@ import { Video } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ConsultationStatus } from "@/app/generated/prisma/client";
+import { isConsultationJoinable } from "@/lib/consultation-utils";
 
 interface DoctorVideoSessionCardProps {
   userId: string;
@@ -46,16 +47,10 @@ export async function DoctorVideoSessionCard({
   // Check if any consultation is within the join window
   // eslint-disable-next-line react-hooks/purity
   const now = Date.now();
-  const EARLY_JOIN_WINDOW = 5 * 60 * 1000;
-  const LATE_JOIN_WINDOW = 30 * 60 * 1000;
 
-  const joinableConsultations = activeConsultations.filter((consult) => {
-    if (!consult.scheduledStartAt) return true;
-    const scheduledTime = consult.scheduledStartAt.getTime();
-    const earlyBoundary = scheduledTime - EARLY_JOIN_WINDOW;
-    const lateBoundary = scheduledTime + LATE_JOIN_WINDOW;
-    return now >= earlyBoundary && now <= lateBoundary;
-  });
+  const joinableConsultations = activeConsultations.filter((consult) =>
+    isConsultationJoinable(consult, now)
+  );
 
   if (joinableConsultations.length === 0) {
     return (
@@ -110,18 +105,34 @@ export async function DoctorVideoSessionCard({
                     )}...`}
                 </p>
               </div>
-              <Link href={`/video/${consult.id}`}>
-                <Button
-                  size="sm"
-                  className={
-                    isInProgress
-                      ? "bg-amber-500 hover:bg-amber-600"
-                      : "bg-emerald-600 hover:bg-emerald-700"
-                  }
-                >
-                  {isInProgress ? "Rejoin" : "Join"}
-                </Button>
-              </Link>
+              <div className="flex gap-2">
+                {!isInProgress && (
+                  <Link href={`/dashboard/doctor/consultations/${consult.id}`}>
+                    <Button size="sm" variant="outline">
+                      Intake
+                    </Button>
+                  </Link>
+                )}
+                {isInProgress && (
+                  <Link href={`/dashboard/doctor/consultations/${consult.id}/notes`}>
+                    <Button size="sm" variant="outline">
+                      Notes
+                    </Button>
+                  </Link>
+                )}
+                <Link href={`/video/${consult.id}`}>
+                  <Button
+                    size="sm"
+                    className={
+                      isInProgress
+                        ? "bg-amber-500 hover:bg-amber-600"
+                        : "bg-emerald-600 hover:bg-emerald-700"
+                    }
+                  >
+                    {isInProgress ? "Rejoin" : "Join"}
+                  </Button>
+                </Link>
+              </div>
             </div>
           );
         })}
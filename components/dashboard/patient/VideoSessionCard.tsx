@@ -4,6 +4,10 @@ import { Video } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ConsultationStatus } from "@/app/generated/prisma/client";
+import {
+  isConsultationJoinable,
+  isConsultationUpcoming,
+} from "@/lib/consultation-utils";
 
 interface VideoSessionCardProps {
   userId: string;
@@ -35,26 +39,17 @@ export async function VideoSessionCard({ userId }: VideoSessionCardProps) {
     take: 3,
   });
 
-  // Check if any consultation is within the join window (5 min early to 30 min late)
+  // Check if any consultation is within the join window (5 min early until the appointment ends)
   // eslint-disable-next-line react-hooks/purity
   const now = Date.now();
-  const EARLY_JOIN_WINDOW = 5 * 60 * 1000; // 5 minutes
-  const LATE_JOIN_WINDOW = 30 * 60 * 1000; // 30 minutes
 
-  const joinableConsultations = activeConsultations.filter((consult) => {
-    if (!consult.scheduledStartAt) return true; // No scheduled time = always joinable
-    const scheduledTime = consult.scheduledStartAt.getTime();
-    const earlyBoundary = scheduledTime - EARLY_JOIN_WINDOW;
-    const lateBoundary = scheduledTime + LATE_JOIN_WINDOW;
-    return now >= earlyBoundary && now <= lateBoundary;
-  });
+  const joinableConsultations = activeConsultations.filter((consult) =>
+    isConsultationJoinable(consult, now)
+  );
 
-  const upcomingConsultations = activeConsultations.filter((consult) => {
-    if (!consult.scheduledStartAt) return false;
-    const scheduledTime = consult.scheduledStartAt.getTime();
-    const earlyBoundary = scheduledTime - EARLY_JOIN_WINDOW;
-    return now < earlyBoundary;
-  });
+  const upcomingConsultations = activeConsultations.filter((consult) =>
+    isConsultationUpcoming(consult, now)
+  );
 
   // Has active session that can be joined now
   const activeSession = joinableConsultations[0];
@@ -0,0 +1,309 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, PenLine, Plus } from "lucide-react";
+
+type SoapSection = "subjective" | "objective" | "assessment" | "plan";
+
+interface Author {
+    id: string;
+    name: string;
+}
+
+interface Amendment {
+    id: string;
+    reason: string;
+    content: string;
+    diagnosisCodes: string[];
+    createdAt: string;
+    author: Author;
+}
+
+interface ClinicalNote {
+    id: string;
+    status: "DRAFT" | "SIGNED";
+    subjective: string | null;
+    objective: string | null;
+    assessment: string | null;
+    plan: string | null;
+    diagnosisCodes: string[];
+    signedAt: string | null;
+    createdAt: string;
+    author: Author;
+    amendments: Amendment[];
+}
+
+const SECTIONS: { key: SoapSection; label: string; placeholder: string }[] = [
+    { key: "subjective", label: "Subjective", placeholder: "History and symptoms as reported by the patient" },
+    { key: "objective", label: "Objective", placeholder: "Observations, vitals and findings" },
+    { key: "assessment", label: "Assessment", placeholder: "Diagnosis or differential" },
+    { key: "plan", label: "Plan", placeholder: "Treatment, prescriptions and follow-up" },
+];
+
+const EMPTY_DRAFT: Record<SoapSection, string> = { subjective: "", objective: "", assessment: "", plan: "" };
+
+const TEXTAREA_CLASS =
+    "w-full p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg h-24 text-sm focus:ring-2 focus:ring-blue-100 focus:border-blue-500 outline-none resize-y";
+
+async function readError(res: Response, fallback: string): Promise<string> {
+    const errData = await res.json().catch(() => ({}));
+    return errData.error?.message || errData.message || fallback;
+}
+
+function parseCodes(value: string): string[] {
+    return value.split(/[\s,]+/).filter(Boolean);
+}
+
+interface ClinicalNoteEditorProps {
+    consultationId: string;
+}
+
+/**
+ * SOAP notes for one consultation: edit and sign the current draft, read
+ * signed notes and amend them
+ */
+export default function ClinicalNoteEditor({ consultationId }: ClinicalNoteEditorProps) {
+    const [notes, setNotes] = useState<ClinicalNote[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [draft, setDraft] = useState(EMPTY_DRAFT);
+    const [draftCodes, setDraftCodes] = useState("");
+    const [amendingId, setAmendingId] = useState<string | null>(null);
+    const [amendReason, setAmendReason] = useState("");
+    const [amendContent, setAmendContent] = useState("");
+    const [amendCodes, setAmendCodes] = useState("");
+    const { toast } = useToast();
+
+    const baseUrl = `/api/v1/consultations/${consultationId}/notes`;
+    const draftNote = notes.find((note) => note.status === "DRAFT");
+    const signedNotes = notes.filter((note) => note.status === "SIGNED");
+
+    const fetchNotes = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await fetch(baseUrl);
+            if (!res.ok) {
+                throw new Error(await readError(res, "Failed to load notes"));
+            }
+            const data: { notes: ClinicalNote[] } = await res.json();
+            setNotes(data.notes);
+            const current = data.notes.find((note) => note.status === "DRAFT");
+            setDraft({
+                subjective: current?.subjective ?? "",
+                objective: current?.objective ?? "",
+                assessment: current?.assessment ?? "",
+                plan: current?.plan ?? "",
+            });
+            setDraftCodes(current?.diagnosisCodes.join(", ") ?? "");
+        } catch (err) {
+            toast({
+                title: "Error",
+                description: err instanceof Error ? err.message : "Failed to load notes",
+                variant: "destructive",
+            });
+        } finally {
+            setLoading(false);
+        }
+    }, [baseUrl, toast]);
+
+    useEffect(() => {
+        fetchNotes();
+    }, [fetchNotes]);
+
+    const send = async (url: string, method: string, payload: unknown, fallback: string) => {
+        setSaving(true);
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: { "Content-Type": "application/json" },
+                body: payload === undefined ? undefined : JSON.stringify(payload),
+            });
+            if (!res.ok) {
+                throw new Error(await readError(res, fallback));
+            }
+            await fetchNotes();
+            return true;
+        } catch (err) {
+            toast({
+                title: "Error",
+                description: err instanceof Error ? err.message : fallback,
+                variant: "destructive",
+            });
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const saveDraft = async () => {
+        const payload = { ...draft, diagnosisCodes: parseCodes(draftCodes) };
+        return draftNote
+            ? send(`${baseUrl}/${draftNote.id}`, "PATCH", payload, "Failed to save note")
+            : send(baseUrl, "POST", payload, "Failed to save note");
+    };
+
+    const signDraft = async () => {
+        if (!draftNote) return;
+        if (!confirm("Sign this note? Signed notes cannot be edited, only amended.")) return;
+        // Save pending edits first so the signed note is what is on screen
+        if (!(await saveDraft())) return;
+        await send(`${baseUrl}/${draftNote.id}/sign`, "POST", undefined, "Failed to sign note");
+    };
+
+    const submitAmendment = async (noteId: string) => {
+        const payload = { reason: amendReason, content: amendContent, diagnosisCodes: parseCodes(amendCodes) };
+        if (await send(`${baseUrl}/${noteId}/amendments`, "POST", payload, "Failed to add amendment")) {
+            setAmendingId(null);
+            setAmendReason("");
+            setAmendContent("");
+            setAmendCodes("");
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                    <CardTitle className="text-base">{draftNote ? "Draft note" : "New note"}</CardTitle>
+                    {draftNote && <Badge variant="secondary">DRAFT</Badge>}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {SECTIONS.map(({ key, label, placeholder }) => (
+                        <div key={key}>
+                            <label className="text-xs font-semibold text-slate-700 dark:text-slate-300 mb-1 block">
+                                {label}
+                                {(key === "assessment" || key === "plan") && " *"}
+                            </label>
+                            <textarea
+                                className={TEXTAREA_CLASS}
+                                placeholder={placeholder}
+                                value={draft[key]}
+                                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                            />
+                        </div>
+                    ))}
+                    <div>
+                        <label className="text-xs font-semibold text-slate-700 dark:text-slate-300 mb-1 block">
+                            ICD-10 codes
+                        </label>
+                        <Input
+                            placeholder="e.g. J06.9, R05"
+                            value={draftCodes}
+                            onChange={(e) => setDraftCodes(e.target.value)}
+                        />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        * Required before signing. Signed notes cannot be edited; corrections are added as amendments.
+                    </p>
+                    <div className="flex gap-2 justify-end">
+                        <Button variant="outline" onClick={saveDraft} disabled={saving}>
+                            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Save draft
+                        </Button>
+                        {draftNote && (
+                            <Button onClick={signDraft} disabled={saving}>
+                                <PenLine className="h-4 w-4 mr-2" /> Sign note
+                            </Button>
+                        )}
+                    </div>
+                </CardContent>
+            </Card>
+
+            {signedNotes.map((note) => (
+                <Card key={note.id}>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                        <CardTitle className="text-base">
+                            Signed by Dr. {note.author.name}
+                            {note.signedAt && (
+                                <span className="block text-xs font-normal text-muted-foreground">
+                                    {new Date(note.signedAt).toLocaleString()}
+                                </span>
+                            )}
+                        </CardTitle>
+                        <Badge>SIGNED</Badge>
+                    </CardHeader>
+                    <CardContent className="space-y-3 text-sm">
+                        {SECTIONS.map(({ key, label }) =>
+                            note[key] ? (
+                                <div key={key}>
+                                    <div className="text-xs font-semibold text-slate-500">{label}</div>
+                                    <p className="whitespace-pre-wrap">{note[key]}</p>
+                                </div>
+                            ) : null
+                        )}
+                        {note.diagnosisCodes.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                                {note.diagnosisCodes.map((code) => (
+                                    <Badge key={code} variant="outline">{code}</Badge>
+                                ))}
+                            </div>
+                        )}
+
+                        {note.amendments.map((amendment) => (
+                            <div key={amendment.id} className="border-l-2 border-amber-400 pl-3 space-y-1">
+                                <div className="text-xs text-muted-foreground">
+                                    Amended by Dr. {amendment.author.name} on{" "}
+                                    {new Date(amendment.createdAt).toLocaleString()}: {amendment.reason}
+                                </div>
+                                <p className="whitespace-pre-wrap">{amendment.content}</p>
+                                {amendment.diagnosisCodes.length > 0 && (
+                                    <div className="flex flex-wrap gap-1">
+                                        {amendment.diagnosisCodes.map((code) => (
+                                            <Badge key={code} variant="outline">{code}</Badge>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+
+                        {amendingId === note.id ? (
+                            <div className="space-y-2 pt-2">
+                                <Input
+                                    placeholder="Reason for amendment"
+                                    value={amendReason}
+                                    onChange={(e) => setAmendReason(e.target.value)}
+                                />
+                                <textarea
+                                    className={TEXTAREA_CLASS}
+                                    placeholder="Correction or addition"
+                                    value={amendContent}
+                                    onChange={(e) => setAmendContent(e.target.value)}
+                                />
+                                <Input
+                                    placeholder="Additional ICD-10 codes (optional)"
+                                    value={amendCodes}
+                                    onChange={(e) => setAmendCodes(e.target.value)}
+                                />
+                                <div className="flex gap-2 justify-end">
+                                    <Button variant="outline" onClick={() => setAmendingId(null)} disabled={saving}>
+                                        Cancel
+                                    </Button>
+                                    <Button onClick={() => submitAmendment(note.id)} disabled={saving}>
+                                        Add amendment
+                                    </Button>
+                                </div>
+                            </div>
+                        ) : (
+                            <Button variant="outline" size="sm" className="gap-2" onClick={() => setAmendingId(note.id)}>
+                                <Plus className="h-4 w-4" /> Amend
+                            </Button>
+                        )}
+                    </CardContent>
+                </Card>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,80 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, HeartPulse, Phone } from "lucide-react";
+import type { HealthHistory } from "@/lib/health-profile";
+
+const LISTS: { key: "currentMedications" | "chronicConditions" | "surgeries"; label: string }[] = [
+    { key: "currentMedications", label: "Current medications" },
+    { key: "chronicConditions", label: "Chronic conditions" },
+    { key: "surgeries", label: "Past surgeries" },
+];
+
+interface PatientHealthSummaryProps {
+    history: HealthHistory; // The intake's snapshot of the patient's health profile
+    submittedAt?: Date;
+}
+
+/**
+ * The medical history a patient gave with their intake, for the assigned doctor
+ */
+export default function PatientHealthSummary({ history, submittedAt }: PatientHealthSummaryProps) {
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                    <HeartPulse className="h-5 w-5" />
+                    Medical history
+                </CardTitle>
+                {submittedAt && (
+                    <CardDescription>As reported by the patient on {submittedAt.toLocaleDateString()}</CardDescription>
+                )}
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+                <div>
+                    <div className="text-xs font-semibold text-slate-500 mb-1">Allergies</div>
+                    {history.allergies.length > 0 ? (
+                        <div className="flex flex-wrap gap-1">
+                            {history.allergies.map((allergy) => (
+                                <Badge key={allergy} variant="destructive" className="gap-1">
+                                    <AlertTriangle className="h-3 w-3" /> {allergy}
+                                </Badge>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-muted-foreground">No known allergies reported</p>
+                    )}
+                </div>
+
+                {LISTS.map(({ key, label }) => (
+                    <div key={key}>
+                        <div className="text-xs font-semibold text-slate-500 mb-1">{label}</div>
+                        {history[key].length > 0 ? (
+                            <ul className="list-disc pl-5 space-y-0.5">
+                                {history[key].map((entry) => (
+                                    <li key={entry}>{entry}</li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <p className="text-muted-foreground">None reported</p>
+                        )}
+                    </div>
+                ))}
+
+                <div>
+                    <div className="text-xs font-semibold text-slate-500 mb-1">Emergency contact</div>
+                    {history.emergencyContactName ? (
+                        <p className="flex items-center gap-2">
+                            <Phone className="h-4 w-4 text-muted-foreground" />
+                            {history.emergencyContactName}
+                            {history.emergencyContactRelationship && ` (${history.emergencyContactRelationship})`}
+                            {" · "}
+                            {history.emergencyContactPhone}
+                        </p>
+                    ) : (
+                        <p className="text-muted-foreground">None provided</p>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
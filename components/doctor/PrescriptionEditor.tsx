@@ -0,0 +1,409 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { AlertTriangle, Download, Loader2, PenLine, Search, Trash2 } from "lucide-react";
+
+interface FormularyDrug {
+    id: string;
+    name: string;
+    brandNames: string[];
+    strength: string;
+    form: string;
+    routes: string[];
+}
+
+interface PrescriptionWarning {
+    type: "INTERACTION" | "ALLERGY";
+    severity: "MAJOR" | "MODERATE";
+    drugs: string[];
+    message: string;
+}
+
+interface PrescriptionItem {
+    drugId: string;
+    drugName: string;
+    strength: string;
+    form: string;
+    dose: string;
+    route: string;
+    frequency: string;
+    quantity: number;
+    refills: number;
+    instructions: string | null;
+}
+
+interface Prescription {
+    id: string;
+    status: "DRAFT" | "SIGNED";
+    allergies: string[];
+    warnings: PrescriptionWarning[] | null;
+    signedAt: string | null;
+    items: PrescriptionItem[];
+}
+
+// Item being edited; routes come from the formulary entry
+type DraftItem = PrescriptionItem & { routes: string[] };
+
+async function readError(res: Response, fallback: string): Promise<string> {
+    const errData = await res.json().catch(() => ({}));
+    return errData.error?.message || errData.message || fallback;
+}
+
+interface PrescriptionEditorProps {
+    consultationId: string;
+    compact?: boolean; // Narrow layout for the side panel of the video call
+}
+
+/**
+ * Prescriptions for one consultation: pick drugs from the formulary, review
+ * interaction and allergy warnings, sign, and download signed PDFs
+ */
+export default function PrescriptionEditor({ consultationId, compact = false }: PrescriptionEditorProps) {
+    const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
+    const [frequencies, setFrequencies] = useState<Record<string, string>>({});
+    const [query, setQuery] = useState("");
+    const [results, setResults] = useState<FormularyDrug[]>([]);
+    const [items, setItems] = useState<DraftItem[]>([]);
+    const [allergies, setAllergies] = useState("");
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const { toast } = useToast();
+
+    const baseUrl = `/api/v1/consultations/${consultationId}/prescriptions`;
+    const draft = prescriptions.find((p) => p.status === "DRAFT");
+    const signed = prescriptions.filter((p) => p.status === "SIGNED");
+
+    const showError = useCallback((err: unknown, fallback: string) => {
+        toast({
+            title: "Error",
+            description: err instanceof Error ? err.message : fallback,
+            variant: "destructive",
+        });
+    }, [toast]);
+
+    const fetchPrescriptions = useCallback(async () => {
+        try {
+            const res = await fetch(baseUrl);
+            if (!res.ok) {
+                throw new Error(await readError(res, "Failed to load prescriptions"));
+            }
+            const data: { prescriptions: Prescription[]; knownAllergies: string[] } = await res.json();
+            setPrescriptions(data.prescriptions);
+            const current = data.prescriptions.find((p) => p.status === "DRAFT");
+            if (current) {
+                setItems(current.items.map((item) => ({ ...item, routes: [item.route] })));
+                setAllergies(current.allergies.join(", "));
+            } else {
+                // New drafts start from the allergies the patient gave at intake
+                setItems([]);
+                setAllergies(data.knownAllergies.join(", "));
+            }
+        } catch (err) {
+            showError(err, "Failed to load prescriptions");
+        } finally {
+            setLoading(false);
+        }
+    }, [baseUrl, showError]);
+
+    useEffect(() => {
+        fetchPrescriptions();
+    }, [fetchPrescriptions]);
+
+    // Search as the doctor types; an empty query lists the start of the formulary
+    useEffect(() => {
+        const timeout = setTimeout(async () => {
+            try {
+                const res = await fetch(`/api/v1/formulary?q=${encodeURIComponent(query)}`);
+                if (!res.ok) return;
+                const data: { drugs: FormularyDrug[]; frequencies: Record<string, string> } = await res.json();
+                setResults(data.drugs);
+                setFrequencies(data.frequencies);
+            } catch {
+                // Keep the previous results
+            }
+        }, 250);
+        return () => clearTimeout(timeout);
+    }, [query]);
+
+    const addDrug = (drug: FormularyDrug) => {
+        if (items.some((item) => item.drugId === drug.id)) return;
+        setItems([
+            ...items,
+            {
+                drugId: drug.id,
+                drugName: drug.name,
+                strength: drug.strength,
+                form: drug.form,
+                routes: drug.routes,
+                dose: `1 ${drug.form}`,
+                route: drug.routes[0],
+                frequency: "BID",
+                quantity: 0,
+                refills: 0,
+                instructions: null,
+            },
+        ]);
+    };
+
+    const updateItem = (index: number, changes: Partial<DraftItem>) => {
+        setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+    };
+
+    const request = async (url: string, method: string, payload?: unknown) => {
+        const res = await fetch(url, {
+            method,
+            headers: { "Content-Type": "application/json" },
+            body: payload === undefined ? undefined : JSON.stringify(payload),
+        });
+        return res;
+    };
+
+    const saveDraft = async () => {
+        setSaving(true);
+        try {
+            const payload = {
+                items: items.map(({ drugId, dose, route, frequency, quantity, refills, instructions }) => ({
+                    drugId,
+                    dose,
+                    route,
+                    frequency,
+                    quantity,
+                    refills,
+                    instructions,
+                })),
+                allergies: allergies.split(",").map((a) => a.trim()).filter(Boolean),
+            };
+            const res = draft
+                ? await request(`${baseUrl}/${draft.id}`, "PATCH", payload)
+                : await request(baseUrl, "POST", payload);
+            if (!res.ok) {
+                throw new Error(await readError(res, "Failed to save prescription"));
+            }
+            await fetchPrescriptions();
+            return true;
+        } catch (err) {
+            showError(err, "Failed to save prescription");
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const sign = async () => {
+        if (!draft || !(await saveDraft())) return;
+        setSaving(true);
+        try {
+            let res = await request(`${baseUrl}/${draft.id}/sign`, "POST");
+            if (res.status === 409) {
+                const errData = await res.json();
+                const warnings: PrescriptionWarning[] | undefined = errData.error?.details?.warnings;
+                if (!warnings) {
+                    throw new Error(errData.error?.message || "Failed to sign prescription");
+                }
+                const list = warnings.map((w) => `- ${w.message}`).join("\n");
+                if (!confirm(`This prescription has major warnings:\n${list}\n\nSign anyway?`)) return;
+                res = await request(`${baseUrl}/${draft.id}/sign`, "POST", { acknowledgeWarnings: true });
+            }
+            if (!res.ok) {
+                throw new Error(await readError(res, "Failed to sign prescription"));
+            }
+            await fetchPrescriptions();
+        } catch (err) {
+            showError(err, "Failed to sign prescription");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+            </div>
+        );
+    }
+
+    const fieldGrid = compact ? "grid grid-cols-2 gap-2" : "grid grid-cols-2 md:grid-cols-5 gap-2";
+
+    return (
+        <div className="space-y-4">
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                    <CardTitle className="text-base">{draft ? "Draft prescription" : "New prescription"}</CardTitle>
+                    {draft && <Badge variant="secondary">DRAFT</Badge>}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="relative">
+                        <Search className="absolute left-3 top-2.5 h-4 w-4 text-slate-400" />
+                        <Input
+                            className="pl-9"
+                            placeholder="Search the formulary"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                        />
+                    </div>
+                    <div className="max-h-40 overflow-y-auto rounded-md border divide-y">
+                        {results.map((drug) => (
+                            <button
+                                key={drug.id}
+                                type="button"
+                                className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50 dark:hover:bg-slate-900"
+                                onClick={() => addDrug(drug)}
+                            >
+                                <span className="font-medium">{drug.name}</span> {drug.strength} {drug.form}
+                                {drug.brandNames.length > 0 && (
+                                    <span className="text-xs text-muted-foreground"> ({drug.brandNames.join(", ")})</span>
+                                )}
+                            </button>
+                        ))}
+                        {results.length === 0 && (
+                            <p className="px-3 py-2 text-sm text-muted-foreground">No matching drugs.</p>
+                        )}
+                    </div>
+
+                    {items.map((item, index) => (
+                        <div key={item.drugId} className="rounded-md border p-3 space-y-2">
+                            <div className="flex items-center justify-between">
+                                <span className="font-medium text-sm">
+                                    {item.drugName} {item.strength} {item.form}
+                                </span>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setItems(items.filter((_, i) => i !== index))}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                            <div className={fieldGrid}>
+                                <Input
+                                    placeholder="Dose"
+                                    value={item.dose}
+                                    onChange={(e) => updateItem(index, { dose: e.target.value })}
+                                />
+                                <select
+                                    className="h-9 rounded-md border px-2 text-sm bg-transparent"
+                                    value={item.route}
+                                    onChange={(e) => updateItem(index, { route: e.target.value })}
+                                >
+                                    {item.routes.map((route) => (
+                                        <option key={route} value={route}>{route}</option>
+                                    ))}
+                                </select>
+                                <select
+                                    className="h-9 rounded-md border px-2 text-sm bg-transparent"
+                                    value={item.frequency}
+                                    onChange={(e) => updateItem(index, { frequency: e.target.value })}
+                                >
+                                    {Object.entries(frequencies).map(([code, label]) => (
+                                        <option key={code} value={code}>{label}</option>
+                                    ))}
+                                </select>
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    placeholder="Quantity"
+                                    value={item.quantity || ""}
+                                    onChange={(e) => updateItem(index, { quantity: Number(e.target.value) })}
+                                />
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    placeholder="Refills"
+                                    value={item.refills}
+                                    onChange={(e) => updateItem(index, { refills: Number(e.target.value) })}
+                                />
+                            </div>
+                            <Input
+                                placeholder="Instructions (optional)"
+                                value={item.instructions ?? ""}
+                                onChange={(e) => updateItem(index, { instructions: e.target.value || null })}
+                            />
+                        </div>
+                    ))}
+
+                    <div>
+                        <label className="text-xs font-semibold text-slate-700 dark:text-slate-300 mb-1 block">
+                            Patient allergies
+                        </label>
+                        <Input
+                            placeholder="e.g. penicillin, sulfa"
+                            value={allergies}
+                            onChange={(e) => setAllergies(e.target.value)}
+                        />
+                    </div>
+
+                    {draft?.warnings && draft.warnings.length > 0 && (
+                        <div className="space-y-1">
+                            {draft.warnings.map((warning, i) => (
+                                <div
+                                    key={i}
+                                    className={`flex gap-2 text-sm rounded-md p-2 ${
+                                        warning.severity === "MAJOR"
+                                            ? "bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-200"
+                                            : "bg-amber-50 text-amber-800 dark:bg-amber-900/20 dark:text-amber-200"
+                                    }`}
+                                >
+                                    <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                                    <span>
+                                        <strong>{warning.severity}:</strong> {warning.message}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="flex gap-2 justify-end">
+                        <Button variant="outline" onClick={saveDraft} disabled={saving || items.length === 0}>
+                            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Save &amp; check
+                        </Button>
+                        {draft && (
+                            <Button onClick={sign} disabled={saving || items.length === 0}>
+                                <PenLine className="h-4 w-4 mr-2" /> Sign
+                            </Button>
+                        )}
+                    </div>
+                </CardContent>
+            </Card>
+
+            {signed.map((prescription) => (
+                <Card key={prescription.id}>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                        <CardTitle className="text-base">
+                            Signed prescription
+                            {prescription.signedAt && (
+                                <span className="block text-xs font-normal text-muted-foreground">
+                                    {new Date(prescription.signedAt).toLocaleString()}
+                                </span>
+                            )}
+                        </CardTitle>
+                        <Button asChild variant="outline" size="sm" className="gap-2">
+                            <a href={`${baseUrl}/${prescription.id}/pdf`} download>
+                                <Download className="h-4 w-4" /> PDF
+                            </a>
+                        </Button>
+                    </CardHeader>
+                    <CardContent>
+                        <ul className="text-sm space-y-1">
+                            {prescription.items.map((item) => (
+                                <li key={item.drugId}>
+                                    <span className="font-medium">
+                                        {item.drugName} {item.strength}
+                                    </span>{" "}
+                                    - {item.dose} {item.route} {frequencies[item.frequency] ?? item.frequency}, #
+                                    {item.quantity}, {item.refills} refill{item.refills === 1 ? "" : "s"}
+                                </li>
+                            ))}
+                        </ul>
+                    </CardContent>
+                </Card>
+            ))}
+        </div>
+    );
+}
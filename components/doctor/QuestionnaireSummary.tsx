@@ -0,0 +1,67 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ClipboardCheck } from "lucide-react";
+import {
+    getQuestionnaire,
+    questionnaireQuestions,
+    type AnswerValue,
+    type Question,
+    type QuestionnaireResponse,
+} from "@/lib/questionnaires";
+
+function formatAnswer(question: Question | undefined, value: AnswerValue): string {
+    if (typeof value === "boolean") return value ? "Yes" : "No";
+    const label = (v: string) => question?.options?.find((option) => option.value === v)?.label ?? v;
+    if (Array.isArray(value)) return value.map(label).join(", ");
+    return typeof value === "string" ? label(value) : String(value);
+}
+
+interface QuestionnaireSummaryProps {
+    response: QuestionnaireResponse;
+}
+
+/**
+ * Scores and answers of the specialty questionnaire a patient filled in with
+ * their intake, for the assigned doctor
+ */
+export default function QuestionnaireSummary({ response }: QuestionnaireSummaryProps) {
+    const questionnaire = getQuestionnaire(response.specialty);
+    const questions = new Map((questionnaire ? questionnaireQuestions(questionnaire) : []).map((q) => [q.id, q]));
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                    <ClipboardCheck className="h-5 w-5" />
+                    {questionnaire?.title ?? "Questionnaire"}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+                {response.scores.map((score) => (
+                    <div key={score.id} className="rounded-md border p-3 space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium">{score.label}</span>
+                            <Badge variant={score.flags.length > 0 ? "destructive" : "secondary"}>
+                                {score.score}/{score.maxScore} · {score.severity}
+                            </Badge>
+                        </div>
+                        {score.flags.map((flag) => (
+                            <p key={flag} className="flex items-center gap-1 text-red-600">
+                                <AlertTriangle className="h-4 w-4" /> {flag}
+                            </p>
+                        ))}
+                    </div>
+                ))}
+
+                <dl className="grid gap-3">
+                    {Object.entries(response.answers).map(([id, value]) => (
+                        <div key={id}>
+                            <dt className="text-xs font-semibold text-slate-500">{questions.get(id)?.label ?? id}</dt>
+                            <dd className="whitespace-pre-wrap">{formatAnswer(questions.get(id), value)}</dd>
+                        </div>
+                    ))}
+                </dl>
+            </CardContent>
+        </Card>
+    );
+}
@@ -1,29 +1,183 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { DateTime } from "luxon";
+import { format } from "date-fns";
 import { Calendar } from "@/components/ui/calendar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/components/ui/use-toast";
-import { Loader2 } from "lucide-react";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+interface ScheduleSlot {
+    startTime: string; // ISO string
+    endTime: string;
+    source: "SCHEDULE" | "EXTRA";
+    overrideId: string | null;
+    blockedBy: { id: string; type: string } | null;
+    consultationId: string | null;
+}
+
+interface AvailabilityOverride {
+    id: string;
+    type: "BLOCKED" | "TIME_OFF" | "EXTRA";
+    startAt: string;
+    endAt: string;
+    reason: string | null;
+}
+
+interface ScheduleData {
+    date: string;
+    timezone: string;
+    slots: ScheduleSlot[];
+    overrides: AvailabilityOverride[];
+    timeOff: AvailabilityOverride[];
+}
+
+async function readError(res: Response, fallback: string): Promise<string> {
+    const errData = await res.json().catch(() => ({}));
+    return errData.error?.message || errData.message || fallback;
+}
 
 export default function ScheduleManager() {
     const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
+    const [schedule, setSchedule] = useState<ScheduleData | null>(null);
     const [loading, setLoading] = useState(false);
-    // Placeholder for slots management
-    const [slots, setSlots] = useState<string[]>([]);
+    const [saving, setSaving] = useState(false);
+    const [extraStart, setExtraStart] = useState("18:00");
+    const [extraEnd, setExtraEnd] = useState("20:00");
+    const [timeOffStart, setTimeOffStart] = useState("");
+    const [timeOffEnd, setTimeOffEnd] = useState("");
+    const [timeOffReason, setTimeOffReason] = useState("");
     const { toast } = useToast();
 
-    // In a real implementation, we would fetch slots for the selected date
-    // and allow toggling them. For now, we'll just show the calendar.
+    const fetchSchedule = useCallback(async () => {
+        if (!selectedDate) return;
+
+        try {
+            setLoading(true);
+            const dateStr = format(selectedDate, "yyyy-MM-dd");
+            const res = await fetch(`/api/v1/doctors/me/availability?date=${dateStr}`);
+            if (!res.ok) {
+                throw new Error(await readError(res, "Failed to load availability"));
+            }
+            setSchedule(await res.json());
+        } catch (err) {
+            toast({
+                title: "Error",
+                description: err instanceof Error ? err.message : "Failed to load availability",
+                variant: "destructive",
+            });
+        } finally {
+            setLoading(false);
+        }
+    }, [selectedDate, toast]);
+
+    useEffect(() => {
+        fetchSchedule();
+    }, [fetchSchedule]);
+
+    const createOverride = async (payload: {
+        type: AvailabilityOverride["type"];
+        startAt: string;
+        endAt: string;
+        reason?: string;
+    }) => {
+        setSaving(true);
+        try {
+            const res = await fetch("/api/v1/doctors/me/availability", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(payload),
+            });
+            if (!res.ok) {
+                throw new Error(await readError(res, "Failed to update availability"));
+            }
+            await fetchSchedule();
+            return true;
+        } catch (err) {
+            toast({
+                title: "Error",
+                description: err instanceof Error ? err.message : "Failed to update availability",
+                variant: "destructive",
+            });
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const deleteOverride = async (id: string) => {
+        setSaving(true);
+        try {
+            const res = await fetch(`/api/v1/doctors/me/availability/${id}`, {
+                method: "DELETE",
+            });
+            if (!res.ok) {
+                throw new Error(await readError(res, "Failed to update availability"));
+            }
+            await fetchSchedule();
+        } catch (err) {
+            toast({
+                title: "Error",
+                description: err instanceof Error ? err.message : "Failed to update availability",
+                variant: "destructive",
+            });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const toggleSlot = (slot: ScheduleSlot) => {
+        if (slot.blockedBy?.type === "BLOCKED") {
+            deleteOverride(slot.blockedBy.id);
+        } else if (!slot.blockedBy) {
+            createOverride({ type: "BLOCKED", startAt: slot.startTime, endAt: slot.endTime });
+        }
+    };
+
+    // Wall-clock inputs are interpreted in the doctor's profile timezone, not the browser's
+    const toDoctorInstant = (date: string, time: string) =>
+        DateTime.fromISO(`${date}T${time}`, { zone: schedule?.timezone ?? "UTC" }).toUTC().toISO();
+
+    const handleAddExtraHours = async () => {
+        if (!schedule) return;
+        const startAt = toDoctorInstant(schedule.date, extraStart);
+        const endAt = toDoctorInstant(schedule.date, extraEnd);
+        if (!startAt || !endAt) return;
+        await createOverride({ type: "EXTRA", startAt, endAt });
+    };
 
-    const handleDateSelect = (date: Date | undefined) => {
-        setSelectedDate(date);
-        if (date) {
-            // Fetch slots logic here
+    const handleAddTimeOff = async () => {
+        if (!schedule || !timeOffStart || !timeOffEnd) return;
+        const zone = schedule.timezone;
+        const startAt = DateTime.fromISO(timeOffStart, { zone }).startOf("day").toUTC().toISO();
+        // The end date is inclusive: time off runs until the following midnight
+        const endAt = DateTime.fromISO(timeOffEnd, { zone }).startOf("day").plus({ days: 1 }).toUTC().toISO();
+        if (!startAt || !endAt) return;
+        const created = await createOverride({
+            type: "TIME_OFF",
+            startAt,
+            endAt,
+            reason: timeOffReason || undefined,
+        });
+        if (created) {
+            setTimeOffStart("");
+            setTimeOffEnd("");
+            setTimeOffReason("");
         }
     };
 
+    const formatTime = (iso: string) =>
+        DateTime.fromISO(iso, { zone: schedule?.timezone ?? "UTC" }).toFormat("h:mm a");
+    const formatDay = (iso: string) =>
+        DateTime.fromISO(iso, { zone: schedule?.timezone ?? "UTC" }).toFormat("MMM d, yyyy");
+
+    const now = Date.now();
+    const extraHours = schedule?.overrides.filter((o) => o.type === "EXTRA") ?? [];
+
     return (
         <div className="grid gap-6 md:grid-cols-2">
             <Card>
@@ -34,7 +188,8 @@ export default function ScheduleManager() {
                     <Calendar
                         mode="single"
                         selected={selectedDate}
-                        onSelect={handleDateSelect}
+                        onSelect={setSelectedDate}
+                        disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
                         className="rounded-md border shadow"
                     />
                 </CardContent>
@@ -42,14 +197,125 @@ export default function ScheduleManager() {
 
             <Card>
                 <CardHeader>
-                    <CardTitle>Availability {selectedDate?.toLocaleDateString()}</CardTitle>
+                    <CardTitle>
+                        Availability {selectedDate ? format(selectedDate, "MMMM d, yyyy") : ""}
+                    </CardTitle>
+                    {schedule && (
+                        <p className="text-sm text-muted-foreground">
+                            Times shown in {schedule.timezone}. Click a slot to block or reopen it.
+                        </p>
+                    )}
                 </CardHeader>
-                <CardContent>
-                    <div className="text-center py-8 text-muted-foreground">
-                        Select a date to manage availability.
-                        <br />
-                        (Availability management coming soon)
+                <CardContent className="space-y-6">
+                    {loading && (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                        </div>
+                    )}
+
+                    {!loading && schedule && schedule.slots.length === 0 && (
+                        <div className="text-center py-8 text-muted-foreground">
+                            No working hours on this date.
+                        </div>
+                    )}
+
+                    {!loading && schedule && schedule.slots.length > 0 && (
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                            {schedule.slots.map((slot) => {
+                                const isPast = new Date(slot.startTime).getTime() <= now;
+                                const isBooked = !!slot.consultationId;
+                                const isTimeOff = slot.blockedBy?.type === "TIME_OFF";
+                                const isBlocked = slot.blockedBy?.type === "BLOCKED";
+                                return (
+                                    <Button
+                                        key={slot.startTime}
+                                        variant={isBlocked || isTimeOff ? "ghost" : "outline"}
+                                        disabled={saving || isPast || isBooked || isTimeOff}
+                                        className={`w-full justify-between ${isBlocked || isTimeOff ? "line-through opacity-60" : ""}`}
+                                        onClick={() => toggleSlot(slot)}
+                                    >
+                                        {formatTime(slot.startTime)}
+                                        {isBooked && <Badge variant="secondary">Booked</Badge>}
+                                        {isTimeOff && <Badge variant="secondary">Time off</Badge>}
+                                        {!isBooked && slot.source === "EXTRA" && <Badge variant="outline">Extra</Badge>}
+                                    </Button>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    {schedule && (
+                        <div className="space-y-2 border-t pt-4">
+                            <h3 className="font-medium">Extra hours</h3>
+                            {extraHours.map((extra) => (
+                                <div key={extra.id} className="flex items-center justify-between text-sm">
+                                    <span>
+                                        {formatTime(extra.startAt)} - {formatTime(extra.endAt)}
+                                    </span>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        disabled={saving}
+                                        onClick={() => deleteOverride(extra.id)}
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                            <div className="flex items-center gap-2">
+                                <Input type="time" value={extraStart} onChange={(e) => setExtraStart(e.target.value)} />
+                                <span>-</span>
+                                <Input type="time" value={extraEnd} onChange={(e) => setExtraEnd(e.target.value)} />
+                                <Button variant="outline" disabled={saving} onClick={handleAddExtraHours}>
+                                    <Plus className="h-4 w-4 mr-1" /> Add
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card className="md:col-span-2">
+                <CardHeader>
+                    <CardTitle>Time Off</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid gap-2 sm:grid-cols-4">
+                        <Input type="date" value={timeOffStart} onChange={(e) => setTimeOffStart(e.target.value)} />
+                        <Input type="date" value={timeOffEnd} onChange={(e) => setTimeOffEnd(e.target.value)} />
+                        <Input
+                            placeholder="Reason (optional)"
+                            value={timeOffReason}
+                            onChange={(e) => setTimeOffReason(e.target.value)}
+                        />
+                        <Button
+                            disabled={saving || !schedule || !timeOffStart || !timeOffEnd}
+                            onClick={handleAddTimeOff}
+                        >
+                            Add time off
+                        </Button>
                     </div>
+
+                    {schedule && schedule.timeOff.length === 0 && (
+                        <p className="text-sm text-muted-foreground">No upcoming time off.</p>
+                    )}
+
+                    {schedule?.timeOff.map((entry) => (
+                        <div key={entry.id} className="flex items-center justify-between text-sm">
+                            <span>
+                                {formatDay(entry.startAt)} - {formatDay(new Date(new Date(entry.endAt).getTime() - 1).toISOString())}
+                                {entry.reason && <span className="text-muted-foreground"> ({entry.reason})</span>}
+                            </span>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                disabled={saving}
+                                onClick={() => deleteOverride(entry.id)}
+                            >
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    ))}
                 </CardContent>
             </Card>
         </div>
@@ -0,0 +1,84 @@
+"use client";
+import React from 'react';
+import { Paperclip, X } from 'lucide-react';
+import { ATTACHMENT_CONTENT_TYPES, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS_PER_INTAKE } from '@/lib/constants';
+
+export const ATTACHMENT_ACCEPT = ATTACHMENT_CONTENT_TYPES.join(',');
+
+/**
+ * Why a file cannot be attached, or null if it can. The server checks the
+ * contents again; this only saves uploading files it would refuse.
+ */
+export function attachmentFileError(file: File): string | null {
+  if (!(ATTACHMENT_CONTENT_TYPES as readonly string[]).includes(file.type)) {
+    return `${file.name}: only JPEG and PNG images and PDF files can be attached`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name}: files can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`;
+  }
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface AttachmentPickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Photos and documents picked while filling in the intake; they are uploaded
+ * once the consultation has been booked
+ */
+export function AttachmentPicker({ files, onChange, onError }: AttachmentPickerProps) {
+  const addFiles = (picked: FileList | null) => {
+    const added = Array.from(picked ?? []);
+    const invalid = added.map(attachmentFileError).find(message => message !== null);
+    if (invalid) {
+      onError(invalid);
+      return;
+    }
+    if (files.length + added.length > MAX_ATTACHMENTS_PER_INTAKE) {
+      onError(`You can attach at most ${MAX_ATTACHMENTS_PER_INTAKE} files`);
+      return;
+    }
+    onChange([...files, ...added]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {files.map((file, index) => (
+        <div key={`${file.name}-${index}`} className="flex items-center justify-between gap-2 p-2 bg-white border border-slate-200 rounded-lg text-xs">
+          <span className="truncate">{file.name}</span>
+          <span className="flex items-center gap-2 text-slate-500 shrink-0">
+            {formatFileSize(file.size)}
+            <button
+              type="button"
+              aria-label={`Remove ${file.name}`}
+              className="text-slate-400 hover:text-red-600"
+              onClick={() => onChange(files.filter((_, i) => i !== index))}
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </span>
+        </div>
+      ))}
+      <label className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-dashed border-slate-300 text-xs text-slate-600 cursor-pointer hover:border-blue-400">
+        <Paperclip className="h-3.5 w-3.5" /> Add photos or PDFs
+        <input
+          type="file"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          className="sr-only"
+          onChange={e => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </label>
+    </div>
+  );
+}
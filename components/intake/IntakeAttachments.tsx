@@ -0,0 +1,137 @@
+"use client";
+import React, { useCallback, useEffect, useState } from 'react';
+import { FileText, Image as ImageIcon, Loader2, Paperclip, Trash2 } from 'lucide-react';
+import { ATTACHMENT_ACCEPT, attachmentFileError, formatFileSize } from '@/components/intake/AttachmentPicker';
+
+interface Attachment {
+  id: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  url: string; // Signed; stops working after a few minutes
+}
+
+interface IntakeAttachmentsProps {
+  consultationId: string;
+  // Whether files can be added and removed (the patient, before the call ends)
+  editable?: boolean;
+}
+
+async function apiError(res: Response, fallback: string): Promise<Error> {
+  const body = await res.json().catch(() => ({}));
+  return new Error(body.error?.message || fallback);
+}
+
+// Download links work for five minutes; fetch fresh ones before they expire
+const REFRESH_LINKS_MS = 4 * 60 * 1000;
+
+/**
+ * The photos and documents attached to a consultation's intake
+ */
+export function IntakeAttachments({ consultationId, editable = false }: IntakeAttachmentsProps) {
+  const [attachments, setAttachments] = useState<Attachment[] | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+  const endpoint = `/api/v1/consultations/${consultationId}/intake/attachments`;
+
+  const load = useCallback(async () => {
+    const res = await fetch(endpoint);
+    if (!res.ok) throw await apiError(res, 'Failed to load attachments');
+    setAttachments((await res.json()).attachments);
+  }, [endpoint]);
+
+  useEffect(() => {
+    load().catch(err => setError(err.message));
+    const interval = setInterval(() => load().catch(err => setError(err.message)), REFRESH_LINKS_MS);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  const upload = async (files: File[]) => {
+    setError('');
+    for (const file of files) {
+      const invalid = attachmentFileError(file);
+      if (invalid) {
+        setError(invalid);
+        return;
+      }
+    }
+
+    setUploading(true);
+    try {
+      for (const file of files) {
+        const form = new FormData();
+        form.append('file', file);
+        const res = await fetch(endpoint, { method: 'POST', body: form });
+        if (!res.ok) throw await apiError(res, `Failed to upload ${file.name}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload');
+    } finally {
+      setUploading(false);
+      load().catch(err => setError(err.message));
+    }
+  };
+
+  const remove = async (id: string) => {
+    setError('');
+    const res = await fetch(`${endpoint}/${id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      setError((await apiError(res, 'Failed to remove attachment')).message);
+      return;
+    }
+    setAttachments(current => current?.filter(a => a.id !== id) ?? null);
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      {attachments === null && !error && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+      {attachments?.length === 0 && <p className="text-muted-foreground">No files attached.</p>}
+      {attachments?.map(attachment => (
+        <div key={attachment.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+          <a
+            href={attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 truncate text-blue-600 hover:underline"
+          >
+            {attachment.contentType === 'application/pdf'
+              ? <FileText className="h-4 w-4 shrink-0" />
+              : <ImageIcon className="h-4 w-4 shrink-0" />}
+            <span className="truncate">{attachment.fileName}</span>
+          </a>
+          <span className="flex items-center gap-2 text-xs text-slate-500 shrink-0">
+            {formatFileSize(attachment.sizeBytes)}
+            {editable && (
+              <button
+                type="button"
+                aria-label={`Remove ${attachment.fileName}`}
+                className="text-slate-400 hover:text-red-600"
+                onClick={() => remove(attachment.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </span>
+        </div>
+      ))}
+      {editable && (
+        <label className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-dashed border-slate-300 text-xs text-slate-600 cursor-pointer hover:border-blue-400">
+          {uploading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Paperclip className="h-3.5 w-3.5" />}
+          Add photos or PDFs
+          <input
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            className="sr-only"
+            disabled={uploading}
+            onChange={e => {
+              upload(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+        </label>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
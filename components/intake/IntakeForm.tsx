@@ -13,12 +13,28 @@ import {
 } from 'lucide-react';
 
 // Import Constants
-import { SPECIALTIES, AGE_RANGES, getSpecialtyPrice } from '@/lib/constants';
+import { AGE_RANGES } from '@/lib/constants';
+import { formatPrice, type SpecialtyOption } from '@/lib/types';
+import type { ConsultationPrice } from '@/lib/pricing';
 
 // Import Modular Components
 import { InputField } from '@/components/ui/InputField';
 import { SpecialtyCard } from '@/components/intake/SpecialtyCard';
 import { ConsentBanner } from '@/components/intake/ConsentBanner';
+import {
+  HealthHistoryFields,
+  historyToText,
+  textToHistory,
+  type HealthHistoryText,
+} from '@/components/patient/HealthHistoryFields';
+import type { HealthHistoryList } from '@/lib/health-profile';
+import { QuestionnaireFields } from '@/components/intake/QuestionnaireFields';
+import { AttachmentPicker } from '@/components/intake/AttachmentPicker';
+import {
+  validateQuestionnaireAnswers,
+  type Questionnaire,
+  type QuestionnaireAnswers,
+} from '@/lib/questionnaires';
 
 export interface IntakeFormData {
   specialty: string;
@@ -26,19 +42,29 @@ export interface IntakeFormData {
   ageRange: string;
   chiefComplaint: string;
   consent: boolean;
+  // Prefilled from the patient's health profile and copied into the intake
+  healthProfile: Record<HealthHistoryList, string[]>;
+  saveToProfile: boolean;
+  // Answers to the specialty's questionnaire, if it has one
+  questionnaire?: QuestionnaireAnswers;
+  // Photos and documents to upload once the consultation is booked
+  attachments?: File[];
 }
 
 interface IntakeFormProps {
+  specialties: SpecialtyOption[];
   onSuccess?: (consultationId: string) => void;
   onSubmit?: (data: IntakeFormData) => Promise<void>;
   onBack?: () => void;
   defaultSpecialty?: string;
+  // The selected doctor's fee, when it differs from the catalog price
+  price?: ConsultationPrice;
   isSubmitting?: boolean;
 }
 
 
 
-export default function IntakeForm({ onSuccess, onSubmit, onBack, defaultSpecialty, isSubmitting = false }: IntakeFormProps) {
+export default function IntakeForm({ specialties, onSuccess, onSubmit, onBack, defaultSpecialty, price, isSubmitting = false }: IntakeFormProps) {
   const [internalLoading, setInternalLoading] = useState(false);
   const [error, setError] = useState("");
   const [formData, setFormData] = useState<IntakeFormData>({
@@ -46,9 +72,37 @@ export default function IntakeForm({ onSuccess, onSubmit, onBack, defaultSpecial
     nameOrAlias: '',
     ageRange: '',
     chiefComplaint: '',
-    consent: false
+    consent: false,
+    healthProfile: { allergies: [], currentMedications: [], chronicConditions: [], surgeries: [] },
+    saveToProfile: true
   });
   const [specialtyTouched, setSpecialtyTouched] = useState(false);
+  const [history, setHistory] = useState<HealthHistoryText>(() => historyToText(formData.healthProfile));
+  const [questionnaire, setQuestionnaire] = useState<Questionnaire | null>(null);
+  const [answers, setAnswers] = useState<QuestionnaireAnswers>({});
+  const [attachments, setAttachments] = useState<File[]>([]);
+
+  // Start from the patient's saved health profile so they don't retype it
+  React.useEffect(() => {
+    let cancelled = false;
+    fetch('/api/v1/users/me/health-profile')
+      .then(res => (res.ok ? res.json() : null))
+      .then(profile => {
+        if (!profile || cancelled) return;
+        setFormData(prev => ({
+          ...prev,
+          nameOrAlias: prev.nameOrAlias || profile.nameOrAlias || '',
+          ageRange: prev.ageRange || profile.ageRange || '',
+        }));
+        setHistory(historyToText(profile));
+      })
+      .catch(() => {
+        // Not signed in as a patient: the form simply starts empty
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   React.useEffect(() => {
     if (defaultSpecialty && !specialtyTouched) {
@@ -56,19 +110,54 @@ export default function IntakeForm({ onSuccess, onSubmit, onBack, defaultSpecial
     }
   }, [defaultSpecialty, specialtyTouched]);
 
+  // Specialties can ask extra questions on top of the standard intake
+  React.useEffect(() => {
+    setQuestionnaire(null);
+    setAnswers({});
+    if (!formData.specialty) return;
+    let cancelled = false;
+    fetch(`/api/v1/specialties/${encodeURIComponent(formData.specialty)}/questionnaire`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!cancelled) setQuestionnaire(data?.questionnaire ?? null);
+      })
+      .catch(() => {
+        // The server checks the answers again, so a failed load only hides the questions
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.specialty]);
+
   const loading = isSubmitting || internalLoading;
   const hasPreSelectedSpecialty = !!defaultSpecialty;
-  const selectedSpecialtyInfo = SPECIALTIES.find(s => s.id === formData.specialty);
+  const selectedSpecialtyInfo = specialties.find(s => s.id === formData.specialty);
 
-  // Get dynamic consultation fee based on selected specialty
-  const consultationFee = getSpecialtyPrice(formData.specialty);
+  // Consultation fee: the selected doctor's, or the catalog price of the specialty
+  const fee = price ?? selectedSpecialtyInfo;
+  const consultationFee = fee ? formatPrice(fee.price, fee.currency) : '-';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
 
+    let questionnaireAnswers: QuestionnaireAnswers | undefined;
+    if (questionnaire) {
+      const validated = validateQuestionnaireAnswers(questionnaire, answers);
+      if (!validated.data) {
+        setError(validated.error);
+        return;
+      }
+      questionnaireAnswers = validated.data;
+    }
+
     if (onSubmit) {
-      await onSubmit(formData);
+      await onSubmit({
+        ...formData,
+        healthProfile: textToHistory(history),
+        questionnaire: questionnaireAnswers,
+        attachments,
+      });
       return;
     }
 
@@ -112,7 +201,7 @@ export default function IntakeForm({ onSuccess, onSubmit, onBack, defaultSpecial
                 </div>
                 <div className="text-right">
                   <p className="text-xs text-slate-600">Fee</p>
-                  <p className="text-2xl font-bold text-emerald-600">${consultationFee}</p>
+                  <p className="text-2xl font-bold text-emerald-600">{consultationFee}</p>
                 </div>
               </div>
             )}
@@ -122,7 +211,7 @@ export default function IntakeForm({ onSuccess, onSubmit, onBack, defaultSpecial
               <div>
                 <label className="text-xs font-semibold text-slate-700 mb-2 block">Consultation Type</label>
                 <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
-                  {SPECIALTIES.map((s) => (
+                  {specialties.map((s) => (
                     <button
                       type="button"
                       key={s.id}
@@ -136,7 +225,7 @@ export default function IntakeForm({ onSuccess, onSubmit, onBack, defaultSpecial
                         }`}
                     >
                       <span className="font-medium">{s.label}</span>
-                      <span className={`text-xs ${formData.specialty === s.id ? 'text-blue-100' : 'text-emerald-600 font-semibold'}`}>${s.price}</span>
+                      <span className={`text-xs ${formData.specialty === s.id ? 'text-blue-100' : 'text-emerald-600 font-semibold'}`}>{formatPrice(s.price, s.currency)}</span>
                     </button>
                   ))}
                 </div>
@@ -181,6 +270,41 @@ export default function IntakeForm({ onSuccess, onSubmit, onBack, defaultSpecial
                 onChange={e => setFormData({ ...formData, chiefComplaint: e.target.value })}
               />
             </div>
+
+            {/* Specialty Questionnaire */}
+            {questionnaire && (
+              <QuestionnaireFields questionnaire={questionnaire} answers={answers} onChange={setAnswers} />
+            )}
+
+            {/* Medical History */}
+            <div className="space-y-3">
+              <div>
+                <p className="text-xs font-semibold text-slate-700">Medical History</p>
+                <p className="text-xs text-slate-500">
+                  Filled in from your health profile. Your doctor sees it before the call.
+                </p>
+              </div>
+              <HealthHistoryFields value={history} onChange={setHistory} />
+              <label className="flex items-center gap-2 text-xs text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={formData.saveToProfile}
+                  onChange={e => setFormData({ ...formData, saveToProfile: e.target.checked })}
+                />
+                Save changes to my health profile
+              </label>
+            </div>
+
+            {/* Attachments */}
+            <div className="space-y-3">
+              <div>
+                <p className="text-xs font-semibold text-slate-700">Photos & Documents</p>
+                <p className="text-xs text-slate-500">
+                  Optional: photos of the problem or earlier lab results (JPEG, PNG or PDF). Location and camera details are removed from photos.
+                </p>
+              </div>
+              <AttachmentPicker files={attachments} onChange={setAttachments} onError={setError} />
+            </div>
           </div>
 
           {/* Right Column - Consent & Submit */}
@@ -204,7 +328,7 @@ export default function IntakeForm({ onSuccess, onSubmit, onBack, defaultSpecial
               {hasPreSelectedSpecialty && (
                 <div className="text-center py-2 border-t border-slate-100">
                   <p className="text-xs text-slate-500">Total</p>
-                  <p className="text-xl font-bold text-slate-900">${consultationFee} USD</p>
+                  <p className="text-xl font-bold text-slate-900">{consultationFee}</p>
                 </div>
               )}
 
@@ -0,0 +1,160 @@
+"use client";
+import React from 'react';
+import {
+  isQuestionVisible,
+  type AnswerValue,
+  type Question,
+  type Questionnaire,
+  type QuestionnaireAnswers,
+} from '@/lib/questionnaires';
+
+interface QuestionnaireFieldsProps {
+  questionnaire: Questionnaire;
+  answers: QuestionnaireAnswers;
+  onChange: (answers: QuestionnaireAnswers) => void;
+}
+
+const INPUT_CLASS = 'w-full p-3 bg-white border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-100 focus:border-blue-500 outline-none';
+
+function QuestionInput({ question, value, onChange }: {
+  question: Question;
+  value: AnswerValue | undefined;
+  onChange: (value: AnswerValue | undefined) => void;
+}) {
+  const name = `question-${question.id}`;
+
+  switch (question.type) {
+    case 'text':
+    case 'date':
+      return (
+        <input
+          id={name}
+          type={question.type}
+          required={question.required}
+          maxLength={question.maxLength}
+          className={INPUT_CLASS}
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value || undefined)}
+        />
+      );
+    case 'textarea':
+      return (
+        <textarea
+          id={name}
+          required={question.required}
+          maxLength={question.maxLength}
+          className={`${INPUT_CLASS} h-20 resize-none`}
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value || undefined)}
+        />
+      );
+    case 'number':
+      return (
+        <input
+          id={name}
+          type="number"
+          required={question.required}
+          min={question.min}
+          max={question.max}
+          step={question.integer ? 1 : 'any'}
+          className={INPUT_CLASS}
+          value={typeof value === 'number' ? value : ''}
+          onChange={e => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        />
+      );
+    case 'choice':
+    case 'boolean': {
+      const options = question.type === 'boolean'
+        ? [{ value: true, label: 'Yes' }, { value: false, label: 'No' }]
+        : (question.options ?? []).map(option => ({ value: option.value as AnswerValue, label: option.label }));
+      return (
+        <div className="flex flex-wrap gap-2">
+          {options.map(option => (
+            <label
+              key={String(option.value)}
+              className={`px-3 py-2 rounded-lg border text-xs cursor-pointer transition-all ${value === option.value
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-slate-700 border-slate-200 hover:border-blue-300'
+                }`}
+            >
+              <input
+                type="radio"
+                name={name}
+                required={question.required}
+                className="sr-only"
+                checked={value === option.value}
+                onChange={() => onChange(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      );
+    }
+    case 'multi_choice': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {(question.options ?? []).map(option => (
+            <label key={option.value} className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={e => {
+                  const next = e.target.checked
+                    ? [...selected, option.value]
+                    : selected.filter(v => v !== option.value);
+                  onChange(next.length > 0 ? next : undefined);
+                }}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      );
+    }
+  }
+}
+
+/**
+ * The specialty's extra intake questions. Questions appear and disappear as
+ * their `showIf` conditions are met.
+ */
+export function QuestionnaireFields({ questionnaire, answers, onChange }: QuestionnaireFieldsProps) {
+  const setAnswer = (id: string, value: AnswerValue | undefined) => {
+    const next = { ...answers };
+    if (value === undefined) {
+      delete next[id];
+    } else {
+      next[id] = value;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-5">
+      <p className="text-sm font-semibold text-slate-900">{questionnaire.title}</p>
+      {questionnaire.sections.map(section => (
+        <div key={section.title} className="space-y-4">
+          <div>
+            <p className="text-xs font-semibold text-slate-700 uppercase tracking-wide">{section.title}</p>
+            {section.description && <p className="text-xs text-slate-500">{section.description}</p>}
+          </div>
+          {section.questions.filter(question => isQuestionVisible(question, answers)).map(question => (
+            <div key={question.id}>
+              <label htmlFor={`question-${question.id}`} className="text-xs font-semibold text-slate-700 mb-1 block">
+                {question.label}{question.required && ' *'}
+              </label>
+              {question.help && <p className="text-xs text-slate-500 mb-1">{question.help}</p>}
+              <QuestionInput
+                question={question}
+                value={answers[question.id]}
+                onChange={value => setAnswer(question.id, value)}
+              />
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
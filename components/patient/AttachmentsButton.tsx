@@ -0,0 +1,43 @@
+"use client";
+
+import { useState } from "react";
+import { Paperclip } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { IntakeAttachments } from "@/components/intake/IntakeAttachments";
+
+interface AttachmentsButtonProps {
+    consultationId: string;
+}
+
+export function AttachmentsButton({ consultationId }: AttachmentsButtonProps) {
+    const [open, setOpen] = useState(false);
+
+    return (
+        <>
+            <Button variant="outline" className="w-full gap-2" onClick={() => setOpen(true)}>
+                <Paperclip className="h-4 w-4" />
+                Photos & Documents
+            </Button>
+
+            <Dialog open={open} onOpenChange={setOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Photos & Documents</DialogTitle>
+                        <DialogDescription>
+                            Share photos or earlier lab results (JPEG, PNG or PDF) with your doctor. Location and camera details are removed from photos.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {open && <IntakeAttachments consultationId={consultationId} editable />}
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import type { HealthHistoryList } from "@/lib/health-profile";
+
+// Each list is edited as a textarea with one entry per line
+export type HealthHistoryText = Record<HealthHistoryList, string>;
+
+const FIELDS: { key: HealthHistoryList; label: string; placeholder: string }[] = [
+    { key: "allergies", label: "Allergies", placeholder: "e.g. Penicillin\nPeanuts" },
+    { key: "currentMedications", label: "Current medications", placeholder: "e.g. Lisinopril 10 mg once daily" },
+    { key: "chronicConditions", label: "Chronic conditions", placeholder: "e.g. Type 2 diabetes" },
+    { key: "surgeries", label: "Past surgeries", placeholder: "e.g. Appendectomy (2015)" },
+];
+
+const TEXTAREA_CLASS =
+    "w-full p-3 bg-white border border-slate-200 rounded-lg h-20 text-sm focus:ring-2 focus:ring-blue-100 focus:border-blue-500 outline-none resize-y";
+
+export function historyToText(history: Record<HealthHistoryList, string[]>): HealthHistoryText {
+    return {
+        allergies: history.allergies.join("\n"),
+        currentMedications: history.currentMedications.join("\n"),
+        chronicConditions: history.chronicConditions.join("\n"),
+        surgeries: history.surgeries.join("\n"),
+    };
+}
+
+export function textToHistory(text: HealthHistoryText): Record<HealthHistoryList, string[]> {
+    const lines = (value: string) => value.split("\n").map((line) => line.trim()).filter(Boolean);
+    return {
+        allergies: lines(text.allergies),
+        currentMedications: lines(text.currentMedications),
+        chronicConditions: lines(text.chronicConditions),
+        surgeries: lines(text.surgeries),
+    };
+}
+
+interface HealthHistoryFieldsProps {
+    value: HealthHistoryText;
+    onChange: (value: HealthHistoryText) => void;
+}
+
+/**
+ * Allergies, medications, conditions and surgeries, shared by the health
+ * profile settings and the intake form
+ */
+export function HealthHistoryFields({ value, onChange }: HealthHistoryFieldsProps) {
+    return (
+        <div className="grid gap-4 sm:grid-cols-2">
+            {FIELDS.map(({ key, label, placeholder }) => (
+                <div key={key}>
+                    <label htmlFor={`health-${key}`} className="text-xs font-semibold text-slate-700 mb-1 block">
+                        {label} <span className="font-normal text-slate-400">(one per line)</span>
+                    </label>
+                    <textarea
+                        id={`health-${key}`}
+                        className={TEXTAREA_CLASS}
+                        placeholder={placeholder}
+                        value={value[key]}
+                        onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+                    />
+                </div>
+            ))}
+        </div>
+    );
+}
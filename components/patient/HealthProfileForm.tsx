@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AGE_RANGES } from "@/lib/constants";
+import type { HealthProfileInput } from "@/lib/health-profile";
+import {
+    HealthHistoryFields,
+    historyToText,
+    textToHistory,
+} from "@/components/patient/HealthHistoryFields";
+
+interface HealthProfileFormProps {
+    profile: HealthProfileInput;
+}
+
+const LABEL_CLASS = "text-xs font-semibold text-slate-700 mb-1 block";
+
+export function HealthProfileForm({ profile }: HealthProfileFormProps) {
+    const [nameOrAlias, setNameOrAlias] = useState(profile.nameOrAlias ?? "");
+    const [ageRange, setAgeRange] = useState<string>(profile.ageRange ?? "");
+    const [history, setHistory] = useState(() => historyToText(profile));
+    const [contactName, setContactName] = useState(profile.emergencyContactName ?? "");
+    const [contactPhone, setContactPhone] = useState(profile.emergencyContactPhone ?? "");
+    const [contactRelationship, setContactRelationship] = useState(profile.emergencyContactRelationship ?? "");
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setSaved(false);
+        setError(null);
+
+        try {
+            const res = await fetch("/api/v1/users/me/health-profile", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    nameOrAlias: nameOrAlias || null,
+                    ageRange: ageRange || null,
+                    ...textToHistory(history),
+                    emergencyContactName: contactName || null,
+                    emergencyContactPhone: contactPhone || null,
+                    emergencyContactRelationship: contactRelationship || null,
+                }),
+            });
+
+            if (!res.ok) {
+                const errData = await res.json().catch(() => ({}));
+                throw new Error(errData.error?.message || "Failed to save health profile");
+            }
+
+            setSaved(true);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save health profile");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSave} className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                    <label htmlFor="health-nameOrAlias" className={LABEL_CLASS}>Name or alias for consultations</label>
+                    <Input
+                        id="health-nameOrAlias"
+                        placeholder="John Doe"
+                        value={nameOrAlias}
+                        onChange={(e) => setNameOrAlias(e.target.value)}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="health-ageRange" className={LABEL_CLASS}>Age range</label>
+                    <select
+                        id="health-ageRange"
+                        className="w-full h-10 px-3 bg-white border border-slate-200 rounded-md text-sm"
+                        value={ageRange}
+                        onChange={(e) => setAgeRange(e.target.value)}
+                    >
+                        <option value="">Select</option>
+                        {AGE_RANGES.map((range) => <option key={range} value={range}>{range}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <HealthHistoryFields value={history} onChange={setHistory} />
+
+            <div className="space-y-2">
+                <p className="text-sm font-medium">Emergency contact</p>
+                <div className="grid gap-4 sm:grid-cols-3">
+                    <Input
+                        aria-label="Emergency contact name"
+                        placeholder="Name"
+                        value={contactName}
+                        onChange={(e) => setContactName(e.target.value)}
+                    />
+                    <Input
+                        aria-label="Emergency contact phone"
+                        type="tel"
+                        placeholder="Phone"
+                        value={contactPhone}
+                        onChange={(e) => setContactPhone(e.target.value)}
+                    />
+                    <Input
+                        aria-label="Emergency contact relationship"
+                        placeholder="Relationship (optional)"
+                        value={contactRelationship}
+                        onChange={(e) => setContactRelationship(e.target.value)}
+                    />
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex items-center justify-end gap-3">
+                {saved && <span className="text-sm text-green-600">Saved</span>}
+                <Button type="submit" disabled={saving}>
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save health profile
+                </Button>
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { CalendarClock, Clock, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+
+interface RescheduleButtonProps {
+    consultationId: string;
+    doctorId: string;
+    specialty: string;
+    scheduledStartAt: string; // ISO string
+    minNoticeHours: number;
+}
+
+interface TimeSlot {
+    startTime: string; // ISO string
+    endTime: string;
+    available: boolean;
+}
+
+export function RescheduleButton({
+    consultationId,
+    doctorId,
+    specialty,
+    scheduledStartAt,
+    minNoticeHours,
+}: RescheduleButtonProps) {
+    const router = useRouter();
+    const [open, setOpen] = useState(false);
+    const [date, setDate] = useState(() => format(new Date(scheduledStartAt), "yyyy-MM-dd"));
+    const [slots, setSlots] = useState<TimeSlot[]>([]);
+    const [selected, setSelected] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!open || !date) return;
+
+        async function fetchSlots() {
+            try {
+                setLoading(true);
+                setError(null);
+                setSelected(null);
+                const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+                const res = await fetch(
+                    `/api/v1/doctors/availability?specialty=${specialty}&doctorId=${doctorId}&date=${date}&patientTimezone=${timeZone}`
+                );
+
+                if (!res.ok) {
+                    const errData = await res.json().catch(() => ({}));
+                    throw new Error(errData.error?.message || "Failed to fetch available time slots");
+                }
+                const data = await res.json();
+                setSlots(data.slots || []);
+            } catch (err) {
+                console.error("Error fetching slots:", err);
+                setError(err instanceof Error ? err.message : "Unable to load time slots. Please try again.");
+            } finally {
+                setLoading(false);
+            }
+        }
+
+        fetchSlots();
+    }, [open, date, specialty, doctorId]);
+
+    // Slots inside the notice period would be rejected by the API
+    const earliestMs = Date.now() + minNoticeHours * 60 * 60 * 1000;
+    const bookableSlots = slots.filter(
+        (slot) => slot.available && new Date(slot.startTime).getTime() >= earliestMs
+    );
+
+    const handleReschedule = async () => {
+        if (!selected) return;
+
+        try {
+            setSaving(true);
+            setError(null);
+
+            const res = await fetch(`/api/v1/consultations/${consultationId}/reschedule`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ scheduledStartAt: selected }),
+            });
+
+            if (!res.ok) {
+                const errData = await res.json().catch(() => ({}));
+                throw new Error(errData.error?.message || "Failed to reschedule");
+            }
+
+            setOpen(false);
+            router.refresh();
+        } catch (err) {
+            console.error("Reschedule error:", err);
+            setError(err instanceof Error ? err.message : "Failed to reschedule. Please try again.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <>
+            <Button variant="outline" className="w-full gap-2" onClick={() => setOpen(true)}>
+                <CalendarClock className="h-4 w-4" />
+                Reschedule
+            </Button>
+
+            <Dialog open={open} onOpenChange={setOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Reschedule Appointment</DialogTitle>
+                        <DialogDescription>
+                            Pick a new time with the same doctor. Appointments can be moved up to {minNoticeHours} hours before they start.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <input
+                            type="date"
+                            value={date}
+                            min={format(new Date(), "yyyy-MM-dd")}
+                            onChange={(e) => setDate(e.target.value)}
+                            className="w-full rounded-md border px-3 py-2 text-sm"
+                        />
+
+                        {loading && (
+                            <div className="flex justify-center py-4">
+                                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                            </div>
+                        )}
+
+                        {!loading && bookableSlots.length === 0 && !error && (
+                            <p className="text-sm text-muted-foreground">No slots available for this date.</p>
+                        )}
+
+                        {!loading && (
+                            <div className="grid grid-cols-3 gap-2">
+                                {bookableSlots.map((slot) => (
+                                    <Button
+                                        key={slot.startTime}
+                                        variant={selected === slot.startTime ? "default" : "outline"}
+                                        size="sm"
+                                        onClick={() => setSelected(slot.startTime)}
+                                    >
+                                        <Clock className="mr-1 h-3 w-3" />
+                                        {format(new Date(slot.startTime), "h:mm a")}
+                                    </Button>
+                                ))}
+                            </div>
+                        )}
+
+                        {error && <p className="text-sm text-red-500">{error}</p>}
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setOpen(false)} disabled={saving}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleReschedule} disabled={!selected || saving}>
+                            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Confirm New Time
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
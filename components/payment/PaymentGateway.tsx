@@ -6,7 +6,8 @@ import {
   AlertCircle, 
   ExternalLink,
   CheckCircle2,
-  Lock
+  Lock,
+  Tag
 } from 'lucide-react';
 import { createCheckoutSession, getPaymentStatus } from '@/app/actions/payment';
 
@@ -19,6 +20,7 @@ export const PaymentGate = ({ consultationId, onSuccess }: PaymentGateProps) =>
   const [loading, setLoading] = useState(false);
   const [polling, setPolling] = useState(false);
   const [error, setError] = useState("");
+  const [promoCode, setPromoCode] = useState("");
 
   // Poll for status if the user has clicked pay
   useEffect(() => {
@@ -39,7 +41,7 @@ export const PaymentGate = ({ consultationId, onSuccess }: PaymentGateProps) =>
     setLoading(true);
     setError("");
     
-    const result = await createCheckoutSession(consultationId);
+    const result = await createCheckoutSession(consultationId, promoCode || undefined);
     
     if (result.success && result.url) {
       window.open(result.url, '_blank');
@@ -82,6 +84,28 @@ export const PaymentGate = ({ consultationId, onSuccess }: PaymentGateProps) =>
 
           {!polling ? (
             <div className="space-y-4">
+              <div className="space-y-2">
+                <label htmlFor="promoCode" className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  Promo Code
+                </label>
+                <div className="relative">
+                  <Tag className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-300" />
+                  <input
+                    id="promoCode"
+                    type="text"
+                    value={promoCode}
+                    onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                    disabled={loading}
+                    placeholder="Optional"
+                    autoComplete="off"
+                    className="w-full pl-11 pr-4 py-3 rounded-2xl border border-slate-200 text-sm font-bold tracking-wider text-slate-900 placeholder:font-medium placeholder:tracking-normal placeholder:text-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-300"
+                  />
+                </div>
+                <p className="text-[10px] text-slate-400 font-medium">
+                  The discount is applied on the Square checkout page.
+                </p>
+              </div>
+
               <button
                 onClick={handlePaymentStart}
                 disabled={loading}
@@ -3,12 +3,13 @@
 // Simplified toast for now
 import { useState } from "react"
 
+// Module-level so the hook hands back the same function on every render
+const toast = ({ title, description, variant }: any) => {
+    alert(`${title}: ${description}`) // Fallback to alert for simplicity if no provider
+}
+
 export const useToast = () => {
     const [toasts, setToasts] = useState<any[]>([])
 
-    const toast = ({ title, description, variant }: any) => {
-        alert(`${title}: ${description}`) // Fallback to alert for simplicity if no provider
-    }
-
     return { toast }
 }
@@ -2,6 +2,7 @@
  * API Utility functions for consistent error handling and responses
  */
 import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
 import { auth } from '@/lib/auth';
 import { headers } from 'next/headers';
 
@@ -102,6 +103,26 @@ export async function requireAuth(): Promise<{
   return { session, errorResponse: null };
 }
 
+/**
+ * Require the cron secret (`Authorization: Bearer <CRON_SECRET>`) on
+ * scheduled-job routes - returns an error response, or null if authorized
+ */
+export function requireCronSecret(request: Request): NextResponse<ApiError> | null {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('Missing CRON_SECRET');
+    return errorResponse(ErrorCodes.INTERNAL_ERROR, 'Cron configuration error', 500);
+  }
+
+  const provided = Buffer.from(request.headers.get('authorization') ?? '');
+  const expected = Buffer.from(`Bearer ${cronSecret}`);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return errorResponse(ErrorCodes.UNAUTHORIZED, 'Invalid cron secret', 401);
+  }
+
+  return null;
+}
+
 /**
  * Format a doctor's name with "Dr." prefix, avoiding duplication if already present
  */
@@ -0,0 +1,174 @@
+/**
+ * Appointment length
+ *
+ * Each specialty has a default visit length (Specialty.durationMinutes).
+ * Doctors can override it per specialty and keep a buffer free after every
+ * visit. The resolved values are snapshotted onto the Consultation at booking
+ * time, so later changes to a doctor's settings never move existing bookings.
+ *
+ * An appointment occupies [scheduledStartAt, scheduledStartAt + duration + buffer).
+ */
+
+import { DEFAULT_APPOINTMENT_DURATION_MINUTES } from "@/lib/constants";
+
+export const MIN_DURATION_MINUTES = 5;
+export const MAX_DURATION_MINUTES = 240;
+export const MAX_BUFFER_MINUTES = 120;
+
+// Longest time a single booking can keep a doctor busy. A booking that starts
+// this long before a range can still run into it.
+export const MAX_OCCUPIED_MS = (MAX_DURATION_MINUTES + MAX_BUFFER_MINUTES) * 60 * 1000;
+
+export interface AppointmentDuration {
+  durationMinutes: number;
+  bufferMinutes: number;
+}
+
+/**
+ * Doctor profile fields that influence appointment length
+ */
+export interface DoctorDurationSettings {
+  bufferMinutes?: number | null;
+  appointmentDurations?: { specialty: string; durationMinutes: number }[] | null;
+}
+
+/**
+ * Specialty fields that influence appointment length (a Specialty row)
+ */
+export interface SpecialtyDurationSettings {
+  id: string;
+  durationMinutes: number;
+}
+
+/**
+ * Resolve the appointment length for a specialty, applying the doctor's
+ * per-specialty override and buffer when available. Without a specialty the
+ * default length applies.
+ */
+export function resolveAppointmentDuration(
+  specialty: SpecialtyDurationSettings | null,
+  doctorProfile?: DoctorDurationSettings | null
+): AppointmentDuration {
+  const override = specialty
+    ? doctorProfile?.appointmentDurations?.find((d) => d.specialty === specialty.id)
+    : undefined;
+
+  return {
+    durationMinutes:
+      override?.durationMinutes ??
+      specialty?.durationMinutes ??
+      DEFAULT_APPOINTMENT_DURATION_MINUTES,
+    bufferMinutes: doctorProfile?.bufferMinutes ?? 0,
+  };
+}
+
+/**
+ * Consultation-like object carrying a duration snapshot.
+ * Rows created before durations existed fall back to the legacy 30 minutes.
+ */
+export interface ConsultationForDuration {
+  scheduledStartAt: Date | string | null;
+  durationMinutes?: number | null;
+  bufferMinutes?: number | null;
+}
+
+export function getConsultationDurationMinutes(
+  consultation: ConsultationForDuration
+): number {
+  return consultation.durationMinutes ?? DEFAULT_APPOINTMENT_DURATION_MINUTES;
+}
+
+/**
+ * Time range a consultation keeps the doctor busy, including its buffer.
+ * Returns null for unscheduled consultations.
+ */
+export function getOccupiedRange(
+  consultation: ConsultationForDuration
+): { start: number; end: number } | null {
+  if (!consultation.scheduledStartAt) return null;
+
+  const start = new Date(consultation.scheduledStartAt).getTime();
+  const minutes =
+    getConsultationDurationMinutes(consultation) + (consultation.bufferMinutes ?? 0);
+
+  return { start, end: start + minutes * 60 * 1000 };
+}
+
+/**
+ * Check whether a candidate appointment collides with any existing one.
+ * Both sides include their buffers.
+ */
+export function findOverlappingConsultations<T extends ConsultationForDuration>(
+  candidate: ConsultationForDuration,
+  existing: T[]
+): T[] {
+  const range = getOccupiedRange(candidate);
+  if (!range) return [];
+
+  return existing.filter((c) => {
+    const other = getOccupiedRange(c);
+    return !!other && range.start < other.end && other.start < range.end;
+  });
+}
+
+/**
+ * Validate a client-supplied list of per-specialty durations.
+ *
+ * Rules:
+ * - specialty must be one of the doctor's specialties, listed at most once
+ * - durationMinutes must be an integer between MIN_DURATION_MINUTES and MAX_DURATION_MINUTES
+ *
+ * @returns The normalized durations, or an error message with the offending index
+ */
+export function validateAppointmentDurations(
+  input: unknown,
+  allowedSpecialties: string[]
+):
+  | { durations: { specialty: string; durationMinutes: number }[]; error?: undefined }
+  | { durations?: undefined; error: string; index?: number } {
+  if (!Array.isArray(input)) {
+    return { error: "appointmentDurations must be an array" };
+  }
+
+  const durations: { specialty: string; durationMinutes: number }[] = [];
+
+  for (let index = 0; index < input.length; index++) {
+    const raw = input[index] as { specialty?: unknown; durationMinutes?: unknown } | null;
+
+    if (typeof raw?.specialty !== "string" || !allowedSpecialties.includes(raw.specialty)) {
+      return { error: "specialty must be one of the doctor's specialties", index };
+    }
+    if (durations.some((d) => d.specialty === raw.specialty)) {
+      return { error: "Each specialty can only be listed once", index };
+    }
+
+    const minutes = raw.durationMinutes;
+    if (
+      typeof minutes !== "number" ||
+      !Number.isInteger(minutes) ||
+      minutes < MIN_DURATION_MINUTES ||
+      minutes > MAX_DURATION_MINUTES
+    ) {
+      return {
+        error: `durationMinutes must be an integer between ${MIN_DURATION_MINUTES} and ${MAX_DURATION_MINUTES}`,
+        index,
+      };
+    }
+
+    durations.push({ specialty: raw.specialty, durationMinutes: minutes });
+  }
+
+  return { durations };
+}
+
+/**
+ * Validate a doctor's buffer between appointments
+ */
+export function isValidBufferMinutes(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= MAX_BUFFER_MINUTES
+  );
+}
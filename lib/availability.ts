@@ -0,0 +1,290 @@
+/**
+ * Doctor slot generation
+ *
+ * Builds bookable time slots for a doctor from their weekly working hours
+ * (lib/working-hours.ts) and date-specific availability overrides:
+ * - EXTRA overrides add one-off slots on top of the weekly schedule
+ * - BLOCKED and TIME_OFF overrides remove every slot they overlap
+ *
+ * Slots are generated in the doctor's timezone (to respect DST) and returned
+ * as UTC instants. Slot length and the gap between slots come from the
+ * appointment duration (lib/appointment-duration.ts). Booking state (existing
+ * consultations, Redis slot locks) is layered on top by the callers.
+ */
+
+import { DateTime } from "luxon";
+import {
+  getWorkingIntervalsForDay,
+  resolveWorkingHours,
+  type WorkingHoursInterval,
+} from "@/lib/working-hours";
+import type { AppointmentDuration } from "@/lib/appointment-duration";
+import { DEFAULT_APPOINTMENT_DURATION_MINUTES } from "@/lib/constants";
+
+const DEFAULT_APPOINTMENT: AppointmentDuration = {
+  durationMinutes: DEFAULT_APPOINTMENT_DURATION_MINUTES,
+  bufferMinutes: 0,
+};
+
+export interface TimeSlot {
+  startTime: Date;
+  endTime: Date;
+}
+
+/**
+ * Minimal override shape needed for slot generation
+ */
+export interface AvailabilityOverrideRange {
+  id: string;
+  type: string;
+  startAt: Date;
+  endAt: Date;
+}
+
+/**
+ * A generated slot annotated with where it came from and whether an override blocks it
+ */
+export interface DoctorSlot extends TimeSlot {
+  source: "SCHEDULE" | "EXTRA";
+  overrideId: string | null; // EXTRA override that created the slot
+  blockedBy: { id: string; type: string } | null;
+}
+
+const BLOCKING_OVERRIDE_TYPES = ["BLOCKED", "TIME_OFF"];
+
+/**
+ * Split a range into slots of the appointment length, leaving the buffer free
+ * between consecutive slots. A slot never extends past the range end.
+ */
+function splitIntoSlots(
+  start: DateTime,
+  end: DateTime,
+  appointment: AppointmentDuration
+): TimeSlot[] {
+  const slots: TimeSlot[] = [];
+  let currentSlot = start;
+
+  while (currentSlot.plus({ minutes: appointment.durationMinutes }) <= end) {
+    const endSlot = currentSlot.plus({ minutes: appointment.durationMinutes });
+
+    slots.push({
+      startTime: currentSlot.toUTC().toJSDate(),
+      endTime: endSlot.toUTC().toJSDate(),
+    });
+
+    currentSlot = endSlot.plus({ minutes: appointment.bufferMinutes });
+  }
+
+  return slots;
+}
+
+function overlaps(
+  a: { start: number; end: number },
+  b: { start: number; end: number }
+): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Generate working-hour time slots for a given doctor's day.
+ * - Accepts doctorDayStartInDoctorTZ (Luxon DateTime at the doctor's midnight)
+ * - Reads the intervals configured for that weekday from the doctor's weekly schedule
+ * - Returns slots as UTC Date objects (startTime, endTime)
+ */
+export function generateTimeSlotsForDoctorDay(
+  doctorDayStartInDoctorTZ: DateTime,
+  workingHours: WorkingHoursInterval[],
+  appointment: AppointmentDuration = DEFAULT_APPOINTMENT
+): TimeSlot[] {
+  return getWorkingIntervalsForDay(
+    workingHours,
+    doctorDayStartInDoctorTZ
+  ).flatMap(({ start, end }) => splitIntoSlots(start, end, appointment));
+}
+
+/**
+ * Generate a doctor's slots whose start falls inside [windowStartUTC, windowEndUTC],
+ * applying availability overrides. Blocked slots are kept and annotated so the
+ * doctor's schedule editor can show (and unblock) them.
+ */
+export function buildDoctorSlots(params: {
+  doctorTimezone: string;
+  workingHours?: WorkingHoursInterval[] | null;
+  overrides?: AvailabilityOverrideRange[] | null;
+  appointment?: AppointmentDuration;
+  windowStartUTC: Date;
+  windowEndUTC: Date;
+}): DoctorSlot[] {
+  const { doctorTimezone, windowStartUTC, windowEndUTC } = params;
+  const workingHours = resolveWorkingHours(params.workingHours);
+  const overrides = params.overrides ?? [];
+  const appointment = params.appointment ?? DEFAULT_APPOINTMENT;
+
+  const startInDoctorTZ = DateTime.fromJSDate(windowStartUTC, {
+    zone: "UTC",
+  }).setZone(doctorTimezone);
+  const endInDoctorTZ = DateTime.fromJSDate(windowEndUTC, {
+    zone: "UTC",
+  }).setZone(doctorTimezone);
+
+  let currentDoctorDayStart = startInDoctorTZ.startOf("day");
+  const lastDoctorDayStart = endInDoctorTZ.startOf("day");
+
+  const slots: DoctorSlot[] = [];
+
+  while (currentDoctorDayStart <= lastDoctorDayStart) {
+    for (const slot of generateTimeSlotsForDoctorDay(
+      currentDoctorDayStart,
+      workingHours,
+      appointment
+    )) {
+      slots.push({ ...slot, source: "SCHEDULE", overrideId: null, blockedBy: null });
+    }
+    currentDoctorDayStart = currentDoctorDayStart.plus({ days: 1 });
+  }
+
+  // One-off extra hours: add slots that don't collide with the regular schedule
+  for (const extra of overrides.filter((o) => o.type === "EXTRA")) {
+    const extraSlots = splitIntoSlots(
+      DateTime.fromJSDate(extra.startAt).setZone(doctorTimezone),
+      DateTime.fromJSDate(extra.endAt).setZone(doctorTimezone),
+      appointment
+    );
+    const bufferMs = appointment.bufferMinutes * 60 * 1000;
+    for (const slot of extraSlots) {
+      const range = {
+        start: slot.startTime.getTime(),
+        end: slot.endTime.getTime() + bufferMs,
+      };
+      const collides = slots.some((existing) =>
+        overlaps(range, {
+          start: existing.startTime.getTime(),
+          end: existing.endTime.getTime() + bufferMs,
+        })
+      );
+      if (!collides) {
+        slots.push({ ...slot, source: "EXTRA", overrideId: extra.id, blockedBy: null });
+      }
+    }
+  }
+
+  // Blocked slots and time off win over both the schedule and extra hours
+  const blocking = overrides.filter((o) => BLOCKING_OVERRIDE_TYPES.includes(o.type));
+  for (const slot of slots) {
+    const range = { start: slot.startTime.getTime(), end: slot.endTime.getTime() };
+    const blocker = blocking.find((o) =>
+      overlaps(range, { start: o.startAt.getTime(), end: o.endAt.getTime() })
+    );
+    if (blocker) {
+      slot.blockedBy = { id: blocker.id, type: blocker.type };
+    }
+  }
+
+  const startMs = windowStartUTC.getTime();
+  const endMs = windowEndUTC.getTime();
+  return slots
+    .filter((s) => {
+      const t = s.startTime.getTime();
+      return t >= startMs && t <= endMs;
+    })
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+}
+
+/**
+ * Generate the bookable slots for a doctor that overlap the patient-day UTC window.
+ * Slots removed by BLOCKED / TIME_OFF overrides are not returned.
+ */
+export function generateDoctorSlotsForPatientDayUTCWindow(params: {
+  doctorTimezone: string;
+  workingHours?: WorkingHoursInterval[] | null;
+  overrides?: AvailabilityOverrideRange[] | null;
+  appointment?: AppointmentDuration;
+  patientDayStartUTC: Date;
+  patientDayEndUTC: Date;
+}): TimeSlot[] {
+  return buildDoctorSlots({
+    doctorTimezone: params.doctorTimezone,
+    workingHours: params.workingHours,
+    overrides: params.overrides,
+    appointment: params.appointment,
+    windowStartUTC: params.patientDayStartUTC,
+    windowEndUTC: params.patientDayEndUTC,
+  })
+    .filter((slot) => !slot.blockedBy)
+    .map(({ startTime, endTime }) => ({ startTime, endTime }));
+}
+
+/**
+ * Maximum length of a single override, per type
+ */
+export const MAX_OVERRIDE_DURATION_HOURS: Record<string, number> = {
+  BLOCKED: 24,
+  EXTRA: 24,
+  TIME_OFF: 90 * 24,
+};
+
+export const AVAILABILITY_OVERRIDE_TYPES = ["BLOCKED", "TIME_OFF", "EXTRA"] as const;
+
+export type AvailabilityOverrideKind = (typeof AVAILABILITY_OVERRIDE_TYPES)[number];
+
+/**
+ * Validate a client-supplied availability override.
+ *
+ * Rules:
+ * - type must be BLOCKED, TIME_OFF or EXTRA
+ * - startAt/endAt must be valid ISO dates with startAt before endAt
+ * - the range may not exceed MAX_OVERRIDE_DURATION_HOURS for its type
+ * - the range must end in the future
+ */
+export function validateAvailabilityOverride(
+  input: { type?: unknown; startAt?: unknown; endAt?: unknown; reason?: unknown },
+  now: number = Date.now()
+):
+  | {
+      data: { type: AvailabilityOverrideKind; startAt: Date; endAt: Date; reason: string | null };
+      error?: undefined;
+    }
+  | { data?: undefined; error: string; field: string } {
+  if (
+    typeof input.type !== "string" ||
+    !AVAILABILITY_OVERRIDE_TYPES.includes(input.type as AvailabilityOverrideKind)
+  ) {
+    return {
+      error: `Invalid type. Valid options: ${AVAILABILITY_OVERRIDE_TYPES.join(", ")}`,
+      field: "type",
+    };
+  }
+  const type = input.type as AvailabilityOverrideKind;
+
+  const startAt = typeof input.startAt === "string" ? new Date(input.startAt) : null;
+  if (!startAt || isNaN(startAt.getTime())) {
+    return { error: "Invalid date format for startAt", field: "startAt" };
+  }
+  const endAt = typeof input.endAt === "string" ? new Date(input.endAt) : null;
+  if (!endAt || isNaN(endAt.getTime())) {
+    return { error: "Invalid date format for endAt", field: "endAt" };
+  }
+  if (startAt.getTime() >= endAt.getTime()) {
+    return { error: "startAt must be before endAt", field: "endAt" };
+  }
+  if (endAt.getTime() <= now) {
+    return { error: "Overrides must end in the future", field: "endAt" };
+  }
+
+  const maxHours = MAX_OVERRIDE_DURATION_HOURS[type];
+  if (endAt.getTime() - startAt.getTime() > maxHours * 60 * 60 * 1000) {
+    return {
+      error: `${type} overrides cannot be longer than ${maxHours} hours`,
+      field: "endAt",
+    };
+  }
+
+  if (input.reason !== undefined && input.reason !== null && typeof input.reason !== "string") {
+    return { error: "Invalid reason", field: "reason" };
+  }
+  const reason = typeof input.reason === "string" && input.reason.trim() !== ""
+    ? input.reason.trim()
+    : null;
+
+  return { data: { type, startAt, endAt, reason } };
+}
@@ -0,0 +1,188 @@
+/**
+ * Booking conflict detection
+ *
+ * Appointments have different lengths and buffers (lib/appointment-duration.ts),
+ * so two bookings for the same doctor can collide without sharing a start time.
+ * The slot-uniqueness index only catches identical starts; this catches overlaps.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { ConsultationStatus } from "@/app/generated/prisma/client";
+import {
+  getOccupiedRange,
+  MAX_OCCUPIED_MS,
+  type AppointmentDuration,
+  type ConsultationForDuration,
+} from "@/lib/appointment-duration";
+import { buildDoctorSlots } from "@/lib/availability";
+import type { WorkingHoursInterval } from "@/lib/working-hours";
+
+// Statuses that hold a slot for good (payment confirmed)
+export const CONFIRMED_BOOKING_STATUSES = [
+  ConsultationStatus.PAID,
+  ConsultationStatus.IN_CALL,
+  ConsultationStatus.COMPLETED,
+];
+
+/**
+ * Find confirmed consultations of a doctor that keep them busy during a time range.
+ *
+ * @param doctorId - Doctor whose calendar is checked
+ * @param range - Time range to check
+ * @param excludeConsultationId - Consultation to ignore (e.g. the one being booked)
+ * @returns Overlapping consultations (id and schedule)
+ */
+export async function findBookingsInRange(
+  doctorId: string,
+  range: { start: Date; end: Date },
+  excludeConsultationId?: string
+) {
+  const start = range.start.getTime();
+  const end = range.end.getTime();
+
+  const nearby = await prisma.consultation.findMany({
+    where: {
+      doctorId,
+      ...(excludeConsultationId ? { id: { not: excludeConsultationId } } : {}),
+      status: { in: CONFIRMED_BOOKING_STATUSES },
+      scheduledStartAt: {
+        gte: new Date(start - MAX_OCCUPIED_MS),
+        lt: range.end,
+      },
+    },
+    select: {
+      id: true,
+      scheduledStartAt: true,
+      durationMinutes: true,
+      bufferMinutes: true,
+    },
+  });
+
+  return nearby.filter((c) => {
+    const occupied = getOccupiedRange(c);
+    return !!occupied && occupied.start < end && start < occupied.end;
+  });
+}
+
+/**
+ * Find confirmed consultations of a doctor that overlap the given appointment.
+ * Both sides include their buffers.
+ *
+ * @param doctorId - Doctor whose calendar is checked
+ * @param candidate - Appointment being booked (start, duration and buffer)
+ * @param excludeConsultationId - The candidate's own consultation, if it already exists
+ * @returns Overlapping consultations (id and schedule)
+ */
+export async function findConflictingBookings(
+  doctorId: string,
+  candidate: ConsultationForDuration,
+  excludeConsultationId?: string
+) {
+  const range = getOccupiedRange(candidate);
+  if (!range) return [];
+
+  return findBookingsInRange(
+    doctorId,
+    { start: new Date(range.start), end: new Date(range.end) },
+    excludeConsultationId
+  );
+}
+
+export type SlotUnavailableReason = "OUTSIDE_SCHEDULE" | "BLOCKED" | "BOOKED";
+
+/**
+ * Doctor fields needed to check a slot against their schedule
+ */
+export interface BookableDoctor {
+  id: string;
+  doctorProfile?: {
+    id: string;
+    timezone: string | null;
+    workingHours?: WorkingHoursInterval[] | null;
+  } | null;
+}
+
+export interface UnavailableSlot {
+  scheduledStartAt: Date;
+  reason: SlotUnavailableReason;
+  consultationIds?: string[];
+}
+
+/**
+ * Check appointment start times against a doctor's availability: each start must
+ * be a slot of the doctor's schedule (working hours plus EXTRA overrides), not
+ * blocked by an override, and clear of confirmed bookings.
+ *
+ * @param doctor - Doctor id and profile (timezone and weekly working hours)
+ * @param starts - Start times to check
+ * @param appointment - Length and buffer of the appointments being booked
+ * @param excludeConsultationIds - Consultations to ignore when looking for bookings
+ * @returns The starts that cannot be booked, with the reason
+ */
+export async function findUnavailableSlots(
+  doctor: BookableDoctor,
+  starts: Date[],
+  appointment: AppointmentDuration,
+  excludeConsultationIds: string[] = []
+): Promise<UnavailableSlot[]> {
+  if (starts.length === 0) return [];
+
+  const timezone = doctor.doctorProfile?.timezone ?? "UTC";
+  const occupiedMs =
+    (appointment.durationMinutes + appointment.bufferMinutes) * 60 * 1000;
+  const times = starts.map((s) => s.getTime());
+  const rangeStart = new Date(Math.min(...times));
+  const rangeEnd = new Date(Math.max(...times) + occupiedMs);
+
+  const [overrides, bookings] = await Promise.all([
+    doctor.doctorProfile
+      ? prisma.doctorAvailabilityOverride.findMany({
+          where: {
+            doctorProfileId: doctor.doctorProfile.id,
+            startAt: { lt: rangeEnd },
+            endAt: { gt: rangeStart },
+          },
+        })
+      : Promise.resolve([]),
+    findBookingsInRange(doctor.id, { start: rangeStart, end: rangeEnd }),
+  ]);
+
+  const unavailable: UnavailableSlot[] = [];
+
+  for (const scheduledStartAt of starts) {
+    const slot = buildDoctorSlots({
+      doctorTimezone: timezone,
+      workingHours: doctor.doctorProfile?.workingHours,
+      overrides,
+      appointment,
+      windowStartUTC: scheduledStartAt,
+      windowEndUTC: scheduledStartAt,
+    }).find((s) => s.startTime.getTime() === scheduledStartAt.getTime());
+
+    if (!slot) {
+      unavailable.push({ scheduledStartAt, reason: "OUTSIDE_SCHEDULE" });
+      continue;
+    }
+    if (slot.blockedBy) {
+      unavailable.push({ scheduledStartAt, reason: "BLOCKED" });
+      continue;
+    }
+
+    const start = scheduledStartAt.getTime();
+    const end = start + occupiedMs;
+    const conflicts = bookings.filter((c) => {
+      if (excludeConsultationIds.includes(c.id)) return false;
+      const occupied = getOccupiedRange(c);
+      return !!occupied && occupied.start < end && start < occupied.end;
+    });
+    if (conflicts.length > 0) {
+      unavailable.push({
+        scheduledStartAt,
+        reason: "BOOKED",
+        consultationIds: conflicts.map((c) => c.id),
+      });
+    }
+  }
+
+  return unavailable;
+}
@@ -0,0 +1,83 @@
+/**
+ * Cancellation policy
+ *
+ * How much of a paid consultation is refunded when it is cancelled:
+ * - at least `fullRefundHours` before the start: full refund
+ * - at least `partialRefundHours` before the start: `partialRefundPercent` of the amount
+ * - later than that: no refund
+ *
+ * The policy applies to patient cancellations. When a doctor or admin cancels,
+ * the patient always gets a full refund.
+ */
+
+export interface CancellationPolicy {
+  fullRefundHours: number;
+  partialRefundHours: number;
+  partialRefundPercent: number;
+}
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  fullRefundHours: 24,
+  partialRefundHours: 2,
+  partialRefundPercent: 50,
+};
+
+// Per-specialty overrides of the default policy
+export const SPECIALTY_CANCELLATION_POLICIES: Record<string, Partial<CancellationPolicy>> = {
+  // Long therapy sessions are hard to refill at short notice
+  PSYCHIATRY: { fullRefundHours: 48, partialRefundHours: 24 },
+};
+
+export function getCancellationPolicy(specialty: string): CancellationPolicy {
+  return {
+    ...DEFAULT_CANCELLATION_POLICY,
+    ...SPECIALTY_CANCELLATION_POLICIES[specialty],
+  };
+}
+
+export type RefundTier = "FULL" | "PARTIAL" | "NONE";
+
+export interface CancellationRefund {
+  tier: RefundTier;
+  percent: number;
+  amount: number; // smallest currency unit (cents)
+}
+
+/**
+ * Work out the refund for a cancelled consultation.
+ *
+ * @param params.amount - Amount paid (cents)
+ * @param params.specialty - Consultation specialty (selects the policy)
+ * @param params.scheduledStartAt - Appointment start; unscheduled consultations are refunded in full
+ * @param params.cancelledByPatient - Whether the patient cancelled (doctor/admin cancellations are always refunded in full)
+ * @param params.now - Current time (ms), for testing
+ */
+export function calculateCancellationRefund(params: {
+  amount: number;
+  specialty: string;
+  scheduledStartAt: Date | null;
+  cancelledByPatient: boolean;
+  now?: number;
+}): CancellationRefund {
+  const { amount, specialty, scheduledStartAt, cancelledByPatient } = params;
+  const now = params.now ?? Date.now();
+
+  if (!cancelledByPatient || !scheduledStartAt) {
+    return { tier: "FULL", percent: 100, amount };
+  }
+
+  const policy = getCancellationPolicy(specialty);
+  const hoursBefore = (scheduledStartAt.getTime() - now) / (60 * 60 * 1000);
+
+  if (hoursBefore >= policy.fullRefundHours) {
+    return { tier: "FULL", percent: 100, amount };
+  }
+  if (hoursBefore >= policy.partialRefundHours) {
+    return {
+      tier: "PARTIAL",
+      percent: policy.partialRefundPercent,
+      amount: Math.round((amount * policy.partialRefundPercent) / 100),
+    };
+  }
+  return { tier: "NONE", percent: 0, amount: 0 };
+}
@@ -0,0 +1,290 @@
+/**
+ * Checkout
+ *
+ * Starting a payment for a consultation: the patient must own it, it must be
+ * payable and its slot free, the price is the one agreed at booking (never
+ * the client's) less any promo code discount, the slot is locked while the
+ * patient pays and a PENDING Payment records the provider checkout. Both
+ * POST /api/v1/payments and the `createCheckoutSession` server action go
+ * through `startCheckout`.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { ConsultationStatus } from "@/app/generated/prisma/client";
+import { ErrorCodes, type ErrorCode } from "@/lib/api-utils";
+import { getPaymentProvider } from "@/lib/payment-provider";
+import { getRedis, slotLockKey } from "@/lib/redis";
+import { findConflictingBookings } from "@/lib/booking-conflicts";
+import { getConsultationPrice } from "@/lib/pricing";
+import { applyPromoCode, reservePromoRedemption, type PromoDiscount } from "@/lib/promo-codes";
+
+// Consultation statuses a checkout can be started from
+export const CHECKOUT_STATUSES: ConsultationStatus[] = [
+  ConsultationStatus.CREATED,
+  ConsultationStatus.PAYMENT_FAILED,
+];
+
+// Slot lock lifetime while the patient is on the checkout page
+export const CHECKOUT_SLOT_LOCK_TTL_SECONDS = 600;
+
+/**
+ * The checkout cannot be started; carries the API error to report
+ */
+export class CheckoutError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly status: number,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+  }
+}
+
+export interface StartedCheckout {
+  url: string;
+  paymentId: string;
+  amount: number; // Charged, after the discount
+  currency: string;
+  discountAmount: number;
+}
+
+/**
+ * Start a checkout for a consultation on behalf of its patient.
+ *
+ * @param options.promoCode - Code the patient entered (lib/promo-codes.ts)
+ * @throws CheckoutError when the consultation cannot be paid for (yet) or the
+ *   promo code cannot be used
+ */
+export async function startCheckout(
+  consultationId: string,
+  patientId: string,
+  options: { promoCode?: string } = {}
+): Promise<StartedCheckout> {
+  const consultation = await prisma.consultation.findUnique({
+    where: { id: consultationId },
+  });
+
+  if (!consultation) {
+    throw new CheckoutError(ErrorCodes.NOT_FOUND, "Consultation not found", 404);
+  }
+
+  if (consultation.patientId !== patientId) {
+    throw new CheckoutError(
+      ErrorCodes.FORBIDDEN,
+      "You are not authorized to pay for this consultation",
+      403
+    );
+  }
+
+  if (!CHECKOUT_STATUSES.includes(consultation.status)) {
+    throw new CheckoutError(
+      ErrorCodes.VALIDATION_ERROR,
+      `Payment cannot be initiated for a consultation in ${consultation.status} status`,
+      400,
+      { currentStatus: consultation.status, validStatuses: CHECKOUT_STATUSES }
+    );
+  }
+
+  // Slot lock needs a concrete slot identity
+  if (!consultation.doctorId || !consultation.scheduledStartAt) {
+    throw new CheckoutError(
+      ErrorCodes.VALIDATION_ERROR,
+      "Consultation must have an assigned doctor and scheduled time before payment",
+      400,
+      { field: "scheduledStartAt" }
+    );
+  }
+
+  // Appointments have different lengths, so a confirmed booking can overlap this
+  // one without sharing its start time (and therefore its slot lock)
+  const conflicts = await findConflictingBookings(
+    consultation.doctorId,
+    consultation,
+    consultation.id
+  );
+  if (conflicts.length > 0) {
+    throw new CheckoutError(
+      ErrorCodes.CONFLICT,
+      "This time overlaps another booked appointment. Pick a different slot.",
+      409,
+      {
+        doctorId: consultation.doctorId,
+        scheduledStartAt: consultation.scheduledStartAt.toISOString(),
+      }
+    );
+  }
+
+  // One open or completed payment per consultation
+  const existingPayment = await prisma.payment.findFirst({
+    where: {
+      consultationId,
+      status: { in: ["PENDING", "PAID"] },
+    },
+  });
+
+  if (existingPayment) {
+    throw new CheckoutError(
+      ErrorCodes.CONFLICT,
+      "A payment is already in progress or completed for this consultation",
+      409,
+      { paymentId: existingPayment.id }
+    );
+  }
+
+  // The price agreed at booking, set on the server
+  const price = await getConsultationPrice(consultation);
+  if (!price || !Number.isInteger(price.price) || price.price <= 0) {
+    console.error(`Invalid price for consultation ${consultationId} (${consultation.specialty}): ${price?.price}`);
+    throw new CheckoutError(
+      ErrorCodes.INTERNAL_ERROR,
+      `Invalid price configuration for specialty: ${consultation.specialty}`,
+      500
+    );
+  }
+
+  const provider = getPaymentProvider();
+  if (!provider.isCheckoutConfigured(price.currency)) {
+    console.error(`Payment provider ${provider.name} is not configured for checkout in ${price.currency}`);
+    throw new CheckoutError(ErrorCodes.INTERNAL_ERROR, "Payment configuration error", 500);
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL;
+  if (!baseUrl) {
+    console.error("Missing NEXT_PUBLIC_BASE_URL");
+    throw new CheckoutError(ErrorCodes.INTERNAL_ERROR, "Server configuration error", 500);
+  }
+
+  let discount: PromoDiscount | null = null;
+  if (options.promoCode) {
+    const applied = await applyPromoCode(options.promoCode, {
+      patientId,
+      specialty: consultation.specialty,
+      price,
+    });
+    if ("error" in applied) {
+      throw new CheckoutError(ErrorCodes.VALIDATION_ERROR, applied.error, 400, {
+        field: "promoCode",
+      });
+    }
+    discount = applied;
+  }
+  const amount = price.price - (discount?.discountAmount ?? 0);
+
+  const redirectUrl = new URL("/checkout/success", baseUrl);
+  redirectUrl.searchParams.set("id", consultationId);
+
+  // Slot lock (Redis TTL) to prevent two users paying for the same slot.
+  // Acquire as late as possible so we don't lock on earlier validation errors.
+  const lockKey = slotLockKey(consultation.doctorId, consultation.scheduledStartAt.getTime());
+  const redis = await getRedis();
+
+  if (!redis) {
+    // Fail fast in production - Redis is required to prevent race conditions
+    if (process.env.NODE_ENV === "production") {
+      console.error(`[checkout] Redis unavailable - failing fast. consultationId=${consultationId}, doctorId=${consultation.doctorId}, slot=${consultation.scheduledStartAt.toISOString()}`);
+      throw new CheckoutError(
+        ErrorCodes.SERVICE_UNAVAILABLE,
+        "Payment service temporarily unavailable. Please try again.",
+        503
+      );
+    }
+    // In development, log warning and proceed with degraded behavior
+    console.warn(`[checkout] Redis unavailable - proceeding without slot lock (degraded mode). consultationId=${consultationId}, doctorId=${consultation.doctorId}, slot=${consultation.scheduledStartAt.toISOString()}`);
+  } else {
+    const acquired = await redis.set(lockKey, consultationId, {
+      NX: true,
+      EX: CHECKOUT_SLOT_LOCK_TTL_SECONDS,
+    });
+    if (!acquired) {
+      throw new CheckoutError(
+        ErrorCodes.CONFLICT,
+        "Slot is currently being paid for. Pick a different slot.",
+        409,
+        {
+          doctorId: consultation.doctorId,
+          scheduledStartAt: consultation.scheduledStartAt.toISOString(),
+        }
+      );
+    }
+  }
+
+  try {
+    // Deterministic idempotency key, so a retry reuses the provider checkout;
+    // a different promo code needs a checkout of its own
+    const checkout = await provider.createCheckout({
+      consultationId,
+      name: `${consultation.specialty} Consultation`,
+      amount: price.price,
+      currency: price.currency,
+      discount: discount
+        ? { name: `Promo ${discount.promoCode.code}`, amount: discount.discountAmount }
+        : undefined,
+      redirectUrl: redirectUrl.toString(),
+      idempotencyKey: discount
+        ? `payment-${consultationId}-${discount.promoCode.id}`
+        : `payment-${consultationId}`,
+    });
+
+    const payment = await prisma.$transaction(async (tx) => {
+      if (discount) {
+        // Another checkout may have taken the last redemption since it was checked
+        const limitError = await reservePromoRedemption(tx, discount.promoCode, patientId);
+        if (limitError) {
+          throw new CheckoutError(ErrorCodes.VALIDATION_ERROR, limitError, 400, { field: "promoCode" });
+        }
+      }
+
+      const created = await tx.payment.create({
+        data: {
+          consultationId,
+          provider: provider.name,
+          amount,
+          currency: price.currency,
+          promoCodeId: discount?.promoCode.id ?? null,
+          discountAmount: discount?.discountAmount ?? 0,
+          status: "PENDING",
+          providerCheckoutId: checkout.checkoutId,
+          providerOrderId: checkout.orderId,
+          // providerPaymentId is set by the payment webhook
+        },
+      });
+
+      if (discount) {
+        await tx.auditEvent.create({
+          data: {
+            actorUserId: patientId,
+            consultationId,
+            eventType: "PROMO_CODE_REDEEMED",
+            eventMetadata: {
+              paymentId: created.id,
+              promoCodeId: discount.promoCode.id,
+              code: discount.promoCode.code,
+              price: price.price,
+              discountAmount: discount.discountAmount,
+              currency: price.currency,
+            },
+          },
+        });
+      }
+
+      return created;
+    });
+
+    return {
+      url: checkout.url,
+      paymentId: payment.id,
+      amount,
+      currency: price.currency,
+      discountAmount: discount?.discountAmount ?? 0,
+    };
+  } catch (err) {
+    // Best-effort early unlock if the provider call or the payment record failed
+    try {
+      if (redis) await redis.del(lockKey);
+    } catch {
+      // ignore
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Clinical notes
+ *
+ * Doctors document a consultation in SOAP form (Subjective, Objective,
+ * Assessment, Plan) with ICD-10-CM diagnosis codes. A note starts as a DRAFT
+ * that only its author can edit. Signing it records the time and makes it
+ * immutable; corrections and additions are then appended as amendments, so the
+ * signed record and every change to it stay readable.
+ *
+ * Routes live under /api/v1/consultations/:id/notes.
+ */
+
+import { ConsultationStatus, UserRole, type Prisma } from "@/app/generated/prisma/client";
+
+// Consultations that can be documented: during the call and afterwards
+export const NOTE_CONSULTATION_STATUSES: ConsultationStatus[] = [
+  ConsultationStatus.IN_CALL,
+  ConsultationStatus.COMPLETED,
+];
+
+export const SOAP_SECTIONS = ["subjective", "objective", "assessment", "plan"] as const;
+
+export type SoapSection = (typeof SOAP_SECTIONS)[number];
+
+export const MAX_NOTE_SECTION_LENGTH = 10000;
+export const MAX_AMENDMENT_REASON_LENGTH = 500;
+export const MAX_DIAGNOSIS_CODES = 12;
+
+// ICD-10-CM: a letter, two characters for the category, then up to four after the dot
+export const ICD10_CODE_PATTERN = /^[A-TV-Z][0-9][0-9AB](\.[0-9A-TV-Z]{1,4})?$/;
+
+// Sections a note needs before it can be signed
+const REQUIRED_TO_SIGN: SoapSection[] = ["assessment", "plan"];
+
+// Includes for returning a note with its amendment trail
+export const clinicalNoteInclude = {
+  author: { select: { id: true, name: true } },
+  amendments: {
+    orderBy: { createdAt: "asc" },
+    include: { author: { select: { id: true, name: true } } },
+  },
+} satisfies Prisma.ClinicalNoteInclude;
+
+export interface ClinicalNoteInput {
+  subjective?: string | null;
+  objective?: string | null;
+  assessment?: string | null;
+  plan?: string | null;
+  diagnosisCodes?: string[];
+}
+
+export interface AmendmentInput {
+  reason: string;
+  content: string;
+  diagnosisCodes: string[];
+}
+
+type Validated<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string; field: string };
+
+/**
+ * Codes are stored upper-case with the dot, so "j069" becomes "J06.9"
+ */
+export function normalizeDiagnosisCode(code: string): string {
+  const compact = code.trim().toUpperCase().replace(".", "");
+  return compact.length > 3 ? `${compact.slice(0, 3)}.${compact.slice(3)}` : compact;
+}
+
+function validateDiagnosisCodes(value: unknown): Validated<string[]> {
+  if (!Array.isArray(value) || !value.every((code): code is string => typeof code === "string")) {
+    return { error: "diagnosisCodes must be an array of ICD-10 codes", field: "diagnosisCodes" };
+  }
+  const codes = [...new Set(value.map(normalizeDiagnosisCode))];
+  const invalid = codes.find((code) => !ICD10_CODE_PATTERN.test(code));
+  if (invalid !== undefined) {
+    return { error: `Invalid ICD-10 code: ${invalid}`, field: "diagnosisCodes" };
+  }
+  if (codes.length > MAX_DIAGNOSIS_CODES) {
+    return { error: `A note can have at most ${MAX_DIAGNOSIS_CODES} diagnosis codes`, field: "diagnosisCodes" };
+  }
+  return { data: codes };
+}
+
+/**
+ * Validate the sections and codes of a new note or a draft update. Every
+ * field is optional; omitted fields are left alone on update.
+ */
+export function validateClinicalNoteInput(input: Record<string, unknown>): Validated<ClinicalNoteInput> {
+  const data: ClinicalNoteInput = {};
+
+  for (const section of SOAP_SECTIONS) {
+    const value = input[section];
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== "string") {
+      return { error: `${section} must be a string or null`, field: section };
+    }
+    if (typeof value === "string" && value.length > MAX_NOTE_SECTION_LENGTH) {
+      return { error: `${section} must be at most ${MAX_NOTE_SECTION_LENGTH} characters`, field: section };
+    }
+    data[section] = value?.trim() || null;
+  }
+
+  if (input.diagnosisCodes !== undefined) {
+    const codes = validateDiagnosisCodes(input.diagnosisCodes);
+    if (!codes.data) return codes;
+    data.diagnosisCodes = codes.data;
+  }
+
+  return { data };
+}
+
+/**
+ * Validate an amendment to a signed note: a reason and the amending text are
+ * required, added diagnosis codes are optional
+ */
+export function validateAmendmentInput(input: Record<string, unknown>): Validated<AmendmentInput> {
+  const reason = typeof input.reason === "string" ? input.reason.trim() : "";
+  if (!reason || reason.length > MAX_AMENDMENT_REASON_LENGTH) {
+    return { error: `reason is required (at most ${MAX_AMENDMENT_REASON_LENGTH} characters)`, field: "reason" };
+  }
+
+  const content = typeof input.content === "string" ? input.content.trim() : "";
+  if (!content || content.length > MAX_NOTE_SECTION_LENGTH) {
+    return { error: `content is required (at most ${MAX_NOTE_SECTION_LENGTH} characters)`, field: "content" };
+  }
+
+  const codes = validateDiagnosisCodes(input.diagnosisCodes ?? []);
+  if (!codes.data) return codes;
+
+  return { data: { reason, content, diagnosisCodes: codes.data } };
+}
+
+/**
+ * The first section a draft still needs before it can be signed, if any
+ */
+export function missingSectionToSign(note: Record<SoapSection, string | null>): SoapSection | null {
+  return REQUIRED_TO_SIGN.find((section) => !note[section]?.trim()) ?? null;
+}
+
+/**
+ * Who can read a consultation's notes: its doctor and admins see every note,
+ * the patient only signed ones
+ */
+export function noteVisibility(
+  consultation: { patientId: string; doctorId: string | null },
+  user: { id: string; role?: string | null }
+): "ALL" | "SIGNED" | null {
+  if (consultation.doctorId === user.id || user.role === UserRole.ADMIN) return "ALL";
+  if (consultation.patientId === user.id) return "SIGNED";
+  return null;
+}
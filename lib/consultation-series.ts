@@ -0,0 +1,93 @@
+/**
+ * Recurring consultation series
+ *
+ * A series books the same weekly (or biweekly) time with one doctor, e.g.
+ * "every Tuesday 10:00 for 8 weeks". Occurrences are expanded in the doctor's
+ * timezone so they keep their local time across DST changes, and each one is
+ * stored as a separate Consultation (own payment, own audit trail).
+ */
+
+import { DateTime } from "luxon";
+
+export const SERIES_FREQUENCIES = ["WEEKLY", "BIWEEKLY"] as const;
+
+export type SeriesFrequencyKind = (typeof SERIES_FREQUENCIES)[number];
+
+const WEEKS_BETWEEN_OCCURRENCES: Record<SeriesFrequencyKind, number> = {
+  WEEKLY: 1,
+  BIWEEKLY: 2,
+};
+
+export const MIN_SERIES_OCCURRENCES = 2;
+export const MAX_SERIES_OCCURRENCES = 12;
+
+// Scopes for cancelling an occurrence of a series
+export const SERIES_CANCEL_SCOPES = ["OCCURRENCE", "FUTURE"] as const;
+
+export type SeriesCancelScope = (typeof SERIES_CANCEL_SCOPES)[number];
+
+/**
+ * Validate a client-supplied recurrence rule.
+ *
+ * Rules:
+ * - frequency must be WEEKLY or BIWEEKLY
+ * - count (number of occurrences, including the first) must be an integer
+ *   between MIN_SERIES_OCCURRENCES and MAX_SERIES_OCCURRENCES
+ *
+ * @returns The normalized rule, or an error message with the offending field
+ */
+export function validateRecurrence(input: {
+  frequency?: unknown;
+  count?: unknown;
+}):
+  | { data: { frequency: SeriesFrequencyKind; count: number }; error?: undefined }
+  | { data?: undefined; error: string; field: string } {
+  const { frequency, count } = input;
+
+  if (
+    typeof frequency !== "string" ||
+    !SERIES_FREQUENCIES.includes(frequency as SeriesFrequencyKind)
+  ) {
+    return {
+      error: `frequency must be one of ${SERIES_FREQUENCIES.join(", ")}`,
+      field: "recurrence.frequency",
+    };
+  }
+
+  if (
+    typeof count !== "number" ||
+    !Number.isInteger(count) ||
+    count < MIN_SERIES_OCCURRENCES ||
+    count > MAX_SERIES_OCCURRENCES
+  ) {
+    return {
+      error: `count must be an integer between ${MIN_SERIES_OCCURRENCES} and ${MAX_SERIES_OCCURRENCES}`,
+      field: "recurrence.count",
+    };
+  }
+
+  return { data: { frequency: frequency as SeriesFrequencyKind, count } };
+}
+
+/**
+ * Expand a series into the start time of every occurrence.
+ *
+ * @param firstStartAt - Start of the first occurrence
+ * @param frequency - WEEKLY or BIWEEKLY
+ * @param count - Number of occurrences, including the first
+ * @param timezone - IANA timezone whose wall-clock time is kept (the doctor's)
+ * @returns UTC start instants, in order
+ */
+export function expandSeriesOccurrences(
+  firstStartAt: Date,
+  frequency: SeriesFrequencyKind,
+  count: number,
+  timezone: string
+): Date[] {
+  const first = DateTime.fromJSDate(firstStartAt).setZone(timezone);
+  const weeks = WEEKS_BETWEEN_OCCURRENCES[frequency];
+
+  return Array.from({ length: count }, (_, index) =>
+    first.plus({ weeks: index * weeks }).toUTC().toJSDate()
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * Expired consultation sweeper
+ *
+ * getEffectiveStatus (lib/consultation-utils.ts) shows PAID / IN_CALL
+ * consultations whose appointment has ended as EXPIRED, but only on read.
+ * The sweeper writes that status to the database so status filters, admin
+ * counts and revenue stats agree with what users see. Open video sessions
+ * of swept consultations are ended and their video rooms deleted by the
+ * transition hooks (lib/consultation-transitions.ts).
+ *
+ * Runs from scripts/sweep-expired-consultations.ts or
+ * GET /api/v1/cron/expired-consultations.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { ConsultationStatus, Prisma } from "@/app/generated/prisma/client";
+import { CALL_OVERRUN_GRACE, isConsultationExpired } from "@/lib/consultation-utils";
+import { isValidStatusTransition } from "@/lib/types";
+import { transitionConsultation, TransitionConflictError } from "@/lib/consultation-transitions";
+
+export const SWEEP_BATCH_SIZE = 100;
+
+// A consultation that failed to expire is left out of runs for this long, so
+// rows that keep failing cannot fill every batch
+export const SWEEP_RETRY_MS = 60 * 60 * 1000;
+
+const SWEEP_FAILED_EVENT = "CONSULT_EXPIRY_FAILED";
+
+const SWEPT_STATUSES: ConsultationStatus[] = [ConsultationStatus.PAID, ConsultationStatus.IN_CALL];
+
+export type SweepOutcome =
+  | "EXPIRED"
+  | "SKIPPED" // The consultation changed status while being swept (e.g. the doctor closed it)
+  | "ERROR";
+
+export interface SweepResult {
+  consultationId: string;
+  from: ConsultationStatus;
+  outcome: SweepOutcome;
+  error?: string;
+}
+
+export interface SweepSummary {
+  checked: number;
+  results: SweepResult[];
+}
+
+interface SweepCandidate {
+  id: string;
+  status: ConsultationStatus;
+  scheduledStartAt: Date | null;
+  durationMinutes: number;
+  doctorId: string | null;
+}
+
+/**
+ * Move PAID consultations whose appointment ended before `now`, and IN_CALL
+ * ones that have also overrun by CALL_OVERRUN_GRACE, to EXPIRED. Each consultation is handled on its own; one failure does not
+ * stop the batch, and is recorded so the next runs skip the consultation for
+ * SWEEP_RETRY_MS.
+ *
+ * @param options.now - Current time (tests pass a fixed clock)
+ * @param options.limit - Maximum consultations per run
+ */
+export async function sweepExpiredConsultations(
+  options: { now?: Date; limit?: number } = {}
+): Promise<SweepSummary> {
+  const now = options.now ?? new Date();
+  const retryCutoff = new Date(now.getTime() - SWEEP_RETRY_MS);
+  const inCallCutoff = new Date(now.getTime() - CALL_OVERRUN_GRACE);
+
+  // Ended appointments, oldest first. The end depends on each row's length,
+  // so it is computed in SQL: the batch must only hold consultations that can
+  // be expired, or appointments still running would crowd out ended ones.
+  // Calls in progress get CALL_OVERRUN_GRACE, as long as their video room.
+  const candidates = await prisma.$queryRaw<SweepCandidate[]>`
+    SELECT c.id, c.status, c."scheduledStartAt", c."durationMinutes", c."doctorId"
+    FROM "Consultation" c
+    WHERE c.status::text IN (${Prisma.join(SWEPT_STATUSES)})
+      AND c."scheduledStartAt" + c."durationMinutes" * INTERVAL '1 minute'
+        < CASE WHEN c.status::text = ${ConsultationStatus.IN_CALL} THEN ${inCallCutoff} ELSE ${now} END
+      AND NOT EXISTS (
+        SELECT 1 FROM "AuditEvent" a
+        WHERE a."consultationId" = c.id
+          AND a."eventType" = ${SWEEP_FAILED_EVENT}
+          AND a."createdAt" > ${retryCutoff}
+      )
+    ORDER BY c."scheduledStartAt" ASC
+    LIMIT ${options.limit ?? SWEEP_BATCH_SIZE}
+  `;
+
+  const expired = candidates.filter(
+    (c) =>
+      isConsultationExpired(c, now.getTime()) &&
+      isValidStatusTransition(c.status, ConsultationStatus.EXPIRED, true)
+  );
+
+  const results: SweepResult[] = [];
+  for (const consultation of expired) {
+    try {
+      const outcome = await expireConsultation(consultation, now);
+      results.push({ consultationId: consultation.id, from: consultation.status, outcome });
+    } catch (err) {
+      console.error(`Failed to expire consultation ${consultation.id}:`, err);
+      await recordSweepFailure(consultation);
+      results.push({
+        consultationId: consultation.id,
+        from: consultation.status,
+        outcome: "ERROR",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return { checked: candidates.length, results };
+}
+
+async function expireConsultation(consultation: SweepCandidate, now: Date): Promise<SweepOutcome> {
+  try {
+    // Guarded so a doctor closing the call at the same moment wins; the
+    // transition hooks end any open video session and delete its room
+    await transitionConsultation(consultation, ConsultationStatus.EXPIRED, {
+      metadata: { reason: "SLOT_ENDED" },
+      now,
+      system: true,
+    });
+  } catch (err) {
+    if (err instanceof TransitionConflictError) return "SKIPPED";
+    throw err;
+  }
+
+  return "EXPIRED";
+}
+
+async function recordSweepFailure(consultation: SweepCandidate): Promise<void> {
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        consultationId: consultation.id,
+        eventType: SWEEP_FAILED_EVENT,
+        eventMetadata: { from: consultation.status },
+      },
+    });
+  } catch (err) {
+    console.error(`Failed to record sweep failure for ${consultation.id}:`, err);
+  }
+}
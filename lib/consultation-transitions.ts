@@ -0,0 +1,203 @@
+/**
+ * Consultation state machine
+ *
+ * Every change to Consultation.status goes through here. A transition is
+ * checked against VALID_STATUS_TRANSITIONS (lib/types.ts), or also
+ * SYSTEM_STATUS_TRANSITIONS when the payment webhook or a scheduled job asks
+ * for it, applied with a guard on the status it was read in, stamped with
+ * startedAt / endedAt and recorded as an audit event. Side effects (slot locks, video rooms) run as
+ * hooks once the change is committed.
+ *
+ * Callers that change other rows atomically with the status use
+ * applyConsultationTransition inside their own transaction and pass the
+ * result to runConsultationTransitionHooks after it commits; everyone else
+ * uses transitionConsultation.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { ConsultationStatus, type Consultation, type Prisma } from "@/app/generated/prisma/client";
+import { isValidStatusTransition } from "@/lib/types";
+import { releaseConsultationSlotLock } from "@/lib/refunds";
+import { getVideoProvider } from "@/lib/video-provider";
+
+/**
+ * The transition is not in VALID_STATUS_TRANSITIONS (or, for the system,
+ * SYSTEM_STATUS_TRANSITIONS)
+ */
+export class InvalidTransitionError extends Error {
+  constructor(
+    readonly from: ConsultationStatus,
+    readonly to: ConsultationStatus
+  ) {
+    super(`Cannot transition from ${from} to ${to}`);
+  }
+}
+
+/**
+ * The consultation left the status it was read in before the update landed
+ */
+export class TransitionConflictError extends Error {}
+
+// What a transition needs to know about the consultation (hooks use the slot fields)
+export interface TransitionSubject {
+  id: string;
+  status: ConsultationStatus;
+  doctorId: string | null;
+  scheduledStartAt: Date | null;
+}
+
+export interface TransitionOptions {
+  actor?: { id: string; role?: string | null } | null; // null for webhooks and scheduled jobs
+  eventType?: string; // Audit event type (default CONSULT_STATUS_CHANGED)
+  metadata?: Record<string, unknown>; // Added to the audit event next to from / to
+  data?: Prisma.ConsultationUpdateInput; // Other fields to change together with the status
+  now?: Date;
+  system?: boolean; // Also allow SYSTEM_STATUS_TRANSITIONS; never set from user input
+}
+
+export interface ConsultationTransition {
+  consultation: TransitionSubject;
+  from: ConsultationStatus;
+  to: ConsultationStatus;
+  now: Date;
+  updated: Consultation;
+}
+
+export type TransitionHook = (transition: ConsultationTransition) => Promise<void>;
+
+const hooks: { statuses: ConsultationStatus[]; hook: TransitionHook }[] = [];
+
+/**
+ * Run `hook` after every committed transition into one of `statuses`.
+ * Hooks run in registration order; a failing hook is logged and does not
+ * undo the transition or stop the other hooks.
+ */
+export function registerTransitionHook(statuses: ConsultationStatus[], hook: TransitionHook): void {
+  hooks.push({ statuses, hook });
+}
+
+/**
+ * Change the status inside the caller's transaction.
+ *
+ * @throws InvalidTransitionError if the transition is not allowed
+ * @throws TransitionConflictError if the status changed since `consultation` was read
+ */
+export async function applyConsultationTransition(
+  tx: Prisma.TransactionClient,
+  consultation: TransitionSubject,
+  to: ConsultationStatus,
+  options: TransitionOptions = {}
+): Promise<ConsultationTransition> {
+  const from = consultation.status;
+  if (!isValidStatusTransition(from, to, options.system)) {
+    throw new InvalidTransitionError(from, to);
+  }
+
+  const now = options.now ?? new Date();
+  const data: Prisma.ConsultationUpdateInput = { ...options.data, status: to };
+  if (to === ConsultationStatus.IN_CALL) {
+    data.startedAt = now;
+  } else if (
+    from === ConsultationStatus.IN_CALL &&
+    (to === ConsultationStatus.COMPLETED || to === ConsultationStatus.EXPIRED)
+  ) {
+    data.endedAt = now;
+  }
+
+  let updated: Consultation;
+  try {
+    updated = await tx.consultation.update({
+      where: { id: consultation.id, status: from },
+      data,
+    });
+  } catch (err) {
+    // P2025: no consultation with this id is in `from` any more
+    if ((err as { code?: string } | null)?.code === "P2025") {
+      throw new TransitionConflictError(`Consultation ${consultation.id} is no longer ${from}`);
+    }
+    throw err;
+  }
+
+  await tx.auditEvent.create({
+    data: {
+      actorUserId: options.actor?.id,
+      consultationId: consultation.id,
+      eventType: options.eventType ?? "CONSULT_STATUS_CHANGED",
+      eventMetadata: { from, to, ...options.metadata } as Prisma.InputJsonObject,
+    },
+  });
+
+  return { consultation, from, to, now, updated };
+}
+
+/**
+ * Run the registered hooks for committed transitions
+ */
+export async function runConsultationTransitionHooks(
+  transitions: ConsultationTransition | ConsultationTransition[]
+): Promise<void> {
+  for (const transition of Array.isArray(transitions) ? transitions : [transitions]) {
+    for (const { statuses, hook } of hooks) {
+      if (!statuses.includes(transition.to)) continue;
+      try {
+        await hook(transition);
+      } catch (err) {
+        console.error(
+          `Transition hook failed for consultation ${transition.consultation.id} (${transition.from} -> ${transition.to}):`,
+          err
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Change the status in its own transaction and run the hooks.
+ *
+ * @throws InvalidTransitionError if the transition is not allowed
+ * @throws TransitionConflictError if the status changed since `consultation` was read
+ */
+export async function transitionConsultation(
+  consultation: TransitionSubject,
+  to: ConsultationStatus,
+  options: TransitionOptions = {}
+): Promise<ConsultationTransition> {
+  const transition = await prisma.$transaction((tx) =>
+    applyConsultationTransition(tx, consultation, to, options)
+  );
+  await runConsultationTransitionHooks(transition);
+  return transition;
+}
+
+// Once a consultation is paid for or given up, its checkout no longer holds the slot
+registerTransitionHook(
+  [
+    ConsultationStatus.PAID,
+    ConsultationStatus.PAYMENT_FAILED,
+    ConsultationStatus.CREATED,
+    ConsultationStatus.CANCELLED,
+    ConsultationStatus.EXPIRED,
+  ],
+  async ({ consultation }) => {
+    await releaseConsultationSlotLock(consultation);
+  }
+);
+
+// Finished consultations end their video session and delete the room to kick everyone out
+registerTransitionHook(
+  [ConsultationStatus.COMPLETED, ConsultationStatus.CANCELLED, ConsultationStatus.EXPIRED],
+  async ({ consultation, now }) => {
+    const videoSession = await prisma.videoSession.findUnique({
+      where: { consultationId: consultation.id },
+    });
+    if (!videoSession || videoSession.endedAt) return;
+
+    const { count } = await prisma.videoSession.updateMany({
+      where: { id: videoSession.id, endedAt: null },
+      data: { endedAt: now },
+    });
+    if (count > 0) {
+      await getVideoProvider(videoSession.provider).deleteRoom(videoSession.roomName);
+    }
+  }
+);
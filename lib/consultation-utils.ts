@@ -2,13 +2,16 @@
  * Consultation utility functions for on-read filtering
  * 
  * These utilities help determine the "effective" status of a consultation,
- * treating past PAID/IN_CALL appointments as expired in the UI without
- * requiring database changes.
+ * treating past PAID/IN_CALL appointments as expired in the UI until the
+ * sweeper (lib/consultation-sweeper.ts) persists the EXPIRED status.
  */
 
+import { getConsultationDurationMinutes } from '@/lib/appointment-duration';
+
 // Join window constants (in milliseconds)
 export const EARLY_JOIN_WINDOW = 5 * 60 * 1000; // 5 minutes before scheduled time
-export const LATE_JOIN_WINDOW = 30 * 60 * 1000; // 30 minutes after scheduled time
+// The late join window lasts as long as the appointment itself (see getLateJoinWindow)
+export const CALL_OVERRUN_GRACE = 10 * 60 * 1000; // Calls can run this long past the scheduled end
 
 /**
  * Consultation-like object with minimum required fields for status calculation
@@ -16,6 +19,42 @@ export const LATE_JOIN_WINDOW = 30 * 60 * 1000; // 30 minutes after scheduled ti
 export interface ConsultationForStatus {
     status: string;
     scheduledStartAt: Date | string | null;
+    durationMinutes?: number | null; // Missing on legacy rows: defaults to 30 minutes
+}
+
+/**
+ * How long after the scheduled time a consultation can still be joined:
+ * the appointment's own length.
+ *
+ * @param consultation - The consultation to check
+ * @returns Late join window in milliseconds
+ */
+export function getLateJoinWindow(consultation: ConsultationForStatus): number {
+    return getConsultationDurationMinutes(consultation) * 60 * 1000;
+}
+
+/**
+ * How long a video room or join token minted now should last: until the
+ * scheduled end plus CALL_OVERRUN_GRACE, or the appointment length when
+ * nothing is scheduled.
+ *
+ * @param consultation - The consultation being joined
+ * @param now - Current time in milliseconds
+ * @returns Lifetime in whole minutes (at least 1)
+ */
+export function getCallLifetimeMinutes(
+    consultation: ConsultationForStatus,
+    now: number = Date.now()
+): number {
+    const durationMinutes = getConsultationDurationMinutes(consultation);
+    if (!consultation.scheduledStartAt) {
+        return durationMinutes;
+    }
+
+    const endsAt = new Date(consultation.scheduledStartAt).getTime()
+        + getLateJoinWindow(consultation)
+        + CALL_OVERRUN_GRACE;
+    return Math.max(1, Math.ceil((endsAt - now) / 60000));
 }
 
 /**
@@ -25,7 +64,8 @@ export interface ConsultationForStatus {
  * A consultation is considered expired if:
  * 1. Status is PAID or IN_CALL (active but not completed)
  * 2. Has a scheduled time
- * 3. Current time is past the late join window (30 min after scheduled)
+ * 3. Current time is past the late join window (the appointment's scheduled end),
+ *    plus CALL_OVERRUN_GRACE for a call in progress
  * 
  * @param consultation - The consultation to check
  * @param now - Current time (optional, defaults to Date.now())
@@ -49,7 +89,9 @@ export function isConsultationExpired(
         ? consultation.scheduledStartAt.getTime()
         : new Date(consultation.scheduledStartAt).getTime();
 
-    const lateBoundary = scheduledTime + LATE_JOIN_WINDOW;
+    // A call in progress can overrun until its video room closes
+    const grace = consultation.status === 'IN_CALL' ? CALL_OVERRUN_GRACE : 0;
+    const lateBoundary = scheduledTime + getLateJoinWindow(consultation) + grace;
 
     return now > lateBoundary;
 }
@@ -80,7 +122,7 @@ export function getEffectiveStatus(
  * A consultation is joinable if:
  * 1. Status is PAID or IN_CALL
  * 2. Either has no scheduled time, OR current time is within the join window
- *    (5 min early to 30 min late)
+ *    (5 min early until the appointment's scheduled end)
  * 
  * @param consultation - The consultation to check
  * @param now - Current time (optional, defaults to Date.now())
@@ -103,7 +145,7 @@ export function isConsultationJoinable(
         : new Date(consultation.scheduledStartAt).getTime();
 
     const earlyBoundary = scheduledTime - EARLY_JOIN_WINDOW;
-    const lateBoundary = scheduledTime + LATE_JOIN_WINDOW;
+    const lateBoundary = scheduledTime + getLateJoinWindow(consultation);
 
     return now >= earlyBoundary && now <= lateBoundary;
 }
@@ -0,0 +1,98 @@
+/**
+ * Currencies
+ *
+ * Amounts are stored as integers in the currency's minor unit (cents, pence),
+ * and a payment is charged in the currency its consultation was priced in.
+ * The number of minor-unit digits comes from Intl, so currencies without
+ * decimals (e.g. JPY) convert and format correctly.
+ *
+ * Safe to import from client components.
+ */
+
+// Currencies prices can be set and charged in
+export const SUPPORTED_CURRENCIES = ["USD", "GBP", "EUR"] as const;
+
+export type SupportedCurrency = (typeof SUPPORTED_CURRENCIES)[number];
+
+export const DEFAULT_CURRENCY: SupportedCurrency = "USD";
+
+export const DEFAULT_LOCALE = "en-US";
+
+// Regions whose patients are priced in GBP or EUR by default
+const GBP_REGIONS = ["GB", "GG", "IM", "JE"];
+const EUR_REGIONS = [
+  "AT", "BE", "CY", "DE", "EE", "ES", "FI", "FR", "GR", "HR", "IE", "IT",
+  "LT", "LU", "LV", "MT", "NL", "PT", "SI", "SK",
+];
+
+export function isSupportedCurrency(currency: unknown): currency is SupportedCurrency {
+  return SUPPORTED_CURRENCIES.includes(currency as SupportedCurrency);
+}
+
+/**
+ * Digits after the decimal point, e.g. 2 for USD and 0 for JPY
+ */
+export function currencyMinorUnits(currency: string): number {
+  return new Intl.NumberFormat(DEFAULT_LOCALE, { style: "currency", currency }).resolvedOptions()
+    .maximumFractionDigits ?? 2;
+}
+
+/**
+ * Major units (as typed by a person, e.g. 150.5) to the stored integer amount
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** currencyMinorUnits(currency));
+}
+
+/**
+ * Stored integer amount to major units, e.g. 15050 USD -> 150.5
+ */
+export function fromMinorUnits(amount: number, currency: string): number {
+  return amount / 10 ** currencyMinorUnits(currency);
+}
+
+/**
+ * Format an amount in the smallest currency unit, e.g. "$150.00" (en-US) or
+ * "150,00 €" (de-DE)
+ */
+export function formatMoney(amount: number, currency: string, locale: string = DEFAULT_LOCALE): string {
+  return new Intl.NumberFormat(locale, { style: "currency", currency }).format(
+    fromMinorUnits(amount, currency)
+  );
+}
+
+/**
+ * The first usable locale of an Accept-Language header
+ */
+export function localeFromAcceptLanguage(header: string | null | undefined): string {
+  const candidates = (header ?? "")
+    .split(",")
+    .map((part) => part.split(";")[0].trim())
+    .filter((tag) => tag && tag !== "*");
+
+  for (const tag of candidates) {
+    try {
+      return Intl.getCanonicalLocales(tag)[0];
+    } catch {
+      // Malformed tag - try the next one
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * The currency to price a patient in, from their locale's region
+ * ("en-GB" -> GBP, "fr-FR" -> EUR, anything else -> USD)
+ */
+export function currencyForLocale(locale: string | null | undefined): SupportedCurrency {
+  let region: string | undefined;
+  try {
+    region = locale ? new Intl.Locale(locale).maximize().region : undefined;
+  } catch {
+    region = undefined;
+  }
+
+  if (region && GBP_REGIONS.includes(region)) return "GBP";
+  if (region && EUR_REGIONS.includes(region)) return "EUR";
+  return DEFAULT_CURRENCY;
+}
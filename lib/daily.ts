@@ -23,7 +23,7 @@ interface DailyMeetingTokenResponse {
  * Create a Daily room for a consultation
  *
  * @param roomName - Unique room name (typically consultation ID)
- * @param expiryMinutes - Minutes until room expires (default 60)
+ * @param expiryMinutes - Minutes until room expires (default 30)
  * @returns Room name and URL
  */
 export async function createRoom(
@@ -93,19 +93,20 @@ export async function createRoom(
  * @param roomName - The room to grant access to
  * @param userId - User ID for tracking
  * @param isOwner - If true, grants owner privileges (can end call, etc.)
+ * @param expiryMinutes - Minutes until the token expires (default 60)
  * @returns JWT meeting token
  */
 export async function createMeetingToken(
   roomName: string,
   userId: string,
-  isOwner: boolean = false
+  isOwner: boolean = false,
+  expiryMinutes: number = 60
 ): Promise<string> {
   if (!DAILY_API_KEY) {
     throw new Error("DAILY_API_KEY environment variable is not set");
   }
 
-  // Token expires in 1 hour
-  const expiryTime = Math.floor(Date.now() / 1000) + 60 * 60;
+  const expiryTime = Math.floor(Date.now() / 1000) + expiryMinutes * 60;
 
   const response = await fetch(`${DAILY_API_URL}/meeting-tokens`, {
     method: "POST",
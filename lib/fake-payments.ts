@@ -0,0 +1,190 @@
+/**
+ * Fake payment provider for offline development
+ *
+ * Selected with PAYMENT_PROVIDER=fake. Checkouts point at a local page
+ * (app/checkout/fake) where the patient pays, declines or abandons; the
+ * outcome is sent to our own webhook endpoint as a Square-format event signed
+ * with FAKE_PAYMENTS_WEBHOOK_SECRET, so the booking-to-paid flow runs exactly
+ * as it does against Square.
+ *
+ * Checkouts live in memory and are lost when the server restarts.
+ */
+
+import { randomUUID } from "crypto";
+import { signSquareWebhook, verifySquareSignature } from "@/lib/square";
+import type { SquareWebhookEvent } from "@/lib/square-webhooks";
+import type { PaymentProvider, ProviderCheckoutStatus } from "@/lib/payment-provider";
+
+const DEFAULT_WEBHOOK_SECRET = "fake-payments-webhook-secret";
+
+export type FakeCheckoutOutcome = "PAY" | "DECLINE" | "CANCEL";
+
+export interface FakeCheckout {
+  checkoutId: string;
+  orderId: string;
+  consultationId: string;
+  name: string;
+  amount: number; // Total after the discount
+  discount: { name: string; amount: number } | null;
+  currency: string;
+  redirectUrl: string;
+  orderState: "OPEN" | "COMPLETED" | "CANCELED";
+  payment: { id: string; status: "COMPLETED" | "FAILED" } | null;
+}
+
+// Kept on globalThis so checkouts survive module reloads in `next dev`
+const store = globalThis as unknown as {
+  fakeCheckouts?: Map<string, FakeCheckout>;
+  fakeCheckoutKeys?: Map<string, string>; // idempotency key -> checkout id
+};
+const checkouts = (store.fakeCheckouts ??= new Map());
+const idempotencyKeys = (store.fakeCheckoutKeys ??= new Map());
+
+function webhookSecret(): string {
+  return process.env.FAKE_PAYMENTS_WEBHOOK_SECRET || DEFAULT_WEBHOOK_SECRET;
+}
+
+function findByOrderId(orderId: string): FakeCheckout | undefined {
+  return [...checkouts.values()].find((checkout) => checkout.orderId === orderId);
+}
+
+export const fakePaymentProvider: PaymentProvider = {
+  name: "FAKE",
+
+  isCheckoutConfigured() {
+    return true;
+  },
+
+  async createCheckout(params) {
+    const existing = idempotencyKeys.get(params.idempotencyKey);
+    const checkout = existing ? checkouts.get(existing) : undefined;
+    if (checkout) {
+      return { checkoutId: checkout.checkoutId, orderId: checkout.orderId, url: checkoutUrl(checkout) };
+    }
+
+    const created: FakeCheckout = {
+      checkoutId: `fake_link_${randomUUID()}`,
+      orderId: `fake_order_${randomUUID()}`,
+      consultationId: params.consultationId,
+      name: params.name,
+      amount: params.amount - (params.discount?.amount ?? 0),
+      discount: params.discount ?? null,
+      currency: params.currency,
+      redirectUrl: params.redirectUrl,
+      orderState: "OPEN",
+      payment: null,
+    };
+    checkouts.set(created.checkoutId, created);
+    idempotencyKeys.set(params.idempotencyKey, created.checkoutId);
+
+    return { checkoutId: created.checkoutId, orderId: created.orderId, url: checkoutUrl(created) };
+  },
+
+  async getCheckoutStatus(orderId): Promise<ProviderCheckoutStatus> {
+    const checkout = findByOrderId(orderId);
+    return {
+      orderState: checkout?.orderState ?? null,
+      payment: checkout?.payment ? { ...checkout.payment } : null,
+    };
+  },
+
+  async cancelCheckout(checkoutId) {
+    const checkout = checkouts.get(checkoutId);
+    if (checkout?.orderState === "OPEN") {
+      checkout.orderState = "CANCELED";
+    }
+  },
+
+  async refundPayment() {
+    // Fake refunds settle immediately, so no refund webhook follows
+    return { refundId: `fake_refund_${randomUUID()}`, status: "COMPLETED" };
+  },
+
+  verifyWebhook(params) {
+    return verifySquareSignature({ ...params, signatureKey: webhookSecret() });
+  },
+};
+
+function checkoutUrl(checkout: FakeCheckout): string {
+  const url = new URL("/checkout/fake", process.env.NEXT_PUBLIC_BASE_URL);
+  url.searchParams.set("checkoutId", checkout.checkoutId);
+  return url.toString();
+}
+
+export function getFakeCheckout(checkoutId: string): FakeCheckout | null {
+  return checkouts.get(checkoutId) ?? null;
+}
+
+/**
+ * Finish an open fake checkout and deliver the webhook Square would send:
+ * `payment.updated` (COMPLETED or FAILED) when the patient pays or is
+ * declined, `order.updated` (CANCELED) when they give up.
+ *
+ * @returns The updated checkout, or null if it is unknown or already finished
+ */
+export async function completeFakeCheckout(
+  checkoutId: string,
+  outcome: FakeCheckoutOutcome
+): Promise<FakeCheckout | null> {
+  const checkout = checkouts.get(checkoutId);
+  if (!checkout || checkout.orderState !== "OPEN" || checkout.payment) {
+    return null;
+  }
+
+  if (outcome === "CANCEL") {
+    checkout.orderState = "CANCELED";
+    await sendFakeWebhook({
+      type: "order.updated",
+      data: {
+        type: "order_updated",
+        id: checkout.orderId,
+        object: { order_updated: { order_id: checkout.orderId, state: "CANCELED", version: 2 } },
+      },
+    });
+    return checkout;
+  }
+
+  const payment = { id: `fake_payment_${randomUUID()}`, status: outcome === "PAY" ? "COMPLETED" : "FAILED" } as const;
+  checkout.payment = payment;
+  if (outcome === "PAY") {
+    checkout.orderState = "COMPLETED";
+  }
+
+  await sendFakeWebhook({
+    type: "payment.updated",
+    data: {
+      type: "payment",
+      id: payment.id,
+      object: { payment: { id: payment.id, order_id: checkout.orderId, status: payment.status } },
+    },
+  });
+  return checkout;
+}
+
+async function sendFakeWebhook(event: Pick<SquareWebhookEvent, "type" | "data">): Promise<void> {
+  // Must match the URL the webhook route verifies against
+  const notificationUrl = process.env.NEXT_PUBLIC_BASE_URL + "/api/v1/payments/webhook";
+  const body = JSON.stringify({
+    merchant_id: "fake_merchant",
+    event_id: randomUUID(),
+    created_at: new Date().toISOString(),
+    ...event,
+  });
+
+  const response = await fetch(notificationUrl, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-square-hmacsha256-signature": signSquareWebhook({
+        body,
+        notificationUrl,
+        signatureKey: webhookSecret(),
+      }),
+    },
+    body,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Fake ${event.type} webhook failed with status ${response.status}`);
+  }
+}
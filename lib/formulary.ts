@@ -0,0 +1,146 @@
+/**
+ * Drug formulary
+ *
+ * The medications doctors can prescribe, loaded from lib/data/formulary.json.
+ * Each entry is one product (drug, strength and form) with the routes it can
+ * be given by, the drug classes it belongs to and the allergy groups it
+ * triggers. Interaction rules pair two drugs or classes with a severity, so
+ * "anticoagulant" + "nsaid" covers every combination of the two.
+ *
+ * The dataset is a curated starting list, not a clinical reference; warnings
+ * support the prescriber's judgement and never block a prescription on their
+ * own.
+ */
+
+import formulary from "@/lib/data/formulary.json";
+
+export type InteractionSeverity = "MAJOR" | "MODERATE";
+
+export interface FormularyDrug {
+  id: string; // e.g. "amoxicillin-500-cap"
+  name: string; // Generic name
+  brandNames: string[];
+  strength: string;
+  form: string;
+  routes: string[];
+  classes: string[]; // e.g. "nsaid", "serotonergic"
+  allergyGroups: string[]; // Allergies that rule the drug out, e.g. "penicillin"
+}
+
+interface InteractionRule {
+  between: [string, string]; // Drug ids or classes
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export interface DrugInteraction {
+  drugs: [string, string]; // Drug names
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export interface AllergyConflict {
+  drug: string; // Drug name
+  allergy: string; // As recorded for the patient
+}
+
+const DRUGS = formulary.drugs as FormularyDrug[];
+const INTERACTIONS = formulary.interactions as InteractionRule[];
+const DRUGS_BY_ID = new Map(DRUGS.map((drug) => [drug.id, drug]));
+
+export const FORMULARY_VERSION = formulary.version;
+
+export const MAX_FORMULARY_RESULTS = 20;
+
+/**
+ * A formulary entry by id, or null if it is not in the formulary
+ */
+export function getFormularyDrug(id: string): FormularyDrug | null {
+  return DRUGS_BY_ID.get(id) ?? null;
+}
+
+/**
+ * Drugs whose generic or brand name contains the query, names that start
+ * with it first. An empty query lists the formulary alphabetically.
+ */
+export function searchFormulary(query: string, limit: number = MAX_FORMULARY_RESULTS): FormularyDrug[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return DRUGS.slice(0, limit);
+
+  const rank = (drug: FormularyDrug) => {
+    const names = [drug.name, ...drug.brandNames].map((name) => name.toLowerCase());
+    if (names.some((name) => name.startsWith(q))) return 0;
+    if (names.some((name) => name.includes(q))) return 1;
+    return -1;
+  };
+
+  return DRUGS.map((drug) => ({ drug, rank: rank(drug) }))
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.drug.name.localeCompare(b.drug.name))
+    .slice(0, limit)
+    .map(({ drug }) => drug);
+}
+
+function matches(drug: FormularyDrug, key: string): boolean {
+  return drug.id === key || drug.classes.includes(key);
+}
+
+/**
+ * The most severe rule for a pair of different drugs, if any
+ */
+function interactionBetween(a: FormularyDrug, b: FormularyDrug): InteractionRule | null {
+  if (a.id === b.id) return null;
+  const rules = INTERACTIONS.filter(
+    ({ between: [x, y] }) => (matches(a, x) && matches(b, y)) || (matches(a, y) && matches(b, x))
+  );
+  return rules.find((rule) => rule.severity === "MAJOR") ?? rules[0] ?? null;
+}
+
+/**
+ * Interactions among the drugs being prescribed, and between them and the
+ * patient's current medications
+ */
+export function findInteractions(prescribed: FormularyDrug[], current: FormularyDrug[] = []): DrugInteraction[] {
+  const found: DrugInteraction[] = [];
+  const seen = new Set<string>();
+
+  const check = (a: FormularyDrug, b: FormularyDrug) => {
+    const key = [a.id, b.id].sort().join("|");
+    if (seen.has(key)) return;
+    seen.add(key);
+    const rule = interactionBetween(a, b);
+    if (rule) {
+      found.push({ drugs: [a.name, b.name], severity: rule.severity, description: rule.description });
+    }
+  };
+
+  prescribed.forEach((drug, i) => {
+    prescribed.slice(i + 1).forEach((other) => check(drug, other));
+    current.forEach((other) => check(drug, other));
+  });
+
+  return found;
+}
+
+// "Penicillins", "ACE inhibitors" and "ace-inhibitor" all match "ace-inhibitor"
+function normalizeAllergy(allergy: string): string {
+  const key = allergy.trim().toLowerCase().replace(/[\s_]+/g, "-");
+  return key.length > 4 && key.endsWith("s") ? key.slice(0, -1) : key;
+}
+
+/**
+ * Prescribed drugs the patient is allergic to, by name, brand or allergy group
+ */
+export function findAllergyConflicts(prescribed: FormularyDrug[], allergies: string[]): AllergyConflict[] {
+  const conflicts: AllergyConflict[] = [];
+  for (const drug of prescribed) {
+    const keys = new Set(
+      [drug.name, ...drug.brandNames, ...drug.allergyGroups].map(normalizeAllergy)
+    );
+    const allergy = allergies.find((a) => keys.has(normalizeAllergy(a)));
+    if (allergy) {
+      conflicts.push({ drug: drug.name, allergy });
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,209 @@
+/**
+ * Patient health profile
+ *
+ * The medical history a patient keeps between consultations: allergies,
+ * current medications, chronic conditions, past surgeries and an emergency
+ * contact, plus the name and age range they book under. Patients edit it from
+ * their settings page. Every new intake prefills from it and stores a copy of
+ * the history (the snapshot), so the assigned doctor reads the history as it
+ * was when the consultation was booked, even if the profile changes later.
+ *
+ * Routes live under /api/v1/users/me/health-profile.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { Prisma } from "@/app/generated/prisma/client";
+import { VALID_AGE_RANGES, type AgeRange } from "@/lib/types";
+
+export const HEALTH_HISTORY_LISTS = ["allergies", "currentMedications", "chronicConditions", "surgeries"] as const;
+
+export type HealthHistoryList = (typeof HEALTH_HISTORY_LISTS)[number];
+
+// Matches the allergies a prescription can be checked against
+export const MAX_HEALTH_HISTORY_ENTRIES = 20;
+export const MAX_HEALTH_HISTORY_ENTRY_LENGTH = 200;
+export const MAX_EMERGENCY_CONTACT_LENGTH = 100;
+export const MAX_NAME_OR_ALIAS_LENGTH = 100;
+
+// Digits with optional +, spaces, dots, dashes and parentheses
+const PHONE_PATTERN = /^\+?[0-9][0-9 ().-]{5,24}$/;
+
+// The part of the profile copied into each intake
+export interface HealthHistory {
+  allergies: string[];
+  currentMedications: string[];
+  chronicConditions: string[];
+  surgeries: string[];
+  emergencyContactName: string | null;
+  emergencyContactPhone: string | null;
+  emergencyContactRelationship: string | null;
+}
+
+export interface HealthProfileInput extends HealthHistory {
+  nameOrAlias: string | null;
+  ageRange: AgeRange | null;
+}
+
+type Validated<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string; field: string };
+
+export const EMPTY_HEALTH_HISTORY: HealthHistory = {
+  allergies: [],
+  currentMedications: [],
+  chronicConditions: [],
+  surgeries: [],
+  emergencyContactName: null,
+  emergencyContactPhone: null,
+  emergencyContactRelationship: null,
+};
+
+function validateList(value: unknown, field: HealthHistoryList): Validated<string[]> {
+  if (!Array.isArray(value) || !value.every((entry): entry is string => typeof entry === "string")) {
+    return { error: `${field} must be an array of strings`, field };
+  }
+  const entries = [...new Set(value.map((entry) => entry.trim()).filter(Boolean))];
+  if (entries.length > MAX_HEALTH_HISTORY_ENTRIES) {
+    return { error: `${field} can have at most ${MAX_HEALTH_HISTORY_ENTRIES} entries`, field };
+  }
+  if (entries.some((entry) => entry.length > MAX_HEALTH_HISTORY_ENTRY_LENGTH)) {
+    return { error: `${field} entries must be at most ${MAX_HEALTH_HISTORY_ENTRY_LENGTH} characters`, field };
+  }
+  return { data: entries };
+}
+
+function validateOptionalText(value: unknown, field: string, maxLength: number): Validated<string | null> {
+  if (value === null || value === undefined) return { data: null };
+  if (typeof value !== "string") {
+    return { error: `${field} must be a string or null`, field };
+  }
+  const text = value.trim();
+  if (text.length > maxLength) {
+    return { error: `${field} must be at most ${maxLength} characters`, field };
+  }
+  return { data: text || null };
+}
+
+/**
+ * Validate the medical history fields. With `partial`, omitted fields are
+ * left out of the result so they can be merged over a stored profile;
+ * otherwise they are cleared.
+ */
+export function validateHealthHistory(
+  input: Record<string, unknown>,
+  { partial }: { partial: boolean }
+): Validated<Partial<HealthHistory>> {
+  const data: Partial<HealthHistory> = {};
+
+  for (const field of HEALTH_HISTORY_LISTS) {
+    if (input[field] === undefined && partial) continue;
+    const list = validateList(input[field] ?? [], field);
+    if (!list.data) return list;
+    data[field] = list.data;
+  }
+
+  const contactFields = ["emergencyContactName", "emergencyContactPhone", "emergencyContactRelationship"] as const;
+  for (const field of contactFields) {
+    if (input[field] === undefined && partial) continue;
+    const text = validateOptionalText(input[field], field, MAX_EMERGENCY_CONTACT_LENGTH);
+    if (!text.data && text.error) return text;
+    data[field] = text.data ?? null;
+  }
+
+  if (data.emergencyContactPhone && !PHONE_PATTERN.test(data.emergencyContactPhone)) {
+    return { error: "emergencyContactPhone must be a phone number", field: "emergencyContactPhone" };
+  }
+  // A contact needs both a name and a way to reach them
+  if ("emergencyContactName" in data || "emergencyContactPhone" in data) {
+    if (!data.emergencyContactName !== !data.emergencyContactPhone) {
+      const field = data.emergencyContactName ? "emergencyContactPhone" : "emergencyContactName";
+      return { error: "An emergency contact needs both a name and a phone number", field };
+    }
+  }
+
+  return { data };
+}
+
+/**
+ * Validate a whole profile; omitted fields are cleared
+ */
+export function validateHealthProfileInput(input: Record<string, unknown>): Validated<HealthProfileInput> {
+  const nameOrAlias = validateOptionalText(input.nameOrAlias, "nameOrAlias", MAX_NAME_OR_ALIAS_LENGTH);
+  if (nameOrAlias.error) return nameOrAlias;
+
+  const ageRange = input.ageRange ?? null;
+  if (ageRange !== null && !VALID_AGE_RANGES.includes(ageRange as AgeRange)) {
+    return { error: `Invalid age range. Valid options: ${VALID_AGE_RANGES.join(", ")}`, field: "ageRange" };
+  }
+
+  const history = validateHealthHistory(input, { partial: false });
+  if (!history.data) return history;
+
+  return {
+    data: {
+      ...EMPTY_HEALTH_HISTORY,
+      ...history.data,
+      nameOrAlias: nameOrAlias.data ?? null,
+      ageRange: ageRange as AgeRange | null,
+    },
+  };
+}
+
+/**
+ * The history fields of a profile or intake, empty when there is none
+ */
+export function healthHistorySnapshot(source: HealthHistory | null | undefined): HealthHistory {
+  if (!source) return { ...EMPTY_HEALTH_HISTORY };
+  return {
+    allergies: source.allergies,
+    currentMedications: source.currentMedications,
+    chronicConditions: source.chronicConditions,
+    surgeries: source.surgeries,
+    emergencyContactName: source.emergencyContactName,
+    emergencyContactPhone: source.emergencyContactPhone,
+    emergencyContactRelationship: source.emergencyContactRelationship,
+  };
+}
+
+/**
+ * Validate the `healthProfile` an intake may carry: corrections to the stored
+ * history for this consultation. Omitted fields come from the stored profile.
+ */
+export function validateIntakeHealthHistory(value: unknown): Validated<Partial<HealthHistory>> {
+  if (value === undefined || value === null) return { data: {} };
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { error: "healthProfile must be an object", field: "healthProfile" };
+  }
+  const history = validateHealthHistory(value as Record<string, unknown>, { partial: true });
+  if (!history.data) return { error: history.error, field: `healthProfile.${history.field}` };
+  return history;
+}
+
+/**
+ * The history to copy into a new intake: the patient's stored profile with
+ * the corrections submitted with the intake on top
+ */
+export async function resolveIntakeHealthHistory(
+  patientId: string,
+  submitted: Partial<HealthHistory>
+): Promise<HealthHistory> {
+  const profile = await prisma.patientHealthProfile.findUnique({ where: { patientId } });
+  return { ...healthHistorySnapshot(profile), ...submitted };
+}
+
+/**
+ * Save what the patient entered on an intake back to their profile, inside
+ * the transaction that creates the intake
+ */
+export async function saveIntakeToHealthProfile(
+  tx: Prisma.TransactionClient,
+  patientId: string,
+  intake: { nameOrAlias: string; ageRange?: string | null } & HealthHistory
+): Promise<void> {
+  const data = { ...healthHistorySnapshot(intake), nameOrAlias: intake.nameOrAlias, ageRange: intake.ageRange ?? null };
+  await tx.patientHealthProfile.upsert({
+    where: { patientId },
+    create: { patientId, ...data },
+    update: data,
+  });
+}
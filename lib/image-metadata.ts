@@ -0,0 +1,197 @@
+/**
+ * Image metadata stripping
+ *
+ * Photos from phones carry EXIF data: camera, timestamps and often the GPS
+ * position they were taken at. Uploaded images are rewritten with only what
+ * is needed to display them:
+ *
+ * - JPEG: the quantization and Huffman tables, frame and scan segments are
+ *   copied; EXIF and XMP (APP1), IPTC (APP13), other application segments and
+ *   comments are dropped. The JFIF header is kept without its thumbnail, and
+ *   ICC colour profiles and the Adobe colour transform are kept.
+ * - PNG: the pixel data is decompressed and recompressed into a single IDAT
+ *   chunk; text, time and eXIf chunks are dropped.
+ *
+ * The EXIF orientation is dropped with the rest, so photos show as the camera
+ * stored them.
+ */
+
+import { crc32, deflateSync, inflateSync } from "zlib";
+
+/**
+ * The file is not a well-formed image of its type
+ */
+export class InvalidImageError extends Error {}
+
+// Larger images are rejected before their pixel data is decompressed
+export const MAX_IMAGE_PIXELS = 50_000_000;
+
+function isJpegSegmentKept(marker: number): boolean {
+  return (
+    (marker >= 0xc0 && marker <= 0xcf) || // Frames, Huffman and arithmetic coding tables
+    marker === 0xdb || // Quantization tables
+    marker === 0xdd || // Restart interval
+    marker === 0xe2 || // ICC profile
+    marker === 0xee // Adobe colour transform
+  );
+}
+
+// JFIF header up to the thumbnail size, with the thumbnail left out
+function jfifWithoutThumbnail(segment: Buffer): Buffer | null {
+  if (segment.length < 18 || segment.subarray(4, 9).toString("latin1") !== "JFIF\0") return null;
+  const header = Buffer.from(segment.subarray(0, 18));
+  header.writeUInt16BE(16, 2);
+  header[16] = 0;
+  header[17] = 0;
+  return header;
+}
+
+function stripJpeg(data: Buffer): Buffer {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    throw new InvalidImageError("Not a JPEG image");
+  }
+
+  const parts: Buffer[] = [data.subarray(0, 2)];
+  let hasFrame = false;
+  let hasScan = false;
+  let pos = 2;
+
+  while (pos + 1 < data.length) {
+    if (data[pos] !== 0xff) throw new InvalidImageError("Malformed JPEG image");
+    const marker = data[pos + 1];
+    if (marker === 0xff) {
+      pos++; // Fill byte
+      continue;
+    }
+    if (marker === 0xd9) {
+      if (!hasFrame || !hasScan) throw new InvalidImageError("JPEG image has no image data");
+      parts.push(data.subarray(pos, pos + 2));
+      return Buffer.concat(parts);
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      pos += 2; // Markers without a length
+      continue;
+    }
+
+    if (pos + 4 > data.length) throw new InvalidImageError("Truncated JPEG image");
+    const end = pos + 2 + data.readUInt16BE(pos + 2);
+    if (end > data.length) throw new InvalidImageError("Truncated JPEG image");
+
+    if (marker === 0xda) {
+      // The scan's entropy-coded data runs to the next marker other than a
+      // stuffed 0xFF00 or a restart marker
+      let scanEnd = end;
+      while (
+        scanEnd + 1 < data.length &&
+        !(data[scanEnd] === 0xff && data[scanEnd + 1] !== 0 && (data[scanEnd + 1] < 0xd0 || data[scanEnd + 1] > 0xd7))
+      ) {
+        scanEnd++;
+      }
+      parts.push(data.subarray(pos, scanEnd));
+      hasScan = true;
+      pos = scanEnd;
+      continue;
+    }
+
+    const segment = data.subarray(pos, end);
+    if (marker === 0xe0) {
+      const jfif = jfifWithoutThumbnail(segment);
+      if (jfif) parts.push(jfif);
+    } else if (isJpegSegmentKept(marker)) {
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        if (segment.length < 9) throw new InvalidImageError("Malformed JPEG image");
+        const pixels = segment.readUInt16BE(5) * segment.readUInt16BE(7);
+        if (pixels > MAX_IMAGE_PIXELS) throw new InvalidImageError("Image is too large");
+        hasFrame = true;
+      }
+      parts.push(segment);
+    }
+    pos = end;
+  }
+
+  throw new InvalidImageError("Truncated JPEG image");
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Chunks that affect how the image looks; everything else is dropped
+const PNG_KEPT_CHUNKS = new Set(["IHDR", "PLTE", "tRNS", "gAMA", "cHRM", "sRGB", "iCCP", "sBIT", "pHYs", "bKGD"]);
+
+// Samples per pixel by PNG colour type
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "latin1");
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+function stripPng(data: Buffer): Buffer {
+  if (data.length < PNG_SIGNATURE.length || !data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new InvalidImageError("Not a PNG image");
+  }
+
+  const kept: Buffer[] = [];
+  const idat: Buffer[] = [];
+  let maxDecodedBytes = 0;
+  let pos = PNG_SIGNATURE.length;
+
+  while (pos + 12 <= data.length) {
+    const length = data.readUInt32BE(pos);
+    const type = data.subarray(pos + 4, pos + 8).toString("latin1");
+    const end = pos + 12 + length;
+    if (end > data.length) throw new InvalidImageError("Truncated PNG image");
+    if (crc32(data.subarray(pos + 4, end - 4)) !== data.readUInt32BE(end - 4)) {
+      throw new InvalidImageError(`Corrupt PNG chunk ${type}`);
+    }
+    const chunkData = data.subarray(pos + 8, end - 4);
+
+    if (type === "IHDR") {
+      if (length !== 13) throw new InvalidImageError("Malformed PNG header");
+      const width = chunkData.readUInt32BE(0);
+      const height = chunkData.readUInt32BE(4);
+      const channels = PNG_CHANNELS[chunkData[9]];
+      if (!channels || width === 0 || height === 0) throw new InvalidImageError("Malformed PNG header");
+      if (width * height > MAX_IMAGE_PIXELS) throw new InvalidImageError("Image is too large");
+      // Filter bytes and pixels, doubled to leave room for interlacing
+      maxDecodedBytes = 2 * height * (1 + Math.ceil((width * channels * chunkData[8]) / 8));
+    } else if (maxDecodedBytes === 0) {
+      throw new InvalidImageError("PNG image does not start with a header");
+    }
+
+    if (type === "IDAT") {
+      idat.push(chunkData);
+    } else if (type === "IEND") {
+      if (idat.length === 0) throw new InvalidImageError("PNG image has no image data");
+      let pixels: Buffer;
+      try {
+        pixels = inflateSync(Buffer.concat(idat), { maxOutputLength: maxDecodedBytes });
+      } catch {
+        throw new InvalidImageError("Corrupt PNG image data");
+      }
+      return Buffer.concat([
+        PNG_SIGNATURE,
+        ...kept,
+        pngChunk("IDAT", deflateSync(pixels)),
+        pngChunk("IEND", Buffer.alloc(0)),
+      ]);
+    } else if (PNG_KEPT_CHUNKS.has(type) && idat.length === 0) {
+      kept.push(data.subarray(pos, end));
+    }
+    pos = end;
+  }
+
+  throw new InvalidImageError("Truncated PNG image");
+}
+
+/**
+ * A copy of a JPEG or PNG image without its metadata
+ *
+ * @throws InvalidImageError when the image is malformed or too large
+ */
+export function stripImageMetadata(data: Buffer, contentType: "image/jpeg" | "image/png"): Buffer {
+  return contentType === "image/jpeg" ? stripJpeg(data) : stripPng(data);
+}
@@ -0,0 +1,242 @@
+/**
+ * Intake attachments
+ *
+ * Patients can attach photos (JPEG, PNG) and PDFs, e.g. of a skin condition or
+ * earlier lab results, to their intake. Uploads are checked by their contents
+ * rather than the type the browser claims, and images are rewritten without
+ * their EXIF/GPS metadata (lib/image-metadata.ts) before they are stored.
+ *
+ * Files are kept in a storage backend (lib/storage.ts) and never have a
+ * public address. The patient, the assigned doctor and admins get links that
+ * are signed for one attachment and expire after a few minutes; the download
+ * route only serves files for a valid signature.
+ *
+ * Routes live under /api/v1/consultations/:id/intake/attachments, downloads
+ * under /api/v1/attachments/:attachmentId.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { getStorageBackend } from "@/lib/storage";
+import { InvalidImageError, stripImageMetadata } from "@/lib/image-metadata";
+import { ATTACHMENT_CONTENT_TYPES, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS_PER_INTAKE } from "@/lib/constants";
+import { ConsultationStatus, UserRole, type IntakeAttachment } from "@/app/generated/prisma/client";
+
+export type AttachmentContentType = (typeof ATTACHMENT_CONTENT_TYPES)[number];
+
+// Consultations patients can still add files to or remove them from
+export const ATTACHMENT_UPLOAD_STATUSES: ConsultationStatus[] = [
+  ConsultationStatus.CREATED,
+  ConsultationStatus.PAYMENT_PENDING,
+  ConsultationStatus.PAID,
+  ConsultationStatus.IN_CALL,
+];
+
+// How long a download link works
+export const ATTACHMENT_URL_TTL_SECONDS = 5 * 60;
+
+const MAX_FILE_NAME_LENGTH = 120;
+
+const FILE_EXTENSIONS: Record<AttachmentContentType, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "application/pdf": ".pdf",
+};
+
+export interface AttachmentUpload {
+  fileName: string;
+  contentType: string; // As declared by the browser
+  data: Buffer;
+}
+
+export interface PreparedAttachment {
+  fileName: string;
+  contentType: AttachmentContentType;
+  data: Buffer;
+}
+
+type Validated<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string; field: string };
+
+/**
+ * The file's type from its first bytes, if it is one that can be attached
+ */
+export function detectContentType(data: Buffer): AttachmentContentType | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "image/jpeg";
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (data.subarray(0, 5).toString("latin1") === "%PDF-") return "application/pdf";
+  return null;
+}
+
+/**
+ * The uploaded file name without any path, control or quote characters, with
+ * the extension matching its type
+ */
+export function cleanFileName(fileName: string, contentType: AttachmentContentType): string {
+  const extension = FILE_EXTENSIONS[contentType];
+  const base = (fileName.split(/[\\/]/).pop() ?? "")
+    .replace(/[\u0000-\u001f\u007f"]/g, "")
+    .replace(/\.[^.]*$/, "")
+    .trim()
+    .slice(0, MAX_FILE_NAME_LENGTH - extension.length);
+  return `${base || "attachment"}${extension}`;
+}
+
+/**
+ * Check an upload and get it ready to store: the type must match the file's
+ * contents, and images lose their metadata
+ */
+export function prepareAttachment(upload: AttachmentUpload): Validated<PreparedAttachment> {
+  if (upload.data.length === 0) {
+    return { error: "The file is empty", field: "file" };
+  }
+  if (upload.data.length > MAX_ATTACHMENT_BYTES) {
+    return { error: `Files can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`, field: "file" };
+  }
+
+  const contentType = detectContentType(upload.data);
+  if (!contentType) {
+    return { error: "Only JPEG and PNG images and PDF files can be attached", field: "file" };
+  }
+  if (upload.contentType !== contentType) {
+    return { error: `The file's contents do not match its type (${upload.contentType || "none"})`, field: "file" };
+  }
+
+  let data = upload.data;
+  if (contentType !== "application/pdf") {
+    try {
+      data = stripImageMetadata(upload.data, contentType);
+    } catch (error) {
+      if (error instanceof InvalidImageError) {
+        return { error: `The image could not be read: ${error.message}`, field: "file" };
+      }
+      throw error;
+    }
+  }
+
+  return { data: { fileName: cleanFileName(upload.fileName, contentType), contentType, data } };
+}
+
+/**
+ * Whether the user can see a consultation's attachments: the patient, the
+ * assigned doctor or an admin
+ */
+export function canViewAttachments(
+  consultation: { patientId: string; doctorId: string | null },
+  user: { id: string; role?: string | null }
+): boolean {
+  return consultation.patientId === user.id || consultation.doctorId === user.id || user.role === UserRole.ADMIN;
+}
+
+function signingSecret(): string {
+  const secret = process.env.ATTACHMENT_URL_SECRET || process.env.BETTER_AUTH_SECRET;
+  if (!secret) {
+    throw new Error("Missing ATTACHMENT_URL_SECRET");
+  }
+  return secret;
+}
+
+function signature(attachmentId: string, expires: number): string {
+  return createHmac("sha256", signingSecret())
+    .update(`intake-attachment:${attachmentId}:${expires}`)
+    .digest("base64url");
+}
+
+/**
+ * A download link for one attachment that expires after
+ * ATTACHMENT_URL_TTL_SECONDS
+ */
+export function signAttachmentUrl(attachmentId: string, now: number = Date.now()): { url: string; expiresAt: Date } {
+  const expires = Math.floor(now / 1000) + ATTACHMENT_URL_TTL_SECONDS;
+  const query = new URLSearchParams({ expires: String(expires), signature: signature(attachmentId, expires) });
+  return {
+    url: `/api/v1/attachments/${encodeURIComponent(attachmentId)}?${query}`,
+    expiresAt: new Date(expires * 1000),
+  };
+}
+
+/**
+ * Whether a download link's signature is valid and it has not expired
+ */
+export function verifyAttachmentUrl(
+  attachmentId: string,
+  expires: string | null,
+  providedSignature: string | null,
+  now: number = Date.now()
+): boolean {
+  if (!expires || !/^\d+$/.test(expires) || !providedSignature) return false;
+  const expiresAt = Number(expires);
+  if (expiresAt * 1000 <= now) return false;
+
+  const provided = Buffer.from(providedSignature);
+  const expected = Buffer.from(signature(attachmentId, expiresAt));
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * An attachment as returned by the API, with a fresh download link
+ */
+export function attachmentResponse(attachment: IntakeAttachment, now: number = Date.now()) {
+  const { url, expiresAt } = signAttachmentUrl(attachment.id, now);
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    contentType: attachment.contentType,
+    sizeBytes: attachment.sizeBytes,
+    createdAt: attachment.createdAt,
+    url,
+    urlExpiresAt: expiresAt,
+  };
+}
+
+/**
+ * The intake already has MAX_ATTACHMENTS_PER_INTAKE attachments
+ */
+export class AttachmentLimitError extends Error {
+  constructor() {
+    super(`An intake can have at most ${MAX_ATTACHMENTS_PER_INTAKE} attachments`);
+  }
+}
+
+/**
+ * Store a prepared file and record it on the intake. The intake's row is
+ * locked while its attachments are counted, so concurrent uploads cannot go
+ * over the limit. The file is removed again if it cannot be recorded.
+ *
+ * @throws AttachmentLimitError if the intake is full
+ */
+export async function saveIntakeAttachment(
+  intakeId: string,
+  attachment: PreparedAttachment
+): Promise<IntakeAttachment> {
+  const storage = getStorageBackend();
+  const storageKey = await storage.put(attachment.data, attachment.contentType);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "PatientIntake" WHERE id = ${intakeId} FOR UPDATE`;
+      if ((await tx.intakeAttachment.count({ where: { intakeId } })) >= MAX_ATTACHMENTS_PER_INTAKE) {
+        throw new AttachmentLimitError();
+      }
+
+      return tx.intakeAttachment.create({
+        data: {
+          intakeId,
+          fileName: attachment.fileName,
+          contentType: attachment.contentType,
+          sizeBytes: attachment.data.length,
+          storageBackend: storage.name,
+          storageKey,
+        },
+      });
+    });
+  } catch (error) {
+    await storage.delete(storageKey).catch((cleanupError) =>
+      console.error("Failed to remove unrecorded attachment:", cleanupError)
+    );
+    throw error;
+  }
+}
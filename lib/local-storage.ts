@@ -0,0 +1,61 @@
+/**
+ * Local disk storage backend
+ *
+ * Files are written to LOCAL_STORAGE_DIR (default `.storage` in the working
+ * directory), readable only by the server's user. Keys are random UUIDs, so
+ * nothing about the file or its owner shows in the path, and keys that are
+ * not UUIDs are refused rather than resolved against the directory.
+ *
+ * Files are not shared between servers: use a shared volume when running more
+ * than one instance.
+ */
+
+import { randomUUID } from "crypto";
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import path from "path";
+import type { StorageBackend } from "@/lib/storage";
+
+const KEY_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function storageDir(): string {
+  return path.resolve(process.env.LOCAL_STORAGE_DIR || ".storage");
+}
+
+function filePath(key: string): string {
+  if (!KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid local storage key: ${key}`);
+  }
+  return path.join(storageDir(), key);
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+export const localStorageBackend: StorageBackend = {
+  name: "LOCAL",
+
+  async put(data) {
+    const key = randomUUID();
+    await mkdir(storageDir(), { recursive: true, mode: 0o700 });
+    await writeFile(filePath(key), data, { mode: 0o600, flag: "wx" });
+    return key;
+  },
+
+  async get(key) {
+    try {
+      return await readFile(filePath(key));
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    try {
+      await unlink(filePath(key));
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  },
+};
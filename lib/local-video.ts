@@ -0,0 +1,108 @@
+/**
+ * Local video provider for development and tests
+ *
+ * Selected with VIDEO_PROVIDER=local. Rooms and tokens are issued without any
+ * network call and point at a placeholder call page (app/call/[roomName])
+ * that shows who joined, so the join and close flows run without Daily.
+ *
+ * Rooms and tokens live in memory and are lost when the server restarts.
+ */
+
+import { randomUUID } from "crypto";
+import type { VideoProvider } from "@/lib/video-provider";
+
+export interface LocalRoom {
+  name: string;
+  url: string;
+  expiresAt: Date;
+  deletedAt: Date | null;
+}
+
+export interface LocalMeetingToken {
+  token: string;
+  roomName: string;
+  userId: string;
+  isOwner: boolean;
+  expiresAt: Date;
+}
+
+// Kept on globalThis so rooms survive module reloads in `next dev`
+const store = globalThis as unknown as {
+  localVideoRooms?: Map<string, LocalRoom>;
+  localVideoTokens?: Map<string, LocalMeetingToken>;
+};
+const rooms = (store.localVideoRooms ??= new Map());
+const tokens = (store.localVideoTokens ??= new Map());
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+export const localVideoProvider: VideoProvider = {
+  name: "LOCAL",
+
+  async createRoom(roomName, expiryMinutes) {
+    if (rooms.has(roomName)) {
+      throw new Error(`Local room ${roomName} already exists`);
+    }
+
+    // Local setups often leave NEXT_PUBLIC_BASE_URL unset; the call page is
+    // then linked relative to the app
+    const path = `/call/${encodeURIComponent(roomName)}`;
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL;
+    const room: LocalRoom = {
+      name: roomName,
+      url: baseUrl ? new URL(path, baseUrl).toString() : path,
+      expiresAt: minutesFromNow(expiryMinutes),
+      deletedAt: null,
+    };
+    rooms.set(roomName, room);
+
+    return { name: room.name, url: room.url };
+  },
+
+  async createMeetingToken(roomName, userId, isOwner, expiryMinutes) {
+    const token = `local_${randomUUID()}`;
+    tokens.set(token, {
+      token,
+      roomName,
+      userId,
+      isOwner,
+      expiresAt: minutesFromNow(expiryMinutes),
+    });
+    return token;
+  },
+
+  async deleteRoom(roomName) {
+    const room = rooms.get(roomName);
+    if (room && !room.deletedAt) {
+      room.deletedAt = new Date();
+    }
+  },
+
+  buildJoinUrl(roomUrl, token) {
+    return `${roomUrl}?t=${encodeURIComponent(token)}`;
+  },
+};
+
+/**
+ * A local room that can still be joined: created, not deleted and not expired
+ */
+export function getLocalRoom(roomName: string): LocalRoom | null {
+  const room = rooms.get(roomName);
+  if (!room || room.deletedAt || room.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+  return room;
+}
+
+/**
+ * The participant a token was issued to, if it is valid for the room
+ */
+export function getLocalMeetingToken(roomName: string, token: string): LocalMeetingToken | null {
+  const issued = tokens.get(token);
+  if (!issued || issued.roomName !== roomName || issued.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+  return issued;
+}
@@ -0,0 +1,156 @@
+/**
+ * Payment providers
+ *
+ * Checkout, payment lookup, refunds and webhook verification go through a
+ * PaymentProvider so the rest of the app does not depend on Square directly.
+ * PAYMENT_PROVIDER selects the provider for new checkouts:
+ *
+ * - `square` (default): Square payment links (lib/square.ts)
+ * - `fake`: a local checkout page that sends signed webhooks, for offline
+ *   development (lib/fake-payments.ts). Not available in production.
+ *
+ * Existing payments keep using the provider recorded in `Payment.provider`.
+ *
+ * A Square location takes payments in a single currency, so checkouts in
+ * another currency use SQUARE_LOCATION_ID_<CURRENCY> (e.g.
+ * SQUARE_LOCATION_ID_GBP), falling back to SQUARE_LOCATION_ID.
+ *
+ * Providers report webhooks in Square's event format, so every provider's
+ * events are stored by the webhook inbox and handled by lib/square-webhooks.ts.
+ */
+
+import {
+  cancelSquarePaymentLink,
+  createSquarePaymentLink,
+  getSquareCheckoutStatus,
+  refundSquarePayment,
+  verifySquareSignature,
+} from "@/lib/square";
+import { fakePaymentProvider } from "@/lib/fake-payments";
+
+export type PaymentProviderName = "SQUARE" | "FAKE";
+
+/**
+ * A required setting for the provider is missing
+ */
+export class PaymentConfigurationError extends Error {}
+
+export interface CreateCheckoutParams {
+  consultationId: string;
+  name: string; // Line item shown on the checkout page
+  amount: number; // Smallest currency unit
+  currency: string;
+  discount?: CheckoutDiscount; // Taken off the order total
+  redirectUrl: string; // Where the patient lands after paying
+  idempotencyKey: string;
+}
+
+export interface CheckoutDiscount {
+  name: string; // Shown on the checkout page, e.g. the promo code
+  amount: number; // Smallest currency unit, same currency as the line item
+}
+
+export interface ProviderCheckout {
+  checkoutId: string; // Payment.providerCheckoutId
+  orderId: string | null; // Payment.providerOrderId
+  url: string; // Hosted checkout page
+}
+
+export interface ProviderCheckoutStatus {
+  orderState: string | null; // OPEN, COMPLETED or CANCELED
+  // The payment on the order once the patient started paying
+  // (status APPROVED, PENDING, COMPLETED, CANCELED or FAILED)
+  payment: { id: string; status: string } | null;
+}
+
+export interface RefundPaymentParams {
+  paymentId: string; // Payment.providerPaymentId
+  amount: number;
+  currency: string;
+  idempotencyKey: string;
+  reason?: string;
+}
+
+export interface ProviderRefund {
+  refundId: string;
+  status: string; // PENDING, COMPLETED, REJECTED or FAILED
+}
+
+export interface WebhookVerificationParams {
+  body: string; // Raw request body
+  signature: string; // x-square-hmacsha256-signature header
+  notificationUrl: string; // Webhook URL the event was sent to
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  /** False when settings needed to create checkouts in the currency are missing */
+  isCheckoutConfigured(currency: string): boolean;
+  createCheckout(params: CreateCheckoutParams): Promise<ProviderCheckout>;
+  getCheckoutStatus(orderId: string): Promise<ProviderCheckoutStatus>;
+  /** Stop the checkout from being paid; checkouts that are already gone are ignored */
+  cancelCheckout(checkoutId: string): Promise<void>;
+  refundPayment(params: RefundPaymentParams): Promise<ProviderRefund>;
+  /** @throws PaymentConfigurationError if the signature key is not set */
+  verifyWebhook(params: WebhookVerificationParams): boolean;
+}
+
+function squareLocationId(currency: string): string | undefined {
+  return process.env[`SQUARE_LOCATION_ID_${currency.toUpperCase()}`] || process.env.SQUARE_LOCATION_ID;
+}
+
+export const squarePaymentProvider: PaymentProvider = {
+  name: "SQUARE",
+
+  isCheckoutConfigured(currency) {
+    return !!squareLocationId(currency);
+  },
+
+  async createCheckout(params) {
+    const locationId = squareLocationId(params.currency);
+    if (!locationId) {
+      throw new PaymentConfigurationError(
+        `SQUARE_LOCATION_ID_${params.currency} or SQUARE_LOCATION_ID is not set`
+      );
+    }
+    return createSquarePaymentLink({ ...params, locationId });
+  },
+
+  getCheckoutStatus: (orderId) => getSquareCheckoutStatus(orderId),
+
+  cancelCheckout: (checkoutId) => cancelSquarePaymentLink(checkoutId),
+
+  refundPayment: (params) => refundSquarePayment(params),
+
+  verifyWebhook(params) {
+    const signatureKey = process.env.SQUARE_WEBHOOK_SIGNATURE_KEY;
+    if (!signatureKey) {
+      throw new PaymentConfigurationError("SQUARE_WEBHOOK_SIGNATURE_KEY is not set");
+    }
+    return verifySquareSignature({ ...params, signatureKey });
+  },
+};
+
+const PROVIDERS: Record<PaymentProviderName, PaymentProvider> = {
+  SQUARE: squarePaymentProvider,
+  FAKE: fakePaymentProvider,
+};
+
+/**
+ * The provider for new checkouts (PAYMENT_PROVIDER), or the one a payment was
+ * made with when `name` is given (Payment.provider).
+ *
+ * @throws PaymentConfigurationError for an unknown provider, or the fake
+ *   provider in production
+ */
+export function getPaymentProvider(name?: string | null): PaymentProvider {
+  const providerName = (name ?? process.env.PAYMENT_PROVIDER ?? "SQUARE").toUpperCase();
+  const provider = PROVIDERS[providerName as PaymentProviderName];
+  if (!provider) {
+    throw new PaymentConfigurationError(`Unknown payment provider: ${providerName}`);
+  }
+  if (provider === fakePaymentProvider && process.env.NODE_ENV === "production") {
+    throw new PaymentConfigurationError("The fake payment provider cannot be used in production");
+  }
+  return provider;
+}
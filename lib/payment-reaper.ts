@@ -0,0 +1,200 @@
+/**
+ * Stale payment reaper
+ *
+ * A patient who opens the checkout and walks away leaves the Payment
+ * PENDING and the consultation waiting for payment; only the 10-minute Redis
+ * slot lock expires. The reaper finds those checkouts, cancels them with the
+ * payment provider and asks it whether the patient paid after all. Unpaid
+ * checkouts fail the payment and return the consultation to CREATED (or
+ * EXPIRED once its slot has passed).
+ *
+ * Runs from scripts/reap-stale-payments.ts or GET /api/v1/cron/stale-payments.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { ConsultationStatus, PaymentStatus } from "@/app/generated/prisma/client";
+import { getPaymentProvider } from "@/lib/payment-provider";
+import { handlePaymentUpdated } from "@/lib/square-webhooks";
+import { releaseConsultationSlotLock } from "@/lib/refunds";
+import { isValidStatusTransition } from "@/lib/types";
+import {
+  applyConsultationTransition,
+  runConsultationTransitionHooks,
+  TransitionConflictError,
+  type ConsultationTransition,
+} from "@/lib/consultation-transitions";
+
+// Well past the 10-minute slot lock, so patients still on the checkout page are left alone
+export const STALE_PAYMENT_AFTER_MS = 30 * 60 * 1000;
+export const REAP_BATCH_SIZE = 50;
+
+// Provider payment states (Square's) that mean the patient is still paying
+const IN_FLIGHT_PAYMENT_STATUSES = ["APPROVED", "PENDING"];
+
+export type ReapOutcome =
+  | "RESET" // Payment failed, consultation (back) in CREATED and payable again
+  | "EXPIRED" // Payment failed, consultation EXPIRED because its slot has passed
+  | "PAYMENT_FAILED" // Payment failed, consultation left as is (e.g. already cancelled)
+  | "RECONCILED" // The provider took the payment; recorded as if the webhook had arrived
+  | "IN_PROGRESS" // The provider is still processing a payment; retried on the next run
+  | "SKIPPED" // The payment left PENDING while we were looking at it
+  | "ERROR";
+
+export interface ReapResult {
+  paymentId: string;
+  consultationId: string;
+  outcome: ReapOutcome;
+  error?: string;
+}
+
+export interface ReapSummary {
+  checked: number;
+  results: ReapResult[];
+}
+
+interface StalePayment {
+  id: string;
+  consultationId: string;
+  provider: string;
+  providerCheckoutId: string | null;
+  providerOrderId: string | null;
+  consultation: {
+    id: string;
+    status: ConsultationStatus;
+    doctorId: string | null;
+    scheduledStartAt: Date | null;
+  };
+}
+
+/**
+ * Reap PENDING payments created more than `staleAfterMs` before `now`.
+ * Each payment is handled on its own; one failure does not stop the batch.
+ *
+ * @param options.now - Current time (tests pass a fixed clock)
+ * @param options.staleAfterMs - Age at which a checkout counts as abandoned
+ * @param options.limit - Maximum payments per run
+ */
+export async function reapStalePayments(
+  options: { now?: Date; staleAfterMs?: number; limit?: number } = {}
+): Promise<ReapSummary> {
+  const now = options.now ?? new Date();
+  const cutoff = new Date(now.getTime() - (options.staleAfterMs ?? STALE_PAYMENT_AFTER_MS));
+
+  const payments: StalePayment[] = await prisma.payment.findMany({
+    where: { status: PaymentStatus.PENDING, createdAt: { lt: cutoff } },
+    orderBy: { createdAt: "asc" },
+    take: options.limit ?? REAP_BATCH_SIZE,
+    select: {
+      id: true,
+      consultationId: true,
+      provider: true,
+      providerCheckoutId: true,
+      providerOrderId: true,
+      consultation: {
+        select: { id: true, status: true, doctorId: true, scheduledStartAt: true },
+      },
+    },
+  });
+
+  const results: ReapResult[] = [];
+  for (const payment of payments) {
+    try {
+      const outcome = await reapPayment(payment, now);
+      results.push({ paymentId: payment.id, consultationId: payment.consultationId, outcome });
+    } catch (err) {
+      console.error(`Failed to reap payment ${payment.id}:`, err);
+      results.push({
+        paymentId: payment.id,
+        consultationId: payment.consultationId,
+        outcome: "ERROR",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return { checked: payments.length, results };
+}
+
+async function reapPayment(payment: StalePayment, now: Date): Promise<ReapOutcome> {
+  const provider = getPaymentProvider(payment.provider);
+
+  // Cancel the link first so the patient cannot start paying while we decide
+  if (payment.providerCheckoutId) {
+    await provider.cancelCheckout(payment.providerCheckoutId);
+  }
+
+  let orderState: string | null = null;
+  if (payment.providerOrderId) {
+    const checkout = await provider.getCheckoutStatus(payment.providerOrderId);
+    orderState = checkout.orderState;
+
+    if (checkout.payment?.status === "COMPLETED") {
+      // The payment.updated webhook never reached us
+      await handlePaymentUpdated({
+        id: checkout.payment.id,
+        order_id: payment.providerOrderId,
+        status: "COMPLETED",
+      });
+      return "RECONCILED";
+    }
+    if (checkout.payment && IN_FLIGHT_PAYMENT_STATUSES.includes(checkout.payment.status)) {
+      return "IN_PROGRESS";
+    }
+  }
+
+  const { consultation } = payment;
+  const slotPassed = !!consultation.scheduledStartAt && consultation.scheduledStartAt <= now;
+  const targetStatus = slotPassed ? ConsultationStatus.EXPIRED : ConsultationStatus.CREATED;
+  const moveConsultation = isValidStatusTransition(consultation.status, targetStatus, true);
+
+  const transition = await prisma.$transaction(async (tx) => {
+    // Guarded so a webhook settling the payment meanwhile wins
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: PaymentStatus.PENDING },
+      data: { status: PaymentStatus.FAILED },
+    });
+    if (count === 0) return null;
+
+    let moved: ConsultationTransition | undefined;
+    if (moveConsultation) {
+      try {
+        moved = await applyConsultationTransition(tx, consultation, targetStatus, {
+          metadata: { reason: "PAYMENT_EXPIRED" },
+          now,
+          system: true,
+        });
+      } catch (err) {
+        if (!(err instanceof TransitionConflictError)) throw err;
+      }
+    }
+
+    await tx.auditEvent.create({
+      data: {
+        consultationId: consultation.id,
+        eventType: "PAYMENT_EXPIRED",
+        eventMetadata: {
+          paymentId: payment.id,
+          providerCheckoutId: payment.providerCheckoutId,
+          providerOrderId: payment.providerOrderId,
+          orderState,
+        },
+      },
+    });
+
+    return { moved };
+  });
+
+  if (!transition) return "SKIPPED";
+
+  if (transition.moved) {
+    await runConsultationTransitionHooks(transition.moved);
+  } else {
+    await releaseConsultationSlotLock(consultation);
+  }
+
+  const consultationStatus = transition.moved?.to ?? consultation.status;
+  console.log(`Reaped stale payment ${payment.id} (consultation ${consultation.id})`);
+  if (consultationStatus === ConsultationStatus.EXPIRED) return "EXPIRED";
+  if (consultationStatus === ConsultationStatus.CREATED) return "RESET";
+  return "PAYMENT_FAILED";
+}
@@ -0,0 +1,176 @@
+/**
+ * Minimal PDF writer
+ *
+ * Lays out lines of text on A4 pages using the built-in Helvetica fonts, which
+ * every PDF reader has, so no font files are embedded. Good enough for
+ * receipts and prescriptions; anything with images or tables needs a real
+ * PDF library.
+ *
+ * Text is written in WinAnsiEncoding: Latin-1 characters and the euro sign
+ * print as-is, other characters print as "?".
+ */
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const VALUE_COLUMN_X = 380;
+
+export interface PdfLine {
+  text: string;
+  value?: string; // Printed in a second column, e.g. an amount
+  size?: number; // Font size in points (default 10)
+  bold?: boolean;
+  spaceBefore?: number; // Extra points above the line
+}
+
+// WinAnsiEncoding differs from Latin-1 in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "\u20ac": 0x80, // euro sign
+  "\u2018": 0x91, // quotes
+  "\u2019": 0x92,
+  "\u201c": 0x93,
+  "\u201d": 0x94,
+  "\u2022": 0x95, // bullet
+  "\u2013": 0x96, // dashes
+  "\u2014": 0x97,
+  "\u2009": 0x20, // thin and narrow no-break spaces, used by Intl number formatting
+  "\u202f": 0x20,
+};
+
+function encodeText(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const byte = WIN_ANSI_EXTRAS[char] ?? (code >= 0x20 && code <= 0xff && (code < 0x7f || code >= 0xa0) ? code : 0x3f);
+    // Parentheses and backslashes delimit PDF strings
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      bytes.push(0x5c);
+    }
+    bytes.push(byte);
+  }
+  return bytes;
+}
+
+function textOperator(text: string, x: number, y: number, font: string, size: number): number[] {
+  return [
+    ...Buffer.from(`BT /${font} ${size} Tf ${x} ${y} Td (`, "latin1"),
+    ...encodeText(text),
+    ...Buffer.from(") Tj ET\n", "latin1"),
+  ];
+}
+
+/**
+ * Split lines into pages and build each page's content stream
+ */
+function layoutPages(lines: PdfLine[]): Buffer[] {
+  const pages: number[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? 10;
+    const height = size * 1.4 + (line.spaceBefore ?? 0);
+    if (y - height < MARGIN) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= height;
+
+    const font = line.bold ? "F2" : "F1";
+    const page = pages[pages.length - 1];
+    page.push(...textOperator(line.text, MARGIN, y, font, size));
+    if (line.value !== undefined) {
+      page.push(...textOperator(line.value, VALUE_COLUMN_X, y, font, size));
+    }
+  }
+
+  return pages.map((page) => Buffer.from(page));
+}
+
+/**
+ * Render lines of text to a PDF document
+ */
+export function renderTextPdf(lines: PdfLine[], title?: string): Buffer {
+  const contents = layoutPages(lines);
+
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and
+  // its content stream for every page
+  const pageIds = contents.map((_, i) => 6 + i * 2);
+  const objects: Buffer[] = [
+    Buffer.from("<< /Type /Catalog /Pages 2 0 R >>", "latin1"),
+    Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+      "latin1"
+    ),
+    Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>", "latin1"),
+    Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>", "latin1"),
+    Buffer.concat([
+      Buffer.from("<< /Producer (Health on the Go)", "latin1"),
+      title ? Buffer.from([...Buffer.from(" /Title (", "latin1"), ...encodeText(title), 0x29]) : Buffer.alloc(0),
+      Buffer.from(" >>", "latin1"),
+    ]),
+  ];
+  contents.forEach((content, i) => {
+    objects.push(
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+        "latin1"
+      ),
+      Buffer.concat([
+        Buffer.from(`<< /Length ${content.length} >>\nstream\n`, "latin1"),
+        content,
+        Buffer.from("\nendstream", "latin1"),
+      ])
+    );
+  });
+
+  // Body, then a cross-reference table with each object's byte offset
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(offset);
+    const chunk = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+      object,
+      Buffer.from("\nendobj\n", "latin1"),
+    ]);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((o) => `${o.toString().padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    "startxref",
+    `${offset}`,
+    "%%EOF",
+  ].join("\n");
+  chunks.push(Buffer.from(xref + "\n", "latin1"));
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Break text into lines of at most maxChars characters at spaces, for
+ * paragraphs that would run off the page (about 90 characters at 10 points)
+ */
+export function wrapText(text: string, maxChars: number = 90): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + 1 + word.length > maxChars) {
+        lines.push(line);
+        line = "";
+      }
+      line = line ? `${line} ${word}` : word;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
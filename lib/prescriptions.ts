@@ -0,0 +1,396 @@
+/**
+ * Prescriptions
+ *
+ * Doctors prescribe from the formulary (lib/formulary.ts) during or after a
+ * consultation. A prescription starts as a DRAFT its prescriber can edit;
+ * every save checks the medications against each other, against the patient's
+ * current medications (signed prescriptions from the last 90 days) and against
+ * the allergies the doctor recorded, and stores the warnings. Signing re-runs
+ * the check, requires major warnings to be acknowledged, and records a SHA-256
+ * hash of the signed content that is printed on the patient's PDF.
+ *
+ * Routes live under /api/v1/consultations/:id/prescriptions.
+ */
+
+import { createHash } from "crypto";
+import { prisma } from "@/lib/prisma";
+import {
+  ConsultationStatus,
+  PrescriptionStatus,
+  type Prisma,
+} from "@/app/generated/prisma/client";
+import { formatDoctorName } from "@/lib/api-utils";
+import { DEFAULT_LOCALE } from "@/lib/currency";
+import { getSpecialty } from "@/lib/specialties";
+import { renderTextPdf, wrapText, type PdfLine } from "@/lib/pdf";
+import {
+  findAllergyConflicts,
+  findInteractions,
+  getFormularyDrug,
+  type FormularyDrug,
+  type InteractionSeverity,
+} from "@/lib/formulary";
+
+// Consultations a prescription can be written for: during the call and afterwards
+export const PRESCRIPTION_CONSULTATION_STATUSES: ConsultationStatus[] = [
+  ConsultationStatus.IN_CALL,
+  ConsultationStatus.COMPLETED,
+];
+
+// Dosing frequencies, by the abbreviation stored on the item
+export const FREQUENCIES: Record<string, string> = {
+  QD: "once daily",
+  BID: "twice daily",
+  TID: "three times daily",
+  QID: "four times daily",
+  Q4H: "every 4 hours",
+  Q6H: "every 6 hours",
+  Q8H: "every 8 hours",
+  Q12H: "every 12 hours",
+  QHS: "at bedtime",
+  QW: "once weekly",
+  PRN: "as needed",
+  ONCE: "once",
+};
+
+export const MAX_PRESCRIPTION_ITEMS = 10;
+export const MAX_QUANTITY = 1000;
+export const MAX_REFILLS = 11;
+export const MAX_DOSE_LENGTH = 100;
+export const MAX_INSTRUCTIONS_LENGTH = 500;
+export const MAX_ALLERGIES = 20;
+
+// Signed prescriptions this recent count as the patient's current medications
+export const CURRENT_MEDICATION_DAYS = 90;
+
+export const prescriptionInclude = {
+  items: { orderBy: { id: "asc" } },
+  prescriber: { select: { id: true, name: true } },
+} satisfies Prisma.PrescriptionInclude;
+
+const prescriptionPdfInclude = {
+  items: { orderBy: { id: "asc" } },
+  prescriber: { select: { name: true, doctorProfile: { select: { licenseId: true } } } },
+  patient: { select: { name: true, email: true } },
+  consultation: { select: { doctorId: true, specialty: true, scheduledStartAt: true } },
+} satisfies Prisma.PrescriptionInclude;
+
+export type PrescriptionForPdf = Prisma.PrescriptionGetPayload<{ include: typeof prescriptionPdfInclude }>;
+
+export interface PrescriptionItemInput {
+  drugId: string;
+  drugName: string;
+  strength: string;
+  form: string;
+  dose: string;
+  route: string;
+  frequency: string;
+  quantity: number;
+  refills: number;
+  instructions: string | null;
+}
+
+export interface PrescriptionInput {
+  items?: PrescriptionItemInput[];
+  allergies?: string[];
+}
+
+// A type rather than an interface so warnings can be stored as JSON
+export type PrescriptionWarning = {
+  type: "INTERACTION" | "ALLERGY";
+  severity: InteractionSeverity;
+  drugs: string[];
+  message: string;
+};
+
+type Validated<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string; field: string };
+
+function isInteger(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+}
+
+function validateItem(input: unknown, index: number): Validated<PrescriptionItemInput> {
+  const field = `items[${index}]`;
+  if (!input || typeof input !== "object") {
+    return { error: `${field} must be an object`, field };
+  }
+  const item = input as Record<string, unknown>;
+
+  const drug = typeof item.drugId === "string" ? getFormularyDrug(item.drugId) : null;
+  if (!drug) {
+    return { error: `${field}.drugId is not in the formulary`, field: `${field}.drugId` };
+  }
+
+  const dose = typeof item.dose === "string" ? item.dose.trim() : "";
+  if (!dose || dose.length > MAX_DOSE_LENGTH) {
+    return { error: `${field}.dose is required (at most ${MAX_DOSE_LENGTH} characters)`, field: `${field}.dose` };
+  }
+
+  const route = item.route ?? drug.routes[0];
+  if (typeof route !== "string" || !drug.routes.includes(route)) {
+    return {
+      error: `${field}.route must be one of: ${drug.routes.join(", ")}`,
+      field: `${field}.route`,
+    };
+  }
+
+  if (typeof item.frequency !== "string" || !(item.frequency in FREQUENCIES)) {
+    return {
+      error: `${field}.frequency must be one of: ${Object.keys(FREQUENCIES).join(", ")}`,
+      field: `${field}.frequency`,
+    };
+  }
+
+  if (!isInteger(item.quantity, 1, MAX_QUANTITY)) {
+    return { error: `${field}.quantity must be an integer between 1 and ${MAX_QUANTITY}`, field: `${field}.quantity` };
+  }
+
+  const refills = item.refills ?? 0;
+  if (!isInteger(refills, 0, MAX_REFILLS)) {
+    return { error: `${field}.refills must be an integer between 0 and ${MAX_REFILLS}`, field: `${field}.refills` };
+  }
+
+  if (
+    item.instructions != null &&
+    (typeof item.instructions !== "string" || item.instructions.length > MAX_INSTRUCTIONS_LENGTH)
+  ) {
+    return {
+      error: `${field}.instructions must be at most ${MAX_INSTRUCTIONS_LENGTH} characters`,
+      field: `${field}.instructions`,
+    };
+  }
+
+  return {
+    data: {
+      drugId: drug.id,
+      drugName: drug.name,
+      strength: drug.strength,
+      form: drug.form,
+      dose,
+      route,
+      frequency: item.frequency,
+      quantity: item.quantity,
+      refills,
+      instructions: (item.instructions as string | null | undefined)?.trim() || null,
+    },
+  };
+}
+
+/**
+ * Validate a new prescription (items required) or a draft update. Drug
+ * details are filled in from the formulary.
+ */
+export function validatePrescriptionInput(
+  input: Record<string, unknown>,
+  options: { partial: boolean }
+): Validated<PrescriptionInput> {
+  const data: PrescriptionInput = {};
+
+  if (input.items !== undefined || !options.partial) {
+    if (!Array.isArray(input.items) || input.items.length === 0 || input.items.length > MAX_PRESCRIPTION_ITEMS) {
+      return { error: `items must list 1-${MAX_PRESCRIPTION_ITEMS} medications`, field: "items" };
+    }
+    const items: PrescriptionItemInput[] = [];
+    for (const [index, raw] of input.items.entries()) {
+      const item = validateItem(raw, index);
+      if (!item.data) return item;
+      if (items.some((other) => other.drugId === item.data.drugId)) {
+        return { error: `${item.data.drugName} is listed more than once`, field: `items[${index}].drugId` };
+      }
+      items.push(item.data);
+    }
+    data.items = items;
+  }
+
+  if (input.allergies !== undefined) {
+    if (
+      !Array.isArray(input.allergies) ||
+      !input.allergies.every((a): a is string => typeof a === "string") ||
+      input.allergies.length > MAX_ALLERGIES
+    ) {
+      return { error: `allergies must be an array of at most ${MAX_ALLERGIES} strings`, field: "allergies" };
+    }
+    data.allergies = [...new Set(input.allergies.map((a) => a.trim()).filter(Boolean))];
+  }
+
+  return { data };
+}
+
+/**
+ * Formulary drugs on the patient's signed prescriptions from the last
+ * CURRENT_MEDICATION_DAYS days, other than the one being checked
+ */
+export async function getCurrentMedications(
+  patientId: string,
+  excludePrescriptionId?: string,
+  now: Date = new Date()
+): Promise<FormularyDrug[]> {
+  const since = new Date(now.getTime() - CURRENT_MEDICATION_DAYS * 24 * 60 * 60 * 1000);
+  const items = await prisma.prescriptionItem.findMany({
+    where: {
+      prescription: {
+        patientId,
+        status: PrescriptionStatus.SIGNED,
+        signedAt: { gte: since },
+        ...(excludePrescriptionId ? { id: { not: excludePrescriptionId } } : {}),
+      },
+    },
+    select: { drugId: true },
+  });
+  return items.map((item) => getFormularyDrug(item.drugId)).filter((drug): drug is FormularyDrug => drug !== null);
+}
+
+/**
+ * Interaction and allergy warnings for a prescription's items, major first
+ */
+export async function checkPrescription(
+  items: Pick<PrescriptionItemInput, "drugId">[],
+  allergies: string[],
+  patientId: string,
+  prescriptionId?: string
+): Promise<PrescriptionWarning[]> {
+  const prescribed = items
+    .map((item) => getFormularyDrug(item.drugId))
+    .filter((drug): drug is FormularyDrug => drug !== null);
+  const current = await getCurrentMedications(patientId, prescriptionId);
+
+  const warnings: PrescriptionWarning[] = [
+    ...findAllergyConflicts(prescribed, allergies).map(({ drug, allergy }) => ({
+      type: "ALLERGY" as const,
+      severity: "MAJOR" as const,
+      drugs: [drug],
+      message: `Patient is allergic to ${allergy}`,
+    })),
+    ...findInteractions(prescribed, current).map(({ drugs, severity, description }) => ({
+      type: "INTERACTION" as const,
+      severity,
+      drugs,
+      message: `${drugs[0]} + ${drugs[1]}: ${description}`,
+    })),
+  ];
+  return warnings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "MAJOR" ? -1 : 1));
+}
+
+export function hasMajorWarnings(warnings: PrescriptionWarning[]): boolean {
+  return warnings.some((warning) => warning.severity === "MAJOR");
+}
+
+/**
+ * SHA-256 of what was signed: who prescribed what for whom, and when
+ */
+export function prescriptionSignatureHash(prescription: {
+  id: string;
+  consultationId: string;
+  patientId: string;
+  prescriberId: string;
+  allergies: string[];
+  items: PrescriptionItemInput[];
+  signedAt: Date;
+}): string {
+  const content = {
+    id: prescription.id,
+    consultationId: prescription.consultationId,
+    patientId: prescription.patientId,
+    prescriberId: prescription.prescriberId,
+    signedAt: prescription.signedAt.toISOString(),
+    allergies: prescription.allergies,
+    items: [...prescription.items]
+      .sort((a, b) => a.drugId.localeCompare(b.drugId))
+      .map((item) => [
+        item.drugId,
+        item.drugName,
+        item.strength,
+        item.form,
+        item.dose,
+        item.route,
+        item.frequency,
+        item.quantity,
+        item.refills,
+        item.instructions,
+      ]),
+  };
+  return createHash("sha256").update(JSON.stringify(content)).digest("hex");
+}
+
+/**
+ * A prescription with everything its PDF shows, or null if it is not part of
+ * the consultation
+ */
+export async function getPrescriptionForPdf(
+  prescriptionId: string,
+  consultationId: string
+): Promise<PrescriptionForPdf | null> {
+  return prisma.prescription.findFirst({
+    where: { id: prescriptionId, consultationId },
+    include: prescriptionPdfInclude,
+  });
+}
+
+/**
+ * Render a signed prescription
+ *
+ * @param locale - Formats dates, e.g. from the Accept-Language header
+ */
+export async function buildPrescriptionPdf(
+  prescription: PrescriptionForPdf,
+  locale: string = DEFAULT_LOCALE
+): Promise<Buffer> {
+  const date = (value: Date) =>
+    new Intl.DateTimeFormat(locale, { dateStyle: "long", timeStyle: "short", timeZone: "UTC" }).format(value) +
+    " UTC";
+  const signedAt = prescription.signedAt ?? prescription.updatedAt;
+  const prescriber = formatDoctorName(prescription.prescriber.name);
+  const specialty = await getSpecialty(prescription.consultation.specialty);
+
+  const lines: PdfLine[] = [
+    { text: "Prescription", size: 18, bold: true },
+    { text: "Prescription ID", value: prescription.id, spaceBefore: 8 },
+    { text: "Date issued", value: date(signedAt) },
+    {
+      text: "Consultation",
+      value: `${specialty?.label ?? prescription.consultation.specialty}${
+        prescription.consultation.scheduledStartAt
+          ? `, ${new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeZone: "UTC" }).format(
+              prescription.consultation.scheduledStartAt
+            )}`
+          : ""
+      }`,
+    },
+
+    { text: "Prescriber", bold: true, spaceBefore: 12 },
+    { text: prescriber },
+  ];
+  if (prescription.prescriber.doctorProfile?.licenseId) {
+    lines.push({ text: `License: ${prescription.prescriber.doctorProfile.licenseId}` });
+  }
+
+  lines.push(
+    { text: "Patient", bold: true, spaceBefore: 12 },
+    ...[prescription.patient.name, prescription.patient.email].filter(Boolean).map((text) => ({ text })),
+    {
+      text: `Known allergies: ${prescription.allergies.length > 0 ? prescription.allergies.join(", ") : "None recorded"}`,
+    },
+
+    { text: "Medications", bold: true, spaceBefore: 12 }
+  );
+  prescription.items.forEach((item, i) => {
+    lines.push(
+      { text: `${i + 1}. ${item.drugName} ${item.strength} ${item.form}`, bold: true, spaceBefore: 6 },
+      { text: `Sig: ${item.dose} ${item.route} ${FREQUENCIES[item.frequency] ?? item.frequency}` },
+      { text: "Dispense", value: String(item.quantity) },
+      { text: "Refills", value: String(item.refills) }
+    );
+    if (item.instructions) {
+      lines.push(...wrapText(item.instructions).map((text) => ({ text })));
+    }
+  });
+
+  lines.push(
+    { text: `Electronically signed by ${prescriber} on ${date(signedAt)}`, spaceBefore: 24 },
+    { text: `Verification: ${prescription.signatureHash ?? "unsigned"}`, size: 8 }
+  );
+
+  return renderTextPdf(lines, `Prescription ${prescription.id}`);
+}
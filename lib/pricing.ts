@@ -0,0 +1,157 @@
+/**
+ * Consultation pricing
+ *
+ * A consultation costs its specialty's catalog price (Specialty.price) unless
+ * the doctor has set their own fee for that specialty (DoctorSpecialtyPrice).
+ * Patients book in a currency: catalog prices and doctor fees can be set per
+ * currency (SpecialtyPrice), and the default price applies when there is none
+ * in the patient's currency. A doctor's fee in another currency still wins
+ * over a catalog price in the patient's currency. The resolved price is snapshotted onto the
+ * Consultation at booking time, so later catalog or fee changes never change
+ * what a booked patient pays.
+ */
+
+import { getSpecialty } from "@/lib/specialties";
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, isSupportedCurrency } from "@/lib/currency";
+
+export interface ConsultationPrice {
+  price: number; // Smallest currency unit (cents)
+  currency: string;
+}
+
+/**
+ * Specialty fields that set the default price (a Specialty row)
+ */
+export interface SpecialtyPriceSettings {
+  id: string;
+  price: number;
+  currency: string;
+  prices?: { currency: string; price: number }[] | null;
+}
+
+/**
+ * Doctor profile fields that influence the price
+ */
+export interface DoctorPriceSettings {
+  specialtyPrices?: { specialty: string; price: number; currency: string }[] | null;
+}
+
+/**
+ * Resolve the price of a consultation, applying the doctor's fee for the
+ * specialty when they have one.
+ *
+ * A doctor who set a fee for the specialty is always paid their own fee: the
+ * one in the requested currency, else the one in the specialty's default
+ * currency, else their only fee. The catalog applies only to doctors without
+ * a fee: its price in the requested currency, else the default price.
+ */
+export function resolveConsultationPrice(
+  specialty: SpecialtyPriceSettings,
+  doctorProfile?: DoctorPriceSettings | null,
+  currency?: string | null
+): ConsultationPrice {
+  const fees = doctorProfile?.specialtyPrices?.filter((p) => p.specialty === specialty.id) ?? [];
+
+  const fee =
+    fees.find((p) => p.currency === currency) ??
+    fees.find((p) => p.currency === specialty.currency) ??
+    fees[0];
+  if (fee) return { price: fee.price, currency: fee.currency };
+
+  if (currency) {
+    const catalogPrice =
+      specialty.currency === currency
+        ? specialty
+        : specialty.prices?.find((p) => p.currency === currency);
+    if (catalogPrice) return { price: catalogPrice.price, currency };
+  }
+
+  return { price: specialty.price, currency: specialty.currency };
+}
+
+/**
+ * Consultation-like object carrying a price snapshot
+ */
+export interface ConsultationForPrice {
+  specialty: string;
+  price?: number | null;
+  currency?: string | null;
+}
+
+/**
+ * The price a consultation is charged: its snapshot, or for consultations
+ * booked before prices were snapshotted, the current catalog price.
+ * Returns null when neither is known.
+ */
+export async function getConsultationPrice(
+  consultation: ConsultationForPrice
+): Promise<ConsultationPrice | null> {
+  if (consultation.price != null && consultation.currency) {
+    return { price: consultation.price, currency: consultation.currency };
+  }
+
+  const specialty = await getSpecialty(consultation.specialty);
+  return specialty ? { price: specialty.price, currency: specialty.currency } : null;
+}
+
+export interface SpecialtyPriceInput {
+  specialty: string;
+  price: number;
+  currency: string;
+}
+
+/**
+ * Validate a client-supplied list of per-specialty fees.
+ *
+ * Rules:
+ * - specialty must be one of the doctor's specialties, listed at most once per currency
+ * - price must be a positive integer in the smallest currency unit
+ * - currency, when given, must be a supported currency (any case); it defaults
+ *   to the specialty's catalog currency
+ *
+ * @returns The normalized fees, or an error message with the offending index
+ */
+export async function validateSpecialtyPrices(
+  input: unknown,
+  allowedSpecialties: string[]
+): Promise<
+  | { prices: SpecialtyPriceInput[]; error?: undefined }
+  | { prices?: undefined; error: string; index?: number }
+> {
+  if (!Array.isArray(input)) {
+    return { error: "specialtyPrices must be an array" };
+  }
+
+  const prices: SpecialtyPriceInput[] = [];
+
+  for (let index = 0; index < input.length; index++) {
+    const raw = input[index] as { specialty?: unknown; price?: unknown; currency?: unknown } | null;
+
+    if (typeof raw?.specialty !== "string" || !allowedSpecialties.includes(raw.specialty)) {
+      return { error: "specialty must be one of the doctor's specialties", index };
+    }
+    if (typeof raw.price !== "number" || !Number.isInteger(raw.price) || raw.price <= 0) {
+      return {
+        error: "price must be a positive integer in the smallest currency unit (e.g. cents)",
+        index,
+      };
+    }
+    let currency = raw.currency;
+    if (currency === undefined) {
+      currency = (await getSpecialty(raw.specialty))?.currency ?? DEFAULT_CURRENCY;
+    } else if (typeof currency === "string") {
+      currency = currency.trim().toUpperCase();
+    }
+    if (!isSupportedCurrency(currency)) {
+      return { error: `currency must be one of: ${SUPPORTED_CURRENCIES.join(", ")}`, index };
+    }
+    // Compared once normalized, so "usd" and an omitted default of USD clash too
+    if (prices.some((p) => p.specialty === raw.specialty && p.currency === currency)) {
+      return { error: "Each specialty can only be listed once per currency", index };
+    }
+
+    prices.push({ specialty: raw.specialty, price: raw.price, currency });
+  }
+
+  return { prices };
+}
@@ -0,0 +1,303 @@
+/**
+ * Promo codes
+ *
+ * Percentage or fixed-amount discounts patients can enter at checkout. A code
+ * can be limited to a date range, a number of redemptions overall and per
+ * patient, and to some specialties. Every payment that did not fail counts as
+ * a redemption, so a pending checkout holds its redemption until the payment
+ * reaper or the webhook marks it failed. The caps are checked again, with the
+ * code's row locked, in the transaction that creates the payment (see
+ * reservePromoRedemption), so concurrent checkouts cannot both take the last
+ * redemption. Admins manage codes through
+ * /api/v1/admin/promo-codes; lib/checkout.ts applies them.
+ */
+
+import { prisma } from "@/lib/prisma";
+import {
+  PaymentStatus,
+  PromoDiscountType,
+  type PromoCode,
+  type Prisma,
+} from "@/app/generated/prisma/client";
+import type { ConsultationPrice } from "@/lib/pricing";
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, isSupportedCurrency } from "@/lib/currency";
+
+// Codes are stored upper-case, e.g. "WELCOME10" or "SPRING-2026"
+export const PROMO_CODE_PATTERN = /^[A-Z0-9][A-Z0-9_-]{2,31}$/;
+
+export const MAX_PROMO_DESCRIPTION_LENGTH = 200;
+
+export interface PromoDiscount {
+  promoCode: PromoCode;
+  discountAmount: number; // Smallest currency unit
+}
+
+/**
+ * Codes are case-insensitive for patients
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * The discount a code gives on a price, never more than the price itself.
+ * Percentages are rounded to the nearest unit.
+ */
+export function computeDiscount(promoCode: PromoCode, price: ConsultationPrice): number {
+  const discount =
+    promoCode.discountType === PromoDiscountType.PERCENTAGE
+      ? Math.round((price.price * (promoCode.percentOff ?? 0)) / 100)
+      : promoCode.amountOff ?? 0;
+  return Math.min(discount, price.price);
+}
+
+/**
+ * Redemptions of a code so far, optionally by one patient
+ */
+export async function countRedemptions(
+  promoCodeId: string,
+  patientId?: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<number> {
+  return db.payment.count({
+    where: {
+      promoCodeId,
+      status: { not: PaymentStatus.FAILED },
+      ...(patientId ? { consultation: { patientId } } : {}),
+    },
+  });
+}
+
+/**
+ * Check a code a patient entered against a consultation and work out the
+ * discount.
+ *
+ * @returns The code and discount, or the reason it cannot be used
+ */
+export async function applyPromoCode(
+  code: string,
+  context: { patientId: string; specialty: string; price: ConsultationPrice },
+  now: Date = new Date()
+): Promise<PromoDiscount | { error: string }> {
+  const promoCode = await prisma.promoCode.findUnique({
+    where: { code: normalizePromoCode(code) },
+  });
+
+  if (!promoCode || !promoCode.active) {
+    return { error: "Promo code not found" };
+  }
+  if (promoCode.startsAt && promoCode.startsAt > now) {
+    return { error: "This promo code is not valid yet" };
+  }
+  if (promoCode.expiresAt && promoCode.expiresAt <= now) {
+    return { error: "This promo code has expired" };
+  }
+  if (promoCode.specialties.length > 0 && !promoCode.specialties.includes(context.specialty)) {
+    return { error: "This promo code does not apply to this specialty" };
+  }
+  if (
+    promoCode.discountType === PromoDiscountType.FIXED_AMOUNT &&
+    promoCode.currency !== context.price.currency
+  ) {
+    return { error: `This promo code cannot be used for payments in ${context.price.currency}` };
+  }
+
+  const discountAmount = computeDiscount(promoCode, context.price);
+  // Checkouts cannot be created for nothing; free visits are not a promotion
+  if (discountAmount >= context.price.price) {
+    return { error: "This promo code cannot cover the full price" };
+  }
+
+  const limitError = await redemptionLimitError(promoCode, context.patientId);
+  if (limitError) {
+    return { error: limitError };
+  }
+
+  return { promoCode, discountAmount };
+}
+
+/**
+ * Why the code's redemption caps stop `patientId` from using it, or null
+ */
+async function redemptionLimitError(
+  promoCode: PromoCode,
+  patientId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<string | null> {
+  if (promoCode.maxRedemptions != null) {
+    if ((await countRedemptions(promoCode.id, undefined, db)) >= promoCode.maxRedemptions) {
+      return "This promo code has been fully redeemed";
+    }
+  }
+  if (promoCode.maxRedemptionsPerPatient != null) {
+    if ((await countRedemptions(promoCode.id, patientId, db)) >= promoCode.maxRedemptionsPerPatient) {
+      return "You have already used this promo code";
+    }
+  }
+  return null;
+}
+
+/**
+ * Check the redemption caps again inside the transaction that creates the
+ * payment redeeming the code. The code's row stays locked until that
+ * transaction ends, so a concurrent checkout waits and then counts this
+ * redemption.
+ *
+ * @returns Why the code can no longer be used, or null
+ */
+export async function reservePromoRedemption(
+  tx: Prisma.TransactionClient,
+  promoCode: PromoCode,
+  patientId: string
+): Promise<string | null> {
+  if (promoCode.maxRedemptions == null && promoCode.maxRedemptionsPerPatient == null) {
+    return null;
+  }
+  await tx.$queryRaw`SELECT id FROM "PromoCode" WHERE id = ${promoCode.id} FOR UPDATE`;
+  return redemptionLimitError(promoCode, patientId, tx);
+}
+
+export interface PromoCodeInput {
+  code?: string;
+  description?: string | null;
+  discountType?: PromoDiscountType;
+  percentOff?: number | null;
+  amountOff?: number | null;
+  currency?: string | null;
+  startsAt?: Date | null;
+  expiresAt?: Date | null;
+  maxRedemptions?: number | null;
+  maxRedemptionsPerPatient?: number | null;
+  specialties?: string[];
+  active?: boolean;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+function parseOptionalDate(value: unknown): Date | null | undefined {
+  if (value === null) return null;
+  if (typeof value !== "string") return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Validate an admin create (code, discountType and its amount required) or
+ * update of a promo code. The code and discount cannot change once created,
+ * so patients are never charged differently for a code they were given.
+ *
+ * @param existing - The code being updated, to check the date range against
+ * @returns The normalized fields, or an error message with the offending field
+ */
+export function validatePromoCodeInput(
+  input: Record<string, unknown>,
+  options: { partial: boolean; existing?: Pick<PromoCode, "startsAt" | "expiresAt"> }
+):
+  | { data: PromoCodeInput; error?: undefined }
+  | { data?: undefined; error: string; field: string } {
+  const data: PromoCodeInput = {};
+
+  if (!options.partial) {
+    const code = typeof input.code === "string" ? normalizePromoCode(input.code) : "";
+    if (!PROMO_CODE_PATTERN.test(code)) {
+      return {
+        error: "code must be 3-32 letters, digits, dashes or underscores, starting with a letter or digit",
+        field: "code",
+      };
+    }
+    data.code = code;
+
+    if (input.discountType === PromoDiscountType.PERCENTAGE) {
+      const percentOff = input.percentOff;
+      // Not 100: checkouts cannot be created for nothing (see applyPromoCode)
+      if (!isPositiveInteger(percentOff) || percentOff > 99) {
+        return { error: "percentOff must be an integer between 1 and 99", field: "percentOff" };
+      }
+      data.percentOff = percentOff;
+    } else if (input.discountType === PromoDiscountType.FIXED_AMOUNT) {
+      if (!isPositiveInteger(input.amountOff)) {
+        return {
+          error: "amountOff must be a positive integer in the smallest currency unit (e.g. cents)",
+          field: "amountOff",
+        };
+      }
+      const currency = input.currency ?? DEFAULT_CURRENCY;
+      if (!isSupportedCurrency(currency)) {
+        return { error: `currency must be one of: ${SUPPORTED_CURRENCIES.join(", ")}`, field: "currency" };
+      }
+      data.amountOff = input.amountOff;
+      data.currency = currency;
+    } else {
+      return {
+        error: `discountType must be one of: ${Object.values(PromoDiscountType).join(", ")}`,
+        field: "discountType",
+      };
+    }
+    data.discountType = input.discountType;
+  } else {
+    for (const field of ["code", "discountType", "percentOff", "amountOff", "currency"]) {
+      if (input[field] !== undefined) {
+        return { error: `${field} cannot be changed`, field };
+      }
+    }
+  }
+
+  if (input.description !== undefined) {
+    if (
+      input.description !== null &&
+      (typeof input.description !== "string" || input.description.length > MAX_PROMO_DESCRIPTION_LENGTH)
+    ) {
+      return {
+        error: `description must be at most ${MAX_PROMO_DESCRIPTION_LENGTH} characters`,
+        field: "description",
+      };
+    }
+    data.description = input.description?.trim() || null;
+  }
+
+  for (const field of ["startsAt", "expiresAt"] as const) {
+    if (input[field] !== undefined) {
+      const date = parseOptionalDate(input[field]);
+      if (date === undefined) {
+        return { error: `${field} must be an ISO 8601 date or null`, field };
+      }
+      data[field] = date;
+    }
+  }
+  const startsAt = data.startsAt !== undefined ? data.startsAt : options.existing?.startsAt;
+  const expiresAt = data.expiresAt !== undefined ? data.expiresAt : options.existing?.expiresAt;
+  if (startsAt && expiresAt && expiresAt <= startsAt) {
+    return { error: "expiresAt must be after startsAt", field: "expiresAt" };
+  }
+
+  for (const field of ["maxRedemptions", "maxRedemptionsPerPatient"] as const) {
+    const value = input[field];
+    if (value !== undefined) {
+      if (value !== null && !isPositiveInteger(value)) {
+        return { error: `${field} must be a positive integer or null`, field };
+      }
+      data[field] = value;
+    }
+  }
+
+  if (input.specialties !== undefined) {
+    if (
+      !Array.isArray(input.specialties) ||
+      !input.specialties.every((s): s is string => typeof s === "string")
+    ) {
+      return { error: "specialties must be an array of specialty codes", field: "specialties" };
+    }
+    data.specialties = [...new Set(input.specialties)];
+  }
+
+  if (input.active !== undefined) {
+    if (typeof input.active !== "boolean") {
+      return { error: "active must be a boolean", field: "active" };
+    }
+    data.active = input.active;
+  }
+
+  return { data };
+}
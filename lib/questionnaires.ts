@@ -0,0 +1,327 @@
+/**
+ * Specialty intake questionnaires
+ *
+ * Extra intake questions per specialty, loaded from
+ * lib/data/questionnaires.json and keyed by specialty code. A questionnaire is
+ * a list of sections, each a list of questions with a type, a required flag
+ * and an optional `showIf` condition on an earlier answer (branching). Choice
+ * options can be listed inline or name a shared set in `optionSets`.
+ *
+ * Scores sum the `score` of the chosen options over a list of questions and
+ * map the total to a severity band (PHQ-9 and GAD-7 for psychiatry). Flags
+ * call out single answers the doctor must see, whatever the total.
+ *
+ * Specialties without an entry use the standard intake only. This module has
+ * no server dependencies so the intake form can check answers as the patient
+ * types; the intake routes validate them again.
+ */
+
+import questionnaireData from "@/lib/data/questionnaires.json";
+
+export type QuestionType = "text" | "textarea" | "number" | "choice" | "multi_choice" | "boolean" | "date";
+
+export interface QuestionOption {
+  value: string;
+  label: string;
+  score?: number; // Points towards the questionnaire's scores
+}
+
+// Met when the earlier answer equals a value, is one of `in`, or (for
+// multiple choice) includes a value
+export interface QuestionCondition {
+  question: string;
+  equals?: string | number | boolean;
+  in?: string[];
+  includes?: string;
+}
+
+export interface Question {
+  id: string;
+  type: QuestionType;
+  label: string;
+  help?: string;
+  required?: boolean;
+  options?: QuestionOption[]; // choice and multi_choice
+  min?: number; // number
+  max?: number;
+  integer?: boolean;
+  maxLength?: number; // text and textarea
+  showIf?: QuestionCondition;
+}
+
+export interface QuestionnaireSection {
+  title: string;
+  description?: string;
+  questions: Question[];
+}
+
+export interface ScoreDefinition {
+  id: string; // e.g. "PHQ9"
+  label: string;
+  questions: string[];
+  bands: { min: number; label: string }[]; // Ascending by min
+  flags?: { when: QuestionCondition; message: string }[];
+}
+
+export interface Questionnaire {
+  specialty: string;
+  title: string;
+  sections: QuestionnaireSection[];
+  scores?: ScoreDefinition[];
+}
+
+export type AnswerValue = string | number | boolean | string[];
+
+export type QuestionnaireAnswers = Record<string, AnswerValue>;
+
+// Types rather than interfaces so responses can be stored as JSON
+export type QuestionnaireScore = {
+  id: string;
+  label: string;
+  score: number;
+  maxScore: number;
+  severity: string;
+  flags: string[];
+};
+
+// What an intake stores: the answers with the version they were given against
+export type QuestionnaireResponse = {
+  specialty: string;
+  version: string;
+  answers: QuestionnaireAnswers;
+  scores: QuestionnaireScore[];
+};
+
+type RawQuestion = Omit<Question, "options"> & { options?: QuestionOption[] | string };
+
+interface RawQuestionnaireFile {
+  version: string;
+  optionSets: Record<string, QuestionOption[]>;
+  questionnaires: Record<
+    string,
+    Omit<Questionnaire, "specialty" | "sections"> & {
+      sections: (Omit<QuestionnaireSection, "questions"> & { questions: RawQuestion[] })[];
+    }
+  >;
+}
+
+type Validated<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string; field: string };
+
+const DATA = questionnaireData as unknown as RawQuestionnaireFile;
+
+export const QUESTIONNAIRE_VERSION = DATA.version;
+
+const DEFAULT_MAX_LENGTH: Partial<Record<QuestionType, number>> = { text: 500, textarea: 2000 };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const QUESTIONNAIRES = new Map<string, Questionnaire>(
+  Object.entries(DATA.questionnaires).map(([specialty, raw]) => [
+    specialty,
+    {
+      ...raw,
+      specialty,
+      sections: raw.sections.map((section) => ({
+        ...section,
+        questions: section.questions.map(({ options, ...question }) => ({
+          ...question,
+          ...(options !== undefined && {
+            options: typeof options === "string" ? DATA.optionSets[options] : options,
+          }),
+        })),
+      })),
+    },
+  ])
+);
+
+/**
+ * The questionnaire for a specialty, or null if it only uses the standard intake
+ */
+export function getQuestionnaire(specialty: string): Questionnaire | null {
+  return QUESTIONNAIRES.get(specialty) ?? null;
+}
+
+/**
+ * Every question of a questionnaire, in order
+ */
+export function questionnaireQuestions(questionnaire: Questionnaire): Question[] {
+  return questionnaire.sections.flatMap((section) => section.questions);
+}
+
+function conditionMet(condition: QuestionCondition, answers: QuestionnaireAnswers): boolean {
+  const answer = answers[condition.question];
+  if (answer === undefined) return false;
+  if (condition.equals !== undefined) return answer === condition.equals;
+  if (condition.in !== undefined) return typeof answer === "string" && condition.in.includes(answer);
+  if (condition.includes !== undefined) return Array.isArray(answer) && answer.includes(condition.includes);
+  return true;
+}
+
+/**
+ * Whether a question is asked, given the answers so far
+ */
+export function isQuestionVisible(question: Question, answers: QuestionnaireAnswers): boolean {
+  return !question.showIf || conditionMet(question.showIf, answers);
+}
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function validateAnswer(question: Question, value: unknown): Validated<AnswerValue> {
+  const field = question.id;
+  const optionValues = question.options?.map((option) => option.value) ?? [];
+
+  switch (question.type) {
+    case "text":
+    case "textarea": {
+      const maxLength = question.maxLength ?? DEFAULT_MAX_LENGTH[question.type]!;
+      if (typeof value !== "string" || value.trim().length > maxLength) {
+        return { error: `${question.label}: enter at most ${maxLength} characters`, field };
+      }
+      return { data: value.trim() };
+    }
+    case "number": {
+      const number = typeof value === "string" ? Number(value) : value;
+      if (
+        typeof number !== "number" ||
+        !Number.isFinite(number) ||
+        (question.integer && !Number.isInteger(number)) ||
+        (question.min !== undefined && number < question.min) ||
+        (question.max !== undefined && number > question.max)
+      ) {
+        const range = question.min !== undefined && question.max !== undefined ? ` between ${question.min} and ${question.max}` : "";
+        return { error: `${question.label}: enter a ${question.integer ? "whole " : ""}number${range}`, field };
+      }
+      return { data: number };
+    }
+    case "choice":
+      if (typeof value !== "string" || !optionValues.includes(value)) {
+        return { error: `${question.label}: choose one of the options`, field };
+      }
+      return { data: value };
+    case "multi_choice":
+      if (!Array.isArray(value) || !value.every((v) => typeof v === "string" && optionValues.includes(v))) {
+        return { error: `${question.label}: choose from the options`, field };
+      }
+      // Keep the options' order and drop repeats
+      return { data: optionValues.filter((option) => value.includes(option)) };
+    case "boolean":
+      if (typeof value !== "boolean") {
+        return { error: `${question.label}: answer yes or no`, field };
+      }
+      return { data: value };
+    case "date":
+      if (typeof value !== "string" || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        return { error: `${question.label}: enter a date as YYYY-MM-DD`, field };
+      }
+      return { data: value };
+  }
+}
+
+/**
+ * Validate answers against a questionnaire. Questions are checked in order so
+ * branching follows the answers given; answers to questions that end up
+ * hidden are dropped, and visible required questions must be answered.
+ */
+export function validateQuestionnaireAnswers(
+  questionnaire: Questionnaire,
+  input: unknown
+): Validated<QuestionnaireAnswers> {
+  if (input === undefined || input === null) input = {};
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Questionnaire answers must be an object", field: "questionnaire" };
+  }
+  const given = input as Record<string, unknown>;
+  const questions = questionnaireQuestions(questionnaire);
+
+  const unknown = Object.keys(given).find((id) => !questions.some((question) => question.id === id));
+  if (unknown !== undefined) {
+    return { error: `Unknown question: ${unknown}`, field: unknown };
+  }
+
+  const answers: QuestionnaireAnswers = {};
+  for (const question of questions) {
+    if (!isQuestionVisible(question, answers)) continue;
+    const value = given[question.id];
+    if (isBlank(value)) {
+      if (question.required) {
+        return { error: `${question.label}: an answer is required`, field: question.id };
+      }
+      continue;
+    }
+    const answer = validateAnswer(question, value);
+    if (answer.data === undefined) return answer;
+    answers[question.id] = answer.data;
+  }
+
+  return { data: answers };
+}
+
+function optionScore(question: Question | undefined, answer: AnswerValue | undefined): number {
+  const values = Array.isArray(answer) ? answer : [answer];
+  return (question?.options ?? [])
+    .filter((option) => values.includes(option.value))
+    .reduce((sum, option) => sum + (option.score ?? 0), 0);
+}
+
+/**
+ * Totals, severity bands and flags for the questionnaire's scores. A score is
+ * left out when any of its questions is unanswered.
+ */
+export function scoreQuestionnaire(
+  questionnaire: Questionnaire,
+  answers: QuestionnaireAnswers
+): QuestionnaireScore[] {
+  const questions = new Map(questionnaireQuestions(questionnaire).map((question) => [question.id, question]));
+
+  return (questionnaire.scores ?? [])
+    .filter((definition) => definition.questions.every((id) => answers[id] !== undefined))
+    .map((definition) => {
+      const score = definition.questions.reduce((sum, id) => sum + optionScore(questions.get(id), answers[id]), 0);
+      const maxScore = definition.questions.reduce((sum, id) => {
+        const scores = questions.get(id)?.options?.map((option) => option.score ?? 0) ?? [0];
+        return sum + Math.max(0, ...scores);
+      }, 0);
+      const band = [...definition.bands].reverse().find((b) => score >= b.min);
+      return {
+        id: definition.id,
+        label: definition.label,
+        score,
+        maxScore,
+        severity: band?.label ?? "",
+        flags: (definition.flags ?? []).filter((flag) => conditionMet(flag.when, answers)).map((flag) => flag.message),
+      };
+    });
+}
+
+/**
+ * Validate and score the answers an intake carries for a specialty. Returns
+ * null data when the specialty has no questionnaire.
+ */
+export function buildQuestionnaireResponse(
+  specialty: string,
+  input: unknown
+): Validated<QuestionnaireResponse | null> {
+  const questionnaire = getQuestionnaire(specialty);
+  if (!questionnaire) return { data: null };
+
+  const answers = validateQuestionnaireAnswers(questionnaire, input);
+  if (!answers.data) return answers;
+
+  return {
+    data: {
+      specialty,
+      version: QUESTIONNAIRE_VERSION,
+      answers: answers.data,
+      scores: scoreQuestionnaire(questionnaire, answers.data),
+    },
+  };
+}
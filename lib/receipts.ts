@@ -0,0 +1,153 @@
+/**
+ * Receipts
+ *
+ * PDF receipts for paid consultations, for insurance or HSA reimbursement.
+ * A receipt is rebuilt from the Payment and Consultation records every time it
+ * is downloaded, so it always shows the current refunds. Amounts are the ones
+ * recorded at checkout: the price agreed at booking, the promo discount and
+ * the amount charged.
+ *
+ * The business details printed on receipts come from RECEIPT_BUSINESS_NAME,
+ * RECEIPT_BUSINESS_ADDRESS and RECEIPT_TAX_ID. Prices include tax at
+ * RECEIPT_TAX_RATE_PERCENT (default 0).
+ */
+
+import { prisma } from "@/lib/prisma";
+import { PaymentStatus, RefundStatus, type Prisma } from "@/app/generated/prisma/client";
+import { formatDoctorName } from "@/lib/api-utils";
+import { formatMoney, DEFAULT_LOCALE } from "@/lib/currency";
+import { getSpecialty } from "@/lib/specialties";
+import { renderTextPdf, type PdfLine } from "@/lib/pdf";
+
+// Payments a receipt can be downloaded for
+export const RECEIPT_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.PAID,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+];
+
+const DEFAULT_BUSINESS_NAME = "Health on the Go";
+
+const receiptInclude = {
+  consultation: {
+    include: {
+      patient: { select: { name: true, email: true } },
+      doctor: { select: { name: true, doctorProfile: { select: { licenseId: true } } } },
+    },
+  },
+  promoCode: { select: { code: true } },
+  refunds: { orderBy: { createdAt: "asc" } },
+} satisfies Prisma.PaymentInclude;
+
+export type ReceiptPayment = Prisma.PaymentGetPayload<{ include: typeof receiptInclude }>;
+
+/**
+ * A payment with everything its receipt shows, or null if it does not exist
+ */
+export async function getReceiptPayment(paymentId: string): Promise<ReceiptPayment | null> {
+  return prisma.payment.findUnique({ where: { id: paymentId }, include: receiptInclude });
+}
+
+/**
+ * Invoice number printed on the receipt, e.g. "INV-20261022-3F9K2XQ1". Derived
+ * from the payment so every download of a receipt shows the same number.
+ */
+export function receiptInvoiceNumber(payment: Pick<ReceiptPayment, "id" | "paidAt" | "createdAt">): string {
+  const date = (payment.paidAt ?? payment.createdAt).toISOString().slice(0, 10).replace(/-/g, "");
+  return `INV-${date}-${payment.id.slice(-8).toUpperCase()}`;
+}
+
+/**
+ * Tax rate (percent) included in prices, from RECEIPT_TAX_RATE_PERCENT.
+ * Invalid or negative values count as 0.
+ */
+export function getReceiptTaxRatePercent(): number {
+  const rate = Number(process.env.RECEIPT_TAX_RATE_PERCENT ?? 0);
+  return Number.isFinite(rate) && rate > 0 ? rate : 0;
+}
+
+/**
+ * Render a payment's receipt
+ *
+ * @param locale - Formats amounts and dates, e.g. from the Accept-Language header
+ */
+export async function buildReceiptPdf(payment: ReceiptPayment, locale: string = DEFAULT_LOCALE): Promise<Buffer> {
+  const { consultation } = payment;
+  const money = (amount: number) => formatMoney(amount, payment.currency, locale);
+  const date = (value: Date, withTime = false) =>
+    new Intl.DateTimeFormat(locale, {
+      dateStyle: "long",
+      ...(withTime ? { timeStyle: "short" } : {}),
+      timeZone: "UTC",
+    }).format(value) + (withTime ? " UTC" : "");
+
+  const specialty = await getSpecialty(consultation.specialty);
+  const invoiceNumber = receiptInvoiceNumber(payment);
+  const taxRate = getReceiptTaxRatePercent();
+  const tax = Math.round((payment.amount * taxRate) / (100 + taxRate));
+  // Failed refunds never left the account
+  const refunds = payment.refunds.filter((r) => r.status !== RefundStatus.FAILED);
+  const refunded = refunds.reduce((sum, r) => sum + r.amount, 0);
+
+  const lines: PdfLine[] = [
+    { text: process.env.RECEIPT_BUSINESS_NAME || DEFAULT_BUSINESS_NAME, size: 18, bold: true },
+  ];
+  if (process.env.RECEIPT_BUSINESS_ADDRESS) {
+    lines.push({ text: process.env.RECEIPT_BUSINESS_ADDRESS });
+  }
+  if (process.env.RECEIPT_TAX_ID) {
+    lines.push({ text: `Tax ID: ${process.env.RECEIPT_TAX_ID}` });
+  }
+
+  lines.push(
+    { text: "Receipt", size: 14, bold: true, spaceBefore: 16 },
+    { text: "Invoice number", value: invoiceNumber },
+    { text: "Invoice date", value: date(payment.paidAt ?? payment.createdAt) },
+    { text: "Payment ID", value: payment.id },
+
+    { text: "Billed to", bold: true, spaceBefore: 12 },
+    ...[consultation.patient.name, consultation.patient.email].filter(Boolean).map((text) => ({ text })),
+
+    { text: "Provider", bold: true, spaceBefore: 12 },
+    { text: formatDoctorName(consultation.doctor?.name, "Unassigned") }
+  );
+  if (consultation.doctor?.doctorProfile?.licenseId) {
+    lines.push({ text: `License: ${consultation.doctor.doctorProfile.licenseId}` });
+  }
+
+  lines.push(
+    { text: "Service", bold: true, spaceBefore: 12 },
+    { text: `${specialty?.label ?? consultation.specialty} consultation (${consultation.durationMinutes} min)` },
+    {
+      text: "Date of service",
+      value: consultation.scheduledStartAt ? date(consultation.scheduledStartAt, true) : "Not scheduled",
+    },
+
+    { text: "Consultation fee", value: money(payment.amount + payment.discountAmount), spaceBefore: 12 }
+  );
+  if (payment.discountAmount > 0) {
+    lines.push({
+      text: payment.promoCode ? `Discount (${payment.promoCode.code})` : "Discount",
+      value: `-${money(payment.discountAmount)}`,
+    });
+  }
+  lines.push(
+    { text: `Tax included (${taxRate}%)`, value: money(tax) },
+    { text: "Total paid", value: money(payment.amount), bold: true }
+  );
+
+  if (refunds.length > 0) {
+    lines.push({ text: "Refunds", bold: true, spaceBefore: 12 });
+    for (const refund of refunds) {
+      lines.push({
+        text: `${date(refund.completedAt ?? refund.createdAt)}${refund.status === RefundStatus.PENDING ? " (pending)" : ""}`,
+        value: `-${money(refund.amount)}`,
+      });
+    }
+    lines.push({ text: "Net paid", value: money(payment.amount - refunded), bold: true });
+  }
+
+  lines.push({ text: "Thank you for choosing us for your care.", spaceBefore: 24 });
+
+  return renderTextPdf(lines, `Receipt ${invoiceNumber}`);
+}
@@ -58,3 +58,61 @@ export async function getRedis(): Promise<RedisClientType | null> {
 export function slotLockKey(doctorId: string, scheduledStartAtMs: number) {
   return `slotlock:${doctorId}:${scheduledStartAtMs}`;
 }
+
+// Moves KEYS[1] -> KEYS[2] for owner ARGV[1], keeping the remaining TTL of a held lock.
+// Without a held lock, takes KEYS[2] for ARGV[2] seconds instead.
+// Returns 0 if KEYS[2] is held by someone else, 1 if moved, 2 if freshly acquired.
+const MOVE_SLOT_LOCK_SCRIPT = `
+local current = redis.call('GET', KEYS[2])
+if current and current ~= ARGV[1] then return 0 end
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  local ttl = redis.call('PTTL', KEYS[1])
+  if ttl > 0 then
+    redis.call('SET', KEYS[2], ARGV[1], 'PX', ttl)
+    redis.call('DEL', KEYS[1])
+    return 1
+  end
+end
+redis.call('SET', KEYS[2], ARGV[1], 'EX', ARGV[2])
+return 2
+`;
+
+const RELEASE_SLOT_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) end
+return 0
+`;
+
+export type SlotLockMoveResult = "TAKEN" | "MOVED" | "ACQUIRED";
+
+/**
+ * Atomically move a slot lock held by `owner` (e.g. an in-progress checkout)
+ * to another slot. If `owner` holds no lock on `fromKey`, the new slot is
+ * locked for `ttlSeconds` instead.
+ */
+export async function moveSlotLock(
+  redis: RedisClientType,
+  fromKey: string,
+  toKey: string,
+  owner: string,
+  ttlSeconds: number
+): Promise<SlotLockMoveResult> {
+  const result = await redis.eval(MOVE_SLOT_LOCK_SCRIPT, {
+    keys: [fromKey, toKey],
+    arguments: [owner, String(ttlSeconds)],
+  });
+
+  if (result === 1) return "MOVED";
+  if (result === 2) return "ACQUIRED";
+  return "TAKEN";
+}
+
+/**
+ * Release a slot lock, but only if it is still held by `owner`
+ */
+export async function releaseSlotLock(
+  redis: RedisClientType,
+  key: string,
+  owner: string
+): Promise<void> {
+  await redis.eval(RELEASE_SLOT_LOCK_SCRIPT, { keys: [key], arguments: [owner] });
+}
@@ -0,0 +1,416 @@
+/**
+ * Refunds
+ *
+ * Every refund of a payment is its own Refund record. `Payment.refundedAmount`
+ * tracks the sum of pending and completed refunds, so a payment can be refunded
+ * in several parts without ever refunding more than was paid. Square settles
+ * refunds asynchronously; the refund webhook (app/api/v1/payments/webhook)
+ * records the final outcome through `recordRefundOutcome`.
+ *
+ * Cancellation refunds follow the cancellation policy (lib/cancellation-policy.ts);
+ * admins can refund any amount up to what is left (app/api/v1/admin/payments/[id]/refunds).
+ */
+
+import { prisma } from "@/lib/prisma";
+import {
+  PaymentStatus,
+  RefundReason,
+  RefundStatus,
+  UserRole,
+} from "@/app/generated/prisma/client";
+import { getPaymentProvider, type ProviderRefund } from "@/lib/payment-provider";
+import { getRedis, releaseSlotLock, slotLockKey } from "@/lib/redis";
+import { calculateCancellationRefund, type RefundTier } from "@/lib/cancellation-policy";
+
+// Payments that still have money to refund
+export const REFUNDABLE_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.PAID,
+  PaymentStatus.PARTIALLY_REFUNDED,
+];
+
+export const REFUND_REASONS = Object.values(RefundReason);
+
+/**
+ * Raised when the payment changed (another refund, a status change) between
+ * reading it and reserving the refund amount.
+ */
+export class RefundConflictError extends Error {}
+
+export interface RefundablePayment {
+  id: string;
+  consultationId: string;
+  status: PaymentStatus;
+  amount: number;
+  currency: string;
+  refundedAmount: number;
+  provider: string;
+  providerPaymentId: string | null;
+}
+
+export interface RefundRecord {
+  id: string;
+  paymentId: string;
+  amount: number;
+  currency: string;
+  status: RefundStatus;
+  reason: RefundReason;
+  note: string | null;
+  providerRefundId: string | null;
+  initiatedByUserId: string | null;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CancellationRefundResult {
+  paymentId: string;
+  refundId: string | null; // null when nothing was refunded
+  tier: RefundTier;
+  amount: number;
+  status: RefundStatus | null; // null when nothing was refunded
+}
+
+/**
+ * Map a Square refund status onto ours. PENDING covers APPROVED/PENDING.
+ */
+export function toRefundStatus(squareStatus: string): RefundStatus {
+  if (squareStatus === "COMPLETED") return RefundStatus.COMPLETED;
+  if (squareStatus === "FAILED" || squareStatus === "REJECTED") return RefundStatus.FAILED;
+  return RefundStatus.PENDING;
+}
+
+/**
+ * Payment status once refunds totalling `refundedTotal` have gone through
+ */
+export function refundedPaymentStatus(amount: number, refundedTotal: number): PaymentStatus {
+  return refundedTotal >= amount ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED;
+}
+
+/**
+ * Amount (cents) that can still be refunded
+ */
+export function remainingRefundable(payment: { amount: number; refundedAmount: number }): number {
+  return Math.max(0, payment.amount - payment.refundedAmount);
+}
+
+/**
+ * Apply a Square refund status to a pending refund.
+ *
+ * Completed refunds move the payment to REFUNDED / PARTIALLY_REFUNDED; failed
+ * refunds give their amount back to `Payment.refundedAmount`. Settled refunds
+ * are final, so replays (e.g. resent webhooks) are ignored.
+ *
+ * @returns The refund status after applying the outcome
+ */
+export async function recordRefundOutcome(
+  refund: { id: string; paymentId: string; amount: number },
+  outcome: { status: RefundStatus; providerRefundId?: string; error?: string },
+  actorUserId: string | null = null,
+  now: number = Date.now()
+): Promise<RefundStatus> {
+  return prisma.$transaction(async (tx) => {
+    // Guard on PENDING so concurrent deliveries settle a refund only once
+    const updated = await tx.refund.updateMany({
+      where: { id: refund.id, status: RefundStatus.PENDING },
+      data: {
+        status: outcome.status,
+        ...(outcome.providerRefundId ? { providerRefundId: outcome.providerRefundId } : {}),
+        ...(outcome.status === RefundStatus.COMPLETED ? { completedAt: new Date(now) } : {}),
+      },
+    });
+    if (updated.count === 0) {
+      const current = await tx.refund.findUnique({
+        where: { id: refund.id },
+        select: { status: true },
+      });
+      return current?.status ?? outcome.status;
+    }
+    if (outcome.status === RefundStatus.PENDING) return outcome.status;
+
+    let payment: { amount: number; consultationId: string };
+    if (outcome.status === RefundStatus.FAILED) {
+      payment = await tx.payment.update({
+        where: { id: refund.paymentId },
+        data: { refundedAmount: { decrement: refund.amount } },
+        select: { amount: true, consultationId: true },
+      });
+    } else {
+      const completed = await tx.refund.aggregate({
+        where: { paymentId: refund.paymentId, status: RefundStatus.COMPLETED },
+        _sum: { amount: true },
+      });
+      const current = await tx.payment.findUniqueOrThrow({
+        where: { id: refund.paymentId },
+        select: { amount: true },
+      });
+      payment = await tx.payment.update({
+        where: { id: refund.paymentId },
+        data: { status: refundedPaymentStatus(current.amount, completed._sum.amount ?? 0) },
+        select: { amount: true, consultationId: true },
+      });
+    }
+
+    await tx.auditEvent.create({
+      data: {
+        actorUserId,
+        consultationId: payment.consultationId,
+        eventType: outcome.status === RefundStatus.COMPLETED ? "REFUND_COMPLETED" : "REFUND_FAILED",
+        eventMetadata: {
+          paymentId: refund.paymentId,
+          refundId: refund.id,
+          providerRefundId: outcome.providerRefundId ?? null,
+          amount: refund.amount,
+          ...(outcome.error ? { error: outcome.error } : {}),
+        },
+      },
+    });
+
+    return outcome.status;
+  });
+}
+
+/**
+ * Refund part or all of a payment through its payment provider.
+ *
+ * The amount is reserved on the payment before the provider is called, guarded on the
+ * `refundedAmount` that was read, so concurrent refunds cannot exceed the paid
+ * amount. Callers validate the amount against `remainingRefundable` first; a
+ * RefundConflictError means the payment changed in the meantime.
+ *
+ * A provider error does not throw: the refund is recorded as FAILED and returned.
+ * Once the provider has accepted the refund it is never marked FAILED; if its
+ * outcome cannot be recorded it is returned PENDING for the webhook to settle.
+ */
+export async function issueRefund(params: {
+  payment: RefundablePayment;
+  amount: number;
+  reason: RefundReason;
+  note?: string | null;
+  actor: { id: string } | null;
+  now?: number;
+}): Promise<RefundRecord> {
+  const { payment, amount, reason, actor } = params;
+  const now = params.now ?? Date.now();
+  const actorUserId = actor?.id ?? null;
+
+  if (amount <= 0 || amount > remainingRefundable(payment)) {
+    throw new RefundConflictError();
+  }
+
+  const refund = await prisma.$transaction(async (tx) => {
+    const reserved = await tx.payment.updateMany({
+      where: {
+        id: payment.id,
+        status: { in: REFUNDABLE_PAYMENT_STATUSES },
+        refundedAmount: payment.refundedAmount,
+      },
+      data: { refundedAmount: { increment: amount } },
+    });
+    if (reserved.count === 0) {
+      throw new RefundConflictError();
+    }
+
+    const created = await tx.refund.create({
+      data: {
+        paymentId: payment.id,
+        amount,
+        currency: payment.currency,
+        reason,
+        note: params.note ?? null,
+        initiatedByUserId: actorUserId,
+      },
+    });
+
+    await tx.auditEvent.create({
+      data: {
+        actorUserId,
+        consultationId: payment.consultationId,
+        eventType: "REFUND_REQUESTED",
+        eventMetadata: {
+          paymentId: payment.id,
+          refundId: created.id,
+          amount,
+          currency: payment.currency,
+          reason,
+        },
+      },
+    });
+
+    return created;
+  });
+
+  let result: ProviderRefund;
+  try {
+    if (!payment.providerPaymentId) {
+      throw new Error("Payment has no provider payment id");
+    }
+    result = await getPaymentProvider(payment.provider).refundPayment({
+      paymentId: payment.providerPaymentId,
+      amount,
+      currency: payment.currency,
+      idempotencyKey: `refund-${refund.id}`,
+      reason,
+    });
+  } catch (err) {
+    console.error(`Refund ${refund.id} failed for payment ${payment.id}:`, err);
+    const status = await recordRefundOutcome(
+      refund,
+      {
+        status: RefundStatus.FAILED,
+        error: err instanceof Error ? err.message : "Unknown error",
+      },
+      actorUserId,
+      now
+    );
+    return { ...refund, status, providerRefundId: null, completedAt: null };
+  }
+
+  let status: RefundStatus = RefundStatus.PENDING;
+  let providerRefundId: string | null = null;
+  try {
+    status = await recordRefundOutcome(
+      refund,
+      { status: toRefundStatus(result.status), providerRefundId: result.refundId },
+      actorUserId,
+      now
+    );
+    providerRefundId = result.refundId;
+  } catch (err) {
+    console.error(`Failed to record refund ${refund.id} (${result.refundId}) for payment ${payment.id}:`, err);
+  }
+
+  return {
+    ...refund,
+    status,
+    providerRefundId,
+    completedAt: status === RefundStatus.COMPLETED ? new Date(now) : null,
+  };
+}
+
+/**
+ * Record a refund that was issued outside the app (e.g. from the Square dashboard)
+ * so the payment's refunded amount stays accurate.
+ */
+export async function recordExternalRefund(
+  payment: { id: string; currency: string },
+  providerRefund: { id: string; amount: number }
+): Promise<RefundRecord> {
+  const [refund] = await prisma.$transaction([
+    prisma.refund.create({
+      data: {
+        paymentId: payment.id,
+        amount: providerRefund.amount,
+        currency: payment.currency,
+        reason: RefundReason.OTHER,
+        note: "Issued outside the app",
+        providerRefundId: providerRefund.id,
+      },
+    }),
+    prisma.payment.update({
+      where: { id: payment.id },
+      data: { refundedAmount: { increment: providerRefund.amount } },
+    }),
+  ]);
+  return refund;
+}
+
+/**
+ * Release the Redis slot lock of a cancelled consultation, if it still holds one
+ * (e.g. a checkout that was abandoned by cancelling). Best effort.
+ */
+export async function releaseConsultationSlotLock(consultation: {
+  id: string;
+  doctorId: string | null;
+  scheduledStartAt: Date | null;
+}): Promise<void> {
+  if (!consultation.doctorId || !consultation.scheduledStartAt) return;
+
+  try {
+    const redis = await getRedis();
+    if (redis) {
+      await releaseSlotLock(
+        redis,
+        slotLockKey(consultation.doctorId, consultation.scheduledStartAt.getTime()),
+        consultation.id
+      );
+    }
+  } catch (err) {
+    console.warn(`Failed to release slot lock for consultation ${consultation.id}:`, err);
+  }
+}
+
+/**
+ * Refund the paid amount of a cancelled consultation according to the cancellation policy.
+ *
+ * @param consultation - The consultation that was just cancelled
+ * @param actor - Who cancelled it (patients are subject to the policy; doctors and admins refund in full)
+ * @param now - Current time (ms), for testing
+ * @returns The refund outcome, or null if the consultation had no captured payment
+ */
+export async function refundCancelledConsultation(
+  consultation: { id: string; specialty: string; scheduledStartAt: Date | null },
+  actor: { id: string; role?: string | null },
+  now: number = Date.now()
+): Promise<CancellationRefundResult | null> {
+  const payment = await prisma.payment.findFirst({
+    where: { consultationId: consultation.id, status: { in: REFUNDABLE_PAYMENT_STATUSES } },
+  });
+  if (!payment) return null;
+
+  const policyRefund = calculateCancellationRefund({
+    amount: payment.amount,
+    specialty: consultation.specialty,
+    scheduledStartAt: consultation.scheduledStartAt,
+    cancelledByPatient: actor.role === UserRole.PATIENT,
+    now,
+  });
+  // The policy amount is a share of the full payment; earlier partial refunds
+  // (e.g. by support) count towards it
+  const amount = Math.max(
+    0,
+    Math.min(policyRefund.amount - payment.refundedAmount, remainingRefundable(payment))
+  );
+
+  if (amount === 0) {
+    await prisma.auditEvent.create({
+      data: {
+        actorUserId: actor.id,
+        consultationId: consultation.id,
+        eventType: "REFUND_NOT_ELIGIBLE",
+        eventMetadata: {
+          paymentId: payment.id,
+          tier: policyRefund.tier,
+          percent: policyRefund.percent,
+          amount: 0,
+          currency: payment.currency,
+        },
+      },
+    });
+    return { paymentId: payment.id, refundId: null, tier: policyRefund.tier, amount: 0, status: null };
+  }
+
+  let refund: RefundRecord;
+  try {
+    refund = await issueRefund({
+      payment,
+      amount,
+      reason: RefundReason.CANCELLATION,
+      actor,
+      now,
+    });
+  } catch (err) {
+    // The cancellation is already committed; a concurrent refund is left for support to reconcile
+    if (err instanceof RefundConflictError) {
+      console.warn(`Payment ${payment.id} changed while refunding cancellation of ${consultation.id}`);
+      return { paymentId: payment.id, refundId: null, tier: policyRefund.tier, amount: 0, status: null };
+    }
+    throw err;
+  }
+
+  return {
+    paymentId: payment.id,
+    refundId: refund.id,
+    tier: policyRefund.tier,
+    amount,
+    status: refund.status,
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Patient self-service rescheduling
+ *
+ * Patients can move a booking to another free slot of the same doctor as long
+ * as both the current and the new appointment are at least the minimum notice
+ * period away. The notice period is configured with RESCHEDULE_MIN_NOTICE_HOURS.
+ */
+
+import { ConsultationStatus } from "@/app/generated/prisma/client";
+
+export const DEFAULT_RESCHEDULE_MIN_NOTICE_HOURS = 24;
+
+// Statuses whose slot can still be moved (unpaid, or paid and not started)
+export const RESCHEDULABLE_STATUSES: ConsultationStatus[] = [
+  ConsultationStatus.CREATED,
+  ConsultationStatus.PAYMENT_FAILED,
+  ConsultationStatus.PAID,
+];
+
+// How long the new slot is held while the reschedule is written (no checkout in progress)
+export const RESCHEDULE_LOCK_TTL_SECONDS = 30;
+
+/**
+ * Minimum notice (hours) for rescheduling, from RESCHEDULE_MIN_NOTICE_HOURS.
+ * Invalid or negative values fall back to the default.
+ */
+export function getRescheduleMinNoticeHours(): number {
+  const raw = process.env.RESCHEDULE_MIN_NOTICE_HOURS;
+  if (raw === undefined || raw.trim() === "") {
+    return DEFAULT_RESCHEDULE_MIN_NOTICE_HOURS;
+  }
+
+  const hours = Number(raw);
+  return Number.isFinite(hours) && hours >= 0
+    ? hours
+    : DEFAULT_RESCHEDULE_MIN_NOTICE_HOURS;
+}
+
+/**
+ * Check whether an appointment start is far enough away to be (re)scheduled
+ */
+export function meetsMinimumNotice(
+  scheduledStartAt: Date,
+  now: number = Date.now(),
+  minNoticeHours: number = getRescheduleMinNoticeHours()
+): boolean {
+  return scheduledStartAt.getTime() - now >= minNoticeHours * 60 * 60 * 1000;
+}
@@ -0,0 +1,206 @@
+/**
+ * Specialty catalog
+ *
+ * The Specialty table is the single list of specialties: their labels, the
+ * consultation fee (a default price plus optional prices in other currencies)
+ * and the default appointment length. Only active
+ * specialties can be booked, offered by doctors or searched for availability;
+ * deactivated ones stay valid on existing consultations, so they keep their
+ * label and can still be paid for. Admins manage the catalog through
+ * /api/v1/admin/specialties.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { Specialty, SpecialtyPrice } from "@/app/generated/prisma/client";
+import {
+  MAX_DURATION_MINUTES,
+  MIN_DURATION_MINUTES,
+} from "@/lib/appointment-duration";
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, isSupportedCurrency } from "@/lib/currency";
+
+// Specialty codes are upper-case identifiers, e.g. "CARDIOLOGY" or "SLEEP_MEDICINE"
+export const SPECIALTY_ID_PATTERN = /^[A-Z][A-Z0-9_]{1,39}$/;
+
+export const MAX_SPECIALTY_LABEL_LENGTH = 80;
+
+export type SpecialtyWithPrices = Specialty & { prices: SpecialtyPrice[] };
+
+/**
+ * Specialties in catalog order (by label)
+ */
+export async function listSpecialties(
+  options: { includeInactive?: boolean } = {}
+): Promise<SpecialtyWithPrices[]> {
+  return prisma.specialty.findMany({
+    where: options.includeInactive ? undefined : { active: true },
+    orderBy: { label: "asc" },
+    include: { prices: true },
+  });
+}
+
+/**
+ * A specialty by code, active or not (for existing consultations)
+ */
+export async function getSpecialty(id: string): Promise<SpecialtyWithPrices | null> {
+  if (!id) return null;
+  return prisma.specialty.findUnique({ where: { id }, include: { prices: true } });
+}
+
+/**
+ * A specialty that can be booked, or null if it is unknown or inactive
+ */
+export async function getActiveSpecialty(id: string): Promise<SpecialtyWithPrices | null> {
+  const specialty = await getSpecialty(id);
+  return specialty?.active ? specialty : null;
+}
+
+/**
+ * Codes of the specialties that can be booked (for validation errors)
+ */
+export async function getActiveSpecialtyIds(): Promise<string[]> {
+  const specialties = await listSpecialties();
+  return specialties.map((s) => s.id);
+}
+
+/**
+ * Specialties that cannot be assigned to a doctor: unknown or inactive ones the
+ * doctor does not already have (deactivating a specialty does not strip it
+ * from existing profiles)
+ */
+export async function findUnassignableSpecialties(
+  requested: string[],
+  current: string[] = []
+): Promise<string[]> {
+  const activeIds = await getActiveSpecialtyIds();
+  return requested.filter((id) => !current.includes(id) && !activeIds.includes(id));
+}
+
+/**
+ * Codes that are not in the catalog at all (inactive specialties are known)
+ */
+export async function findUnknownSpecialties(ids: string[] = []): Promise<string[]> {
+  if (ids.length === 0) return [];
+  const catalog = await listSpecialties({ includeInactive: true });
+  return ids.filter((id) => !catalog.some((s) => s.id === id));
+}
+
+export interface SpecialtyInput {
+  id?: string;
+  label?: string;
+  price?: number;
+  currency?: string;
+  prices?: { currency: string; price: number }[];
+  durationMinutes?: number;
+  active?: boolean;
+}
+
+/**
+ * Validate an admin create (all of id, label and price required) or update
+ * (any subset; the id cannot change) of a specialty.
+ *
+ * `prices` lists the fee in other currencies than the default one and
+ * replaces the existing list.
+ *
+ * @param options.currentCurrency - The default currency of the specialty being updated
+ * @returns The normalized fields, or an error message with the offending field
+ */
+export function validateSpecialtyInput(
+  input: Record<string, unknown>,
+  options: { partial: boolean; currentCurrency?: string }
+):
+  | { data: SpecialtyInput; error?: undefined }
+  | { data?: undefined; error: string; field: string } {
+  const data: SpecialtyInput = {};
+
+  if (!options.partial) {
+    if (typeof input.id !== "string" || !SPECIALTY_ID_PATTERN.test(input.id)) {
+      return {
+        error: "id must be 2-40 upper-case letters, digits or underscores, starting with a letter",
+        field: "id",
+      };
+    }
+    data.id = input.id;
+  } else if (input.id !== undefined) {
+    return { error: "id cannot be changed", field: "id" };
+  }
+
+  if (input.label !== undefined || !options.partial) {
+    const label = typeof input.label === "string" ? input.label.trim() : "";
+    if (!label || label.length > MAX_SPECIALTY_LABEL_LENGTH) {
+      return {
+        error: `label is required and must be at most ${MAX_SPECIALTY_LABEL_LENGTH} characters`,
+        field: "label",
+      };
+    }
+    data.label = label;
+  }
+
+  if (input.price !== undefined || !options.partial) {
+    if (typeof input.price !== "number" || !Number.isInteger(input.price) || input.price <= 0) {
+      return {
+        error: "price must be a positive integer in the smallest currency unit (e.g. cents)",
+        field: "price",
+      };
+    }
+    data.price = input.price;
+  }
+
+  if (input.currency !== undefined) {
+    if (!isSupportedCurrency(input.currency)) {
+      return { error: `currency must be one of: ${SUPPORTED_CURRENCIES.join(", ")}`, field: "currency" };
+    }
+    data.currency = input.currency;
+  }
+
+  if (input.prices !== undefined) {
+    const defaultCurrency = data.currency ?? options.currentCurrency ?? DEFAULT_CURRENCY;
+    if (!Array.isArray(input.prices)) {
+      return { error: "prices must be an array of { currency, price }", field: "prices" };
+    }
+    const prices: { currency: string; price: number }[] = [];
+    for (const raw of input.prices as { currency?: unknown; price?: unknown }[]) {
+      if (!isSupportedCurrency(raw?.currency)) {
+        return { error: `prices currency must be one of: ${SUPPORTED_CURRENCIES.join(", ")}`, field: "prices" };
+      }
+      if (raw.currency === defaultCurrency || prices.some((p) => p.currency === raw.currency)) {
+        return {
+          error: "prices must list each currency once, other than the default currency",
+          field: "prices",
+        };
+      }
+      if (typeof raw.price !== "number" || !Number.isInteger(raw.price) || raw.price <= 0) {
+        return {
+          error: "prices must be positive integers in the smallest currency unit (e.g. cents)",
+          field: "prices",
+        };
+      }
+      prices.push({ currency: raw.currency, price: raw.price });
+    }
+    data.prices = prices;
+  }
+
+  if (input.durationMinutes !== undefined) {
+    const minutes = input.durationMinutes;
+    if (
+      typeof minutes !== "number" ||
+      !Number.isInteger(minutes) ||
+      minutes < MIN_DURATION_MINUTES ||
+      minutes > MAX_DURATION_MINUTES
+    ) {
+      return {
+        error: `durationMinutes must be an integer between ${MIN_DURATION_MINUTES} and ${MAX_DURATION_MINUTES}`,
+        field: "durationMinutes",
+      };
+    }
+    data.durationMinutes = minutes;
+  }
+
+  if (input.active !== undefined) {
+    if (typeof input.active !== "boolean") {
+      return { error: "active must be a boolean", field: "active" };
+    }
+    data.active = input.active;
+  }
+
+  return { data };
+}
@@ -0,0 +1,467 @@
+/**
+ * Square webhook event handlers
+ *
+ * The webhook route (app/api/v1/payments/webhook) verifies the signature and
+ * records the event in the inbox (lib/webhook-inbox.ts), which dispatches it
+ * here by type. Handlers update Payment / Consultation state and write audit
+ * events.
+ *
+ * Payload shapes follow Square's webhook reference (snake_case), trimmed to
+ * the fields we use.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { ConsultationStatus, PaymentStatus, RefundStatus } from "@/app/generated/prisma/client";
+import { findConflictingBookings } from "@/lib/booking-conflicts";
+import {
+  recordExternalRefund,
+  recordRefundOutcome,
+  releaseConsultationSlotLock,
+  toRefundStatus,
+} from "@/lib/refunds";
+import { isValidStatusTransition } from "@/lib/types";
+import {
+  applyConsultationTransition,
+  runConsultationTransitionHooks,
+  type ConsultationTransition,
+} from "@/lib/consultation-transitions";
+
+interface SquareMoney {
+  amount?: number;
+  currency?: string;
+}
+
+export interface SquarePayment {
+  id?: string;
+  order_id?: string;
+  status?: string; // APPROVED, PENDING, COMPLETED, CANCELED, FAILED
+}
+
+export interface SquareRefund {
+  id?: string;
+  status?: string; // PENDING, COMPLETED, REJECTED, FAILED
+  payment_id?: string;
+  amount_money?: SquareMoney;
+}
+
+export interface SquareDispute {
+  id?: string;
+  dispute_id?: string;
+  state?: string;
+  reason?: string;
+  amount_money?: SquareMoney;
+  due_at?: string;
+  disputed_payment?: { payment_id?: string };
+}
+
+export interface SquareOrderUpdated {
+  order_id?: string;
+  state?: string; // OPEN, COMPLETED, CANCELED, DRAFT
+  version?: number;
+}
+
+export interface SquareWebhookEvent {
+  type?: string;
+  event_id?: string;
+  merchant_id?: string;
+  created_at?: string;
+  data?: {
+    type?: string;
+    id?: string;
+    object?: {
+      payment?: SquarePayment;
+      refund?: SquareRefund;
+      dispute?: SquareDispute;
+      order_updated?: SquareOrderUpdated;
+    };
+  };
+}
+
+// Response body acknowledged back to Square (always with 200)
+export type WebhookResult = { success: true } | { message: string };
+
+// Dispute states in which the money stays with us / goes back to the cardholder
+const DISPUTE_WON_STATES = ["WON", "INQUIRY_CLOSED"];
+const DISPUTE_LOST_STATES = ["LOST", "ACCEPTED"];
+
+// Payments 'payment.updated' may still settle. Square sends the event again
+// after a refund, which must not mark a refunded or charged back payment PAID.
+const SETTLEABLE_PAYMENT_STATUSES: PaymentStatus[] = [PaymentStatus.PENDING, PaymentStatus.FAILED];
+
+/**
+ * Raised when a paid consultation overlaps another confirmed booking.
+ * Handled like the slot-uniqueness violation below.
+ */
+class SlotOverlapError extends Error {}
+
+/**
+ * 'payment.updated': mark the payment and consultation PAID or PAYMENT_FAILED.
+ */
+export async function handlePaymentUpdated(paymentObj: SquarePayment | undefined): Promise<WebhookResult> {
+  const orderId = paymentObj?.order_id;
+  const status = paymentObj?.status; // COMPLETED, FAILED, etc.
+  const paymentId = paymentObj?.id;
+
+  if (!orderId) {
+    return { message: "No order ID in event" };
+  }
+
+  // Find our local payment record
+  const localPayment = await prisma.payment.findFirst({
+    where: { providerOrderId: orderId },
+  });
+
+  if (!localPayment) {
+    console.warn(`Payment record not found for order ${orderId}`);
+    return { message: "Record not found" };
+  }
+
+  if (status !== "COMPLETED" && status !== "FAILED") {
+    return { success: true };
+  }
+  if (!SETTLEABLE_PAYMENT_STATUSES.includes(localPayment.status)) {
+    return { success: true }; // Already settled (and maybe refunded since)
+  }
+
+  const newPaymentStatus = status === "COMPLETED" ? PaymentStatus.PAID : PaymentStatus.FAILED;
+  const newConsultationStatus =
+    status === "COMPLETED" ? ConsultationStatus.PAID : ConsultationStatus.PAYMENT_FAILED;
+
+  const consultation = await prisma.consultation.findUnique({
+    where: { id: localPayment.consultationId },
+    select: {
+      id: true,
+      status: true,
+      doctorId: true,
+      scheduledStartAt: true,
+      durationMinutes: true,
+      bufferMinutes: true,
+    },
+  });
+
+  let transition: ConsultationTransition | undefined;
+  try {
+    if (
+      status === "COMPLETED" &&
+      consultation?.doctorId &&
+      (await findConflictingBookings(consultation.doctorId, consultation, consultation.id)).length > 0
+    ) {
+      throw new SlotOverlapError();
+    }
+
+    // Transactional update
+    transition = await prisma.$transaction(async (tx) => {
+      await tx.payment.update({
+        // Guarded so a refund recorded meanwhile is not undone; the retry is skipped above
+        where: { id: localPayment.id, status: { in: SETTLEABLE_PAYMENT_STATUSES } },
+        data: {
+          status: newPaymentStatus,
+          providerPaymentId: paymentId,
+          paidAt: status === "COMPLETED" ? new Date() : undefined,
+        },
+      });
+
+      // Already there (e.g. via the checkout success page), or moved on (cancelled, expired)
+      if (!consultation || consultation.status === newConsultationStatus) return undefined;
+      if (!isValidStatusTransition(consultation.status, newConsultationStatus, true)) {
+        console.warn(
+          `Consultation ${consultation.id} is ${consultation.status}; payment ${localPayment.id} recorded without moving it to ${newConsultationStatus}`
+        );
+        return undefined;
+      }
+
+      return applyConsultationTransition(tx, consultation, newConsultationStatus, {
+        metadata: { reason: `PAYMENT_${status}`, providerPaymentId: paymentId },
+        system: true,
+      });
+    });
+    console.log(`Updated payment ${localPayment.id} to ${newPaymentStatus}`);
+  } catch (err) {
+    // If payment succeeded but slot confirmation fails due to uniqueness (double-booking prevention),
+    // mark the consultation as PAYMENT_FAILED so the UI can prompt the user to pick a different slot.
+    const isUniqueViolation = (err as { code?: string } | null)?.code === "P2002";
+
+    if (
+      status === "COMPLETED" &&
+      (isUniqueViolation || err instanceof SlotOverlapError)
+    ) {
+      const conflictTransition = await prisma.$transaction(async (tx) => {
+        await tx.payment.update({
+          where: { id: localPayment.id, status: { in: SETTLEABLE_PAYMENT_STATUSES } },
+          data: {
+            status: PaymentStatus.PAID,
+            providerPaymentId: paymentId,
+            paidAt: new Date(),
+          },
+        });
+        await tx.auditEvent.create({
+          data: {
+            consultationId: localPayment.consultationId,
+            eventType: "PAYMENT_CONFLICT_SLOT_TAKEN",
+            eventMetadata: {
+              providerOrderId: orderId,
+              providerPaymentId: paymentId,
+              doctorId: consultation?.doctorId ?? null,
+              scheduledStartAt: consultation?.scheduledStartAt?.toISOString?.() ?? null,
+            },
+          },
+        });
+
+        if (!consultation || !isValidStatusTransition(consultation.status, ConsultationStatus.PAYMENT_FAILED, true)) {
+          return undefined;
+        }
+        return applyConsultationTransition(tx, consultation, ConsultationStatus.PAYMENT_FAILED, {
+          metadata: { reason: "SLOT_TAKEN", providerPaymentId: paymentId },
+          system: true,
+        });
+      });
+
+      await settleSlotLock(conflictTransition, consultation);
+      console.warn(
+        `Slot conflict: payment ${localPayment.id} succeeded but consultation ${localPayment.consultationId} could not be confirmed (${isUniqueViolation ? "unique constraint" : "overlapping booking"}).`
+      );
+      return { success: true };
+    }
+
+    // Without this, an unexpected error can leave the slot locked for the full TTL
+    if (consultation) {
+      await releaseConsultationSlotLock(consultation);
+    }
+    throw err;
+  }
+
+  await settleSlotLock(transition, consultation);
+  return { success: true };
+}
+
+/**
+ * The checkout is over either way: run the transition hooks (which free the
+ * slot lock), or free the lock directly when the consultation did not move.
+ */
+async function settleSlotLock(
+  transition: ConsultationTransition | undefined,
+  consultation: { id: string; doctorId: string | null; scheduledStartAt: Date | null } | null
+): Promise<void> {
+  if (transition) {
+    await runConsultationTransitionHooks(transition);
+  } else if (consultation) {
+    await releaseConsultationSlotLock(consultation);
+  }
+}
+
+/**
+ * 'refund.created' / 'refund.updated': record the outcome on the matching Refund.
+ * Refunds issued elsewhere (e.g. the Square dashboard) are recorded against
+ * the payment they belong to.
+ */
+export async function handleRefundEvent(refund: SquareRefund | undefined): Promise<WebhookResult> {
+  if (!refund?.id || !refund.status) {
+    return { message: "No refund in event" };
+  }
+
+  let localRefund: { id: string; paymentId: string; amount: number } | null =
+    await prisma.refund.findUnique({ where: { providerRefundId: refund.id } });
+
+  if (!localRefund && refund.payment_id) {
+    const localPayment = await prisma.payment.findFirst({
+      where: { providerPaymentId: refund.payment_id },
+    });
+    if (localPayment) {
+      const amount = Number(refund.amount_money?.amount ?? 0);
+      // Square can report a refund before our request has stored its id
+      localRefund =
+        (await prisma.refund.findFirst({
+          where: {
+            paymentId: localPayment.id,
+            providerRefundId: null,
+            status: RefundStatus.PENDING,
+            amount,
+          },
+          orderBy: { createdAt: "asc" },
+        })) ?? (await recordExternalRefund(localPayment, { id: refund.id, amount }));
+    }
+  }
+
+  if (!localRefund) {
+    console.warn(`Payment record not found for refund ${refund.id}`);
+    return { message: "Record not found" };
+  }
+
+  // Settled refunds are final, so resent events are no-ops
+  const refundStatus = await recordRefundOutcome(localRefund, {
+    status: toRefundStatus(refund.status),
+    providerRefundId: refund.id,
+  });
+
+  console.log(`Refund ${localRefund.id} (${refund.id}) is ${refundStatus}`);
+  return { success: true };
+}
+
+/**
+ * 'dispute.created' / 'dispute.state.updated': track chargebacks on the payment.
+ * A lost (or accepted) dispute marks the payment CHARGED_BACK.
+ */
+export async function handleDisputeEvent(
+  dispute: SquareDispute | undefined,
+  now: number = Date.now()
+): Promise<WebhookResult> {
+  const disputeId = dispute?.dispute_id ?? dispute?.id;
+  const paymentId = dispute?.disputed_payment?.payment_id;
+  if (!dispute || !disputeId || !dispute.state) {
+    return { message: "No dispute in event" };
+  }
+
+  const localPayment = paymentId
+    ? await prisma.payment.findFirst({ where: { providerPaymentId: paymentId } })
+    : null;
+
+  if (!localPayment) {
+    console.warn(`Payment record not found for dispute ${disputeId}`);
+    return { message: "Record not found" };
+  }
+
+  const existing = await prisma.dispute.findUnique({ where: { providerDisputeId: disputeId } });
+  if (existing?.state === dispute.state) {
+    return { success: true }; // Resent event
+  }
+
+  const won = DISPUTE_WON_STATES.includes(dispute.state);
+  const lost = DISPUTE_LOST_STATES.includes(dispute.state);
+  const resolvedAt = won || lost ? new Date(now) : null;
+
+  const eventType = !existing
+    ? "DISPUTE_OPENED"
+    : lost
+      ? "DISPUTE_LOST"
+      : won
+        ? "DISPUTE_WON"
+        : "DISPUTE_UPDATED";
+
+  await prisma.$transaction([
+    prisma.dispute.upsert({
+      where: { providerDisputeId: disputeId },
+      create: {
+        paymentId: localPayment.id,
+        providerDisputeId: disputeId,
+        state: dispute.state,
+        reason: dispute.reason ?? null,
+        amount: Number(dispute.amount_money?.amount ?? localPayment.amount),
+        currency: dispute.amount_money?.currency ?? localPayment.currency,
+        evidenceDueAt: dispute.due_at ? new Date(dispute.due_at) : null,
+        resolvedAt,
+      },
+      update: {
+        state: dispute.state,
+        ...(dispute.due_at ? { evidenceDueAt: new Date(dispute.due_at) } : {}),
+        resolvedAt,
+      },
+    }),
+    ...(lost
+      ? [
+          prisma.payment.update({
+            where: { id: localPayment.id },
+            data: { status: PaymentStatus.CHARGED_BACK },
+          }),
+        ]
+      : []),
+    prisma.auditEvent.create({
+      data: {
+        consultationId: localPayment.consultationId,
+        eventType,
+        eventMetadata: {
+          paymentId: localPayment.id,
+          providerDisputeId: disputeId,
+          state: dispute.state,
+          reason: dispute.reason ?? null,
+          amount: dispute.amount_money?.amount ?? null,
+        },
+      },
+    }),
+  ]);
+
+  console.log(`Dispute ${disputeId} for payment ${localPayment.id} is ${dispute.state}`);
+  return { success: true };
+}
+
+/**
+ * 'order.updated': a cancelled order means the checkout was abandoned or the
+ * payment link was deleted. The pending payment fails and the slot is freed.
+ */
+export async function handleOrderUpdated(order: SquareOrderUpdated | undefined): Promise<WebhookResult> {
+  if (!order?.order_id) {
+    return { message: "No order ID in event" };
+  }
+  if (order.state !== "CANCELED") {
+    return { success: true }; // Payments are confirmed through 'payment.updated'
+  }
+
+  const localPayment = await prisma.payment.findFirst({
+    where: { providerOrderId: order.order_id },
+  });
+
+  if (!localPayment) {
+    console.warn(`Payment record not found for order ${order.order_id}`);
+    return { message: "Record not found" };
+  }
+  if (localPayment.status !== PaymentStatus.PENDING) {
+    return { success: true };
+  }
+
+  const consultation = await prisma.consultation.findUnique({
+    where: { id: localPayment.consultationId },
+    select: { id: true, status: true, doctorId: true, scheduledStartAt: true },
+  });
+
+  const transition = await prisma.$transaction(async (tx) => {
+    await tx.payment.update({
+      where: { id: localPayment.id },
+      data: { status: PaymentStatus.FAILED },
+    });
+    await tx.auditEvent.create({
+      data: {
+        consultationId: localPayment.consultationId,
+        eventType: "PAYMENT_CHECKOUT_CANCELLED",
+        eventMetadata: {
+          paymentId: localPayment.id,
+          providerOrderId: order.order_id,
+        },
+      },
+    });
+
+    if (consultation?.status !== ConsultationStatus.PAYMENT_PENDING) return undefined;
+    return applyConsultationTransition(tx, consultation, ConsultationStatus.PAYMENT_FAILED, {
+      metadata: { reason: "CHECKOUT_CANCELLED" },
+      system: true,
+    });
+  });
+
+  await settleSlotLock(transition, consultation);
+
+  console.log(`Order ${order.order_id} cancelled; payment ${localPayment.id} marked FAILED`);
+  return { success: true };
+}
+
+const HANDLERS: Record<string, (event: SquareWebhookEvent) => Promise<WebhookResult>> = {
+  "payment.updated": (event) => handlePaymentUpdated(event.data?.object?.payment),
+  "refund.created": (event) => handleRefundEvent(event.data?.object?.refund),
+  "refund.updated": (event) => handleRefundEvent(event.data?.object?.refund),
+  "dispute.created": (event) => handleDisputeEvent(event.data?.object?.dispute),
+  "dispute.state.updated": (event) => handleDisputeEvent(event.data?.object?.dispute),
+  "dispute.state.changed": (event) => handleDisputeEvent(event.data?.object?.dispute), // Older API versions
+  "order.updated": (event) => handleOrderUpdated(event.data?.object?.order_updated),
+};
+
+export function isHandledSquareEvent(type: string | undefined): boolean {
+  return !!type && type in HANDLERS;
+}
+
+/**
+ * Dispatch a verified Square event to its handler
+ */
+export async function handleSquareEvent(event: SquareWebhookEvent): Promise<WebhookResult> {
+  const handler = event.type ? HANDLERS[event.type] : undefined;
+  if (!handler) {
+    return { message: "Event type not handled" };
+  }
+  return handler(event);
+}
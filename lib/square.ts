@@ -1,4 +1,5 @@
-import { SquareClient, SquareEnvironment } from "square";
+import { createHmac, timingSafeEqual } from "crypto";
+import { SquareClient, SquareEnvironment, SquareError, type Square } from "square";
 
 const accessToken = process.env.SQUARE_ACCESS_TOKEN;
 
@@ -22,4 +23,172 @@ const getSquareEnvironment = () => {
 export const squareClient = new SquareClient({
   token: accessToken || "",
   environment: getSquareEnvironment(),
-});
\ No newline at end of file
+});
+
+/**
+ * Create a Square payment link for a single line item.
+ *
+ * @param params.locationId - Square location the order belongs to
+ * @param params.amount - Price in the smallest currency unit
+ * @param params.discount - Order discount (e.g. a promo code), as a fixed
+ *   amount so Square charges exactly what we recorded
+ * @param params.redirectUrl - Where Square sends the patient after paying
+ * @param params.idempotencyKey - Reusing a key returns the same link
+ * @returns The payment link id, its order id and the hosted checkout URL
+ */
+export async function createSquarePaymentLink(params: {
+  locationId: string;
+  name: string;
+  amount: number;
+  currency: string;
+  discount?: { name: string; amount: number };
+  redirectUrl: string;
+  idempotencyKey: string;
+}): Promise<{ checkoutId: string; orderId: string | null; url: string }> {
+  const result = await squareClient.checkout.paymentLinks.create({
+    idempotencyKey: params.idempotencyKey,
+    order: {
+      locationId: params.locationId,
+      lineItems: [
+        {
+          name: params.name,
+          quantity: "1",
+          basePriceMoney: {
+            amount: BigInt(params.amount),
+            currency: params.currency as Square.Currency,
+          },
+        },
+      ],
+      discounts: params.discount
+        ? [
+            {
+              uid: "promo",
+              name: params.discount.name,
+              type: "FIXED_AMOUNT",
+              amountMoney: {
+                amount: BigInt(params.discount.amount),
+                currency: params.currency as Square.Currency,
+              },
+              scope: "ORDER",
+            },
+          ]
+        : undefined,
+    },
+    checkoutOptions: {
+      redirectUrl: params.redirectUrl,
+    },
+  });
+
+  if (!result.paymentLink?.id || !result.paymentLink?.url) {
+    throw new Error("Square response missing payment link ID or URL");
+  }
+
+  return {
+    checkoutId: result.paymentLink.id,
+    orderId: result.paymentLink.orderId ?? null,
+    url: result.paymentLink.url,
+  };
+}
+
+/**
+ * Sign a webhook body the way Square does: base64 HMAC-SHA256 of the
+ * notification URL followed by the raw body, keyed with the subscription's
+ * signature key.
+ *
+ * @param notificationUrl - The URL exactly as registered with Square
+ */
+export function signSquareWebhook(params: {
+  body: string;
+  notificationUrl: string;
+  signatureKey: string;
+}): string {
+  return createHmac("sha256", params.signatureKey)
+    .update(params.notificationUrl + params.body)
+    .digest("base64");
+}
+
+/**
+ * Check the x-square-hmacsha256-signature header of a webhook request
+ */
+export function verifySquareSignature(params: {
+  body: string;
+  signature: string;
+  notificationUrl: string;
+  signatureKey: string;
+}): boolean {
+  const expected = Buffer.from(signSquareWebhook(params), "base64");
+  const received = Buffer.from(params.signature, "base64");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Refund (part of) a Square payment.
+ *
+ * @param params.paymentId - Square payment id (Payment.providerPaymentId)
+ * @param params.amount - Amount to refund, in the smallest currency unit
+ * @param params.idempotencyKey - Reusing a key makes retries safe
+ * @returns The Square refund id and status (PENDING, COMPLETED, REJECTED or FAILED)
+ */
+export async function refundSquarePayment(params: {
+  paymentId: string;
+  amount: number;
+  currency: string;
+  idempotencyKey: string;
+  reason?: string;
+}): Promise<{ refundId: string; status: string }> {
+  const result = await squareClient.refunds.refundPayment({
+    idempotencyKey: params.idempotencyKey,
+    paymentId: params.paymentId,
+    amountMoney: {
+      amount: BigInt(params.amount),
+      currency: params.currency as Square.Currency,
+    },
+    reason: params.reason,
+  });
+
+  if (!result.refund?.id) {
+    throw new Error(
+      `Square refund failed: ${result.errors?.map((e) => e.detail ?? e.code).join(", ") || "no refund returned"}`
+    );
+  }
+
+  return { refundId: result.refund.id, status: result.refund.status ?? "PENDING" };
+}
+
+/**
+ * Look up how far a checkout got at Square.
+ *
+ * @param orderId - Square order id (Payment.providerOrderId)
+ * @returns The order state and, if the patient started paying, the Square
+ *   payment on the order (status APPROVED, PENDING, COMPLETED, CANCELED or FAILED)
+ */
+export async function getSquareCheckoutStatus(orderId: string): Promise<{
+  orderState: string | null;
+  payment: { id: string; status: string } | null;
+}> {
+  const { order } = await squareClient.orders.get({ orderId });
+  const orderState = order?.state ?? null;
+
+  const paymentId = order?.tenders?.find((tender) => tender.paymentId)?.paymentId;
+  if (!paymentId) {
+    return { orderState, payment: null };
+  }
+
+  const { payment } = await squareClient.payments.get({ paymentId });
+  return { orderState, payment: { id: paymentId, status: payment?.status ?? "PENDING" } };
+}
+
+/**
+ * Delete a Square payment link so its checkout page can no longer be paid.
+ * Links that are already gone are ignored.
+ *
+ * @param paymentLinkId - Square payment link id (Payment.providerCheckoutId)
+ */
+export async function cancelSquarePaymentLink(paymentLinkId: string): Promise<void> {
+  try {
+    await squareClient.checkout.paymentLinks.delete({ id: paymentLinkId });
+  } catch (err) {
+    if (err instanceof SquareError && err.statusCode === 404) return;
+    throw err;
+  }
+}
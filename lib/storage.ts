@@ -0,0 +1,51 @@
+/**
+ * File storage
+ *
+ * Uploaded files go through a StorageBackend so the upload and download routes
+ * do not depend on where the bytes live. STORAGE_BACKEND selects the backend
+ * for new files:
+ *
+ * - `local` (default): files on the server's disk (lib/local-storage.ts)
+ *
+ * Stored files keep using the backend recorded with them (e.g.
+ * `IntakeAttachment.storageBackend`). Backends never serve files directly:
+ * downloads go through the app, which checks who is asking.
+ */
+
+import { localStorageBackend } from "@/lib/local-storage";
+
+export type StorageBackendName = "LOCAL";
+
+/**
+ * The selected storage backend cannot be used
+ */
+export class StorageConfigurationError extends Error {}
+
+export interface StorageBackend {
+  name: StorageBackendName;
+  /** Stores a file under a new key and returns the key */
+  put(data: Buffer, contentType: string): Promise<string>;
+  /** The file's bytes, or null if there is no file under the key */
+  get(key: string): Promise<Buffer | null>;
+  /** Removes a file; missing files are ignored */
+  delete(key: string): Promise<void>;
+}
+
+const BACKENDS: Record<StorageBackendName, StorageBackend> = {
+  LOCAL: localStorageBackend,
+};
+
+/**
+ * The backend for new files (STORAGE_BACKEND), or the one a file was stored
+ * with when `name` is given.
+ *
+ * @throws StorageConfigurationError for an unknown backend
+ */
+export function getStorageBackend(name?: string | null): StorageBackend {
+  const backendName = (name ?? process.env.STORAGE_BACKEND ?? "LOCAL").toUpperCase();
+  const backend = BACKENDS[backendName as StorageBackendName];
+  if (!backend) {
+    throw new StorageConfigurationError(`Unknown storage backend: ${backendName}`);
+  }
+  return backend;
+}
@@ -1,16 +1,29 @@
+import { formatMoney } from '@/lib/currency';
+
+/**
+ * Specialty code (Specialty.id), e.g. 'CARDIOLOGY'. The catalog lives in the
+ * Specialty table (lib/specialties.ts).
+ */
+export type Specialty = string;
+
 /**
- * Valid Specialities for consultations
+ * A bookable specialty as returned by GET /api/v1/specialties
  */
-export const VALID_SPECIALTIES = [
-    'GENERAL',
-    'CARDIOLOGY',
-    'DERMATOLOGY',
-    'PEDIATRICS',
-    'PSYCHIATRY',
-    'ORTHOPEDICS',
-] as const;
+export interface SpecialtyOption {
+    id: Specialty;
+    label: string;
+    price: number; // Smallest currency unit (cents)
+    currency: string;
+    durationMinutes: number;
+}
 
-export type Specialty = typeof VALID_SPECIALTIES[number];
+/**
+ * Format a price in the smallest currency unit for display, e.g. "$150.00"
+ * (lib/currency.ts)
+ */
+export function formatPrice(amount: number, currency: string, locale?: string): string {
+    return formatMoney(amount, currency, locale);
+}
 
 /**
  * Valid age ranges for patient intake
@@ -20,7 +33,8 @@ export const VALID_AGE_RANGES = ['0-17', '18-39', '40-64', '65+'] as const;
 export type AgeRange = typeof VALID_AGE_RANGES[number];
 
 /**
- * Valid status transitions for consultations
+ * Valid status transitions for consultations, enforced by the state machine
+ * in lib/consultation-transitions.ts
  */
 export const VALID_STATUS_TRANSITIONS: Record<string, string[]> = {
     CREATED: ['PAYMENT_PENDING', 'CANCELLED'],
@@ -34,9 +48,21 @@ export const VALID_STATUS_TRANSITIONS: Record<string, string[]> = {
 };
 
 /**
- * Check if a status transition is valid
+ * Further transitions only the system makes; a user cannot request them
+ */
+export const SYSTEM_STATUS_TRANSITIONS: Record<string, string[]> = {
+    CREATED: ['PAID', 'PAYMENT_FAILED', 'EXPIRED'], // Checkout settled by the payment webhook, or the slot passed unpaid
+    PAYMENT_PENDING: ['CREATED', 'EXPIRED'], // Abandoned checkout (lib/payment-reaper.ts)
+    PAID: ['EXPIRED'], // Slot ended without the call being held (lib/consultation-sweeper.ts)
+    IN_CALL: ['EXPIRED'], // Slot ended without the call being closed
+    PAYMENT_FAILED: ['PAID', 'CREATED', 'EXPIRED'], // Late settlement, or abandoned checkout
+};
+
+/**
+ * Check if a status transition is valid; `system` also allows the
+ * SYSTEM_STATUS_TRANSITIONS (payment webhook, checkout return, scheduled jobs)
  */
-export function isValidStatusTransition(from: string, to: string): boolean {
-    const validTransitions = VALID_STATUS_TRANSITIONS[from];
-    return validTransitions?.includes(to) ?? false;
+export function isValidStatusTransition(from: string, to: string, system = false): boolean {
+    if (VALID_STATUS_TRANSITIONS[from]?.includes(to)) return true;
+    return system && (SYSTEM_STATUS_TRANSITIONS[from]?.includes(to) ?? false);
 }
@@ -0,0 +1,77 @@
+/**
+ * Video providers
+ *
+ * Rooms and meeting tokens go through a VideoProvider so the call flows do not
+ * depend on Daily directly. VIDEO_PROVIDER selects the provider for new rooms:
+ *
+ * - `daily` (default): Daily Prebuilt rooms (lib/daily.ts)
+ * - `local`: placeholder rooms served by this app, for development and tests
+ *   without network access (lib/local-video.ts). Not available in production.
+ *
+ * Existing rooms keep using the provider recorded in `VideoSession.provider`.
+ */
+
+import { createMeetingToken, createRoom, deleteRoom } from "@/lib/daily";
+import { localVideoProvider } from "@/lib/local-video";
+
+export type VideoProviderName = "DAILY" | "LOCAL";
+
+/**
+ * The selected video provider cannot be used
+ */
+export class VideoConfigurationError extends Error {}
+
+export interface VideoRoom {
+  name: string;
+  url: string;
+}
+
+export interface VideoProvider {
+  name: VideoProviderName;
+  /** Room that closes itself after `expiryMinutes` */
+  createRoom(roomName: string, expiryMinutes: number): Promise<VideoRoom>;
+  createMeetingToken(
+    roomName: string,
+    userId: string,
+    isOwner: boolean,
+    expiryMinutes: number
+  ): Promise<string>;
+  /** Ends the call for everyone; rooms that are already gone are ignored */
+  deleteRoom(roomName: string): Promise<void>;
+  /** URL a participant opens (or embeds) to enter the room with their token */
+  buildJoinUrl(roomUrl: string, token: string): string;
+}
+
+export const dailyVideoProvider: VideoProvider = {
+  name: "DAILY",
+  createRoom: (roomName, expiryMinutes) => createRoom(roomName, expiryMinutes),
+  createMeetingToken: (roomName, userId, isOwner, expiryMinutes) =>
+    createMeetingToken(roomName, userId, isOwner, expiryMinutes),
+  deleteRoom: (roomName) => deleteRoom(roomName),
+  // Daily Prebuilt reads the meeting token from the `t` query parameter
+  buildJoinUrl: (roomUrl, token) => `${roomUrl}?t=${token}`,
+};
+
+const PROVIDERS: Record<VideoProviderName, VideoProvider> = {
+  DAILY: dailyVideoProvider,
+  LOCAL: localVideoProvider,
+};
+
+/**
+ * The provider for new rooms (VIDEO_PROVIDER), or the one a room was created
+ * with when `name` is given (VideoSession.provider).
+ *
+ * @throws VideoConfigurationError for an unknown provider, or the local
+ *   provider in production
+ */
+export function getVideoProvider(name?: string | null): VideoProvider {
+  const providerName = (name ?? process.env.VIDEO_PROVIDER ?? "DAILY").toUpperCase();
+  const provider = PROVIDERS[providerName as VideoProviderName];
+  if (!provider) {
+    throw new VideoConfigurationError(`Unknown video provider: ${providerName}`);
+  }
+  if (provider === localVideoProvider && process.env.NODE_ENV === "production") {
+    throw new VideoConfigurationError("The local video provider cannot be used in production");
+  }
+  return provider;
+}
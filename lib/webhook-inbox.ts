@@ -0,0 +1,130 @@
+/**
+ * Webhook inbox
+ *
+ * Every verified Square delivery is stored in WebhookEvent, keyed by Square's
+ * `event_id`, before it is processed. Square retries deliveries, so a redelivered
+ * event finds the existing row and is only processed again if the earlier
+ * attempt failed. Processing is claimed with a guarded status update, so two
+ * concurrent deliveries of the same event run the handler once.
+ *
+ * Failed events keep their error and can be replayed by an admin
+ * (app/api/v1/admin/webhooks/[id]/replay).
+ */
+
+import { createHash } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { WebhookEventStatus } from "@/app/generated/prisma/client";
+import {
+  handleSquareEvent,
+  isHandledSquareEvent,
+  type SquareWebhookEvent,
+  type WebhookResult,
+} from "@/lib/square-webhooks";
+
+export const WEBHOOK_PROVIDER = "SQUARE";
+
+// A PROCESSING event older than this is assumed to have crashed mid-way
+export const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+const MAX_ERROR_LENGTH = 1000;
+
+export interface InboxEvent {
+  id: string;
+  eventId: string;
+  eventType: string;
+  payload: unknown;
+}
+
+export interface ProcessOutcome {
+  status: WebhookEventStatus;
+  result: WebhookResult | null; // null when another delivery already handled the event
+  error?: string;
+}
+
+/**
+ * Square's event id, or a hash of the body for events without one
+ */
+export function webhookEventKey(event: SquareWebhookEvent, rawBody: string): string {
+  return event.event_id ?? `sha256:${createHash("sha256").update(rawBody).digest("hex")}`;
+}
+
+/**
+ * Store a verified event, or return the stored copy of a redelivered one.
+ */
+export async function recordWebhookEvent(event: SquareWebhookEvent, rawBody: string): Promise<InboxEvent> {
+  const eventId = webhookEventKey(event, rawBody);
+
+  try {
+    return await prisma.webhookEvent.create({
+      data: {
+        provider: WEBHOOK_PROVIDER,
+        eventId,
+        eventType: event.type ?? "unknown",
+        payload: JSON.parse(rawBody),
+      },
+    });
+  } catch (err) {
+    if ((err as { code?: string } | null)?.code !== "P2002") throw err;
+
+    return prisma.webhookEvent.findUniqueOrThrow({
+      where: { provider_eventId: { provider: WEBHOOK_PROVIDER, eventId } },
+    });
+  }
+}
+
+/**
+ * Process a stored event at most once at a time.
+ *
+ * Only RECEIVED and FAILED events (and PROCESSING ones that went stale) are
+ * claimed; anything else was already handled and is skipped.
+ *
+ * @param now - Current time (ms), for testing
+ */
+export async function processWebhookEvent(event: InboxEvent, now: number = Date.now()): Promise<ProcessOutcome> {
+  const claimed = await prisma.webhookEvent.updateMany({
+    where: {
+      id: event.id,
+      OR: [
+        { status: { in: [WebhookEventStatus.RECEIVED, WebhookEventStatus.FAILED] } },
+        {
+          status: WebhookEventStatus.PROCESSING,
+          updatedAt: { lt: new Date(now - STALE_PROCESSING_MS) },
+        },
+      ],
+    },
+    data: { status: WebhookEventStatus.PROCESSING, attempts: { increment: 1 } },
+  });
+
+  if (claimed.count === 0) {
+    const current = await prisma.webhookEvent.findUnique({
+      where: { id: event.id },
+      select: { status: true },
+    });
+    return { status: current?.status ?? WebhookEventStatus.PROCESSED, result: null };
+  }
+
+  if (!isHandledSquareEvent(event.eventType)) {
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: { status: WebhookEventStatus.IGNORED, processedAt: new Date(now), lastError: null },
+    });
+    return { status: WebhookEventStatus.IGNORED, result: { message: "Event type not handled" } };
+  }
+
+  try {
+    const result = await handleSquareEvent(event.payload as SquareWebhookEvent);
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: { status: WebhookEventStatus.PROCESSED, processedAt: new Date(now), lastError: null },
+    });
+    return { status: WebhookEventStatus.PROCESSED, result };
+  } catch (err) {
+    const error = (err instanceof Error ? err.message : String(err)).slice(0, MAX_ERROR_LENGTH);
+    console.error(`Webhook event ${event.eventId} (${event.eventType}) failed:`, err);
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: { status: WebhookEventStatus.FAILED, lastError: error },
+    });
+    return { status: WebhookEventStatus.FAILED, result: null, error };
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Doctor weekly working hours
+ *
+ * Working hours are stored per doctor as a list of intervals, each bound to an
+ * ISO weekday (1 = Monday ... 7 = Sunday) and expressed as "HH:mm" wall-clock
+ * times in the doctor's own timezone. A weekday can have several intervals to
+ * support split shifts; weekdays without intervals are days off.
+ */
+
+import { DateTime } from "luxon";
+
+export interface WorkingHoursInterval {
+  weekday: number;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Schedule used for doctors who have not configured their weekly hours yet.
+ * Matches the legacy behaviour: 09:00-17:00 every day.
+ */
+export const DEFAULT_WORKING_HOURS: WorkingHoursInterval[] = [1, 2, 3, 4, 5, 6, 7].map(
+  (weekday) => ({ weekday, startTime: "09:00", endTime: "17:00" })
+);
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$|^24:00$/;
+
+/**
+ * Parse an "HH:mm" string into minutes after midnight.
+ * "24:00" is accepted as the end of the day (1440).
+ *
+ * @returns minutes after midnight, or null if the value is not a valid time
+ */
+export function parseTimeOfDay(value: unknown): number | null {
+  if (typeof value !== "string" || !TIME_OF_DAY_PATTERN.test(value)) {
+    return null;
+  }
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Resolve the effective weekly schedule for a doctor profile.
+ * Profiles without any configured intervals use DEFAULT_WORKING_HOURS.
+ */
+export function resolveWorkingHours(
+  workingHours: WorkingHoursInterval[] | null | undefined
+): WorkingHoursInterval[] {
+  return workingHours && workingHours.length > 0
+    ? workingHours
+    : DEFAULT_WORKING_HOURS;
+}
+
+/**
+ * Convert the intervals that apply to a doctor-local calendar day into
+ * concrete start/end instants.
+ *
+ * @param schedule - The doctor's weekly schedule
+ * @param doctorDayStart - Midnight of the day in the doctor's timezone
+ * @returns Intervals ordered by start time
+ */
+export function getWorkingIntervalsForDay(
+  schedule: WorkingHoursInterval[],
+  doctorDayStart: DateTime
+): { start: DateTime; end: DateTime }[] {
+  const toDateTime = (minutes: number) =>
+    minutes >= 24 * 60
+      ? doctorDayStart.plus({ days: 1 })
+      : doctorDayStart.set({
+          hour: Math.floor(minutes / 60),
+          minute: minutes % 60,
+        });
+
+  return schedule
+    .filter((interval) => interval.weekday === doctorDayStart.weekday)
+    .map((interval) => ({
+      startMinutes: parseTimeOfDay(interval.startTime),
+      endMinutes: parseTimeOfDay(interval.endTime),
+    }))
+    .filter(
+      (i): i is { startMinutes: number; endMinutes: number } =>
+        i.startMinutes !== null &&
+        i.endMinutes !== null &&
+        i.startMinutes < i.endMinutes
+    )
+    .sort((a, b) => a.startMinutes - b.startMinutes)
+    .map((i) => ({
+      start: toDateTime(i.startMinutes),
+      end: toDateTime(i.endMinutes),
+    }));
+}
+
+/**
+ * Validate a client-supplied weekly schedule.
+ *
+ * Rules:
+ * - at least one interval: an empty schedule is how profiles that were never
+ *   configured are stored (see resolveWorkingHours); days away are time off
+ * - weekday must be an integer between 1 (Monday) and 7 (Sunday)
+ * - startTime/endTime must be "HH:mm" (endTime may be "24:00")
+ * - startTime must be before endTime
+ * - intervals on the same weekday must not overlap
+ *
+ * @returns The normalized intervals, or an error message with the offending index
+ */
+export function validateWorkingHours(input: unknown):
+  | { intervals: WorkingHoursInterval[]; error?: undefined }
+  | { intervals?: undefined; error: string; index?: number } {
+  if (!Array.isArray(input)) {
+    return { error: "workingHours must be an array" };
+  }
+  if (input.length === 0) {
+    return { error: "workingHours must contain at least one interval; use time off to block whole days" };
+  }
+
+  const intervals: (WorkingHoursInterval & { start: number; end: number })[] = [];
+
+  for (let index = 0; index < input.length; index++) {
+    const raw = input[index] as Partial<WorkingHoursInterval> | null;
+    const weekday = raw?.weekday;
+
+    if (
+      typeof weekday !== "number" ||
+      !Number.isInteger(weekday) ||
+      weekday < 1 ||
+      weekday > 7
+    ) {
+      return { error: "weekday must be an integer between 1 (Monday) and 7 (Sunday)", index };
+    }
+
+    const start = parseTimeOfDay(raw?.startTime);
+    const end = parseTimeOfDay(raw?.endTime);
+    if (start === null || end === null || start === 24 * 60) {
+      return { error: "startTime and endTime must use the HH:mm format", index };
+    }
+    if (start >= end) {
+      return { error: "startTime must be before endTime", index };
+    }
+
+    const overlapping = intervals.find(
+      (other) => other.weekday === weekday && start < other.end && other.start < end
+    );
+    if (overlapping) {
+      return { error: "Intervals on the same weekday must not overlap", index };
+    }
+
+    intervals.push({
+      weekday,
+      startTime: raw!.startTime!,
+      endTime: raw!.endTime!,
+      start,
+      end,
+    });
+  }
+
+  return {
+    intervals: intervals
+      .sort((a, b) => a.weekday - b.weekday || a.start - b.start)
+      .map(({ weekday, startTime, endTime }) => ({ weekday, startTime, endTime })),
+  };
+}
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "DoctorWorkingHours" (
+    "id" TEXT NOT NULL,
+    "doctorProfileId" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DoctorWorkingHours_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DoctorWorkingHours_doctorProfileId_weekday_idx" ON "DoctorWorkingHours"("doctorProfileId", "weekday");
+
+-- AddForeignKey
+ALTER TABLE "DoctorWorkingHours" ADD CONSTRAINT "DoctorWorkingHours_doctorProfileId_fkey" FOREIGN KEY ("doctorProfileId") REFERENCES "DoctorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
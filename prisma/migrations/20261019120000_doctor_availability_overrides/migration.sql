@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "AvailabilityOverrideType" AS ENUM ('BLOCKED', 'TIME_OFF', 'EXTRA');
+
+-- CreateTable
+CREATE TABLE "DoctorAvailabilityOverride" (
+    "id" TEXT NOT NULL,
+    "doctorProfileId" TEXT NOT NULL,
+    "type" "AvailabilityOverrideType" NOT NULL,
+    "startAt" TIMESTAMP(3) NOT NULL,
+    "endAt" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DoctorAvailabilityOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DoctorAvailabilityOverride_doctorProfileId_startAt_idx" ON "DoctorAvailabilityOverride"("doctorProfileId", "startAt");
+
+-- CreateIndex
+CREATE INDEX "DoctorAvailabilityOverride_doctorProfileId_endAt_idx" ON "DoctorAvailabilityOverride"("doctorProfileId", "endAt");
+
+-- AddForeignKey
+ALTER TABLE "DoctorAvailabilityOverride" ADD CONSTRAINT "DoctorAvailabilityOverride_doctorProfileId_fkey" FOREIGN KEY ("doctorProfileId") REFERENCES "DoctorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Consultation" ADD COLUMN     "bufferMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "durationMinutes" INTEGER NOT NULL DEFAULT 30;
+
+-- AlterTable
+ALTER TABLE "DoctorProfile" ADD COLUMN     "bufferMinutes" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "DoctorAppointmentDuration" (
+    "id" TEXT NOT NULL,
+    "doctorProfileId" TEXT NOT NULL,
+    "specialty" TEXT NOT NULL,
+    "durationMinutes" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DoctorAppointmentDuration_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DoctorAppointmentDuration_doctorProfileId_specialty_key" ON "DoctorAppointmentDuration"("doctorProfileId", "specialty");
+
+-- AddForeignKey
+ALTER TABLE "DoctorAppointmentDuration" ADD CONSTRAINT "DoctorAppointmentDuration_doctorProfileId_fkey" FOREIGN KEY ("doctorProfileId") REFERENCES "DoctorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
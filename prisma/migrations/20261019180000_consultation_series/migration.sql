@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "SeriesFrequency" AS ENUM ('WEEKLY', 'BIWEEKLY');
+
+-- AlterTable
+ALTER TABLE "Consultation" ADD COLUMN     "seriesId" TEXT,
+ADD COLUMN     "seriesIndex" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ConsultationSeries" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "specialty" TEXT NOT NULL,
+    "frequency" "SeriesFrequency" NOT NULL,
+    "occurrenceCount" INTEGER NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ConsultationSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ConsultationSeries_patientId_idx" ON "ConsultationSeries"("patientId");
+
+-- CreateIndex
+CREATE INDEX "ConsultationSeries_doctorId_idx" ON "ConsultationSeries"("doctorId");
+
+-- CreateIndex
+CREATE INDEX "Consultation_seriesId_idx" ON "Consultation"("seriesId");
+
+-- AddForeignKey
+ALTER TABLE "Consultation" ADD CONSTRAINT "Consultation_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "ConsultationSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConsultationSeries" ADD CONSTRAINT "ConsultationSeries_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConsultationSeries" ADD CONSTRAINT "ConsultationSeries_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
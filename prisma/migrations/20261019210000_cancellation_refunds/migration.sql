@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED');
+
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'PARTIALLY_REFUNDED';
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "providerRefundId" TEXT,
+ADD COLUMN     "refundAmount" INTEGER,
+ADD COLUMN     "refundStatus" "RefundStatus",
+ADD COLUMN     "refundedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_providerRefundId_key" ON "Payment"("providerRefundId");
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "RefundReason" AS ENUM ('CANCELLATION', 'CUSTOMER_REQUEST', 'SERVICE_ISSUE', 'DOCTOR_NO_SHOW', 'DUPLICATE_CHARGE', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "Refund" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "status" "RefundStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" "RefundReason" NOT NULL,
+    "note" TEXT,
+    "providerRefundId" TEXT,
+    "initiatedByUserId" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Refund_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "refundedAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- Move existing cancellation refunds into Refund rows
+INSERT INTO "Refund" ("id", "paymentId", "amount", "currency", "status", "reason", "providerRefundId", "completedAt", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, "id", "refundAmount", "currency", "refundStatus", 'CANCELLATION', "providerRefundId", "refundedAt", "updatedAt", "updatedAt"
+FROM "Payment"
+WHERE "refundStatus" IS NOT NULL AND "refundAmount" IS NOT NULL;
+
+UPDATE "Payment" SET "refundedAmount" = "refundAmount"
+WHERE "refundStatus" IN ('PENDING', 'COMPLETED') AND "refundAmount" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "Payment_providerRefundId_key";
+
+-- AlterTable
+ALTER TABLE "Payment" DROP COLUMN "providerRefundId",
+DROP COLUMN "refundAmount",
+DROP COLUMN "refundStatus",
+DROP COLUMN "refundedAt";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Refund_providerRefundId_key" ON "Refund"("providerRefundId");
+
+-- CreateIndex
+CREATE INDEX "Refund_paymentId_idx" ON "Refund"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "Refund_status_idx" ON "Refund"("status");
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_initiatedByUserId_fkey" FOREIGN KEY ("initiatedByUserId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
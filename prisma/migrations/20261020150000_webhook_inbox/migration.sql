@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "WebhookEventStatus" AS ENUM ('RECEIVED', 'PROCESSING', 'PROCESSED', 'FAILED', 'IGNORED');
+
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "processedAt" TIMESTAMP(3),
+ADD COLUMN     "status" "WebhookEventStatus" NOT NULL DEFAULT 'RECEIVED',
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Events stored so far had no handler
+UPDATE "WebhookEvent" SET "status" = 'IGNORED', "processedAt" = "createdAt";
+UPDATE "WebhookEvent" SET "eventId" = 'legacy-' || "id" WHERE "eventId" IS NULL;
+
+-- AlterTable
+ALTER TABLE "WebhookEvent" ALTER COLUMN "eventId" SET NOT NULL,
+ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_status_idx" ON "WebhookEvent"("status");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "Specialty" (
+    "id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "durationMinutes" INTEGER NOT NULL DEFAULT 30,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Specialty_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Specialty_active_idx" ON "Specialty"("active");
+
+-- Seed the catalog with the specialties (and prices) previously hardcoded in lib/constants.ts
+INSERT INTO "Specialty" ("id", "label", "price", "currency", "durationMinutes", "active", "updatedAt") VALUES
+    ('GENERAL', 'General Practice', 5000, 'USD', 30, true, CURRENT_TIMESTAMP),
+    ('CARDIOLOGY', 'Cardiology', 15000, 'USD', 30, true, CURRENT_TIMESTAMP),
+    ('DERMATOLOGY', 'Dermatology', 8500, 'USD', 15, true, CURRENT_TIMESTAMP),
+    ('PEDIATRICS', 'Pediatrics', 6500, 'USD', 30, true, CURRENT_TIMESTAMP),
+    ('PSYCHIATRY', 'Psychiatry', 12000, 'USD', 50, true, CURRENT_TIMESTAMP),
+    ('ORTHOPEDICS', 'Orthopedics', 11000, 'USD', 30, true, CURRENT_TIMESTAMP);
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Consultation" ADD COLUMN     "currency" TEXT,
+ADD COLUMN     "price" INTEGER;
+
+-- CreateTable
+CREATE TABLE "DoctorSpecialtyPrice" (
+    "id" TEXT NOT NULL,
+    "doctorProfileId" TEXT NOT NULL,
+    "specialty" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DoctorSpecialtyPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DoctorSpecialtyPrice_doctorProfileId_specialty_key" ON "DoctorSpecialtyPrice"("doctorProfileId", "specialty");
+
+-- AddForeignKey
+ALTER TABLE "DoctorSpecialtyPrice" ADD CONSTRAINT "DoctorSpecialtyPrice_doctorProfileId_fkey" FOREIGN KEY ("doctorProfileId") REFERENCES "DoctorProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Snapshot existing consultations at their specialty's catalog price, which is
+-- what checkout has charged so far. Unknown specialties stay NULL.
+UPDATE "Consultation" AS c
+SET "price" = s."price", "currency" = s."currency"
+FROM "Specialty" AS s
+WHERE c."specialty" = s."id" AND c."price" IS NULL;
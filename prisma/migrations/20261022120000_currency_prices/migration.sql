@@ -0,0 +1,23 @@
+-- DropIndex
+DROP INDEX "DoctorSpecialtyPrice_doctorProfileId_specialty_key";
+
+-- CreateTable
+CREATE TABLE "SpecialtyPrice" (
+    "id" TEXT NOT NULL,
+    "specialtyId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SpecialtyPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SpecialtyPrice_specialtyId_currency_key" ON "SpecialtyPrice"("specialtyId", "currency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DoctorSpecialtyPrice_doctorProfileId_specialty_currency_key" ON "DoctorSpecialtyPrice"("doctorProfileId", "specialty", "currency");
+
+-- AddForeignKey
+ALTER TABLE "SpecialtyPrice" ADD CONSTRAINT "SpecialtyPrice_specialtyId_fkey" FOREIGN KEY ("specialtyId") REFERENCES "Specialty"("id") ON DELETE CASCADE ON UPDATE CASCADE;
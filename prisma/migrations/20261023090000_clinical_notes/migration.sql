@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "ClinicalNoteStatus" AS ENUM ('DRAFT', 'SIGNED');
+
+-- CreateTable
+CREATE TABLE "ClinicalNote" (
+    "id" TEXT NOT NULL,
+    "consultationId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "status" "ClinicalNoteStatus" NOT NULL DEFAULT 'DRAFT',
+    "subjective" TEXT,
+    "objective" TEXT,
+    "assessment" TEXT,
+    "plan" TEXT,
+    "diagnosisCodes" TEXT[],
+    "signedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ClinicalNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ClinicalNoteAmendment" (
+    "id" TEXT NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "diagnosisCodes" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClinicalNoteAmendment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClinicalNote_consultationId_idx" ON "ClinicalNote"("consultationId");
+
+-- CreateIndex
+CREATE INDEX "ClinicalNote_authorId_idx" ON "ClinicalNote"("authorId");
+
+-- CreateIndex
+CREATE INDEX "ClinicalNoteAmendment_noteId_idx" ON "ClinicalNoteAmendment"("noteId");
+
+-- AddForeignKey
+ALTER TABLE "ClinicalNote" ADD CONSTRAINT "ClinicalNote_consultationId_fkey" FOREIGN KEY ("consultationId") REFERENCES "Consultation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClinicalNote" ADD CONSTRAINT "ClinicalNote_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClinicalNoteAmendment" ADD CONSTRAINT "ClinicalNoteAmendment_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "ClinicalNote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClinicalNoteAmendment" ADD CONSTRAINT "ClinicalNoteAmendment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
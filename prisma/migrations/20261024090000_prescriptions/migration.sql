@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "PrescriptionStatus" AS ENUM ('DRAFT', 'SIGNED');
+
+-- CreateTable
+CREATE TABLE "Prescription" (
+    "id" TEXT NOT NULL,
+    "consultationId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "prescriberId" TEXT NOT NULL,
+    "status" "PrescriptionStatus" NOT NULL DEFAULT 'DRAFT',
+    "allergies" TEXT[],
+    "warnings" JSONB,
+    "signedAt" TIMESTAMP(3),
+    "signatureHash" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Prescription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PrescriptionItem" (
+    "id" TEXT NOT NULL,
+    "prescriptionId" TEXT NOT NULL,
+    "drugId" TEXT NOT NULL,
+    "drugName" TEXT NOT NULL,
+    "strength" TEXT NOT NULL,
+    "form" TEXT NOT NULL,
+    "dose" TEXT NOT NULL,
+    "route" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "refills" INTEGER NOT NULL DEFAULT 0,
+    "instructions" TEXT,
+
+    CONSTRAINT "PrescriptionItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Prescription_consultationId_idx" ON "Prescription"("consultationId");
+
+-- CreateIndex
+CREATE INDEX "Prescription_patientId_status_idx" ON "Prescription"("patientId", "status");
+
+-- CreateIndex
+CREATE INDEX "Prescription_prescriberId_idx" ON "Prescription"("prescriberId");
+
+-- CreateIndex
+CREATE INDEX "PrescriptionItem_prescriptionId_idx" ON "PrescriptionItem"("prescriptionId");
+
+-- CreateIndex
+CREATE INDEX "PrescriptionItem_drugId_idx" ON "PrescriptionItem"("drugId");
+
+-- AddForeignKey
+ALTER TABLE "Prescription" ADD CONSTRAINT "Prescription_consultationId_fkey" FOREIGN KEY ("consultationId") REFERENCES "Consultation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Prescription" ADD CONSTRAINT "Prescription_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Prescription" ADD CONSTRAINT "Prescription_prescriberId_fkey" FOREIGN KEY ("prescriberId") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PrescriptionItem" ADD CONSTRAINT "PrescriptionItem_prescriptionId_fkey" FOREIGN KEY ("prescriptionId") REFERENCES "Prescription"("id") ON DELETE CASCADE ON UPDATE CASCADE;
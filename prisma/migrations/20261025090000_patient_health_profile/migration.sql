@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "PatientIntake" ADD COLUMN     "allergies" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "chronicConditions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "currentMedications" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "emergencyContactName" TEXT,
+ADD COLUMN     "emergencyContactPhone" TEXT,
+ADD COLUMN     "emergencyContactRelationship" TEXT,
+ADD COLUMN     "surgeries" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "PatientHealthProfile" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "nameOrAlias" TEXT,
+    "ageRange" TEXT,
+    "allergies" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "currentMedications" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "chronicConditions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "surgeries" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "emergencyContactName" TEXT,
+    "emergencyContactPhone" TEXT,
+    "emergencyContactRelationship" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PatientHealthProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PatientHealthProfile_patientId_key" ON "PatientHealthProfile"("patientId");
+
+-- AddForeignKey
+ALTER TABLE "PatientHealthProfile" ADD CONSTRAINT "PatientHealthProfile_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PatientIntake" ADD COLUMN     "questionnaire" JSONB;
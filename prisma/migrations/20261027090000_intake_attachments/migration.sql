@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "IntakeAttachment" (
+    "id" TEXT NOT NULL,
+    "intakeId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "sizeBytes" INTEGER NOT NULL,
+    "storageBackend" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IntakeAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IntakeAttachment_intakeId_idx" ON "IntakeAttachment"("intakeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IntakeAttachment_storageBackend_storageKey_key" ON "IntakeAttachment"("storageBackend", "storageKey");
+
+-- AddForeignKey
+ALTER TABLE "IntakeAttachment" ADD CONSTRAINT "IntakeAttachment_intakeId_fkey" FOREIGN KEY ("intakeId") REFERENCES "PatientIntake"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -4,6 +4,7 @@ import {
   UserRole,
   ConsultationStatus,
   PaymentStatus,
+  PromoDiscountType,
 } from "../app/generated/prisma/client";
 import { prisma } from "../lib/prisma";
 
@@ -16,17 +17,34 @@ if (!prisma) {
 // Test Data Configuration
 // ============================================
 
+// Matches the rows inserted by the specialty_catalog migration (prices in cents)
 const SPECIALTIES = [
-  "GENERAL",
-  "CARDIOLOGY",
-  "DERMATOLOGY",
-  "PEDIATRICS",
-  "ORTHOPEDICS",
-  "NEUROLOGY",
-  "PSYCHIATRY",
-  "ONCOLOGY",
+  { id: "GENERAL", label: "General Practice", price: 5000, durationMinutes: 30 },
+  { id: "CARDIOLOGY", label: "Cardiology", price: 15000, durationMinutes: 30 },
+  { id: "DERMATOLOGY", label: "Dermatology", price: 8500, durationMinutes: 15 },
+  { id: "PEDIATRICS", label: "Pediatrics", price: 6500, durationMinutes: 30 },
+  { id: "PSYCHIATRY", label: "Psychiatry", price: 12000, durationMinutes: 50 },
+  { id: "ORTHOPEDICS", label: "Orthopedics", price: 11000, durationMinutes: 30 },
 ];
 
+// Prices for patients in the UK and the euro area
+const SPECIALTY_PRICES: Record<string, { currency: string; price: number }[]> = {
+  GENERAL: [{ currency: "GBP", price: 4000 }, { currency: "EUR", price: 4500 }],
+  CARDIOLOGY: [{ currency: "GBP", price: 12000 }, { currency: "EUR", price: 14000 }],
+  DERMATOLOGY: [{ currency: "GBP", price: 7000 }, { currency: "EUR", price: 8000 }],
+  PEDIATRICS: [{ currency: "GBP", price: 5000 }, { currency: "EUR", price: 6000 }],
+  PSYCHIATRY: [{ currency: "GBP", price: 9500 }, { currency: "EUR", price: 11000 }],
+  ORTHOPEDICS: [{ currency: "GBP", price: 9000 }, { currency: "EUR", price: 10000 }],
+};
+
+function specialtyPrice(specialty: string): number {
+  const entry = SPECIALTIES.find((s) => s.id === specialty);
+  if (!entry) {
+    throw new Error(`Seed data uses unknown specialty: ${specialty}`);
+  }
+  return entry.price;
+}
+
 // ============================================
 // Utility Functions
 // ============================================
@@ -175,6 +193,61 @@ async function createUsers() {
   return createdUsers;
 }
 
+async function createSpecialties() {
+  console.log("🏷️  Creating specialty catalog...");
+
+  await Promise.all(
+    SPECIALTIES.map((specialty) =>
+      prisma.specialty.upsert({
+        where: { id: specialty.id },
+        update: {
+          ...specialty,
+          active: true,
+          prices: { deleteMany: {}, create: SPECIALTY_PRICES[specialty.id] },
+        },
+        create: { ...specialty, prices: { create: SPECIALTY_PRICES[specialty.id] } },
+      })
+    )
+  );
+
+  console.log(`   ✅ Created ${SPECIALTIES.length} specialties`);
+}
+
+async function createPromoCodes() {
+  console.log("🎟️  Creating promo codes...");
+
+  const promoCodes = [
+    {
+      code: "WELCOME10",
+      description: "10% off a first consultation",
+      discountType: PromoDiscountType.PERCENTAGE,
+      percentOff: 10,
+      maxRedemptionsPerPatient: 1,
+    },
+    {
+      code: "DERM20",
+      description: "$20 off dermatology",
+      discountType: PromoDiscountType.FIXED_AMOUNT,
+      amountOff: 2000,
+      currency: "USD",
+      specialties: ["DERMATOLOGY"],
+      maxRedemptions: 100,
+    },
+  ];
+
+  await Promise.all(
+    promoCodes.map((promoCode) =>
+      prisma.promoCode.upsert({
+        where: { code: promoCode.code },
+        update: promoCode,
+        create: promoCode,
+      })
+    )
+  );
+
+  console.log(`   ✅ Created ${promoCodes.length} promo codes`);
+}
+
 async function createDoctorProfiles(doctors: { id: string; name: string }[]) {
   console.log("🩺 Creating doctor profiles...");
 
@@ -199,7 +272,7 @@ async function createDoctorProfiles(doctors: { id: string; name: string }[]) {
     },
     {
       doctorId: doctors[3].id,
-      specialties: ["NEUROLOGY", "PSYCHIATRY"],
+      specialties: ["PSYCHIATRY", "ORTHOPEDICS"],
       licenseId: "MD-2024-004",
       timezone: "America/Denver",
     },
@@ -275,7 +348,7 @@ async function createConsultations(
       id: generateCUID(),
       patientId: patients[3].id,
       doctorId: null,
-      specialty: "General Practice",
+      specialty: "GENERAL",
       status: ConsultationStatus.PAYMENT_PENDING,
       scheduledStartAt: randomDate(now, oneWeekLater),
     },
@@ -292,7 +365,7 @@ async function createConsultations(
       id: generateCUID(),
       patientId: patients[0].id,
       doctorId: doctors[3].id,
-      specialty: "NEUROLOGY",
+      specialty: "PSYCHIATRY",
       status: ConsultationStatus.IN_CALL,
       scheduledStartAt: now,
       startedAt: now,
@@ -302,7 +375,7 @@ async function createConsultations(
       id: generateCUID(),
       patientId: patients[1].id,
       doctorId: doctors[0].id,
-      specialty: "General Practice",
+      specialty: "GENERAL",
       status: ConsultationStatus.CANCELLED,
       scheduledStartAt: randomDate(oneWeekAgo, now),
     },
@@ -311,7 +384,7 @@ async function createConsultations(
       id: generateCUID(),
       patientId: patients[2].id,
       doctorId: null,
-      specialty: "Cardiology",
+      specialty: "CARDIOLOGY",
       status: ConsultationStatus.EXPIRED,
       scheduledStartAt: randomDate(oneWeekAgo, now),
     },
@@ -320,7 +393,12 @@ async function createConsultations(
   const createdConsultations = await Promise.all(
     consultations.map((consultation) =>
       prisma.consultation.create({
-        data: consultation,
+        // Price agreed at booking: the catalog price (no doctor has own fees in the seed)
+        data: {
+          ...consultation,
+          price: specialtyPrice(consultation.specialty),
+          currency: "USD",
+        },
       })
     )
   );
@@ -371,7 +449,7 @@ async function createPatientIntakes(
 }
 
 async function createPayments(
-  consultations: { id: string; status: ConsultationStatus }[]
+  consultations: { id: string; status: ConsultationStatus; specialty: string }[]
 ) {
   console.log("💳 Creating payments...");
 
@@ -397,7 +475,7 @@ async function createPayments(
         consultationId: consultation.id,
         provider: "SQUARE",
         status: PaymentStatus.PAID,
-        amount: 9900, // $99.00
+        amount: specialtyPrice(consultation.specialty),
         currency: "USD",
         providerCheckoutId: `chkout_${generateCUID()}`,
         providerPaymentId: `pay_${generateCUID()}`,
@@ -409,7 +487,7 @@ async function createPayments(
         consultationId: consultation.id,
         provider: "SQUARE",
         status: PaymentStatus.PENDING,
-        amount: 9900,
+        amount: specialtyPrice(consultation.specialty),
         currency: "USD",
         providerCheckoutId: `chkout_${generateCUID()}`,
       });
@@ -418,7 +496,7 @@ async function createPayments(
         consultationId: consultation.id,
         provider: "SQUARE",
         status: PaymentStatus.FAILED,
-        amount: 9900,
+        amount: specialtyPrice(consultation.specialty),
         currency: "USD",
         providerCheckoutId: `chkout_${generateCUID()}`,
       });
@@ -427,7 +505,7 @@ async function createPayments(
         consultationId: consultation.id,
         provider: "SQUARE",
         status: PaymentStatus.REFUNDED,
-        amount: 9900,
+        amount: specialtyPrice(consultation.specialty),
         currency: "USD",
         providerCheckoutId: `chkout_${generateCUID()}`,
         providerPaymentId: `pay_${generateCUID()}`,
@@ -561,6 +639,10 @@ async function main() {
     await prisma.verification.deleteMany();
     console.log("   ✅ Cleanup complete\n");
 
+    // The specialty catalog is referenced by profiles and consultations
+    await createSpecialties();
+    await createPromoCodes();
+
     // Create users first
     const users = await createUsers();
 
@@ -0,0 +1,53 @@
+/**
+ * Expire abandoned Square checkouts (lib/payment-reaper.ts).
+ *
+ * Usage: pnpm payments:reap [--stale-minutes=30] [--limit=50]
+ */
+
+import "dotenv/config";
+
+import { prisma } from "../lib/prisma";
+import { reapStalePayments } from "../lib/payment-reaper";
+
+function numberArg(name: string): number | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  if (!arg) return undefined;
+
+  const value = Number(arg.split("=")[1]);
+  if (!Number.isInteger(value) || value <= 0) {
+    console.error(`--${name} must be a positive integer`);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function main() {
+  const staleMinutes = numberArg("stale-minutes");
+  const summary = await reapStalePayments({
+    staleAfterMs: staleMinutes ? staleMinutes * 60 * 1000 : undefined,
+    limit: numberArg("limit"),
+  });
+
+  for (const result of summary.results) {
+    console.log(
+      `${result.paymentId} (consultation ${result.consultationId}): ${result.outcome}` +
+        (result.error ? ` - ${result.error}` : "")
+    );
+  }
+  console.log(`Checked ${summary.checked} stale payment(s)`);
+
+  if (summary.results.some((r) => r.outcome === "ERROR")) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+    // The Redis client used for slot locks would otherwise keep the process alive
+    process.exit();
+  });
@@ -0,0 +1,49 @@
+/**
+ * Persist EXPIRED for consultations whose appointment has ended
+ * (lib/consultation-sweeper.ts).
+ *
+ * Usage: pnpm consultations:expire [--limit=100]
+ */
+
+import "dotenv/config";
+
+import { prisma } from "../lib/prisma";
+import { sweepExpiredConsultations } from "../lib/consultation-sweeper";
+
+function numberArg(name: string): number | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  if (!arg) return undefined;
+
+  const value = Number(arg.split("=")[1]);
+  if (!Number.isInteger(value) || value <= 0) {
+    console.error(`--${name} must be a positive integer`);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function main() {
+  const summary = await sweepExpiredConsultations({ limit: numberArg("limit") });
+
+  for (const result of summary.results) {
+    console.log(
+      `${result.consultationId} (${result.from}): ${result.outcome}` +
+        (result.error ? ` - ${result.error}` : "")
+    );
+  }
+  console.log(`Checked ${summary.checked} ended consultation(s)`);
+
+  if (summary.results.some((r) => r.outcome === "ERROR")) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+    process.exit();
+  });